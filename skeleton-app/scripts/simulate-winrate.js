@@ -0,0 +1,108 @@
+/**
+ * simulate-winrate - デッキ勝率シミュレーションの CLI
+ *
+ * Vite のモジュールランナーでアプリ層のシミュレーターを読み込み、
+ * プリセットデッキ（またはデッキレシピの JSON ファイル）の勝率を集計して表示する。
+ *
+ * 使い方:
+ *   npm run simulate -- <deckId | recipe.json> [--games 100] [--seed 1] [--max-nodes 2000] [--json]
+ */
+
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { createServer, createServerModuleRunner } from "vite";
+import { sveltekit } from "@sveltejs/kit/vite";
+
+const USAGE = "Usage: npm run simulate -- <deckId | recipe.json> [--games 100] [--seed N] [--max-nodes N] [--json]";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    games: { type: "string", default: "100" },
+    seed: { type: "string" },
+    "max-nodes": { type: "string" },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", default: false },
+  },
+});
+
+// 数値オプションを検証して返す
+function parseCount(name, value) {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer: ${value}`);
+  }
+  return parsed;
+}
+
+const formatPercent = (ratio) => `${(ratio * 100).toFixed(1)}%`;
+
+// 集計結果を表形式で表示する
+function printReport(report) {
+  const lines = [
+    `デッキ: ${report.deckName}`,
+    `シード: ${report.seed}`,
+    `試行回数: ${report.games}`,
+    `勝率: ${formatPercent(report.winRate)} (${report.wins}/${report.games})`,
+    `事故率: ${formatPercent(report.deadHandRate)}`,
+    `平均リソース（デッキから得たカード枚数）: ${report.averageCardsFromDeck.toFixed(2)}`,
+    `平均操作数: ${report.averageActionCount.toFixed(2)}`,
+    `最多の敗因: ${report.mostCommonFailureReason ?? "-"}`,
+    ...Object.entries(report.failureReasons).map(([reason, count]) => `  ${reason}: ${count}`),
+  ];
+  console.log(lines.join("\n"));
+}
+
+async function main() {
+  const [target] = positionals;
+  if (values.help || !target) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  // ビルド用のプラグインを含まない最小構成（$lib エイリアスと ?raw インポートのみ必要）
+  const server = await createServer({
+    configFile: false,
+    plugins: [sveltekit()],
+    server: { middlewareMode: true, hmr: false, ws: false },
+    appType: "custom",
+    logLevel: "error",
+  });
+  const runner = createServerModuleRunner(server.environments.ssr, { hmr: false });
+
+  try {
+    const { runWinRateSimulation } = await runner.import("/src/lib/application/simulation/winRateSimulator.ts");
+    const { getDeckRecipe } = await runner.import("/src/lib/application/decks/deckLoader.ts");
+    const { parseDeckRecipe } = await runner.import("/src/lib/application/decks/deckRecipeCodec.ts");
+
+    const deckRecipe = target.endsWith(".json")
+      ? parseDeckRecipe(await readFile(target, "utf-8"))
+      : getDeckRecipe(target);
+    const games = parseCount("games", values.games);
+    const report = await runWinRateSimulation(deckRecipe, {
+      games,
+      seed: parseCount("seed", values.seed),
+      maxNodes: parseCount("max-nodes", values["max-nodes"]),
+      onProgress: (completed, total) => {
+        if (!values.json) process.stderr.write(`\r${completed}/${total}`);
+      },
+    });
+    if (!values.json) process.stderr.write("\n");
+
+    if (values.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printReport(report);
+    }
+  } finally {
+    await runner.close();
+    await server.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
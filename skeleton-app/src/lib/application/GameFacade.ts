@@ -9,17 +9,45 @@
  * @module application/GameFacade
  */
 
+import { get as getStoreValue } from "svelte/store";
 import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
 import type { GameCommand, GameCommandResult } from "$lib/domain/models/Command";
+import type { GamePhase } from "$lib/domain/models/GameState";
 import { AdvancePhaseCommand } from "$lib/domain/commands/AdvancePhaseCommand";
 import { NormalSummonCommand } from "$lib/domain/commands/NormalSummonCommand";
 import { SetSpellTrapCommand } from "$lib/domain/commands/SetSpellTrapCommand";
 import { ActivateSpellCommand } from "$lib/domain/commands/ActivateSpellCommand";
+import { ActivateTrapCommand } from "$lib/domain/commands/ActivateTrapCommand";
 import { ActivateIgnitionEffectCommand } from "$lib/domain/commands/ActivateIgnitionEffectCommand";
 import { SynchroSummonCommand } from "$lib/domain/commands/SynchroSummonCommand";
-import { registerCardDataByIds, registerCardDataWithEffectsByIds } from "$lib/domain/cards";
-import type { DeckData, DeckRecipe } from "$lib/application/types/deck";
-import { getDeckRecipe, extractUniqueCardIds, buildDeckData } from "$lib/application/decks/deckLoader";
+import { XyzSummonCommand } from "$lib/domain/commands/XyzSummonCommand";
+import { LinkSummonCommand } from "$lib/domain/commands/LinkSummonCommand";
+import { AttackCommand } from "$lib/domain/commands/AttackCommand";
+import { SurrenderCommand } from "$lib/domain/commands/SurrenderCommand";
+import {
+  CardDataRegistry,
+  getDeckBuildableCardIds,
+  registerCardDataByIds,
+  registerCardDataWithEffectsByIds,
+} from "$lib/domain/cards";
+import type { DeckData, DeckRecipe, DeckSummary } from "$lib/application/types/deck";
+import type { CardData } from "$lib/application/types/card";
+import type { SaveSlotSummary, UnreadableSaveSlot } from "$lib/application/types/game";
+import {
+  getDeckRecipe,
+  getPresetDecks,
+  createCustomDeckId,
+  isCustomDeckId,
+  extractUniqueCardIds,
+  buildDeckData,
+} from "$lib/application/decks/deckLoader";
+import { parseDeckRecipe, serializeDeckRecipe } from "$lib/application/decks/deckRecipeCodec";
+import type { DeckValidationResult } from "$lib/application/decks/deckValidator";
+import { validateDeckRecipe } from "$lib/application/decks/deckValidator";
+import type { IDeckRecipeRepository } from "$lib/application/ports/IDeckRecipeRepository";
+import type { DeckFormat, FormatLegalityResult } from "$lib/application/types/format";
+import { getFormat, getPresetFormats, validateFormatLegality } from "$lib/application/formats/formatLegality";
 import {
   gameStateStore,
   resetGameState,
@@ -27,16 +55,102 @@ import {
   getCurrentGameState,
 } from "$lib/application/stores/gameStateStore";
 import { effectQueueStore } from "$lib/application/stores/effectQueueStore";
-import type { IGameSnapshotRepository } from "$lib/application/ports/IGameSnapshotRepository";
+import { isEffectProcessingIdle } from "$lib/application/stores/derivedStores";
+import type {
+  IGameSnapshotRepository,
+  SavedGameState,
+  SaveSlotMetadata,
+} from "$lib/application/ports/IGameSnapshotRepository";
+import { AUTO_SAVE_SLOT_ID, CURRENT_SAVE_VERSION } from "$lib/application/ports/IGameSnapshotRepository";
+import { encodePosition, decodePosition } from "$lib/application/position/positionCodec";
+import { serializeSavedGame, parseSavedGame, SavedGameMigrationError } from "$lib/application/saves/savedGameCodec";
+import type {
+  GameReplay,
+  ReplayEntry,
+  ReplayCommandArg,
+  ReplayCommandEntry,
+  ReplayCommandName,
+} from "$lib/application/types/replay";
+import { REPLAY_FORMAT_VERSION } from "$lib/application/types/replay";
+import type { GameHint } from "$lib/application/types/hint";
+import { computeHint } from "$lib/application/hint/hintAdvisor";
+import type { IPuzzleProgressRepository } from "$lib/application/ports/IPuzzleProgressRepository";
+import type { PuzzleDefinition, PuzzleStatus, PuzzleSummary } from "$lib/application/types/puzzle";
+import { PUZZLE_GOAL_LABELS } from "$lib/application/types/puzzle";
+import {
+  getPuzzle,
+  getPresetPuzzles,
+  extractPuzzleCardIds,
+  createPuzzleSnapshot,
+  evaluatePuzzleGoal,
+} from "$lib/application/puzzles/puzzleLoader";
 
 /** GameFacadeのメソッドが返す結果型（プレゼン層への公開用） */
 export type FacadeResult = Readonly<Pick<GameCommandResult, "success" | "message" | "error">>;
 
+/** カスタムデッキ保存の結果（成功時は保存先のデッキIDを含む） */
+export type SaveCustomDeckResult = FacadeResult & { readonly deckId?: string };
+
+/** 新規ゲーム開始時のオプション */
+export interface NewGameOptions {
+  /** 乱数シード（省略時はランダム） */
+  readonly seed?: number;
+  /** 後攻1ターン目から開始する（バトルフェイズを行える。後攻ワンキルの練習用） */
+  readonly goingSecond?: boolean;
+}
+
+/** GameCommand のコンストラクタ型 */
+type GameCommandClass = new (...args: never[]) => GameCommand;
+
+/** リプレイ記録名と GameCommand クラスの対応表 */
+const REPLAYABLE_COMMANDS: Record<ReplayCommandName, GameCommandClass> = {
+  advancePhase: AdvancePhaseCommand,
+  normalSummon: NormalSummonCommand,
+  setSpellTrap: SetSpellTrapCommand,
+  activateSpell: ActivateSpellCommand,
+  activateTrap: ActivateTrapCommand,
+  activateIgnitionEffect: ActivateIgnitionEffectCommand,
+  synchroSummon: SynchroSummonCommand,
+  xyzSummon: XyzSummonCommand,
+  linkSummon: LinkSummonCommand,
+  attack: AttackCommand,
+  surrender: SurrenderCommand,
+};
+
+// GameCommand クラスからリプレイ記録名を引く
+function findReplayCommandName(CommandClass: unknown): ReplayCommandName | undefined {
+  return (Object.keys(REPLAYABLE_COMMANDS) as ReplayCommandName[]).find(
+    (name) => REPLAYABLE_COMMANDS[name] === CommandClass,
+  );
+}
+
+/** 記録中の操作履歴 */
+interface ReplayLog {
+  deckId?: string;
+  readonly deckRecipe: DeckRecipe;
+  readonly seed: number;
+  readonly goingSecond: boolean;
+  entries: ReplayEntry[];
+}
+
+/** Undo/Redo 用の履歴エントリ（操作前後のスナップショットと、その時点までの操作履歴） */
+interface HistoryEntry {
+  readonly snapshot: GameSnapshot;
+  readonly replayEntries: readonly ReplayEntry[];
+}
+
 /**
  * 全ゲーム操作の唯一の入り口（Single Entry Point）
  */
 export class GameFacade {
   private snapshotRepository: IGameSnapshotRepository | null = null;
+  private puzzleProgressRepository: IPuzzleProgressRepository | null = null;
+  private deckRecipeRepository: IDeckRecipeRepository | null = null;
+  private activePuzzle: PuzzleDefinition | null = null;
+  private replayLog: ReplayLog | null = null;
+  private goingSecond = false;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
 
   /** 各種 GameCommand の実行可否チェックのヘルパー */
   private canExecuteCommand<T extends GameCommand, Args extends unknown[]>(
@@ -59,12 +173,68 @@ export class GameFacade {
     const result = command.execute(currentState);
 
     if (result.success) {
+      this.pushUndoHistory(currentState);
+      this.recordCommand(CommandClass, params);
       this.applyCommandResult(result);
     }
 
     return result;
   }
 
+  /** 実行に成功したコマンドを操作履歴に記録する */
+  private recordCommand(CommandClass: unknown, params: unknown[]): void {
+    const command = findReplayCommandName(CommandClass);
+    if (!this.replayLog || !command) return;
+    this.replayLog.entries.push({ type: "command", command, args: params as ReplayCommandArg[] });
+  }
+
+  /** 途中局面を復元する（途中局面からは操作履歴を再現できないため、記録を打ち切る） */
+  private restoreSnapshot(snapshot: GameSnapshot): void {
+    restoreGameState(snapshot);
+    this.replayLog = null;
+    this.goingSecond = false;
+    this.activePuzzle = null;
+    effectQueueStore.registerInteractionRecorder(null);
+    this.clearHistory();
+  }
+
+  /** 現在の局面を履歴エントリとして取得する（snapshot 省略時は現在のゲーム状態） */
+  private captureHistory(snapshot: GameSnapshot = getCurrentGameState()): HistoryEntry {
+    return { snapshot, replayEntries: [...(this.replayLog?.entries ?? [])] };
+  }
+
+  /** プレイヤー操作前の局面を Undo 履歴に積む（新しい操作により Redo 履歴は破棄する） */
+  private pushUndoHistory(snapshot: GameSnapshot): void {
+    this.undoStack.push(this.captureHistory(snapshot));
+    this.redoStack = [];
+  }
+
+  /** 履歴エントリの局面に戻す */
+  private applyHistory(entry: HistoryEntry): void {
+    restoreGameState(entry.snapshot);
+    if (this.replayLog) {
+      this.replayLog.entries = [...entry.replayEntries];
+    }
+  }
+
+  /** Undo/Redo 履歴を破棄する */
+  private clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  /** 操作履歴の記録を開始する（effectQueueStore へのユーザー回答も記録対象にする） */
+  private beginReplayLog(deckRecipe: DeckRecipe, goingSecond: boolean, deckId?: string): void {
+    const log: ReplayLog = { deckId, deckRecipe, seed: this.getSeed(), goingSecond, entries: [] };
+    this.replayLog = log;
+    this.goingSecond = goingSecond;
+    this.activePuzzle = null;
+    this.clearHistory();
+    effectQueueStore.registerInteractionRecorder((answer) => {
+      log.entries.push({ type: "answer", answer });
+    });
+  }
+
   /** コマンド結果を適用する */
   private applyCommandResult(result: GameCommandResult) {
     gameStateStore.set(result.updatedState);
@@ -78,7 +248,7 @@ export class GameFacade {
    * skipEffects=true: カードデータのみ登録。レシピ表示用。
    */
   setupDeck(deckId: string, skipEffects = false): DeckData {
-    const deckRecipe = getDeckRecipe(deckId);
+    const deckRecipe = this.getDeckRecipe(deckId);
     const cardIds = extractUniqueCardIds(deckRecipe);
     if (skipEffects) {
       registerCardDataByIds(cardIds);
@@ -88,47 +258,306 @@ export class GameFacade {
     return buildDeckData(deckRecipe, cardIds);
   }
 
+  /** デッキレシピリポジトリを設定する（プレゼン層から DI） */
+  setDeckRecipeRepository(repo: IDeckRecipeRepository): void {
+    this.deckRecipeRepository = repo;
+  }
+
+  /** 保存済みのカスタムデッキのレシピを読み込む（読み込めないレシピは除く） */
+  private loadCustomDeckRecipes(): Record<string, DeckRecipe> {
+    const recipes: Record<string, DeckRecipe> = {};
+    for (const { deckId, json } of this.deckRecipeRepository?.list() ?? []) {
+      try {
+        recipes[deckId] = parseDeckRecipe(json);
+      } catch (error) {
+        console.error(`[GameFacade] Failed to load custom deck "${deckId}":`, error);
+      }
+    }
+    return recipes;
+  }
+
+  /**
+   * デッキIDからデッキレシピを取得する（プリセットデッキ・カスタムデッキ）
+   *
+   * @throws Error デッキが見つからない場合
+   */
+  getDeckRecipe(deckId: string): DeckRecipe {
+    return getDeckRecipe(deckId, isCustomDeckId(deckId) ? this.loadCustomDeckRecipes() : {});
+  }
+
+  /** 選択可能なデッキの一覧を返す（プリセットデッキの後にカスタムデッキを名前順で並べる） */
+  listDecks(): DeckSummary[] {
+    const customDecks = Object.entries(this.loadCustomDeckRecipes())
+      .map(([id, recipe]) => ({ id, name: recipe.name, isCustom: true }))
+      .sort((a, b) => a.name.localeCompare(b.name, "ja"));
+    return [...getPresetDecks().map((deck) => ({ ...deck, isCustom: false })), ...customDecks];
+  }
+
+  /**
+   * デッキ構築に使えるカードの一覧を返す
+   *
+   * カードプールの CardData をレジストリに登録する（効果は登録しない）。
+   */
+  getDeckBuilderCards(): CardData[] {
+    const cardIds = getDeckBuildableCardIds();
+    registerCardDataByIds(cardIds);
+    return cardIds.map((cardId) => CardDataRegistry.get(cardId));
+  }
+
+  /** デッキレシピが構築ルールを満たすか検証する（カードプール外のカードは使用不可） */
+  validateCustomDeck(recipe: DeckRecipe): DeckValidationResult {
+    const cardPool = new Map(this.getDeckBuilderCards().map((card) => [card.id, card]));
+    return validateDeckRecipe(recipe, (cardId) => cardPool.get(cardId));
+  }
+
+  /** 選択可能なフォーマット（禁止・制限リスト）の一覧を返す（先頭が既定のフォーマット） */
+  listFormats(): DeckFormat[] {
+    return getPresetFormats();
+  }
+
+  /**
+   * デッキレシピがフォーマットで使用できるか判定する
+   *
+   * @throws Error 指定IDのフォーマットが存在しない場合
+   */
+  checkFormatLegality(recipe: DeckRecipe, formatId: string): FormatLegalityResult {
+    const cardPool = new Map(this.getDeckBuilderCards().map((card) => [card.id, card]));
+    return validateFormatLegality(recipe, getFormat(formatId), (cardId) => cardPool.get(cardId));
+  }
+
+  /**
+   * カスタムデッキを保存する
+   *
+   * 構築ルールを満たさない場合は保存しない。
+   *
+   * @param recipe 保存するデッキレシピ
+   * @param deckId 上書きするカスタムデッキのID（省略時は新規作成）
+   */
+  saveCustomDeck(recipe: DeckRecipe, deckId: string = createCustomDeckId()): SaveCustomDeckResult {
+    if (!this.deckRecipeRepository) {
+      return { success: false, error: "デッキを保存できません" };
+    }
+    if (!isCustomDeckId(deckId)) {
+      return { success: false, error: `カスタムデッキのIDではありません: ${deckId}` };
+    }
+    const validation = this.validateCustomDeck(recipe);
+    if (!validation.isValid) {
+      return { success: false, error: validation.errors.join("\n") };
+    }
+
+    this.deckRecipeRepository.save(deckId, serializeDeckRecipe(recipe));
+    return { success: true, message: `「${recipe.name}」を保存しました`, deckId };
+  }
+
+  /** カスタムデッキを削除する */
+  deleteCustomDeck(deckId: string): void {
+    if (!isCustomDeckId(deckId)) return;
+    this.deckRecipeRepository?.delete(deckId);
+  }
+
   /** ゲーム状態リポジトリを設定する（プレゼン層から DI） */
   setSnapshotRepository(repo: IGameSnapshotRepository): void {
     this.snapshotRepository = repo;
   }
 
-  /** 現在のゲーム状態を保存する */
+  /** 現在のゲーム状態をセーブスロットに書き込む */
+  private writeSaveSlot(repo: IGameSnapshotRepository, slotId: string, name: string, deckId: string): SaveSlotMetadata {
+    const snapshot = getCurrentGameState();
+    const metadata: SaveSlotMetadata = {
+      slotId,
+      name,
+      deckId,
+      deckName: this.replayLog?.deckRecipe.name ?? this.getDeckRecipe(deckId).name,
+      turn: snapshot.turn,
+      phase: snapshot.phase,
+      lp: { ...snapshot.lp },
+      savedAt: Date.now(),
+    };
+    repo.save(slotId, serializeSavedGame({ version: CURRENT_SAVE_VERSION, deckId, snapshot, metadata }));
+    return metadata;
+  }
+
+  /** 保存済みの全スロットを読み込む（読み込めないスロットは移行エラーとして返す） */
+  private readSaveSlots(): (SavedGameState | SavedGameMigrationError)[] {
+    return (this.snapshotRepository?.list() ?? []).map(({ slotId, json }) => {
+      try {
+        return parseSavedGame(json, slotId);
+      } catch (error) {
+        if (error instanceof SavedGameMigrationError) return error;
+        throw error;
+      }
+    });
+  }
+
+  /** 現在のゲーム状態を自動保存スロットに保存する */
   saveGame(deckId: string): void {
     if (!this.snapshotRepository) return;
-    this.snapshotRepository.save(deckId, getCurrentGameState());
+    this.writeSaveSlot(this.snapshotRepository, AUTO_SAVE_SLOT_ID, "自動保存", deckId);
   }
 
   /**
-   * 保存済みゲーム状態のスナップショットのみ復元する
+   * 現在のゲーム状態を名前付きのスロットに保存する
    *
+   * slotId を省略すると新しいスロットを作成し、指定すると上書きする。
+   * リポジトリ未設定の場合は null を返す。
+   */
+  saveGameToSlot(deckId: string, name: string, slotId?: string): SaveSlotMetadata | null {
+    if (!this.snapshotRepository) return null;
+    const id = slotId ?? `manual-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    return this.writeSaveSlot(this.snapshotRepository, id, name, deckId);
+  }
+
+  /**
+   * 保存済みゲーム状態のスナップショットのみ復元する（slotId 省略時は自動保存スロット）
+   *
+   * 旧バージョンの保存データは現在の形式に移行してから復元する。
+   * 移行できない場合は保存データを残したまま、原因を含むエラーを返す。
    * レジストリは呼び出し前に setupDeck で構築済みであることを前提とする。
    */
-  restoreGame(): void {
-    if (!this.snapshotRepository) return;
-    const saved = this.snapshotRepository.load();
-    if (!saved) return;
-    restoreGameState(saved.snapshot);
+  restoreGame(slotId: string = AUTO_SAVE_SLOT_ID): FacadeResult {
+    const json = this.snapshotRepository?.load(slotId) ?? null;
+    if (json === null) {
+      return { success: false, error: "保存データが見つかりません" };
+    }
+
+    let saved: SavedGameState;
+    try {
+      saved = parseSavedGame(json, slotId);
+    } catch (error) {
+      if (error instanceof SavedGameMigrationError) return { success: false, error: error.message };
+      throw error;
+    }
+
+    this.restoreSnapshot(saved.snapshot);
+    return { success: true };
+  }
+
+  /** 現在の局面を共有用の文字列（局面コード）に変換する */
+  getPositionCode(): string {
+    return encodePosition(getCurrentGameState());
+  }
+
+  /**
+   * 局面コードから局面を復元する
+   *
+   * レジストリは呼び出し前に setupDeck で局面に含まれるカードを登録済みであることを前提とする。
+   */
+  restorePosition(code: string): FacadeResult {
+    let snapshot: GameSnapshot;
+    try {
+      snapshot = decodePosition(code, CardDataRegistry.getCard);
+    } catch (error) {
+      return {
+        success: false,
+        error: `局面を読み込めません: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    this.restoreSnapshot(snapshot);
+    return { success: true };
+  }
+
+  /** パズル進捗リポジトリを設定する（プレゼン層から DI） */
+  setPuzzleProgressRepository(repo: IPuzzleProgressRepository): void {
+    this.puzzleProgressRepository = repo;
+  }
+
+  /** プリセットパズルの一覧を進捗とあわせて返す */
+  listPuzzles(): PuzzleSummary[] {
+    const progress = this.puzzleProgressRepository?.load() ?? {};
+    return getPresetPuzzles().map(({ id, name, description, goal }) => ({
+      id,
+      name,
+      description,
+      goalLabel: PUZZLE_GOAL_LABELS[goal],
+      attempts: progress[id]?.attempts ?? 0,
+      clearedAt: progress[id]?.clearedAt ?? null,
+    }));
+  }
+
+  /**
+   * パズルを開始する
+   *
+   * 全レジストリをパズルのカードで更新し、パズルの開始局面に置き換えて挑戦回数を記録する。
+   * 開始局面はデッキレシピとシードから再現できないため、操作履歴（リプレイ）は記録しない。
+   */
+  startPuzzle(puzzleId: string): PuzzleDefinition {
+    const puzzle = getPuzzle(puzzleId);
+    registerCardDataWithEffectsByIds(extractPuzzleCardIds(puzzle));
+    this.restoreSnapshot(createPuzzleSnapshot(puzzle, CardDataRegistry.getCard));
+    this.activePuzzle = puzzle;
+
+    const repo = this.puzzleProgressRepository;
+    if (repo) {
+      const progress = repo.load();
+      const entry = progress[puzzle.id];
+      repo.save({
+        ...progress,
+        [puzzle.id]: { attempts: (entry?.attempts ?? 0) + 1, clearedAt: entry?.clearedAt ?? null },
+      });
+    }
+    return puzzle;
+  }
+
+  /**
+   * 現在の局面でパズルの達成状況を判定し、初めてクリアした場合は進捗に記録する
+   *
+   * パズル挑戦中でない場合は null を返す。効果処理・チェーンの進行中は挑戦中として扱う。
+   */
+  updatePuzzleProgress(): PuzzleStatus | null {
+    if (!this.activePuzzle) return null;
+    if (!getStoreValue(isEffectProcessingIdle)) return "inProgress";
+
+    const status = evaluatePuzzleGoal(this.activePuzzle.goal, getCurrentGameState());
+    const repo = this.puzzleProgressRepository;
+    if (status === "cleared" && repo) {
+      const progress = repo.load();
+      const entry = progress[this.activePuzzle.id];
+      if (!entry?.clearedAt) {
+        repo.save({
+          ...progress,
+          [this.activePuzzle.id]: { attempts: entry?.attempts ?? 1, clearedAt: Date.now() },
+        });
+      }
+    }
+    return status;
+  }
+
+  /** 保存済みのセーブスロットを新しい順に返す */
+  listSaveSlots(): SaveSlotSummary[] {
+    return this.readSaveSlots()
+      .filter((saved): saved is SavedGameState => !(saved instanceof SavedGameMigrationError))
+      .map(({ metadata }) => ({ ...metadata, phaseName: GameState.Phase.displayName(metadata.phase) }))
+      .sort((a, b) => b.savedAt - a.savedAt);
+  }
+
+  /** 移行・検証に失敗して読み込めないセーブスロットを返す */
+  listUnreadableSaveSlots(): UnreadableSaveSlot[] {
+    return this.readSaveSlots()
+      .filter((saved): saved is SavedGameMigrationError => saved instanceof SavedGameMigrationError)
+      .map(({ slotId, message, issues }) => ({ slotId, error: message, issues }));
   }
 
-  /** 保存済みゲームのデッキIDを返す（なければ null） */
-  getSavedDeckId(): string | null {
-    return this.snapshotRepository?.load()?.deckId ?? null;
+  /** セーブスロットを削除する */
+  deleteSaveSlot(slotId: string): void {
+    this.snapshotRepository?.delete(slotId);
   }
 
-  /** 保存済みゲーム状態を削除する */
+  /** 自動保存スロットのゲーム状態を削除する */
   clearSavedGame(): void {
-    this.snapshotRepository?.clear();
+    this.snapshotRepository?.delete(AUTO_SAVE_SLOT_ID);
   }
 
   /**
    * 新規ゲームを開始する
    *
    * 全レジストリを更新し、ゲーム状態をリセットする。
+   * seed を指定すると、同じデッキ・同じ操作で同じデュエルを再現できる。
    */
-  newGame(deckId: string): DeckData {
+  newGame(deckId: string, options?: NewGameOptions): DeckData {
     const deckData = this.setupDeck(deckId);
-    this.resetGame(getDeckRecipe(deckId));
+    const deckRecipe = this.getDeckRecipe(deckId);
+    resetGameState(deckRecipe, options);
+    this.beginReplayLog(deckRecipe, options?.goingSecond ?? false, deckId);
     return deckData;
   }
 
@@ -138,8 +567,113 @@ export class GameFacade {
    * レジストリを維持したまま、ゲーム状態を初期化する。
    * テストやリトライ用途向け。
    */
-  resetGame(deckRecipe: DeckRecipe): void {
-    resetGameState(deckRecipe);
+  resetGame(deckRecipe: DeckRecipe, options?: NewGameOptions): void {
+    resetGameState(deckRecipe, options);
+    this.beginReplayLog(deckRecipe, options?.goingSecond ?? false);
+  }
+
+  /**
+   * リプレイの開始局面でゲームを開始する
+   *
+   * リプレイのデッキレシピとシードでゲーム状態をリセットする。
+   * レジストリは呼び出し前に setupDeck で構築済みであることを前提とする。
+   */
+  startReplayGame(replay: GameReplay): void {
+    resetGameState(replay.deckRecipe, { seed: replay.seed, goingSecond: replay.goingSecond });
+    this.beginReplayLog(replay.deckRecipe, replay.goingSecond ?? false, replay.deckId);
+  }
+
+  /** リプレイに記録されたコマンドを再実行する */
+  executeReplayCommand(entry: ReplayCommandEntry): FacadeResult {
+    const CommandClass = REPLAYABLE_COMMANDS[entry.command] as new (...args: ReplayCommandArg[]) => GameCommand;
+    return this.executeCommand(CommandClass, ...entry.args);
+  }
+
+  /**
+   * 現在のゲームの操作履歴をリプレイとして取得する
+   *
+   * 新規ゲーム開始以降の履歴のみ記録する。復元したゲームなど、履歴がない場合は null を返す。
+   */
+  exportReplay(): GameReplay | null {
+    if (!this.replayLog) return null;
+    const { deckId, deckRecipe, seed, goingSecond, entries } = this.replayLog;
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      ...(deckId !== undefined && { deckId }),
+      deckRecipe,
+      seed,
+      ...(goingSecond && { goingSecond }),
+      entries: [...entries],
+    };
+  }
+
+  /** 直前のプレイヤー操作を取り消せるかどうか（効果処理・チェーンの進行中は不可） */
+  canUndo(): boolean {
+    return this.undoStack.length > 0 && getStoreValue(isEffectProcessingIdle);
+  }
+
+  /**
+   * 直前のプレイヤー操作を取り消す
+   *
+   * 操作前のスナップショットに戻す。操作から続いたチェーン・効果処理の結果もまとめて取り消される。
+   */
+  undo(): FacadeResult {
+    if (!getStoreValue(isEffectProcessingIdle)) {
+      return { success: false, error: "効果処理中は操作を取り消せません" };
+    }
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return { success: false, error: "取り消せる操作がありません" };
+    }
+
+    this.redoStack.push(this.captureHistory());
+    this.applyHistory(entry);
+    return { success: true, message: "操作を取り消しました" };
+  }
+
+  /** 取り消した操作をやり直せるかどうか（効果処理・チェーンの進行中は不可） */
+  canRedo(): boolean {
+    return this.redoStack.length > 0 && getStoreValue(isEffectProcessingIdle);
+  }
+
+  /** 取り消した操作をやり直す（操作から続いたチェーン・効果処理の結果まで復元する） */
+  redo(): FacadeResult {
+    if (!getStoreValue(isEffectProcessingIdle)) {
+      return { success: false, error: "効果処理中は操作をやり直せません" };
+    }
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return { success: false, error: "やり直せる操作がありません" };
+    }
+
+    this.undoStack.push(this.captureHistory());
+    this.applyHistory(entry);
+    return { success: true, message: "操作をやり直しました" };
+  }
+
+  /**
+   * 現在の局面のヒント（次の1手と勝ち筋を失う操作）を算出する
+   *
+   * 効果処理・チェーンの進行中や決着後、signal で中断された場合は null を返す。
+   */
+  async getHint(signal?: AbortSignal): Promise<GameHint | null> {
+    const state = getCurrentGameState();
+    if (!getStoreValue(isEffectProcessingIdle) || state.result.isGameOver) return null;
+    return computeHint(state, { signal });
+  }
+
+  /** 現在のゲームの乱数シードを取得する（共有・再現用） */
+  getSeed(): number {
+    return getCurrentGameState().rng.seed;
+  }
+
+  /**
+   * 現在のゲームが後攻1ターン目から開始したかどうか
+   *
+   * ゲーム開始時の指定を返す（ターン数からは判定しない）。途中局面を復元したゲームは false。
+   */
+  isGoingSecond(): boolean {
+    return this.goingSecond;
   }
 
   /** 現在のゲーム状態全体を取得する
@@ -150,20 +684,26 @@ export class GameFacade {
     return getCurrentGameState();
   }
 
-  /** 次のフェイズに進行する */
-  advancePhase(): FacadeResult {
-    return this.executeCommand(AdvancePhaseCommand);
+  /**
+   * 次のフェイズに進行する
+   *
+   * targetPhase 省略時は既定の遷移先に進む。バトルフェイズを飛ばす場合などは遷移先を指定する。
+   */
+  advancePhase(targetPhase?: GamePhase): FacadeResult {
+    return targetPhase
+      ? this.executeCommand(AdvancePhaseCommand, targetPhase)
+      : this.executeCommand(AdvancePhaseCommand);
   }
 
-  /** ゲーム開始時、メインフェイズ1まで自動進行する */
+  /** ゲーム開始時・ターン開始時、メインフェイズ1まで自動進行する */
   async autoAdvanceToMainPhase(
     onBeforeAdvance?: () => Promise<void>,
     onPhaseAdvanced?: (message: string) => void,
   ): Promise<boolean> {
     const state = getCurrentGameState();
 
-    // 条件チェック: 1ターン目のドローフェイズでのみ実行
-    if (state.turn !== 1 || state.phase !== "draw") {
+    // 条件チェック: ターン開始時（ドローフェイズ）でのみ実行
+    if (state.phase !== "draw") {
       return false;
     }
 
@@ -227,6 +767,16 @@ export class GameFacade {
     return this.executeCommand(ActivateSpellCommand, cardInstanceId);
   }
 
+  /** 指定した罠カードインスタンスを発動可能かどうかチェックして返す */
+  canActivateTrap(cardInstanceId: string): boolean {
+    return this.canExecuteCommand(ActivateTrapCommand, cardInstanceId);
+  }
+
+  /** 指定した罠カードインスタンスを発動する */
+  activateTrap(cardInstanceId: string): FacadeResult {
+    return this.executeCommand(ActivateTrapCommand, cardInstanceId);
+  }
+
   /** 指定したカードインスタンスの起動効果を発動可能かどうかチェックして返す */
   canActivateIgnitionEffect(cardInstanceId: string): boolean {
     return this.canExecuteCommand(ActivateIgnitionEffectCommand, cardInstanceId);
@@ -246,6 +796,46 @@ export class GameFacade {
   synchroSummon(cardInstanceId: string): FacadeResult {
     return this.executeCommand(SynchroSummonCommand, cardInstanceId);
   }
+
+  /** 指定したエクシーズモンスターをエクシーズ召喚可能かどうかチェックして返す */
+  canXyzSummon(cardInstanceId: string): boolean {
+    return this.canExecuteCommand(XyzSummonCommand, cardInstanceId);
+  }
+
+  /** 指定したエクシーズモンスターをエクシーズ召喚する */
+  xyzSummon(cardInstanceId: string): FacadeResult {
+    return this.executeCommand(XyzSummonCommand, cardInstanceId);
+  }
+
+  /** 指定したリンクモンスターをリンク召喚可能かどうかチェックして返す */
+  canLinkSummon(cardInstanceId: string): boolean {
+    return this.canExecuteCommand(LinkSummonCommand, cardInstanceId);
+  }
+
+  /** 指定したリンクモンスターをリンク召喚する */
+  linkSummon(cardInstanceId: string): FacadeResult {
+    return this.executeCommand(LinkSummonCommand, cardInstanceId);
+  }
+
+  /** 指定したモンスターで攻撃可能かどうかチェックして返す */
+  canAttack(cardInstanceId: string): boolean {
+    return this.canExecuteCommand(AttackCommand, cardInstanceId);
+  }
+
+  /** 指定したモンスターで相手に直接攻撃する */
+  attack(cardInstanceId: string): FacadeResult {
+    return this.executeCommand(AttackCommand, cardInstanceId);
+  }
+
+  /** 降参可能かどうかチェックして返す */
+  canSurrender(): boolean {
+    return this.canExecuteCommand(SurrenderCommand);
+  }
+
+  /** 降参してゲームを終了する（相手の勝利となる） */
+  surrender(): FacadeResult {
+    return this.executeCommand(SurrenderCommand);
+  }
 }
 
 /** GameFacade のシングルトンインスタンス */
@@ -22,6 +22,7 @@ import type {
   ExtraDeckData,
 } from "$lib/application/types/deck";
 import type { CardData, ExtraMonsterSubType } from "$lib/application/types/card";
+import type { InitialDeckCardIds } from "$lib/domain/models/GameState";
 import { presetDeckRecipes } from "$lib/application/decks/presetDeckRecipes";
 import { CardDataRegistry, TOKEN_CARD_IDS } from "$lib/domain/cards";
 
@@ -45,6 +46,19 @@ export function extractDisplayCardIds(deckData: DeckData, includeTokens = false)
   return includeTokens ? [...deckIds, ...TOKEN_CARD_IDS] : deckIds;
 }
 
+/** カスタムデッキ（デッキ構築画面で作成したデッキ）のデッキIDの接頭辞 */
+export const CUSTOM_DECK_ID_PREFIX = "custom-";
+
+/** カスタムデッキのデッキIDかどうか */
+export function isCustomDeckId(deckId: string): boolean {
+  return deckId.startsWith(CUSTOM_DECK_ID_PREFIX);
+}
+
+/** 新しいカスタムデッキのデッキIDを生成する */
+export function createCustomDeckId(): string {
+  return `${CUSTOM_DECK_ID_PREFIX}${Date.now().toString(36)}`;
+}
+
 /**
  * プリセットデッキの一覧を取得する
  *
@@ -173,16 +187,44 @@ function validateRecipeCardEntry(entry: RecipeCardEntry): void {
 /**
  * デッキIDからデッキレシピを取得する
  *
+ * プリセットデッキになければ、カスタムデッキから探す。
+ *
+ * @param deckId デッキID
+ * @param customDeckRecipes カスタムデッキのレシピ（デッキID → レシピ）
  * @throws Error デッキが見つからない場合
  */
-export function getDeckRecipe(deckId: string): DeckRecipe {
-  const deckRecipe = presetDeckRecipes[deckId];
+export function getDeckRecipe(
+  deckId: string,
+  customDeckRecipes: Readonly<Record<string, DeckRecipe>> = {},
+): DeckRecipe {
+  const deckRecipe = presetDeckRecipes[deckId] ?? customDeckRecipes[deckId];
   if (!deckRecipe) {
     throw new Error(`Deck not found: ${deckId}`);
   }
   return deckRecipe;
 }
 
+/**
+ * デッキレシピを、ドメイン層が要求する InitialDeck 形式（枚数分展開したカードID列）に変換する
+ */
+export function convertDeckRecipeToInitialDeck(deckRecipe: DeckRecipe): InitialDeckCardIds {
+  const mainDeckCardIds: number[] = [];
+  deckRecipe.mainDeck.forEach((entry) => {
+    for (let i = 0; i < entry.quantity; i++) {
+      mainDeckCardIds.push(entry.id);
+    }
+  });
+
+  const extraDeckCardIds: number[] = [];
+  deckRecipe.extraDeck.forEach((entry) => {
+    for (let i = 0; i < entry.quantity; i++) {
+      extraDeckCardIds.push(entry.id);
+    }
+  });
+
+  return { mainDeckCardIds, extraDeckCardIds };
+}
+
 /**
  * デッキレシピからユニークなカードIDを抽出する
  *
@@ -233,6 +275,7 @@ export function buildDeckData(deckRecipe: DeckRecipe, uniqueCardIds: number[]):
     name: deckRecipe.name,
     description: deckRecipe.description,
     category: deckRecipe.category,
+    openingCombos: deckRecipe.openingCombos,
     mainDeck: mainDeckData,
     extraDeck: extraDeckData,
     stats,
@@ -0,0 +1,64 @@
+/**
+ * deckRecipeCodec - デッキレシピ JSON のパース
+ *
+ * 外部から読み込んだデッキレシピ（勝率シミュレーション用のカスタムレシピ等）のスキーマを検証する。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: デッキレシピの入出力形式の管理
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/decks/deckRecipeCodec
+ */
+
+import { z } from "zod";
+import type { DeckRecipe } from "$lib/application/types/deck";
+
+const RecipeCardEntrySchema = z.object({
+  id: z.number().int().positive(),
+  quantity: z.number().int().positive(),
+});
+
+const OpeningHandComboSchema = z.object({
+  name: z.string(),
+  requirements: z.array(
+    z.object({ cardIds: z.array(z.number().int().positive()), minCount: z.number().int().positive() }),
+  ),
+});
+
+/** デッキレシピのスキーマ（リプレイ等、レシピを内包するデータの検証にも使う） */
+export const DeckRecipeSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  category: z.string().optional(),
+  openingCombos: z.array(OpeningHandComboSchema).optional(),
+  mainDeck: z.array(RecipeCardEntrySchema),
+  extraDeck: z.array(RecipeCardEntrySchema),
+});
+
+/**
+ * JSON 文字列からデッキレシピを読み込む
+ *
+ * @throws Error JSON として不正な場合、またはスキーマが一致しない場合
+ */
+export function parseDeckRecipe(json: string): DeckRecipe {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid deck recipe JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = DeckRecipeSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid deck recipe data:\n${issues.join("\n")}`);
+  }
+
+  return result.data;
+}
+
+/** デッキレシピを JSON 文字列にシリアライズする */
+export function serializeDeckRecipe(recipe: DeckRecipe): string {
+  return JSON.stringify(recipe);
+}
@@ -0,0 +1,118 @@
+/**
+ * deckValidator - デッキレシピの構築ルール検証
+ *
+ * デッキ構築画面で作成したデッキレシピが、以下の構築ルールを満たすか検証する。
+ * - メインデッキ: 40〜60枚（エクストラデッキのモンスターは入れられない）
+ * - エクストラデッキ: 0〜15枚（融合・シンクロ・エクシーズ・リンクモンスターのみ）
+ * - 同名カード: メイン・エクストラ合わせて3枚まで
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: デッキレシピの構築ルール検証
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/decks/deckValidator
+ */
+
+import type { DeckRecipe, RecipeCardEntry } from "$lib/application/types/deck";
+import type { CardData } from "$lib/application/types/card";
+import { Card } from "$lib/domain/models/Card";
+
+/** メインデッキの最小枚数 */
+export const MAIN_DECK_MIN_SIZE = 40;
+
+/** メインデッキの最大枚数 */
+export const MAIN_DECK_MAX_SIZE = 60;
+
+/** エクストラデッキの最大枚数 */
+export const EXTRA_DECK_MAX_SIZE = 15;
+
+/** 同名カードの最大枚数 */
+export const MAX_COPIES_PER_CARD = 3;
+
+/** エクストラデッキに入れるカードか（融合・シンクロ・エクシーズ・リンクモンスター） */
+export function isExtraDeckCard(card: CardData): boolean {
+  return Card.isExtraDeckMonster(card);
+}
+
+/** デッキレシピの検証結果 */
+export interface DeckValidationResult {
+  readonly isValid: boolean;
+  /** 満たしていない構築ルール（表示用メッセージ） */
+  readonly errors: readonly string[];
+}
+
+const countCards = (entries: readonly RecipeCardEntry[]): number =>
+  entries.reduce((sum, entry) => sum + entry.quantity, 0);
+
+/** カードIDごとの合計枚数（メイン・エクストラ合算） */
+export function countCopies(recipe: DeckRecipe): Map<number, number> {
+  const copies = new Map<number, number>();
+  for (const entry of [...recipe.mainDeck, ...recipe.extraDeck]) {
+    copies.set(entry.id, (copies.get(entry.id) ?? 0) + entry.quantity);
+  }
+  return copies;
+}
+
+/**
+ * デッキレシピが構築ルールを満たすか検証する
+ *
+ * チェック項目:
+ * 1. カードが定義済みであること
+ * 2. メインデッキ・エクストラデッキに入れられるカードであること
+ * 3. メインデッキ・エクストラデッキの枚数
+ * 4. 同名カードの枚数
+ *
+ * @param recipe - 検証するデッキレシピ
+ * @param findCard - カードIDから CardData を取得する関数（未定義のカードは undefined）
+ */
+export function validateDeckRecipe(
+  recipe: DeckRecipe,
+  findCard: (cardId: number) => CardData | undefined,
+): DeckValidationResult {
+  const errors: string[] = [];
+  const cardName = (cardId: number) => {
+    const card = findCard(cardId);
+    return card ? Card.nameWithBrackets(card) : `ID:${cardId}`;
+  };
+
+  // 1. カードが定義済みであること
+  for (const entry of [...recipe.mainDeck, ...recipe.extraDeck]) {
+    if (!findCard(entry.id)) {
+      errors.push(`${cardName(entry.id)}は使用できないカードです`);
+    }
+  }
+
+  // 2. メインデッキ・エクストラデッキに入れられるカードであること
+  for (const entry of recipe.mainDeck) {
+    const card = findCard(entry.id);
+    if (card && isExtraDeckCard(card)) {
+      errors.push(`${cardName(entry.id)}はメインデッキに入れられません`);
+    }
+  }
+  for (const entry of recipe.extraDeck) {
+    const card = findCard(entry.id);
+    if (card && !isExtraDeckCard(card)) {
+      errors.push(`${cardName(entry.id)}はエクストラデッキに入れられません`);
+    }
+  }
+
+  // 3. メインデッキ・エクストラデッキの枚数
+  const mainDeckCount = countCards(recipe.mainDeck);
+  if (mainDeckCount < MAIN_DECK_MIN_SIZE || mainDeckCount > MAIN_DECK_MAX_SIZE) {
+    errors.push(`メインデッキは${MAIN_DECK_MIN_SIZE}〜${MAIN_DECK_MAX_SIZE}枚にしてください（現在${mainDeckCount}枚）`);
+  }
+  const extraDeckCount = countCards(recipe.extraDeck);
+  if (extraDeckCount > EXTRA_DECK_MAX_SIZE) {
+    errors.push(`エクストラデッキは${EXTRA_DECK_MAX_SIZE}枚以下にしてください（現在${extraDeckCount}枚）`);
+  }
+
+  // 4. 同名カードの枚数
+  for (const [cardId, copies] of countCopies(recipe)) {
+    if (copies > MAX_COPIES_PER_CARD) {
+      errors.push(`${cardName(cardId)}は${MAX_COPIES_PER_CARD}枚までです（現在${copies}枚）`);
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
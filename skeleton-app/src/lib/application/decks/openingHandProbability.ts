@@ -0,0 +1,102 @@
+/**
+ * openingHandProbability - 初手確率の計算（超幾何分布）
+ *
+ * 「初手 5 枚（後攻は 6 枚）に X と Y を引く確率」を、シャッフルの試行ではなく
+ * 多変量超幾何分布で厳密に計算する。デッキ枚数は DeckData.stats、カードの枚数はデッキ内の枚数を使う。
+ *
+ * 条件は要件の AND で、各要件は「指定カードのいずれかを合計 minCount 枚以上引く」。
+ * 要件どうしで同じカードを指定することはできない（カードの集合が重なると独立に数えられないため）。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: プレゼン層へのデータ提供
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/decks/openingHandProbability
+ */
+
+import type { DeckData, OpeningHandRequirement } from "$lib/application/types/deck";
+
+/** 初手の枚数（先攻 5 枚・後攻 6 枚） */
+export const OPENING_HAND_SIZES = { first: 5, second: 6 } as const;
+
+/** 初手確率の計算に使うカード群（デッキ内の枚数と、引く必要がある枚数） */
+export interface CardGroup {
+  readonly size: number;
+  readonly minCount: number;
+}
+
+/** 二項係数 nCk（範囲外は 0） */
+export function binomial(n: number, k: number): number {
+  if (k < 0 || k > n) return 0;
+  const r = Math.min(k, n - k);
+  let result = 1;
+  for (let i = 1; i <= r; i++) {
+    result = (result * (n - r + i)) / i;
+  }
+  return result;
+}
+
+/**
+ * デッキから handSize 枚引いたとき、すべてのカード群から minCount 枚以上引く確率
+ *
+ * カード群は互いに重ならないものとし、残りのカードは「その他」として扱う。
+ *
+ * @throws Error カード群の合計枚数がデッキ枚数を超える場合
+ */
+export function calculateGroupProbability(deckSize: number, groups: readonly CardGroup[], handSize: number): number {
+  const restSize = deckSize - groups.reduce((sum, group) => sum + group.size, 0);
+  if (restSize < 0) {
+    throw new Error(`Card groups exceed the deck size: ${deckSize}`);
+  }
+  const totalHands = binomial(deckSize, handSize);
+  if (totalHands === 0) return 0;
+
+  // index 番目以降のカード群から条件を満たして remaining 枚引く組み合わせの数
+  const countHands = (index: number, remaining: number): number => {
+    if (index === groups.length) return binomial(restSize, remaining);
+    const { size, minCount } = groups[index];
+    let count = 0;
+    for (let drawn = minCount; drawn <= Math.min(size, remaining); drawn++) {
+      count += binomial(size, drawn) * countHands(index + 1, remaining - drawn);
+    }
+    return count;
+  };
+
+  return countHands(0, handSize) / totalHands;
+}
+
+/** メインデッキのカードID → 枚数 */
+export function getMainDeckQuantities(deckData: DeckData): Map<number, number> {
+  const { monsters, spells, traps } = deckData.mainDeck;
+  return new Map([...monsters, ...spells, ...traps].map((entry) => [entry.cardData.id, entry.quantity]));
+}
+
+/**
+ * 初手で条件（すべての要件）を満たす確率
+ *
+ * @param deckData - デッキデータ（メインデッキの枚数と各カードの枚数を使う）
+ * @param requirements - 初手の条件の要件（AND）
+ * @param handSize - 初手の枚数
+ * @throws Error 要件どうしで同じカードを指定している場合
+ */
+export function calculateOpeningHandProbability(
+  deckData: DeckData,
+  requirements: readonly OpeningHandRequirement[],
+  handSize: number,
+): number {
+  const seen = new Set<number>();
+  for (const cardId of requirements.flatMap((requirement) => requirement.cardIds)) {
+    if (seen.has(cardId)) {
+      throw new Error(`Card ${cardId} is used in more than one requirement`);
+    }
+    seen.add(cardId);
+  }
+
+  const quantities = getMainDeckQuantities(deckData);
+  const groups = requirements.map((requirement) => ({
+    size: requirement.cardIds.reduce((sum, cardId) => sum + (quantities.get(cardId) ?? 0), 0),
+    minCount: requirement.minCount,
+  }));
+  return calculateGroupProbability(deckData.stats.mainDeckCount, groups, handSize);
+}
@@ -8,6 +8,19 @@ const deckExodia: DeckRecipe = {
   name: "封印されしエクゾディア",
   description: "魔法カード主体のエクゾディアデッキです",
   category: "エクゾディア",
+  openingCombos: [
+    {
+      name: "強欲な壺か天使の施し",
+      requirements: [{ cardIds: [55144522, 79571449], minCount: 1 }],
+    },
+    {
+      name: "チキンレース（テラ・フォーミング）+ 一時休戦",
+      requirements: [
+        { cardIds: [67616300, 73628505], minCount: 1 },
+        { cardIds: [33782437], minCount: 1 },
+      ],
+    },
+  ],
   mainDeck: [
     // モンスターカード
     { id: 33396948, quantity: 1 }, // 封印されしエクゾディア
@@ -38,6 +51,19 @@ const deckLegacyExodia: DeckRecipe = {
   name: "レガシー・エクゾディア",
   description: "往年のクリッター・黒き森のウィッチを使えるエクゾディアデッキです",
   category: "エクゾディア",
+  openingCombos: [
+    {
+      name: "クリッターか黒き森のウィッチ",
+      requirements: [{ cardIds: [26202165, 78010363], minCount: 1 }],
+    },
+    {
+      name: "強欲な壺 + 天使の施し",
+      requirements: [
+        { cardIds: [55144522], minCount: 1 },
+        { cardIds: [79571449], minCount: 1 },
+      ],
+    },
+  ],
   mainDeck: [
     // モンスターカード
     { id: 33396948, quantity: 1 }, // 封印されしエクゾディア
@@ -68,6 +94,19 @@ const deckLibraryExodia: DeckRecipe = {
   name: "図書館エクゾ",
   description: "王立魔法図書館に魔力カウンターに置いてドローするエクゾディアデッキです",
   category: "エクゾディア",
+  openingCombos: [
+    {
+      name: "王立魔法図書館 + ドロー魔法",
+      requirements: [
+        { cardIds: [70791313], minCount: 1 },
+        { cardIds: [70368879, 33782437, 93946239, 98645731], minCount: 1 },
+      ],
+    },
+    {
+      name: "王立魔法図書館か召喚僧サモンプリースト",
+      requirements: [{ cardIds: [70791313, 423585], minCount: 1 }],
+    },
+  ],
   mainDeck: [
     // モンスターカード
     { id: 33396948, quantity: 1 }, // 封印されしエクゾディア
@@ -100,6 +139,19 @@ const deckPandaExodia: DeckRecipe = {
   name: "パンダエクゾ",
   description: "トレジャーパンダと通常モンスターを活用してドローするエクゾディアデッキです",
   category: "エクゾディア",
+  openingCombos: [
+    {
+      name: "トレジャー・パンダーか召喚僧サモンプリースト",
+      requirements: [{ cardIds: [45221020, 423585], minCount: 1 }],
+    },
+    {
+      name: "召喚僧サモンプリースト + ドロー魔法",
+      requirements: [
+        { cardIds: [423585], minCount: 1 },
+        { cardIds: [70368879, 33782437, 93946239, 67169062], minCount: 1 },
+      ],
+    },
+  ],
   mainDeck: [
     // モンスターカード
     { id: 33396948, quantity: 1 }, // 封印されしエクゾディア
@@ -135,6 +187,19 @@ const deckScienceCatapult: DeckRecipe = {
   name: "サイエンカタパ",
   description: "魔導サイエンティストで特殊召喚した融合モンスターを、カタパルトタートルで射出するデッキです",
   category: "フルバーン",
+  openingCombos: [
+    {
+      name: "魔導サイエンティスト + カタパルト・タートル",
+      requirements: [
+        { cardIds: [34206604], minCount: 1 },
+        { cardIds: [95727991], minCount: 1 },
+      ],
+    },
+    {
+      name: "カタパルト・タートルか混沌の黒魔術師",
+      requirements: [{ cardIds: [95727991, 40737112], minCount: 1 }],
+    },
+  ],
   mainDeck: [
     // モンスターカード
     { id: 34206604, quantity: 1 }, // 魔導サイエンティスト
@@ -0,0 +1,163 @@
+/**
+ * ydkCodec - YDK ファイル・ydke:// URL とデッキレシピの相互変換
+ *
+ * YGOPro 系ツールのデッキ形式を読み書きする。カードIDにはパスコードを使う。
+ * - YDK: `#main` / `#extra` / `!side` の各セクションに、1行1枚でパスコードを並べたテキスト
+ * - ydke:// URL: `ydke://<main>!<extra>!<side>!` の形式で、各デッキはパスコード（uint32 リトルエンディアン）列の Base64
+ *
+ * サイドデッキは読み込み時に無視し、書き出し時は空とする。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: デッキレシピの外部形式との入出力
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/decks/ydkCodec
+ */
+
+import type { DeckRecipe, ImportedDeck, RecipeCardEntry } from "$lib/application/types/deck";
+import { hasCardDefinition } from "$lib/domain/cards";
+
+const YDK_HEADER = "#created by ygo-solitaire";
+const YDKE_PREFIX = "ydke://";
+
+type YdkSection = "main" | "extra" | "side";
+
+const YDK_SECTION_HEADERS: Record<string, YdkSection> = {
+  "#main": "main",
+  "#extra": "extra",
+  "!side": "side",
+};
+
+// パスコード列を、登場順を保ったまま RecipeCardEntry（ID + 枚数）にまとめる
+const toRecipeEntries = (passcodes: readonly number[]): RecipeCardEntry[] => {
+  const entries = new Map<number, RecipeCardEntry>();
+  for (const passcode of passcodes) {
+    const entry = entries.get(passcode);
+    if (entry) {
+      entry.quantity += 1;
+    } else {
+      entries.set(passcode, { id: passcode, quantity: 1 });
+    }
+  }
+  return Array.from(entries.values());
+};
+
+// RecipeCardEntry を枚数分のパスコード列に展開する
+const toPasscodes = (entries: readonly RecipeCardEntry[]): number[] =>
+  entries.flatMap((entry) => Array.from({ length: entry.quantity }, () => entry.id));
+
+// 読み込んだパスコード列から ImportedDeck を作る（DSL定義のないカードを使用不可として記録する）
+const toImportedDeck = (mainPasscodes: readonly number[], extraPasscodes: readonly number[]): ImportedDeck => {
+  const mainDeck = toRecipeEntries(mainPasscodes);
+  const extraDeck = toRecipeEntries(extraPasscodes);
+  const unplayableCardIds = Array.from(
+    new Set([...mainDeck, ...extraDeck].map((entry) => entry.id).filter((id) => !hasCardDefinition(id))),
+  );
+  return { mainDeck, extraDeck, unplayableCardIds };
+};
+
+const isPasscode = (value: number): boolean => Number.isInteger(value) && value > 0 && value <= 0xffffffff;
+
+// ===========================
+// YDK
+// ===========================
+
+/**
+ * YDK ファイルのテキストからデッキを読み込む
+ *
+ * `#` で始まるセクション見出し以外の行はコメントとして無視する。
+ *
+ * @throws Error パスコードとして読めない行がある場合
+ */
+export function parseYdk(text: string): ImportedDeck {
+  const passcodes: Record<YdkSection, number[]> = { main: [], extra: [], side: [] };
+  let section: YdkSection = "main";
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === "") return;
+
+    const header = YDK_SECTION_HEADERS[line.toLowerCase()];
+    if (header) {
+      section = header;
+      return;
+    }
+    if (line.startsWith("#")) return;
+
+    const passcode = Number(line);
+    if (!/^\d+$/.test(line) || !isPasscode(passcode)) {
+      throw new Error(`Invalid YDK line ${index + 1}: ${line}`);
+    }
+    passcodes[section].push(passcode);
+  });
+
+  return toImportedDeck(passcodes.main, passcodes.extra);
+}
+
+/** デッキレシピを YDK ファイルのテキストに変換する */
+export function serializeYdk(recipe: DeckRecipe): string {
+  return [
+    YDK_HEADER,
+    "#main",
+    ...toPasscodes(recipe.mainDeck),
+    "#extra",
+    ...toPasscodes(recipe.extraDeck),
+    "!side",
+    "",
+  ].join("\n");
+}
+
+// ===========================
+// ydke:// URL
+// ===========================
+
+// Base64 をパスコード列（uint32 リトルエンディアン）にデコードする
+const decodePasscodes = (base64: string): number[] => {
+  let binary: string;
+  try {
+    binary = atob(base64);
+  } catch {
+    throw new Error("Invalid ydke URL: deck data is not valid Base64");
+  }
+  if (binary.length % 4 !== 0) {
+    throw new Error("Invalid ydke URL: passcode data is truncated");
+  }
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  const view = new DataView(bytes.buffer);
+  return Array.from({ length: bytes.length / 4 }, (_, i) => view.getUint32(i * 4, true));
+};
+
+// パスコード列（uint32 リトルエンディアン）を Base64 にエンコードする
+const encodePasscodes = (passcodes: readonly number[]): string => {
+  const view = new DataView(new ArrayBuffer(passcodes.length * 4));
+  passcodes.forEach((passcode, i) => view.setUint32(i * 4, passcode, true));
+  return btoa(String.fromCharCode(...new Uint8Array(view.buffer)));
+};
+
+/**
+ * ydke:// URL からデッキを読み込む
+ *
+ * @throws Error ydke:// URL として不正な場合
+ */
+export function parseYdkeUrl(url: string): ImportedDeck {
+  const trimmed = url.trim();
+  if (!trimmed.startsWith(YDKE_PREFIX)) {
+    throw new Error(`Invalid ydke URL: must start with ${YDKE_PREFIX}`);
+  }
+
+  const components = trimmed.slice(YDKE_PREFIX.length).split("!");
+  if (components.length < 3) {
+    throw new Error("Invalid ydke URL: expected main, extra and side decks");
+  }
+
+  const [main, extra] = components;
+  return toImportedDeck(decodePasscodes(main), decodePasscodes(extra));
+}
+
+/** デッキレシピを ydke:// URL に変換する */
+export function serializeYdkeUrl(recipe: DeckRecipe): string {
+  const main = encodePasscodes(toPasscodes(recipe.mainDeck));
+  const extra = encodePasscodes(toPasscodes(recipe.extraDeck));
+  return `${YDKE_PREFIX}${main}!${extra}!!`;
+}
@@ -0,0 +1,61 @@
+/**
+ * formatCodec - フォーマット定義 YAML のパース
+ *
+ * パズル定義と同じく js-yaml で読み込み、Zod スキーマで検証する。
+ * 禁止・制限・準制限のリストは省略時は空とし、同じカードを複数のリストに含めることはできない。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: フォーマット定義の入力形式の管理
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/formats/formatCodec
+ */
+
+import yaml from "js-yaml";
+import { z } from "zod";
+import type { DeckFormat } from "$lib/application/types/format";
+
+const CardIdListSchema = z.array(z.number().int().positive()).default([]);
+
+const DeckFormatSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9-]+$/),
+    name: z.string().min(1),
+    description: z.string().default(""),
+    allowLegacyCards: z.boolean().default(false),
+    forbidden: CardIdListSchema,
+    limited: CardIdListSchema,
+    semiLimited: CardIdListSchema,
+  })
+  .superRefine((format, ctx) => {
+    const seen = new Set<number>();
+    for (const cardId of [...format.forbidden, ...format.limited, ...format.semiLimited]) {
+      if (seen.has(cardId)) {
+        ctx.addIssue({ code: "custom", message: `Card ${cardId} is listed more than once` });
+      }
+      seen.add(cardId);
+    }
+  });
+
+/**
+ * YAML 文字列からフォーマット定義を読み込む
+ *
+ * @throws Error YAML として不正な場合、またはスキーマに一致しない場合
+ */
+export function parseFormat(yamlContent: string): DeckFormat {
+  let raw: unknown;
+  try {
+    raw = yaml.load(yamlContent);
+  } catch (error) {
+    throw new Error(`Invalid format YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = DeckFormatSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid format data:\n${issues.join("\n")}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,92 @@
+/**
+ * formatLegality - フォーマット（禁止・制限リスト）への適合判定
+ *
+ * デッキレシピが選択したフォーマットで使用できるか判定する。
+ * - 禁止カードは0枚、制限カードは1枚、準制限カードは2枚まで（メイン・エクストラ合算）
+ * - 旧テキスト版（edition: legacy）のカードは、それを認めるフォーマットでのみ使用できる
+ *
+ * 構築ルール（デッキ枚数・同名カード3枚まで）の検証は deckValidator が担う。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: デッキレシピのフォーマット適合判定
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/formats/formatLegality
+ */
+
+import type { DeckRecipe } from "$lib/application/types/deck";
+import type { CardData } from "$lib/application/types/card";
+import type { BanStatus, DeckFormat, FormatLegalityResult, FormatViolation } from "$lib/application/types/format";
+import { BAN_STATUSES, BAN_STATUS_LABELS, BAN_STATUS_MAX_COPIES } from "$lib/application/types/format";
+import { countCopies } from "$lib/application/decks/deckValidator";
+import { presetFormats } from "$lib/application/formats/presetFormats";
+import { Card } from "$lib/domain/models/Card";
+
+/** フォーマットの一覧を取得する（表示順） */
+export function getPresetFormats(): DeckFormat[] {
+  return Object.values(presetFormats);
+}
+
+/** 既定のフォーマットID（一覧の先頭） */
+export const DEFAULT_FORMAT_ID = getPresetFormats()[0].id;
+
+/**
+ * フォーマットIDからフォーマット定義を取得する
+ *
+ * @throws Error 指定IDのフォーマットが存在しない場合
+ */
+export function getFormat(formatId: string): DeckFormat {
+  const format = presetFormats[formatId];
+  if (!format) {
+    throw new Error(`Format not found: ${formatId}`);
+  }
+  return format;
+}
+
+/** フォーマットでのカードの禁止・制限の区分を返す（制限のないカードは undefined） */
+export function getBanStatus(format: DeckFormat, cardId: number): BanStatus | undefined {
+  return BAN_STATUSES.find((status) => format[status].includes(cardId));
+}
+
+/**
+ * デッキレシピがフォーマットで使用できるか判定する
+ *
+ * @param recipe - 判定するデッキレシピ
+ * @param format - フォーマット定義
+ * @param findCard - カードIDから CardData を取得する関数（未定義のカードは旧テキスト版の判定をしない）
+ */
+export function validateFormatLegality(
+  recipe: DeckRecipe,
+  format: DeckFormat,
+  findCard: (cardId: number) => CardData | undefined,
+): FormatLegalityResult {
+  const violations: FormatViolation[] = [];
+
+  for (const [cardId, copies] of countCopies(recipe)) {
+    const card = findCard(cardId);
+    const cardName = card ? Card.nameWithBrackets(card) : `ID:${cardId}`;
+
+    const status = getBanStatus(format, cardId);
+    if (status && copies > BAN_STATUS_MAX_COPIES[status]) {
+      const limit = status === "forbidden" ? "" : `${BAN_STATUS_MAX_COPIES[status]}枚まで・`;
+      violations.push({
+        type: status,
+        cardId,
+        copies,
+        message: `${cardName}は${BAN_STATUS_LABELS[status]}カードです（${limit}現在${copies}枚）`,
+      });
+    }
+
+    if (card && Card.isLegacyEdition(card) && !format.allowLegacyCards) {
+      violations.push({
+        type: "legacy",
+        cardId,
+        copies,
+        message: `${cardName}は旧テキスト版のため使用できません`,
+      });
+    }
+  }
+
+  return { formatId: format.id, isLegal: violations.length === 0, violations };
+}
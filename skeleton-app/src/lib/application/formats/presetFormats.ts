@@ -0,0 +1,19 @@
+/**
+ * presetFormats - 同梱のフォーマット（禁止・制限リスト）
+ *
+ * definitions/ 以下の YAML 定義を選択肢の表示順に並べる。先頭のフォーマットを既定とする。
+ */
+
+import type { DeckFormat } from "$lib/application/types/format";
+import { parseFormat } from "$lib/application/formats/formatCodec";
+import ocgCurrentYaml from "./definitions/ocg-current.yaml?raw";
+import goatYaml from "./definitions/goat.yaml?raw";
+import legacyFreeYaml from "./definitions/legacy-free.yaml?raw";
+
+/** フォーマットID → フォーマット定義（選択肢の表示順） */
+export const presetFormats: Record<string, DeckFormat> = Object.fromEntries(
+  [ocgCurrentYaml, goatYaml, legacyFreeYaml].map((yamlContent) => {
+    const format = parseFormat(yamlContent);
+    return [format.id, format];
+  }),
+);
@@ -0,0 +1,103 @@
+/**
+ * hintAdvisor - ヒントモードの次の1手の算出
+ *
+ * ComboSolver で局面の各操作を最初の1手に固定して探索し、勝利までの操作数が最も少ない操作を推奨する。
+ * 他の操作で勝利できるにもかかわらず勝ち筋がなくなる操作は警告として返す。
+ * 探索上限に達して勝ち筋を判定できなかった操作は、警告せずに判定できなかったこととして返す。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: ゲーム進行制御、プレゼン層へのデータ提供
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/hint/hintAdvisor
+ */
+
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { CardDataRegistry } from "$lib/domain/cards";
+import type { CandidateAnalysis, CandidateCommand, SolverOptions } from "$lib/domain/solver/ComboSolver";
+import { analyzeCandidateCommand, enumerateCandidateCommands } from "$lib/domain/solver/ComboSolver";
+import type { GameHint, HintAction } from "$lib/application/types/hint";
+
+/** ヒント算出で探索する局面数の上限（操作ごと） */
+const DEFAULT_HINT_MAX_NODES = 500;
+
+/** ヒント算出のオプション */
+export interface HintOptions extends SolverOptions {
+  /** 中断用のシグナル（局面が変わって不要になった探索を打ち切る） */
+  readonly signal?: AbortSignal;
+}
+
+// 操作で発動・解決する効果の説明文を組み立てる
+function describeCandidate(state: GameSnapshot, candidate: CandidateCommand): string {
+  const result = candidate.command.execute(state);
+  const steps = [...result.activationSteps, ...(result.chainBlock?.resolutionSteps ?? [])];
+  const descriptions = steps
+    .filter((step) => (step.notificationLevel ?? "static") !== "silent")
+    .map((step) => step.description)
+    .filter((description, index, all) => description && all.indexOf(description) === index);
+  const effectText = descriptions.length > 0 ? descriptions.join(" → ") : "実行できます";
+  return `${effectText}（デッキ残り${state.space.mainDeck.length}枚）`;
+}
+
+function toHintAction(state: GameSnapshot, { candidate }: CandidateAnalysis): HintAction {
+  return {
+    command: candidate.name,
+    instanceId: candidate.instance.instanceId,
+    cardId: candidate.instance.id,
+    cardName: CardDataRegistry.getCard(candidate.instance.id).jaName,
+    reason: describeCandidate(state, candidate),
+  };
+}
+
+const countCommands = ({ result }: CandidateAnalysis): number =>
+  result.moves.filter((move) => move.type === "command").length;
+
+/**
+ * 局面のヒントを算出する
+ *
+ * 効果処理が完了した（プレイヤーが操作を選べる）局面を渡すこと。
+ * 操作1つ分の探索ごとに処理を譲るため、UI スレッドから呼び出しても画面を固めない。
+ *
+ * @returns 中断された場合は null
+ */
+export async function computeHint(state: GameSnapshot, options: HintOptions = {}): Promise<GameHint | null> {
+  const { signal, ...solverOptions } = options;
+  const searchOptions = { ...solverOptions, maxNodes: solverOptions.maxNodes ?? DEFAULT_HINT_MAX_NODES };
+
+  const analyses: CandidateAnalysis[] = [];
+  for (const candidate of enumerateCandidateCommands(state)) {
+    if (signal?.aborted) return null;
+    analyses.push(analyzeCandidateCommand(state, candidate, searchOptions));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  if (signal?.aborted) return null;
+
+  const undetermined = analyses
+    .filter((analysis) => analysis.result.status === "budgetExceeded")
+    .map((analysis) => toHintAction(state, analysis));
+  const winning = analyses
+    .filter((analysis) => analysis.result.status === "win")
+    .sort((a, b) => countCommands(a) - countCommands(b));
+  if (winning.length === 0) {
+    return {
+      status: undetermined.length === 0 ? "noWin" : "unknown",
+      recommended: null,
+      remainingActions: null,
+      warnings: [],
+      undetermined,
+    };
+  }
+
+  const [best] = winning;
+  return {
+    status: "win",
+    recommended: toHintAction(state, best),
+    remainingActions: countCommands(best),
+    // 探索を打ち切らずに勝ち筋がないと判定できた操作のみ警告する
+    warnings: analyses
+      .filter((analysis) => analysis.result.status === "noWin")
+      .map((analysis) => toHintAction(state, analysis)),
+    undetermined,
+  };
+}
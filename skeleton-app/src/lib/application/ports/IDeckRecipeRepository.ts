@@ -0,0 +1,30 @@
+/**
+ * IDeckRecipeRepository - カスタムデッキレシピ永続化の Port インターフェース
+ *
+ * デッキ構築画面で作成したデッキレシピを、デッキIDごとに保存する。
+ * リポジトリはシリアライズ済みの JSON をそのまま保持し、検証はアプリ層（deckRecipeCodec）が行う。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層（Port）
+ * - ROLE: カスタムデッキレシピの保存・読み込みの抽象化
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/ports/IDeckRecipeRepository
+ */
+
+/** 保存済みデッキレシピの生データ */
+export interface StoredDeckRecipe {
+  readonly deckId: string;
+  /** シリアライズ済みのデッキレシピ */
+  readonly json: string;
+}
+
+/** カスタムデッキレシピの永続化を抽象化する Port */
+export interface IDeckRecipeRepository {
+  /** デッキレシピを書き込む（同じデッキIDは上書き） */
+  save(deckId: string, json: string): void;
+  /** デッキレシピを削除する */
+  delete(deckId: string): void;
+  /** 保存済みの全デッキレシピを返す */
+  list(): StoredDeckRecipe[];
+}
@@ -1,6 +1,10 @@
 /**
  * IGameSnapshotRepository - ゲーム状態永続化の Port インターフェース
  *
+ * ゲーム状態は名前付きのセーブスロット単位で保存する。
+ * 自動保存は専用のスロット（AUTO_SAVE_SLOT_ID）を使い、手動保存のスロットとは独立させる。
+ * リポジトリはシリアライズ済みの JSON をそのまま保持し、バージョン移行・検証はアプリ層（savedGameCodec）が行う。
+ *
  * @architecture レイヤー間依存ルール - アプリ層（Port）
  * - ROLE: ゲーム状態の保存・復元の抽象化
  * - ALLOWED: ドメイン層への依存
@@ -9,21 +13,68 @@
  * @module application/ports/IGameSnapshotRepository
  */
 
-import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { GameSnapshot, GamePhase } from "$lib/domain/models/GameState";
+
+/** 自動保存用のスロットID */
+export const AUTO_SAVE_SLOT_ID = "auto";
+
+/** 保存データの現在のスキーマバージョン */
+export const CURRENT_SAVE_VERSION = 4;
+
+/** セーブスロットの一覧表示用メタデータ */
+export interface SaveSlotMetadata {
+  /** スロットID */
+  slotId: string;
+  /** スロット名 */
+  name: string;
+  /** デッキID */
+  deckId: string;
+  /** デッキ名 */
+  deckName: string;
+  /** 保存時点のターン数 */
+  turn: number;
+  /** 保存時点のフェイズ */
+  phase: GamePhase;
+  /** 保存時点のライフポイント */
+  lp: { player: number; opponent: number };
+  /** 保存日時（UNIX エポックミリ秒） */
+  savedAt: number;
+}
 
-/** ゲーム状態を保存するデータ構造 */
+/**
+ * ゲーム状態を保存するデータ構造
+ *
+ * バージョン履歴:
+ * - v1: deckId + snapshot
+ * - v2: snapshot に乱数状態（rng）を追加
+ * - v3: セーブスロットのメタデータ（metadata）を追加
+ * - v4: snapshot.space にエクストラモンスターゾーン（extraMonsterZone）を追加
+ */
 export interface SavedGameState {
   /** デッキID */
   deckId: string;
   /** シリアライズ済みゲーム状態 */
   snapshot: GameSnapshot;
   /** 保存データのスキーマバージョン */
-  version: 1;
+  version: typeof CURRENT_SAVE_VERSION;
+  /** セーブスロットのメタデータ */
+  metadata: SaveSlotMetadata;
+}
+
+/** 保存済みスロットの生データ */
+export interface StoredSaveSlot {
+  readonly slotId: string;
+  /** シリアライズ済みの保存データ（バージョン移行前） */
+  readonly json: string;
 }
 
 export interface IGameSnapshotRepository {
-  save(deckId: string, snapshot: GameSnapshot): void;
-  load(): SavedGameState | null;
-  clear(): void;
-  hasSavedState(): boolean;
+  /** スロットに保存データを書き込む（同じスロットIDは上書き） */
+  save(slotId: string, json: string): void;
+  /** スロットの保存データを読み込む（存在しない場合は null） */
+  load(slotId: string): string | null;
+  /** スロットを削除する */
+  delete(slotId: string): void;
+  /** 保存済みの全スロットを返す */
+  list(): StoredSaveSlot[];
 }
@@ -0,0 +1,31 @@
+/**
+ * IPuzzleProgressRepository - パズル進捗永続化の Port インターフェース
+ *
+ * パズルIDごとの挑戦回数とクリア日時を保持する。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層（Port）
+ * - ROLE: パズル進捗の保存・読み込みの抽象化
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/ports/IPuzzleProgressRepository
+ */
+
+/** 1パズル分の進捗 */
+export interface PuzzleProgressEntry {
+  /** 挑戦回数 */
+  attempts: number;
+  /** 初めてクリアした日時（未クリアの場合は null） */
+  clearedAt: number | null;
+}
+
+/** パズルID → 進捗 */
+export type PuzzleProgress = Record<string, PuzzleProgressEntry>;
+
+/** パズル進捗の永続化を抽象化する Port */
+export interface IPuzzleProgressRepository {
+  /** 全パズルの進捗を読み込む（保存データがない場合は空） */
+  load(): PuzzleProgress;
+  /** 全パズルの進捗を保存する */
+  save(progress: PuzzleProgress): void;
+}
@@ -0,0 +1,280 @@
+/**
+ * positionCodec - 局面（GameSnapshot）と共有用のURL安全な文字列の相互変換
+ *
+ * 各ゾーンのカードID・インスタンスID・フィールド状態（表示形式・カウンター・発動済み効果・装備対象・エクシーズ素材）と、
+ * LP・フェイズ・召喚権・発動済みカード・乱数状態を短いキーのJSONにまとめ、base64url で符号化する。
+ * カードデータ本体は含めないため、復元時はレジストリ（setupDeck で登録済み）から補う。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: 局面共有データの入出力形式の管理
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/position/positionCodec
+ */
+
+import { z } from "zod";
+import type { CardData, CardInstance, CounterType, StateOnField } from "$lib/domain/models/Card";
+import type { CardSpace, GamePhase, GameResult, GameSnapshot, ResultReason } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { LocationName } from "$lib/domain/models/Location";
+import type { EffectId } from "$lib/domain/models/Effect";
+import { findUnknownEndPhaseEffectIds } from "$lib/domain/rules/EndPhaseRule";
+
+/** 局面コードのフォーマットバージョン */
+export const POSITION_FORMAT_VERSION = 1;
+
+// ゾーンと短縮キーの対応（キーの順序がカードの並び順）
+const ZONE_KEYS = {
+  mainDeck: "d",
+  extraDeck: "x",
+  hand: "h",
+  mainMonsterZone: "m",
+  extraMonsterZone: "e",
+  spellTrapZone: "s",
+  fieldZone: "f",
+  graveyard: "g",
+  banished: "b",
+} as const satisfies Record<keyof CardSpace, string>;
+
+// インスタンスIDの接頭辞の短縮形（該当しないIDは "~" + 元のID）
+const INSTANCE_ID_PREFIXES = [
+  ["main-", "m"],
+  ["extra-", "x"],
+  ["token-", "t"],
+] as const;
+
+const shortenInstanceId = (instanceId: string): string => {
+  const prefix = INSTANCE_ID_PREFIXES.find(([full]) => instanceId.startsWith(full));
+  return prefix ? `${prefix[1]}${instanceId.slice(prefix[0].length)}` : `~${instanceId}`;
+};
+
+const expandInstanceId = (short: string): string => {
+  if (short.startsWith("~")) return short.slice(1);
+  const prefix = INSTANCE_ID_PREFIXES.find(([, abbreviation]) => short.startsWith(abbreviation));
+  if (!prefix) throw new Error(`Invalid instance ID: ${short}`);
+  return `${prefix[0]}${short.slice(1)}`;
+};
+
+// フィールド状態: [スロット番号, 表示形式, 攻守, このターンに置かれたか, カウンター, 発動済み効果ID, 装備対象, エクシーズ素材, 攻撃済みか]
+// エクシーズ素材は [カードID, インスタンスID] の配列（素材がない場合は省略）、攻撃済みかは攻撃していない場合に省略
+const FieldStateSchema = z.tuple([
+  z.number().int().min(0),
+  z.enum(["u", "d"]),
+  z.enum(["a", "d", ""]),
+  z.union([z.literal(0), z.literal(1)]),
+  z.array(z.tuple([z.string(), z.number().int()])),
+  z.array(z.string()),
+  z.string(),
+  z.array(z.tuple([z.number().int().positive(), z.string()])).optional(),
+  z.literal(1).optional(),
+]);
+
+// カード: [カードID, インスタンスID] または [カードID, インスタンスID, フィールド状態]
+const CardSchema = z.union([
+  z.tuple([z.number().int().positive(), z.string()]),
+  z.tuple([z.number().int().positive(), z.string(), FieldStateSchema]),
+]);
+
+const ActivationContextSchema = z.object({
+  targets: z.array(z.string()),
+  paidCosts: z.number().optional(),
+  calculatedDamage: z.number().optional(),
+  declaredInteger: z.number().optional(),
+});
+
+const PositionSchema = z.object({
+  v: z.literal(POSITION_FORMAT_VERSION),
+  z: z.object(
+    Object.fromEntries(Object.values(ZONE_KEYS).map((key) => [key, z.array(CardSchema).optional()])) as Record<
+      (typeof ZONE_KEYS)[keyof typeof ZONE_KEYS],
+      z.ZodOptional<z.ZodArray<typeof CardSchema>>
+    >,
+  ),
+  l: z.tuple([z.number().int(), z.number().int()]),
+  p: z.string(),
+  t: z.number().int(),
+  n: z.tuple([z.number().int(), z.number().int()]),
+  a: z.array(z.number().int()),
+  q: z.array(z.string()),
+  c: z.record(z.string(), ActivationContextSchema).optional(),
+  r: z.tuple([z.number().int(), z.number().int()]),
+  o: z.tuple([z.string(), z.string(), z.string().optional()]).optional(),
+});
+
+type EncodedPosition = z.infer<typeof PositionSchema>;
+type EncodedCard = z.infer<typeof CardSchema>;
+type EncodedFieldState = z.infer<typeof FieldStateSchema>;
+
+// =============================================================================
+// base64url
+// =============================================================================
+
+const toBase64Url = (text: string): string => {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (code: string): string => {
+  const binary = atob(code.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+// =============================================================================
+// 変換
+// =============================================================================
+
+const encodeCard = (card: CardInstance): EncodedCard => {
+  const instanceId = shortenInstanceId(card.instanceId);
+  const state = card.stateOnField;
+  if (!state) return [card.id, instanceId];
+  const fieldState: EncodedFieldState = [
+    state.slotIndex,
+    state.position === "faceUp" ? "u" : "d",
+    state.battlePosition === "attack" ? "a" : state.battlePosition === "defense" ? "d" : "",
+    state.placedThisTurn ? 1 : 0,
+    state.counters.map((counter) => [counter.type, counter.count]),
+    [...state.activatedEffects],
+    state.equippedTo ? shortenInstanceId(state.equippedTo) : "",
+  ];
+  const xyzMaterials = state.xyzMaterials ?? [];
+  if (xyzMaterials.length > 0 || state.attackedThisTurn) {
+    fieldState[7] = xyzMaterials.map((material) => [material.id, shortenInstanceId(material.instanceId)]);
+  }
+  if (state.attackedThisTurn) {
+    fieldState[8] = 1;
+  }
+  return [card.id, instanceId, fieldState];
+};
+
+const decodeCard = (
+  [cardId, shortId, fieldState]: EncodedCard,
+  location: LocationName,
+  getCardData: (cardId: number) => CardData,
+): CardInstance => {
+  const card: CardInstance = { ...getCardData(cardId), instanceId: expandInstanceId(shortId), location };
+  if (!fieldState) return card;
+
+  const [
+    slotIndex,
+    position,
+    battlePosition,
+    placedThisTurn,
+    counters,
+    activatedEffects,
+    equippedTo,
+    xyzMaterials,
+    attackedThisTurn,
+  ] = fieldState;
+  const stateOnField: StateOnField = {
+    slotIndex,
+    position: position === "u" ? "faceUp" : "faceDown",
+    battlePosition: battlePosition === "a" ? "attack" : battlePosition === "d" ? "defense" : undefined,
+    placedThisTurn: placedThisTurn === 1,
+    counters: counters.map(([type, count]) => ({ type: type as CounterType, count })),
+    activatedEffects,
+    equippedTo: equippedTo ? expandInstanceId(equippedTo) : undefined,
+    ...(xyzMaterials &&
+      xyzMaterials.length > 0 && {
+        xyzMaterials: xyzMaterials.map(([materialId, materialShortId]) => ({
+          ...getCardData(materialId),
+          instanceId: expandInstanceId(materialShortId),
+          location: "xyzMaterial" as const,
+        })),
+      }),
+    ...(attackedThisTurn === 1 && { attackedThisTurn: true }),
+  };
+  return { ...card, stateOnField };
+};
+
+/** 局面を共有用の文字列に変換する */
+export function encodePosition(state: GameSnapshot): string {
+  const zones: Partial<Record<string, EncodedCard[]>> = {};
+  for (const [zone, key] of Object.entries(ZONE_KEYS) as [keyof CardSpace, string][]) {
+    if (state.space[zone].length > 0) zones[key] = state.space[zone].map(encodeCard);
+  }
+
+  const { isGameOver, winner, reason, message } = state.result;
+  const contexts = Object.entries(state.activationContexts).map(([effectId, context]) => [
+    effectId,
+    { ...context, targets: [...context.targets] },
+  ]);
+  const gameResult: EncodedPosition["o"] = message
+    ? [winner ?? "", reason ?? "", message]
+    : [winner ?? "", reason ?? ""];
+
+  const encoded: EncodedPosition = {
+    v: POSITION_FORMAT_VERSION,
+    z: zones,
+    l: [state.lp.player, state.lp.opponent],
+    p: state.phase,
+    t: state.turn,
+    n: [state.normalSummonUsed, state.normalSummonLimit],
+    a: [...state.activatedCardIds],
+    q: [...state.queuedEndPhaseEffectIds],
+    ...(contexts.length > 0 && { c: Object.fromEntries(contexts) }),
+    r: [state.rng.seed, state.rng.state],
+    ...(isGameOver && { o: gameResult }),
+  };
+  return toBase64Url(JSON.stringify(encoded));
+}
+
+/**
+ * 共有用の文字列から局面を復元する
+ *
+ * カードデータは getCardData（レジストリ）から補うため、局面に含まれるカードが登録済みであること。
+ *
+ * @throws Error 文字列が不正な場合、未登録のカード・エンドフェイズ効果を含む場合、または復元した局面の整合性チェックに失敗した場合
+ */
+export function decodePosition(code: string, getCardData: (cardId: number) => CardData): GameSnapshot {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fromBase64Url(code));
+  } catch (error) {
+    throw new Error(`Invalid position code: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = PositionSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid position data:\n${issues.join("\n")}`);
+  }
+  const encoded = result.data;
+  const unknownEffectIds = findUnknownEndPhaseEffectIds(encoded.q);
+  if (unknownEffectIds.length > 0) {
+    throw new Error(`Invalid position data:\nq: unknown end phase effects: ${unknownEffectIds.join(", ")}`);
+  }
+
+  const space = Object.fromEntries(
+    (Object.entries(ZONE_KEYS) as [keyof CardSpace, (typeof ZONE_KEYS)[keyof CardSpace]][]).map(([zone, key]) => [
+      zone,
+      (encoded.z[key] ?? []).map((card) => decodeCard(card, zone, getCardData)),
+    ]),
+  ) as unknown as CardSpace;
+
+  const gameResult: GameResult = encoded.o
+    ? {
+        isGameOver: true,
+        winner: encoded.o[0] as GameResult["winner"],
+        reason: encoded.o[1] as ResultReason,
+        ...(encoded.o[2] !== undefined && { message: encoded.o[2] }),
+      }
+    : { isGameOver: false };
+
+  const state: GameSnapshot = {
+    space,
+    lp: { player: encoded.l[0], opponent: encoded.l[1] },
+    phase: encoded.p as GamePhase,
+    turn: encoded.t,
+    result: gameResult,
+    normalSummonUsed: encoded.n[0],
+    normalSummonLimit: encoded.n[1],
+    activatedCardIds: encoded.a,
+    activationContexts: (encoded.c ?? {}) as Record<EffectId, GameSnapshot["activationContexts"][EffectId]>,
+    queuedEndPhaseEffectIds: encoded.q,
+    rng: { seed: encoded.r[0], state: encoded.r[1] },
+  };
+  GameState.assert(state);
+  return state;
+}
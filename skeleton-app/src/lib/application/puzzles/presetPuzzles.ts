@@ -0,0 +1,20 @@
+/**
+ * presetPuzzles - プリセットパズル集
+ *
+ * definitions/ 以下の YAML 定義を一覧の表示順に並べる。
+ */
+
+import type { PuzzleDefinition } from "$lib/application/types/puzzle";
+import { parsePuzzle } from "$lib/application/puzzles/puzzleCodec";
+import exodiaLastPieceYaml from "./definitions/exodia-last-piece.yaml?raw";
+import royalLibraryDrawYaml from "./definitions/royal-library-draw.yaml?raw";
+import catapultBurnYaml from "./definitions/catapult-burn.yaml?raw";
+import setTrapBurnYaml from "./definitions/set-trap-burn.yaml?raw";
+
+/** パズルID → パズル定義（一覧の表示順） */
+export const presetPuzzles: Record<string, PuzzleDefinition> = Object.fromEntries(
+  [exodiaLastPieceYaml, royalLibraryDrawYaml, catapultBurnYaml, setTrapBurnYaml].map((yamlContent) => {
+    const puzzle = parsePuzzle(yamlContent);
+    return [puzzle.id, puzzle];
+  }),
+);
@@ -0,0 +1,78 @@
+/**
+ * puzzleCodec - パズル定義 YAML のパース
+ *
+ * カード定義と同じく js-yaml で読み込み、Zod スキーマで検証する。
+ * 省略可能な項目（LP・デッキ・フィールド・墓地等）は既定値で補う。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: パズル定義の入力形式の管理
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/puzzles/puzzleCodec
+ */
+
+import yaml from "js-yaml";
+import { z } from "zod";
+import type { PuzzleDefinition } from "$lib/application/types/puzzle";
+import { PUZZLE_GOALS } from "$lib/application/types/puzzle";
+import { GameState } from "$lib/domain/models/GameState";
+
+const CardIdSchema = z.number().int().positive();
+
+const PuzzleMonsterSchema = z.object({
+  id: CardIdSchema,
+  position: z.enum(["attack", "defense", "set"]).default("attack"),
+  counters: z
+    .object({ spell: z.number().int().positive().optional(), bushido: z.number().int().positive().optional() })
+    .optional(),
+});
+
+const PuzzleSpellTrapSchema = z.object({
+  id: CardIdSchema,
+  position: z.enum(["faceUp", "set"]).default("set"),
+});
+
+const PuzzleDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1),
+  description: z.string().default(""),
+  goal: z.enum(PUZZLE_GOALS),
+  lp: z
+    .object({ player: z.number().int().positive(), opponent: z.number().int().positive() })
+    .default({ player: 8000, opponent: 8000 }),
+  hand: z.array(CardIdSchema).default([]),
+  deck: z.array(CardIdSchema).default([]),
+  extraDeck: z.array(CardIdSchema).default([]),
+  field: z
+    .object({
+      monsters: z.array(PuzzleMonsterSchema).max(GameState.Space.ZONE_CAPACITY.mainMonsterZone).default([]),
+      spellTraps: z.array(PuzzleSpellTrapSchema).max(GameState.Space.ZONE_CAPACITY.spellTrapZone).default([]),
+      fieldSpell: CardIdSchema.optional(),
+    })
+    .default({ monsters: [], spellTraps: [] }),
+  graveyard: z.array(CardIdSchema).default([]),
+  banished: z.array(CardIdSchema).default([]),
+});
+
+/**
+ * YAML 文字列からパズル定義を読み込む
+ *
+ * @throws Error YAML として不正な場合、またはスキーマに一致しない場合
+ */
+export function parsePuzzle(yamlContent: string): PuzzleDefinition {
+  let raw: unknown;
+  try {
+    raw = yaml.load(yamlContent);
+  } catch (error) {
+    throw new Error(`Invalid puzzle YAML: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = PuzzleDefinitionSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid puzzle data:\n${issues.join("\n")}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,154 @@
+/**
+ * puzzleLoader - パズル定義の読み込みと、開始局面の生成・勝利目標の判定
+ *
+ * パズルは先攻1ターン目のメインフェイズから開始する。
+ * 開始局面はシャッフル・初期ドローを行わず、定義どおりの手札・デッキ順・フィールドを再現する。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: ゲーム進行制御、プレゼン層へのデータ提供
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/puzzles/puzzleLoader
+ */
+
+import type { CardData, CardInstance, CounterType, StateOnField } from "$lib/domain/models/Card";
+import type { CardSpace, GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { LocationName } from "$lib/domain/models/Location";
+import { TOKEN_CARD_IDS } from "$lib/domain/cards";
+import type { PuzzleDefinition, PuzzleGoal, PuzzleStatus } from "$lib/application/types/puzzle";
+import { presetPuzzles } from "$lib/application/puzzles/presetPuzzles";
+
+/** プリセットパズルの一覧を取得する（表示順） */
+export function getPresetPuzzles(): PuzzleDefinition[] {
+  return Object.values(presetPuzzles);
+}
+
+/**
+ * パズルIDからパズル定義を取得する
+ *
+ * @throws Error 指定IDのパズルが存在しない場合
+ */
+export function getPuzzle(puzzleId: string): PuzzleDefinition {
+  const puzzle = presetPuzzles[puzzleId];
+  if (!puzzle) {
+    throw new Error(`Puzzle not found: ${puzzleId}`);
+  }
+  return puzzle;
+}
+
+/**
+ * パズルに登場するカードのユニークIDを抽出する
+ *
+ * @param includeTokens トークンカードのIDを含めるか（ゲーム画面の表示キャッシュ用）
+ */
+export function extractPuzzleCardIds(puzzle: PuzzleDefinition, includeTokens = false): number[] {
+  const { hand, deck, extraDeck, field, graveyard, banished } = puzzle;
+  const cardIds = new Set([
+    ...hand,
+    ...deck,
+    ...extraDeck,
+    ...field.monsters.map((monster) => monster.id),
+    ...field.spellTraps.map((spellTrap) => spellTrap.id),
+    ...(field.fieldSpell !== undefined ? [field.fieldSpell] : []),
+    ...graveyard,
+    ...banished,
+  ]);
+  return includeTokens ? [...cardIds, ...TOKEN_CARD_IDS] : [...cardIds];
+}
+
+/**
+ * パズルの開始局面を生成する
+ *
+ * フィールドのカードは前のターンから置かれていたものとして扱う。
+ * カードデータは getCardData（レジストリ）から補うため、パズルのカードが登録済みであること。
+ *
+ * @throws Error 未登録のカードを含む場合、または生成した局面の整合性チェックに失敗した場合
+ */
+export function createPuzzleSnapshot(
+  puzzle: PuzzleDefinition,
+  getCardData: (cardId: number) => CardData,
+): GameSnapshot {
+  let mainIndex = 0;
+  let extraIndex = 0;
+  const createInstance = (cardId: number, location: LocationName, stateOnField?: StateOnField): CardInstance => ({
+    ...getCardData(cardId),
+    instanceId: location === "extraDeck" ? `extra-${extraIndex++}` : `main-${mainIndex++}`,
+    location,
+    ...(stateOnField && { stateOnField }),
+  });
+  const fieldState = (slotIndex: number, overrides: Partial<StateOnField>): StateOnField => ({
+    slotIndex,
+    position: "faceUp",
+    placedThisTurn: false,
+    counters: [],
+    activatedEffects: [],
+    ...overrides,
+  });
+
+  const { field } = puzzle;
+  const space: CardSpace = {
+    // デッキの上（配列の末尾）が定義の先頭になるよう反転する
+    mainDeck: [...puzzle.deck].reverse().map((cardId) => createInstance(cardId, "mainDeck")),
+    extraDeck: puzzle.extraDeck.map((cardId) => createInstance(cardId, "extraDeck")),
+    hand: puzzle.hand.map((cardId) => createInstance(cardId, "hand")),
+    mainMonsterZone: field.monsters.map(({ id, position, counters }, slotIndex) =>
+      createInstance(
+        id,
+        "mainMonsterZone",
+        fieldState(slotIndex, {
+          position: position === "set" ? "faceDown" : "faceUp",
+          battlePosition: position === "attack" ? "attack" : "defense",
+          counters: Object.entries(counters ?? {}).map(([type, count]) => ({ type: type as CounterType, count })),
+        }),
+      ),
+    ),
+    extraMonsterZone: [],
+    spellTrapZone: field.spellTraps.map(({ id, position }, slotIndex) =>
+      createInstance(
+        id,
+        "spellTrapZone",
+        fieldState(slotIndex, { position: position === "set" ? "faceDown" : "faceUp" }),
+      ),
+    ),
+    fieldZone: field.fieldSpell !== undefined ? [createInstance(field.fieldSpell, "fieldZone", fieldState(0, {}))] : [],
+    graveyard: puzzle.graveyard.map((cardId) => createInstance(cardId, "graveyard")),
+    banished: puzzle.banished.map((cardId) => createInstance(cardId, "banished")),
+  };
+
+  const initial = GameState.initialize({ mainDeckCardIds: [], extraDeckCardIds: [] }, getCardData, {
+    skipShuffle: true,
+    skipInitialDraw: true,
+  });
+  const state: GameSnapshot = { ...initial, space, lp: { ...puzzle.lp }, phase: "main1" };
+  GameState.assert(state);
+  return state;
+}
+
+// 決着の内容が勝利目標を満たすか
+const isGoalResult = (goal: PuzzleGoal, state: GameSnapshot): boolean => {
+  if (state.result.winner !== "player") return false;
+  switch (goal) {
+    case "win":
+      return true;
+    case "exodia":
+      return state.result.reason === "exodia";
+    case "opponentLp0":
+      return state.result.reason === "lp0";
+  }
+};
+
+/**
+ * 局面がパズルの勝利目標を達成しているか判定する
+ *
+ * 勝敗は GameState.checkVictory で判定し直した結果を使う。
+ * 目標と異なる決着、またはエンドフェイズに入った（ターンを終えた）場合は失敗とする。
+ */
+export function evaluatePuzzleGoal(goal: PuzzleGoal, state: GameSnapshot): PuzzleStatus {
+  const checked = GameState.checkVictory(state);
+  if (checked.result.isGameOver) {
+    return isGoalResult(goal, checked) ? "cleared" : "failed";
+  }
+  return GameState.Phase.isEnd(checked.phase) ? "failed" : "inProgress";
+}
@@ -0,0 +1,189 @@
+/**
+ * ReplayPlayer - リプレイを1手ずつ再生するプレイヤー
+ *
+ * リプレイのデッキレシピとシードで新規ゲームを開始し、記録されたコマンドを GameFacade 経由で再実行する。
+ * ユーザー回答は effectQueueStore が提示中の各種 config のコールバックを呼び出して再現する。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: リプレイ再生の進行制御
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/replay/ReplayPlayer
+ */
+
+import { derived, get as getStoreValue } from "svelte/store";
+import type { GameFacade } from "$lib/application/GameFacade";
+import type { GameReplay, ReplayEntry, InteractionAnswer } from "$lib/application/types/replay";
+import { effectQueueStore } from "$lib/application/stores/effectQueueStore";
+import { chainStackStore } from "$lib/application/stores/chainStackStore";
+
+// 効果処理が落ち着いた（ユーザー回答待ち、または全処理完了）かどうか
+const isSettledStore = derived([effectQueueStore, chainStackStore], ([queue, chain]) => {
+  const isAwaitingAnswer =
+    queue.confirmationConfig !== null ||
+    queue.cardSelectionConfig !== null ||
+    queue.chainConfirmationConfig !== null ||
+    queue.optionalTriggerConfirmConfig !== null;
+  return isAwaitingAnswer || (!queue.isActive && chain.stack.length === 0);
+});
+
+/** 効果処理が落ち着くまで待機する時間の上限（ms） */
+const DEFAULT_SETTLE_TIMEOUT_MS = 30_000;
+
+// 効果処理が落ち着くまで待機する
+// （チェーンブロックの取り出し直後など同期処理中の一時的な状態を除外するため、マイクロタスク後に再確認する）
+// 上限時間内に落ち着かない場合は、記録と再生が食い違って処理が止まったとしてエラーにする
+function waitUntilSettled(index: number, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let finished = false;
+    const finish = () => {
+      finished = true;
+      clearTimeout(timer);
+      unsubscribe();
+    };
+
+    const timer = setTimeout(() => {
+      if (finished) return;
+      finish();
+      reject(new Error(`Replay desync at entry ${index}: effect processing did not settle within ${timeoutMs}ms`));
+    }, timeoutMs);
+    const unsubscribe = isSettledStore.subscribe((settled) => {
+      if (!settled || finished) return;
+      queueMicrotask(() => {
+        if (finished || !getStoreValue(isSettledStore)) return;
+        finish();
+        resolve();
+      });
+    });
+  });
+}
+
+// 提示中の config を取得し、なければリプレイの不整合としてエラーにする
+function requireConfig<T>(config: T | null, answer: InteractionAnswer, index: number): T {
+  if (config === null) {
+    throw new Error(`Replay desync at entry ${index}: no pending interaction for "${answer.kind}"`);
+  }
+  return config;
+}
+
+/** ReplayPlayer のオプション */
+export interface ReplayPlayerOptions {
+  /** 1手ごとに効果処理が落ち着くまで待機する時間の上限（ms） */
+  readonly settleTimeoutMs?: number;
+}
+
+/**
+ * リプレイを1手ずつ再生するプレイヤー
+ */
+export class ReplayPlayer {
+  private position = 0;
+  private readonly settleTimeoutMs: number;
+
+  constructor(
+    private readonly facade: GameFacade,
+    readonly replay: GameReplay,
+    options: ReplayPlayerOptions = {},
+  ) {
+    this.settleTimeoutMs = options.settleTimeoutMs ?? DEFAULT_SETTLE_TIMEOUT_MS;
+  }
+
+  /** 次に再生する履歴エントリのインデックス */
+  get currentIndex(): number {
+    return this.position;
+  }
+
+  /** 履歴エントリの総数 */
+  get totalEntries(): number {
+    return this.replay.entries.length;
+  }
+
+  /** 再生していない履歴エントリが残っているか */
+  get hasNext(): boolean {
+    return this.position < this.replay.entries.length;
+  }
+
+  /**
+   * リプレイの開始局面でゲームを開始する
+   *
+   * レジストリは呼び出し前に setupDeck で構築済みであることを前提とする。
+   */
+  start(): void {
+    this.facade.startReplayGame(this.replay);
+    this.position = 0;
+  }
+
+  /**
+   * 履歴エントリを1件再生し、効果処理が落ち着くまで待機する
+   *
+   * @returns 再生したエントリ（再生済みの場合は null）
+   * @throws Error 記録と現在のゲーム進行が一致しない場合、効果処理が上限時間内に落ち着かない場合
+   */
+  async step(): Promise<ReplayEntry | null> {
+    if (!this.hasNext) return null;
+
+    const index = this.position;
+    const entry = this.replay.entries[index];
+
+    await waitUntilSettled(index, this.settleTimeoutMs);
+    if (entry.type === "command") {
+      const result = this.facade.executeReplayCommand(entry);
+      if (!result.success) {
+        throw new Error(`Replay desync at entry ${index}: command "${entry.command}" failed: ${result.error}`);
+      }
+    } else {
+      this.applyAnswer(entry.answer, index);
+    }
+    this.position++;
+    await waitUntilSettled(index, this.settleTimeoutMs);
+
+    return entry;
+  }
+
+  /** 残りの履歴エントリを全て再生する */
+  async playToEnd(): Promise<void> {
+    while (this.hasNext) {
+      await this.step();
+    }
+  }
+
+  /** 記録されたユーザー回答を effectQueueStore に与える */
+  private applyAnswer(answer: InteractionAnswer, index: number): void {
+    const queue = getStoreValue(effectQueueStore);
+
+    switch (answer.kind) {
+      case "confirmation":
+        requireConfig(queue.confirmationConfig, answer, index).onConfirm();
+        return;
+      case "cardSelection":
+        requireConfig(queue.cardSelectionConfig, answer, index).onConfirm([...answer.selectedInstanceIds]);
+        return;
+      case "cardSelectionCancel": {
+        const config = requireConfig(queue.cardSelectionConfig, answer, index);
+        if (!config.onCancel) {
+          throw new Error(`Replay desync at entry ${index}: card selection is not cancelable`);
+        }
+        config.onCancel();
+        return;
+      }
+      case "chain": {
+        const config = requireConfig(queue.chainConfirmationConfig, answer, index);
+        if (answer.instanceId === null) {
+          config.onPass();
+        } else {
+          config.onActivate(answer.instanceId);
+        }
+        return;
+      }
+      case "optionalTrigger": {
+        const config = requireConfig(queue.optionalTriggerConfirmConfig, answer, index);
+        if (answer.activate) {
+          config.onActivate();
+        } else {
+          config.onPass();
+        }
+        return;
+      }
+    }
+  }
+}
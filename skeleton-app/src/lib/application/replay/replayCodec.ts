@@ -0,0 +1,71 @@
+/**
+ * replayCodec - リプレイ JSON のシリアライズ・パース
+ *
+ * GameFacade.exportReplay() が返す GameReplay を JSON 文字列に変換し、
+ * 読み込み時はスキーマとフォーマットバージョンを検証する。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: リプレイデータの入出力形式の管理
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/replay/replayCodec
+ */
+
+import { z } from "zod";
+import type { GameReplay } from "$lib/application/types/replay";
+import { REPLAY_FORMAT_VERSION, REPLAY_COMMAND_NAMES } from "$lib/application/types/replay";
+import { DeckRecipeSchema } from "$lib/application/decks/deckRecipeCodec";
+
+const InteractionAnswerSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("confirmation") }),
+  z.object({ kind: z.literal("cardSelection"), selectedInstanceIds: z.array(z.string()) }),
+  z.object({ kind: z.literal("cardSelectionCancel") }),
+  z.object({ kind: z.literal("chain"), instanceId: z.string().nullable() }),
+  z.object({ kind: z.literal("optionalTrigger"), activate: z.boolean() }),
+]);
+
+const ReplayEntrySchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("command"),
+    command: z.enum(REPLAY_COMMAND_NAMES),
+    args: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])),
+  }),
+  z.object({ type: z.literal("answer"), answer: InteractionAnswerSchema }),
+]);
+
+const GameReplaySchema = z.object({
+  version: z.literal(REPLAY_FORMAT_VERSION),
+  deckId: z.string().optional(),
+  deckRecipe: DeckRecipeSchema,
+  seed: z.number().int().min(0).max(0xffffffff),
+  goingSecond: z.boolean().optional(),
+  entries: z.array(ReplayEntrySchema),
+});
+
+/** リプレイを JSON 文字列に変換する */
+export function serializeReplay(replay: GameReplay): string {
+  return JSON.stringify(replay, null, 2);
+}
+
+/**
+ * JSON 文字列からリプレイを読み込む
+ *
+ * @throws Error JSON として不正な場合、またはスキーマ・バージョンが一致しない場合
+ */
+export function parseReplay(json: string): GameReplay {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid replay JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = GameReplaySchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+    throw new Error(`Invalid replay data:\n${issues.join("\n")}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,191 @@
+/**
+ * savedGameCodec - セーブデータのシリアライズ・バージョン移行
+ *
+ * 旧バージョンの保存データは1バージョンずつ順に移行し、移行後のゲーム状態を整合性チェックで検証する。
+ * 移行・検証に失敗した場合は保存データを破棄せず、原因を含む SavedGameMigrationError を投げる。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: セーブデータの入出力形式の管理
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/saves/savedGameCodec
+ */
+
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import { findUnknownEndPhaseEffectIds } from "$lib/domain/rules/EndPhaseRule";
+import type { SavedGameState } from "$lib/application/ports/IGameSnapshotRepository";
+import { AUTO_SAVE_SLOT_ID, CURRENT_SAVE_VERSION } from "$lib/application/ports/IGameSnapshotRepository";
+
+/**
+ * セーブデータの移行・検証エラー
+ *
+ * issues に失敗の詳細（整合性チェックのエラー等）を保持する。
+ */
+export class SavedGameMigrationError extends Error {
+  constructor(
+    message: string,
+    public readonly slotId: string,
+    public readonly version: unknown,
+    public readonly issues: readonly string[] = [],
+  ) {
+    super(message);
+    this.name = "SavedGameMigrationError";
+  }
+}
+
+type RawSavedGame = Record<string, unknown>;
+
+/** 移行時に参照する保存先の情報 */
+interface MigrationContext {
+  readonly slotId: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * バージョンごとの移行処理（キーのバージョンから次のバージョンへ）
+ *
+ * スキーマを変更する場合は CURRENT_SAVE_VERSION を上げ、ここに移行処理を追加する。
+ */
+const MIGRATIONS: Record<number, (data: RawSavedGame, context: MigrationContext) => RawSavedGame> = {
+  // v1 → v2: 乱数状態を追加（元のシードは復元できないため新しいシードで初期化）し、未保存のフィールドを既定値で補う
+  1: (data) => {
+    const snapshot = isRecord(data.snapshot) ? data.snapshot : {};
+    return {
+      ...data,
+      version: 2,
+      snapshot: {
+        normalSummonLimit: 1,
+        normalSummonUsed: 0,
+        activatedCardIds: [],
+        activationContexts: {},
+        queuedEndPhaseEffectIds: [],
+        ...snapshot,
+        rng: GameState.Random.create(),
+      },
+    };
+  },
+  // v2 → v3: セーブスロットのメタデータを追加（デッキ名・保存日時は不明のため、デッキID・移行日時で代用）
+  2: (data, { slotId }) => {
+    const snapshot = isRecord(data.snapshot) ? data.snapshot : {};
+    const deckId = typeof data.deckId === "string" ? data.deckId : "";
+    return {
+      ...data,
+      version: 3,
+      metadata: {
+        slotId,
+        name: slotId === AUTO_SAVE_SLOT_ID ? "自動保存" : slotId,
+        deckId,
+        deckName: deckId,
+        turn: snapshot.turn,
+        phase: snapshot.phase,
+        lp: snapshot.lp,
+        savedAt: Date.now(),
+      },
+    };
+  },
+  // v3 → v4: エクストラモンスターゾーンを追加（v3 以前はエクストラモンスターゾーンがないため空で補う）
+  3: (data) => {
+    const snapshot = isRecord(data.snapshot) ? data.snapshot : {};
+    // 空間が無い壊れたデータは補わず、移行後の検証で問題として報告する
+    if (!isRecord(snapshot.space)) return { ...data, version: 4 };
+    return {
+      ...data,
+      version: 4,
+      snapshot: { ...snapshot, space: { extraMonsterZone: [], ...snapshot.space } },
+    };
+  },
+};
+
+/** 保存データを JSON 文字列に変換する */
+export function serializeSavedGame(saved: SavedGameState): string {
+  return JSON.stringify(saved);
+}
+
+/**
+ * JSON 文字列から保存データを読み込み、現在のバージョンまで移行する
+ *
+ * @throws SavedGameMigrationError JSON として不正な場合、未知のバージョンの場合、移行後の検証に失敗した場合
+ */
+export function parseSavedGame(json: string, slotId: string): SavedGameState {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new SavedGameMigrationError(
+      `保存データ「${slotId}」が壊れているため読み込めません（${error instanceof Error ? error.message : String(error)}）。このスロットを削除してください`,
+      slotId,
+      undefined,
+    );
+  }
+  if (!isRecord(data)) {
+    throw new SavedGameMigrationError(
+      `保存データ「${slotId}」の形式が不正です。このスロットを削除してください`,
+      slotId,
+      undefined,
+    );
+  }
+
+  const originalVersion = data.version;
+  if (typeof originalVersion !== "number" || !Number.isInteger(originalVersion) || originalVersion < 1) {
+    throw new SavedGameMigrationError(
+      `保存データ「${slotId}」のバージョン（${String(originalVersion)}）が不明です。このスロットを削除してください`,
+      slotId,
+      originalVersion,
+    );
+  }
+  if (originalVersion > CURRENT_SAVE_VERSION) {
+    throw new SavedGameMigrationError(
+      `保存データ「${slotId}」（v${originalVersion}）はこのバージョンのアプリより新しい形式です。アプリを更新してから再開してください`,
+      slotId,
+      originalVersion,
+    );
+  }
+
+  let migrated: RawSavedGame = data;
+  for (let version = originalVersion; version < CURRENT_SAVE_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated, { slotId });
+  }
+
+  const issues = validateSavedGame(migrated);
+  if (issues.length > 0) {
+    throw new SavedGameMigrationError(
+      `保存データ「${slotId}」（v${originalVersion}）を現在の形式（v${CURRENT_SAVE_VERSION}）に移行できませんでした。このスロットを削除して保存し直してください`,
+      slotId,
+      originalVersion,
+      issues,
+    );
+  }
+  return migrated as unknown as SavedGameState;
+}
+
+// 移行後の保存データを検証し、問題点の一覧を返す
+function validateSavedGame(data: RawSavedGame): string[] {
+  const issues: string[] = [];
+  if (typeof data.deckId !== "string" || data.deckId === "") issues.push("deckId is not set");
+  if (!isRecord(data.metadata)) issues.push("metadata is not set");
+  if (!isRecord(data.snapshot) || !isRecord(data.snapshot.space)) {
+    issues.push("snapshot is not set");
+    return issues;
+  }
+
+  try {
+    GameState.assert(data.snapshot as unknown as GameSnapshot);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    issues.push(...message.replace(/^Invalid GameState:\n/, "").split("\n"));
+  }
+
+  // 保留されたエンドフェイズ効果は、このバージョンのアプリに登録済みのもののみ復元できる
+  const queuedEffectIds = data.snapshot.queuedEndPhaseEffectIds;
+  if (Array.isArray(queuedEffectIds)) {
+    const unknownEffectIds = findUnknownEndPhaseEffectIds(queuedEffectIds.map(String));
+    if (unknownEffectIds.length > 0) {
+      issues.push(`unknown end phase effects: ${unknownEffectIds.join(", ")}`);
+    }
+  }
+  return issues;
+}
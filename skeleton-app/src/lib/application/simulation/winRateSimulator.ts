@@ -0,0 +1,197 @@
+/**
+ * winRateSimulator - デッキ勝率のモンテカルロシミュレーション
+ *
+ * デッキレシピをシード付きで N 回シャッフルし、自動方針で1ターン目を進めて勝率等を集計する。
+ * 自動方針は ComboSolver による勝利手順の探索で、見つからない場合は先頭の合法手を選び続ける。
+ * Svelte ストアには依存しないため、CLI スクリプトからも実行できる。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層
+ * - ROLE: ゲーム進行制御、プレゼン層へのデータ提供
+ * - ALLOWED: ドメイン層への依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/simulation/winRateSimulator
+ */
+
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import { CardDataRegistry, registerCardDataWithEffectsByIds } from "$lib/domain/cards";
+import { AdvancePhaseCommand } from "$lib/domain/commands/AdvancePhaseCommand";
+import type { GameCommand } from "$lib/domain/models/Command";
+import type { ProcessingOutcome } from "$lib/domain/solver/EffectProcessing";
+import { startEffectProcessing } from "$lib/domain/solver/EffectProcessing";
+import type { SolverOptions } from "$lib/domain/solver/ComboSolver";
+import { solveCombo, enumerateCandidateCommands } from "$lib/domain/solver/ComboSolver";
+import type { DeckRecipe } from "$lib/application/types/deck";
+import type { SimulatedGame, SimulationFailureReason, WinRateReport } from "$lib/application/types/simulation";
+import { SIMULATION_FAILURE_REASONS } from "$lib/application/types/simulation";
+import { convertDeckRecipeToInitialDeck, extractUniqueCardIds } from "$lib/application/decks/deckLoader";
+
+/** シミュレーションのオプション */
+export interface WinRateSimulationOptions extends SolverOptions {
+  /** 試行するゲーム数 */
+  readonly games: number;
+  /** 各ゲームのシードを生成する元のシード（省略時はランダム） */
+  readonly seed?: number;
+  /** 1ゲーム終了ごとに呼ばれる進捗通知 */
+  readonly onProgress?: (completed: number, total: number) => void;
+}
+
+/** シミュレーションで探索する局面数の上限（1ゲームあたり） */
+const DEFAULT_SIMULATION_MAX_NODES = 2000;
+
+/** 勝利手順が見つからない場合に実行する操作数の上限 */
+const MAX_FALLBACK_ACTIONS = 20;
+
+// 意思決定を常に先頭の選択肢で進め、処理完了後の局面を返す
+// 選べる回答がない（どのカード選択も確定できない等）場合は処理を進められないため null を返す
+function settleAutomatically(outcome: ProcessingOutcome): GameSnapshot | null {
+  let current = outcome;
+  while (current.kind === "decision") {
+    const [option] = current.options;
+    if (!option) return null;
+    current = option.resume();
+  }
+  return current.state;
+}
+
+// コマンドを実行し、効果処理を自動で完了させる（失敗時・効果処理を完了できない場合は null）
+function executeAutomatically(state: GameSnapshot, command: GameCommand): GameSnapshot | null {
+  const result = command.execute(state);
+  if (!result.success) return null;
+  return settleAutomatically(startEffectProcessing(result.updatedState, result.chainBlock, result.activationSteps));
+}
+
+// メインフェイズ1まで進める
+function advanceToMain1(state: GameSnapshot): GameSnapshot {
+  let current = state;
+  while (current.phase !== "main1" && !current.result.isGameOver) {
+    const next = executeAutomatically(current, new AdvancePhaseCommand());
+    if (!next) break;
+    current = next;
+  }
+  return current;
+}
+
+// 先頭の合法手を選び続けて1ターン目を進める（勝利手順が見つからない場合の方針）
+function playFallbackLine(state: GameSnapshot): { state: GameSnapshot; actionCount: number } {
+  let current = state;
+  let actionCount = 0;
+  while (actionCount < MAX_FALLBACK_ACTIONS && !current.result.isGameOver) {
+    const [candidate] = enumerateCandidateCommands(current);
+    if (!candidate) break;
+    const next = executeAutomatically(current, candidate.command);
+    if (!next) break;
+    current = next;
+    actionCount++;
+  }
+  return { state: current, actionCount };
+}
+
+/**
+ * 1ゲーム分をシミュレーションする
+ *
+ * レジストリは呼び出し前にデッキのカードで構築済みであることを前提とする。
+ */
+export function simulateGame(deckRecipe: DeckRecipe, seed: number, options: SolverOptions = {}): SimulatedGame {
+  const initialState = GameState.initialize(convertDeckRecipeToInitialDeck(deckRecipe), CardDataRegistry.getCard, {
+    seed,
+  });
+  const opening = advanceToMain1(initialState);
+  const countCardsFromDeck = (final: GameSnapshot) =>
+    Math.max(0, opening.space.mainDeck.length - final.space.mainDeck.length);
+
+  if (enumerateCandidateCommands(opening).length === 0 && !opening.result.isGameOver) {
+    return { seed, won: false, failureReason: "deadHand", cardsFromDeck: 0, actionCount: 0 };
+  }
+
+  const solved = solveCombo(opening, { ...options, maxNodes: options.maxNodes ?? DEFAULT_SIMULATION_MAX_NODES });
+  if (solved.status === "win" && solved.finalState) {
+    return {
+      seed,
+      won: true,
+      winReason: solved.finalState.result.reason,
+      cardsFromDeck: countCardsFromDeck(solved.finalState),
+      actionCount: solved.moves.filter((move) => move.type === "command").length,
+    };
+  }
+
+  const fallback = playFallbackLine(opening);
+  const failureReason: SimulationFailureReason =
+    fallback.state.result.reason === "deckout"
+      ? "deckOut"
+      : solved.status === "budgetExceeded"
+        ? "searchBudgetExceeded"
+        : "noWinningLine";
+  return {
+    seed,
+    won: false,
+    failureReason,
+    cardsFromDeck: countCardsFromDeck(fallback.state),
+    actionCount: fallback.actionCount,
+  };
+}
+
+/** シミュレーション結果を集計する */
+export function summarizeSimulatedGames(
+  deckName: string,
+  seed: number,
+  games: readonly SimulatedGame[],
+): WinRateReport {
+  const total = games.length;
+  const ratio = (count: number) => (total === 0 ? 0 : count / total);
+  const average = (values: number[]) => (total === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / total);
+
+  const failureReasons = Object.fromEntries(SIMULATION_FAILURE_REASONS.map((reason) => [reason, 0])) as Record<
+    SimulationFailureReason,
+    number
+  >;
+  for (const game of games) {
+    if (game.failureReason) failureReasons[game.failureReason]++;
+  }
+  const mostCommonFailureReason = SIMULATION_FAILURE_REASONS.reduce<SimulationFailureReason | null>(
+    (best, reason) =>
+      failureReasons[reason] > 0 && (best === null || failureReasons[reason] > failureReasons[best]) ? reason : best,
+    null,
+  );
+
+  const wins = games.filter((game) => game.won).length;
+  return {
+    deckName,
+    seed,
+    games: total,
+    wins,
+    winRate: ratio(wins),
+    deadHandRate: ratio(failureReasons.deadHand),
+    averageCardsFromDeck: average(games.map((game) => game.cardsFromDeck)),
+    averageActionCount: average(games.map((game) => game.actionCount)),
+    failureReasons,
+    mostCommonFailureReason,
+  };
+}
+
+/**
+ * デッキレシピの勝率をシミュレーションする
+ *
+ * デッキのカードをレジストリに登録してから、元のシードから生成した各シードでゲームを実行する。
+ * 1ゲームごとに処理を譲るため、UI スレッドから呼び出しても画面を固めない。
+ */
+export async function runWinRateSimulation(
+  deckRecipe: DeckRecipe,
+  options: WinRateSimulationOptions,
+): Promise<WinRateReport> {
+  const { games: total, seed, onProgress, ...solverOptions } = options;
+  registerCardDataWithEffectsByIds(extractUniqueCardIds(deckRecipe));
+
+  let rng = GameState.Random.create(seed);
+  const games: SimulatedGame[] = [];
+  for (let i = 0; i < total; i++) {
+    const next = GameState.Random.nextInt(rng, 0, 0xffffffff);
+    rng = next.rng;
+    games.push(simulateGame(deckRecipe, next.value, solverOptions));
+    onProgress?.(i + 1, total);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return summarizeSimulatedGames(deckRecipe.name, rng.seed, games);
+}
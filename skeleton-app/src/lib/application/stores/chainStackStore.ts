@@ -16,41 +16,22 @@
 
 import { writable, get as getStoreValue } from "svelte/store";
 import type { ChainBlock, ChainBlockParams } from "$lib/domain/models/Chain";
-
-/**
- * チェーンの状態
- */
-interface ChainState {
-  /** チェーン構築中かどうか */
-  isBuilding: boolean;
-
-  /** チェーンスタック（LIFO で解決） */
-  stack: ChainBlock[];
-
-  /** 現在のチェーン番号（次に積まれるブロックの番号） */
-  currentChainNumber: number;
-
-  /** 最後に積まれた ChainBlock のスペルスピード */
-  lastSpellSpeed: 1 | 2 | 3 | null;
-}
-
-/**
- * 初期状態を生成する
- */
-function createInitialState(): ChainState {
-  return {
-    isBuilding: false,
-    stack: [],
-    currentChainNumber: 0,
-    lastSpellSpeed: null,
-  };
-}
+import type { ChainStack } from "$lib/domain/rules/EffectProcessingRule";
+import {
+  EMPTY_CHAIN_STACK,
+  startChain,
+  pushChainBlock,
+  endChainBuilding,
+  canChain,
+  getStackedInstanceIds,
+  getRequiredSpellSpeed,
+} from "$lib/domain/rules/EffectProcessingRule";
 
 /**
  * チェーンスタックストアのインターフェース
  */
 export interface ChainStackStore {
-  subscribe: (run: (value: ChainState) => void) => () => void;
+  subscribe: (run: (value: ChainStack) => void) => () => void;
 
   /** チェーン構築を開始する */
   startChain: () => void;
@@ -73,47 +54,34 @@ export interface ChainStackStore {
   /** チェーンに必要なスペルスピード下限を取得する */
   getRequiredSpellSpeed: () => 1 | 2 | 3;
 
+  /** 効果処理ルールで更新したチェーンスタックを反映する */
+  set: (chain: ChainStack) => void;
+
   /** チェーンをリセットする */
   reset: () => void;
 }
 
 /**
  * チェーンスタックストアを生成する
+ *
+ * 状態遷移とスペルスピード判定は効果処理ルール（EffectProcessingRule）に委譲する。
  */
 function createchainStackStore(): ChainStackStore {
-  const { subscribe, update, set } = writable<ChainState>(createInitialState());
+  const { subscribe, update, set } = writable<ChainStack>(EMPTY_CHAIN_STACK);
 
   const self: ChainStackStore = {
     subscribe,
 
     startChain: () => {
-      update((s) => ({
-        ...s,
-        isBuilding: true,
-        currentChainNumber: 1,
-      }));
+      update(startChain);
     },
 
     pushChainBlock: (params: ChainBlockParams) => {
-      update((s) => {
-        const chainBlock: ChainBlock = {
-          ...params,
-          chainNumber: s.currentChainNumber,
-        };
-        return {
-          ...s,
-          stack: [...s.stack, chainBlock],
-          currentChainNumber: s.currentChainNumber + 1,
-          lastSpellSpeed: params.spellSpeed,
-        };
-      });
+      update((s) => pushChainBlock(s, params));
     },
 
     endChainBuilding: () => {
-      update((s) => ({
-        ...s,
-        isBuilding: false,
-      }));
+      update(endChainBuilding);
     },
 
     popChainBlock: (): ChainBlock | undefined => {
@@ -128,39 +96,16 @@ function createchainStackStore(): ChainStackStore {
       return block;
     },
 
-    canChain: (spellSpeed: 1 | 2 | 3): boolean => {
-      const state = getStoreValue(self);
+    canChain: (spellSpeed: 1 | 2 | 3): boolean => canChain(getStoreValue(self), spellSpeed),
 
-      // チェーン構築中でない場合、SS1 以上なら新規チェーン開始可能
-      if (!state.isBuilding) {
-        return spellSpeed >= 1;
-      }
+    getStackedInstanceIds: (): Set<string> => getStackedInstanceIds(getStoreValue(self)),
 
-      // チェーン構築中の場合、前のスペルスピード以上が必要
-      return spellSpeed >= (state.lastSpellSpeed ?? 1);
-    },
-
-    getStackedInstanceIds: (): Set<string> => {
-      const state = getStoreValue(self);
-      return new Set(state.stack.map((block) => block.sourceInstanceId));
-    },
+    getRequiredSpellSpeed: (): 1 | 2 | 3 => getRequiredSpellSpeed(getStoreValue(self)),
 
-    getRequiredSpellSpeed: (): 1 | 2 | 3 => {
-      const state = getStoreValue(self);
-      // チェーン 1（スタックが空）: SS1 以上が候補
-      if (state.stack.length === 0) {
-        return 1;
-      }
-      // チェーン 2 以降: 最低 SS2、かつ直前の spellSpeed 以上
-      // - SS1 はチェーン 1 にしか置けない
-      // - SS3（カウンター罠）には SS3 でしかチェーンできない
-      // TODO: 同時に誘発した効果（SEGOC: Simultaneous Effects Go On Chain）対応
-      // SEGOC 中は SS1 の誘発効果を連続して積める例外がある
-      return Math.max(2, state.lastSpellSpeed ?? 2) as 2 | 3;
-    },
+    set,
 
     reset: () => {
-      set(createInitialState());
+      set(EMPTY_CHAIN_STACK);
     },
   };
 
@@ -2,14 +2,18 @@
  * derivedStores - ゲーム状態の派生ストア
  *
  * gameStateStore の変更を監視し、派生したread-only値を提供する。
+ * 効果処理の進行状況（effectQueueStore / chainStackStore）の派生値もここで提供する。
  *
  * @module application/stores/derivedStores
  */
 
 import { derived } from "svelte/store";
 import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import { effectQueueStore } from "$lib/application/stores/effectQueueStore";
+import { chainStackStore } from "$lib/application/stores/chainStackStore";
 import { toInstanceRef, toInstanceOnFieldRef } from "$lib/application/factories/cardRefFactory";
-import { getPhaseDisplayName } from "$lib/domain/models/GameState/Phase";
+import { getPhaseDisplayName, getNextPhaseCandidates } from "$lib/domain/models/GameState/Phase";
+import type { GameOutcome } from "$lib/application/types/game";
 
 /** 現在のゲームフェーズ */
 export const currentPhase = derived(gameStateStore, ($state) => $state.phase);
@@ -17,6 +21,14 @@ export const currentPhase = derived(gameStateStore, ($state) => $state.phase);
 /** 現在のゲームフェーズの表示名 */
 export const currentPhaseDisplayName = derived(gameStateStore, ($state) => getPhaseDisplayName($state.phase));
 
+/** 現在のフェイズから遷移できるフェイズと表示名（先頭が既定の遷移先） */
+export const nextPhaseOptions = derived(gameStateStore, ($state) =>
+  getNextPhaseCandidates($state.phase, $state.turn).map((phase) => ({
+    phase,
+    displayName: getPhaseDisplayName(phase),
+  })),
+);
+
 /** 現在のターン数 */
 export const currentTurn = derived(gameStateStore, ($state) => $state.turn);
 
@@ -35,15 +47,27 @@ export const deckCardCount = derived(gameStateStore, ($state) => $state.space.ma
 /** 墓地の枚数 */
 export const graveyardCardCount = derived(gameStateStore, ($state) => $state.space.graveyard.length);
 
-/** フィールド（メインモンスターゾーン・魔法罠ゾーン・フィールドゾーン）の枚数 */
+/** フィールド（モンスターゾーン・魔法罠ゾーン・フィールドゾーン）の枚数 */
 export const fieldCardCount = derived(
   gameStateStore,
-  ($state) => $state.space.mainMonsterZone.length + $state.space.spellTrapZone.length + $state.space.fieldZone.length,
+  ($state) =>
+    $state.space.mainMonsterZone.length +
+    $state.space.extraMonsterZone.length +
+    $state.space.spellTrapZone.length +
+    $state.space.fieldZone.length,
 );
 
 /** ゲーム結果 */
 export const gameResult = derived(gameStateStore, ($state) => $state.result);
 
+/** ゲームの決着（勝利・敗北・引き分け・降参。ゲーム進行中は null） */
+export const gameOutcome = derived(gameResult, ($result): GameOutcome | null => {
+  if (!$result.isGameOver) return null;
+  if ($result.winner === "draw") return "draw";
+  if ($result.winner === "player") return "win";
+  return $result.reason === "surrender" ? "surrender" : "loss";
+});
+
 /** デッキが空かどうか */
 export const isDeckEmpty = derived(gameStateStore, ($state) => $state.space.mainDeck.length === 0);
 
@@ -67,6 +91,11 @@ export const monsterZoneInstanceOnFieldRefs = derived(gameStateStore, ($state) =
   $state.space.mainMonsterZone.map(toInstanceOnFieldRef),
 );
 
+/** エクストラモンスターゾーンの CardInstanceOnFieldRef 配列 */
+export const extraMonsterZoneInstanceOnFieldRefs = derived(gameStateStore, ($state) =>
+  $state.space.extraMonsterZone.map(toInstanceOnFieldRef),
+);
+
 /** 魔法・罠ゾーンの CardInstanceOnFieldRef 配列 */
 export const spellTrapZoneInstanceOnFieldRefs = derived(gameStateStore, ($state) =>
   $state.space.spellTrapZone.map(toInstanceOnFieldRef),
@@ -76,3 +105,15 @@ export const spellTrapZoneInstanceOnFieldRefs = derived(gameStateStore, ($state)
 export const fieldZoneInstanceOnFieldRefs = derived(gameStateStore, ($state) =>
   $state.space.fieldZone.map(toInstanceOnFieldRef),
 );
+
+/** 効果処理・チェーンが全て完了し、ユーザー回答待ちもない（プレイヤーが次の操作を行える）かどうか */
+export const isEffectProcessingIdle = derived(
+  [effectQueueStore, chainStackStore],
+  ([$queue, $chain]) =>
+    !$queue.isActive &&
+    $queue.confirmationConfig === null &&
+    $queue.cardSelectionConfig === null &&
+    $queue.chainConfirmationConfig === null &&
+    $queue.optionalTriggerConfirmConfig === null &&
+    $chain.stack.length === 0,
+);
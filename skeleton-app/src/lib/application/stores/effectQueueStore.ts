@@ -16,6 +16,7 @@
  *
  * @remark 効果処理の設計思想
  * - 効果処理は複数の AtomicStep から構成されるシーケンス
+ * - 効果処理の進め方（誘発効果の収集・チェーン構築・解決）はドメイン層の EffectProcessingRule が定義
  * - effectQueueStore が効果処理の状態を一元管理（SSOT）
  * - プレゼン層は状態を監視し、configがnullでなければUIを表示
  * - ユーザー操作時にconfig内のコールバックを実行
@@ -27,25 +28,31 @@
  */
 
 import { writable, get as getStoreValue } from "svelte/store";
-import type { CardInstance } from "$lib/domain/models/Card";
-import type { GameSnapshot } from "$lib/domain/models/GameState";
-import { GameState } from "$lib/domain/models/GameState";
-import type { AtomicStep, GameEvent, EventTimeline } from "$lib/domain/models/GameProcessing";
+import type { AtomicStep, EventTimeline, InteractionAnswer } from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
-import type { ChainableAction } from "$lib/domain/models/Effect";
 import type { ChainBlockParams } from "$lib/domain/models/Chain";
-import { AdditionalRuleRegistry } from "$lib/domain/effects/rules";
-import { ChainableActionRegistry } from "$lib/domain/effects/actions";
 import { CardDataRegistry } from "$lib/domain/cards/CardDataRegistry";
-import { placeCardForActivation } from "$lib/domain/rules/ActivationRule";
+import type {
+  EffectProcessing,
+  EffectProcessingDecision,
+  EffectProcessingProgress,
+  EffectQueue,
+  ExecutedStep,
+} from "$lib/domain/rules/EffectProcessingRule";
+import {
+  EMPTY_EFFECT_QUEUE,
+  advanceEffectProcessing,
+  answerEffectProcessing,
+  beginEffectProcessing,
+} from "$lib/domain/rules/EffectProcessingRule";
 import { isThenMarker } from "$lib/domain/dsl/steps/builders/timing";
 import type {
   ConfirmationConfig,
   ResolvedCardSelectionConfig,
   ChainConfirmationConfig,
   OptionalTriggerConfirmConfig,
-  OptionalTriggerEffect,
 } from "$lib/application/types/game";
+import type { InteractionRecorder } from "$lib/application/types/replay";
 import { gameStateStore } from "$lib/application/stores/gameStateStore";
 import { chainStackStore } from "$lib/application/stores/chainStackStore";
 
@@ -57,10 +64,11 @@ interface NotificationHandler {
 // 効果処理ステップキューストアの状態インターフェース
 interface EffectQueueState {
   isActive: boolean;
-  currentStep: AtomicStep | null;
-  steps: AtomicStep[];
-  currentIndex: number;
+  // 効果処理ステップキュー（実行待ちのステップと回答待ちの意思決定）
+  queue: EffectQueue;
   notificationHandler: NotificationHandler | null;
+  // ユーザー回答の記録先（リプレイ用、null = 記録しない）
+  interactionRecorder: InteractionRecorder | null;
   // ユーザー確認用の設定（null = 非表示）
   confirmationConfig: ConfirmationConfig | null;
   // カード選択用の設定（null = 非表示）
@@ -73,240 +81,12 @@ interface EffectQueueState {
   eventTimeline: EventTimeline;
 }
 
-// ステップ実行の共通結果
-type StepExecutionResult = {
-  shouldContinue: boolean;
-  delay?: number;
-  emittedEvents?: GameEvent[];
-};
-
-// 通知レベル別の実行戦略（Strategy Pattern で分離）
-type NotificationStrategy = (
-  step: AtomicStep,
-  gameState: GameSnapshot,
-  handlers: {
-    notification: NotificationHandler | null;
-  },
-  updateState: (updater: (state: EffectQueueState) => EffectQueueState) => void,
-) => Promise<StepExecutionResult>;
-
-// ステップ実行結果（イベント情報を含む）
-interface StepActionResult {
-  updatedState: GameSnapshot;
-  emittedEvents: GameEvent[];
-  message?: string;
-}
-
-// 1ステップ分のアクションを実行する（共通処理）
-function executeStepAction(step: AtomicStep, gameState: GameSnapshot, selectedIds?: string[]): StepActionResult {
-  const result = step.action(gameState, selectedIds);
-  if (result.success) {
-    gameStateStore.set(result.updatedState);
-    return {
-      updatedState: result.updatedState,
-      emittedEvents: result.emittedEvents || [],
-      message: result.message,
-    };
-  }
-  console.error("[executeStepAction] Step action failed:", step.id, result.message);
-  return { updatedState: gameState, emittedEvents: [] };
-}
-
-// Strategy: "silent"レベル - 通知なし、即座に実行
-const silentStrategy: NotificationStrategy = async (step, gameState) => {
-  const result = executeStepAction(step, gameState);
-  return { shouldContinue: true, emittedEvents: result.emittedEvents };
-};
-
-// Strategy: "static"レベル - 静的メッセージをトースト通知、自動で次へ進む
-const staticStrategy: NotificationStrategy = async (step, gameState, handlers) => {
-  const result = executeStepAction(step, gameState);
-
-  if (handlers.notification) {
-    handlers.notification.showInfo(step.summary, step.description);
-  }
-
-  return { shouldContinue: true, delay: 300, emittedEvents: result.emittedEvents };
-};
-
-// Strategy: "dynamic"レベル - actionが返す動的メッセージをトースト表示、自動で次へ進む
-const dynamicStrategy: NotificationStrategy = async (step, gameState, handlers) => {
-  const result = executeStepAction(step, gameState);
-
-  if (handlers.notification && result.message) {
-    // UI実装では description（第2引数）をトーストに表示するため、動的メッセージを第2引数に渡す
-    handlers.notification.showInfo("", result.message);
-  }
-
-  return { shouldContinue: true, delay: 300, emittedEvents: result.emittedEvents };
-};
-
-// Strategy: "interactive"レベル（カード選択あり） - モーダル表示、ユーザー入力待ち
-const interactiveWithSelectionStrategy: NotificationStrategy = async (step, gameState, _handlers, updateState) => {
-  // ドメイン層でカード選択設定を解決（availableCards の解決もここで行う）
-  const resolved = GameProcessing.AtomicStep.resolveCardSelection(step, gameState);
-
-  if (!resolved) {
-    // null = 選択不要（自動実行）
-    const result = executeStepAction(step, gameState);
-    return { shouldContinue: true, emittedEvents: result.emittedEvents };
-  }
-
-  const { config, availableCards } = resolved;
-  let emittedEvents: GameEvent[] = [];
-  const sourceCardName = step.sourceCardId ? CardDataRegistry.getCardNameWithBrackets(step.sourceCardId) : undefined;
-
-  // カード選択モーダル（Promise化）- 状態を更新してモーダルを表示
-  await new Promise<void>((resolve) => {
-    updateState((s) => ({
-      ...s,
-      cardSelectionConfig: {
-        availableCards,
-        sourceCardName,
-        minCards: config.minCards,
-        maxCards: config.maxCards,
-        summary: config.summary,
-        description: config.description,
-        cancelable: config.cancelable,
-        canConfirm: config.canConfirm,
-        onConfirm: (selectedInstanceIds: string[]) => {
-          // モーダル表示中に状態が変わっている可能性があるため、最新の状態を取得
-          const latestGameState = getStoreValue(gameStateStore);
-          const result = executeStepAction(step, latestGameState, selectedInstanceIds);
-          emittedEvents = result.emittedEvents;
-          updateState((s) => ({ ...s, cardSelectionConfig: null }));
-          resolve();
-        },
-        onCancel: () => {
-          updateState((s) => ({ ...s, cardSelectionConfig: null }));
-          resolve();
-        },
-      },
-    }));
-  });
-
-  return { shouldContinue: true, emittedEvents };
-};
-
-// Strategy: "interactive"レベル（カード選択なし） - モーダル表示、ユーザー入力待ち
-const interactiveWithoutSelectionStrategy: NotificationStrategy = async (step, _gameState, _handlers, updateState) => {
-  // イベント情報をキャプチャするための変数
-  let emittedEvents: GameEvent[] = [];
-
-  // 発動元カード名を解決
-  const sourceCardName = step.sourceCardId ? CardDataRegistry.getCardNameWithBrackets(step.sourceCardId) : undefined;
-
-  // 効果確認モーダル（Promise化）- 状態を更新してモーダルを表示
-  await new Promise<void>((resolve) => {
-    updateState((s) => ({
-      ...s,
-      confirmationConfig: {
-        sourceCardName,
-        summary: step.summary,
-        description: step.description,
-        onConfirm: () => {
-          // モーダル表示中に状態が変わっている可能性があるため、最新の状態を取得
-          const latestGameState = getStoreValue(gameStateStore);
-          const result = executeStepAction(step, latestGameState);
-          emittedEvents = result.emittedEvents;
-          updateState((s) => ({ ...s, confirmationConfig: null }));
-          resolve();
-        },
-      },
-    }));
-  });
-
-  return { shouldContinue: true, emittedEvents };
-};
-
-// 通知レベルに応じた Strategyを選択する
-function selectInteractiveStrategy(step: AtomicStep): NotificationStrategy {
-  const level = step.notificationLevel || "static";
-
-  if (level === "silent") return silentStrategy;
-  if (level === "static") return staticStrategy;
-  if (level === "dynamic") return dynamicStrategy;
-
-  return step.cardSelectionConfig ? interactiveWithSelectionStrategy : interactiveWithoutSelectionStrategy;
-}
-
-// イベントに対するトリガールールを収集してステップキューに挿入する（任意効果はモーダル確認）
-async function processTriggerEvents(
-  events: GameEvent[],
-  currentState: GameSnapshot,
-  currentSteps: AtomicStep[],
-  currentIndex: number,
-  update: (updater: (state: EffectQueueState) => EffectQueueState) => void,
-): Promise<AtomicStep[]> {
-  const mandatorySteps: AtomicStep[] = [];
-  const optionalTriggers: OptionalTriggerEffect[] = [];
-
-  for (const event of events) {
-    // AdditionalRule の TriggerRule を収集（強制/任意を分離）
-    const additionalResult = AdditionalRuleRegistry.collectTriggerSteps(currentState, event);
-    mandatorySteps.push(...additionalResult.mandatorySteps);
-    for (const opt of additionalResult.optionalEffects) {
-      const sourceCardName = CardDataRegistry.getCardNameWithBrackets(opt.instance.id);
-      optionalTriggers.push({ sourceCardName, activate: () => opt.steps });
-    }
-
-    // ChainableAction の TriggerEffect を収集（強制/任意を分離）
-    const chainableResult = ChainableActionRegistry.collectTriggerSteps(currentState, event);
-    for (const block of chainableResult.mandatoryChainBlocks) {
-      chainStackStore.pushChainBlock(block);
-    }
-    mandatorySteps.push(...chainableResult.mandatorySteps);
-    for (const opt of chainableResult.optionalEffects) {
-      const sourceCardName = CardDataRegistry.getCardNameWithBrackets(opt.instance.id);
-      optionalTriggers.push({
-        sourceCardName,
-        activate: () => {
-          // 任意効果を発動: チェーンブロックを積んで activationSteps を返す
-          chainStackStore.pushChainBlock({
-            sourceInstanceId: opt.instance.instanceId,
-            sourceCardId: opt.instance.id,
-            effectId: opt.action.effectId,
-            spellSpeed: opt.action.spellSpeed,
-            resolutionSteps: opt.resolutionSteps,
-            isNegated: false,
-          });
-          return opt.activationSteps;
-        },
-      });
-    }
-  }
-
-  // 任意効果を1件ずつ確認モーダルで処理
-  const optionalSteps: AtomicStep[] = [];
-  for (const optional of optionalTriggers) {
-    const stepsToAdd = await new Promise<AtomicStep[]>((resolve) => {
-      update((s) => ({
-        ...s,
-        optionalTriggerConfirmConfig: {
-          sourceCardName: optional.sourceCardName,
-          onActivate: () => {
-            const steps = optional.activate();
-            update((s) => ({ ...s, optionalTriggerConfirmConfig: null }));
-            resolve(steps);
-          },
-          onPass: () => {
-            update((s) => ({ ...s, optionalTriggerConfirmConfig: null }));
-            resolve([]);
-          },
-        },
-      }));
-    });
-    optionalSteps.push(...stepsToAdd);
-  }
+// トースト通知するステップの表示時間（ms）
+const NOTIFICATION_DELAY = 300;
 
-  const allTriggerSteps = [...mandatorySteps, ...optionalSteps];
-  if (allTriggerSteps.length === 0) {
-    return currentSteps;
-  }
-
-  // 現在位置の次にトリガーステップを挿入
-  return [...currentSteps.slice(0, currentIndex + 1), ...allTriggerSteps, ...currentSteps.slice(currentIndex + 1)];
-}
+// 発動元カード名を解決する
+const resolveSourceCardName = (step: AtomicStep): string | undefined =>
+  step.sourceCardId ? CardDataRegistry.getCardNameWithBrackets(step.sourceCardId) : undefined;
 
 /** 効果処理ステップキューストアのインターフェース */
 export interface EffectQueueStore {
@@ -315,37 +95,39 @@ export interface EffectQueueStore {
   /** 通知ハンドラを登録する（Dependency Injection） */
   registerNotificationHandler: (handler: NotificationHandler) => void;
 
+  /** ユーザー回答の記録先を登録する（Dependency Injection、null で解除） */
+  registerInteractionRecorder: (recorder: InteractionRecorder | null) => void;
+
   /** 効果処理ステップキューを処理する（GameFacade向けエンドポイント） */
   handleEffectQueues: (chainBlock: ChainBlockParams | undefined, activationSteps: AtomicStep[]) => void;
-
-  /** チェーン発動する（チェーン確認UIからのコールバック用） */
-  activateChain: (instance: CardInstance, action: ChainableAction) => void;
 }
 
 /**
  * 効果処理ステップキューストアを生成する
  *
+ * 効果処理の進行はドメイン層の EffectProcessingRule に委譲し、
+ * このストアは状態の反映・通知・意思決定UIの提示を担当する。
+ *
  * 内部メソッド:
- * - beginSequence: 効果処理シーケンスを開始する
- * - processCurrentStep: 現在のステップの処理を確定して次に進む
- * - advanceToNextStep: 次ステップに遷移する
- * - finishCurrentSequence: 効果処理シーケンスの終了処理を行う（チェーン解決含む）
- * - startChainResolution: チェーン構築を終了し、解決を開始する
- * - processNextChainBlock: 次のチェーンブロックを取り出して解決する
+ * - currentProcessing: ゲーム状態・チェーンスタック・ステップキューから効果処理の状態を組み立てる
+ * - commit: 効果処理の状態を各ストアに反映する
+ * - processQueue: 意思決定待ち、または完了するまで効果処理を進める
+ * - notifyExecutedStep: 実行したステップを通知レベルに応じて通知する
+ * - presentDecision: 意思決定をUIの設定として提示する
+ * - respond: ユーザー回答を記録して効果処理を再開する
  *
  * 公開API: EffectQueueStore インターフェースに準拠
  * - subscribe: Svelteストアの購読メソッド
  * - registerNotificationHandler: 通知ハンドラを登録する（Dependency Injection）
+ * - registerInteractionRecorder: ユーザー回答の記録先を登録する（Dependency Injection）
  * - handleEffectQueues: 効果処理ステップキューを処理する（GameFacade向けエンドポイント）
- * - activateChain: チェーン発動する（チェーン確認UIからのコールバック用）
  */
 function createEffectQueueStore(): EffectQueueStore {
   const { subscribe, update } = writable<EffectQueueState>({
     isActive: false,
-    currentStep: null,
-    steps: [],
-    currentIndex: -1,
+    queue: EMPTY_EFFECT_QUEUE,
     notificationHandler: null,
+    interactionRecorder: null,
     confirmationConfig: null,
     cardSelectionConfig: null,
     chainConfirmationConfig: null,
@@ -353,213 +135,160 @@ function createEffectQueueStore(): EffectQueueStore {
     eventTimeline: GameProcessing.TimeLine.createEmptyTimeline(),
   });
 
-  // 効果処理シーケンスを開始する
-  const beginSequence = (steps: AtomicStep[]) => {
-    update((state) => ({
-      ...state,
-      isActive: true,
-      steps,
-      currentIndex: 0,
-      currentStep: steps[0] || null,
-    }));
+  // ゲーム状態・チェーンスタック・ステップキューから効果処理の状態を組み立てる
+  // （モーダル表示中に状態が変わっている可能性があるため、常に最新の状態を取得する）
+  const currentProcessing = (): EffectProcessing => ({
+    state: getStoreValue(gameStateStore),
+    chain: getStoreValue(chainStackStore),
+    queue: getStoreValue(self).queue,
+  });
 
-    const firstStep = steps[0];
-    if (firstStep) {
-      // すべての notificationLevel で processCurrentStep() を呼ぶ
-      // （interactiveの場合も cardSelectionConfig を設定するために必要）
-      processCurrentStep();
+  // 効果処理の状態を各ストアに反映する（変更がないストアは更新しない）
+  const commit = (processing: EffectProcessing) => {
+    if (processing.state !== getStoreValue(gameStateStore)) {
+      gameStateStore.set(processing.state);
     }
+    if (processing.chain !== getStoreValue(chainStackStore)) {
+      chainStackStore.set(processing.chain);
+    }
+    update((s) => ({ ...s, queue: processing.queue }));
   };
 
-  // 現在のステップの処理を確定して次に進む
-  const processCurrentStep = async () => {
-    let state = getStoreValue(self);
-    if (!state.currentStep) return;
-
-    // タイミング制御: THEN マーカーを検出した場合はタイミングを進めて次のステップへ
-    if (isThenMarker(state.currentStep)) {
-      update((s) => ({
-        ...s,
-        eventTimeline: GameProcessing.TimeLine.advanceTime(s.eventTimeline),
-      }));
-      const hasNext = advanceToNextStep(state, update);
-      if (hasNext) {
-        processCurrentStep();
-      }
+  // 実行したステップを通知レベルに応じて通知する（トースト表示した場合は自動進行まで待機）
+  const notifyExecutedStep = async ({ step, result }: ExecutedStep) => {
+    // タイミング制御: THEN マーカーの場合はタイミングを進める
+    if (isThenMarker(step)) {
+      update((s) => ({ ...s, eventTimeline: GameProcessing.TimeLine.advanceTime(s.eventTimeline) }));
       return;
     }
+    if (!result) return;
 
-    // インタラクティブステップ処理: Strategy Pattern で実行戦略を選択
-    const currentGameState = getStoreValue(gameStateStore);
-    const strategy = selectInteractiveStrategy(state.currentStep);
-    const result = await strategy(
-      state.currentStep,
-      currentGameState,
-      { notification: state.notificationHandler },
-      update,
-    );
-
-    // イベントトリガー処理: emittedEvents がある場合はトリガールールを収集してキューに挿入
-    if (result.emittedEvents && result.emittedEvents.length > 0) {
-      // EventTimeline に記録（将来の拡張用）
-      let updatedTimeline = state.eventTimeline;
-      for (const event of result.emittedEvents) {
-        updatedTimeline = GameProcessing.TimeLine.recordEvent(updatedTimeline, event);
-      }
-
-      // 最新の GameState を取得してトリガールールを収集（任意効果はモーダル確認あり）
-      const latestGameState = getStoreValue(gameStateStore);
-      const updatedSteps = await processTriggerEvents(
-        result.emittedEvents,
-        latestGameState,
-        state.steps,
-        state.currentIndex,
-        update,
-      );
+    if (!result.success) {
+      console.error("[effectQueueStore] Step action failed:", step.id, result.message);
+      return;
+    }
 
-      // ステップキューと EventTimeline を更新
+    // EventTimeline に記録（将来の拡張用）
+    const events = result.emittedEvents ?? [];
+    if (events.length > 0) {
       update((s) => ({
         ...s,
-        steps: updatedSteps,
-        eventTimeline: updatedTimeline,
+        eventTimeline: events.reduce(GameProcessing.TimeLine.recordEvent, s.eventTimeline),
       }));
-
-      // 状態を再取得
-      state = getStoreValue(self);
     }
 
-    // 遅延が必要なら待機
-    if (result.delay) {
-      await new Promise((resolve) => setTimeout(resolve, result.delay));
+    const { notificationHandler } = getStoreValue(self);
+    const level = step.notificationLevel || "static";
+    if (level === "static") {
+      // 静的メッセージをトースト通知
+      notificationHandler?.showInfo(step.summary, step.description);
+    } else if (level === "dynamic") {
+      // actionが返す動的メッセージをトースト表示
+      // UI実装では description（第2引数）をトーストに表示するため、動的メッセージを第2引数に渡す
+      if (!result.message) return;
+      notificationHandler?.showInfo("", result.message);
+    } else {
+      return;
     }
+    await new Promise((resolve) => setTimeout(resolve, NOTIFICATION_DELAY));
+  };
 
-    // 次ステップへ遷移
-    if (result.shouldContinue) {
-      const hasNext = advanceToNextStep(state, update);
-      if (hasNext) {
-        processCurrentStep();
+  // 意思決定待ち、または完了するまで効果処理を進める
+  const processQueue = async (first: EffectProcessingProgress) => {
+    let progress = first;
+    for (;;) {
+      commit(progress.processing);
+      if (progress.kind === "decision") {
+        presentDecision(progress.decision);
+        return;
+      }
+      if (progress.kind === "settled") {
+        update((s) => ({ ...s, isActive: false }));
+        return;
       }
+      await notifyExecutedStep(progress.executed);
+      progress = advanceEffectProcessing(currentProcessing());
     }
   };
 
-  // 次ステップに遷移する
-  function advanceToNextStep(
-    state: EffectQueueState,
-    update: (updater: (state: EffectQueueState) => EffectQueueState) => void,
-  ): boolean {
-    const nextIndex = state.currentIndex + 1;
-
-    if (nextIndex < state.steps.length) {
-      update((s) => ({
-        ...s,
-        currentIndex: nextIndex,
-        currentStep: s.steps[nextIndex],
-      }));
-      return true;
-    } else {
-      // 次ステップがなければシーケンス終了処理へ
-      finishCurrentSequence(update);
-      return false;
-    }
-  }
-
-  // 効果処理シーケンスの終了処理を行う
-  function finishCurrentSequence(update: (updater: (state: EffectQueueState) => EffectQueueState) => void): void {
-    // ストアリセット
+  // ユーザー回答を記録して効果処理を再開する
+  const respond = (answer: InteractionAnswer) => {
+    getStoreValue(self).interactionRecorder?.(answer);
     update((s) => ({
       ...s,
-      isActive: false,
-      currentStep: null,
-      steps: [],
-      currentIndex: -1,
+      confirmationConfig: null,
+      cardSelectionConfig: null,
+      chainConfirmationConfig: null,
+      optionalTriggerConfirmConfig: null,
     }));
+    processQueue(answerEffectProcessing(currentProcessing(), answer));
+  };
 
-    // チェーンスタックに残りがあれば処理を継続
-    const chainState = getStoreValue(chainStackStore);
-    if (chainState.stack.length > 0) {
-      if (chainState.isBuilding) {
-        // チェーン構築中: チェーン可能なカードを収集して確認UIを表示
-        const gameState = getStoreValue(gameStateStore);
-        const requiredSpellSpeed = chainStackStore.getRequiredSpellSpeed();
-        const stackedInstanceIds = chainStackStore.getStackedInstanceIds();
-        const chainableCards = ChainableActionRegistry.collectChainableActions(
-          gameState,
-          requiredSpellSpeed,
-          stackedInstanceIds,
-        );
-
-        if (chainableCards.length > 0) {
-          // チェーン可能なカードがある場合、確認UIを表示
-          update((s) => ({
-            ...s,
-            chainConfirmationConfig: {
-              chainableCards,
-              onActivate: (instanceId: string) => {
-                // 選択されたカードでチェーン発動
-                const selected = chainableCards.find((c) => c.instance.instanceId === instanceId);
-                if (selected) {
-                  self.activateChain(selected.instance, selected.action);
-                }
-              },
-              onPass: () => {
-                // チェーンをパス → 解決開始
-                update((s) => ({ ...s, chainConfirmationConfig: null }));
-                startChainResolution();
-              },
+  // 意思決定をUIの設定として提示する
+  const presentDecision = (decision: EffectProcessingDecision) => {
+    switch (decision.kind) {
+      case "confirmation":
+        update((s) => ({
+          ...s,
+          confirmationConfig: {
+            sourceCardName: resolveSourceCardName(decision.step),
+            summary: decision.step.summary,
+            description: decision.step.description,
+            onConfirm: () => respond({ kind: "confirmation" }),
+          },
+        }));
+        return;
+      case "cardSelection": {
+        const { config } = decision;
+        update((s) => ({
+          ...s,
+          cardSelectionConfig: {
+            availableCards: decision.availableCards,
+            sourceCardName: resolveSourceCardName(decision.step),
+            minCards: config.minCards,
+            maxCards: config.maxCards,
+            summary: config.summary,
+            description: config.description,
+            cancelable: config.cancelable,
+            canConfirm: config.canConfirm,
+            onConfirm: (selectedInstanceIds: string[]) =>
+              respond({ kind: "cardSelection", selectedInstanceIds: [...selectedInstanceIds] }),
+            onCancel: () => respond({ kind: "cardSelectionCancel" }),
+          },
+        }));
+        return;
+      }
+      case "optionalTrigger":
+        update((s) => ({
+          ...s,
+          optionalTriggerConfirmConfig: {
+            sourceCardName: CardDataRegistry.getCardNameWithBrackets(decision.trigger.instance.id),
+            onActivate: () => respond({ kind: "optionalTrigger", activate: true }),
+            onPass: () => respond({ kind: "optionalTrigger", activate: false }),
+          },
+        }));
+        return;
+      case "chain": {
+        const { chainableCards } = decision;
+        update((s) => ({
+          ...s,
+          chainConfirmationConfig: {
+            chainLinks: getStoreValue(gameStateStore).chainLinks ?? [],
+            chainableCards,
+            onActivate: (instanceId: string) => {
+              // チェーン可能なカード以外は無視する
+              if (chainableCards.some(({ instance }) => instance.instanceId === instanceId)) {
+                respond({ kind: "chain", instanceId });
+              }
             },
-          }));
-          return;
-        }
-
-        // チェーン可能なカードがない場合、即座に解決開始
-        setTimeout(() => {
-          startChainResolution();
-        }, 0);
-      } else {
-        // チェーン解決中: 次のブロックを処理
-        setTimeout(() => {
-          processNextChainBlock();
-        }, 0);
+            onPass: () => respond({ kind: "chain", instanceId: null }),
+          },
+        }));
+        return;
       }
-    } else {
-      // チェーンスタックが空: 全処理完了、リセット
-      chainStackStore.reset();
     }
-  }
-
-  // チェーン構築を終了し、チェーン解決を開始する
-  const startChainResolution = () => {
-    chainStackStore.endChainBuilding();
-    processNextChainBlock();
   };
 
-  // 次のチェーンブロックを取り出して解決する
-  function processNextChainBlock() {
-    // チェーンスタックから次のブロックを取り出して処理
-    const block = chainStackStore.popChainBlock();
-
-    if (!block) {
-      // チェーン解決完了
-      chainStackStore.reset();
-      return;
-    }
-
-    // resolutionSteps を実行する
-    if (!block.isNegated && block.resolutionSteps.length > 0) {
-      update((state) => ({
-        ...state,
-        isActive: true,
-        steps: block.resolutionSteps,
-        currentIndex: 0,
-        currentStep: block.resolutionSteps[0] || null,
-      }));
-      processCurrentStep();
-    } else {
-      // resolutionSteps がない、または無効化されている場合は次へ
-      processNextChainBlock();
-    }
-  }
-
   // 公開APIの実装
   const self: EffectQueueStore = {
     subscribe,
@@ -569,68 +298,23 @@ function createEffectQueueStore(): EffectQueueStore {
       update((state) => ({ ...state, notificationHandler: handler }));
     },
 
-    /** 効果処理キューを処理する */
-    handleEffectQueues: (chainBlock, activationSteps) => {
-      // チェーンブロックがある場合は chainStackStore に登録
-      if (chainBlock) {
-        const chainState = getStoreValue(chainStackStore);
-        // まだ構築中でない場合、新しいチェーンを開始
-        if (chainState.stack.length === 0) {
-          chainStackStore.startChain();
-        }
-        chainStackStore.pushChainBlock(chainBlock);
-      }
-
-      // activationSteps（発動時処理）を即座に実行
-      // チェーン解決は effectQueueStore 内で処理完了後に行われる
-      if (activationSteps && activationSteps.length > 0) {
-        beginSequence(activationSteps);
-      } else if (chainBlock) {
-        // 発動時処理がない場合は即座にチェーン解決を開始
-        startChainResolution();
-      }
+    /** ユーザー回答の記録先を登録する（Dependency Injection） */
+    registerInteractionRecorder: (recorder: InteractionRecorder | null) => {
+      update((state) => ({ ...state, interactionRecorder: recorder }));
     },
 
-    /** チェーン発動する */
-    activateChain: (instance: CardInstance, action: ChainableAction) => {
-      if (!chainStackStore.canChain(action.spellSpeed)) {
-        console.warn("Invalid chain attempt: Spell speed too low.");
-        return;
-      }
-
-      // チェーン確認モーダルを閉じる
-      update((s) => ({ ...s, chainConfirmationConfig: null }));
-
-      // カードを移動してゲーム状態を更新
-      const currentState = getStoreValue(gameStateStore);
-      const gameState: GameSnapshot = {
-        ...currentState,
-        space: placeCardForActivation(currentState.space, instance),
-        activatedCardIds: GameState.updatedActivatedCardIds(currentState.activatedCardIds, instance.id),
-      };
-      gameStateStore.set(gameState);
-
-      // activationSteps と resolutionSteps を生成（カード移動後の状態で）
-      const activationSteps = action.createActivationSteps(gameState, instance);
-      const resolutionSteps = action.createResolutionSteps(gameState, instance);
-
-      // チェーンブロックをスタックに追加
-      chainStackStore.pushChainBlock({
-        sourceInstanceId: instance.instanceId,
-        sourceCardId: instance.id,
-        effectId: action.effectId,
-        spellSpeed: action.spellSpeed,
-        resolutionSteps,
-        isNegated: false,
-      });
-
-      // activationSteps を処理
-      if (activationSteps.length > 0) {
-        beginSequence(activationSteps);
-      } else {
-        // activationSteps がない場合、再度チェーン確認へ
-        finishCurrentSequence(update);
-      }
+    /** 効果処理キューを処理する */
+    handleEffectQueues: (chainBlock, activationSteps) => {
+      // チェーンブロックを積み、activationSteps（発動時処理）を即座に実行する
+      // チェーン解決は発動時処理の完了後に行われる
+      const processing = beginEffectProcessing(
+        getStoreValue(gameStateStore),
+        getStoreValue(chainStackStore),
+        chainBlock,
+        activationSteps,
+      );
+      update((s) => ({ ...s, isActive: true }));
+      processQueue(advanceEffectProcessing(processing));
     },
   };
 
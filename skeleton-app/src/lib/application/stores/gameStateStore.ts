@@ -13,10 +13,11 @@
  */
 
 import { writable } from "svelte/store";
-import type { GameSnapshot, InitialDeckCardIds } from "$lib/domain/models/GameState";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
 import type { DeckRecipe } from "$lib/application/types/deck";
 import { GameState } from "$lib/domain/models/GameState";
 import { CardDataRegistry } from "$lib/domain/cards";
+import { convertDeckRecipeToInitialDeck } from "$lib/application/decks/deckLoader";
 
 // 空の初期GameStateを生成する
 function createEmptyGameState(): GameSnapshot {
@@ -29,29 +30,19 @@ function createEmptyGameState(): GameSnapshot {
 /** ゲーム状態ストア */
 export const gameStateStore = writable<GameSnapshot>(createEmptyGameState());
 
-// DeckRecipe を、ドメイン層が要求する InitialDeck 形式に変換する
-function convertDeckRecipeToInitialDeck(deckRecipe: DeckRecipe): InitialDeckCardIds {
-  const mainDeckCardIds: number[] = [];
-  deckRecipe.mainDeck.forEach((entry) => {
-    for (let i = 0; i < entry.quantity; i++) {
-      mainDeckCardIds.push(entry.id);
-    }
-  });
-
-  const extraDeckCardIds: number[] = [];
-  deckRecipe.extraDeck.forEach((entry) => {
-    for (let i = 0; i < entry.quantity; i++) {
-      extraDeckCardIds.push(entry.id);
-    }
-  });
-
-  return { mainDeckCardIds, extraDeckCardIds };
-}
-
-/** ストアを初期状態にリセットする */
-export function resetGameState(deckRecipe: DeckRecipe): void {
+/**
+ * ストアを初期状態にリセットする
+ *
+ * seed 指定時は同じ初期手札・ドロー順を再現する。goingSecond 指定時は後攻1ターン目から開始する。
+ */
+export function resetGameState(deckRecipe: DeckRecipe, options?: { seed?: number; goingSecond?: boolean }): void {
   const initialDeck = convertDeckRecipeToInitialDeck(deckRecipe);
-  gameStateStore.set(GameState.initialize(initialDeck, CardDataRegistry.getCard));
+  gameStateStore.set(
+    GameState.initialize(initialDeck, CardDataRegistry.getCard, {
+      seed: options?.seed,
+      goingSecond: options?.goingSecond,
+    }),
+  );
 }
 
 /** 保存済みスナップショットをストアに復元する */
@@ -39,11 +39,25 @@ export interface DeckStats {
   uniqueCards: number;
 }
 
+/** 初手の条件の要件: 指定カードのいずれかを合計 minCount 枚以上引く */
+export interface OpeningHandRequirement {
+  cardIds: number[];
+  minCount: number;
+}
+
+/** 名前付きの初手の条件（すべての要件を満たす初手） */
+export interface OpeningHandCombo {
+  name: string;
+  requirements: OpeningHandRequirement[];
+}
+
 // デッキ基本情報
 interface DeckBase {
   name: string;
   description: string;
   category?: string;
+  /** 初手確率を表示する条件（プリセットデッキで定義） */
+  openingCombos?: OpeningHandCombo[];
 }
 
 /** 保存用デッキレシピ (軽量な ID + 枚数形式) */
@@ -52,6 +66,22 @@ export interface DeckRecipe extends DeckBase {
   extraDeck: RecipeCardEntry[];
 }
 
+/** 外部形式（YDK / ydke:// URL）から読み込んだデッキ */
+export interface ImportedDeck {
+  mainDeck: RecipeCardEntry[];
+  extraDeck: RecipeCardEntry[];
+  /** DSL定義がなく、シミュレーターで使えないカードID */
+  unplayableCardIds: number[];
+}
+
+/** デッキ選択用のデッキ概要 */
+export interface DeckSummary {
+  id: string;
+  name: string;
+  /** デッキ構築画面で作成したデッキか */
+  isCustom: boolean;
+}
+
 /** メインデッキの構造 (カードタイプ別に事前分類) */
 export interface MainDeckData {
   monsters: LoadedCardEntry[];
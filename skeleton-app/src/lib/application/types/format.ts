@@ -0,0 +1,68 @@
+/**
+ * format - デッキのフォーマット（禁止・制限リスト）の DTO
+ *
+ * フォーマットごとの禁止・制限・準制限カードと、旧テキスト版（edition: legacy）のカードを使えるかの定義。
+ *
+ * @module application/types/format
+ */
+
+/**
+ * 禁止・制限の区分
+ *
+ * - forbidden: 禁止（デッキに入れられない）
+ * - limited: 制限（1枚まで）
+ * - semiLimited: 準制限（2枚まで）
+ */
+export const BAN_STATUSES = ["forbidden", "limited", "semiLimited"] as const;
+export type BanStatus = (typeof BAN_STATUSES)[number];
+
+/** 禁止・制限の区分の表示名 */
+export const BAN_STATUS_LABELS: Record<BanStatus, string> = {
+  forbidden: "禁止",
+  limited: "制限",
+  semiLimited: "準制限",
+};
+
+/** 禁止・制限の区分ごとの同名カードの最大枚数 */
+export const BAN_STATUS_MAX_COPIES: Record<BanStatus, number> = {
+  forbidden: 0,
+  limited: 1,
+  semiLimited: 2,
+};
+
+/** フォーマットの定義 */
+export interface DeckFormat {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  /** 旧テキスト版（edition: legacy）のカードを使えるか */
+  readonly allowLegacyCards: boolean;
+  readonly forbidden: readonly number[];
+  readonly limited: readonly number[];
+  readonly semiLimited: readonly number[];
+}
+
+/**
+ * フォーマットの違反内容
+ *
+ * - BanStatus: 禁止・制限・準制限の枚数を超えている
+ * - legacy: 旧テキスト版のカードを使えないフォーマットで使っている
+ */
+export type FormatViolationType = BanStatus | "legacy";
+
+/** フォーマットの違反 */
+export interface FormatViolation {
+  readonly type: FormatViolationType;
+  readonly cardId: number;
+  /** デッキ内の枚数（メイン・エクストラ合算） */
+  readonly copies: number;
+  /** 表示用メッセージ */
+  readonly message: string;
+}
+
+/** フォーマットの適合判定の結果 */
+export interface FormatLegalityResult {
+  readonly formatId: string;
+  readonly isLegal: boolean;
+  readonly violations: readonly FormatViolation[];
+}
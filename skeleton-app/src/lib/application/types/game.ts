@@ -11,7 +11,9 @@
 
 import type { CardInstance } from "$lib/domain/models/Card";
 import type { ChainableAction } from "$lib/domain/models/Effect";
-import type { InteractionConfig, CardSelectionConfig, AtomicStep } from "$lib/domain/models/GameProcessing";
+import type { ChainLink } from "$lib/domain/models/Chain";
+import type { InteractionConfig, CardSelectionConfig } from "$lib/domain/models/GameProcessing";
+import type { SaveSlotMetadata } from "$lib/application/ports/IGameSnapshotRepository";
 
 /** Domain 型の再エクスポート */
 export type { GameSnapshot } from "$lib/domain/models/GameState";
@@ -46,18 +48,6 @@ export interface ResolvedCardSelectionConfig extends Omit<
   onCancel?: () => void; // cancelable=true の場合のみ選択可能
 }
 
-/**
- * 任意誘発効果の情報（任意効果確認キュー用）
- *
- * processTriggerEvents が収集し、effectQueueStore が順番に確認する。
- */
-export interface OptionalTriggerEffect {
-  /** 発動元カード名（表示用） */
-  sourceCardName: string;
-  /** 「発動する」時に実行する関数。追加するステップ配列を返す */
-  activate: () => AtomicStep[];
-}
-
 /**
  * 任意誘発効果の発動確認設定（コールバック付き）
  *
@@ -80,6 +70,8 @@ export interface OptionalTriggerConfirmConfig {
  * effectQueueStore が生成し、プレゼン層のUIが消費する。
  */
 export interface ChainConfirmationConfig {
+  /** 現在のチェーンリンク（チェーン1から順、無効化状態を含む） */
+  chainLinks: readonly ChainLink[];
   /** チェーン可能なカードと効果のペア配列 */
   chainableCards: readonly { instance: CardInstance; action: ChainableAction }[];
   /** カードを選択して発動する */
@@ -87,3 +79,24 @@ export interface ChainConfirmationConfig {
   /** チェーンをパスする */
   onPass: () => void;
 }
+
+/**
+ * ゲームの決着（プレイヤー視点）
+ *
+ * 降参は通常の敗北と区別して集計できるよう、独立した決着として扱う。
+ */
+export type GameOutcome = "win" | "loss" | "draw" | "surrender";
+
+/** セーブスロットの一覧表示用データ（フェイズ名を解決済み） */
+export interface SaveSlotSummary extends SaveSlotMetadata {
+  phaseName: string;
+}
+
+/** 移行・検証に失敗して読み込めないセーブスロット */
+export interface UnreadableSaveSlot {
+  slotId: string;
+  /** 原因と対処方法を含むエラーメッセージ */
+  error: string;
+  /** 失敗の詳細 */
+  issues: readonly string[];
+}
@@ -0,0 +1,38 @@
+/**
+ * hint - ヒントモードの DTO
+ *
+ * 現在の局面で次に実行すべき操作と、勝ち筋を失う操作の警告をまとめた型。
+ *
+ * @module application/types/hint
+ */
+
+import type { SolverCommandName } from "$lib/domain/solver/ComboSolver";
+
+/** ヒントの対象となる操作 */
+export interface HintAction {
+  readonly command: SolverCommandName;
+  readonly instanceId: string;
+  readonly cardId: number;
+  readonly cardName: string;
+  /** 操作の効果と理由の説明（例: 「デッキから2枚ドローします（デッキ残り10枚）」） */
+  readonly reason: string;
+}
+
+/**
+ * ヒント
+ *
+ * - win: 勝利できる操作列が見つかった（recommended が次の1手）
+ * - noWin: どの操作を選んでも勝利できない
+ * - unknown: 勝利できる操作列は見つからず、探索上限に達した操作がある
+ */
+export interface GameHint {
+  readonly status: "win" | "noWin" | "unknown";
+  /** 次に実行すべき操作（status が win の場合のみ） */
+  readonly recommended: HintAction | null;
+  /** 勝利までに必要な残りの操作数（status が win の場合のみ） */
+  readonly remainingActions: number | null;
+  /** 実行すると勝ち筋がなくなる操作（探索を打ち切らずに判定できたもののみ） */
+  readonly warnings: readonly HintAction[];
+  /** 探索上限に達し、勝ち筋を判定できなかった操作 */
+  readonly undetermined: readonly HintAction[];
+}
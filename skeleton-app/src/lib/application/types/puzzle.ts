@@ -0,0 +1,83 @@
+/**
+ * puzzle - パズル（詰めデュエル）の DTO
+ *
+ * 手札・デッキ順・フィールド・墓地・LP を固定した開始局面と、達成すべき勝利目標の定義。
+ *
+ * @module application/types/puzzle
+ */
+
+import type { CounterType } from "$lib/domain/models/Card";
+
+/**
+ * パズルの勝利目標
+ *
+ * - win: 勝利する（勝利理由は問わない）
+ * - exodia: エクゾディアの特殊勝利で勝利する
+ * - opponentLp0: このターン中に相手のライフポイントを0にする
+ */
+export const PUZZLE_GOALS = ["win", "exodia", "opponentLp0"] as const;
+export type PuzzleGoal = (typeof PUZZLE_GOALS)[number];
+
+/** 勝利目標の表示名 */
+export const PUZZLE_GOAL_LABELS: Record<PuzzleGoal, string> = {
+  win: "このターン中に勝利する",
+  exodia: "エクゾディアを揃えて勝利する",
+  opponentLp0: "このターン中に相手のライフポイントを0にする",
+};
+
+/** フィールドに置くモンスター（表示形式: 表側攻撃表示 / 表側守備表示 / 裏側守備表示） */
+export interface PuzzleMonster {
+  readonly id: number;
+  readonly position: "attack" | "defense" | "set";
+  /** 置かれているカウンター（種類 → 個数） */
+  readonly counters?: Readonly<Partial<Record<CounterType, number>>>;
+}
+
+/** フィールドに置く魔法・罠カード（表側表示 / セット） */
+export interface PuzzleSpellTrap {
+  readonly id: number;
+  readonly position: "faceUp" | "set";
+}
+
+/** パズルの定義 */
+export interface PuzzleDefinition {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly goal: PuzzleGoal;
+  readonly lp: { readonly player: number; readonly opponent: number };
+  readonly hand: readonly number[];
+  /** メインデッキ（上から順） */
+  readonly deck: readonly number[];
+  readonly extraDeck: readonly number[];
+  readonly field: {
+    /** メインモンスターゾーン（左のゾーンから順） */
+    readonly monsters: readonly PuzzleMonster[];
+    /** 魔法・罠ゾーン（左のゾーンから順） */
+    readonly spellTraps: readonly PuzzleSpellTrap[];
+    readonly fieldSpell?: number;
+  };
+  readonly graveyard: readonly number[];
+  readonly banished: readonly number[];
+}
+
+/**
+ * パズルの達成状況
+ *
+ * - inProgress: 挑戦中
+ * - cleared: 勝利目標を達成した
+ * - failed: 目標を達成せずに決着した、またはエンドフェイズに入った
+ */
+export type PuzzleStatus = "inProgress" | "cleared" | "failed";
+
+/** パズル一覧の表示用データ */
+export interface PuzzleSummary {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly goalLabel: string;
+  /** 挑戦回数 */
+  readonly attempts: number;
+  /** 初めてクリアした日時（未クリアの場合は null） */
+  readonly clearedAt: number | null;
+}
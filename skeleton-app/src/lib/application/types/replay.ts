@@ -0,0 +1,81 @@
+/**
+ * replay - 操作履歴（リプレイ）の DTO (Data Transfer Object)
+ *
+ * GameFacade が記録するコマンド実行履歴と、effectQueueStore に与えられた
+ * ユーザー回答（カード選択・確認・チェーン・任意誘発）のデータ構造。
+ * 同じシード・同じデッキで新規ゲームを開始し、履歴を順に再生すればデュエルを再現できる。
+ *
+ * @architecture レイヤー間依存ルール - アプリ層 (DTO)
+ * - ROLE: アプリ層やプレゼン層が消費するデータ形式の定義
+ * - ALLOWED: ドメイン層のモデルへの依存
+ * - FORBIDDEN: インフラ層への依存、プレゼン層への依存
+ *
+ * @module application/types/replay
+ */
+
+import type { InteractionAnswer } from "$lib/domain/models/GameProcessing";
+import type { DeckRecipe } from "$lib/application/types/deck";
+
+/** リプレイ JSON のフォーマットバージョン */
+export const REPLAY_FORMAT_VERSION = 1;
+
+/** リプレイに記録可能なコマンド名 */
+export const REPLAY_COMMAND_NAMES = [
+  "advancePhase",
+  "normalSummon",
+  "setSpellTrap",
+  "activateSpell",
+  "activateTrap",
+  "activateIgnitionEffect",
+  "synchroSummon",
+  "xyzSummon",
+  "linkSummon",
+  "attack",
+  "surrender",
+] as const;
+export type ReplayCommandName = (typeof REPLAY_COMMAND_NAMES)[number];
+
+/** コマンド引数として記録可能な値（JSON 化可能なプリミティブ） */
+export type ReplayCommandArg = string | number | boolean | null;
+
+/** effectQueueStore に与えられたユーザー回答（ドメイン層の GameProcessing で定義） */
+export type { InteractionAnswer };
+
+/** ユーザー回答の種別 */
+export type InteractionAnswerKind = InteractionAnswer["kind"];
+
+/** ユーザー回答を記録するコールバック（effectQueueStore へ DI） */
+export type InteractionRecorder = (answer: InteractionAnswer) => void;
+
+/** 実行したコマンドの履歴エントリ */
+export interface ReplayCommandEntry {
+  readonly type: "command";
+  readonly command: ReplayCommandName;
+  /** コマンドのコンストラクタ引数 */
+  readonly args: readonly ReplayCommandArg[];
+}
+
+/** ユーザー回答の履歴エントリ */
+export interface ReplayAnswerEntry {
+  readonly type: "answer";
+  readonly answer: InteractionAnswer;
+}
+
+/** 履歴エントリ（発生順に記録される） */
+export type ReplayEntry = ReplayCommandEntry | ReplayAnswerEntry;
+
+/** エクスポート用のリプレイデータ */
+export interface GameReplay {
+  /** フォーマットバージョン */
+  readonly version: typeof REPLAY_FORMAT_VERSION;
+  /** デッキID（プリセットデッキの場合） */
+  readonly deckId?: string;
+  /** ゲーム開始時のデッキレシピ */
+  readonly deckRecipe: DeckRecipe;
+  /** ゲーム開始時の乱数シード */
+  readonly seed: number;
+  /** 後攻1ターン目から開始したか（省略時は先攻） */
+  readonly goingSecond?: boolean;
+  /** 操作履歴 */
+  readonly entries: readonly ReplayEntry[];
+}
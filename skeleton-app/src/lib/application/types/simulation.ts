@@ -0,0 +1,55 @@
+/**
+ * simulation - デッキ勝率シミュレーションの DTO
+ *
+ * デッキレシピを指定回数シャッフルして自動で1ターン目を進め、勝率等を集計した結果の型。
+ *
+ * @module application/types/simulation
+ */
+
+import type { ResultReason } from "$lib/domain/models/GameState";
+
+/**
+ * 勝利できなかった理由
+ *
+ * - deadHand: メインフェイズ1の開始時点で実行できる操作がない（事故）
+ * - noWinningLine: 全ての分岐を探索したが勝利できる操作列がない
+ * - searchBudgetExceeded: 探索上限に達し、勝利できる操作列を見つけられなかった
+ * - deckOut: 勝利できる操作列がなく、1ターン目を進めた結果デッキアウトで敗北した
+ */
+export const SIMULATION_FAILURE_REASONS = ["deadHand", "noWinningLine", "searchBudgetExceeded", "deckOut"] as const;
+export type SimulationFailureReason = (typeof SIMULATION_FAILURE_REASONS)[number];
+
+/** 1ゲーム分のシミュレーション結果 */
+export interface SimulatedGame {
+  readonly seed: number;
+  readonly won: boolean;
+  /** 勝利した場合の勝利理由 */
+  readonly winReason?: ResultReason;
+  /** 勝利できなかった場合の理由 */
+  readonly failureReason?: SimulationFailureReason;
+  /** 1ターン目にデッキから手札・墓地等へ移動したカードの枚数（ドロー・サーチ等で得たリソース） */
+  readonly cardsFromDeck: number;
+  /** 1ターン目に実行した操作（コマンド）の数 */
+  readonly actionCount: number;
+}
+
+/** シミュレーション結果の集計 */
+export interface WinRateReport {
+  readonly deckName: string;
+  /** 各ゲームのシードを生成した元のシード（同じシードで同じ結果を再現できる） */
+  readonly seed: number;
+  readonly games: number;
+  readonly wins: number;
+  /** 勝率（0〜1） */
+  readonly winRate: number;
+  /** 事故率（0〜1、deadHand の割合） */
+  readonly deadHandRate: number;
+  /** 1ターン目にデッキから得たカード枚数の平均 */
+  readonly averageCardsFromDeck: number;
+  /** 1ターン目に実行した操作数の平均 */
+  readonly averageActionCount: number;
+  /** 勝利できなかった理由ごとの件数 */
+  readonly failureReasons: Readonly<Record<SimulationFailureReason, number>>;
+  /** 最も多かった勝利できなかった理由（全勝の場合は null） */
+  readonly mostCommonFailureReason: SimulationFailureReason | null;
+}
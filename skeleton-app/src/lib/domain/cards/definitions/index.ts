@@ -27,6 +27,9 @@ import toonCannonSoldierYaml from "./monsters/effects/toon-cannon-soldier.yaml?r
 import treasurePandaYaml from "./monsters/effects/treasure-panda.yaml?raw";
 import darkMagicianOfChaosYaml from "./monsters/effects/dark-magician-of-chaos.yaml?raw";
 
+// 儀式モンスター
+import magicianOfBlackChaosYaml from "./monsters/rituals/magician-of-black-chaos.yaml?raw";
+
 // 融合モンスター
 import crimsonSunbirdYaml from "./monsters/fusions/crimson-sunbird.yaml?raw";
 import aquaDragonYaml from "./monsters/fusions/aqua-dragon.yaml?raw";
@@ -37,6 +40,12 @@ import formulaSynchronYaml from "./monsters/synchroes/formula-synchron.yaml?raw"
 import tgHyperLibrarianYaml from "./monsters/synchroes/tg-hyper-librarian.yaml?raw";
 import stardustChargeWarriorYaml from "./monsters/synchroes/stardust-charge-warrior.yaml?raw";
 
+// エクシーズモンスター
+import daigustoEmeralYaml from "./monsters/xyzs/daigusto-emeral.yaml?raw";
+
+// リンクモンスター
+import proxyDragonYaml from "./monsters/links/proxy-dragon.yaml?raw";
+
 // トークン
 import metalFiendTokenYaml from "./monsters/tokens/metal-fiend-token.yaml?raw";
 
@@ -62,6 +71,7 @@ import reasoningYaml from "./spells/normals/reasoning.yaml?raw";
 import lastWillYaml from "./spells/normals/last-will.yaml?raw";
 import potOfAvariceYaml from "./spells/normals/pot-of-avarice.yaml?raw";
 import dimensionFusionYaml from "./spells/normals/dimension-fusion.yaml?raw";
+import polymerizationYaml from "./spells/normals/polymerization.yaml?raw";
 
 // 速攻魔法
 import handDestructionYaml from "./spells/quick-plays/hand-destruction.yaml?raw";
@@ -73,11 +83,23 @@ import toonWorldYaml from "./spells/continuouses/toon-world.yaml?raw";
 // フィールド魔法
 import chickenGameYaml from "./spells/fields/chicken-game.yaml?raw";
 
+// 儀式魔法
+import blackMagicRitualYaml from "./spells/rituals/black-magic-ritual.yaml?raw";
+
 // 装備魔法
 import brokenBambooSwordYaml from "./spells/equips/broken-bamboo-sword.yaml?raw";
 import wonderWandYaml from "./spells/equips/wonder-wand.yaml?raw";
 import prematureBurialYaml from "./spells/equips/premature-burial.yaml?raw";
 
+// 通常罠
+import tremendousFireYaml from "./traps/normals/tremendous-fire.yaml?raw";
+
+// 永続罠
+import callOfTheHauntedYaml from "./traps/continuouses/call-of-the-haunted.yaml?raw";
+
+// カウンター罠
+import sevenToolsOfTheBanditYaml from "./traps/counters/seven-tools-of-the-bandit.yaml?raw";
+
 /**
  * カードID → YAML定義文字列のマップ
  *
@@ -105,6 +127,9 @@ export const dslDefinitions: ReadonlyMap<number, string> = new Map([
   [45221020, treasurePandaYaml], // トレジャー・パンダー
   [40737112, darkMagicianOfChaosYaml], // 混沌の黒魔術師
 
+  // 儀式モンスター
+  [30208479, magicianOfBlackChaosYaml], // マジシャン・オブ・ブラックカオス
+
   // 融合モンスター
   [46696593, crimsonSunbirdYaml], // 紅陽鳥
   [86164529, aquaDragonYaml], // アクア・ドラゴン
@@ -115,6 +140,12 @@ export const dslDefinitions: ReadonlyMap<number, string> = new Map([
   [90953320, tgHyperLibrarianYaml], // ＴＧ ハイパー・ライブラリアン
   [64880894, stardustChargeWarriorYaml], // スターダスト・チャージ・ウォリアー
 
+  // エクシーズモンスター
+  [581014, daigustoEmeralYaml], // ダイガスタ・エメラル
+
+  // リンクモンスター
+  [22862454, proxyDragonYaml], // プロキシー・ドラゴン
+
   // トークン
   [24874631, metalFiendTokenYaml], // メタルデビル・トークン
 
@@ -140,6 +171,7 @@ export const dslDefinitions: ReadonlyMap<number, string> = new Map([
   [85602018, lastWillYaml], // 遺言状
   [67169062, potOfAvariceYaml], // 貪欲な壺
   [23557835, dimensionFusionYaml], // 次元融合
+  [24094653, polymerizationYaml], // 融合
 
   // 速攻魔法
   [74519184, handDestructionYaml], // 手札断殺
@@ -151,10 +183,22 @@ export const dslDefinitions: ReadonlyMap<number, string> = new Map([
   // フィールド魔法
   [67616300, chickenGameYaml], // チキンレース
 
+  // 儀式魔法
+  [76792184, blackMagicRitualYaml], // カオス－黒魔術の儀式
+
   // 装備魔法
   [41587307, brokenBambooSwordYaml], // 折れ竹光
   [67775894, wonderWandYaml], // ワンダー・ワンド
   [70828912, prematureBurialYaml], // 早すぎた埋葬
+
+  // 通常罠
+  [46918794, tremendousFireYaml], // 火あぶりの刑
+
+  // 永続罠
+  [97077563, callOfTheHauntedYaml], // リビングデッドの呼び声
+
+  // カウンター罠
+  [3819470, sevenToolsOfTheBanditYaml], // 盗賊の七つ道具
 ]);
 
 /**
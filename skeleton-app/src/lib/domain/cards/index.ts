@@ -71,6 +71,20 @@ export function registerCardDataByIds(cardIds: number[]): void {
 /** トークンカードID（デッキに含まれないが効果で参照される） */
 export const TOKEN_CARD_IDS: readonly number[] = [24874631]; // メタルデビル・トークン
 
+/** DSL定義のあるカード（シミュレーターで使えるカード）かどうか */
+export function hasCardDefinition(cardId: number): boolean {
+  return dslDefinitions.has(cardId);
+}
+
+/**
+ * デッキに入れられるカードID（DSL定義のあるカードのうち、トークン以外）を取得する
+ *
+ * デッキ構築画面のカードプールとして使用する。
+ */
+export function getDeckBuildableCardIds(): number[] {
+  return Array.from(dslDefinitions.keys()).filter((cardId) => !TOKEN_CARD_IDS.includes(cardId));
+}
+
 /**
  * レジストリをクリアし、指定されたカードIDの CardData と効果を登録する
  *
@@ -48,8 +48,7 @@ export class ActivateIgnitionEffectCommand implements GameCommand {
     if (!cardInstance) {
       return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_FOUND);
     }
-    const validLocations = ["fieldZone", "spellTrapZone", "mainMonsterZone"];
-    if (!validLocations.includes(cardInstance.location)) {
+    if (!Card.Instance.onField(cardInstance)) {
       return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_ON_FIELD);
     }
     if (!Card.Instance.isFaceUp(cardInstance)) {
@@ -0,0 +1,113 @@
+/**
+ * ActivateTrapCommand - 罠カード発動コマンド
+ *
+ * フィールドにセットされた罠カードを発動する Command パターン実装。
+ *
+ * @module domain/commands/ActivateTrapCommand
+ */
+
+import { Card } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { ValidationResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import type { GameCommand, GameCommandResult } from "$lib/domain/models/Command";
+import { Command } from "$lib/domain/models/Command";
+import { placeCardForActivation } from "$lib/domain/rules/ActivationRule";
+import { ChainableActionRegistry } from "$lib/domain/effects/actions";
+
+/** 罠カード発動コマンドクラス */
+export class ActivateTrapCommand implements GameCommand {
+  readonly description: string;
+
+  constructor(private readonly cardInstanceId: string) {
+    this.description = `Activate trap card ${cardInstanceId}`;
+  }
+
+  /**
+   * 指定カードインスタンスの罠カードが発動可能か判定する
+   *
+   * チェック項目:
+   * 1. ゲーム終了状態でないこと
+   * 2. 指定カードが罠カードであること
+   * 3. 効果レジストリに登録されていること
+   * 4. 発動条件を満たしていること
+   *
+   * Note: セット状態・セットしたターンの制限は ChainableAction 側でチェック
+   */
+  canExecute(state: GameSnapshot): ValidationResult {
+    // 1. ゲーム終了状態でないこと
+    if (state.result.isGameOver) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.GAME_OVER);
+    }
+
+    // 2. 指定カードが罠カードであること
+    const cardInstance = GameState.Space.findCard(state.space, this.cardInstanceId);
+    if (!cardInstance) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_FOUND);
+    }
+    if (!Card.isTrap(cardInstance)) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_TRAP_CARD);
+    }
+
+    // 3. 効果レジストリに登録されていること
+    const activation = ChainableActionRegistry.getActivation(cardInstance.id);
+    if (!activation) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.EFFECT_NOT_REGISTERED);
+    }
+
+    // 4. 発動条件を満たしていること
+    const activationResult = activation.canActivate(state, cardInstance);
+    if (!activationResult.isValid) {
+      return activationResult;
+    }
+
+    return GameProcessing.Validation.success();
+  }
+
+  /**
+   * 罠カードの効果処理ステップ配列を生成して返す
+   *
+   * 処理フロー:
+   * 1. 実行可能性判定
+   * 2. 更新後状態の構築（セットされたカードを表向きにする）
+   * 3. 戻り値の構築
+   *
+   * Note: 効果処理は、アプリ層に返された後に実行される
+   */
+  execute(state: GameSnapshot): GameCommandResult {
+    // 1. 実行可能性判定
+    const validationResult = this.canExecute(state);
+    if (!validationResult.isValid) {
+      return Command.Result.failure(state, GameProcessing.Validation.errorMessage(validationResult));
+    }
+    // cardInstance と activation は canExecute で存在が保証されている
+    const cardInstance = GameState.Space.findCard(state.space, this.cardInstanceId)!;
+    const activation = ChainableActionRegistry.getActivation(cardInstance.id)!;
+
+    // 2. 更新後状態の構築
+    const updatedState: GameSnapshot = {
+      ...state,
+      space: placeCardForActivation(state.space, cardInstance),
+      activatedCardIds: GameState.updatedActivatedCardIds(state.activatedCardIds, cardInstance.id),
+    };
+
+    // 3. 戻り値の構築
+    const activationSteps = activation.createActivationSteps(updatedState, cardInstance);
+    const chainBlock = {
+      effectId: activation.effectId,
+      sourceInstanceId: cardInstance.instanceId,
+      sourceCardId: cardInstance.id,
+      spellSpeed: activation.spellSpeed,
+      resolutionSteps: activation.createResolutionSteps(updatedState, cardInstance),
+      isNegated: false,
+    };
+
+    return Command.Result.success(updatedState, undefined, [], activationSteps, chainBlock);
+  }
+
+  /** 発動対象のカードインスタンスIDを取得する */
+  getCardInstanceId(): string {
+    return this.cardInstanceId;
+  }
+}
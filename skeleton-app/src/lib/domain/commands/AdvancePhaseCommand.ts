@@ -2,25 +2,29 @@
  * AdvancePhaseCommand - フェイズ遷移コマンド
  *
  * 現在のフェイズから次のフェイズに遷移する Command パターン実装。
- * エンドフェイズ遷移時には、ターン1制限のリセットや、保留されたエンドフェイズ時効果の解決を行う。
+ * 遷移先を指定しない場合は既定の遷移先（メインフェイズ1からはバトルフェイズを行えるターンならバトルフェイズ）に進む。
+ * エンドフェイズ遷移時には、ターン1制限のリセットや、保留されたエンドフェイズ時効果・手札枚数制限の処理ステップの生成を行う。
+ * エンドフェイズからは、相手（案山子）の何もしないターンを経て自分の次のターンのドローフェイズに進み、1枚ドローする。
  *
  * @module domain/commands/AdvancePhaseCommand
  */
 
 import type { CardInstance, StateOnField } from "$lib/domain/models/Card";
-import type { GameSnapshot, CardSpace } from "$lib/domain/models/GameState";
+import type { GameSnapshot, CardSpace, GamePhase } from "$lib/domain/models/GameState";
 import { GameState } from "$lib/domain/models/GameState";
 import type { ValidationResult } from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
 import type { GameCommand, GameCommandResult } from "$lib/domain/models/Command";
 import { Command } from "$lib/domain/models/Command";
+import { buildEndPhaseSteps, findUnknownEndPhaseEffectIds } from "$lib/domain/rules/EndPhaseRule";
 
 /** フェイズ遷移コマンドクラス */
 export class AdvancePhaseCommand implements GameCommand {
   readonly description: string;
 
-  constructor() {
-    this.description = "Advance to next phase";
+  /** @param targetPhase - 遷移先のフェイズ（省略時は既定の遷移先） */
+  constructor(private readonly targetPhase?: GamePhase) {
+    this.description = targetPhase ? `Advance to ${targetPhase} phase` : "Advance to next phase";
   }
 
   /**
@@ -29,6 +33,7 @@ export class AdvancePhaseCommand implements GameCommand {
    * チェック項目:
    * 1. ゲーム終了状態でないこと
    * 2. フェイズ遷移が許可されていること
+   * 3. エンドフェイズ移行時、保留されたエンドフェイズ効果が全て登録済みであること
    */
   canExecute(state: GameSnapshot): ValidationResult {
     // 1. ゲーム終了状態でないこと
@@ -36,14 +41,20 @@ export class AdvancePhaseCommand implements GameCommand {
       return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.GAME_OVER);
     }
 
-    const nextPhase = GameState.Phase.next(state.phase);
+    const nextPhase = this.getNextPhase(state);
 
-    // 2. フェイズ遷移が許可されていること
-    const validation = GameState.Phase.changeable(state.phase, nextPhase);
+    // 2. フェイズ遷移が許可されていること（先攻1ターン目はバトルフェイズに入れない）
+    const validation = GameState.Phase.changeable(state.phase, nextPhase, state.turn);
     if (!validation.valid) {
       return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.PHASE_TRANSITION_NOT_ALLOWED);
     }
 
+    // 3. 保留されたエンドフェイズ効果が全て登録済みであること（復元した局面に不明なIDが含まれる場合）
+    const isEnteringEndPhase = GameState.Phase.isEnd(nextPhase) && !GameState.Phase.isEnd(state.phase);
+    if (isEnteringEndPhase && findUnknownEndPhaseEffectIds(state.queuedEndPhaseEffectIds).length > 0) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.UNKNOWN_END_PHASE_EFFECT);
+    }
+
     return GameProcessing.Validation.success();
   }
 
@@ -53,7 +64,7 @@ export class AdvancePhaseCommand implements GameCommand {
    * 処理フロー:
    * 1. 実行可能性判定
    * 2. 更新後状態の構築
-   * 3. 戻り値の構築
+   * 3. 戻り値の構築（エンドフェイズ移行時は処理ステップを付与）
    *
    * Note: 効果処理は、アプリ層に返された後に実行される
    */
@@ -64,12 +75,21 @@ export class AdvancePhaseCommand implements GameCommand {
       return Command.Result.failure(state, GameProcessing.Validation.errorMessage(validationResult));
     }
 
-    const nextPhase = GameState.Phase.next(state.phase);
-    const hasPendingEffects = GameState.Phase.isEnd(nextPhase) && state.queuedEndPhaseEffectIds.length > 0;
+    const nextPhase = this.getNextPhase(state);
+    const isEnteringEndPhase = GameState.Phase.isEnd(nextPhase) && !GameState.Phase.isEnd(state.phase);
+
+    // 次のターンに移る場合は、ターン開始時の状態を構築する
+    if (GameState.Phase.isTurnTransition(state.phase, nextPhase)) {
+      const nextTurnState = this.startNextTurn(state);
+      return Command.Result.success(
+        nextTurnState,
+        `${nextTurnState.turn}ターン目の${GameState.Phase.displayName(nextPhase)} です`,
+      );
+    }
 
-    // エンドフェイズ移行時にフィールドカードの activatedEffects をリセット
+    // エンドフェイズ移行時にフィールドカードのターン中の状態をリセット
     const updatedSpace: CardSpace = GameState.Phase.isEnd(nextPhase)
-      ? this.resetFieldCardActivatedEffects(state.space)
+      ? this.resetFieldCardTurnStates(state.space)
       : state.space;
 
     // 2. 更新後状態の構築
@@ -79,36 +99,65 @@ export class AdvancePhaseCommand implements GameCommand {
       phase: nextPhase,
       // ターン終了時に「名称ターン1制限」をリセット
       activatedCardIds: GameState.Phase.isEnd(nextPhase) ? [] : state.activatedCardIds,
-      // 保留リストは、エンドフェイズに遷移した時点でクリアする
-      queuedEndPhaseEffectIds: hasPendingEffects ? [] : state.queuedEndPhaseEffectIds,
+      // 保留リストは、エンドフェイズに遷移した時点で解決ステップに変換してクリアする
+      queuedEndPhaseEffectIds: GameState.Phase.isEnd(nextPhase) ? [] : state.queuedEndPhaseEffectIds,
     };
 
     // 3. 戻り値の構築
-    // TODO: エンドフェイズ効果の解決ステップを生成する必要がある
+    // エンドフェイズ移行時のみ、保留されたエンドフェイズ効果・手札枚数制限の処理ステップを付与する
     return Command.Result.success(
       updatedState,
       `${GameState.Phase.displayName(nextPhase)} です`,
-      // 効果がある場合のみ、解決ステップを配列として付与する
-      // hasPendingEffects ? [...state.queuedEndPhaseEffectIds] : undefined,
+      undefined,
+      isEnteringEndPhase ? buildEndPhaseSteps(state) : undefined,
     );
   }
 
   /** 次のフェイズ名を取得する */
-  getNextPhase(state: GameSnapshot): string {
-    return GameState.Phase.next(state.phase);
+  getNextPhase(state: GameSnapshot): GamePhase {
+    return this.targetPhase ?? GameState.Phase.next(state.phase, state.turn);
+  }
+
+  /**
+   * 相手（案山子）のターンを経て、自分の次のターンのドローフェイズを開始する
+   *
+   * 相手のターンは何もせずに終わるため、ターン数を2進める。
+   * セットしたターンの制限と通常召喚回数をリセットし、ドローフェイズのドローを行う（デッキ不足ならデッキアウト）。
+   */
+  private startNextTurn(state: GameSnapshot): GameSnapshot {
+    const clearPlacedThisTurn = (card: CardInstance): CardInstance =>
+      card.stateOnField?.placedThisTurn
+        ? { ...card, stateOnField: { ...card.stateOnField, placedThisTurn: false } }
+        : card;
+
+    const nextTurnState: GameSnapshot = {
+      ...state,
+      space: {
+        ...state.space,
+        mainMonsterZone: state.space.mainMonsterZone.map(clearPlacedThisTurn),
+        extraMonsterZone: state.space.extraMonsterZone.map(clearPlacedThisTurn),
+        spellTrapZone: state.space.spellTrapZone.map(clearPlacedThisTurn),
+        fieldZone: state.space.fieldZone.map(clearPlacedThisTurn),
+      },
+      phase: "draw",
+      turn: state.turn + 2,
+      normalSummonUsed: 0,
+    };
+    return GameState.draw(nextTurnState, 1);
   }
 
   /**
-   * フィールドカードの activatedEffects をリセットする
-   * エンドフェイズ移行時に呼び出され、1ターンに1度制限をリセットする
+   * フィールドカードのターン中の状態（activatedEffects, attackedThisTurn）をリセットする
+   * エンドフェイズ移行時に呼び出され、1ターンに1度制限と攻撃済みの状態をリセットする
    */
-  private resetFieldCardActivatedEffects(space: CardSpace): CardSpace {
+  private resetFieldCardTurnStates(space: CardSpace): CardSpace {
     const resetCard = (card: CardInstance): CardInstance => {
       if (!card.stateOnField) return card;
-      if (card.stateOnField.activatedEffects.length === 0) return card;
+      if (card.stateOnField.activatedEffects.length === 0 && !card.stateOnField.attackedThisTurn) return card;
 
+      const { attackedThisTurn: _attackedThisTurn, ...restStateOnField } = card.stateOnField;
       const resetStateOnField: StateOnField = {
-        ...card.stateOnField,
+        ...restStateOnField,
         activatedEffects: [],
       };
       return { ...card, stateOnField: resetStateOnField };
@@ -117,6 +166,7 @@ export class AdvancePhaseCommand implements GameCommand {
     return {
       ...space,
       mainMonsterZone: space.mainMonsterZone.map(resetCard),
+      extraMonsterZone: space.extraMonsterZone.map(resetCard),
       spellTrapZone: space.spellTrapZone.map(resetCard),
       fieldZone: space.fieldZone.map(resetCard),
     };
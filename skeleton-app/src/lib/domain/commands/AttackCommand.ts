@@ -0,0 +1,62 @@
+/**
+ * AttackCommand - 攻撃宣言コマンド
+ *
+ * バトルフェイズに、フィールドの表側攻撃表示モンスターで攻撃する Command パターン実装。
+ * 相手フィールドにはモンスターが存在しないため、常に直接攻撃となり、攻撃力分の戦闘ダメージを相手に与える。
+ *
+ * @module domain/commands/AttackCommand
+ */
+
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { ValidationResult } from "$lib/domain/models/GameProcessing";
+import type { GameCommand, GameCommandResult } from "$lib/domain/models/Command";
+import { Command } from "$lib/domain/models/Command";
+import { canAttack, performDirectAttack } from "$lib/domain/rules/BattleRule";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+
+/** 攻撃宣言コマンドクラス */
+export class AttackCommand implements GameCommand {
+  readonly description: string;
+
+  constructor(private readonly cardInstanceId: string) {
+    this.description = `Attack with ${cardInstanceId}`;
+  }
+
+  /**
+   * 指定モンスターで攻撃可能か判定する
+   *
+   * チェック項目:
+   * 1. ゲーム終了状態でないこと
+   * 2. バトルルールを満たしていること
+   */
+  canExecute(state: GameSnapshot): ValidationResult {
+    if (state.result.isGameOver) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.GAME_OVER);
+    }
+    return canAttack(state, this.cardInstanceId);
+  }
+
+  /**
+   * 指定モンスターで直接攻撃する
+   *
+   * 処理フロー:
+   * 1. 実行可能性判定
+   * 2. 直接攻撃・戦闘ダメージの適用
+   */
+  execute(state: GameSnapshot): GameCommandResult {
+    // 1. 実行可能性判定
+    const validationResult = this.canExecute(state);
+    if (!validationResult.isValid) {
+      return Command.Result.failure(state, GameProcessing.Validation.errorMessage(validationResult));
+    }
+
+    // 2. 直接攻撃・戦闘ダメージの適用
+    const result = performDirectAttack(state, this.cardInstanceId);
+    return Command.Result.success(result.state, result.message);
+  }
+
+  /** 攻撃するモンスターのカードインスタンスIDを取得する */
+  getCardInstanceId(): string {
+    return this.cardInstanceId;
+  }
+}
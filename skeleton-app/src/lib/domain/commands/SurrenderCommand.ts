@@ -0,0 +1,59 @@
+/**
+ * SurrenderCommand - 降参コマンド
+ *
+ * プレイヤーがデュエルを放棄し、相手の勝利でゲームを終了する Command パターン実装。
+ * 通常の敗北と区別できるよう、終了理由は surrender とする。
+ *
+ * @module domain/commands/SurrenderCommand
+ */
+
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { ValidationResult } from "$lib/domain/models/GameProcessing";
+import type { GameCommand, GameCommandResult } from "$lib/domain/models/Command";
+import { Command } from "$lib/domain/models/Command";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+
+/** 降参コマンドクラス */
+export class SurrenderCommand implements GameCommand {
+  readonly description = "Surrender";
+
+  /**
+   * 降参可能か判定する
+   *
+   * チェック項目:
+   * 1. ゲーム終了状態でないこと
+   */
+  canExecute(state: GameSnapshot): ValidationResult {
+    if (state.result.isGameOver) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.GAME_OVER);
+    }
+    return GameProcessing.Validation.success();
+  }
+
+  /**
+   * 降参してゲームを終了する
+   *
+   * 処理フロー:
+   * 1. 実行可能性判定
+   * 2. 相手の勝利としてゲーム結果を確定
+   */
+  execute(state: GameSnapshot): GameCommandResult {
+    // 1. 実行可能性判定
+    const validationResult = this.canExecute(state);
+    if (!validationResult.isValid) {
+      return Command.Result.failure(state, GameProcessing.Validation.errorMessage(validationResult));
+    }
+
+    // 2. 相手の勝利としてゲーム結果を確定
+    const updatedState: GameSnapshot = {
+      ...state,
+      result: {
+        isGameOver: true,
+        winner: "opponent",
+        reason: "surrender",
+        message: "降参しました。",
+      },
+    };
+    return Command.Result.success(updatedState, "降参しました");
+  }
+}
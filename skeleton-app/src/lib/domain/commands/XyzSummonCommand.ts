@@ -0,0 +1,64 @@
+/**
+ * XyzSummonCommand - エクシーズ召喚コマンド
+ *
+ * EXデッキからエクシーズモンスターを特殊召喚する Command パターン実装。
+ * フィールドのランクと同じレベルのモンスターを素材として重ね、
+ * エクシーズモンスターを召喚する。
+ *
+ * @module domain/commands/XyzSummonCommand
+ */
+
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { ValidationResult } from "$lib/domain/models/GameProcessing";
+import type { GameCommand, GameCommandResult } from "$lib/domain/models/Command";
+import { Command } from "$lib/domain/models/Command";
+import { canXyzSummon, performXyzSummon } from "$lib/domain/rules/XyzSummonRule";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+
+/** エクシーズ召喚コマンドクラス */
+export class XyzSummonCommand implements GameCommand {
+  readonly description: string;
+
+  constructor(private readonly cardInstanceId: string) {
+    this.description = `Xyz Summon ${cardInstanceId}`;
+  }
+
+  /**
+   * 指定カードをエクシーズ召喚可能か判定する
+   *
+   * チェック項目:
+   * 1. ゲーム終了状態でないこと
+   * 2. エクシーズ召喚ルールを満たしていること
+   */
+  canExecute(state: GameSnapshot): ValidationResult {
+    if (state.result.isGameOver) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.GAME_OVER);
+    }
+    return canXyzSummon(state, this.cardInstanceId);
+  }
+
+  /**
+   * エクシーズ召喚を実行する
+   *
+   * 処理フロー:
+   * 1. 実行可能性判定
+   * 2. 素材選択ステップを返す（実際の召喚は選択完了後）
+   */
+  execute(state: GameSnapshot): GameCommandResult {
+    // 1. 実行可能性判定
+    const validationResult = this.canExecute(state);
+    if (!validationResult.isValid) {
+      return Command.Result.failure(state, GameProcessing.Validation.errorMessage(validationResult));
+    }
+
+    // 2. エクシーズ召喚処理（素材選択ステップを返す）
+    const result = performXyzSummon(state, this.cardInstanceId);
+    // 状態は素材選択完了後に更新されるため、現状態を返す
+    return Command.Result.success(state, result.message, undefined, [result.step]);
+  }
+
+  /** エクシーズ召喚対象のカードインスタンスIDを取得する */
+  getCardInstanceId(): string {
+    return this.cardInstanceId;
+  }
+}
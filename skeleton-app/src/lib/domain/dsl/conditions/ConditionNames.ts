@@ -28,13 +28,26 @@ export const CONDITION_NAMES = {
   FIELD_HAS_MONSTER_WITH_RACE: "FIELD_HAS_MONSTER_WITH_RACE",
   FIELD_HAS_NON_EFFECT_MONSTER: "FIELD_HAS_NON_EFFECT_MONSTER",
 
+  // フィルター式関連
+  ZONE_HAS_MATCHING_CARDS: "ZONE_HAS_MATCHING_CARDS",
+
+  // 召喚関連
+  CAN_FUSION_SUMMON: "CAN_FUSION_SUMMON",
+  CAN_RITUAL_SUMMON: "CAN_RITUAL_SUMMON",
+
   // カウンター関連
   HAS_COUNTER: "HAS_COUNTER",
 
+  // エクシーズ素材関連
+  HAS_MATERIAL: "HAS_MATERIAL",
+
   // 発動条件関連
   ONCE_PER_TURN: "ONCE_PER_TURN",
   ONCE_PER_TURN_EFFECT: "ONCE_PER_TURN_EFFECT",
 
+  // チェーン関連
+  CHAIN_HAS_LINK: "CHAIN_HAS_LINK",
+
   // LP関連
   LP_AT_LEAST: "LP_AT_LEAST",
   LP_GREATER_THAN: "LP_GREATER_THAN",
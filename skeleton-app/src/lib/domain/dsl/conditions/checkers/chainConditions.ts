@@ -0,0 +1,43 @@
+/**
+ * chainConditions.ts - チェーン関連の条件チェック
+ *
+ * ConditionChecker:
+ * - chainHasLinkCondition: 現在のチェーンに、無効化されていない他のリンクが存在するか
+ */
+
+import type { CardType } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+import { createConditionChecker } from "../conditionFactory";
+
+const { ERROR_CODES } = GameProcessing.Validation;
+
+// ===========================
+// 純粋関数（private）
+// ===========================
+
+/** 現在のチェーンに、発動元以外の無効化されていないリンクが存在するか（発動元カードの種類で絞り込み可） */
+const chainHasActiveLink = (state: GameSnapshot, sourceInstanceId: string, cardType?: CardType): boolean =>
+  GameState.Chain.activeLinks(state.chainLinks ?? []).some((link) => {
+    if (link.sourceInstanceId === sourceInstanceId) return false;
+    if (!cardType) return true;
+    return GameState.Space.findCard(state.space, link.sourceInstanceId)?.type === cardType;
+  });
+
+// ===========================
+// ConditionChecker（export）
+// ===========================
+
+/**
+ * CHAIN_HAS_LINK - 現在のチェーンに、無効化されていない他のリンクが存在するか
+ * args: { cardType?: "monster" | "spell" | "trap" }
+ */
+export const chainHasLinkCondition = createConditionChecker(
+  (args) => ({
+    cardType: ArgValidators.optionalCardType(args, "cardType"),
+  }),
+  (state, sourceInstance, { cardType }) => chainHasActiveLink(state, sourceInstance.instanceId, cardType),
+  ERROR_CODES.NO_VALID_TARGET,
+);
@@ -74,6 +74,8 @@ export const deckHasNormalMonsterForGraveyardBanishCondition = createSimpleCondi
 /**
  * DECK_HAS_NAME_INCLUDES - デッキに名前パターンを含むカードが指定枚数以上あるか
  * args: { namePattern: string, minCount?: number }
+ *
+ * 新しいカードでは ZONE_HAS_MATCHING_CARDS（filter: { nameIncludes }）を使う。
  */
 export const deckHasNameIncludesCondition = createSimpleConditionChecker(
   (args) => ({
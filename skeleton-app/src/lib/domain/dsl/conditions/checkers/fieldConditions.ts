@@ -7,6 +7,7 @@
  */
 
 import type { CardType } from "$lib/domain/models/Card";
+import { GameState } from "$lib/domain/models/GameState";
 import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
 import { createSimpleConditionChecker } from "../conditionFactory";
 import {
@@ -37,7 +38,7 @@ export const fieldHasCardCondition = createSimpleConditionChecker(
     minCount: ArgValidators.optionalPositiveInt(args, "minCount") ?? 1,
   }),
   (state, { filterType, minCount }) => {
-    const zone = filterType === "monster" ? state.space.mainMonsterZone : state.space.spellTrapZone;
+    const zone = filterType === "monster" ? GameState.Space.monstersOnField(state.space) : state.space.spellTrapZone;
     return hasAtLeast(zone, byType(filterType), minCount);
   },
 );
@@ -57,10 +58,12 @@ export const fieldHasEquippedNameIncludesCondition = createSimpleConditionChecke
  * args: { race: string }
  *
  * 表側表示の指定種族モンスターが存在するかをチェック
+ * 新しいカードでは ZONE_HAS_MATCHING_CARDS を使う。
  */
 export const fieldHasMonsterWithRaceCondition = createSimpleConditionChecker(
   (args) => ({ race: ArgValidators.nonEmptyString(args, "race") }),
-  (state, { race }) => hasAtLeast(state.space.mainMonsterZone, and(isMonster, isFaceUp, byRace(race)), 1),
+  (state, { race }) =>
+    hasAtLeast(GameState.Space.monstersOnField(state.space), and(isMonster, isFaceUp, byRace(race)), 1),
 );
 
 /**
@@ -72,5 +75,5 @@ export const fieldHasMonsterWithRaceCondition = createSimpleConditionChecker(
 export const fieldHasNonEffectMonsterCondition = createSimpleConditionChecker(
   (args) => ({ minCount: ArgValidators.optionalPositiveInt(args, "minCount") ?? 1 }),
   (state, { minCount }) =>
-    hasAtLeast(state.space.mainMonsterZone, and(isMonster, isFaceUp, isNonEffectMonster), minCount),
+    hasAtLeast(GameState.Space.monstersOnField(state.space), and(isMonster, isFaceUp, isNonEffectMonster), minCount),
 );
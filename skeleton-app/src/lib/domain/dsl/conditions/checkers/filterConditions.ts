@@ -0,0 +1,30 @@
+/**
+ * filterConditions.ts - カードフィルター式を使う条件チェック
+ *
+ * ConditionChecker:
+ * - zoneHasMatchingCardsCondition: ゾーンにフィルター式に合うカードが指定枚数以上あるか
+ */
+
+import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+import { CARD_FILTER_ZONES, compileCardFilter, getCardsInZone } from "$lib/domain/dsl/core/cardFilter";
+import { createSimpleConditionChecker } from "../conditionFactory";
+import { hasAtLeast } from "../primitives/cardPredicates";
+
+// ===========================
+// ConditionChecker（export）
+// ===========================
+
+/**
+ * ZONE_HAS_MATCHING_CARDS - ゾーンにフィルター式に合うカードが指定枚数以上あるか
+ * args: { zone: CardFilterZone, filter: CardFilterDSL, minCount?: number } (minCount デフォルト: 1)
+ *
+ * 例: { zone: "monsterZone", filter: { race: "Spellcaster", faceUp: true } }
+ */
+export const zoneHasMatchingCardsCondition = createSimpleConditionChecker(
+  (args) => ({
+    zone: ArgValidators.oneOf(args, "zone", CARD_FILTER_ZONES),
+    predicate: compileCardFilter(ArgValidators.cardFilter(args, "filter")),
+    minCount: ArgValidators.optionalPositiveInt(args, "minCount") ?? 1,
+  }),
+  (state, { zone, predicate, minCount }) => hasAtLeast(getCardsInZone(state.space, zone), predicate, minCount),
+);
@@ -0,0 +1,45 @@
+/**
+ * summonConditions.ts - 召喚関連の条件チェック
+ *
+ * ConditionChecker:
+ * - canFusionSummonCondition: 融合召喚可能な融合モンスターがEXデッキにあるか
+ * - canRitualSummonCondition: 儀式召喚可能な儀式モンスターが手札にあるか
+ */
+
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { getFusionSummonableMonsters } from "$lib/domain/rules/FusionSummonRule";
+import { getRitualSummonableMonsters } from "$lib/domain/rules/RitualSummonRule";
+import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+import { LEVEL_SUM_CONDITIONS } from "$lib/domain/dsl/steps/builders/releases";
+import { createSimpleConditionChecker } from "../conditionFactory";
+
+// ===========================
+// ConditionChecker（export）
+// ===========================
+
+/**
+ * CAN_FUSION_SUMMON - 融合素材が手札・フィールドに揃っている融合モンスターがEXデッキにあるか
+ * args: なし
+ */
+export const canFusionSummonCondition = createSimpleConditionChecker(
+  () => ({}),
+  (state) => getFusionSummonableMonsters(state).length > 0,
+  GameProcessing.Validation.ERROR_CODES.NO_VALID_FUSION_MATERIALS,
+);
+
+/**
+ * CAN_RITUAL_SUMMON - リリースできるモンスターが手札・フィールドに揃っている儀式モンスターが手札にあるか
+ * args: {
+ *   levelCondition: "equal" | "atLeast" - リリースするモンスターのレベル合計の条件,
+ *   ritualMonsterId?: number - 儀式召喚できるモンスターのカードID（省略時は全ての儀式モンスター）
+ * }
+ */
+export const canRitualSummonCondition = createSimpleConditionChecker(
+  (args) => ({
+    levelCondition: ArgValidators.oneOf(args, "levelCondition", LEVEL_SUM_CONDITIONS),
+    ritualMonsterId: ArgValidators.optionalPositiveInt(args, "ritualMonsterId"),
+  }),
+  (state, { levelCondition, ritualMonsterId }) =>
+    getRitualSummonableMonsters(state, levelCondition, ritualMonsterId).length > 0,
+  GameProcessing.Validation.ERROR_CODES.NO_VALID_RITUAL_TRIBUTES,
+);
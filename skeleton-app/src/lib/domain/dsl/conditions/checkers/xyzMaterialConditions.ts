@@ -0,0 +1,29 @@
+/**
+ * xyzMaterialConditions.ts - エクシーズ素材関連の条件チェック
+ *
+ * ConditionChecker:
+ * - hasMaterialCondition: カードにエクシーズ素材が指定数以上あるか
+ */
+
+import { Card } from "$lib/domain/models/Card";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+import { createConditionChecker } from "../conditionFactory";
+
+const { ERROR_CODES } = GameProcessing.Validation;
+
+// ===========================
+// ConditionChecker（export）
+// ===========================
+
+/**
+ * HAS_MATERIAL - 発動元カードにエクシーズ素材が指定数以上あるか
+ * args: { minCount: number }
+ */
+export const hasMaterialCondition = createConditionChecker(
+  (args) => ({
+    minCount: ArgValidators.positiveInt(args, "minCount"),
+  }),
+  (_state, sourceInstance, { minCount }) => Card.Instance.xyzMaterials(sourceInstance).length >= minCount,
+  ERROR_CODES.INSUFFICIENT_XYZ_MATERIALS,
+);
@@ -30,8 +30,12 @@ import {
   fieldHasMonsterWithRaceCondition,
   fieldHasNonEffectMonsterCondition,
 } from "./checkers/fieldConditions";
+import { zoneHasMatchingCardsCondition } from "./checkers/filterConditions";
+import { canFusionSummonCondition, canRitualSummonCondition } from "./checkers/summonConditions";
 import { hasCounterCondition } from "./checkers/counterConditions";
+import { hasMaterialCondition } from "./checkers/xyzMaterialConditions";
 import { oncePerTurnCondition, oncePerTurnEffectCondition } from "./checkers/activationConditions";
+import { chainHasLinkCondition } from "./checkers/chainConditions";
 import { lpAtLeastCondition, lpGreaterThanCondition } from "./checkers/lpConditions";
 
 // ===========================
@@ -73,13 +77,26 @@ AtomicConditionRegistry.register(C.FIELD_HAS_EQUIPPED_NAME_INCLUDES, fieldHasEqu
 AtomicConditionRegistry.register(C.FIELD_HAS_MONSTER_WITH_RACE, fieldHasMonsterWithRaceCondition);
 AtomicConditionRegistry.register(C.FIELD_HAS_NON_EFFECT_MONSTER, fieldHasNonEffectMonsterCondition);
 
+// フィルター式関連
+AtomicConditionRegistry.register(C.ZONE_HAS_MATCHING_CARDS, zoneHasMatchingCardsCondition);
+
+// 召喚関連
+AtomicConditionRegistry.register(C.CAN_FUSION_SUMMON, canFusionSummonCondition);
+AtomicConditionRegistry.register(C.CAN_RITUAL_SUMMON, canRitualSummonCondition);
+
 // カウンター関連
 AtomicConditionRegistry.register(C.HAS_COUNTER, hasCounterCondition);
 
+// エクシーズ素材関連
+AtomicConditionRegistry.register(C.HAS_MATERIAL, hasMaterialCondition);
+
 // 発動条件関連
 AtomicConditionRegistry.register(C.ONCE_PER_TURN, oncePerTurnCondition);
 AtomicConditionRegistry.register(C.ONCE_PER_TURN_EFFECT, oncePerTurnEffectCondition);
 
+// チェーン関連
+AtomicConditionRegistry.register(C.CHAIN_HAS_LINK, chainHasLinkCondition);
+
 // LP関連
 AtomicConditionRegistry.register(C.LP_AT_LEAST, lpAtLeastCondition);
 AtomicConditionRegistry.register(C.LP_GREATER_THAN, lpGreaterThanCondition);
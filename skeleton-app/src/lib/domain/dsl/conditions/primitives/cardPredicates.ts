@@ -4,7 +4,7 @@
  * 条件チェッカーで共通して使われるカードフィルタリングパターンを提供する。
  */
 
-import type { CardInstance, CardType, SpellSubType, FrameSubType } from "$lib/domain/models/Card";
+import type { CardInstance, CardType, SpellSubType, TrapSubType, FrameSubType } from "$lib/domain/models/Card";
 import { Card } from "$lib/domain/models/Card";
 
 // ===========================
@@ -12,7 +12,7 @@ import { Card } from "$lib/domain/models/Card";
 // ===========================
 
 /** カードの述語関数 */
-type CardPredicate = (card: CardInstance) => boolean;
+export type CardPredicate = (card: CardInstance) => boolean;
 
 // ===========================
 // 基本フィルター
@@ -30,6 +30,12 @@ export const bySpellType =
   (card) =>
     card.spellType === spellType;
 
+/** 罠カードサブタイプでフィルター */
+export const byTrapType =
+  (trapType: TrapSubType): CardPredicate =>
+  (card) =>
+    card.trapType === trapType;
+
 /** フレームタイプでフィルター */
 export const byFrameType =
   (frameType: FrameSubType): CardPredicate =>
@@ -54,6 +60,21 @@ export const byRace =
   (card) =>
     card.race === race;
 
+/** 属性でフィルター */
+export const byAttribute =
+  (attribute: string): CardPredicate =>
+  (card) =>
+    card.attribute === attribute;
+
+/** レベル・攻撃力・守備力の範囲でフィルター（min, max を含む。値を持たないカードは対象外） */
+export const byStatRange =
+  (stat: "level" | "attack" | "defense", min?: number, max?: number): CardPredicate =>
+  (card) => {
+    const value = card[stat];
+    if (value === undefined) return false;
+    return (min === undefined || value >= min) && (max === undefined || value <= max);
+  };
+
 /** 指定インスタンスIDを除外 */
 export const excludingInstance =
   (instanceId: string): CardPredicate =>
@@ -76,6 +97,12 @@ export const or =
   (card) =>
     predicates.some((p) => p(card));
 
+/** 述語を否定 */
+export const not =
+  (predicate: CardPredicate): CardPredicate =>
+  (card) =>
+    !predicate(card);
+
 // ===========================
 // カウントユーティリティ
 // ===========================
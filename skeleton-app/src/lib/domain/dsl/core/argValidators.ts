@@ -8,8 +8,8 @@
 
 import type { CardType, SpellSubType } from "$lib/domain/models/Card";
 import type { Player } from "$lib/domain/models/GameState";
-import type { DSLArgs } from "$lib/domain/dsl/types";
-import { ArgValidationError } from "$lib/domain/dsl/types";
+import type { CardFilterDSL, DSLArgs } from "$lib/domain/dsl/types";
+import { ArgValidationError, CardFilterDSLSchema } from "$lib/domain/dsl/types";
 
 /**
  * 引数バリデーションユーティリティ
@@ -214,6 +214,21 @@ export const ArgValidators = {
     return value as SpellSubType;
   },
 
+  /**
+   * カードフィルター式を取得（必須）
+   * @example
+   * const filter = ArgValidators.cardFilter(args, "filter"); // { type: "monster", attack: { max: 1500 } }
+   * @throws ArgValidationError - カードフィルター式として不正な場合
+   */
+  cardFilter(args: DSLArgs, key: string): CardFilterDSL {
+    const value = args[key];
+    const result = CardFilterDSLSchema.safeParse(value);
+    if (!result.success) {
+      throw new ArgValidationError(key, "a card filter expression", value);
+    }
+    return result.data;
+  },
+
   // ===========================
   // 配列バリデーション
   // ===========================
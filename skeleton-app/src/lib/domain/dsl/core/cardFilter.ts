@@ -0,0 +1,164 @@
+/**
+ * cardFilter - カードフィルター式（CardFilterDSL）の評価と説明文生成
+ *
+ * YAML の args.filter で書かれたフィルター式を、cardPredicates の述語関数の組み合わせに変換する。
+ * サーチ・対象選択・枚数チェックの汎用ステップ/条件から使用する。
+ *
+ * 例: args: { zone: "mainDeck", filter: { type: "monster", attack: { max: 1500 } } }
+ *
+ * @module domain/dsl/cardFilter
+ */
+
+import type { CardInstance, CardType } from "$lib/domain/models/Card";
+import { Card } from "$lib/domain/models/Card";
+import type { CardSpace } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { CardFilterDSL, StatRangeDSL } from "$lib/domain/dsl/types";
+import type { CardPredicate } from "$lib/domain/dsl/conditions/primitives/cardPredicates";
+import {
+  and,
+  or,
+  not,
+  byType,
+  byFrameType,
+  bySpellType,
+  byTrapType,
+  byRace,
+  byAttribute,
+  byNameIncludes,
+  byStatRange,
+  isFaceUp,
+} from "$lib/domain/dsl/conditions/primitives/cardPredicates";
+
+type StatKey = "level" | "attack" | "defense";
+
+const STAT_JA_NAMES: Record<StatKey, string> = {
+  level: "レベル",
+  attack: "攻撃力",
+  defense: "守備力",
+};
+
+const STAT_KEYS: readonly StatKey[] = ["level", "attack", "defense"];
+
+// 数値指定を { min, max } に揃える（数値は一致として扱う）
+const toRange = (value: number | StatRangeDSL): StatRangeDSL =>
+  typeof value === "number" ? { min: value, max: value } : value;
+
+/**
+ * フィルター式を述語関数に変換する
+ *
+ * 同じオブジェクト内のプロパティは AND で結合する。空のフィルター式は全てのカードに一致する。
+ */
+export function compileCardFilter(filter: CardFilterDSL): CardPredicate {
+  const predicates: CardPredicate[] = [];
+
+  if (filter.type) predicates.push(byType(filter.type));
+  if (filter.frameType) predicates.push(byFrameType(filter.frameType));
+  if (filter.spellType) predicates.push(bySpellType(filter.spellType));
+  if (filter.trapType) predicates.push(byTrapType(filter.trapType));
+  if (filter.race) predicates.push(byRace(filter.race));
+  if (filter.attribute) predicates.push(byAttribute(filter.attribute));
+  if (filter.nameIncludes) predicates.push(byNameIncludes(filter.nameIncludes));
+  for (const stat of STAT_KEYS) {
+    const value = filter[stat];
+    if (value === undefined) continue;
+    const { min, max } = toRange(value);
+    predicates.push(byStatRange(stat, min, max));
+  }
+  if (filter.faceUp !== undefined) {
+    predicates.push(filter.faceUp ? isFaceUp : not(isFaceUp));
+  }
+  if (filter.and) predicates.push(and(...filter.and.map(compileCardFilter)));
+  if (filter.or) predicates.push(or(...filter.or.map(compileCardFilter)));
+  if (filter.not) predicates.push(not(compileCardFilter(filter.not)));
+
+  return and(...predicates);
+}
+
+// サブタイプやモンスター固有の項目からカードタイプを推定する（type 省略時の説明文用）
+const inferCardType = (filter: CardFilterDSL): CardType | undefined => {
+  if (filter.type) return filter.type;
+  if (filter.spellType || filter.frameType === "spell") return "spell";
+  if (filter.trapType || filter.frameType === "trap") return "trap";
+  if (filter.frameType || filter.race || filter.attribute || STAT_KEYS.some((stat) => filter[stat] !== undefined)) {
+    return "monster";
+  }
+  return undefined;
+};
+
+// 数値範囲の説明（例: 攻撃力1500以下）
+const describeRange = (stat: StatKey, value: number | StatRangeDSL): string => {
+  const { min, max } = toRange(value);
+  const name = STAT_JA_NAMES[stat];
+  if (min !== undefined && max !== undefined) {
+    return min === max ? `${name}${min}` : `${name}${min}〜${max}`;
+  }
+  return min !== undefined ? `${name}${min}以上` : `${name}${max}以下`;
+};
+
+/**
+ * フィルター式の説明文を生成する（ステップの summary / description 用）
+ *
+ * @example
+ * describeCardFilter({ type: "monster", attack: { max: 1500 } }) // => "攻撃力1500以下のモンスター"
+ * describeCardFilter({ nameIncludes: "トゥーン" }) // => "「トゥーン」を含むカード"
+ */
+export function describeCardFilter(filter: CardFilterDSL): string {
+  const modifiers: string[] = [];
+  if (filter.faceUp !== undefined) modifiers.push(filter.faceUp ? "表側表示の" : "裏側表示の");
+  if (filter.nameIncludes) modifiers.push(`「${filter.nameIncludes}」を含む`);
+  if (filter.attribute) modifiers.push(`${filter.attribute}属性の`);
+  for (const stat of STAT_KEYS) {
+    const value = filter[stat];
+    if (value !== undefined) modifiers.push(`${describeRange(stat, value)}の`);
+  }
+
+  const type = inferCardType(filter);
+  // 魔法・罠のフレームタイプはカードタイプと同じ名前になるため、モンスターのみ付ける
+  const frameType = type === "monster" ? filter.frameType : undefined;
+  const typeJa = type ? Card.TypeJaName(type, frameType, filter.spellType, filter.trapType) : undefined;
+  const noun = type === "monster" ? typeJa : `${typeJa ?? ""}カード`;
+  const base = `${modifiers.join("")}${filter.race ?? ""}${noun}`;
+
+  const composites: string[] = [];
+  if (filter.and) composites.push(...filter.and.map(describeCardFilter));
+  if (filter.or) composites.push(filter.or.map(describeCardFilter).join("または"));
+  if (filter.not) composites.push(`${describeCardFilter(filter.not)}以外`);
+
+  // 合成条件のみの場合は「カード」を省略する
+  const hasSimpleField = modifiers.length > 0 || filter.race !== undefined || type !== undefined;
+  const parts = hasSimpleField || composites.length === 0 ? [base, ...composites] : composites;
+  return parts.join("かつ");
+}
+
+// ===========================
+// フィルター対象のゾーン
+// ===========================
+
+/** フィルター式でカードを探すゾーン（monsterZone はメイン・エクストラモンスターゾーンの両方） */
+export const CARD_FILTER_ZONES = [
+  "hand",
+  "mainDeck",
+  "extraDeck",
+  "graveyard",
+  "banished",
+  "monsterZone",
+  "spellTrapZone",
+] as const;
+export type CardFilterZone = (typeof CARD_FILTER_ZONES)[number];
+
+/** ゾーンの日本語名（ステップの説明文用） */
+export const CARD_FILTER_ZONE_JA_NAMES: Record<CardFilterZone, string> = {
+  hand: "手札",
+  mainDeck: "デッキ",
+  extraDeck: "エクストラデッキ",
+  graveyard: "墓地",
+  banished: "除外ゾーン",
+  monsterZone: "モンスターゾーン",
+  spellTrapZone: "魔法・罠ゾーン",
+};
+
+/** ゾーンのカード一覧を取得する */
+export function getCardsInZone(space: CardSpace, zone: CardFilterZone): readonly CardInstance[] {
+  return zone === "monsterZone" ? GameState.Space.monstersOnField(space) : space[zone];
+}
@@ -12,6 +12,7 @@ import { ChainableActionRegistry } from "$lib/domain/effects/actions/ChainableAc
 import { FieldSpellActivation } from "$lib/domain/effects/actions/activations/FieldSpellActivation";
 import { EquipSpellActivation } from "$lib/domain/effects/actions/activations/EquipSpellActivation";
 import { ContinuousSpellActivation } from "$lib/domain/effects/actions/activations/ContinuousSpellActivation";
+import { ContinuousTrapActivation } from "$lib/domain/effects/actions/activations/ContinuousTrapActivation";
 import { AdditionalRuleRegistry } from "$lib/domain/effects/rules/AdditionalRuleRegistry";
 import type { CardDSLDefinition } from "$lib/domain/dsl/types";
 import {
@@ -19,6 +20,10 @@ import {
   createGenericQuickPlaySpellActivation,
   createGenericContinuousSpellActivation,
   createGenericEquipSpellActivation,
+  createGenericRitualSpellActivation,
+  createGenericNormalTrapActivation,
+  createGenericContinuousTrapActivation,
+  createGenericCounterTrapActivation,
   createGenericIgnitionEffect,
   createGenericTriggerEffect,
   GenericContinuousTriggerRule,
@@ -41,12 +46,47 @@ function registerCardData(definition: CardDSLDefinition): void {
     trapType: data.trapType,
     edition: data.edition ?? "latest",
     race: data.race,
+    attribute: data.attribute,
     level: data.level,
     attack: data.attack,
     defense: data.defense,
+    fusionMaterials: data.fusionMaterials,
+    rank: data.rank,
+    xyzMaterialCount: data.xyzMaterialCount,
+    linkRating: data.linkRating,
+    linkMarkers: data.linkMarkers,
   });
 }
 
+/**
+ * 罠カードの発動をChainableActionRegistryに登録する
+ */
+function registerTrapActivation(definition: CardDSLDefinition): void {
+  const { id, data } = definition;
+  const activations = definition["effectChainableActions"]?.activations;
+  const trapType = data.trapType;
+
+  if (activations) {
+    // trapTypeに応じて適切なファクトリを使用
+    if (trapType === "normal") {
+      const activation = createGenericNormalTrapActivation(id, activations);
+      ChainableActionRegistry.registerActivation(id, activation);
+    } else if (trapType === "continuous") {
+      const activation = createGenericContinuousTrapActivation(id, activations);
+      ChainableActionRegistry.registerActivation(id, activation);
+    } else if (trapType === "counter") {
+      const activation = createGenericCounterTrapActivation(id, activations);
+      ChainableActionRegistry.registerActivation(id, activation);
+    } else {
+      throw new Error(`Unsupported trap type "${trapType}" for card ID ${id}`);
+    }
+  } else if (trapType === "continuous") {
+    // 永続罠はactivationsがなくてもNoOpで発動可能
+    const activation = ContinuousTrapActivation.createNoOp(id);
+    ChainableActionRegistry.registerActivation(id, activation);
+  }
+}
+
 /**
  * DSL定義をChainableActionRegistryに登録する
  */
@@ -56,7 +96,9 @@ function registerChainableAction(definition: CardDSLDefinition): void {
   const spellType = data.spellType;
 
   // activations セクション（カードの発動）
-  if (chainableActions?.activations) {
+  if (data.type === "trap") {
+    registerTrapActivation(definition);
+  } else if (chainableActions?.activations) {
     // spellTypeに応じて適切なファクトリを使用
     if (spellType === "normal") {
       const activation = createGenericNormalSpellActivation(id, chainableActions.activations);
@@ -70,6 +112,9 @@ function registerChainableAction(definition: CardDSLDefinition): void {
     } else if (spellType === "equip") {
       const activation = createGenericEquipSpellActivation(id, chainableActions.activations);
       ChainableActionRegistry.registerActivation(id, activation);
+    } else if (spellType === "ritual") {
+      const activation = createGenericRitualSpellActivation(id, chainableActions.activations);
+      ChainableActionRegistry.registerActivation(id, activation);
     } else {
       throw new Error(`Unsupported spell type "${spellType}" for card ID ${id}`);
     }
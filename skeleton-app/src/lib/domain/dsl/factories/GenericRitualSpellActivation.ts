@@ -0,0 +1,116 @@
+/**
+ * GenericRitualSpellActivation - DSL定義から生成される儀式魔法カード発動効果
+ *
+ * RitualSpellActivation を拡張し、DSL定義を注入して動作する汎用クラス。
+ * 個別のTypeScriptクラスを作成せずに儀式魔法カードの効果を定義できる。
+ *
+ * 儀式召喚の手順は SELECT_RITUAL_MONSTER → RITUAL_SUMMON_FROM_CONTEXT の順に記述し、
+ * 引数 levelCondition でリリースするモンスターのレベル合計の条件（equal: 等しい / atLeast: 以上）を指定する。
+ *
+ * @module domain/dsl/factories/GenericRitualSpellActivation
+ */
+
+import type { CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { AtomicStep, ValidationResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { RitualSpellActivation } from "$lib/domain/effects/actions/activations/RitualSpellActivation";
+import type { ChainableActionDSL, StepDSL, StepBuildContext } from "$lib/domain/dsl/types";
+import { buildStep } from "$lib/domain/dsl/steps";
+import { checkCondition } from "$lib/domain/dsl/conditions";
+
+/**
+ * GenericRitualSpellActivation - DSL定義ベースの儀式魔法効果
+ *
+ * DSLの activations セクションから conditions, activations, resolutions を読み取り、
+ * 既存のRitualSpellActivation継承構造に適合させる。
+ */
+export class GenericRitualSpellActivation extends RitualSpellActivation {
+  private readonly dslDefinition: ChainableActionDSL;
+
+  /**
+   * @param cardId - カードID
+   * @param dslDefinition - DSLのactivationsセクション
+   */
+  constructor(cardId: number, dslDefinition: ChainableActionDSL) {
+    super(cardId);
+    this.dslDefinition = dslDefinition;
+  }
+
+  /**
+   * DSLのStepDSL配列からAtomicStep配列を生成する
+   */
+  private buildSteps(stepDefs: readonly StepDSL[] | undefined, sourceInstance: CardInstance): AtomicStep[] {
+    if (!stepDefs || stepDefs.length === 0) {
+      return [];
+    }
+
+    const context: StepBuildContext = {
+      cardId: this.cardId,
+      sourceInstanceId: sourceInstance.instanceId,
+      effectId: this.effectId,
+    };
+
+    return stepDefs.map((stepDef) => buildStep(stepDef.step, stepDef.args ?? {}, context));
+  }
+
+  /**
+   * CONDITIONS: 発動条件チェック（カード固有）
+   *
+   * DSL定義のconditionsセクションを評価する。
+   * すべての条件がパスした場合のみ発動可能。
+   */
+  protected individualConditions(state: GameSnapshot, sourceInstance: CardInstance): ValidationResult {
+    const conditions = this.dslDefinition.conditions;
+
+    // 条件が定義されていない場合は常に発動可能
+    if (!conditions || !conditions.requirements || conditions.requirements.length === 0) {
+      return GameProcessing.Validation.success();
+    }
+
+    // すべての条件をチェック
+    for (const conditionDef of conditions.requirements) {
+      const result = checkCondition(conditionDef.step, state, sourceInstance, conditionDef.args ?? {});
+
+      if (!result.isValid) {
+        return result;
+      }
+    }
+
+    return GameProcessing.Validation.success();
+  }
+
+  /**
+   * ACTIVATIONS: 発動処理（カード固有）
+   *
+   * DSL定義のactivationsセクションからステップを生成する。
+   * 主にコスト支払い処理に使用される。
+   */
+  protected individualActivationSteps(_state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[] {
+    return this.buildSteps(this.dslDefinition.activations, sourceInstance);
+  }
+
+  /**
+   * RESOLUTIONS: 効果解決処理（カード固有）
+   *
+   * DSL定義のresolutionsセクションからステップを生成する。
+   * メインの効果処理を定義する。
+   */
+  protected individualResolutionSteps(_state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[] {
+    return this.buildSteps(this.dslDefinition.resolutions, sourceInstance);
+  }
+}
+
+/**
+ * DSL定義からGenericRitualSpellActivationを生成する
+ *
+ * @param cardId - カードID
+ * @param dslDefinition - DSLのactivationsセクション
+ * @returns GenericRitualSpellActivationインスタンス
+ */
+export function createGenericRitualSpellActivation(
+  cardId: number,
+  dslDefinition: ChainableActionDSL,
+): GenericRitualSpellActivation {
+  return new GenericRitualSpellActivation(cardId, dslDefinition);
+}
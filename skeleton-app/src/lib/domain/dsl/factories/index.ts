@@ -25,6 +25,21 @@ export { GenericIgnitionEffect, createGenericIgnitionEffect } from "./GenericIgn
 // カードの発動: 装備魔法
 export { GenericEquipSpellActivation, createGenericEquipSpellActivation } from "./GenericEquipSpellActivation";
 
+// カードの発動: 儀式魔法
+export { GenericRitualSpellActivation, createGenericRitualSpellActivation } from "./GenericRitualSpellActivation";
+
+// カードの発動: 通常罠
+export { GenericNormalTrapActivation, createGenericNormalTrapActivation } from "./GenericNormalTrapActivation";
+
+// カードの発動: 永続罠
+export {
+  GenericContinuousTrapActivation,
+  createGenericContinuousTrapActivation,
+} from "./GenericContinuousTrapActivation";
+
+// カードの発動: カウンター罠
+export { GenericCounterTrapActivation, createGenericCounterTrapActivation } from "./GenericCounterTrapActivation";
+
 // 誘発効果
 export { GenericTriggerEffect, createGenericTriggerEffect } from "./GenericTriggerEffect";
 
@@ -12,6 +12,7 @@ import type { CardInstance } from "$lib/domain/models/Card";
 import type { GameSnapshot, CardSpace } from "$lib/domain/models/GameState";
 import { GameState } from "$lib/domain/models/GameState";
 import type { LocationName } from "$lib/domain/models/Location";
+import { Location } from "$lib/domain/models/Location";
 import type { ActionOverrideHandler, DSLArgs } from "$lib/domain/dsl/types";
 import { Card } from "$lib/domain/models/Card";
 import { AdditionalRuleRegistry } from "$lib/domain/effects/rules/AdditionalRuleRegistry";
@@ -36,11 +37,7 @@ const getFieldDepartureDestination = (
   originalDestination: LocationName,
 ): LocationName => {
   // フィールドから離れる移動でない場合はそのまま返す
-  const isLeavingField =
-    (card.location === "mainMonsterZone" || card.location === "spellTrapZone" || card.location === "fieldZone") &&
-    originalDestination !== "mainMonsterZone" &&
-    originalDestination !== "spellTrapZone" &&
-    originalDestination !== "fieldZone";
+  const isLeavingField = Location.isField(card.location) && !Location.isField(originalDestination);
 
   if (!isLeavingField) {
     return originalDestination;
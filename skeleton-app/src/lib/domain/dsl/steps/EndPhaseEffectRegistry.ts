@@ -0,0 +1,83 @@
+/**
+ * EndPhaseEffectRegistry - エンドフェイズ効果IDからAtomicStepへのマッピング
+ *
+ * queueEndPhaseEffectStep で保留されたエンドフェイズ効果は、ゲーム状態には
+ * ステップIDのみが記録される（queuedEndPhaseEffectIds）。
+ * エンドフェイズ移行時に、このレジストリでIDから処理ステップを再構築する。
+ *
+ * NOTE: ステップの登録は index.ts で行う。
+ *
+ * @module domain/dsl/steps/EndPhaseEffectRegistry
+ */
+
+import type { AtomicStep } from "$lib/domain/models/GameProcessing";
+
+/** エンドフェイズ効果のステップを生成する関数 */
+export type EndPhaseEffectStepFactory = () => AtomicStep;
+
+/**
+ * EndPhaseEffectRegistry - エンドフェイズ効果のレジストリ（クラス）
+ *
+ * 生成されるステップのIDをキーとしてファクトリを管理する。
+ */
+export class EndPhaseEffectRegistry {
+  /** 登録済みエンドフェイズ効果のマップ (Step ID → Factory) */
+  private static factories = new Map<string, EndPhaseEffectStepFactory>();
+
+  // ===========================
+  // 登録API
+  // ===========================
+
+  /**
+   * エンドフェイズ効果を登録する
+   *
+   * キーはファクトリが生成するステップのIDとする。
+   *
+   * @param factory - ステップ生成関数
+   * @throws Error - 既に登録済みの場合
+   */
+  static register(factory: EndPhaseEffectStepFactory): void {
+    const stepId = factory().id;
+    if (this.factories.has(stepId)) {
+      throw new Error(`End phase effect "${stepId}" is already registered`);
+    }
+    this.factories.set(stepId, factory);
+  }
+
+  // ===========================
+  // 取得API
+  // ===========================
+
+  /**
+   * 保留されたエンドフェイズ効果IDから AtomicStep を生成する
+   *
+   * @param stepId - queuedEndPhaseEffectIds に記録されたステップID
+   * @returns 生成されたAtomicStep
+   * @throws Error - 未登録のIDの場合
+   */
+  static build(stepId: string): AtomicStep {
+    const factory = this.factories.get(stepId);
+    if (!factory) {
+      throw new Error(
+        `Unknown end phase effect "${stepId}". Available effects: ${Array.from(this.factories.keys()).join(", ")}`,
+      );
+    }
+    return factory();
+  }
+
+  /**
+   * エンドフェイズ効果が登録されているかチェックする
+   */
+  static isRegistered(stepId: string): boolean {
+    return this.factories.has(stepId);
+  }
+
+  // ===========================
+  // ユーティリティAPI
+  // ===========================
+
+  /** レジストリをクリアする（テスト用） */
+  static clear(): void {
+    this.factories.clear();
+  }
+}
@@ -19,6 +19,7 @@ export const STEP_NAMES = {
   SEARCH_FROM_DECK_BY_NAME: "SEARCH_FROM_DECK_BY_NAME",
   SEARCH_FROM_DECK_TOP: "SEARCH_FROM_DECK_TOP",
   SEARCH_MONSTER_BY_STAT: "SEARCH_MONSTER_BY_STAT",
+  SEARCH_BY_FILTER: "SEARCH_BY_FILTER",
   SALVAGE_FROM_GRAVEYARD: "SALVAGE_FROM_GRAVEYARD",
 
   // ライフポイント関連
@@ -31,12 +32,19 @@ export const STEP_NAMES = {
   PLACE_COUNTER: "PLACE_COUNTER",
   REMOVE_COUNTER: "REMOVE_COUNTER",
 
+  // エクシーズ素材関連
+  DETACH_MATERIAL: "DETACH_MATERIAL",
+
   // モンスター関連
   CHANGE_BATTLE_POSITION: "CHANGE_BATTLE_POSITION",
   SPECIAL_SUMMON_FROM_DECK: "SPECIAL_SUMMON_FROM_DECK",
   SPECIAL_SUMMON_FROM_DECK_BY_ATK: "SPECIAL_SUMMON_FROM_DECK_BY_ATK",
   SPECIAL_SUMMON_FROM_EXTRA_DECK: "SPECIAL_SUMMON_FROM_EXTRA_DECK",
   SPECIAL_SUMMON_FROM_CONTEXT: "SPECIAL_SUMMON_FROM_CONTEXT",
+  SELECT_FUSION_MONSTER: "SELECT_FUSION_MONSTER",
+  FUSION_SUMMON_FROM_CONTEXT: "FUSION_SUMMON_FROM_CONTEXT",
+  SELECT_RITUAL_MONSTER: "SELECT_RITUAL_MONSTER",
+  RITUAL_SUMMON_FROM_CONTEXT: "RITUAL_SUMMON_FROM_CONTEXT",
   CREATE_TOKEN_MONSTER: "CREATE_TOKEN_MONSTER",
   EXCAVATE_UNTIL_MONSTER: "EXCAVATE_UNTIL_MONSTER",
   EXCAVATE_UNTIL_MONSTER_WITH_LEVEL_CHECK: "EXCAVATE_UNTIL_MONSTER_WITH_LEVEL_CHECK",
@@ -61,10 +69,15 @@ export const STEP_NAMES = {
   // コンテキスト操作関連
   SELECT_TARGET_FROM_FIELD_BY_RACE: "SELECT_TARGET_FROM_FIELD_BY_RACE",
   SELECT_TARGETS_FROM_GRAVEYARD: "SELECT_TARGETS_FROM_GRAVEYARD",
+  SELECT_TARGETS_BY_FILTER: "SELECT_TARGETS_BY_FILTER",
   SAVE_TARGETS_TO_CONTEXT: "SAVE_TARGETS_TO_CONTEXT",
   CLEAR_CONTEXT: "CLEAR_CONTEXT",
   DECLARE_RANDOM_INTEGER: "DECLARE_RANDOM_INTEGER",
 
+  // チェーン無効化関連
+  NEGATE_ACTIVATION: "NEGATE_ACTIVATION",
+  NEGATE_EFFECT: "NEGATE_EFFECT",
+
   // その他
   THEN: "THEN",
 } as const;
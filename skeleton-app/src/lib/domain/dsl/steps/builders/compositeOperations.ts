@@ -6,7 +6,7 @@
  * - returnAllHandShuffleDrawStepBuilder: 手札全てをデッキに戻してシャッフル後、同数ドロー
  */
 
-import type { GameSnapshot, CardSpace } from "$lib/domain/models/GameState";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
 import { GameState } from "$lib/domain/models/GameState";
 import type { AtomicStep, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
@@ -20,13 +20,13 @@ import type { CardInstance } from "$lib/domain/models/Card";
 
 /**
  * カードをデッキに戻し、シャッフルして同じ枚数ドローする
- * @returns 更新後のスペースとメッセージ
+ * @returns 更新後のゲーム状態とメッセージ
  */
 const returnToDeckShuffleAndDraw = (
-  space: CardSpace,
+  state: GameSnapshot,
   cards: readonly CardInstance[],
-): { updatedSpace: CardSpace; message: string } => {
-  let updatedSpace = space;
+): { updatedState: GameSnapshot; message: string } => {
+  let updatedSpace = state.space;
   const count = cards.length;
 
   // カードをデッキに戻す
@@ -35,13 +35,11 @@ const returnToDeckShuffleAndDraw = (
   }
 
   // デッキをシャッフル
-  updatedSpace = GameState.Space.shuffleMainDeck(updatedSpace);
-
-  // 同じ枚数ドロー
-  updatedSpace = GameState.Space.drawCards(updatedSpace, count);
+  const shuffledState = GameState.shuffleMainDeck({ ...state, space: updatedSpace });
 
+  // 同じ枚数ドロー（デッキ不足の場合はデッキアウトによる敗北となる）
   return {
-    updatedSpace,
+    updatedState: GameState.draw(shuffledState, count),
     message: `${count}枚をデッキに戻し、シャッフルして${count}枚ドローしました`,
   };
 };
@@ -79,9 +77,9 @@ export const selectReturnShuffleDrawStep = (options: {
       }
 
       const selectedCards = selectedInstanceIds.map((id) => GameState.Space.findCard(currentState.space, id)!);
-      const { updatedSpace, message } = returnToDeckShuffleAndDraw(currentState.space, selectedCards);
+      const { updatedState, message } = returnToDeckShuffleAndDraw(currentState, selectedCards);
 
-      return GameProcessing.Result.success({ ...currentState, space: updatedSpace }, message);
+      return GameProcessing.Result.success(updatedState, message);
     },
   });
 };
@@ -104,9 +102,9 @@ export const returnAllHandShuffleDrawStep = (): AtomicStep => {
         return GameProcessing.Result.success(currentState, "手札がありません");
       }
 
-      const { updatedSpace, message } = returnToDeckShuffleAndDraw(currentState.space, handCards);
+      const { updatedState, message } = returnToDeckShuffleAndDraw(currentState, handCards);
 
-      return GameProcessing.Result.success({ ...currentState, space: updatedSpace }, message);
+      return GameProcessing.Result.success(updatedState, message);
     },
   };
 };
@@ -148,10 +148,12 @@ export const declareRandomIntegerStep = (
     description: `${minValue}〜${maxValue}の値をランダムに宣言します`,
     notificationLevel: "dynamic",
     action: (state: GameSnapshot): GameStateUpdateResult => {
-      const declaredValue = Math.floor(Math.random() * (maxValue - minValue + 1)) + minValue;
+      // 乱数はゲーム状態の乱数状態から生成する（リプレイで同じ値を再現するため）
+      const { value: declaredValue, rng } = GameState.Random.nextInt(state.rng, minValue, maxValue);
 
       const updatedState: GameSnapshot = {
         ...state,
+        rng,
         activationContexts: GameState.ActivationContext.setDeclaredInteger(
           state.activationContexts,
           effectId,
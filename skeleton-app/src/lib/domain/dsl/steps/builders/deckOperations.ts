@@ -21,10 +21,7 @@ export const shuffleDeckStep = (): AtomicStep => {
     description: "デッキをシャッフルします",
     notificationLevel: "static",
     action: (currentState: GameSnapshot): GameStateUpdateResult => {
-      const updatedState: GameSnapshot = {
-        ...currentState,
-        space: GameState.Space.shuffleMainDeck(currentState.space),
-      };
+      const updatedState = GameState.shuffleMainDeck(currentState);
       return GameProcessing.Result.success(updatedState, "Deck shuffled");
     },
   };
@@ -56,13 +53,11 @@ export const returnContextCardsToDeckShuffleStep = (effectId: EffectId): AtomicS
       }
     }
 
-    updatedSpace = GameState.Space.shuffleMainDeck(updatedSpace);
-
-    const clearedState: GameSnapshot = {
+    const clearedState: GameSnapshot = GameState.shuffleMainDeck({
       ...state,
       space: updatedSpace,
       activationContexts: GameState.ActivationContext.clear(state.activationContexts, effectId),
-    };
+    });
 
     return GameProcessing.Result.success(clearedState, `${returnedCount}枚のカードをデッキに戻し、シャッフルしました`);
   },
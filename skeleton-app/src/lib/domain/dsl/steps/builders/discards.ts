@@ -5,12 +5,20 @@
  * - selectAndDiscardStepBuilder: 手札から指定枚数選んで捨てる
  * - discardAllHandEndPhaseStepBuilder: エンドフェイズに手札を全て捨てる
  *
+ * 公開関数:
+ * - discardToHandLimitStep: 手札枚数制限を超えた分を捨てる
+ *
  * TODO: 「墓地の送る」と「捨てる」を区別する
  */
 
 import type { GameSnapshot } from "$lib/domain/models/GameState";
 import { GameState } from "$lib/domain/models/GameState";
-import type { AtomicStep, GameEvent, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
+import type {
+  AtomicStep,
+  CardSelectionConfig,
+  GameEvent,
+  GameStateUpdateResult,
+} from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
 import { GameEvents } from "$lib/domain/models/GameProcessing/GameEvent";
 import type { StepBuilderFn } from "$lib/domain/dsl/types";
@@ -105,6 +113,51 @@ export const discardAllHandEndPhaseStep = (): AtomicStep => {
   });
 };
 
+/**
+ * 手札枚数制限を超えた分を捨てるステップ
+ *
+ * 実行時の手札枚数から捨てる枚数を算出し、捨てるカードをプレイヤーが選択する。
+ * 手札が制限枚数以下の場合は何もしない。
+ */
+export const discardToHandLimitStep = (handSizeLimit: number): AtomicStep => {
+  const summary = "手札枚数制限";
+  const excessCount = (state: GameSnapshot) => Math.max(0, state.space.hand.length - handSizeLimit);
+
+  return {
+    id: `discard-to-hand-limit-${handSizeLimit}`,
+    summary,
+    description: `手札が${handSizeLimit}枚になるように捨てます`,
+    notificationLevel: "interactive",
+    cardSelectionConfig: (state: GameSnapshot): CardSelectionConfig | null => {
+      const count = excessCount(state);
+      if (count === 0) return null;
+
+      return {
+        availableCards: null,
+        _sourceZone: "hand",
+        minCards: count,
+        maxCards: count,
+        summary,
+        description: `手札が${handSizeLimit}枚になるように、捨てるカードを${count}枚選択してください`,
+        cancelable: false,
+      };
+    },
+    action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
+      const count = excessCount(state);
+      if (count === 0) {
+        return GameProcessing.Result.success(state, "Hand size is within the limit");
+      }
+      if (!selectedInstanceIds || selectedInstanceIds.length !== count) {
+        return GameProcessing.Result.failure(
+          state,
+          `Must select exactly ${count} card${count > 1 ? "s" : ""} to discard`,
+        );
+      }
+      return sendMultipleToGraveyardResult(state, selectedInstanceIds);
+    },
+  };
+};
+
 /** カードタイプの日本語変換 */
 const cardTypeToJapanese: Record<string, string> = {
   spell: "魔法",
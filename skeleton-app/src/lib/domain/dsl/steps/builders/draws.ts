@@ -7,9 +7,9 @@
  */
 
 import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
 import type { AtomicStep, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
-import { drawCards } from "$lib/domain/models/GameState/CardSpace";
 import type { StepBuilderFn } from "$lib/domain/dsl/types";
 import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
 
@@ -34,16 +34,14 @@ const commonDrawStep = (
       return GameProcessing.Result.success(state, message);
     }
 
-    // デッキ不足バリデーション
-    if (state.space.mainDeck.length < drawCount) {
-      return GameProcessing.Result.failure(
-        state,
-        `Insufficient deck: needed ${drawCount}, but only ${state.space.mainDeck.length} remaining.`,
+    // ドロー実行（デッキ不足の場合は引けるだけ引き、デッキアウトによる敗北となる）
+    const updatedState = GameState.draw(state, drawCount);
+    if (updatedState.deckOutPending) {
+      return GameProcessing.Result.success(
+        updatedState,
+        `Deck out: needed ${drawCount}, but only ${state.space.mainDeck.length} remaining.`,
       );
     }
-
-    // ドロー実行
-    const updatedState = { ...state, space: drawCards(state.space, drawCount) };
     return GameProcessing.Result.success(updatedState, `${message} (${drawCount} card${drawCount > 1 ? "s" : ""})`);
   },
 });
@@ -0,0 +1,153 @@
+/**
+ * fusions.ts - 融合召喚系ステップビルダー
+ *
+ * 《融合》のように「融合モンスターを選ぶ → 素材を選んで融合召喚する」効果を
+ * 2つのステップに分けて定義する。選んだ融合モンスターは activationContext で共有する。
+ *
+ * StepBuilder:
+ * - selectFusionMonsterStepBuilder: 融合召喚する融合モンスターを選択
+ * - fusionSummonFromContextStepBuilder: コンテキストの融合モンスターを融合召喚
+ */
+
+import type { EffectId } from "$lib/domain/models/Effect";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { AtomicStep, CardSelectionConfig, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import type { StepBuilderFn } from "$lib/domain/dsl/types";
+import { canFusionSummon, getFusionSummonableMonsters, performFusionSummon } from "$lib/domain/rules/FusionSummonRule";
+
+// ===========================
+// 内部ヘルパー
+// ===========================
+
+/** コンテキストの融合モンスターを融合召喚可能な場合、素材選択ステップを返す */
+const resolveMaterialSelectionStep = (
+  state: GameSnapshot,
+  cardId: number,
+  effectId: EffectId,
+): AtomicStep | undefined => {
+  const [fusionInstanceId] = GameState.ActivationContext.getTargets(state.activationContexts, effectId);
+  if (!fusionInstanceId || !canFusionSummon(state, fusionInstanceId).isValid) {
+    return undefined;
+  }
+  return performFusionSummon(state, fusionInstanceId, cardId).step;
+};
+
+/** コンテキストをクリアした状態を返す */
+const clearedContextState = (state: GameSnapshot, effectId: EffectId): GameSnapshot => ({
+  ...state,
+  activationContexts: GameState.ActivationContext.clear(state.activationContexts, effectId),
+});
+
+// ===========================
+// AtomicStep 生成関数
+// ===========================
+
+/**
+ * EXデッキから融合召喚する融合モンスターを選択し、コンテキストに保存するステップ
+ *
+ * 融合素材が揃っている融合モンスターのみ選択可能。
+ * 選択可能なモンスターがいない場合は何もしない（不発）。
+ */
+export const selectFusionMonsterStep = (cardId: number, effectId: EffectId): AtomicStep => {
+  const summary = "融合モンスターを選択";
+  const description = "EXデッキから融合召喚する融合モンスター1体を選択します";
+
+  return {
+    id: `${cardId}-select-fusion-monster`,
+    sourceCardId: cardId,
+    summary,
+    description,
+    notificationLevel: "interactive",
+    cardSelectionConfig: (state: GameSnapshot): CardSelectionConfig | null => {
+      const availableCards = getFusionSummonableMonsters(state);
+      if (availableCards.length === 0) return null;
+
+      return {
+        availableCards,
+        minCards: 1,
+        maxCards: 1,
+        summary,
+        description,
+        cancelable: false,
+      };
+    },
+    action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
+      if (!selectedInstanceIds || selectedInstanceIds.length === 0) {
+        return GameProcessing.Result.success(state, "No fusion monster can be fusion summoned - effect fizzles");
+      }
+
+      const updatedState: GameSnapshot = {
+        ...state,
+        activationContexts: GameState.ActivationContext.setTargets(
+          state.activationContexts,
+          effectId,
+          selectedInstanceIds,
+        ),
+      };
+      return GameProcessing.Result.success(updatedState, "Selected fusion monster");
+    },
+  };
+};
+
+/**
+ * コンテキストの融合モンスターを、手札・フィールドの素材を墓地へ送って融合召喚するステップ
+ *
+ * 素材選択は FusionSummonRule に委譲する。
+ * 処理時点で融合召喚できなくなっている場合は何もしない（不発）。
+ */
+export const fusionSummonFromContextStep = (cardId: number, effectId: EffectId): AtomicStep => {
+  return {
+    id: `${cardId}-fusion-summon-from-context`,
+    sourceCardId: cardId,
+    summary: "融合召喚",
+    description: "融合素材を墓地へ送り、融合モンスターを融合召喚します",
+    notificationLevel: "interactive",
+    cardSelectionConfig: (state: GameSnapshot): CardSelectionConfig | null => {
+      const materialSelectionStep = resolveMaterialSelectionStep(state, cardId, effectId);
+      return materialSelectionStep?.cardSelectionConfig?.(state) ?? null;
+    },
+    action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
+      const materialSelectionStep = resolveMaterialSelectionStep(state, cardId, effectId);
+      if (!materialSelectionStep) {
+        return GameProcessing.Result.success(
+          clearedContextState(state, effectId),
+          "Fusion summon is no longer possible - effect fizzles",
+        );
+      }
+
+      const result = materialSelectionStep.action(state, selectedInstanceIds);
+      if (!result.success) {
+        return result;
+      }
+      return { ...result, updatedState: clearedContextState(result.updatedState, effectId) };
+    },
+  };
+};
+
+// ===========================
+// StepBuilder（DSL用ファクトリ）
+// ===========================
+
+/**
+ * SELECT_FUSION_MONSTER - 融合召喚する融合モンスターを選択
+ * args: なし
+ */
+export const selectFusionMonsterStepBuilder: StepBuilderFn = (_args, context) => {
+  if (!context.effectId) {
+    throw new Error("SELECT_FUSION_MONSTER step requires effectId in context");
+  }
+  return selectFusionMonsterStep(context.cardId, context.effectId);
+};
+
+/**
+ * FUSION_SUMMON_FROM_CONTEXT - コンテキストの融合モンスターを融合召喚
+ * args: なし
+ */
+export const fusionSummonFromContextStepBuilder: StepBuilderFn = (_args, context) => {
+  if (!context.effectId) {
+    throw new Error("FUSION_SUMMON_FROM_CONTEXT step requires effectId in context");
+  }
+  return fusionSummonFromContextStep(context.cardId, context.effectId);
+};
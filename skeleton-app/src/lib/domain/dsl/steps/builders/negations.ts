@@ -0,0 +1,117 @@
+/**
+ * negations.ts - チェーン無効化系ステップビルダー
+ *
+ * StepBuilder:
+ * - negateActivationStepBuilder: チェーン上の発動を無効にする
+ * - negateEffectStepBuilder: チェーン上の効果を無効にする
+ */
+
+import type { CardInstance, CardType } from "$lib/domain/models/Card";
+import type { ChainLink, ChainNegation } from "$lib/domain/models/Chain";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { AtomicStep, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import type { StepBuilderFn } from "$lib/domain/dsl/types";
+import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+
+const NEGATION_NAMES: Record<ChainNegation, string> = {
+  activation: "発動",
+  effect: "効果",
+};
+
+const CARD_TYPE_NAMES: Record<CardType, string> = {
+  monster: "モンスター",
+  spell: "魔法",
+  trap: "罠",
+};
+
+// 無効化できるチェーンリンクと発動元カードの組（チェーン番号の大きい順）
+const findNegatableLinks = (
+  state: GameSnapshot,
+  sourceInstanceId: string,
+  cardType?: CardType,
+): { link: ChainLink; card: CardInstance }[] =>
+  GameState.Chain.activeLinks(state.chainLinks ?? [])
+    .filter((link) => link.sourceInstanceId !== sourceInstanceId)
+    .map((link) => ({ link, card: GameState.Space.findCard(state.space, link.sourceInstanceId) }))
+    .filter((entry): entry is { link: ChainLink; card: CardInstance } => entry.card !== undefined)
+    .filter(({ card }) => !cardType || card.type === cardType)
+    .reverse();
+
+/**
+ * チェーン上のリンクを1つ選んで無効にするステップ
+ *
+ * 無効にできるリンクが複数ある場合は、発動元カードを選択して対象のリンクを決める。
+ * 1つしかない場合は選択せずにそのリンクを無効にする。
+ *
+ * @param negation - 無効化の種類（発動 or 効果）
+ * @param sourceInstanceId - 無効化する効果の発動元（自身のリンクは対象外）
+ * @param cardType - 対象とするリンクの発動元カードの種類（省略時は全て）
+ */
+export const negateChainLinkStep = (
+  negation: ChainNegation,
+  sourceInstanceId: string,
+  cardType?: CardType,
+): AtomicStep => {
+  const targetName = cardType ? `${CARD_TYPE_NAMES[cardType]}カード` : "カード";
+  return {
+    id: `negate-${negation}-${cardType ?? "any"}-${sourceInstanceId}`,
+    summary: `${NEGATION_NAMES[negation]}の無効`,
+    description: `チェーン上の${targetName}の${NEGATION_NAMES[negation]}を無効にします`,
+    notificationLevel: "interactive",
+    cardSelectionConfig: (state: GameSnapshot) => {
+      const candidates = findNegatableLinks(state, sourceInstanceId, cardType);
+      if (candidates.length <= 1) return null;
+      return {
+        availableCards: candidates.map(({ card }) => card),
+        minCards: 1,
+        maxCards: 1,
+        summary: `${NEGATION_NAMES[negation]}を無効にするカードを選択`,
+        description: `${NEGATION_NAMES[negation]}を無効にするチェーン上の${targetName}を1枚選択してください`,
+        cancelable: false,
+      };
+    },
+    action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
+      const candidates = findNegatableLinks(state, sourceInstanceId, cardType);
+      const selectedId = selectedInstanceIds?.[0];
+      const target = selectedId ? candidates.find(({ card }) => card.instanceId === selectedId) : candidates[0];
+      if (!target) {
+        return GameProcessing.Result.success(state, "無効にできるチェーンがありません");
+      }
+
+      const updatedState: GameSnapshot = {
+        ...state,
+        chainLinks: GameState.Chain.negate(state.chainLinks ?? [], target.link.chainNumber, negation),
+      };
+      return GameProcessing.Result.success(
+        updatedState,
+        `Negated the ${negation} of chain link ${target.link.chainNumber}`,
+      );
+    },
+  };
+};
+
+// ===========================
+// StepBuilder（DSL用ファクトリ）
+// ===========================
+
+/**
+ * NEGATE_ACTIVATION - チェーン上の発動を無効にする
+ * args: { cardType?: "monster" | "spell" | "trap" }
+ */
+export const negateActivationStepBuilder: StepBuilderFn = (args, context) => {
+  const cardType = ArgValidators.optionalCardType(args, "cardType");
+  const sourceInstanceId = context.sourceInstanceId ?? `instance-${context.cardId}`;
+  return negateChainLinkStep("activation", sourceInstanceId, cardType);
+};
+
+/**
+ * NEGATE_EFFECT - チェーン上の効果を無効にする
+ * args: { cardType?: "monster" | "spell" | "trap" }
+ */
+export const negateEffectStepBuilder: StepBuilderFn = (args, context) => {
+  const cardType = ArgValidators.optionalCardType(args, "cardType");
+  const sourceInstanceId = context.sourceInstanceId ?? `instance-${context.cardId}`;
+  return negateChainLinkStep("effect", sourceInstanceId, cardType);
+};
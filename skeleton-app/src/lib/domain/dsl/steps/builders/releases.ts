@@ -7,6 +7,8 @@
  *
  * 公開関数:
  * - selectAndReleaseStep: フィールドのモンスターを選択してリリース（共通処理）
+ * - selectAndReleaseByLevelStep: レベルの合計が条件を満たすようにモンスターを選択してリリース
+ * - isValidLevelSumSelection / hasLevelSumSelection: レベル合計の判定
  */
 
 import { Card, type CardInstance } from "$lib/domain/models/Card";
@@ -63,14 +65,20 @@ function releaseMonsters(state: GameSnapshot, instanceIds: string[]): ReleaseRes
 type SelectAndReleaseConfig = {
   /** ステップID生成用のカードID */
   cardId: number;
-  /** リリースするモンスターの数 */
+  /** リリースするモンスターの数（maxCount を指定した場合は最小数） */
   count: number;
+  /** リリースするモンスターの最大数（省略時は count と同じ） */
+  maxCount?: number;
+  /** リリース候補（省略時はフィールドのモンスターから filter で絞り込む） */
+  availableCards?: readonly CardInstance[];
   /** カスタムサマリー（省略時はデフォルト） */
   summary?: string;
   /** カスタム説明（省略時はデフォルト） */
   description?: string;
   /** モンスターのフィルター条件（省略時は全モンスター） */
   filter?: (card: CardInstance) => boolean;
+  /** 選択中のモンスターで確定可能かの判定（省略時は数のみでチェック） */
+  canConfirm?: (selectedCards: readonly CardInstance[]) => boolean;
   /** リリース完了後のコールバック */
   onReleased: (
     state: GameSnapshot,
@@ -98,12 +106,15 @@ export const selectAndReleaseStep = (config: SelectAndReleaseConfig): AtomicStep
     sourceCardId: config.cardId,
     summary,
     description,
-    availableCards: null,
-    _sourceZone: "mainMonsterZone",
-    _filter: filter,
+    availableCards: config.availableCards?.filter((card) => filter(card)) ?? null,
+    // 候補の指定がない場合は、メイン・エクストラモンスターゾーンのモンスターから絞り込む
+    dynamicAvailableCards: config.availableCards
+      ? undefined
+      : (state) => GameState.Space.monstersOnField(state.space).filter((card) => filter(card)),
     minCards: config.count,
-    maxCards: config.count,
+    maxCards: config.maxCount ?? config.count,
     cancelable: false,
+    canConfirm: config.canConfirm,
     onSelect: (currentState: GameSnapshot, selectedIds: string[]): GameStateUpdateResult => {
       // リリース前にカード情報を取得（ダメージ計算等に使用）
       const releasedCards = selectedIds.map((id) => GameState.Space.findCard(currentState.space, id)!);
@@ -119,6 +130,101 @@ export const selectAndReleaseStep = (config: SelectAndReleaseConfig): AtomicStep
   });
 };
 
+// ===========================
+// レベル合計によるリリース
+// ===========================
+
+/** リリースするモンスターのレベル合計の条件（equal: 合計が等しい / atLeast: 合計が以上） */
+export const LEVEL_SUM_CONDITIONS = ["equal", "atLeast"] as const;
+export type LevelSumCondition = (typeof LEVEL_SUM_CONDITIONS)[number];
+
+/** リリースするモンスターのレベル（レベルを持たないモンスターは 0 として扱う） */
+const levelOf = (card: CardInstance): number => card.level ?? 0;
+
+/**
+ * 選択中のモンスターがレベル合計の条件を満たすかチェック
+ *
+ * atLeast の場合も、不要なモンスターを含めることはできない
+ * （どの1体を除いても合計が必要なレベルに届かないこと）。
+ */
+export function isValidLevelSumSelection(
+  selectedCards: readonly CardInstance[],
+  levelSum: number,
+  condition: LevelSumCondition,
+): boolean {
+  if (selectedCards.length === 0) return false;
+
+  const levels = selectedCards.map(levelOf);
+  const total = levels.reduce((sum, level) => sum + level, 0);
+  if (condition === "equal") return total === levelSum;
+  return total >= levelSum && total - Math.min(...levels) < levelSum;
+}
+
+/**
+ * 候補の中にレベル合計の条件を満たす組み合わせがあるかを探索する（バックトラッキング）
+ *
+ * @param accept - 見つかった組み合わせを採用するかの追加判定
+ */
+export function hasLevelSumSelection(
+  candidates: readonly CardInstance[],
+  levelSum: number,
+  condition: LevelSumCondition,
+  accept: (selectedCards: readonly CardInstance[]) => boolean = () => true,
+): boolean {
+  const levelledCandidates = candidates.filter((card) => levelOf(card) > 0);
+
+  // 合計が必要なレベルに達した時点でそれ以上加えない（加えたモンスターは不要になるため）
+  const search = (index: number, selected: CardInstance[], total: number): boolean => {
+    if (total >= levelSum) return isValidLevelSumSelection(selected, levelSum, condition) && accept(selected);
+    if (index === levelledCandidates.length) return false;
+
+    const card = levelledCandidates[index];
+    return search(index + 1, [...selected, card], total + levelOf(card)) || search(index + 1, selected, total);
+  };
+  return search(0, [], 0);
+}
+
+/**
+ * selectAndReleaseByLevelStep の設定
+ */
+type SelectAndReleaseByLevelConfig = Pick<
+  SelectAndReleaseConfig,
+  "cardId" | "summary" | "description" | "onReleased"
+> & {
+  /** リリース候補（手札・フィールドのモンスター等） */
+  availableCards: readonly CardInstance[];
+  /** 必要なレベルの合計 */
+  levelSum: number;
+  /** レベル合計の条件 */
+  condition: LevelSumCondition;
+  /** レベル合計以外の確定条件（モンスターゾーンの空き等） */
+  accept?: (selectedCards: readonly CardInstance[]) => boolean;
+};
+
+/**
+ * レベルの合計が条件を満たすようにモンスターを選択してリリースするステップ
+ *
+ * 儀式召喚のリリースに使用する。選択・リリースの処理は selectAndReleaseStep に委譲する。
+ */
+export const selectAndReleaseByLevelStep = (config: SelectAndReleaseByLevelConfig): AtomicStep => {
+  const availableCards = config.availableCards.filter((card) => levelOf(card) > 0);
+  const conditionDesc = config.condition === "equal" ? "" : "以上";
+
+  return selectAndReleaseStep({
+    cardId: config.cardId,
+    count: 1,
+    maxCount: Math.max(availableCards.length, 1),
+    availableCards,
+    summary: config.summary ?? "リリース対象を選択",
+    description:
+      config.description ?? `レベルの合計が${config.levelSum}${conditionDesc}になるようにモンスターをリリースします`,
+    canConfirm: (selectedCards) =>
+      isValidLevelSumSelection(selectedCards, config.levelSum, config.condition) &&
+      (config.accept?.(selectedCards) ?? true),
+    onReleased: config.onReleased,
+  });
+};
+
 // ===========================
 // StepBuilder（DSL用ファクトリ）
 // ===========================
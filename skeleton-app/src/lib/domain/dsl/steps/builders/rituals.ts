@@ -0,0 +1,173 @@
+/**
+ * rituals.ts - 儀式召喚系ステップビルダー
+ *
+ * 儀式魔法の「儀式モンスターを選ぶ → リリースして儀式召喚する」効果を
+ * 2つのステップに分けて定義する。選んだ儀式モンスターは activationContext で共有する。
+ *
+ * StepBuilder:
+ * - selectRitualMonsterStepBuilder: 儀式召喚する儀式モンスターを選択
+ * - ritualSummonFromContextStepBuilder: コンテキストの儀式モンスターを儀式召喚
+ */
+
+import type { EffectId } from "$lib/domain/models/Effect";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { AtomicStep, CardSelectionConfig, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import type { StepBuilderFn } from "$lib/domain/dsl/types";
+import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+import { canRitualSummon, getRitualSummonableMonsters, performRitualSummon } from "$lib/domain/rules/RitualSummonRule";
+import { LEVEL_SUM_CONDITIONS, type LevelSumCondition } from "./releases";
+
+// ===========================
+// 内部ヘルパー
+// ===========================
+
+/** コンテキストの儀式モンスターを儀式召喚可能な場合、リリース選択ステップを返す */
+const resolveTributeSelectionStep = (
+  state: GameSnapshot,
+  cardId: number,
+  effectId: EffectId,
+  levelCondition: LevelSumCondition,
+): AtomicStep | undefined => {
+  const [ritualInstanceId] = GameState.ActivationContext.getTargets(state.activationContexts, effectId);
+  if (!ritualInstanceId || !canRitualSummon(state, ritualInstanceId, levelCondition).isValid) {
+    return undefined;
+  }
+  return performRitualSummon(state, ritualInstanceId, levelCondition, cardId).step;
+};
+
+/** コンテキストをクリアした状態を返す */
+const clearedContextState = (state: GameSnapshot, effectId: EffectId): GameSnapshot => ({
+  ...state,
+  activationContexts: GameState.ActivationContext.clear(state.activationContexts, effectId),
+});
+
+// ===========================
+// AtomicStep 生成関数
+// ===========================
+
+/**
+ * 手札から儀式召喚する儀式モンスターを選択し、コンテキストに保存するステップ
+ *
+ * リリースできるモンスターが揃っている儀式モンスターのみ選択可能。
+ * 選択可能なモンスターがいない場合は何もしない（不発）。
+ *
+ * @param ritualMonsterId - 儀式召喚できるモンスターのカードID（省略時は全ての儀式モンスター）
+ */
+export const selectRitualMonsterStep = (
+  cardId: number,
+  effectId: EffectId,
+  levelCondition: LevelSumCondition,
+  ritualMonsterId?: number,
+): AtomicStep => {
+  const summary = "儀式モンスターを選択";
+  const description = "手札から儀式召喚する儀式モンスター1体を選択します";
+
+  return {
+    id: `${cardId}-select-ritual-monster`,
+    sourceCardId: cardId,
+    summary,
+    description,
+    notificationLevel: "interactive",
+    cardSelectionConfig: (state: GameSnapshot): CardSelectionConfig | null => {
+      const availableCards = getRitualSummonableMonsters(state, levelCondition, ritualMonsterId);
+      if (availableCards.length === 0) return null;
+
+      return {
+        availableCards,
+        minCards: 1,
+        maxCards: 1,
+        summary,
+        description,
+        cancelable: false,
+      };
+    },
+    action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
+      if (!selectedInstanceIds || selectedInstanceIds.length === 0) {
+        return GameProcessing.Result.success(state, "No ritual monster can be ritual summoned - effect fizzles");
+      }
+
+      const updatedState: GameSnapshot = {
+        ...state,
+        activationContexts: GameState.ActivationContext.setTargets(
+          state.activationContexts,
+          effectId,
+          selectedInstanceIds,
+        ),
+      };
+      return GameProcessing.Result.success(updatedState, "Selected ritual monster");
+    },
+  };
+};
+
+/**
+ * コンテキストの儀式モンスターを、手札・フィールドのモンスターをリリースして儀式召喚するステップ
+ *
+ * リリース選択は RitualSummonRule に委譲する。
+ * 処理時点で儀式召喚できなくなっている場合は何もしない（不発）。
+ */
+export const ritualSummonFromContextStep = (
+  cardId: number,
+  effectId: EffectId,
+  levelCondition: LevelSumCondition,
+): AtomicStep => {
+  return {
+    id: `${cardId}-ritual-summon-from-context`,
+    sourceCardId: cardId,
+    summary: "儀式召喚",
+    description: "手札・フィールドのモンスターをリリースし、儀式モンスターを儀式召喚します",
+    notificationLevel: "interactive",
+    cardSelectionConfig: (state: GameSnapshot): CardSelectionConfig | null => {
+      const tributeSelectionStep = resolveTributeSelectionStep(state, cardId, effectId, levelCondition);
+      return tributeSelectionStep?.cardSelectionConfig?.(state) ?? null;
+    },
+    action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
+      const tributeSelectionStep = resolveTributeSelectionStep(state, cardId, effectId, levelCondition);
+      if (!tributeSelectionStep) {
+        return GameProcessing.Result.success(
+          clearedContextState(state, effectId),
+          "Ritual summon is no longer possible - effect fizzles",
+        );
+      }
+
+      const result = tributeSelectionStep.action(state, selectedInstanceIds);
+      if (!result.success) {
+        return result;
+      }
+      return { ...result, updatedState: clearedContextState(result.updatedState, effectId) };
+    },
+  };
+};
+
+// ===========================
+// StepBuilder（DSL用ファクトリ）
+// ===========================
+
+/**
+ * SELECT_RITUAL_MONSTER - 儀式召喚する儀式モンスターを選択
+ * args: {
+ *   levelCondition: "equal" | "atLeast" - リリースするモンスターのレベル合計の条件,
+ *   ritualMonsterId?: number - 儀式召喚できるモンスターのカードID（省略時は全ての儀式モンスター）
+ * }
+ */
+export const selectRitualMonsterStepBuilder: StepBuilderFn = (args, context) => {
+  const levelCondition = ArgValidators.oneOf(args, "levelCondition", LEVEL_SUM_CONDITIONS);
+  const ritualMonsterId = ArgValidators.optionalPositiveInt(args, "ritualMonsterId");
+  if (!context.effectId) {
+    throw new Error("SELECT_RITUAL_MONSTER step requires effectId in context");
+  }
+  return selectRitualMonsterStep(context.cardId, context.effectId, levelCondition, ritualMonsterId);
+};
+
+/**
+ * RITUAL_SUMMON_FROM_CONTEXT - コンテキストの儀式モンスターを儀式召喚
+ * args: { levelCondition: "equal" | "atLeast" - リリースするモンスターのレベル合計の条件 }
+ */
+export const ritualSummonFromContextStepBuilder: StepBuilderFn = (args, context) => {
+  const levelCondition = ArgValidators.oneOf(args, "levelCondition", LEVEL_SUM_CONDITIONS);
+  if (!context.effectId) {
+    throw new Error("RITUAL_SUMMON_FROM_CONTEXT step requires effectId in context");
+  }
+  return ritualSummonFromContextStep(context.cardId, context.effectId, levelCondition);
+};
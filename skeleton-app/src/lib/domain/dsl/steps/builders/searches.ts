@@ -5,6 +5,7 @@
  * - searchFromDeckStepBuilder: デッキからカードタイプでサーチ
  * - searchFromDeckByNameStepBuilder: デッキからカード名でサーチ
  * - searchFromDeckTopStepBuilder: デッキトップから選んでサーチ
+ * - searchByFilterStepBuilder: デッキ・墓地からカードフィルター式でサーチ
  * - salvageFromGraveyardStepBuilder: 墓地からサルベージ
  */
 
@@ -14,8 +15,9 @@ import type { GameSnapshot } from "$lib/domain/models/GameState";
 import { GameState } from "$lib/domain/models/GameState";
 import type { AtomicStep, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
-import type { StepBuilderFn } from "$lib/domain/dsl/types";
+import type { CardFilterDSL, StepBuilderFn } from "$lib/domain/dsl/types";
 import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+import { CARD_FILTER_ZONE_JA_NAMES, compileCardFilter, describeCardFilter } from "$lib/domain/dsl/core/cardFilter";
 
 // カードを検索して手札に加える処理の共通ステップ
 const internalSearchStep = (
@@ -73,11 +75,8 @@ const internalSearchStep = (
       }
 
       // フラグで指示されている場合はシャッフル
-      if (shouldShuffle) {
-        updatedSpace = GameState.Space.shuffleMainDeck(updatedSpace);
-      }
-
-      const updatedState: GameSnapshot = { ...currentState, space: updatedSpace };
+      const movedState: GameSnapshot = { ...currentState, space: updatedSpace };
+      const updatedState = shouldShuffle ? GameState.shuffleMainDeck(movedState) : movedState;
       const shuffleMessage = shouldShuffle ? " and shuffled" : "";
       return GameProcessing.Result.success(
         updatedState,
@@ -226,6 +225,38 @@ export const searchMonsterByStatStep = (
   );
 };
 
+/**
+ * カードフィルター式でサーチ（墓地の場合はサルベージ）するステップ
+ *
+ * デッキからサーチした場合はデッキをシャッフルする。
+ */
+export const searchByFilterStep = (
+  cardId: number,
+  filter: CardFilterDSL,
+  count: number,
+  sourceZone: "mainDeck" | "graveyard" = "mainDeck",
+): AtomicStep => {
+  const filterDescJa = describeCardFilter(filter);
+  const verb = sourceZone === "mainDeck" ? "サーチ" : "サルベージ";
+  const summary = `${filterDescJa}${count}枚を${verb}`;
+  const description = `${CARD_FILTER_ZONE_JA_NAMES[sourceZone]}から${filterDescJa}${count}枚を選択し、手札に加えます`;
+
+  return internalSearchStep(
+    {
+      id: `${cardId}-search-by-filter-from-${sourceZone}`,
+      sourceCardId: cardId,
+      summary,
+      description,
+      filter: compileCardFilter(filter),
+      minCards: count,
+      maxCards: count,
+      cancelable: false,
+    },
+    sourceZone,
+    sourceZone === "mainDeck",
+  );
+};
+
 /** 墓地からサルベージするステップ */
 export const salvageFromGraveyardStep = (
   cardId: number,
@@ -283,6 +314,8 @@ export const searchFromDeckStepBuilder: StepBuilderFn = (args, context) => {
 /**
  * SEARCH_FROM_DECK_BY_NAME - デッキからカード名でサーチ
  * args: { namePattern: string, count: number }
+ *
+ * 新しいカードでは SEARCH_BY_FILTER（filter: { nameIncludes }）を使う。
  */
 export const searchFromDeckByNameStepBuilder: StepBuilderFn = (args, context) => {
   const namePattern = ArgValidators.nonEmptyString(args, "namePattern");
@@ -303,6 +336,8 @@ export const searchFromDeckTopStepBuilder: StepBuilderFn = (args, context) => {
 /**
  * SEARCH_MONSTER_BY_STAT - モンスターをATK/DEFでサーチ
  * args: { statType: "attack" | "defense", maxValue: number, count: number }
+ *
+ * 新しいカードでは SEARCH_BY_FILTER（filter: { attack: { max } }）を使う。
  */
 export const searchMonsterByStatStepBuilder: StepBuilderFn = (args, context) => {
   const statType = ArgValidators.oneOf(args, "statType", ["attack", "defense"] as const);
@@ -311,6 +346,19 @@ export const searchMonsterByStatStepBuilder: StepBuilderFn = (args, context) =>
   return searchMonsterByStatStep(context.cardId, statType, maxValue, count);
 };
 
+/**
+ * SEARCH_BY_FILTER - デッキ・墓地からカードフィルター式でサーチ
+ * args: { filter: CardFilterDSL, count: number, zone?: "mainDeck" | "graveyard" } (zone デフォルト: "mainDeck")
+ *
+ * 例: { filter: { type: "monster", attack: { max: 1500 } }, count: 1 }
+ */
+export const searchByFilterStepBuilder: StepBuilderFn = (args, context) => {
+  const filter = ArgValidators.cardFilter(args, "filter");
+  const count = ArgValidators.positiveInt(args, "count");
+  const zone = ArgValidators.optionalOneOf(args, "zone", ["mainDeck", "graveyard"] as const, "mainDeck");
+  return searchByFilterStep(context.cardId, filter, count, zone);
+};
+
 /**
  * SALVAGE_FROM_GRAVEYARD - 墓地からサルベージ
  * args: { filterType: CardType, count: number, filterSpellType?: SpellSubType, filterFrameType?: FrameSubType }
@@ -114,9 +114,7 @@ const internalSpecialSummonStep = (
       );
 
       // 必要ならシャッフル
-      const updatedState = shuffleAfter
-        ? { ...summonedState, space: GameState.Space.shuffleMainDeck(summonedState.space) }
-        : summonedState;
+      const updatedState = shuffleAfter ? GameState.shuffleMainDeck(summonedState) : summonedState;
 
       return GameProcessing.Result.success(
         updatedState,
@@ -7,6 +7,7 @@
  * StepBuilder:
  * - selectTargetFromFieldByRaceStepBuilder: フィールドから種族指定でモンスターを対象に取る
  * - selectTargetsFromGraveyardStepBuilder: 墓地からモンスターN体を対象に取る（count省略時は1体）
+ * - selectTargetsByFilterStepBuilder: ゾーンからカードフィルター式に合うカードN枚を対象に取る（count省略時は1枚）
  */
 
 import type { CardInstance } from "$lib/domain/models/Card";
@@ -15,8 +16,16 @@ import { GameState } from "$lib/domain/models/GameState";
 import type { AtomicStep, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
 import type { EffectId } from "$lib/domain/models/Effect";
-import type { StepBuilderFn } from "$lib/domain/dsl/types";
+import type { CardFilterDSL, StepBuilderFn } from "$lib/domain/dsl/types";
 import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+import type { CardFilterZone } from "$lib/domain/dsl/core/cardFilter";
+import {
+  CARD_FILTER_ZONES,
+  CARD_FILTER_ZONE_JA_NAMES,
+  compileCardFilter,
+  describeCardFilter,
+  getCardsInZone,
+} from "$lib/domain/dsl/core/cardFilter";
 
 // ===========================
 // AtomicStep 生成関数
@@ -47,15 +56,13 @@ export const selectTargetFromFieldByRaceStep = (cardId: number, effectId: Effect
     summary,
     description,
     notificationLevel: "interactive",
-    cardSelectionConfig: () => ({
-      availableCards: null,
+    cardSelectionConfig: (state: GameSnapshot) => ({
+      availableCards: GameState.Space.monstersOnField(state.space).filter(filter),
       minCards: 1,
       maxCards: 1,
       summary,
       description,
       cancelable: false,
-      _sourceZone: "mainMonsterZone",
-      _filter: filter,
     }),
     action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
       if (!selectedInstanceIds || selectedInstanceIds.length === 0) {
@@ -129,6 +136,64 @@ export const selectTargetsFromGraveyardStep = (cardId: number, effectId: EffectI
   };
 };
 
+/**
+ * ゾーンからカードフィルター式に合うカードをN枚選択し、対象としてコンテキストに保存するステップ（発動時に使用）
+ *
+ * @param cardId - カードID
+ * @param effectId - 効果ID（コンテキストのキー）
+ * @param zone - 対象を選ぶゾーン
+ * @param filter - カードフィルター式
+ * @param count - 選択する枚数（省略時は1）
+ */
+export const selectTargetsByFilterStep = (
+  cardId: number,
+  effectId: EffectId,
+  zone: CardFilterZone,
+  filter: CardFilterDSL,
+  count: number = 1,
+): AtomicStep => {
+  const predicate = compileCardFilter(filter);
+  const filterDescJa = describeCardFilter(filter);
+  const summary = `${filterDescJa}${count}枚を対象に取る`;
+  const description = `${CARD_FILTER_ZONE_JA_NAMES[zone]}の${filterDescJa}${count}枚を対象に取ります`;
+
+  return {
+    id: `${cardId}-select-targets-by-filter-from-${zone}`,
+    sourceCardId: cardId,
+    summary,
+    description,
+    notificationLevel: "interactive",
+    // モンスターゾーンはメイン・エクストラの2か所にまたがるため、候補を直接指定する
+    cardSelectionConfig: (state: GameSnapshot) => ({
+      availableCards: getCardsInZone(state.space, zone).filter(predicate),
+      minCards: count,
+      maxCards: count,
+      summary,
+      description,
+      cancelable: false,
+    }),
+    action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
+      if (!selectedInstanceIds || selectedInstanceIds.length === 0) {
+        return GameProcessing.Result.failure(state, "No targets selected");
+      }
+
+      const updatedState: GameSnapshot = {
+        ...state,
+        activationContexts: GameState.ActivationContext.setTargets(
+          state.activationContexts,
+          effectId,
+          selectedInstanceIds,
+        ),
+      };
+
+      return GameProcessing.Result.success(
+        updatedState,
+        `Selected ${selectedInstanceIds.length} card${selectedInstanceIds.length > 1 ? "s" : ""} as targets`,
+      );
+    },
+  };
+};
+
 // ===========================
 // StepBuilder（DSL用ファクトリ）
 // ===========================
@@ -136,6 +201,8 @@ export const selectTargetsFromGraveyardStep = (cardId: number, effectId: EffectI
 /**
  * SELECT_TARGET_FROM_FIELD_BY_RACE - フィールドから種族指定でモンスターを対象に取る
  * args: { race: string }
+ *
+ * 新しいカードでは SELECT_TARGETS_BY_FILTER を使う。
  */
 export const selectTargetFromFieldByRaceStepBuilder: StepBuilderFn = (args, context) => {
   if (!context.effectId) {
@@ -156,3 +223,19 @@ export const selectTargetsFromGraveyardStepBuilder: StepBuilderFn = (args, conte
   const count = ArgValidators.optionalPositiveInt(args, "count") ?? 1;
   return selectTargetsFromGraveyardStep(context.cardId, context.effectId, count);
 };
+
+/**
+ * SELECT_TARGETS_BY_FILTER - ゾーンからカードフィルター式に合うカードN枚を選択し対象に取る
+ * args: { zone: CardFilterZone, filter: CardFilterDSL, count?: number } count 省略時は1枚
+ *
+ * 例: { zone: "monsterZone", filter: { race: "Spellcaster", faceUp: true } }
+ */
+export const selectTargetsByFilterStepBuilder: StepBuilderFn = (args, context) => {
+  if (!context.effectId) {
+    throw new Error("SELECT_TARGETS_BY_FILTER step requires effectId in context");
+  }
+  const zone = ArgValidators.oneOf(args, "zone", CARD_FILTER_ZONES);
+  const filter = ArgValidators.cardFilter(args, "filter");
+  const count = ArgValidators.optionalPositiveInt(args, "count") ?? 1;
+  return selectTargetsByFilterStep(context.cardId, context.effectId, zone, filter, count);
+};
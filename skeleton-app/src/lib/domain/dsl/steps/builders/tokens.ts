@@ -8,6 +8,7 @@
 import type { CardInstance, BattlePosition } from "$lib/domain/models/Card";
 import { createInitialStateOnField } from "$lib/domain/models/Card/StateOnField";
 import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
 import type { AtomicStep, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
 import { canSpecialSummon } from "$lib/domain/rules/SummonRule";
@@ -57,10 +58,9 @@ export const createTokenMonsterStep = (
       // 2. トークンカードデータを取得
       const tokenCardData = CardDataRegistry.get(tokenCardId);
 
-      // 3. ユニークなinstanceIdを生成
-      const timestamp = Date.now();
-      const random = Math.random().toString(36).substring(2, 8);
-      const instanceId = `token-${tokenCardId}-${timestamp}-${random}`;
+      // 3. ユニークなinstanceIdを生成（リプレイで同じIDを再現するため、ゲーム状態の乱数から生成する）
+      const { value, rng } = GameState.Random.nextInt(state.rng, 0, 0x7fffffff);
+      const instanceId = `token-${tokenCardId}-${value.toString(36)}`;
 
       // 4. CardInstanceを生成（フィールドに配置）
       const slotIndex = findFirstAvailableSlot(state.space, "mainMonsterZone");
@@ -83,7 +83,7 @@ export const createTokenMonsterStep = (
       };
 
       return GameProcessing.Result.success(
-        { ...state, space: updatedSpace },
+        { ...state, space: updatedSpace, rng },
         `${tokenName}を${battlePosition === "attack" ? "攻撃" : "守備"}表示で特殊召喚しました`,
       );
     },
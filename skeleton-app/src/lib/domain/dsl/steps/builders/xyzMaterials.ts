@@ -0,0 +1,94 @@
+/**
+ * xyzMaterials.ts - エクシーズ素材操作系ステップビルダー
+ *
+ * StepBuilder:
+ * - detachMaterialStepBuilder: エクシーズ素材を取り除く
+ */
+
+import { Card } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { AtomicStep, CardSelectionConfig, GameStateUpdateResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { GameEvents } from "$lib/domain/models/GameProcessing/GameEvent";
+import type { StepBuilderFn } from "$lib/domain/dsl/types";
+import { ArgValidators } from "$lib/domain/dsl/core/argValidators";
+
+/**
+ * 指定カードのエクシーズ素材を取り除いて墓地へ送るステップ
+ *
+ * 素材が取り除く数より多い場合は、取り除く素材をプレイヤーが選択する。
+ * 素材が足りない場合は失敗する（コストとして使用するため）。
+ */
+export const detachMaterialStep = (targetInstanceId: string, count: number): AtomicStep => {
+  const summary = "エクシーズ素材を取り除く";
+  const description = `エクシーズ素材を${count}つ取り除きます`;
+
+  return {
+    id: `detach-material-${count}-${targetInstanceId}`,
+    summary,
+    description,
+    notificationLevel: "interactive",
+    cardSelectionConfig: (state: GameSnapshot): CardSelectionConfig | null => {
+      const targetCard = GameState.Space.findCard(state.space, targetInstanceId);
+      const materials = targetCard ? Card.Instance.xyzMaterials(targetCard) : [];
+      if (materials.length <= count) return null;
+
+      return {
+        availableCards: materials,
+        minCards: count,
+        maxCards: count,
+        summary,
+        description: `取り除くエクシーズ素材を${count}つ選択してください`,
+        cancelable: false,
+      };
+    },
+    action: (state: GameSnapshot, selectedInstanceIds?: string[]): GameStateUpdateResult => {
+      const targetCard = GameState.Space.findCard(state.space, targetInstanceId);
+      if (!targetCard || !targetCard.stateOnField) {
+        return GameProcessing.Result.failure(state, `Target card not found: ${targetInstanceId}`);
+      }
+
+      // 素材数チェック
+      const materials = Card.Instance.xyzMaterials(targetCard);
+      if (materials.length < count) {
+        return GameProcessing.Result.failure(
+          state,
+          `Insufficient xyz materials: needed ${count}, but only ${materials.length} available.`,
+        );
+      }
+
+      // 選択がない場合（素材が取り除く数ちょうどの場合）は先頭から取り除く
+      const detachedMaterials =
+        selectedInstanceIds && selectedInstanceIds.length > 0
+          ? materials.filter((material) => selectedInstanceIds.includes(material.instanceId))
+          : materials.slice(0, count);
+
+      const updatedSpace = GameState.Space.detachXyzMaterials(
+        state.space,
+        targetInstanceId,
+        detachedMaterials.map((material) => material.instanceId),
+      );
+
+      return GameProcessing.Result.success(
+        { ...state, space: updatedSpace },
+        `エクシーズ素材を${detachedMaterials.length}つ取り除きました`,
+        detachedMaterials.flatMap((material) => GameEvents.sentToGraveyard(material)),
+      );
+    },
+  };
+};
+
+// ===========================
+// StepBuilder（DSL用ファクトリ）
+// ===========================
+
+/**
+ * DETACH_MATERIAL - 発動元カードのエクシーズ素材を取り除く
+ * args: { count: number }
+ */
+export const detachMaterialStepBuilder: StepBuilderFn = (args, context) => {
+  const count = ArgValidators.positiveInt(args, "count");
+  const targetInstanceId = context.sourceInstanceId ?? `instance-${context.cardId}`;
+  return detachMaterialStep(targetInstanceId, count);
+};
@@ -9,11 +9,16 @@
 
 // レジストリAPI
 import { AtomicStepRegistry } from "./AtomicStepRegistry";
+import { EndPhaseEffectRegistry } from "./EndPhaseEffectRegistry";
 import { STEP_NAMES, type StepName } from "./StepNames";
 
 // StepBuilder 実装
 import { drawStepBuilder, fillHandsStepBuilder } from "./builders/draws";
-import { selectAndDiscardStepBuilder, discardAllHandEndPhaseStepBuilder } from "./builders/discards";
+import {
+  selectAndDiscardStepBuilder,
+  discardAllHandEndPhaseStepBuilder,
+  discardAllHandStep,
+} from "./builders/discards";
 import {
   selectReturnShuffleDrawStepBuilder,
   returnAllHandShuffleDrawStepBuilder,
@@ -23,6 +28,7 @@ import {
   searchFromDeckByNameStepBuilder,
   searchFromDeckTopStepBuilder,
   searchMonsterByStatStepBuilder,
+  searchByFilterStepBuilder,
   salvageFromGraveyardStepBuilder,
 } from "./builders/searches";
 import {
@@ -32,6 +38,7 @@ import {
   burnFromContextStepBuilder,
 } from "./builders/lifePoints";
 import { placeCounterStepBuilder, removeCounterStepBuilder } from "./builders/counters";
+import { detachMaterialStepBuilder } from "./builders/xyzMaterials";
 import { changeBattlePositionStepBuilder } from "./builders/battlePosition";
 import {
   specialSummonFromDeckStepBuilder,
@@ -40,6 +47,8 @@ import {
   specialSummonFromContextStepBuilder,
   specialSummonFromBanishedAsPossibleStepBuilder,
 } from "./builders/summons";
+import { selectFusionMonsterStepBuilder, fusionSummonFromContextStepBuilder } from "./builders/fusions";
+import { selectRitualMonsterStepBuilder, ritualSummonFromContextStepBuilder } from "./builders/rituals";
 import { excavateUntilMonsterStepBuilder, excavateUntilMonsterWithLevelCheckStepBuilder } from "./builders/excavations";
 import { createTokenMonsterStepBuilder } from "./builders/tokens";
 import {
@@ -50,12 +59,17 @@ import {
 import { selectAndReleaseStepBuilder, selectAndReleaseForBurnStepBuilder } from "./builders/releases";
 import { selectAndBanishFromGraveyardStepBuilder } from "./builders/banishments";
 import { shuffleDeckStepBuilder, returnContextCardsToDeckShuffleStepBuilder } from "./builders/deckOperations";
-import { selectTargetFromFieldByRaceStepBuilder, selectTargetsFromGraveyardStepBuilder } from "./builders/targeting";
+import {
+  selectTargetFromFieldByRaceStepBuilder,
+  selectTargetsFromGraveyardStepBuilder,
+  selectTargetsByFilterStepBuilder,
+} from "./builders/targeting";
 import {
   saveTargetsToContextStepBuilder,
   clearContextStepBuilder,
   declareRandomIntegerStepBuilder,
 } from "./builders/contextOperations";
+import { negateActivationStepBuilder, negateEffectStepBuilder } from "./builders/negations";
 import { thenStepBuilder } from "./builders/timing";
 
 // ===========================
@@ -63,6 +77,7 @@ import { thenStepBuilder } from "./builders/timing";
 // ===========================
 
 export { AtomicStepRegistry };
+export { EndPhaseEffectRegistry };
 export { STEP_NAMES, type StepName };
 export const buildStep = AtomicStepRegistry.build.bind(AtomicStepRegistry);
 
@@ -85,6 +100,7 @@ AtomicStepRegistry.register(S.SEARCH_FROM_DECK, searchFromDeckStepBuilder);
 AtomicStepRegistry.register(S.SEARCH_FROM_DECK_BY_NAME, searchFromDeckByNameStepBuilder);
 AtomicStepRegistry.register(S.SEARCH_FROM_DECK_TOP, searchFromDeckTopStepBuilder);
 AtomicStepRegistry.register(S.SEARCH_MONSTER_BY_STAT, searchMonsterByStatStepBuilder);
+AtomicStepRegistry.register(S.SEARCH_BY_FILTER, searchByFilterStepBuilder);
 AtomicStepRegistry.register(S.SALVAGE_FROM_GRAVEYARD, salvageFromGraveyardStepBuilder);
 
 // ライフポイント関連
@@ -97,12 +113,19 @@ AtomicStepRegistry.register(S.BURN_FROM_CONTEXT, burnFromContextStepBuilder);
 AtomicStepRegistry.register(S.PLACE_COUNTER, placeCounterStepBuilder);
 AtomicStepRegistry.register(S.REMOVE_COUNTER, removeCounterStepBuilder);
 
+// エクシーズ素材関連
+AtomicStepRegistry.register(S.DETACH_MATERIAL, detachMaterialStepBuilder);
+
 // モンスター関連
 AtomicStepRegistry.register(S.CHANGE_BATTLE_POSITION, changeBattlePositionStepBuilder);
 AtomicStepRegistry.register(S.SPECIAL_SUMMON_FROM_DECK, specialSummonFromDeckStepBuilder);
 AtomicStepRegistry.register(S.SPECIAL_SUMMON_FROM_DECK_BY_ATK, specialSummonFromDeckByAtkStepBuilder);
 AtomicStepRegistry.register(S.SPECIAL_SUMMON_FROM_EXTRA_DECK, specialSummonFromExtraDeckStepBuilder);
 AtomicStepRegistry.register(S.SPECIAL_SUMMON_FROM_CONTEXT, specialSummonFromContextStepBuilder);
+AtomicStepRegistry.register(S.SELECT_FUSION_MONSTER, selectFusionMonsterStepBuilder);
+AtomicStepRegistry.register(S.FUSION_SUMMON_FROM_CONTEXT, fusionSummonFromContextStepBuilder);
+AtomicStepRegistry.register(S.SELECT_RITUAL_MONSTER, selectRitualMonsterStepBuilder);
+AtomicStepRegistry.register(S.RITUAL_SUMMON_FROM_CONTEXT, ritualSummonFromContextStepBuilder);
 AtomicStepRegistry.register(S.CREATE_TOKEN_MONSTER, createTokenMonsterStepBuilder);
 AtomicStepRegistry.register(S.EXCAVATE_UNTIL_MONSTER, excavateUntilMonsterStepBuilder);
 AtomicStepRegistry.register(S.EXCAVATE_UNTIL_MONSTER_WITH_LEVEL_CHECK, excavateUntilMonsterWithLevelCheckStepBuilder);
@@ -127,9 +150,21 @@ AtomicStepRegistry.register(S.RETURN_CONTEXT_CARDS_TO_DECK_SHUFFLE, returnContex
 // コンテキスト操作関連
 AtomicStepRegistry.register(S.SELECT_TARGET_FROM_FIELD_BY_RACE, selectTargetFromFieldByRaceStepBuilder);
 AtomicStepRegistry.register(S.SELECT_TARGETS_FROM_GRAVEYARD, selectTargetsFromGraveyardStepBuilder);
+AtomicStepRegistry.register(S.SELECT_TARGETS_BY_FILTER, selectTargetsByFilterStepBuilder);
 AtomicStepRegistry.register(S.SAVE_TARGETS_TO_CONTEXT, saveTargetsToContextStepBuilder);
 AtomicStepRegistry.register(S.CLEAR_CONTEXT, clearContextStepBuilder);
 AtomicStepRegistry.register(S.DECLARE_RANDOM_INTEGER, declareRandomIntegerStepBuilder);
 
+// チェーン無効化関連
+AtomicStepRegistry.register(S.NEGATE_ACTIVATION, negateActivationStepBuilder);
+AtomicStepRegistry.register(S.NEGATE_EFFECT, negateEffectStepBuilder);
+
 // その他
 AtomicStepRegistry.register(S.THEN, thenStepBuilder);
+
+// ===========================
+// エンドフェイズ効果登録
+// ===========================
+
+// queueEndPhaseEffectStep で保留される効果
+EndPhaseEffectRegistry.register(discardAllHandStep);
@@ -34,6 +34,8 @@ export const selectCardsStep = (config: {
   summary: string;
   description: string;
   availableCards: readonly CardInstance[] | null;
+  /** 実行時に state から選択候補を算出する関数（複数ゾーンにまたがる候補用。指定時は availableCards より優先） */
+  dynamicAvailableCards?: (state: GameSnapshot) => readonly CardInstance[];
   _sourceZone?: LocationName;
   _filter?: (card: CardInstance, index?: number) => boolean;
   minCards: number;
@@ -54,7 +56,7 @@ export const selectCardsStep = (config: {
     description: config.description,
     notificationLevel: "interactive",
     cardSelectionConfig: (state: GameSnapshot) => ({
-      availableCards: config.availableCards,
+      availableCards: config.dynamicAvailableCards ? config.dynamicAvailableCards(state) : config.availableCards,
       _sourceZone: config._sourceZone,
       _filter: config._filter,
       minCards: config.minCards,
@@ -12,6 +12,11 @@ import {
   TRAP_SUB_TYPES,
   OTHER_MONSTER_SUB_TYPES,
   EDITIONS,
+  LINK_MARKERS,
+  type CardType,
+  type FrameSubType,
+  type SpellSubType,
+  type TrapSubType,
 } from "$lib/domain/models/Card/CardData";
 import { EVENT_TYPES } from "$lib/domain/models/GameProcessing/GameEvent";
 import { RULE_CATEGORIES, TRIGGER_TIMINGS } from "$lib/domain/models/Effect/AdditionalRule";
@@ -43,40 +48,152 @@ const TrapSubTypeSchema = z.enum(TRAP_SUB_TYPES);
 /** OtherMonsterSubType スキーマ */
 const OtherMonsterSubTypeSchema = z.enum(OTHER_MONSTER_SUB_TYPES);
 
+/** LinkMarker スキーマ */
+const LinkMarkerSchema = z.enum(LINK_MARKERS);
+
+/**
+ * 融合素材1体分のDSL表現スキーマ
+ *
+ * 例: { cardId: 20315854 } / { race: "Dragon" }
+ */
+const FusionMaterialDSLSchema = z
+  .object({
+    /** カード名指定（カードID） */
+    cardId: z.number().int().positive().optional(),
+    /** 種族指定 */
+    race: z.string().min(1).optional(),
+  })
+  .refine((material) => material.cardId !== undefined || material.race !== undefined, {
+    message: "Fusion material requires cardId or race",
+  });
+
 /**
  * カードデータのDSL表現スキーマ
  */
-const CardDataDSLSchema = z.object({
-  /** 日本語カード名 */
-  jaName: z.string().min(1),
-  /** カードタイプ */
-  type: CardTypeSchema,
-  /** カードフレームタイプ */
-  frameType: FrameSubTypeSchema,
-  /** エディション */
-  edition: z.enum(EDITIONS).optional(),
-  /** 魔法カードサブタイプ */
-  spellType: SpellSubTypeSchema.optional(),
-  /** 罠カードサブタイプ */
-  trapType: TrapSubTypeSchema.optional(),
-  /** モンスターサブタイプリスト（チューナー等の複合属性対応） */
-  monsterTypeList: z.array(OtherMonsterSubTypeSchema).optional(),
-  // モンスター用
-  /** モンスター種族 */
-  race: z.string().optional(),
-  /** モンスター属性 */
-  attribute: z.string().optional(),
-  /** モンスターレベル */
-  level: z.number().int().min(0).max(12).optional(),
-  /** モンスター攻撃力 */
-  attack: z.number().int().min(0).optional(),
-  /** モンスター守備力 */
-  defense: z.number().int().min(0).optional(),
-});
+const CardDataDSLSchema = z
+  .object({
+    /** 日本語カード名 */
+    jaName: z.string().min(1),
+    /** カードタイプ */
+    type: CardTypeSchema,
+    /** カードフレームタイプ */
+    frameType: FrameSubTypeSchema,
+    /** エディション */
+    edition: z.enum(EDITIONS).optional(),
+    /** 魔法カードサブタイプ */
+    spellType: SpellSubTypeSchema.optional(),
+    /** 罠カードサブタイプ */
+    trapType: TrapSubTypeSchema.optional(),
+    /** モンスターサブタイプリスト（チューナー等の複合属性対応） */
+    monsterTypeList: z.array(OtherMonsterSubTypeSchema).optional(),
+    // モンスター用
+    /** モンスター種族 */
+    race: z.string().optional(),
+    /** モンスター属性 */
+    attribute: z.string().optional(),
+    /** モンスターレベル */
+    level: z.number().int().min(0).max(12).optional(),
+    /** モンスター攻撃力 */
+    attack: z.number().int().min(0).optional(),
+    /** モンスター守備力 */
+    defense: z.number().int().min(0).optional(),
+    /** 融合素材（融合モンスター用、1要素 = 1体分） */
+    fusionMaterials: z.array(FusionMaterialDSLSchema).min(2).optional(),
+    /** ランク（エクシーズモンスター用） */
+    rank: z.number().int().min(1).max(13).optional(),
+    /** 必要なエクシーズ素材の数（エクシーズモンスター用、省略時は2体） */
+    xyzMaterialCount: z.number().int().min(2).optional(),
+    /** リンク数（リンクモンスター用） */
+    linkRating: z.number().int().min(1).max(8).optional(),
+    /** リンクマーカーの向き（リンクモンスター用、リンク数と同じ数だけ指定） */
+    linkMarkers: z.array(LinkMarkerSchema).max(8).optional(),
+  })
+  .refine((data) => data.linkMarkers === undefined || new Set(data.linkMarkers).size === data.linkMarkers.length, {
+    message: "Link markers must not be duplicated",
+  })
+  .refine((data) => data.linkMarkers === undefined || data.linkMarkers.length === data.linkRating, {
+    message: "The number of link markers must match linkRating",
+  });
 
 /** カードデータのDSL表現 */
 export type CardDataDSL = z.infer<typeof CardDataDSLSchema>;
 
+// =============================================================================
+// カードフィルター スキーマ
+// =============================================================================
+
+/** 数値範囲のDSL表現（min, max を含む） */
+export interface StatRangeDSL {
+  readonly min?: number;
+  readonly max?: number;
+}
+
+/**
+ * カードフィルター式のDSL表現
+ *
+ * 同じオブジェクト内で指定したプロパティは全て満たす必要がある（AND）。
+ * 数値の項目は、数値を指定すると一致、{ min, max } を指定すると範囲で判定する。
+ *
+ * 例: { type: "monster", attack: { max: 1500 } } / { or: [{ race: "Spellcaster" }, { nameIncludes: "トゥーン" }] }
+ */
+export interface CardFilterDSL {
+  readonly type?: CardType;
+  readonly frameType?: FrameSubType;
+  readonly spellType?: SpellSubType;
+  readonly trapType?: TrapSubType;
+  readonly race?: string;
+  readonly attribute?: string;
+  readonly nameIncludes?: string;
+  readonly level?: number | StatRangeDSL;
+  readonly attack?: number | StatRangeDSL;
+  readonly defense?: number | StatRangeDSL;
+  /** 表側表示か（フィールドのカード用） */
+  readonly faceUp?: boolean;
+  readonly and?: readonly CardFilterDSL[];
+  readonly or?: readonly CardFilterDSL[];
+  readonly not?: CardFilterDSL;
+}
+
+/** 数値または数値範囲のスキーマ */
+const StatRangeDSLSchema = z.union([
+  z.number().int().min(0),
+  z
+    .strictObject({
+      min: z.number().int().min(0).optional(),
+      max: z.number().int().min(0).optional(),
+    })
+    .refine((range) => range.min !== undefined || range.max !== undefined, {
+      message: "Stat range requires min or max",
+    })
+    .refine((range) => range.min === undefined || range.max === undefined || range.min <= range.max, {
+      message: "Stat range min must not exceed max",
+    }),
+]);
+
+/**
+ * カードフィルター式のスキーマ
+ *
+ * ステップ・条件の args.filter で使用する。未知のプロパティはエラーにする（タイポ検出のため）。
+ */
+export const CardFilterDSLSchema: z.ZodType<CardFilterDSL> = z.lazy(() =>
+  z.strictObject({
+    type: CardTypeSchema.optional(),
+    frameType: FrameSubTypeSchema.optional(),
+    spellType: SpellSubTypeSchema.optional(),
+    trapType: TrapSubTypeSchema.optional(),
+    race: z.string().min(1).optional(),
+    attribute: z.string().min(1).optional(),
+    nameIncludes: z.string().min(1).optional(),
+    level: StatRangeDSLSchema.optional(),
+    attack: StatRangeDSLSchema.optional(),
+    defense: StatRangeDSLSchema.optional(),
+    faceUp: z.boolean().optional(),
+    and: z.array(CardFilterDSLSchema).min(1).optional(),
+    or: z.array(CardFilterDSLSchema).min(1).optional(),
+    not: CardFilterDSLSchema.optional(),
+  }),
+);
+
 // =============================================================================
 // ChainableAction + AdditionalRule 共通スキーマ
 // =============================================================================
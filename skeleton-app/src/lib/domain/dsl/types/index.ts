@@ -15,7 +15,7 @@ export type {
 } from "./DSLTypes";
 
 // Zodスキーマ
-export { CardDSLDefinitionSchema } from "./DSLSchemas";
+export { CardDSLDefinitionSchema, CardFilterDSLSchema } from "./DSLSchemas";
 
 // Zodスキーマから導出される型
 export type {
@@ -27,6 +27,8 @@ export type {
   ChainableActionDSL,
   AdditionalRuleDSL,
   CardDSLDefinition,
+  CardFilterDSL,
+  StatRangeDSL,
 } from "./DSLSchemas";
 
 // エラークラス
@@ -12,6 +12,7 @@
 import type { ChainableAction } from "$lib/domain/models/Effect";
 import type { CardInstance } from "$lib/domain/models/Card";
 import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
 import type { GameEvent, AtomicStep } from "$lib/domain/models/GameProcessing";
 import type { ChainBlockParams } from "$lib/domain/models/Chain";
 import { Card } from "$lib/domain/models/Card";
@@ -174,7 +175,7 @@ export class ChainableActionRegistry {
     // 手札: 表裏判定不要
     collectFromCards(state.space.hand, false);
     // モンスターゾーン: 表側表示のみ
-    collectFromCards(state.space.mainMonsterZone, true);
+    collectFromCards(GameState.Space.monstersOnField(state.space), true);
     // 魔法罠ゾーン: 表側表示のみ
     collectFromCards(state.space.spellTrapZone, true);
     // フィールドゾーン: 表側表示のみ
@@ -217,7 +218,7 @@ export class ChainableActionRegistry {
     }
 
     // モンスターゾーン: 表側表示の効果の発動
-    for (const card of state.space.mainMonsterZone) {
+    for (const card of GameState.Space.monstersOnField(state.space)) {
       if (excludeInstanceIds.has(card.instanceId)) continue;
       if (!Card.Instance.isFaceUp(card)) continue;
       this.collectEffects(result, card, state, requiredSpellSpeed);
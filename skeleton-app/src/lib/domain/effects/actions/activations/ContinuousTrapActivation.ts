@@ -0,0 +1,131 @@
+/**
+ * ContinuousTrapActivation - 永続罠カード発動の抽象基底クラス
+ *
+ * BaseTrapActivation を拡張し、永続罠に共通するプロパティとメソッドを提供する。
+ *
+ * Implementation using ChainableAction model:
+ * - CONDITIONS: 特になし（罠カード共通の条件のみ）
+ * - ACTIVATIONS: 特になし（サブクラスで実装）
+ * - RESOLUTIONS: 特になし（サブクラスで実装）
+ *
+ * @module domain/effects/actions/activations/ContinuousTrapActivation
+ */
+
+import type { CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { AtomicStep, ValidationResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { BaseTrapActivation } from "./BaseTrapActivation";
+
+/**
+ * ContinuousTrapActivation - 永続罠カードの抽象基底クラス
+ *
+ * @abstract
+ */
+export abstract class ContinuousTrapActivation extends BaseTrapActivation {
+  /** スペルスピード2（永続罠） */
+  readonly spellSpeed = 2 as const;
+
+  /**
+   * CONDITIONS: 発動条件チェック（永続罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypeConditions(_state: GameSnapshot, _sourceInstance: CardInstance): ValidationResult {
+    return GameProcessing.Validation.success(); // 永続罠はサブタイプ共通の条件なし
+  }
+
+  /**
+   * CONDITIONS: 発動条件チェック（カード固有）
+   *
+   * @protected
+   * @abstract
+   */
+  protected abstract individualConditions(state: GameSnapshot, sourceInstance: CardInstance): ValidationResult;
+
+  /**
+   * ACTIVATIONS: 発動前処理（永続罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePreActivationSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // 永続罠は発動前処理なし
+  }
+
+  /**
+   * ACTIVATIONS: 発動処理（カード固有）
+   *
+   * @protected
+   * @abstract
+   */
+  protected abstract individualActivationSteps(state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[];
+
+  /**
+   * ACTIVATIONS: 発動後処理（永続罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePostActivationSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // 永続罠は発動後処理なし
+  }
+
+  /**
+   * RESOLUTIONS: 効果解決前処理（永続罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePreResolutionSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // 永続罠は効果解決前処理なし
+  }
+
+  /**
+   * RESOLUTIONS: 効果解決処理（カード固有）
+   *
+   * @protected
+   * @abstract
+   */
+  protected abstract individualResolutionSteps(state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[];
+
+  /**
+   * RESOLUTIONS: 効果解決後処理（永続罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePostResolutionSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // 永続罠は効果解決後処理なし（フィールドに残る）
+  }
+
+  /**
+   * 永続罠発動効果の空実装クラスを生成する
+   *
+   * 発動時に固有の処理を持たないカード用。
+   * 永続効果や起動効果は別途登録する。
+   */
+  static createNoOp(cardId: number): ContinuousTrapActivation {
+    return new NoOpContinuousTrapActivation(cardId);
+  }
+}
+
+/** 永続罠発動効果の空実装クラス */
+class NoOpContinuousTrapActivation extends ContinuousTrapActivation {
+  constructor(cardId: number) {
+    super(cardId);
+  }
+
+  protected individualConditions(): ValidationResult {
+    return GameProcessing.Validation.success();
+  }
+
+  protected individualActivationSteps(): AtomicStep[] {
+    return [];
+  }
+
+  protected individualResolutionSteps(): AtomicStep[] {
+    return [];
+  }
+}
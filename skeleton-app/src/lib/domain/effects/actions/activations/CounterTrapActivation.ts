@@ -0,0 +1,107 @@
+/**
+ * CounterTrapActivation - カウンター罠カード発動の抽象基底クラス
+ *
+ * BaseTrapActivation を拡張し、カウンター罠に共通するプロパティとメソッドを提供する。
+ *
+ * Implementation using ChainableAction model:
+ * - CONDITIONS: 特になし（罠カード共通の条件のみ）
+ * - ACTIVATIONS: 特になし（サブクラスで実装）
+ * - RESOLUTIONS: 効果解決後に墓地に送られる
+ *
+ * スペルスピード3のため、チェーン上ではカウンター罠にのみチェーンできる。
+ *
+ * @module domain/effects/actions/activations/CounterTrapActivation
+ */
+
+import type { CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { AtomicStep, ValidationResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { sendToGraveyardStep } from "$lib/domain/dsl/steps/builders/discards";
+import { BaseTrapActivation } from "./BaseTrapActivation";
+
+/**
+ * CounterTrapActivation - カウンター罠カードの抽象基底クラス
+ *
+ * @abstract
+ */
+export abstract class CounterTrapActivation extends BaseTrapActivation {
+  /** スペルスピード3（カウンター罠） */
+  readonly spellSpeed = 3 as const;
+
+  /**
+   * CONDITIONS: 発動条件チェック（カウンター罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypeConditions(_state: GameSnapshot, _sourceInstance: CardInstance): ValidationResult {
+    return GameProcessing.Validation.success(); // カウンター罠はサブタイプ共通の条件なし
+  }
+
+  /**
+   * CONDITIONS: 発動条件チェック（カード固有）
+   *
+   * @protected
+   * @abstract
+   */
+  protected abstract individualConditions(state: GameSnapshot, sourceInstance: CardInstance): ValidationResult;
+
+  /**
+   * ACTIVATIONS: 発動前処理（カウンター罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePreActivationSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // カウンター罠は発動前処理なし
+  }
+
+  /**
+   * ACTIVATIONS: 発動処理（カード固有）
+   *
+   * @protected
+   * @abstract
+   */
+  protected abstract individualActivationSteps(state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[];
+
+  /**
+   * ACTIVATIONS: 発動後処理（カウンター罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePostActivationSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // カウンター罠は発動後処理なし
+  }
+
+  /**
+   * RESOLUTIONS: 効果解決前処理（カウンター罠共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePreResolutionSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // カウンター罠は効果解決前処理なし
+  }
+
+  /**
+   * RESOLUTIONS: 効果解決処理（カード固有）
+   *
+   * @protected
+   * @abstract
+   */
+  protected abstract individualResolutionSteps(state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[];
+
+  /**
+   * RESOLUTIONS: 効果解決後処理（カウンター罠共通）
+   *
+   * カウンター罠は効果解決後に墓地へ送られる。
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePostResolutionSteps(_state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[] {
+    return [sendToGraveyardStep(sourceInstance.instanceId, sourceInstance.jaName)];
+  }
+}
@@ -14,7 +14,7 @@
  * - 効果解決後に activationContext をクリア
  *
  * Note: 装備対象のデフォルト
- * - デフォルト: mainMonsterZoneの表側表示モンスターを対象に取る
+ * - デフォルト: フィールド（メイン・エクストラモンスターゾーン）の表側表示モンスターを対象に取る
  * - 装備モンスターの条件や、墓地や除外ゾーンから対象を取る場合は、SELECT_TARGET_* ステップで明示的に選択する
  *
  * @module domain/effects/actions/activations/EquipSpellActivation
@@ -44,7 +44,7 @@ export abstract class EquipSpellActivation extends BaseSpellActivation {
    * デフォルトの装備対象選択機能を使用するかどうか
    *
    * サブクラスでオーバーライドして、デフォルト対象選択機能の使用を制御する。
-   * - true: mainMonsterZone の表側表示モンスターから自動選択
+   * - true: フィールドの表側表示モンスターから自動選択
    * - false: SELECT_TARGET_* ステップで明示的に対象選択
    *
    * @protected
@@ -72,8 +72,8 @@ export abstract class EquipSpellActivation extends BaseSpellActivation {
 
     // 2. 装備対象のモンスターが存在すること（フックで制御可能）
     if (this.useDefaultEquipTargetSelection()) {
-      // mainMonsterZone の表側表示モンスターをチェック
-      const candidates = state.space.mainMonsterZone.filter(
+      // フィールドの表側表示モンスターをチェック
+      const candidates = GameState.Space.monstersOnField(state.space).filter(
         (card) => card.type === "monster" && Card.Instance.isFaceUp(card),
       );
       if (candidates.length === 0) {
@@ -138,9 +138,8 @@ export abstract class EquipSpellActivation extends BaseSpellActivation {
         sourceCardId: this.cardId,
         summary: "装備対象を選択",
         description: "装備するモンスターを1体選択してください",
-        availableCards: null, // 動的に取得
-        _sourceZone: "mainMonsterZone",
-        _filter: filter,
+        availableCards: null,
+        dynamicAvailableCards: (state) => GameState.Space.monstersOnField(state.space).filter(filter),
         minCards: 1,
         maxCards: 1,
         onSelect: (state, selectedIds) => {
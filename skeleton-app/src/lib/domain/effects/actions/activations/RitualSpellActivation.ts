@@ -0,0 +1,114 @@
+/**
+ * RitualSpellActivation - 儀式魔法カード発動の抽象基底クラス
+ *
+ * BaseSpellActivation を拡張し、儀式魔法に共通するプロパティとメソッドを提供する。
+ * 儀式召喚の手順（儀式モンスターの選択・リリース）はサブクラスで実装する。
+ *
+ * Implementation using ChainableAction model:
+ * - CONDITIONS: メインフェイズのみ
+ * - ACTIVATIONS: 特になし（サブクラスで実装）
+ * - RESOLUTIONS: 効果解決後に墓地に送られる
+ *
+ * @module domain/effects/actions/activations/RitualSpellActivation
+ */
+
+import type { CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { AtomicStep, ValidationResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { sendToGraveyardStep } from "$lib/domain/dsl/steps/builders/discards";
+import { BaseSpellActivation } from "./BaseSpellActivation";
+
+/**
+ * RitualSpellActivation - 儀式魔法カードの抽象基底クラス
+ *
+ * @abstract
+ */
+export abstract class RitualSpellActivation extends BaseSpellActivation {
+  /** スペルスピード1（儀式魔法） */
+  readonly spellSpeed = 1 as const;
+
+  /**
+   * CONDITIONS: 発動条件チェック（儀式魔法共通）
+   *
+   * チェック項目:
+   * 1. メインフェイズであること
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypeConditions(state: GameSnapshot, _sourceInstance: CardInstance): ValidationResult {
+    // 1. メインフェイズであること
+    if (!GameState.Phase.isMain(state.phase)) {
+      return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_MAIN_PHASE);
+    }
+
+    return GameProcessing.Validation.success();
+  }
+
+  /**
+   * CONDITIONS: 発動条件チェック（カード固有）
+   *
+   * @protected
+   * @abstract
+   */
+  protected abstract individualConditions(state: GameSnapshot, sourceInstance: CardInstance): ValidationResult;
+
+  /**
+   * ACTIVATIONS: 発動前処理（儀式魔法共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePreActivationSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // 儀式魔法は発動前処理なし
+  }
+
+  /**
+   * ACTIVATIONS: 発動処理（カード固有）
+   *
+   * @protected
+   */
+  protected abstract individualActivationSteps(_state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[];
+
+  /**
+   * ACTIVATIONS: 発動後処理（儀式魔法共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePostActivationSteps(_state: GameSnapshot): AtomicStep[] {
+    return []; // 儀式魔法は発動後処理なし
+  }
+
+  /**
+   * RESOLUTIONS: 効果解決前処理（儀式魔法共通）
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePreResolutionSteps(_state: GameSnapshot, _sourceInstance: CardInstance): AtomicStep[] {
+    return []; // 儀式魔法は効果解決前処理なし
+  }
+
+  /**
+   * RESOLUTIONS: 効果解決処理（カード固有）
+   *
+   * @protected
+   * @abstract
+   */
+  protected abstract individualResolutionSteps(state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[];
+
+  /**
+   * RESOLUTIONS: 効果解決後処理（儀式魔法共通）
+   *
+   * 儀式魔法は効果解決後に墓地へ送られる。
+   *
+   * @protected
+   * @final このメソッドはオーバーライドしない
+   */
+  protected subTypePostResolutionSteps(_state: GameSnapshot, sourceInstance: CardInstance): AtomicStep[] {
+    return [sendToGraveyardStep(sourceInstance.instanceId, sourceInstance.jaName)];
+  }
+}
@@ -13,6 +13,7 @@
 import type { CardInstance } from "$lib/domain/models/Card";
 import { Card } from "$lib/domain/models/Card";
 import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
 import type { AtomicStep, EventType, GameEvent } from "$lib/domain/models/GameProcessing";
 import type { AdditionalRule, RuleCategory } from "$lib/domain/models/Effect";
 
@@ -82,7 +83,11 @@ export class AdditionalRuleRegistry {
     const results: Array<{ rule: AdditionalRule; sourceInstance: CardInstance }> = [];
 
     // フィールド上のすべてのカードをチェック（モンスターゾーン、魔法・罠ゾーン、フィールド魔法ゾーン）
-    const fieldCards = [...state.space.mainMonsterZone, ...state.space.spellTrapZone, ...state.space.fieldZone];
+    const fieldCards = [
+      ...GameState.Space.monstersOnField(state.space),
+      ...state.space.spellTrapZone,
+      ...state.space.fieldZone,
+    ];
 
     for (const card of fieldCards) {
       // 表側表示のカードのみチェック
@@ -133,8 +138,8 @@ export class AdditionalRuleRegistry {
         continue;
       }
 
-      // triggerSourceZones が指定されている場合、発生源ゾーンをフィルタ
-      if (rule.triggerSourceZones && !rule.triggerSourceZones.includes(event.sourceInstanceLocation!)) {
+      // triggerSourceZones が指定されている場合、発生源ゾーンをフィルタ（エクシーズ素材はどのゾーンにも該当しない）
+      if (rule.triggerSourceZones && !rule.triggerSourceZones.some((zone) => zone === event.sourceInstanceLocation)) {
         continue;
       }
 
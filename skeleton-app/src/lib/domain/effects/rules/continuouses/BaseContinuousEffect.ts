@@ -7,6 +7,7 @@
  */
 
 import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
 import type { AdditionalRule, RuleCategory } from "$lib/domain/models/Effect";
 import { Card } from "$lib/domain/models/Card";
 
@@ -70,7 +71,11 @@ export abstract class BaseContinuousEffect implements AdditionalRule {
    */
   protected isOnFieldFaceUp(state: GameSnapshot): boolean {
     // フィールド上のカードインスタンスを収集
-    const allFieldCards = [...state.space.mainMonsterZone, ...state.space.spellTrapZone, ...state.space.fieldZone];
+    const allFieldCards = [
+      ...GameState.Space.monstersOnField(state.space),
+      ...state.space.spellTrapZone,
+      ...state.space.fieldZone,
+    ];
     // カードIDが一致し、かつ表側表示であるカードが存在するかチェック
     return allFieldCards.some((card) => card.id === this.cardId && Card.Instance.isFaceUp(card));
   }
@@ -36,6 +36,35 @@ export type SpellSubType = (typeof SPELL_SUB_TYPES)[number];
 export const TRAP_SUB_TYPES = ["normal", "continuous", "counter"] as const;
 export type TrapSubType = (typeof TRAP_SUB_TYPES)[number];
 
+/**
+ * 融合素材1体分の指定
+ *
+ * 指定したプロパティを全て満たすモンスターが素材になれる。
+ * - cardId: カード名指定（例: 「《フェアリー・ドラゴン》＋…」）
+ * - race: 種族指定（例: 「ドラゴン族モンスター＋…」）
+ */
+export interface FusionMaterial {
+  readonly cardId?: number;
+  readonly race?: string;
+}
+
+/**
+ * リンクマーカーの向き
+ *
+ * カードを正面から見た8方向。左右はモンスターゾーンの並びと一致する。
+ */
+export const LINK_MARKERS = [
+  "topLeft",
+  "top",
+  "topRight",
+  "left",
+  "right",
+  "bottomLeft",
+  "bottom",
+  "bottomRight",
+] as const;
+export type LinkMarker = (typeof LINK_MARKERS)[number];
+
 /** エディション */
 export const EDITIONS = ["latest", "legacy"] as const;
 export type Edition = (typeof EDITIONS)[number]; // latest: 最新, legacy: エラッタ前
@@ -60,9 +89,21 @@ export interface CardData {
 
   // モンスターカードのみ
   readonly race?: string; // 種族（例: "Spellcaster", "Warrior"）
+  readonly attribute?: string; // 属性（例: "DARK", "LIGHT"）
   readonly level?: number; // レベル
   readonly attack?: number;
   readonly defense?: number;
+
+  // 融合モンスターのみ
+  readonly fusionMaterials?: readonly FusionMaterial[]; // 融合素材（1要素 = 1体分）
+
+  // エクシーズモンスターのみ
+  readonly rank?: number; // ランク（素材にはランクと同じレベルのモンスターが必要）
+  readonly xyzMaterialCount?: number; // 必要なエクシーズ素材の数（省略時は2体）
+
+  // リンクモンスターのみ
+  readonly linkRating?: number; // リンクマーカーの数（素材にはリンク数と同じ数のモンスターが必要）
+  readonly linkMarkers?: readonly LinkMarker[]; // リンクマーカーの向き
 }
 
 /**
@@ -109,11 +150,36 @@ export const isNonTunerMonster = (card: CardData): boolean => {
   return isMonsterCard(card) && !isTunerMonster(card);
 };
 
+/** 儀式モンスターかどうか */
+export const isRitualMonster = (card: CardData): boolean => {
+  return card.frameType === "ritual";
+};
+
 /** シンクロモンスターかどうか */
 export const isSynchroMonster = (card: CardData): boolean => {
   return card.frameType === "synchro";
 };
 
+/** 融合モンスターかどうか */
+export const isFusionMonster = (card: CardData): boolean => {
+  return card.frameType === "fusion";
+};
+
+/** エクシーズモンスターかどうか */
+export const isXyzMonster = (card: CardData): boolean => {
+  return card.frameType === "xyz";
+};
+
+/** リンクモンスターかどうか */
+export const isLinkMonster = (card: CardData): boolean => {
+  return card.frameType === "link";
+};
+
+/** エクストラデッキに入るモンスター（融合・シンクロ・エクシーズ・リンク）かどうか */
+export const isExtraDeckMonster = (card: CardData): boolean => {
+  return (EXTRA_MONSTER_SUB_TYPES as readonly string[]).includes(card.frameType);
+};
+
 /** 魔法カードかどうか */
 export const isSpellCard = (card: CardData): boolean => {
   return card.type === "spell";
@@ -144,6 +210,11 @@ export const isEquipSpellCard = (card: CardData): boolean => {
   return isSpellCard(card) && card.spellType === "equip";
 };
 
+/** 儀式魔法カードかどうか */
+export const isRitualSpellCard = (card: CardData): boolean => {
+  return isSpellCard(card) && card.spellType === "ritual";
+};
+
 /** 罠カードかどうか */
 export const isTrapCard = (card: CardData): boolean => {
   return card.type === "trap";
@@ -5,7 +5,7 @@
 import type { CardData } from "./CardData";
 import type { StateOnField, Position, BattlePosition } from "./StateOnField";
 import { createInitialStateOnField } from "./StateOnField";
-import type { LocationName } from "$lib/domain/models/Location";
+import type { CardLocationName, LocationName } from "$lib/domain/models/Location";
 import { Location } from "$lib/domain/models/Location";
 
 /**
@@ -16,7 +16,7 @@ import { Location } from "$lib/domain/models/Location";
  */
 export interface CardInstance extends CardData {
   readonly instanceId: string;
-  readonly location: LocationName;
+  readonly location: CardLocationName;
   /** フィールド一時状態（フィールド外では undefined） */
   readonly stateOnField?: StateOnField;
 }
@@ -61,13 +61,22 @@ export const isDefensePosition = (card: CardInstance): boolean => {
   return card.stateOnField?.battlePosition === "defense";
 };
 
+/** カードに重ねられているエクシーズ素材を取得する（フィールド外・素材なしの場合は空配列） */
+export const getXyzMaterials = (card: CardInstance): readonly CardInstance[] => {
+  return card.stateOnField?.xyzMaterials ?? [];
+};
+
 /** カードインスタンスの状態を更新する */
-const updatedCardInstance = (card: CardInstance, location: LocationName, stateOnField?: StateOnField): CardInstance => {
+const updatedCardInstance = (
+  card: CardInstance,
+  location: CardLocationName,
+  stateOnField?: StateOnField,
+): CardInstance => {
   return { ...card, location, stateOnField };
 };
 
 /** 指定カードを移動する */
-export const movedInstance = (card: CardInstance, location: LocationName): CardInstance => {
+export const movedInstance = (card: CardInstance, location: CardLocationName): CardInstance => {
   return updatedCardInstance(card, location);
 };
 
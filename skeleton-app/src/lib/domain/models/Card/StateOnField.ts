@@ -3,6 +3,7 @@
  */
 
 import type { CounterState } from "./Counter";
+import type { CardInstance } from "./CardInstance";
 
 /** カードの表側表示・裏側表示 */
 export type Position = "faceUp" | "faceDown";
@@ -32,6 +33,17 @@ export interface StateOnField {
 
   /** 装備対象モンスターの instanceId（装備カード用） */
   readonly equippedTo?: string;
+
+  /**
+   * 重ねられているエクシーズ素材（エクシーズモンスター用）
+   *
+   * 素材はどのゾーンにも属さず、このモンスターと共に保持される。
+   * モンスターがフィールドを離れた場合は墓地へ送られる。
+   */
+  readonly xyzMaterials?: readonly CardInstance[];
+
+  /** このターンに攻撃宣言済みか（モンスター用、エンドフェイズにリセット） */
+  readonly attackedThisTurn?: boolean;
 }
 
 /** StateOnField の初期値を生成する */
@@ -19,6 +19,8 @@ export type {
   SpellSubType,
   TrapSubType,
   Edition,
+  FusionMaterial,
+  LinkMarker,
 } from "./CardData";
 export type { CardInstance } from "./CardInstance";
 export type { StateOnField, Position, BattlePosition } from "./StateOnField";
@@ -41,14 +43,21 @@ export const Card = {
   isNonEffectMonster: CardDataFuncs.isNonEffectMonster,
   isTuner: CardDataFuncs.isTunerMonster,
   isNonTuner: CardDataFuncs.isNonTunerMonster,
+  isRitual: CardDataFuncs.isRitualMonster,
   isSynchro: CardDataFuncs.isSynchroMonster,
+  isFusion: CardDataFuncs.isFusionMonster,
+  isXyz: CardDataFuncs.isXyzMonster,
+  isLink: CardDataFuncs.isLinkMonster,
+  isExtraDeckMonster: CardDataFuncs.isExtraDeckMonster,
   isSpell: CardDataFuncs.isSpellCard,
   isNormalSpell: CardDataFuncs.isNormalSpellCard,
   isQuickPlaySpell: CardDataFuncs.isQuickPlaySpellCard,
   isContinuousSpell: CardDataFuncs.isContinuousSpellCard,
   isFieldSpell: CardDataFuncs.isFieldSpellCard,
   isEquipSpell: CardDataFuncs.isEquipSpellCard,
+  isRitualSpell: CardDataFuncs.isRitualSpellCard,
   isTrap: CardDataFuncs.isTrapCard,
+  isLegacyEdition: CardDataFuncs.isLegacyEdition,
 
   Instance: {
     inHand: CardInstanceFuncs.inHand,
@@ -63,6 +72,7 @@ export const Card = {
     placedOnField: CardInstanceFuncs.placedOnFieldInstance,
     leavedFromField: CardInstanceFuncs.leavedFromFieldInstance,
     updatedState: CardInstanceFuncs.updateCardStateInPlace,
+    xyzMaterials: CardInstanceFuncs.getXyzMaterials,
   },
 
   Counter: {
@@ -0,0 +1,38 @@
+/**
+ * ChainLink - ゲーム状態から参照できるチェーン上の1つのリンク
+ *
+ * ChainBlock は解決時に実行するステップ（関数）を持つためゲーム状態に含められない。
+ * 効果処理中のチェーンの内容はステップや発動条件からも参照する必要があるため、
+ * シリアライズ可能な情報のみをチェーンリンクとして GameSnapshot に保持する。
+ */
+
+import type { EffectId } from "$lib/domain/models/Effect";
+
+/**
+ * チェーンリンクの無効化の種類
+ *
+ * - activation: 発動を無効にする（魔法・罠カードは墓地へ送られる）
+ * - effect: 効果を無効にする（永続魔法・永続罠などはフィールドに残る）
+ */
+export type ChainNegation = "activation" | "effect";
+
+/** チェーンリンク */
+export interface ChainLink {
+  /** チェーン番号（1から開始） */
+  readonly chainNumber: number;
+
+  /** ChainableAction の効果ID */
+  readonly effectId: EffectId;
+
+  /** 発動元カードインスタンスID */
+  readonly sourceInstanceId: string;
+
+  /** 発動元カードID */
+  readonly sourceCardId: number;
+
+  /** スペルスピード */
+  readonly spellSpeed: 1 | 2 | 3;
+
+  /** 無効化の種類（無効化されていない場合は undefined） */
+  readonly negation?: ChainNegation;
+}
@@ -9,3 +9,4 @@
  */
 
 export type { ChainBlock, ChainBlockParams } from "./ChainBlock";
+export type { ChainLink, ChainNegation } from "./ChainLink";
@@ -39,8 +39,8 @@ export interface GameCommandResult extends GameStateUpdateResult {
  * ゲーム操作コマンド
  *
  * プレイヤーによるゲーム操作をオブジェクトとしてカプセル化。
- * - ゲーム操作履歴/リプレイ（将来対応）
- * - Undo/Redo機能（将来対応）
+ * - ゲーム操作履歴/リプレイ（アプリ層で記録・再生）
+ * - Undo/Redo機能（アプリ層で操作前後のスナップショットを保持）
  * - テスト可能なゲームロジック
  * - 関心の分離
  */
@@ -99,6 +99,22 @@ export interface AtomicStep {
   action: (state: GameSnapshot, selectedInstanceIds?: string[]) => GameStateUpdateResult;
 }
 
+/**
+ * 効果処理中の意思決定に対するユーザー回答
+ *
+ * - confirmation: 効果確認の確定
+ * - cardSelection: カード選択の確定
+ * - cardSelectionCancel: カード選択のキャンセル
+ * - chain: チェーン確認（instanceId = null はパス）
+ * - optionalTrigger: 任意誘発効果の発動確認
+ */
+export type InteractionAnswer =
+  | { readonly kind: "confirmation" }
+  | { readonly kind: "cardSelection"; readonly selectedInstanceIds: readonly string[] }
+  | { readonly kind: "cardSelectionCancel" }
+  | { readonly kind: "chain"; readonly instanceId: string | null }
+  | { readonly kind: "optionalTrigger"; readonly activate: boolean };
+
 /**
  * AtomicStep のカード選択設定を解決し、利用可能なカード一覧を返す純粋関数
  *
@@ -4,7 +4,7 @@
  * 特定のタイミングで反応する効果等、フックするためのイベントを定義する。
  */
 
-import type { LocationName } from "$lib/domain/models/Location";
+import type { CardLocationName } from "$lib/domain/models/Location";
 import type { CardInstance } from "$lib/domain/models/Card";
 
 /** イベント種別 */
@@ -13,6 +13,10 @@ export const EVENT_TYPES = [
   "normalSummoned", // モンスターが通常召喚された
   "specialSummoned", // モンスターが特殊召喚された
   "synchroSummoned", // シンクロ召喚に成功した
+  "fusionSummoned", // 融合召喚に成功した
+  "ritualSummoned", // 儀式召喚に成功した
+  "xyzSummoned", // エクシーズ召喚に成功した
+  "linkSummoned", // リンク召喚に成功した
   "cardDestroyed", // カードが破壊された
   "sentToGraveyard", // 墓地へ送られた
   "monsterSentToGraveyard", // モンスターが墓地へ送られた
@@ -49,7 +53,7 @@ export interface GameEvent {
   readonly sourceInstanceId: string;
 
   /** イベント発生時点での発生源カードのゾーン（オプション） */
-  readonly sourceInstanceLocation?: LocationName;
+  readonly sourceInstanceLocation?: CardLocationName;
 
   /** イベントのコンテキスト情報（オプション） */
   readonly context?: EventContext;
@@ -91,4 +95,24 @@ export const GameEvents = {
   synchroSummoned(card: CardInstance): GameEvent {
     return { type: "synchroSummoned", sourceCardId: card.id, sourceInstanceId: card.instanceId };
   },
+
+  /** 融合召喚イベントを生成 */
+  fusionSummoned(card: CardInstance): GameEvent {
+    return { type: "fusionSummoned", sourceCardId: card.id, sourceInstanceId: card.instanceId };
+  },
+
+  /** 儀式召喚イベントを生成 */
+  ritualSummoned(card: CardInstance): GameEvent {
+    return { type: "ritualSummoned", sourceCardId: card.id, sourceInstanceId: card.instanceId };
+  },
+
+  /** エクシーズ召喚イベントを生成 */
+  xyzSummoned(card: CardInstance): GameEvent {
+    return { type: "xyzSummoned", sourceCardId: card.id, sourceInstanceId: card.instanceId };
+  },
+
+  /** リンク召喚イベントを生成 */
+  linkSummoned(card: CardInstance): GameEvent {
+    return { type: "linkSummoned", sourceCardId: card.id, sourceInstanceId: card.instanceId };
+  },
 };
@@ -19,6 +19,7 @@ export const ERROR_CODES = {
   CARD_NOT_FACE_UP: "CARD_NOT_FACE_UP",
   NOT_SPELL_CARD: "NOT_SPELL_CARD",
   NOT_SPELL_OR_TRAP_CARD: "NOT_SPELL_OR_TRAP_CARD",
+  NOT_TRAP_CARD: "NOT_TRAP_CARD",
   NOT_MONSTER_CARD: "NOT_MONSTER_CARD",
 
   // ゾーン関連
@@ -36,7 +37,10 @@ export const ERROR_CODES = {
 
   // 召喚・発動制限
   SUMMON_LIMIT_REACHED: "SUMMON_LIMIT_REACHED",
+  CANNOT_NORMAL_SUMMON: "CANNOT_NORMAL_SUMMON",
   QUICK_PLAY_RESTRICTION: "QUICK_PLAY_RESTRICTION",
+  TRAP_NOT_SET: "TRAP_NOT_SET",
+  TRAP_SET_THIS_TURN: "TRAP_SET_THIS_TURN",
   ACTIVATION_CONDITIONS_NOT_MET: "ACTIVATION_CONDITIONS_NOT_MET",
   NO_IGNITION_EFFECT: "NO_IGNITION_EFFECT",
   EFFECT_NOT_REGISTERED: "EFFECT_NOT_REGISTERED",
@@ -44,11 +48,35 @@ export const ERROR_CODES = {
 
   // フェイズ関連
   PHASE_TRANSITION_NOT_ALLOWED: "PHASE_TRANSITION_NOT_ALLOWED",
+  UNKNOWN_END_PHASE_EFFECT: "UNKNOWN_END_PHASE_EFFECT",
 
   // シンクロ召喚関連
   NOT_SYNCHRO_MONSTER: "NOT_SYNCHRO_MONSTER",
   CARD_NOT_IN_EXTRA_DECK: "CARD_NOT_IN_EXTRA_DECK",
   NO_VALID_SYNCHRO_MATERIALS: "NO_VALID_SYNCHRO_MATERIALS",
+
+  // 融合召喚関連
+  NOT_FUSION_MONSTER: "NOT_FUSION_MONSTER",
+  NO_VALID_FUSION_MATERIALS: "NO_VALID_FUSION_MATERIALS",
+
+  // エクシーズ召喚関連
+  NOT_XYZ_MONSTER: "NOT_XYZ_MONSTER",
+  NO_VALID_XYZ_MATERIALS: "NO_VALID_XYZ_MATERIALS",
+  INSUFFICIENT_XYZ_MATERIALS: "INSUFFICIENT_XYZ_MATERIALS",
+
+  // リンク召喚関連
+  NOT_LINK_MONSTER: "NOT_LINK_MONSTER",
+  NO_VALID_LINK_MATERIALS: "NO_VALID_LINK_MATERIALS",
+  NO_LINK_SUMMON_ZONE: "NO_LINK_SUMMON_ZONE",
+
+  // 儀式召喚関連
+  NOT_RITUAL_MONSTER: "NOT_RITUAL_MONSTER",
+  NO_VALID_RITUAL_TRIBUTES: "NO_VALID_RITUAL_TRIBUTES",
+
+  // バトル関連
+  NOT_BATTLE_PHASE: "NOT_BATTLE_PHASE",
+  NOT_IN_ATTACK_POSITION: "NOT_IN_ATTACK_POSITION",
+  ALREADY_ATTACKED: "ALREADY_ATTACKED",
 } as const;
 
 export type ValidationErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
@@ -74,6 +102,7 @@ const ERROR_MESSAGES: Record<ValidationErrorCode, string> = {
   CARD_NOT_FACE_UP: "カードが表側表示ではありません",
   NOT_SPELL_CARD: "魔法カードではありません",
   NOT_SPELL_OR_TRAP_CARD: "魔法または罠カードではありません",
+  NOT_TRAP_CARD: "罠カードではありません",
   NOT_MONSTER_CARD: "モンスターカードではありません",
 
   // ゾーン関連
@@ -91,7 +120,10 @@ const ERROR_MESSAGES: Record<ValidationErrorCode, string> = {
 
   // 召喚・発動制限
   SUMMON_LIMIT_REACHED: "召喚権がありません",
+  CANNOT_NORMAL_SUMMON: "このモンスターは通常召喚できません",
   QUICK_PLAY_RESTRICTION: "速攻魔法はセットしたターンに発動できません",
+  TRAP_NOT_SET: "罠カードはフィールドにセットしてから発動します",
+  TRAP_SET_THIS_TURN: "罠カードはセットしたターンに発動できません",
   ACTIVATION_CONDITIONS_NOT_MET: "発動条件を満たしていません",
   NO_IGNITION_EFFECT: "このカードには起動効果がありません",
   EFFECT_NOT_REGISTERED: "このカードの効果が登録されていません",
@@ -99,11 +131,35 @@ const ERROR_MESSAGES: Record<ValidationErrorCode, string> = {
 
   // フェイズ関連
   PHASE_TRANSITION_NOT_ALLOWED: "フェイズ遷移が許可されていません",
+  UNKNOWN_END_PHASE_EFFECT: "保留されたエンドフェイズ効果に不明なものがあります",
 
   // シンクロ召喚関連
   NOT_SYNCHRO_MONSTER: "シンクロモンスターではありません",
   CARD_NOT_IN_EXTRA_DECK: "EXデッキにありません",
   NO_VALID_SYNCHRO_MATERIALS: "有効なシンクロ素材がありません",
+
+  // 融合召喚関連
+  NOT_FUSION_MONSTER: "融合モンスターではありません",
+  NO_VALID_FUSION_MATERIALS: "有効な融合素材がありません",
+
+  // エクシーズ召喚関連
+  NOT_XYZ_MONSTER: "エクシーズモンスターではありません",
+  NO_VALID_XYZ_MATERIALS: "有効なエクシーズ素材がありません",
+  INSUFFICIENT_XYZ_MATERIALS: "エクシーズ素材が不足しています",
+
+  // リンク召喚関連
+  NOT_LINK_MONSTER: "リンクモンスターではありません",
+  NO_VALID_LINK_MATERIALS: "有効なリンク素材がありません",
+  NO_LINK_SUMMON_ZONE: "リンクモンスターを出せるモンスターゾーンがありません",
+
+  // 儀式召喚関連
+  NOT_RITUAL_MONSTER: "儀式モンスターではありません",
+  NO_VALID_RITUAL_TRIBUTES: "儀式召喚に必要なリリースができません",
+
+  // バトル関連
+  NOT_BATTLE_PHASE: "バトルフェイズではありません",
+  NOT_IN_ATTACK_POSITION: "表側攻撃表示のモンスターではありません",
+  ALREADY_ATTACKED: "このモンスターはこのターンすでに攻撃しています",
 };
 
 /** 成功した ValidationResult */
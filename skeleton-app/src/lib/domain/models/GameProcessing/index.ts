@@ -12,7 +12,13 @@ export type { EventType, EventContext, GameEvent } from "./GameEvent";
 export type { TimeSnapshot, EventTimeline } from "./EventTimeline";
 export type { ValidationResult, ValidationErrorCode } from "./UpdateValidation";
 export type { GameStateUpdateResult } from "./GameStateUpdate";
-export type { NotificationLevel, InteractionConfig, CardSelectionConfig, AtomicStep } from "./AtomicStep";
+export type {
+  NotificationLevel,
+  InteractionConfig,
+  CardSelectionConfig,
+  AtomicStep,
+  InteractionAnswer,
+} from "./AtomicStep";
 
 import * as ValidationResultFuncs from "./UpdateValidation";
 import * as GameStateUpdateFuncs from "./GameStateUpdate";
@@ -13,9 +13,10 @@
 
 import type { LocationName } from "$lib/domain/models/Location";
 import { Location } from "$lib/domain/models/Location";
-import type { CardInstance, StateOnField } from "$lib/domain/models/Card";
+import type { CardInstance, StateOnField, LinkMarker } from "$lib/domain/models/Card";
 import { Card } from "$lib/domain/models/Card/index";
-import { shuffleArray } from "$lib/shared/utils/arrayUtils";
+import type { RandomState } from "./RandomState";
+import { shuffledWithRandomState } from "./RandomState";
 
 /**
  * CardSpace - カード配置空間モデル
@@ -30,10 +31,17 @@ export type CardSpace = {
 /** 各種ゾーンの最大容量 */
 export const ZONE_CAPACITY = {
   mainMonsterZone: 5,
+  extraMonsterZone: 2,
   spellTrapZone: 5,
   fieldZone: 1,
 } as const;
 
+/** モンスターを置けるゾーンのスロット（EXデッキからの特殊召喚先の指定に使う） */
+export type MonsterZoneSlot = {
+  readonly location: "mainMonsterZone" | "extraMonsterZone";
+  readonly slotIndex: number;
+};
+
 /** ゾーン内の空きスロット番号を昇順で返す（最初の空きスロット = 先頭要素） */
 export const findFirstAvailableSlot = (space: CardSpace, location: LocationName): number => {
   const capacity = ZONE_CAPACITY[location as keyof typeof ZONE_CAPACITY] ?? 1;
@@ -77,6 +85,12 @@ export const isSpellTrapZoneFull = (space: CardSpace, limit: number = ZONE_CAPAC
 export const isFieldZoneFull = (space: CardSpace, limit: number = ZONE_CAPACITY.fieldZone): boolean =>
   isLocationFull(space, "fieldZone", limit);
 
+/** フィールドのモンスター（メインモンスターゾーン・エクストラモンスターゾーン） */
+export const monstersOnField = (space: CardSpace): readonly CardInstance[] => [
+  ...space.mainMonsterZone,
+  ...space.extraMonsterZone,
+];
+
 /** 全てのロケーションからカードインスタンスを検索する */
 export function findCardInstance(space: CardSpace, instanceId: string): CardInstance | undefined {
   for (const location of Object.keys(space) as LocationName[]) {
@@ -99,6 +113,8 @@ export function moveCardInstance(
   updates?: Partial<StateOnField>,
 ): CardSpace {
   const from = card.location;
+  // エクシーズ素材はどのロケーションにも属さない（取り除く場合は detachXyzMaterials を使う）
+  if (Location.isXyzMaterial(from)) return currentSpace;
   const sourceList = currentSpace[from];
 
   // 移動対象カードインスタンスの存在確認
@@ -117,8 +133,11 @@ export function moveCardInstance(
     if (updates?.position === undefined) {
       throw new Error("Position must be specified when placing a card on the field.");
     }
-    // フィールドに出される移動（空きスロットを自動で割り当て）
-    const slotIndex = findFirstAvailableSlot(currentSpace, to);
+    // フィールドに出される移動（スロット指定がなければ空きスロットを自動で割り当て）
+    const slotIndex = updates.slotIndex ?? findFirstAvailableSlot(currentSpace, to);
+    if (currentSpace[to].some((c) => c.stateOnField?.slotIndex === slotIndex)) {
+      throw new Error(`Slot ${slotIndex} in ${to} is already occupied.`);
+    }
     updatedCard = Card.Instance.placedOnField(card, to, slotIndex, updates?.position, updates?.battlePosition);
   } else if (leavingFromField) {
     // フィールドから離れる移動
@@ -157,9 +176,10 @@ export function moveCardInstance(
     [to]: [...currentSpace[to], updatedCard],
   };
 
-  // モンスターがフィールドを離れる場合、装備カードも墓地へ送る
+  // モンスターがフィールドを離れる場合、装備カードとエクシーズ素材も墓地へ送る
   if (leavingFromField && card.type === "monster") {
     resultSpace = sendOrphanedEquipCardsToGraveyard(resultSpace, card.instanceId);
+    resultSpace = sendXyzMaterialsToGraveyard(resultSpace, Card.Instance.xyzMaterials(sourceList[cardIndex]));
   }
 
   return resultSpace;
@@ -171,6 +191,7 @@ export function updateCardStateInPlace(
   card: CardInstance,
   updates: Partial<StateOnField>,
 ): CardSpace {
+  if (Location.isXyzMaterial(card.location)) return currentSpace;
   return moveCardInstance(currentSpace, card, card.location, updates);
 }
 
@@ -192,11 +213,12 @@ export function drawCards(currentSpace: CardSpace, count: number = 1): CardSpace
   return updatedSpace;
 }
 
-/** メインデッキをシャッフルする */
-export function shuffleMainDeck(space: CardSpace): CardSpace {
+/** メインデッキをシャッフルする（乱数状態を消費するため、進めた状態も返す） */
+export function shuffleMainDeck(space: CardSpace, rng: RandomState): { space: CardSpace; rng: RandomState } {
+  const { shuffled, rng: nextRng } = shuffledWithRandomState(space.mainDeck, rng);
   return {
-    ...space,
-    mainDeck: shuffleArray(space.mainDeck),
+    space: { ...space, mainDeck: shuffled },
+    rng: nextRng,
   };
 }
 
@@ -227,3 +249,155 @@ export function sendOrphanedEquipCardsToGraveyard(space: CardSpace, leftMonsterI
 
   return updatedSpace;
 }
+
+/**
+ * フィールドを離れたモンスターのエクシーズ素材を墓地へ送る
+ *
+ * 遊戯王OCGの基本ルール:
+ * エクシーズモンスターがフィールドを離れた場合、エクシーズ素材は墓地へ送られる
+ */
+function sendXyzMaterialsToGraveyard(space: CardSpace, materials: readonly CardInstance[]): CardSpace {
+  if (materials.length === 0) return space;
+  return {
+    ...space,
+    graveyard: [...space.graveyard, ...materials.map((material) => Card.Instance.moved(material, "graveyard"))],
+  };
+}
+
+/**
+ * フィールドのモンスターをエクシーズ素材にするため、モンスターゾーンから取り除く
+ *
+ * 取り除いたカードはフィールド状態を持たない素材として返す（どのゾーンにも移動しない）。
+ * 素材にしたモンスターの装備カードは墓地へ送られ、素材にしたモンスター自身の
+ * エクシーズ素材はそのまま新しい素材として引き継がれる。
+ */
+export function takeXyzMaterialsFromField(
+  space: CardSpace,
+  materialInstanceIds: readonly string[],
+): { space: CardSpace; materials: CardInstance[] } {
+  let updatedSpace = space;
+  const materials: CardInstance[] = [];
+
+  for (const instanceId of materialInstanceIds) {
+    const card = monstersOnField(updatedSpace).find((c) => c.instanceId === instanceId);
+    if (!card) continue;
+
+    const zone = card.location as MonsterZoneSlot["location"];
+    updatedSpace = {
+      ...updatedSpace,
+      [zone]: updatedSpace[zone].filter((c) => c.instanceId !== instanceId),
+    };
+    updatedSpace = sendOrphanedEquipCardsToGraveyard(updatedSpace, instanceId);
+    materials.push(...Card.Instance.xyzMaterials(card), Card.Instance.moved(card, "xyzMaterial"));
+  }
+
+  return { space: updatedSpace, materials };
+}
+
+/** フィールドのモンスターの下にエクシーズ素材を重ねる（素材の位置はエクシーズ素材になる） */
+export function attachXyzMaterials(
+  space: CardSpace,
+  xyzMonsterInstanceId: string,
+  materials: readonly CardInstance[],
+): CardSpace {
+  const xyzMonster = monstersOnField(space).find((card) => card.instanceId === xyzMonsterInstanceId);
+  if (!xyzMonster) {
+    throw new Error(`Xyz monster not found in monster zones: ${xyzMonsterInstanceId}`);
+  }
+  return updateCardStateInPlace(space, xyzMonster, {
+    xyzMaterials: [
+      ...Card.Instance.xyzMaterials(xyzMonster),
+      ...materials.map((material) => Card.Instance.moved(material, "xyzMaterial")),
+    ],
+  });
+}
+
+/** モンスターのエクシーズ素材のうち、指定したものを取り除いて墓地へ送る */
+export function detachXyzMaterials(
+  space: CardSpace,
+  xyzMonsterInstanceId: string,
+  materialInstanceIds: readonly string[],
+): CardSpace {
+  const xyzMonster = monstersOnField(space).find((card) => card.instanceId === xyzMonsterInstanceId);
+  if (!xyzMonster) {
+    throw new Error(`Xyz monster not found in monster zones: ${xyzMonsterInstanceId}`);
+  }
+
+  const materials = Card.Instance.xyzMaterials(xyzMonster);
+  const detached = materials.filter((material) => materialInstanceIds.includes(material.instanceId));
+  const remaining = materials.filter((material) => !materialInstanceIds.includes(material.instanceId));
+
+  const updatedSpace = updateCardStateInPlace(space, xyzMonster, { xyzMaterials: remaining });
+  return sendXyzMaterialsToGraveyard(updatedSpace, detached);
+}
+
+// ===========================
+// リンク
+// ===========================
+
+/**
+ * エクストラモンスターゾーンの各スロットの真下にあるメインモンスターゾーンのスロット番号
+ *
+ * 左のエクストラモンスターゾーンは左から2番目、右は右から2番目のメインモンスターゾーンの上にある。
+ */
+const EXTRA_MONSTER_ZONE_COLUMNS = [1, 3] as const;
+
+/** リンクマーカーが指すマスの相対位置（column: 右が正、row: 下が正） */
+const LINK_MARKER_OFFSETS: Record<LinkMarker, { column: number; row: number }> = {
+  topLeft: { column: -1, row: -1 },
+  top: { column: 0, row: -1 },
+  topRight: { column: 1, row: -1 },
+  left: { column: -1, row: 0 },
+  right: { column: 1, row: 0 },
+  bottomLeft: { column: -1, row: 1 },
+  bottom: { column: 0, row: 1 },
+  bottomRight: { column: 1, row: 1 },
+};
+
+/** モンスターゾーンの行番号（エクストラモンスターゾーンが上段） */
+const MONSTER_ZONE_ROWS = { extraMonsterZone: 0, mainMonsterZone: 1 } as const;
+
+/**
+ * リンクマーカーが指しているメインモンスターゾーンのスロット番号を昇順で返す
+ *
+ * フィールドのリンクモンスター全てのリンクマーカーを対象とする。
+ * 指しているスロットが埋まっているかどうかは問わない。
+ */
+export function getLinkedMainMonsterZoneSlots(space: CardSpace): number[] {
+  const linkedSlots = new Set<number>();
+
+  for (const card of monstersOnField(space)) {
+    if (!Card.isLink(card) || card.stateOnField === undefined) continue;
+
+    const slotIndex = card.stateOnField.slotIndex;
+    const row = MONSTER_ZONE_ROWS[card.location as MonsterZoneSlot["location"]];
+    const column = card.location === "extraMonsterZone" ? EXTRA_MONSTER_ZONE_COLUMNS[slotIndex] : slotIndex;
+
+    for (const marker of card.linkMarkers ?? []) {
+      const offset = LINK_MARKER_OFFSETS[marker];
+      if (row + offset.row !== MONSTER_ZONE_ROWS.mainMonsterZone) continue;
+
+      const targetColumn = column + offset.column;
+      if (targetColumn >= 0 && targetColumn < ZONE_CAPACITY.mainMonsterZone) linkedSlots.add(targetColumn);
+    }
+  }
+
+  return [...linkedSlots].sort((a, b) => a - b);
+}
+
+/**
+ * EXデッキからリンクモンスターを特殊召喚できるスロットを返す（置けない場合は undefined）
+ *
+ * 遊戯王OCGの基本ルール:
+ * - 自分のエクストラモンスターゾーンにモンスターがいなければ、エクストラモンスターゾーンに出せる
+ * - それ以外では、リンクマーカーが指しているメインモンスターゾーンの空きにのみ出せる
+ */
+export function findLinkSummonSlot(space: CardSpace): MonsterZoneSlot | undefined {
+  if (space.extraMonsterZone.length === 0) {
+    return { location: "extraMonsterZone", slotIndex: findFirstAvailableSlot(space, "extraMonsterZone") };
+  }
+
+  const occupied = new Set(space.mainMonsterZone.map((card) => card.stateOnField?.slotIndex));
+  const slotIndex = getLinkedMainMonsterZoneSlots(space).find((slot) => !occupied.has(slot));
+  return slotIndex === undefined ? undefined : { location: "mainMonsterZone", slotIndex };
+}
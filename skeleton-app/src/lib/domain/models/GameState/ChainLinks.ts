@@ -0,0 +1,50 @@
+/**
+ * ChainLinks - 効果処理中のチェーンリンク管理
+ */
+
+import type { ChainBlockParams, ChainLink, ChainNegation } from "$lib/domain/models/Chain";
+
+/** チェーンブロックをチェーンリンクとして積む（チェーン番号は積まれた順に1から振る） */
+export function pushChainLink(currentLinks: readonly ChainLink[], block: ChainBlockParams): readonly ChainLink[] {
+  return [
+    ...currentLinks,
+    {
+      chainNumber: currentLinks.length + 1,
+      effectId: block.effectId,
+      sourceInstanceId: block.sourceInstanceId,
+      sourceCardId: block.sourceCardId,
+      spellSpeed: block.spellSpeed,
+      negation: block.isNegated ? "effect" : undefined,
+    },
+  ];
+}
+
+/** 最後に積まれたチェーンリンク（次に解決されるリンク）を取得する */
+export function getLastChainLink(currentLinks: readonly ChainLink[]): ChainLink | undefined {
+  return currentLinks[currentLinks.length - 1];
+}
+
+/** 最後に積まれたチェーンリンクを取り除く */
+export function popChainLink(currentLinks: readonly ChainLink[]): readonly ChainLink[] {
+  return currentLinks.slice(0, -1);
+}
+
+/**
+ * 指定したチェーン番号のリンクを無効にする
+ *
+ * 既に無効化されているリンクは、最初の無効化の種類のまま変更しない。
+ */
+export function negateChainLink(
+  currentLinks: readonly ChainLink[],
+  chainNumber: number,
+  negation: ChainNegation,
+): readonly ChainLink[] {
+  return currentLinks.map((link) =>
+    link.chainNumber === chainNumber && !link.negation ? { ...link, negation } : link,
+  );
+}
+
+/** 無効化されていないチェーンリンクを取得する */
+export function getActiveChainLinks(currentLinks: readonly ChainLink[]): readonly ChainLink[] {
+  return currentLinks.filter((link) => !link.negation);
+}
@@ -6,16 +6,25 @@
 
 import type { CardData } from "$lib/domain/models/Card";
 import type { EffectId } from "$lib/domain/models/Effect";
+import type { ChainLink } from "$lib/domain/models/Chain";
 import type { CardSpace } from "./CardSpace";
 import type { Player } from "./Player";
 import type { GamePhase } from "./Phase";
 import type { GameResult } from "./GameResult";
 import type { EffectActivationContext } from "./ActivationContext";
+import type { RandomState } from "./RandomState";
 import { shuffleMainDeck, drawCards } from "./CardSpace";
+import { createRandomState } from "./RandomState";
 
 /** 初期ライフポイント */
 export const INITIAL_LP = 8000 as const;
 
+/** 初期手札の枚数 */
+export const INITIAL_HAND_SIZE = 5 as const;
+
+/** 手札枚数制限（エンドフェイズ終了時に、超過分を捨てる） */
+export const HAND_SIZE_LIMIT = 6 as const;
+
 /** 両プレイヤーのライフポイント */
 export type LifePoints = {
   readonly [P in Player]: number;
@@ -26,6 +35,7 @@ export interface GameSnapshot {
   readonly space: CardSpace;
   readonly lp: LifePoints;
   readonly phase: GamePhase;
+  /** ターン数（先攻1ターン目は1、後攻の場合は2から開始する） */
   readonly turn: number;
   readonly result: GameResult;
 
@@ -57,6 +67,28 @@ export interface GameSnapshot {
    * - 例: 無の煉獄、命削りの宝札、等
    */
   readonly queuedEndPhaseEffectIds: readonly string[];
+
+  /**
+   * 乱数状態
+   * - シャッフル・ランダム宣言などの乱数は全てここから生成し、消費後の状態を書き戻す
+   * - 同じシード・同じ操作列からは同じデュエルが再現される
+   */
+  readonly rng: RandomState;
+
+  /**
+   * デッキアウトによる敗北が保留されているか
+   * - デッキのカードが足りずにドローできなかった場合に立てる
+   * - 勝敗判定（checkVictory）で敗北として確定する
+   */
+  readonly deckOutPending?: boolean;
+
+  /**
+   * 効果処理中のチェーンリンク（チェーン1から順）
+   * - チェーンブロックが積まれると追加され、解決のために取り出されると取り除かれる
+   * - 効果処理ステップや発動条件から、現在のチェーンの内容を参照・無効化するために使用
+   * - 効果処理中でない場合は未設定
+   */
+  readonly chainLinks?: readonly ChainLink[];
 }
 
 /** デッキに含まれるカードID群を表す型エイリアス */
@@ -65,11 +97,16 @@ export type InitialDeckCardIds = {
   readonly extraDeckCardIds: readonly number[];
 };
 
-/** 初期デッキ情報からGameSnapshotを生成する */
+/**
+ * 初期デッキ情報からGameSnapshotを生成する
+ *
+ * goingSecond を指定すると、相手（案山子）の1ターン目が終わった後の後攻1ターン目から開始する。
+ * バトルフェイズを行えるため、後攻ワンキルの練習に使う。ドローフェイズのドロー分として初期手札に1枚加える。
+ */
 export function createInitialGameSnapshot(
   initialDeck: InitialDeckCardIds,
   getCardData: (cardId: number) => CardData, // CardDataレジストリをコールバックとして注入
-  options?: { skipShuffle?: boolean; skipInitialDraw?: boolean },
+  options?: { skipShuffle?: boolean; skipInitialDraw?: boolean; seed?: number; goingSecond?: boolean },
 ): GameSnapshot {
   // デッキカードを生成
   const mainDeckCards = initialDeck.mainDeckCardIds.map((cardId, index) => {
@@ -99,6 +136,7 @@ export function createInitialGameSnapshot(
     extraDeck: extraDeckCards,
     hand: [],
     mainMonsterZone: [],
+    extraMonsterZone: [],
     spellTrapZone: [],
     fieldZone: [],
     graveyard: [],
@@ -106,11 +144,15 @@ export function createInitialGameSnapshot(
   };
 
   // デッキをシャッフル（テスト時はスキップ可能）
-  let finalSpace = options?.skipShuffle ? initialSpace : shuffleMainDeck(initialSpace);
+  let finalSpace = initialSpace;
+  let rng = createRandomState(options?.seed);
+  if (!options?.skipShuffle) {
+    ({ space: finalSpace, rng } = shuffleMainDeck(initialSpace, rng));
+  }
 
   // 初期手札をドロー（テスト時はスキップ可能）
   if (!options?.skipInitialDraw) {
-    finalSpace = drawCards(finalSpace, 5);
+    finalSpace = drawCards(finalSpace, options?.goingSecond ? INITIAL_HAND_SIZE + 1 : INITIAL_HAND_SIZE);
   }
 
   return {
@@ -120,7 +162,7 @@ export function createInitialGameSnapshot(
       opponent: INITIAL_LP,
     },
     phase: "draw",
-    turn: 1,
+    turn: options?.goingSecond ? 2 : 1,
     result: {
       isGameOver: false,
     },
@@ -129,9 +171,27 @@ export function createInitialGameSnapshot(
     activatedCardIds: [],
     activationContexts: {},
     queuedEndPhaseEffectIds: [],
+    rng,
   };
 }
 
+/** メインデッキをシャッフルし、乱数状態を進めた新しいゲーム状態を返す */
+export function shuffledMainDeckState(state: GameSnapshot): GameSnapshot {
+  const { space, rng } = shuffleMainDeck(state.space, state.rng);
+  return { ...state, space, rng };
+}
+
+/**
+ * メインデッキから指定枚数ドローした新しいゲーム状態を返す
+ *
+ * デッキの枚数が足りない場合は引けるだけ引き、デッキアウトによる敗北を保留する。
+ */
+export function drawnCardsState(state: GameSnapshot, count: number): GameSnapshot {
+  const drawCount = Math.min(count, state.space.mainDeck.length);
+  const space = drawCount > 0 ? drawCards(state.space, drawCount) : state.space;
+  return drawCount < count ? { ...state, space, deckOutPending: true } : { ...state, space };
+}
+
 /** 発動済みカードIDを追加した新しい配列を返す */
 export function updatedActivatedCardIds(ids: readonly number[], cardId: number): number[] {
   return [...ids, cardId];
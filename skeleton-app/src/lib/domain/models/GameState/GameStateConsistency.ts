@@ -53,19 +53,28 @@ function validateSpace(state: GameSnapshot): ConsistencyAssessment {
   errors.push(...checkRange(state.space.extraDeck.length, 0, 15, "Extra Deck size"));
   errors.push(...checkRange(state.space.hand.length, 0, 99, "Hand size"));
   errors.push(...checkRange(state.space.mainMonsterZone.length, 0, 5, "Main Monster Zone size"));
+  errors.push(...checkRange(state.space.extraMonsterZone.length, 0, 2, "Extra Monster Zone size"));
   errors.push(...checkRange(state.space.spellTrapZone.length, 0, 5, "Spell/Trap Zone size"));
   errors.push(...checkRange(state.space.fieldZone.length, 0, 1, "Field Zone size"));
 
+  // モンスターゾーンのモンスターに重ねられているエクシーズ素材
+  const xyzMaterials = [...state.space.mainMonsterZone, ...state.space.extraMonsterZone].flatMap(
+    (card) => card.stateOnField?.xyzMaterials ?? [],
+  );
+
   // 全ゾーンにわたるインスタンスIDの重複チェック
   const allInstances = [
     ...state.space.mainDeck,
     ...state.space.extraDeck,
     ...state.space.hand,
     ...state.space.mainMonsterZone,
+    ...state.space.extraMonsterZone,
     ...state.space.spellTrapZone,
     ...state.space.fieldZone,
     ...state.space.graveyard,
     ...state.space.banished,
+    // エクシーズ素材はゾーンに属さないが、インスタンスIDは全体で一意である必要がある
+    ...xyzMaterials,
   ];
   const instanceIds = allInstances.map((card) => card.instanceId);
   const duplicates = instanceIds.filter((id, index) => instanceIds.indexOf(id) !== index);
@@ -84,8 +93,10 @@ function validateSpace(state: GameSnapshot): ConsistencyAssessment {
   errors.push(...checkZoneLocation(state.space.extraDeck, "extraDeck"));
   errors.push(...checkZoneLocation(state.space.hand, "hand"));
   errors.push(...checkZoneLocation(state.space.mainMonsterZone, "mainMonsterZone"));
+  errors.push(...checkZoneLocation(state.space.extraMonsterZone, "extraMonsterZone"));
   errors.push(...checkZoneLocation(state.space.spellTrapZone, "spellTrapZone"));
   errors.push(...checkZoneLocation(state.space.fieldZone, "fieldZone"));
+  errors.push(...checkZoneLocation(xyzMaterials, "xyzMaterial"));
   errors.push(...checkZoneLocation(state.space.graveyard, "graveyard"));
   errors.push(...checkZoneLocation(state.space.banished, "banished"));
 
@@ -156,13 +167,28 @@ function validateResult(state: GameSnapshot): ConsistencyAssessment {
   return assessment(errors);
 }
 
+/** 乱数状態の整合性をチェックする */
+function validateRandomState(state: GameSnapshot): ConsistencyAssessment {
+  const errors: string[] = [];
+
+  if (!state.rng) {
+    errors.push("Random state is not set");
+  } else {
+    errors.push(...checkRange(state.rng.seed, 0, 0xffffffff, "Random seed"));
+    errors.push(...checkRange(state.rng.state, 0, 0xffffffff, "Random state"));
+  }
+
+  return assessment(errors);
+}
+
 /** GameState 全体の整合性をチェックする */
 function validateGameState(state: GameSnapshot): ConsistencyAssessment {
   return validateSpace(state)
     .and(validateLifePoints(state))
     .and(validatePhase(state))
     .and(validateTurn(state))
-    .and(validateResult(state));
+    .and(validateResult(state))
+    .and(validateRandomState(state));
 }
 
 /**
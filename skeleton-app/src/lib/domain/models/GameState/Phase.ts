@@ -1,46 +1,68 @@
 /**
  * Phase - 各種フェイズ
  *
- * 先行1ターン目のフェイズ進行のみをスコープとする。
+ * 1ターン分のフェイズ進行をスコープとする。
+ * バトルフェイズ・メインフェイズ2は任意で、メインフェイズ1から直接エンドフェイズに進むこともできる。
+ * エンドフェイズからは、相手（案山子）の何もしないターンを経て自分の次のターンのドローフェイズに進む。
  */
 
 /** 全フェイズの順序付き配列 */
-export const GAME_PHASES = ["draw", "standby", "main1", "end"] as const;
+export const GAME_PHASES = ["draw", "standby", "main1", "battle", "main2", "end"] as const;
 export type GamePhase = (typeof GAME_PHASES)[number];
 
 /** 各フェイズの日本語名 */
 const PHASE_NAMES: Record<GamePhase, string> = {
   draw: "ドローフェイズ",
   standby: "スタンバイフェイズ",
-  main1: "メインフェイズ",
+  main1: "メインフェイズ1",
+  battle: "バトルフェイズ",
+  main2: "メインフェイズ2",
   end: "エンドフェイズ",
 } as const;
 
+/** 各フェイズから遷移できるフェイズ（先頭が既定の遷移先、エンドフェイズからは次のターン） */
+const PHASE_TRANSITIONS: Record<GamePhase, readonly GamePhase[]> = {
+  draw: ["standby"],
+  standby: ["main1"],
+  main1: ["battle", "end"],
+  battle: ["main2", "end"],
+  main2: ["end"],
+  end: ["draw"],
+} as const;
+
 /** フェイズの日本語表示名 */
 export const getPhaseDisplayName = (phase: GamePhase): string => {
   return PHASE_NAMES[phase];
 };
 
-/** 次のフェイズ */
-export const getNextPhase = (currentPhase: GamePhase): GamePhase => {
-  const currentIndex = GAME_PHASES.indexOf(currentPhase);
-  if (currentIndex === -1 || currentIndex === GAME_PHASES.length - 1) {
-    return "end";
-  }
-  return GAME_PHASES[currentIndex + 1];
+/** バトルフェイズを行えるターンか（先攻1ターン目はバトルフェイズを行えない） */
+export const canConductBattlePhase = (turn: number): boolean => {
+  return turn > 1;
+};
+
+/** 遷移できるフェイズ一覧 */
+export const getNextPhaseCandidates = (currentPhase: GamePhase, turn: number = 1): GamePhase[] => {
+  const candidates = PHASE_TRANSITIONS[currentPhase] ?? ["end"];
+  return candidates.filter((phase) => phase !== "battle" || canConductBattlePhase(turn));
+};
+
+/** 次のフェイズ（既定の遷移先） */
+export const getNextPhase = (currentPhase: GamePhase, turn: number = 1): GamePhase => {
+  return getNextPhaseCandidates(currentPhase, turn)[0];
 };
 
 /** フェイズ遷移が有効か */
 export const validatePhaseTransition = (
   currentPhase: GamePhase,
   nextPhase: GamePhase,
+  turn: number = 1,
 ): { valid: boolean; error?: string } => {
-  const expectedNext = getNextPhase(currentPhase);
+  const candidates = getNextPhaseCandidates(currentPhase, turn);
 
-  if (nextPhase !== expectedNext) {
+  if (!candidates.includes(nextPhase)) {
     return {
       valid: false,
-      error: `Invalid phase transition: ${currentPhase} → ${nextPhase}. Expected: ${expectedNext}`,
+      error: `Invalid phase transition: ${currentPhase} → ${nextPhase}. Expected: ${candidates.join(" or ")}`,
     };
   }
 
@@ -49,10 +71,20 @@ export const validatePhaseTransition = (
 
 /** メインフェイズかどうか */
 export const isMainPhase = (phase: GamePhase): boolean => {
-  return phase === "main1";
+  return phase === "main1" || phase === "main2";
+};
+
+/** バトルフェイズかどうか */
+export const isBattlePhase = (phase: GamePhase): boolean => {
+  return phase === "battle";
 };
 
 /** エンドフェイズかどうか */
 export const isEndPhase = (phase: GamePhase): boolean => {
   return phase === "end";
 };
+
+/** 次のターンに移るフェイズ遷移か（エンドフェイズ → 次のターンのドローフェイズ） */
+export const isTurnTransition = (currentPhase: GamePhase, nextPhase: GamePhase): boolean => {
+  return currentPhase === "end" && nextPhase === "draw";
+};
@@ -0,0 +1,43 @@
+/**
+ * RandomState - ゲーム内乱数の状態
+ *
+ * デッキシャッフルやランダム宣言など、ゲーム中の乱数はすべてこの状態から生成する。
+ * GameSnapshot に内包して保存・復元されるため、同じシードからは同じデュエルを再現できる。
+ */
+
+import { nextRandom, normalizeSeed, generateRandomSeed } from "$lib/shared/utils/randomUtils";
+import { shuffleArray } from "$lib/shared/utils/arrayUtils";
+
+/** シード付き乱数の状態 */
+export interface RandomState {
+  /** ゲーム開始時のシード値（共有・リプレイ用） */
+  readonly seed: number;
+  /** 次の乱数生成に使う内部状態 */
+  readonly state: number;
+}
+
+/** シードから乱数状態を生成する（省略時はランダムなシード） */
+export function createRandomState(seed?: number): RandomState {
+  const normalized = normalizeSeed(seed ?? generateRandomSeed());
+  return { seed: normalized, state: normalized };
+}
+
+/** [min, max] の範囲の整数を生成し、進めた乱数状態と共に返す */
+export function nextRandomInt(rng: RandomState, min: number, max: number): { value: number; rng: RandomState } {
+  const { value, nextState } = nextRandom(rng.state);
+  return {
+    value: Math.floor(value * (max - min + 1)) + min,
+    rng: { ...rng, state: nextState },
+  };
+}
+
+/** 配列をシャッフルし、進めた乱数状態と共に返す */
+export function shuffledWithRandomState<T>(array: readonly T[], rng: RandomState): { shuffled: T[]; rng: RandomState } {
+  let current = rng.state;
+  const shuffled = shuffleArray(array, () => {
+    const { value, nextState } = nextRandom(current);
+    current = nextState;
+    return value;
+  });
+  return { shuffled, rng: { ...rng, state: current } };
+}
@@ -27,8 +27,9 @@ const checkExodiaVictory = (state: GameSnapshot): boolean => {
  *
  * 1. 特殊勝利条件
  *   - エクゾディア
- * 2. ライフポイント0
- * 3. デッキアウト（未実装）
+ * 2. 引き分け（双方が同時に敗北条件を満たした）
+ * 3. ライフポイント0
+ * 4. デッキアウト（ドローできなかった）
  */
 const checkedVictoryResult = (state: GameSnapshot): GameResult => {
   // 1. 特殊勝利条件のチェック
@@ -42,7 +43,20 @@ const checkedVictoryResult = (state: GameSnapshot): GameResult => {
     };
   }
 
-  // 2. ライフポイント0のチェック
+  // 2. 引き分けのチェック
+  // 例: 互いにダメージを与える効果で、双方のLPが同時に0になった場合
+  const isPlayerDefeated = state.lp.player <= 0 || state.deckOutPending === true;
+  const isOpponentDefeated = state.lp.opponent <= 0;
+  if (isPlayerDefeated && isOpponentDefeated) {
+    return {
+      isGameOver: true,
+      winner: "draw",
+      reason: state.lp.player <= 0 ? "lp0" : "deckout",
+      message: `双方が同時に敗北条件を満たしました。引き分けです。`,
+    };
+  }
+
+  // 3. ライフポイント0のチェック
   if (state.lp.player <= 0) {
     return {
       isGameOver: true,
@@ -60,8 +74,16 @@ const checkedVictoryResult = (state: GameSnapshot): GameResult => {
     };
   }
 
-  // 3. デッキアウトのチェック
-  // TODO: 実装箇所を要検討。現状発生しないので後回し
+  // 4. デッキアウトのチェック
+  // ドロー時にデッキのカードが足りなかった場合に保留された敗北を確定する
+  if (state.deckOutPending) {
+    return {
+      isGameOver: true,
+      winner: "opponent",
+      reason: "deckout",
+      message: `デッキからカードをドローできませんでした。敗北です。`,
+    };
+  }
 
   // ゲーム進行中
   return {
@@ -13,9 +13,10 @@
 export type { GameSnapshot, InitialDeckCardIds } from "./GameSnapshot";
 export type { Player } from "./Player";
 export type { GamePhase } from "./Phase";
-export type { GameResult } from "./GameResult";
-export type { CardSpace } from "./CardSpace";
+export type { GameResult, ResultReason } from "./GameResult";
+export type { CardSpace, MonsterZoneSlot } from "./CardSpace";
 export type { EffectActivationContext } from "./ActivationContext";
+export type { RandomState } from "./RandomState";
 
 import * as GameSnapshotFuncs from "./GameSnapshot";
 import * as GameStateConsistencyFuncs from "./GameStateConsistency";
@@ -23,6 +24,8 @@ import * as GameStateVictoryFuncs from "./VictoryCondition";
 import * as PhaseFuncs from "./Phase";
 import * as CardSpaceFuncs from "./CardSpace";
 import * as ActivationContextFuncs from "./ActivationContext";
+import * as RandomStateFuncs from "./RandomState";
+import * as ChainLinksFuncs from "./ChainLinks";
 
 /* GameState 名前空間
  *
@@ -31,14 +34,20 @@ import * as ActivationContextFuncs from "./ActivationContext";
 export const GameState = {
   initialize: GameSnapshotFuncs.createInitialGameSnapshot,
   updatedActivatedCardIds: GameSnapshotFuncs.updatedActivatedCardIds,
+  shuffleMainDeck: GameSnapshotFuncs.shuffledMainDeckState,
+  draw: GameSnapshotFuncs.drawnCardsState,
   assert: GameStateConsistencyFuncs.assertValidGameState,
   checkVictory: GameStateVictoryFuncs.checkedVictoryState,
 
   Phase: {
     displayName: PhaseFuncs.getPhaseDisplayName,
     next: PhaseFuncs.getNextPhase,
+    nextCandidates: PhaseFuncs.getNextPhaseCandidates,
+    canConductBattle: PhaseFuncs.canConductBattlePhase,
     isMain: PhaseFuncs.isMainPhase,
+    isBattle: PhaseFuncs.isBattlePhase,
     isEnd: PhaseFuncs.isEndPhase,
+    isTurnTransition: PhaseFuncs.isTurnTransition,
     changeable: PhaseFuncs.validatePhaseTransition,
   },
 
@@ -49,12 +58,24 @@ export const GameState = {
     isMainMonsterZoneFull: CardSpaceFuncs.isMainMonsterZoneFull,
     isSpellTrapZoneFull: CardSpaceFuncs.isSpellTrapZoneFull,
     isFieldZoneFull: CardSpaceFuncs.isFieldZoneFull,
+    monstersOnField: CardSpaceFuncs.monstersOnField,
     findCard: CardSpaceFuncs.findCardInstance,
     moveCard: CardSpaceFuncs.moveCardInstance,
     updateCardStateInPlace: CardSpaceFuncs.updateCardStateInPlace,
     drawCards: CardSpaceFuncs.drawCards,
     shuffleMainDeck: CardSpaceFuncs.shuffleMainDeck,
     sendExistingFieldSpellToGraveyard: CardSpaceFuncs.sendExistingFieldSpellToGraveyard,
+    takeXyzMaterialsFromField: CardSpaceFuncs.takeXyzMaterialsFromField,
+    attachXyzMaterials: CardSpaceFuncs.attachXyzMaterials,
+    detachXyzMaterials: CardSpaceFuncs.detachXyzMaterials,
+    linkedMainMonsterZoneSlots: CardSpaceFuncs.getLinkedMainMonsterZoneSlots,
+    findLinkSummonSlot: CardSpaceFuncs.findLinkSummonSlot,
+  },
+
+  Random: {
+    create: RandomStateFuncs.createRandomState,
+    nextInt: RandomStateFuncs.nextRandomInt,
+    shuffled: RandomStateFuncs.shuffledWithRandomState,
   },
 
   ActivationContext: {
@@ -68,4 +89,12 @@ export const GameState = {
     getDeclaredInteger: ActivationContextFuncs.getDeclaredInteger,
     clear: ActivationContextFuncs.clearActivationContext,
   },
+
+  Chain: {
+    push: ChainLinksFuncs.pushChainLink,
+    last: ChainLinksFuncs.getLastChainLink,
+    pop: ChainLinksFuncs.popChainLink,
+    negate: ChainLinksFuncs.negateChainLink,
+    activeLinks: ChainLinksFuncs.getActiveChainLinks,
+  },
 };
@@ -8,7 +8,7 @@
  * - ゲーム内のカード空間（CardSpace）が管理する各種 Location マップ
  */
 
-export const FIELD_LOCATIONS = ["mainMonsterZone", "spellTrapZone", "fieldZone"] as const;
+export const FIELD_LOCATIONS = ["mainMonsterZone", "extraMonsterZone", "spellTrapZone", "fieldZone"] as const;
 export type FieldLocationName = (typeof FIELD_LOCATIONS)[number];
 
 export const DECK_LOCATIONS = ["mainDeck", "extraDeck"] as const;
@@ -20,27 +20,38 @@ export type OtherLocationName = (typeof OTHER_LOCATIONS)[number];
 /** 全ロケーション名 */
 export type LocationName = FieldLocationName | DeckLocationName | OtherLocationName;
 
+/** エクシーズ素材として重ねられている（どのロケーションにも属さない）カードの位置 */
+export const XYZ_MATERIAL_LOCATION = "xyzMaterial" as const;
+
+/** カード1枚の位置（ロケーションに加え、エクシーズ素材として重ねられている状態を含む） */
+export type CardLocationName = LocationName | typeof XYZ_MATERIAL_LOCATION;
+
 /** 指定ロケーションがフィールドかどうか */
-export const isFieldLocation = (locationName: LocationName): boolean => {
+export const isFieldLocation = (locationName: CardLocationName): boolean => {
   return (FIELD_LOCATIONS as readonly string[]).includes(locationName);
 };
 
 /** 指定ロケーションがデッキかどうか */
-export const isDeckLocation = (locationName: LocationName): boolean => {
+export const isDeckLocation = (locationName: CardLocationName): boolean => {
   return (DECK_LOCATIONS as readonly string[]).includes(locationName);
 };
 
 /** 指定ロケーションが手札かどうか */
-export const isHandLocation = (locationName: LocationName): boolean => {
+export const isHandLocation = (locationName: CardLocationName): boolean => {
   return locationName === "hand";
 };
 
 /** 指定ロケーションが墓地かどうか */
-export const isGraveyardLocation = (locationName: LocationName): boolean => {
+export const isGraveyardLocation = (locationName: CardLocationName): boolean => {
   return locationName === "graveyard";
 };
 
 /** 指定ロケーションが除外ゾーンかどうか */
-export const isBanishedLocation = (locationName: LocationName): boolean => {
+export const isBanishedLocation = (locationName: CardLocationName): boolean => {
   return locationName === "banished";
 };
+
+/** 指定位置がエクシーズ素材かどうか */
+export const isXyzMaterialLocation = (locationName: CardLocationName): locationName is typeof XYZ_MATERIAL_LOCATION => {
+  return locationName === XYZ_MATERIAL_LOCATION;
+};
@@ -10,7 +10,13 @@
  * @see {@link docs/domain/overview.md}
  */
 
-export type { LocationName, FieldLocationName, DeckLocationName, OtherLocationName } from "./LocationName";
+export type {
+  LocationName,
+  FieldLocationName,
+  DeckLocationName,
+  OtherLocationName,
+  CardLocationName,
+} from "./LocationName";
 
 import * as LocationsNameFuncs from "./LocationName";
 
@@ -29,4 +35,5 @@ export const Location = {
   isHand: LocationsNameFuncs.isHandLocation,
   isGraveyard: LocationsNameFuncs.isGraveyardLocation,
   isBanished: LocationsNameFuncs.isBanishedLocation,
+  isXyzMaterial: LocationsNameFuncs.isXyzMaterialLocation,
 } as const;
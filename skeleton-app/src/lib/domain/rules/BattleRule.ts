@@ -0,0 +1,107 @@
+/**
+ * BattleRule - バトルルール
+ *
+ * 相手は案山子（フィールドにカードを置かず、何もしないプレイヤー）として扱うため、
+ * 攻撃は常に相手プレイヤーへの直接攻撃となる。
+ *
+ * @module domain/rules/BattleRule
+ */
+
+import { Card } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { ValidationResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { AdditionalRuleRegistry } from "$lib/domain/effects/rules/AdditionalRuleRegistry";
+
+// ===========================
+// 攻撃判定
+// ===========================
+
+/**
+ * モンスターが攻撃可能かをチェックする
+ *
+ * チェック項目:
+ * 1. バトルフェイズであること
+ * 2. 指定カードがフィールドのモンスターであること
+ * 3. 表側攻撃表示であること
+ * 4. このターンにまだ攻撃していないこと
+ */
+export function canAttack(state: GameSnapshot, cardInstanceId: string): ValidationResult {
+  // 1. バトルフェイズであること
+  if (!GameState.Phase.isBattle(state.phase)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_BATTLE_PHASE);
+  }
+
+  // 2. 指定カードがフィールドのモンスターであること
+  const cardInstance = GameState.Space.findCard(state.space, cardInstanceId);
+  if (!cardInstance) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_FOUND);
+  }
+  if (!GameState.Space.monstersOnField(state.space).some((card) => card.instanceId === cardInstanceId)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_ON_FIELD);
+  }
+
+  // 3. 表側攻撃表示であること
+  if (!Card.Instance.isFaceUp(cardInstance) || !Card.Instance.isAttackPosition(cardInstance)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_IN_ATTACK_POSITION);
+  }
+
+  // 4. このターンにまだ攻撃していないこと
+  if (cardInstance.stateOnField?.attackedThisTurn) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.ALREADY_ATTACKED);
+  }
+
+  return GameProcessing.Validation.success();
+}
+
+// ===========================
+// ダメージ計算
+// ===========================
+
+/**
+ * 攻撃力変更（StatusModifier）ルールを適用した後の攻撃力を取得する
+ *
+ * フィールドで適用中の StatusModifier ルールを順に apply() し、書き換え後のカードの攻撃力を返す。
+ */
+export function getCurrentAttack(state: GameSnapshot, cardInstanceId: string): number {
+  const modifiedState = AdditionalRuleRegistry.collectActiveRules(state, "StatusModifier").reduce(
+    (currentState, rule) => rule.apply?.(currentState) ?? currentState,
+    state,
+  );
+  const cardInstance = GameState.Space.findCard(modifiedState.space, cardInstanceId);
+  return Math.max(0, cardInstance?.attack ?? 0);
+}
+
+// ===========================
+// 攻撃実行
+// ===========================
+
+/**
+ * 相手プレイヤーへ直接攻撃する
+ *
+ * 処理フロー:
+ * 1. 攻撃モンスターを攻撃済みにする
+ * 2. 攻撃力分の戦闘ダメージを相手に与える
+ *
+ * Note: 勝敗判定はコマンド結果の構築時に行われる
+ */
+export function performDirectAttack(
+  state: GameSnapshot,
+  cardInstanceId: string,
+): { state: GameSnapshot; damage: number; message: string } {
+  const attacker = GameState.Space.findCard(state.space, cardInstanceId)!;
+  const damage = getCurrentAttack(state, cardInstanceId);
+
+  const updatedState: GameSnapshot = {
+    ...state,
+    space: GameState.Space.updateCardStateInPlace(state.space, attacker, { attackedThisTurn: true }),
+    lp: { ...state.lp, opponent: Math.max(0, state.lp.opponent - damage) },
+  };
+
+  return {
+    state: updatedState,
+    damage,
+    message: `${Card.nameWithBrackets(attacker)}の直接攻撃！相手に${damage}の戦闘ダメージを与えました`,
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * ChainNegationRule - チェーンの無効化ルール
+ *
+ * 無効化されたチェーンリンクは、解決時に効果処理（resolutionSteps）を実行しない。
+ * 代わりに、発動した魔法・罠カードの後処理（墓地へ送る）のみを行う。
+ *
+ * @module domain/rules/ChainNegationRule
+ */
+
+import { Card } from "$lib/domain/models/Card";
+import type { CardInstance } from "$lib/domain/models/Card";
+import type { ChainBlockParams, ChainLink, ChainNegation } from "$lib/domain/models/Chain";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { AtomicStep } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { sendToGraveyardStep } from "$lib/domain/dsl/steps/builders/discards";
+
+const NEGATION_NAMES: Record<ChainNegation, string> = {
+  activation: "発動",
+  effect: "効果",
+};
+
+// 効果が無効になってもフィールドに残り続けるカードか（永続魔法・フィールド魔法・永続罠）
+const remainsOnFieldWhenEffectNegated = (card: CardInstance): boolean =>
+  Card.isContinuousSpell(card) || Card.isFieldSpell(card) || (Card.isTrap(card) && card.trapType === "continuous");
+
+// 無効化されたチェーンリンクの発動元カードを墓地へ送る必要があるか
+const shouldSendToGraveyard = (card: CardInstance, negation: ChainNegation): boolean => {
+  if (!Card.isSpell(card) && !Card.isTrap(card)) return false;
+  if (card.location !== "spellTrapZone" && card.location !== "fieldZone") return false;
+  return negation === "activation" || !remainsOnFieldWhenEffectNegated(card);
+};
+
+/**
+ * 無効化されたチェーンリンクの解決時に実行するステップを構築する
+ *
+ * 処理内容:
+ * 1. 無効化された旨を通知する
+ * 2. 魔法・罠カードの発動が無効になった場合、そのカードを墓地へ送る
+ *    （効果のみが無効になった場合は、フィールドに残り続けるカード以外を墓地へ送る）
+ *
+ * Note: モンスター効果が無効になった場合、モンスター自体には何もしない
+ *
+ * @param state - 解決時点のゲーム状態
+ * @param link - 無効化されたチェーンリンク
+ * @param negation - 無効化の種類
+ */
+export function buildNegatedResolutionSteps(
+  state: GameSnapshot,
+  link: ChainLink,
+  negation: ChainNegation,
+): AtomicStep[] {
+  const sourceCard = GameState.Space.findCard(state.space, link.sourceInstanceId);
+  const sourceName = sourceCard ? Card.nameWithBrackets(sourceCard) : "";
+
+  // 1. 無効化の通知
+  const notificationStep: AtomicStep = {
+    id: `chain-${link.chainNumber}-negated`,
+    sourceCardId: link.sourceCardId,
+    summary: `${NEGATION_NAMES[negation]}の無効`,
+    description: `チェーン${link.chainNumber}の${sourceName}の${NEGATION_NAMES[negation]}は無効になりました`,
+    notificationLevel: "static",
+    action: (currentState) =>
+      GameProcessing.Result.success(currentState, `Chain link ${link.chainNumber} was negated (${negation})`),
+  };
+
+  // 2. 発動元の魔法・罠カードの後処理
+  if (!sourceCard || !shouldSendToGraveyard(sourceCard, negation)) {
+    return [notificationStep];
+  }
+  return [notificationStep, sendToGraveyardStep(sourceCard.instanceId, sourceCard.jaName)];
+}
+
+/**
+ * チェーンブロックの解決時に実行するステップを取得する
+ *
+ * チェーンリンク（またはチェーンブロック自体）が無効化されている場合は、
+ * resolutionSteps の代わりに無効化時の後処理ステップを返す。
+ *
+ * @param state - 解決時点のゲーム状態（解決するチェーンリンクは取り除き済み）
+ * @param block - 解決するチェーンブロック
+ * @param link - 解決するチェーンブロックに対応するチェーンリンク
+ */
+export function buildChainBlockResolutionSteps(
+  state: GameSnapshot,
+  block: ChainBlockParams,
+  link: ChainLink | undefined,
+): AtomicStep[] {
+  const negation = link?.negation ?? (block.isNegated ? "effect" : undefined);
+  if (link && negation) {
+    return buildNegatedResolutionSteps(state, link, negation);
+  }
+  return block.isNegated ? [] : block.resolutionSteps;
+}
@@ -0,0 +1,488 @@
+/**
+ * EffectProcessingRule - 効果処理の進行ルール
+ *
+ * 発動時処理 → 誘発効果の収集 → チェーン構築 → LIFO 解決の手順で AtomicStep を1つずつ進める純粋関数群。
+ * ユーザーの意思決定が必要な箇所では処理を止めて意思決定を返し、回答を受けて再開する。
+ *
+ * effectQueueStore / chainStackStore（実際のプレイ）と ComboSolver（探索）の両方がこのルールで効果処理を進める。
+ *
+ * @module domain/rules/EffectProcessingRule
+ * @see {@link docs/domain/chain-system.md}
+ */
+
+import type { CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type {
+  AtomicStep,
+  CardSelectionConfig,
+  GameEvent,
+  GameStateUpdateResult,
+  InteractionAnswer,
+} from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import type { ChainBlock, ChainBlockParams } from "$lib/domain/models/Chain";
+import type { ChainableAction } from "$lib/domain/models/Effect";
+import { ChainableActionRegistry } from "$lib/domain/effects/actions";
+import { AdditionalRuleRegistry } from "$lib/domain/effects/rules";
+import { placeCardForActivation } from "$lib/domain/rules/ActivationRule";
+import { buildChainBlockResolutionSteps } from "$lib/domain/rules/ChainNegationRule";
+import { isThenMarker } from "$lib/domain/dsl/steps/builders/timing";
+
+// =============================================================================
+// チェーンスタック
+// =============================================================================
+
+/** チェーンスタックの状態 */
+export interface ChainStack {
+  /** チェーン構築中かどうか */
+  readonly isBuilding: boolean;
+
+  /** チェーンスタック（LIFO で解決） */
+  readonly stack: readonly ChainBlock[];
+
+  /** 現在のチェーン番号（次に積まれるブロックの番号） */
+  readonly currentChainNumber: number;
+
+  /** 最後に積まれた ChainBlock のスペルスピード */
+  readonly lastSpellSpeed: 1 | 2 | 3 | null;
+}
+
+export const EMPTY_CHAIN_STACK: ChainStack = {
+  isBuilding: false,
+  stack: [],
+  currentChainNumber: 0,
+  lastSpellSpeed: null,
+};
+
+/** チェーン構築を開始する */
+export function startChain(chain: ChainStack): ChainStack {
+  return { ...chain, isBuilding: true, currentChainNumber: 1 };
+}
+
+/** ChainBlock をスタックに追加する */
+export function pushChainBlock(chain: ChainStack, params: ChainBlockParams): ChainStack {
+  const chainBlock: ChainBlock = { ...params, chainNumber: chain.currentChainNumber };
+  return {
+    ...chain,
+    stack: [...chain.stack, chainBlock],
+    currentChainNumber: chain.currentChainNumber + 1,
+    lastSpellSpeed: params.spellSpeed,
+  };
+}
+
+/** チェーン構築を終了し、解決フェーズへ移行する */
+export function endChainBuilding(chain: ChainStack): ChainStack {
+  return { ...chain, isBuilding: false };
+}
+
+/** 指定のスペルスピードでチェーン可能か判定する */
+export function canChain(chain: ChainStack, spellSpeed: 1 | 2 | 3): boolean {
+  // チェーン構築中でない場合、SS1 以上なら新規チェーン開始可能
+  if (!chain.isBuilding) {
+    return spellSpeed >= 1;
+  }
+
+  // チェーン構築中の場合、前のスペルスピード以上が必要
+  return spellSpeed >= (chain.lastSpellSpeed ?? 1);
+}
+
+/** チェーンに必要なスペルスピード下限を取得する */
+export function getRequiredSpellSpeed(chain: ChainStack): 1 | 2 | 3 {
+  // チェーン 1（スタックが空）: SS1 以上が候補
+  if (chain.stack.length === 0) {
+    return 1;
+  }
+  // チェーン 2 以降: 最低 SS2、かつ直前の spellSpeed 以上
+  // - SS1 はチェーン 1 にしか置けない
+  // - SS3（カウンター罠）には SS3 でしかチェーンできない
+  // TODO: 同時に誘発した効果（SEGOC: Simultaneous Effects Go On Chain）対応
+  // SEGOC 中は SS1 の誘発効果を連続して積める例外がある
+  return Math.max(2, chain.lastSpellSpeed ?? 2) as 2 | 3;
+}
+
+/** スタックに積まれているインスタンスIDのセットを取得する */
+export function getStackedInstanceIds(chain: ChainStack): Set<string> {
+  return new Set(chain.stack.map((block) => block.sourceInstanceId));
+}
+
+// =============================================================================
+// 効果処理の状態
+// =============================================================================
+
+/** チェーン発動できるカードと効果 */
+export interface ChainableCandidate {
+  readonly instance: CardInstance;
+  readonly action: ChainableAction;
+}
+
+/** 任意誘発効果（発動するとステップ列を実行し、チェーンブロックを積む場合がある） */
+export interface OptionalTrigger {
+  readonly instance: CardInstance;
+  readonly steps: readonly AtomicStep[];
+  readonly chainBlock?: ChainBlockParams;
+}
+
+/**
+ * 効果処理中のユーザーの意思決定
+ *
+ * - confirmation: 効果の確認
+ * - cardSelection: カード選択
+ * - optionalTrigger: 任意誘発効果を発動するか
+ * - chain: チェーン発動するか（パスを含む）
+ */
+export type EffectProcessingDecision =
+  | { readonly kind: "confirmation"; readonly step: AtomicStep }
+  | {
+      readonly kind: "cardSelection";
+      readonly step: AtomicStep;
+      readonly config: CardSelectionConfig;
+      readonly availableCards: readonly CardInstance[];
+    }
+  | { readonly kind: "optionalTrigger"; readonly trigger: OptionalTrigger }
+  | { readonly kind: "chain"; readonly chainableCards: readonly ChainableCandidate[] };
+
+// 収集中の誘発効果（任意効果は1件ずつ意思決定を求める）
+interface PendingTriggers {
+  readonly mandatorySteps: readonly AtomicStep[];
+  readonly optionalTriggers: readonly OptionalTrigger[];
+  readonly acceptedSteps: readonly AtomicStep[];
+}
+
+/** 効果処理ステップキューの状態 */
+export interface EffectQueue {
+  /** これから実行するステップ */
+  readonly steps: readonly AtomicStep[];
+  /** 回答待ちの意思決定（null = なし） */
+  readonly decision: EffectProcessingDecision | null;
+  /** 収集中の誘発効果（任意効果の回答待ち） */
+  readonly triggers: PendingTriggers | null;
+}
+
+export const EMPTY_EFFECT_QUEUE: EffectQueue = { steps: [], decision: null, triggers: null };
+
+/** 効果処理の状態（ゲーム状態 + チェーンスタック + ステップキュー） */
+export interface EffectProcessing {
+  readonly state: GameSnapshot;
+  readonly chain: ChainStack;
+  readonly queue: EffectQueue;
+}
+
+/** 実行したステップ（THEN マーカーは result なし） */
+export interface ExecutedStep {
+  readonly step: AtomicStep;
+  readonly result?: GameStateUpdateResult;
+}
+
+/**
+ * 効果処理を進めた結果
+ *
+ * - executed: ステップを1つ実行した
+ * - decision: ユーザーの意思決定待ち
+ * - settled: 全ての効果処理・チェーン解決が完了した
+ */
+export type EffectProcessingProgress =
+  | { readonly kind: "executed"; readonly processing: EffectProcessing; readonly executed: ExecutedStep }
+  | { readonly kind: "decision"; readonly processing: EffectProcessing; readonly decision: EffectProcessingDecision }
+  | { readonly kind: "settled"; readonly processing: EffectProcessing };
+
+// =============================================================================
+// 内部処理
+// =============================================================================
+
+const withQueue = (processing: EffectProcessing, queue: Partial<EffectQueue>): EffectProcessing => ({
+  ...processing,
+  queue: { ...processing.queue, ...queue },
+});
+
+// チェーンブロックを積む（ゲーム状態のチェーンリンクも同期する）
+const pushChainBlockWithLink = (processing: EffectProcessing, block: ChainBlockParams): EffectProcessing => ({
+  ...processing,
+  state: { ...processing.state, chainLinks: GameState.Chain.push(processing.state.chainLinks ?? [], block) },
+  chain: pushChainBlock(processing.chain, block),
+});
+
+// 効果処理の完了（チェーンをリセットし、チェーンリンクはゲーム状態から取り除く）
+const settle = (processing: EffectProcessing): EffectProcessingProgress => ({
+  kind: "settled",
+  processing: {
+    state: processing.state.chainLinks ? { ...processing.state, chainLinks: undefined } : processing.state,
+    chain: EMPTY_CHAIN_STACK,
+    queue: EMPTY_EFFECT_QUEUE,
+  },
+});
+
+const decide = (processing: EffectProcessing, decision: EffectProcessingDecision): EffectProcessingProgress => ({
+  kind: "decision",
+  processing: withQueue(processing, { decision }),
+  decision,
+});
+
+// ステップのアクションを実行する（失敗時は状態を変えずに次へ進む）
+function executeStep(
+  processing: EffectProcessing,
+  step: AtomicStep,
+  selectedInstanceIds?: string[],
+): EffectProcessingProgress {
+  const result = step.action(processing.state, selectedInstanceIds);
+  const executed: ExecutedStep = { step, result };
+  if (!result.success) {
+    return { kind: "executed", processing, executed };
+  }
+
+  const updated: EffectProcessing = { ...processing, state: result.updatedState };
+  const events = result.emittedEvents ?? [];
+  return {
+    kind: "executed",
+    processing: events.length > 0 ? collectTriggers(updated, events) : updated,
+    executed,
+  };
+}
+
+// イベントに対する誘発効果を収集する（強制効果のチェーンブロックはこの時点で積む）
+function collectTriggers(processing: EffectProcessing, events: readonly GameEvent[]): EffectProcessing {
+  const mandatorySteps: AtomicStep[] = [];
+  const optionalTriggers: OptionalTrigger[] = [];
+  let collected = processing;
+
+  for (const event of events) {
+    // AdditionalRule の TriggerRule を収集（強制/任意を分離）
+    const additionalResult = AdditionalRuleRegistry.collectTriggerSteps(processing.state, event);
+    mandatorySteps.push(...additionalResult.mandatorySteps);
+    for (const optional of additionalResult.optionalEffects) {
+      optionalTriggers.push({ instance: optional.instance, steps: optional.steps });
+    }
+
+    // ChainableAction の TriggerEffect を収集（強制/任意を分離）
+    const chainableResult = ChainableActionRegistry.collectTriggerSteps(processing.state, event);
+    for (const block of chainableResult.mandatoryChainBlocks) {
+      collected = pushChainBlockWithLink(collected, block);
+    }
+    mandatorySteps.push(...chainableResult.mandatorySteps);
+    for (const optional of chainableResult.optionalEffects) {
+      optionalTriggers.push({
+        instance: optional.instance,
+        steps: optional.activationSteps,
+        chainBlock: {
+          sourceInstanceId: optional.instance.instanceId,
+          sourceCardId: optional.instance.id,
+          effectId: optional.action.effectId,
+          spellSpeed: optional.action.spellSpeed,
+          resolutionSteps: optional.resolutionSteps,
+          isNegated: false,
+        },
+      });
+    }
+  }
+
+  return continueTriggers(collected, { mandatorySteps, optionalTriggers, acceptedSteps: [] });
+}
+
+// 次の任意誘発効果の意思決定を求める（全て回答済みなら誘発効果のステップを現在位置に挿入する）
+function continueTriggers(processing: EffectProcessing, triggers: PendingTriggers): EffectProcessing {
+  const [next, ...rest] = triggers.optionalTriggers;
+  if (next) {
+    return withQueue(processing, {
+      decision: { kind: "optionalTrigger", trigger: next },
+      triggers: { ...triggers, optionalTriggers: rest },
+    });
+  }
+
+  return withQueue(processing, {
+    steps: [...triggers.mandatorySteps, ...triggers.acceptedSteps, ...processing.queue.steps],
+    triggers: null,
+  });
+}
+
+// 効果処理シーケンスの終了処理（チェーン構築中ならチェーン確認、解決中なら次のブロックへ）
+function finishSequence(processing: EffectProcessing): EffectProcessingProgress {
+  const { chain } = processing;
+  if (chain.stack.length === 0) {
+    return settle(processing);
+  }
+  if (!chain.isBuilding) {
+    return resolveNextChainBlock(processing);
+  }
+
+  const chainableCards = ChainableActionRegistry.collectChainableActions(
+    processing.state,
+    getRequiredSpellSpeed(chain),
+    getStackedInstanceIds(chain),
+  );
+  if (chainableCards.length === 0) {
+    return resolveNextChainBlock({ ...processing, chain: endChainBuilding(chain) });
+  }
+  return decide(processing, { kind: "chain", chainableCards });
+}
+
+// 次のチェーンブロックを取り出して解決する（無効化されたリンクは後処理のみ行う）
+function resolveNextChainBlock(processing: EffectProcessing): EffectProcessingProgress {
+  const { stack } = processing.chain;
+  const block = stack[stack.length - 1];
+  if (!block) {
+    return settle(processing);
+  }
+
+  // ゲーム状態のチェーンリンクも取り出す（無効化されたかどうかはチェーンリンクで判定する）
+  const chainLinks = processing.state.chainLinks ?? [];
+  const link = GameState.Chain.last(chainLinks);
+  const popped: EffectProcessing = {
+    ...processing,
+    state: { ...processing.state, chainLinks: GameState.Chain.pop(chainLinks) },
+    chain: { ...processing.chain, stack: stack.slice(0, -1) },
+  };
+  const steps = buildChainBlockResolutionSteps(popped.state, block, link);
+  if (steps.length === 0) {
+    return resolveNextChainBlock(popped);
+  }
+  return advanceEffectProcessing(withQueue(popped, { steps }));
+}
+
+// チェーン発動する（カードを配置し、チェーンブロックを積んで発動時処理を実行する）
+function activateChain(processing: EffectProcessing, candidate: ChainableCandidate): EffectProcessing {
+  const { instance, action } = candidate;
+  const current = processing.state;
+  const state: GameSnapshot = {
+    ...current,
+    space: placeCardForActivation(current.space, instance),
+    activatedCardIds: GameState.updatedActivatedCardIds(current.activatedCardIds, instance.id),
+  };
+
+  // activationSteps と resolutionSteps を生成（カード移動後の状態で）
+  const activationSteps = action.createActivationSteps(state, instance);
+  const resolutionSteps = action.createResolutionSteps(state, instance);
+  const activated = pushChainBlockWithLink(
+    { ...processing, state },
+    {
+      sourceInstanceId: instance.instanceId,
+      sourceCardId: instance.id,
+      effectId: action.effectId,
+      spellSpeed: action.spellSpeed,
+      resolutionSteps,
+      isNegated: false,
+    },
+  );
+  return withQueue(activated, { steps: activationSteps, decision: null });
+}
+
+// =============================================================================
+// 公開API
+// =============================================================================
+
+/**
+ * コマンド実行結果の効果処理を開始する
+ *
+ * @param state コマンド実行後のゲーム状態
+ * @param chain 現在のチェーンスタック
+ * @param chainBlock コマンドが生成したチェーンブロック
+ * @param activationSteps コマンドが生成した発動時処理
+ */
+export function beginEffectProcessing(
+  state: GameSnapshot,
+  chain: ChainStack,
+  chainBlock: ChainBlockParams | undefined,
+  activationSteps: readonly AtomicStep[],
+): EffectProcessing {
+  const initial: EffectProcessing = { state, chain, queue: { ...EMPTY_EFFECT_QUEUE, steps: activationSteps } };
+  if (!chainBlock) {
+    return initial;
+  }
+
+  // まだ構築中でない場合、新しいチェーンを開始
+  const started = chain.stack.length === 0 ? { ...initial, chain: startChain(chain) } : initial;
+  const pushed = pushChainBlockWithLink(started, chainBlock);
+  // 発動時処理がない場合は即座にチェーン解決へ
+  return activationSteps.length > 0 ? pushed : { ...pushed, chain: endChainBuilding(pushed.chain) };
+}
+
+/**
+ * 効果処理を1ステップ進める
+ *
+ * 回答待ちの意思決定がある場合は、その意思決定をそのまま返す。
+ */
+export function advanceEffectProcessing(processing: EffectProcessing): EffectProcessingProgress {
+  const { queue } = processing;
+  if (queue.decision) {
+    return { kind: "decision", processing, decision: queue.decision };
+  }
+  const [step, ...rest] = queue.steps;
+  if (!step) {
+    return finishSequence(processing);
+  }
+
+  const next = withQueue(processing, { steps: rest });
+  if (isThenMarker(step)) {
+    return { kind: "executed", processing: next, executed: { step } };
+  }
+  if ((step.notificationLevel || "static") === "interactive") {
+    // カード選択なし: 確認のみ
+    if (!step.cardSelectionConfig) {
+      return decide(next, { kind: "confirmation", step });
+    }
+    // カード選択あり: 選択不要なら自動実行
+    const resolved = GameProcessing.AtomicStep.resolveCardSelection(step, processing.state);
+    if (resolved) {
+      return decide(next, { kind: "cardSelection", step, ...resolved });
+    }
+  }
+  return executeStep(next, step);
+}
+
+/**
+ * 意思決定に回答して効果処理を1ステップ進める
+ *
+ * @throws Error 回答待ちの意思決定と回答の種別が一致しない場合、チェーン発動できないカードを指定した場合
+ */
+export function answerEffectProcessing(
+  processing: EffectProcessing,
+  answer: InteractionAnswer,
+): EffectProcessingProgress {
+  const { decision, triggers } = processing.queue;
+  const answered = withQueue(processing, { decision: null });
+
+  if (decision?.kind === "confirmation" && answer.kind === "confirmation") {
+    return executeStep(answered, decision.step);
+  }
+  if (decision?.kind === "cardSelection" && answer.kind === "cardSelection") {
+    return executeStep(answered, decision.step, [...answer.selectedInstanceIds]);
+  }
+  if (decision?.kind === "cardSelection" && answer.kind === "cardSelectionCancel" && decision.config.cancelable) {
+    return advanceEffectProcessing(answered);
+  }
+  if (decision?.kind === "optionalTrigger" && answer.kind === "optionalTrigger" && triggers) {
+    const { trigger } = decision;
+    if (!answer.activate) {
+      return advanceEffectProcessing(continueTriggers(answered, triggers));
+    }
+    const activated = trigger.chainBlock ? pushChainBlockWithLink(answered, trigger.chainBlock) : answered;
+    return advanceEffectProcessing(
+      continueTriggers(activated, { ...triggers, acceptedSteps: [...triggers.acceptedSteps, ...trigger.steps] }),
+    );
+  }
+  if (decision?.kind === "chain" && answer.kind === "chain") {
+    // パス → 解決開始
+    if (answer.instanceId === null) {
+      return advanceEffectProcessing({ ...answered, chain: endChainBuilding(answered.chain) });
+    }
+    const candidate = decision.chainableCards.find(({ instance }) => instance.instanceId === answer.instanceId);
+    if (!candidate) {
+      throw new Error(`Cannot chain card: ${answer.instanceId}`);
+    }
+    return advanceEffectProcessing(activateChain(answered, candidate));
+  }
+
+  throw new Error(`Unexpected answer "${answer.kind}" for decision "${decision?.kind ?? "none"}"`);
+}
+
+/**
+ * 意思決定待ち、または完了するまで効果処理を進める
+ */
+export function runEffectProcessing(
+  progress: EffectProcessingProgress,
+): Exclude<EffectProcessingProgress, { kind: "executed" }> {
+  let current = progress;
+  while (current.kind === "executed") {
+    current = advanceEffectProcessing(current.processing);
+  }
+  return current;
+}
@@ -0,0 +1,40 @@
+/**
+ * EndPhaseRule - エンドフェイズ処理ルール
+ *
+ * エンドフェイズに行う処理を、効果処理キューで実行する AtomicStep 配列として構築する。
+ *
+ * @module domain/rules/EndPhaseRule
+ */
+
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { AtomicStep } from "$lib/domain/models/GameProcessing";
+import { HAND_SIZE_LIMIT } from "$lib/domain/models/GameState/GameSnapshot";
+import { EndPhaseEffectRegistry } from "$lib/domain/dsl/steps/EndPhaseEffectRegistry";
+import { discardToHandLimitStep } from "$lib/domain/dsl/steps/builders/discards";
+
+/**
+ * 保留されたエンドフェイズ効果のうち、レジストリに登録されていないIDを返す
+ *
+ * 局面コードや保存データから復元した状態には、未登録（別バージョンのアプリ等）のIDが含まれうる。
+ */
+export function findUnknownEndPhaseEffectIds(queuedEffectIds: readonly string[]): string[] {
+  return queuedEffectIds.filter((stepId) => !EndPhaseEffectRegistry.isRegistered(stepId));
+}
+
+/**
+ * エンドフェイズの処理ステップを構築する
+ *
+ * 処理順序:
+ * 1. 保留されたエンドフェイズ効果（保留された順）
+ * 2. 手札枚数制限（超過分を捨てる）
+ *
+ * @param state - エンドフェイズ移行前のゲーム状態（queuedEndPhaseEffectIds を参照する）
+ * @throws Error - 未登録のエンドフェイズ効果IDが含まれる場合（findUnknownEndPhaseEffectIds で事前に確認する）
+ */
+export function buildEndPhaseSteps(state: GameSnapshot): AtomicStep[] {
+  // 1. 保留されたエンドフェイズ効果
+  const queuedEffectSteps = state.queuedEndPhaseEffectIds.map((stepId) => EndPhaseEffectRegistry.build(stepId));
+
+  // 2. 手札枚数制限
+  return [...queuedEffectSteps, discardToHandLimitStep(HAND_SIZE_LIMIT)];
+}
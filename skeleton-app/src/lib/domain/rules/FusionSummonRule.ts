@@ -0,0 +1,219 @@
+/**
+ * FusionSummonRule - 融合召喚ルール
+ *
+ * 融合召喚は《融合》等のカードの効果でのみ行うため、コマンドは持たない。
+ * 効果処理ステップ（DSL）から呼び出される。
+ *
+ * @module domain/rules/FusionSummonRule
+ */
+
+import { Card, type CardInstance, type FusionMaterial } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { ValidationResult, AtomicStep, GameEvent } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { GameEvents } from "$lib/domain/models/GameProcessing/GameEvent";
+import { selectCardsStep } from "$lib/domain/dsl/steps/primitives/userInteractions";
+import { moveCardFromFieldOverride } from "$lib/domain/dsl/overrides/handlers/fieldDepartureDestination";
+import { executeSpecialSummon } from "$lib/domain/rules/SummonRule";
+
+// ===========================
+// 融合召喚判定
+// ===========================
+
+/**
+ * 融合召喚が可能かをチェックする
+ *
+ * チェック項目:
+ * 1. 指定カードがEXデッキの融合モンスターであること
+ * 2. 融合素材が手札・フィールドに揃っていること（モンスターゾーンに空きがない場合はフィールドの素材を含むこと）
+ *
+ * Note: フェイズ等のタイミングは融合召喚を行うカード側でチェック
+ */
+export function canFusionSummon(state: GameSnapshot, cardInstanceId: string): ValidationResult {
+  // 1. 指定カードがEXデッキの融合モンスターであること
+  const cardInstance = GameState.Space.findCard(state.space, cardInstanceId);
+  if (!cardInstance) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_FOUND);
+  }
+  if (!Card.isFusion(cardInstance)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_FUSION_MONSTER);
+  }
+  if (cardInstance.location !== "extraDeck") {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_IN_EXTRA_DECK);
+  }
+
+  // 2. 融合素材が手札・フィールドに揃っていること
+  const materials = cardInstance.fusionMaterials ?? [];
+  const candidates = getFusionMaterialCandidates(state);
+  const isZoneFull = GameState.Space.isMainMonsterZoneFull(state.space);
+  if (!findMaterialCombination(candidates, materials, (selected) => hasSummonSpace(selected, isZoneFull))) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NO_VALID_FUSION_MATERIALS);
+  }
+
+  return GameProcessing.Validation.success();
+}
+
+/** EXデッキから融合召喚可能な融合モンスターを取得する */
+export function getFusionSummonableMonsters(state: GameSnapshot): CardInstance[] {
+  return state.space.extraDeck.filter((card) => canFusionSummon(state, card.instanceId).isValid);
+}
+
+// ===========================
+// 融合素材判定
+// ===========================
+
+/** 融合素材の候補（手札・フィールドのモンスター） */
+function getFusionMaterialCandidates(state: GameSnapshot): CardInstance[] {
+  return [...state.space.hand, ...GameState.Space.monstersOnField(state.space)].filter((card) => Card.isMonster(card));
+}
+
+/** カードが融合素材1体分の指定を満たすかチェック */
+function matchesFusionMaterial(card: CardInstance, material: FusionMaterial): boolean {
+  if (!Card.isMonster(card)) return false;
+  if (material.cardId !== undefined && card.id !== material.cardId) return false;
+  if (material.race !== undefined && card.race !== material.race) return false;
+  return true;
+}
+
+/** 融合召喚後にモンスターを置く空きがあるか（メインモンスターゾーンの素材が墓地へ送られれば空きができる） */
+function hasSummonSpace(selectedCards: readonly CardInstance[], isZoneFull: boolean): boolean {
+  return !isZoneFull || selectedCards.some((card) => card.location === "mainMonsterZone");
+}
+
+/**
+ * 候補から各融合素材に1体ずつ割り当てる組み合わせを探索する（バックトラッキング）
+ *
+ * @param accept - 見つかった組み合わせを採用するかの追加判定
+ */
+function findMaterialCombination(
+  candidates: readonly CardInstance[],
+  materials: readonly FusionMaterial[],
+  accept: (selectedCards: readonly CardInstance[]) => boolean = () => true,
+): boolean {
+  if (materials.length === 0) return false;
+
+  const search = (index: number, selected: CardInstance[]): boolean => {
+    if (index === materials.length) return accept(selected);
+    return candidates.some(
+      (card) =>
+        !selected.includes(card) &&
+        matchesFusionMaterial(card, materials[index]) &&
+        search(index + 1, [...selected, card]),
+    );
+  };
+  return search(0, []);
+}
+
+/**
+ * 選択中のカードが融合召喚条件を満たすかチェック
+ *
+ * 条件:
+ * - 選択枚数が融合素材の数と一致
+ * - 選択したカードで全ての融合素材を1体ずつ満たせる
+ * - 融合召喚後にモンスターを置く空きがある
+ */
+function isValidFusionMaterialSelection(
+  selectedCards: readonly CardInstance[],
+  materials: readonly FusionMaterial[],
+  isZoneFull: boolean,
+): boolean {
+  if (selectedCards.length !== materials.length) return false;
+  if (!hasSummonSpace(selectedCards, isZoneFull)) return false;
+  return findMaterialCombination(selectedCards, materials);
+}
+
+// ===========================
+// 融合召喚実行
+// ===========================
+
+/**
+ * 融合召喚の実行結果
+ */
+type FusionSummonResult = {
+  type: "needsSelection";
+  message: string;
+  step: AtomicStep;
+};
+
+/**
+ * 融合召喚を実行する（素材選択ステップを返す）
+ *
+ * 処理フロー:
+ * 1. 素材選択ステップを生成（手札・フィールドから融合素材を選択）
+ * 2. 選択完了後、素材を墓地へ送り融合モンスターを特殊召喚
+ *
+ * @param sourceCardId - 融合召喚を行うカードのID（《融合》等）
+ */
+export function performFusionSummon(
+  state: GameSnapshot,
+  cardInstanceId: string,
+  sourceCardId?: number,
+): FusionSummonResult {
+  const fusionMonster = GameState.Space.findCard(state.space, cardInstanceId)!;
+  const materials = fusionMonster.fusionMaterials ?? [];
+  const isZoneFull = GameState.Space.isMainMonsterZoneFull(state.space);
+  const availableCards = getFusionMaterialCandidates(state).filter((card) =>
+    materials.some((material) => matchesFusionMaterial(card, material)),
+  );
+
+  // 素材選択ステップを生成
+  const materialSelectionStep = selectCardsStep({
+    id: `${fusionMonster.id}-select-fusion-materials`,
+    sourceCardId: sourceCardId ?? fusionMonster.id,
+    summary: "融合素材を選択",
+    description: `${Card.nameWithBrackets(fusionMonster)}の融合素材${materials.length}体を手札・フィールドから選んでください`,
+    availableCards,
+    minCards: materials.length,
+    maxCards: materials.length,
+    cancelable: false,
+    canConfirm: (selectedCards) => isValidFusionMaterialSelection(selectedCards, materials, isZoneFull),
+    onSelect: (currentState, selectedIds) => {
+      if (selectedIds.length === 0) {
+        return GameProcessing.Result.failure(currentState, "融合素材が選択されていません");
+      }
+
+      // 素材を墓地へ送る（フィールドの素材には ActionOverride ルールを適用）
+      let updatedSpace = currentState.space;
+      const materialEvents: GameEvent[] = [];
+
+      for (const instanceId of selectedIds) {
+        const card = GameState.Space.findCard(updatedSpace, instanceId);
+        if (card) {
+          const tempState: GameSnapshot = { ...currentState, space: updatedSpace };
+          updatedSpace = Card.Instance.onField(card)
+            ? moveCardFromFieldOverride(tempState, card, "graveyard")
+            : GameState.Space.moveCard(updatedSpace, card, "graveyard");
+          materialEvents.push(...GameEvents.sentToGraveyard(card));
+        }
+      }
+
+      // 融合モンスターを特殊召喚（executeSpecialSummon を使用）
+      const tempState: GameSnapshot = { ...currentState, space: updatedSpace };
+      const { state: summonedState, event: specialSummonEvent } = executeSpecialSummon(
+        tempState,
+        cardInstanceId,
+        "attack",
+      );
+      const summonedMonster = GameState.Space.findCard(summonedState.space, cardInstanceId)!;
+
+      const emittedEvents: GameEvent[] = [
+        ...materialEvents,
+        specialSummonEvent,
+        GameEvents.fusionSummoned(summonedMonster),
+      ];
+
+      return GameProcessing.Result.success(
+        summonedState,
+        `${Card.nameWithBrackets(summonedMonster)}を融合召喚しました`,
+        emittedEvents,
+      );
+    },
+  });
+
+  return {
+    type: "needsSelection",
+    message: `${Card.nameWithBrackets(fusionMonster)}の融合素材を選択してください`,
+    step: materialSelectionStep,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * LinkSummonRule - リンク召喚ルール
+ *
+ * @module domain/rules/LinkSummonRule
+ */
+
+import { Card, type CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot, CardSpace } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { ValidationResult, AtomicStep, GameEvent } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { GameEvents } from "$lib/domain/models/GameProcessing/GameEvent";
+import { selectCardsStep } from "$lib/domain/dsl/steps/primitives/userInteractions";
+import { moveCardFromFieldOverride } from "$lib/domain/dsl/overrides/handlers/fieldDepartureDestination";
+import { executeSpecialSummon } from "$lib/domain/rules/SummonRule";
+
+// ===========================
+// リンク召喚判定
+// ===========================
+
+/**
+ * リンク召喚が可能かをチェックする
+ *
+ * チェック項目:
+ * 1. メインフェイズであること
+ * 2. 指定カードがEXデッキのリンクモンスターであること
+ * 3. リンク数を満たすリンク素材がフィールドに揃っていること
+ * 4. 素材がフィールドを離れた後、リンクモンスターを出せるゾーンがあること
+ */
+export function canLinkSummon(state: GameSnapshot, cardInstanceId: string): ValidationResult {
+  // 1. メインフェイズであること
+  if (!GameState.Phase.isMain(state.phase)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_MAIN_PHASE);
+  }
+
+  // 2. 指定カードがEXデッキのリンクモンスターであること
+  const cardInstance = GameState.Space.findCard(state.space, cardInstanceId);
+  if (!cardInstance) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_FOUND);
+  }
+  if (!Card.isLink(cardInstance)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_LINK_MONSTER);
+  }
+  if (cardInstance.location !== "extraDeck") {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_IN_EXTRA_DECK);
+  }
+
+  // 3. リンク数を満たすリンク素材がフィールドに揃っていること
+  const linkRating = cardInstance.linkRating ?? 0;
+  const validSelections = findValidMaterialSelections(getLinkMaterialCandidates(state), linkRating);
+  if (validSelections.length === 0) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NO_VALID_LINK_MATERIALS);
+  }
+
+  // 4. リンクモンスターを出せるゾーンがあること
+  if (!validSelections.some((selectedCards) => hasLinkSummonSlot(state.space, selectedCards))) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NO_LINK_SUMMON_ZONE);
+  }
+
+  return GameProcessing.Validation.success();
+}
+
+// ===========================
+// リンク素材判定
+// ===========================
+
+/** リンク素材の候補（フィールドの表側表示モンスター。トークンも素材にできる） */
+function getLinkMaterialCandidates(state: GameSnapshot): CardInstance[] {
+  return GameState.Space.monstersOnField(state.space).filter((card) => Card.Instance.isFaceUp(card));
+}
+
+/**
+ * リンク素材に必要な最小の数
+ *
+ * リンク1は1体、リンク2以上は2体以上の素材を必要とする（リンクモンスター1体だけを素材にはできない）。
+ */
+function minMaterialCountOf(linkRating: number): number {
+  return Math.min(linkRating, 2);
+}
+
+/** リンク素材1体が満たすリンク数の候補（リンクモンスターは1またはそのリンク数として扱える） */
+function materialValuesOf(card: CardInstance): number[] {
+  return Card.isLink(card) && (card.linkRating ?? 1) > 1 ? [1, card.linkRating!] : [1];
+}
+
+/**
+ * 選択中のカードがリンク召喚条件を満たすかチェック
+ *
+ * 条件:
+ * - 素材の数が最小数以上、リンク数以下
+ * - 各素材を1体（リンクモンスターはそのリンク数でも可）として数えた合計がリンク数と一致
+ */
+function isValidLinkMaterialSelection(selectedCards: readonly CardInstance[], linkRating: number): boolean {
+  if (selectedCards.length < minMaterialCountOf(linkRating) || selectedCards.length > linkRating) {
+    return false;
+  }
+
+  // 数えられる合計値を列挙（素材は最大でも数体なので全探索で問題ない）
+  let sums = new Set<number>([0]);
+  for (const card of selectedCards) {
+    sums = new Set([...sums].flatMap((sum) => materialValuesOf(card).map((value) => sum + value)));
+  }
+  return sums.has(linkRating);
+}
+
+/** 候補の中からリンク召喚条件を満たす素材の組み合わせを全て列挙する */
+function findValidMaterialSelections(candidates: readonly CardInstance[], linkRating: number): CardInstance[][] {
+  const selections: CardInstance[][] = [];
+  for (let mask = 1; mask < 1 << candidates.length; mask++) {
+    const selectedCards = candidates.filter((_, index) => (mask & (1 << index)) !== 0);
+    if (isValidLinkMaterialSelection(selectedCards, linkRating)) {
+      selections.push(selectedCards);
+    }
+  }
+  return selections;
+}
+
+/** 素材がフィールドを離れた後の空間で、リンクモンスターを出せるスロットがあるか */
+function hasLinkSummonSlot(space: CardSpace, selectedCards: readonly CardInstance[]): boolean {
+  const materialIds = new Set(selectedCards.map((card) => card.instanceId));
+  const spaceWithoutMaterials: CardSpace = {
+    ...space,
+    mainMonsterZone: space.mainMonsterZone.filter((card) => !materialIds.has(card.instanceId)),
+    extraMonsterZone: space.extraMonsterZone.filter((card) => !materialIds.has(card.instanceId)),
+  };
+  return GameState.Space.findLinkSummonSlot(spaceWithoutMaterials) !== undefined;
+}
+
+// ===========================
+// リンク召喚実行
+// ===========================
+
+/**
+ * リンク召喚の実行結果
+ */
+type LinkSummonResult = {
+  type: "needsSelection";
+  message: string;
+  step: AtomicStep;
+};
+
+/**
+ * リンク召喚を実行する（素材選択ステップを返す）
+ *
+ * 処理フロー:
+ * 1. 素材選択ステップを生成（リンク数を満たすフィールドの表側表示モンスターを選択）
+ * 2. 選択完了後、素材を墓地へ送る
+ * 3. エクストラモンスターゾーン、またはリンク先のメインモンスターゾーンにリンクモンスターを特殊召喚
+ */
+export function performLinkSummon(state: GameSnapshot, cardInstanceId: string): LinkSummonResult {
+  const linkMonster = GameState.Space.findCard(state.space, cardInstanceId)!;
+  const linkRating = linkMonster.linkRating ?? 0;
+
+  // 素材選択ステップを生成
+  const materialSelectionStep = selectCardsStep({
+    id: `${linkMonster.id}-select-link-materials`,
+    sourceCardId: linkMonster.id,
+    summary: "リンク素材を選択",
+    description: `リンク ${linkRating} になるようにモンスターを選んでください（リンクモンスターはリンク数分として数えられます）`,
+    availableCards: getLinkMaterialCandidates(state),
+    minCards: minMaterialCountOf(linkRating),
+    maxCards: linkRating,
+    cancelable: true,
+    canConfirm: (selectedCards) =>
+      isValidLinkMaterialSelection(selectedCards, linkRating) && hasLinkSummonSlot(state.space, selectedCards),
+    onSelect: (currentState, selectedIds) => {
+      if (selectedIds.length === 0) {
+        return GameProcessing.Result.failure(currentState, "リンク召喚をキャンセルしました");
+      }
+
+      // 素材を墓地へ送る（ActionOverrideルールを適用）
+      let updatedSpace = currentState.space;
+      const materialEvents: GameEvent[] = [];
+
+      for (const instanceId of selectedIds) {
+        const card = GameState.Space.findCard(updatedSpace, instanceId);
+        if (card) {
+          const tempState: GameSnapshot = { ...currentState, space: updatedSpace };
+          updatedSpace = moveCardFromFieldOverride(tempState, card, "graveyard");
+          materialEvents.push(...GameEvents.sentToGraveyard(card));
+        }
+      }
+
+      // 素材が離れた後の空間でリンクモンスターを出すスロットを決める
+      const slot = GameState.Space.findLinkSummonSlot(updatedSpace);
+      if (!slot) {
+        return GameProcessing.Result.failure(currentState, "リンクモンスターを出せるモンスターゾーンがありません");
+      }
+
+      // リンクモンスターを特殊召喚（executeSpecialSummon を使用）
+      const tempState: GameSnapshot = { ...currentState, space: updatedSpace };
+      const { state: summonedState, event: specialSummonEvent } = executeSpecialSummon(
+        tempState,
+        cardInstanceId,
+        "attack",
+        slot,
+      );
+      const summonedMonster = GameState.Space.findCard(summonedState.space, cardInstanceId)!;
+
+      const emittedEvents: GameEvent[] = [
+        ...materialEvents,
+        specialSummonEvent,
+        GameEvents.linkSummoned(summonedMonster),
+      ];
+
+      return GameProcessing.Result.success(
+        summonedState,
+        `${Card.nameWithBrackets(summonedMonster)}をリンク召喚しました`,
+        emittedEvents,
+      );
+    },
+  });
+
+  return {
+    type: "needsSelection",
+    message: `${Card.nameWithBrackets(linkMonster)}のリンク素材を選択してください`,
+    step: materialSelectionStep,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * RitualSummonRule - 儀式召喚ルール
+ *
+ * 儀式召喚は儀式魔法の効果でのみ行うため、コマンドは持たない。
+ * 効果処理ステップ（DSL）から呼び出される。
+ *
+ * @module domain/rules/RitualSummonRule
+ */
+
+import { Card, type CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { ValidationResult, AtomicStep } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { GameEvents } from "$lib/domain/models/GameProcessing/GameEvent";
+import {
+  type LevelSumCondition,
+  hasLevelSumSelection,
+  selectAndReleaseByLevelStep,
+} from "$lib/domain/dsl/steps/builders/releases";
+import { executeSpecialSummon } from "$lib/domain/rules/SummonRule";
+
+// ===========================
+// 儀式召喚判定
+// ===========================
+
+/**
+ * 儀式召喚が可能かをチェックする
+ *
+ * チェック項目:
+ * 1. 指定カードが手札の儀式モンスターであること
+ * 2. レベルの合計が条件を満たすようにリリースできるモンスターが手札・フィールドにあること
+ *    （モンスターゾーンに空きがない場合はフィールドのモンスターを含むこと）
+ *
+ * Note: フェイズ等のタイミングは儀式魔法側でチェック
+ *
+ * @param levelCondition - リリースするモンスターのレベル合計の条件（儀式魔法ごとに異なる）
+ */
+export function canRitualSummon(
+  state: GameSnapshot,
+  cardInstanceId: string,
+  levelCondition: LevelSumCondition,
+): ValidationResult {
+  // 1. 指定カードが手札の儀式モンスターであること
+  const cardInstance = GameState.Space.findCard(state.space, cardInstanceId);
+  if (!cardInstance) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_FOUND);
+  }
+  if (!Card.isRitual(cardInstance)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_RITUAL_MONSTER);
+  }
+  if (!Card.Instance.inHand(cardInstance)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_IN_HAND);
+  }
+
+  // 2. レベルの合計が条件を満たすようにリリースできること
+  const isZoneFull = GameState.Space.isMainMonsterZoneFull(state.space);
+  const hasTributes = hasLevelSumSelection(
+    getRitualTributeCandidates(state, cardInstance),
+    cardInstance.level ?? 0,
+    levelCondition,
+    (selectedCards) => hasSummonSpace(selectedCards, isZoneFull),
+  );
+  if (!hasTributes) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NO_VALID_RITUAL_TRIBUTES);
+  }
+
+  return GameProcessing.Validation.success();
+}
+
+/**
+ * 手札から儀式召喚可能な儀式モンスターを取得する
+ *
+ * @param ritualMonsterId - 儀式召喚できるモンスターのカードID（省略時は全ての儀式モンスター）
+ */
+export function getRitualSummonableMonsters(
+  state: GameSnapshot,
+  levelCondition: LevelSumCondition,
+  ritualMonsterId?: number,
+): CardInstance[] {
+  return state.space.hand.filter(
+    (card) =>
+      (ritualMonsterId === undefined || card.id === ritualMonsterId) &&
+      canRitualSummon(state, card.instanceId, levelCondition).isValid,
+  );
+}
+
+// ===========================
+// リリース判定
+// ===========================
+
+/** リリースの候補（儀式モンスター自身を除く、手札・フィールドのモンスター） */
+function getRitualTributeCandidates(state: GameSnapshot, ritualMonster: CardInstance): CardInstance[] {
+  return [...state.space.hand, ...GameState.Space.monstersOnField(state.space)].filter(
+    (card) => Card.isMonster(card) && card.instanceId !== ritualMonster.instanceId,
+  );
+}
+
+/** 儀式召喚後にモンスターを置く空きがあるか（メインモンスターゾーンのモンスターをリリースすれば空きができる） */
+function hasSummonSpace(selectedCards: readonly CardInstance[], isZoneFull: boolean): boolean {
+  return !isZoneFull || selectedCards.some((card) => card.location === "mainMonsterZone");
+}
+
+// ===========================
+// 儀式召喚実行
+// ===========================
+
+/**
+ * 儀式召喚の実行結果
+ */
+type RitualSummonResult = {
+  type: "needsSelection";
+  message: string;
+  step: AtomicStep;
+};
+
+/**
+ * 儀式召喚を実行する（リリース選択ステップを返す）
+ *
+ * 処理フロー:
+ * 1. リリース選択ステップを生成（レベルの合計が条件を満たすように手札・フィールドのモンスターを選択）
+ * 2. 選択完了後、モンスターをリリースし儀式モンスターを特殊召喚
+ *
+ * @param sourceCardId - 儀式召喚を行うカードのID（儀式魔法）
+ */
+export function performRitualSummon(
+  state: GameSnapshot,
+  cardInstanceId: string,
+  levelCondition: LevelSumCondition,
+  sourceCardId?: number,
+): RitualSummonResult {
+  const ritualMonster = GameState.Space.findCard(state.space, cardInstanceId)!;
+  const isZoneFull = GameState.Space.isMainMonsterZoneFull(state.space);
+
+  // リリース選択ステップを生成（selectAndReleaseByLevelStep を使用）
+  const tributeSelectionStep = selectAndReleaseByLevelStep({
+    cardId: sourceCardId ?? ritualMonster.id,
+    availableCards: getRitualTributeCandidates(state, ritualMonster),
+    levelSum: ritualMonster.level ?? 0,
+    condition: levelCondition,
+    description: `${Card.nameWithBrackets(ritualMonster)}のレベル（${ritualMonster.level}）に合わせて、手札・フィールドのモンスターをリリースします`,
+    accept: (selectedCards) => hasSummonSpace(selectedCards, isZoneFull),
+    onReleased: (stateAfterRelease, _releasedCards, releaseEvents) => {
+      // 儀式モンスターを特殊召喚（executeSpecialSummon を使用）
+      const { state: summonedState, event: specialSummonEvent } = executeSpecialSummon(
+        stateAfterRelease,
+        cardInstanceId,
+        "attack",
+      );
+      const summonedMonster = GameState.Space.findCard(summonedState.space, cardInstanceId)!;
+
+      return GameProcessing.Result.success(
+        summonedState,
+        `${Card.nameWithBrackets(summonedMonster)}を儀式召喚しました`,
+        [...releaseEvents, specialSummonEvent, GameEvents.ritualSummoned(summonedMonster)],
+      );
+    },
+  });
+
+  return {
+    type: "needsSelection",
+    message: `${Card.nameWithBrackets(ritualMonster)}のリリース対象を選択してください`,
+    step: tributeSelectionStep,
+  };
+}
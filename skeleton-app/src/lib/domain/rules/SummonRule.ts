@@ -6,7 +6,7 @@
 
 import type { BattlePosition } from "$lib/domain/models/Card";
 import { Card } from "$lib/domain/models/Card";
-import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { GameSnapshot, MonsterZoneSlot } from "$lib/domain/models/GameState";
 import { GameState } from "$lib/domain/models/GameState";
 import type { ValidationResult, AtomicStep, GameEvent } from "$lib/domain/models/GameProcessing";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
@@ -38,8 +38,9 @@ export function getRequiredTributes(level: number | undefined): number {
  * 1. メインフェイズであること
  * 2. 召喚権が残っていること
  * 3. 指定カードが存在し、モンスターカードであり、手札にあること
- * 4. リリースが不要な場合、モンスターゾーンに空きがあること
- * 5. リリースが必要な場合、リリース可能なモンスターが不足していないこと
+ * 4. 通常召喚できないモンスター（儀式モンスター）でないこと
+ * 5. リリースが不要な場合、モンスターゾーンに空きがあること
+ * 6. リリースが必要な場合、リリース可能なモンスターが不足していないこと
  */
 export function canNormalSummon(state: GameSnapshot, cardInstanceId: string): ValidationResult {
   // 1. メインフェイズであること
@@ -64,15 +65,20 @@ export function canNormalSummon(state: GameSnapshot, cardInstanceId: string): Va
     return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_IN_HAND);
   }
 
+  // 4. 通常召喚できないモンスター（儀式モンスター）でないこと
+  if (Card.isRitual(cardInstance)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CANNOT_NORMAL_SUMMON);
+  }
+
   const tributeCount = getRequiredTributes(cardInstance.level);
-  const monstersOnField = state.space.mainMonsterZone.length;
+  const monstersOnField = GameState.Space.monstersOnField(state.space).length;
   if (tributeCount === 0) {
-    // 4. リリースが不要な場合、モンスターゾーンに空きがあること
+    // 5. リリースが不要な場合、モンスターゾーンに空きがあること
     if (GameState.Space.isMainMonsterZoneFull(state.space)) {
       return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.MONSTER_ZONE_FULL);
     }
   } else {
-    // 5. リリースが必要な場合、リリース可能なモンスターが不足していないこと
+    // 6. リリースが必要な場合、リリース可能なモンスターが不足していないこと
     if (monstersOnField < tributeCount) {
       return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_ENOUGH_TRIBUTES);
     }
@@ -120,9 +126,12 @@ export function performNormalSummon(
   } else {
     // リリース選択ステップを生成（selectAndReleaseStep を使用）
     const advancedActionName = isSet ? "アドバンスセット" : "アドバンス召喚";
+    const isZoneFull = GameState.Space.isMainMonsterZoneFull(state.space);
     const tributeSelectionStep = selectAndReleaseStep({
       cardId: cardInstance.id,
       count: tributeCount,
+      // メインモンスターゾーンが埋まっている場合、召喚先を空けるためにメインモンスターゾーンのモンスターを含める
+      canConfirm: (selectedCards) => !isZoneFull || selectedCards.some((card) => card.location === "mainMonsterZone"),
       onReleased: (stateAfterRelease, _releasedCards, releaseEvents) => {
         // リリース後に召喚を実行
         const updatedState = executeNormalSummon(stateAfterRelease, cardInstanceId, battlePosition);
@@ -201,17 +210,21 @@ export function canSpecialSummon(state: GameSnapshot): ValidationResult {
 /**
  * モンスターを特殊召喚する
  *
+ * @param slot - 召喚先のスロット（省略時はメインモンスターゾーンの空きスロット）
+ *
  * Note: 召喚権を消費しない
  */
 export function executeSpecialSummon(
   state: GameSnapshot,
   cardInstanceId: string,
   battlePosition: BattlePosition,
+  slot?: MonsterZoneSlot,
 ): { state: GameSnapshot; event: GameEvent } {
   const card = GameState.Space.findCard(state.space, cardInstanceId)!;
-  const updatedSpace = GameState.Space.moveCard(state.space, card, "mainMonsterZone", {
+  const updatedSpace = GameState.Space.moveCard(state.space, card, slot?.location ?? "mainMonsterZone", {
     position: "faceUp",
     battlePosition,
+    slotIndex: slot?.slotIndex,
   });
   const updatedState = { ...state, space: updatedSpace };
   const summonedCard = GameState.Space.findCard(updatedState.space, cardInstanceId)!;
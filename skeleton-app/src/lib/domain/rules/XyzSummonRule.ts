@@ -0,0 +1,157 @@
+/**
+ * XyzSummonRule - エクシーズ召喚ルール
+ *
+ * @module domain/rules/XyzSummonRule
+ */
+
+import { Card, type CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import type { ValidationResult, AtomicStep, GameEvent } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { GameEvents } from "$lib/domain/models/GameProcessing/GameEvent";
+import { selectCardsStep } from "$lib/domain/dsl/steps/primitives/userInteractions";
+import { executeSpecialSummon } from "$lib/domain/rules/SummonRule";
+
+/** エクシーズ素材の数の省略時の値 */
+const DEFAULT_XYZ_MATERIAL_COUNT = 2;
+
+// ===========================
+// エクシーズ召喚判定
+// ===========================
+
+/**
+ * エクシーズ召喚が可能かをチェックする
+ *
+ * チェック項目:
+ * 1. メインフェイズであること
+ * 2. 指定カードがEXデッキのエクシーズモンスターであること
+ * 3. ランクと同じレベルのモンスターが必要な数だけフィールドに揃っていること
+ */
+export function canXyzSummon(state: GameSnapshot, cardInstanceId: string): ValidationResult {
+  // 1. メインフェイズであること
+  if (!GameState.Phase.isMain(state.phase)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_MAIN_PHASE);
+  }
+
+  // 2. 指定カードがEXデッキのエクシーズモンスターであること
+  const cardInstance = GameState.Space.findCard(state.space, cardInstanceId);
+  if (!cardInstance) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_FOUND);
+  }
+  if (!Card.isXyz(cardInstance)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NOT_XYZ_MONSTER);
+  }
+  if (cardInstance.location !== "extraDeck") {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.CARD_NOT_IN_EXTRA_DECK);
+  }
+
+  // 3. エクシーズ素材がフィールドに揃っていること
+  const candidates = getXyzMaterialCandidates(state, cardInstance);
+  if (candidates.length < xyzMaterialCountOf(cardInstance)) {
+    return GameProcessing.Validation.failure(GameProcessing.Validation.ERROR_CODES.NO_VALID_XYZ_MATERIALS);
+  }
+
+  return GameProcessing.Validation.success();
+}
+
+// ===========================
+// エクシーズ素材判定
+// ===========================
+
+/** エクシーズ召喚に必要な素材の数 */
+function xyzMaterialCountOf(xyzMonster: CardInstance): number {
+  return xyzMonster.xyzMaterialCount ?? DEFAULT_XYZ_MATERIAL_COUNT;
+}
+
+/** カードがエクシーズ素材になれるかチェック（表側表示・トークン以外・ランクと同じレベル） */
+function isValidXyzMaterial(card: CardInstance, rank: number): boolean {
+  return Card.Instance.isFaceUp(card) && !Card.isToken(card) && card.level === rank;
+}
+
+/** エクシーズ素材の候補（メインモンスターゾーンのモンスター） */
+function getXyzMaterialCandidates(state: GameSnapshot, xyzMonster: CardInstance): CardInstance[] {
+  const rank = xyzMonster.rank ?? 0;
+  return state.space.mainMonsterZone.filter((card) => isValidXyzMaterial(card, rank));
+}
+
+// ===========================
+// エクシーズ召喚実行
+// ===========================
+
+/**
+ * エクシーズ召喚の実行結果
+ */
+type XyzSummonResult = {
+  type: "needsSelection";
+  message: string;
+  step: AtomicStep;
+};
+
+/**
+ * エクシーズ召喚を実行する（素材選択ステップを返す）
+ *
+ * 処理フロー:
+ * 1. 素材選択ステップを生成（ランクと同じレベルのモンスターを選択）
+ * 2. 選択完了後、素材をフィールドから取り除きエクシーズモンスターを特殊召喚
+ * 3. 取り除いた素材をエクシーズモンスターの下に重ねる
+ */
+export function performXyzSummon(state: GameSnapshot, cardInstanceId: string): XyzSummonResult {
+  const xyzMonster = GameState.Space.findCard(state.space, cardInstanceId)!;
+  const rank = xyzMonster.rank ?? 0;
+  const materialCount = xyzMaterialCountOf(xyzMonster);
+
+  // 素材選択ステップを生成
+  const materialSelectionStep = selectCardsStep({
+    id: `${xyzMonster.id}-select-xyz-materials`,
+    sourceCardId: xyzMonster.id,
+    summary: "エクシーズ素材を選択",
+    description: `レベル ${rank} のモンスター${materialCount}体を選んでください`,
+    availableCards: null,
+    _sourceZone: "mainMonsterZone",
+    _filter: (card) => isValidXyzMaterial(card, rank),
+    minCards: materialCount,
+    maxCards: materialCount,
+    cancelable: true,
+    onSelect: (currentState, selectedIds) => {
+      if (selectedIds.length === 0) {
+        return GameProcessing.Result.failure(currentState, "エクシーズ召喚をキャンセルしました");
+      }
+
+      // 素材をフィールドから取り除く（墓地へは送らない）
+      const { space: removedSpace, materials } = GameState.Space.takeXyzMaterialsFromField(
+        currentState.space,
+        selectedIds,
+      );
+
+      // エクシーズモンスターを特殊召喚（executeSpecialSummon を使用）
+      const tempState: GameSnapshot = { ...currentState, space: removedSpace };
+      const { state: summonedState, event: specialSummonEvent } = executeSpecialSummon(
+        tempState,
+        cardInstanceId,
+        "attack",
+      );
+
+      // 素材を重ねる
+      const finalState: GameSnapshot = {
+        ...summonedState,
+        space: GameState.Space.attachXyzMaterials(summonedState.space, cardInstanceId, materials),
+      };
+      const summonedMonster = GameState.Space.findCard(finalState.space, cardInstanceId)!;
+
+      const emittedEvents: GameEvent[] = [specialSummonEvent, GameEvents.xyzSummoned(summonedMonster)];
+
+      return GameProcessing.Result.success(
+        finalState,
+        `${Card.nameWithBrackets(summonedMonster)}をエクシーズ召喚しました`,
+        emittedEvents,
+      );
+    },
+  });
+
+  return {
+    type: "needsSelection",
+    message: `${Card.nameWithBrackets(xyzMonster)}のエクシーズ素材を選択してください`,
+    step: materialSelectionStep,
+  };
+}
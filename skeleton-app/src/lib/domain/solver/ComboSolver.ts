@@ -0,0 +1,297 @@
+/**
+ * ComboSolver - 先攻1ターンキルのコンボ探索
+ *
+ * 与えられた局面から、プレイヤーが実行可能な操作（GameCommand.canExecute で判定）と
+ * 効果処理中の意思決定（カード選択・チェーン・任意誘発）を深さ優先で探索し、
+ * 勝利（エクゾディア / 相手LP0）に到達する操作列を返す。
+ *
+ * デッキ順・乱数状態を含む局面をそのまま使う完全情報探索であり、Svelte ストアには依存しない。
+ *
+ * @module domain/solver/ComboSolver
+ */
+
+import type { CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { InteractionAnswer } from "$lib/domain/models/GameProcessing";
+import type { GameCommand } from "$lib/domain/models/Command";
+import { ActivateSpellCommand } from "$lib/domain/commands/ActivateSpellCommand";
+import { ActivateTrapCommand } from "$lib/domain/commands/ActivateTrapCommand";
+import { NormalSummonCommand } from "$lib/domain/commands/NormalSummonCommand";
+import { ActivateIgnitionEffectCommand } from "$lib/domain/commands/ActivateIgnitionEffectCommand";
+import { SynchroSummonCommand } from "$lib/domain/commands/SynchroSummonCommand";
+import { XyzSummonCommand } from "$lib/domain/commands/XyzSummonCommand";
+import { LinkSummonCommand } from "$lib/domain/commands/LinkSummonCommand";
+import type { ProcessingOutcome } from "./EffectProcessing";
+import { startEffectProcessing } from "./EffectProcessing";
+
+/** 探索対象のコマンド名（アプリ層の操作履歴と同じ名前） */
+export type SolverCommandName =
+  | "activateSpell"
+  | "activateTrap"
+  | "normalSummon"
+  | "activateIgnitionEffect"
+  | "synchroSummon"
+  | "xyzSummon"
+  | "linkSummon";
+
+/**
+ * 探索結果の1手
+ *
+ * アプリ層の操作履歴（リプレイ）エントリと同じ形式のため、そのまま再生できる。
+ */
+export type SolverMove =
+  | {
+      readonly type: "command";
+      readonly command: SolverCommandName;
+      readonly args: readonly string[];
+      /** 対象カードのID（表示用） */
+      readonly cardId: number;
+    }
+  | { readonly type: "answer"; readonly answer: InteractionAnswer };
+
+/**
+ * 探索結果
+ *
+ * - win: 勝利する操作列が見つかった
+ * - noWin: 全ての分岐を探索したが勝利できない
+ * - budgetExceeded: 探索上限（局面数・操作数・カード選択の列挙数）に達した（勝利できないとは限らない）
+ */
+export interface SolverResult {
+  readonly status: "win" | "noWin" | "budgetExceeded";
+  readonly moves: readonly SolverMove[];
+  /** 勝利局面（status が win の場合のみ） */
+  readonly finalState?: GameSnapshot;
+  /** 探索した局面数 */
+  readonly exploredNodes: number;
+}
+
+/** 探索オプション */
+export interface SolverOptions {
+  /** 1本の操作列に含めるコマンド数の上限 */
+  readonly maxDepth?: number;
+  /** 探索する局面数の上限 */
+  readonly maxNodes?: number;
+  /** 1回のカード選択で列挙する選択肢の上限 */
+  readonly maxSelectionOptions?: number;
+}
+
+const DEFAULT_MAX_DEPTH = 20;
+const DEFAULT_MAX_NODES = 20000;
+
+/** 探索候補のコマンド */
+export interface CandidateCommand {
+  readonly name: SolverCommandName;
+  readonly instance: CardInstance;
+  readonly command: GameCommand;
+  readonly args: readonly string[];
+}
+
+/** 勝利局面かどうか（プレイヤーの勝利で決着している） */
+export const isPlayerWin = (state: GameSnapshot): boolean =>
+  state.result.isGameOver && state.result.winner === "player";
+
+// =============================================================================
+// 候補列挙
+// =============================================================================
+
+// 同一視できるカードの識別キー
+const cardKey = (card: CardInstance): string => `${card.id}:${JSON.stringify(card.stateOnField ?? null)}`;
+
+/**
+ * 局面で実行可能なコマンドを列挙する
+ *
+ * GameFacade の canActivateSpell / canActivateTrap / canSummonMonster / canActivateIgnitionEffect / canSynchroSummon と
+ * 同じ canExecute で判定する。同じ位置にある同一カードは1つにまとめる。
+ */
+export function enumerateCandidateCommands(state: GameSnapshot): CandidateCommand[] {
+  const { hand, spellTrapZone, fieldZone, mainMonsterZone, extraMonsterZone, extraDeck } = state.space;
+  const sources: [SolverCommandName, readonly CardInstance[], (instanceId: string) => GameCommand, string[]][] = [
+    ["activateSpell", [...hand, ...spellTrapZone], (id) => new ActivateSpellCommand(id), []],
+    ["activateTrap", spellTrapZone, (id) => new ActivateTrapCommand(id), []],
+    ["normalSummon", hand, (id) => new NormalSummonCommand(id, "summon"), ["summon"]],
+    [
+      "activateIgnitionEffect",
+      [...mainMonsterZone, ...extraMonsterZone, ...spellTrapZone, ...fieldZone],
+      (id) => new ActivateIgnitionEffectCommand(id),
+      [],
+    ],
+    ["synchroSummon", extraDeck, (id) => new SynchroSummonCommand(id), []],
+    ["xyzSummon", extraDeck, (id) => new XyzSummonCommand(id), []],
+    ["linkSummon", extraDeck, (id) => new LinkSummonCommand(id), []],
+  ];
+
+  const candidates: CandidateCommand[] = [];
+  const seen = new Set<string>();
+  for (const [name, cards, createCommand, extraArgs] of sources) {
+    for (const instance of cards) {
+      const key = `${name}:${instance.location}:${cardKey(instance)}`;
+      if (seen.has(key)) continue;
+      const command = createCommand(instance.instanceId);
+      if (!command.canExecute(state).isValid) continue;
+      seen.add(key);
+      candidates.push({ name, instance, command, args: [instance.instanceId, ...extraArgs] });
+    }
+  }
+  return candidates;
+}
+
+// =============================================================================
+// 局面の同一視
+// =============================================================================
+
+/**
+ * 探索済み判定用の局面キーを生成する
+ *
+ * インスタンスIDは無視し、順序に意味のないゾーンはソートする（メインデッキの順序は保持する）。
+ */
+export function stateKey(state: GameSnapshot): string {
+  const { mainDeck, ...unorderedZones } = state.space;
+  const zones = Object.entries(unorderedZones)
+    .map(([name, cards]) => `${name}=${cards.map(cardKey).sort().join(",")}`)
+    .join(";");
+  return JSON.stringify([
+    zones,
+    mainDeck.map((card) => card.id),
+    state.lp,
+    state.phase,
+    state.normalSummonUsed,
+    state.normalSummonLimit,
+    [...state.activatedCardIds].sort(),
+    state.activationContexts,
+    state.queuedEndPhaseEffectIds,
+    state.rng,
+  ]);
+}
+
+// =============================================================================
+// 探索
+// =============================================================================
+
+/**
+ * 局面から勝利する操作列を探索する
+ *
+ * 効果処理の途中で勝敗が決した場合もその時点で勝利とする。
+ */
+export function solveCombo(state: GameSnapshot, options: SolverOptions = {}): SolverResult {
+  return runSearch(state, options, () => true);
+}
+
+/** 候補コマンドごとの探索結果 */
+export interface CandidateAnalysis {
+  readonly candidate: CandidateCommand;
+  /** 最初の1手をこの候補に固定して探索した結果 */
+  readonly result: SolverResult;
+}
+
+/**
+ * 局面で実行可能な各コマンドについて、最初の1手に選んだ場合の勝ち筋を探索する
+ *
+ * 探索上限（maxNodes）は候補ごとに適用する。
+ */
+export function analyzeCandidateCommands(state: GameSnapshot, options: SolverOptions = {}): CandidateAnalysis[] {
+  return enumerateCandidateCommands(state).map((candidate) => analyzeCandidateCommand(state, candidate, options));
+}
+
+/**
+ * 最初の1手を指定のコマンドに固定して勝ち筋を探索する
+ */
+export function analyzeCandidateCommand(
+  state: GameSnapshot,
+  candidate: CandidateCommand,
+  options: SolverOptions = {},
+): CandidateAnalysis {
+  return {
+    candidate,
+    result: runSearch(
+      state,
+      options,
+      (first) => first.name === candidate.name && first.instance.instanceId === candidate.instance.instanceId,
+    ),
+  };
+}
+
+// 深さ優先探索の本体（isFirstMove で最初の1手の候補を絞り込む）
+function runSearch(
+  state: GameSnapshot,
+  options: SolverOptions,
+  isFirstMove: (candidate: CandidateCommand) => boolean,
+): SolverResult {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const processingOptions = { maxSelectionOptions: options.maxSelectionOptions };
+  // 探索済みの局面と、探索時点で残っていたコマンド数（浅い位置で再訪した場合は探索し直す）
+  const visited = new Map<string, number>();
+  let exploredNodes = 0;
+  let budgetExceeded = false;
+  // 操作数の上限・カード選択の列挙の上限で打ち切った分岐があるか（探索は続けるが、勝利できないことの証明にはならない）
+  let searchTruncated = false;
+
+  // 効果処理の分岐を辿り、処理完了後の局面から探索を続ける
+  const followOutcome = (
+    outcome: ProcessingOutcome,
+    moves: SolverMove[],
+    depth: number,
+  ): { moves: SolverMove[]; state: GameSnapshot } | null => {
+    if (outcome.kind === "settled") {
+      return searchState(outcome.state, moves, depth);
+    }
+    if (outcome.truncated) searchTruncated = true;
+    for (const option of outcome.options) {
+      const found = followOutcome(option.resume(), [...moves, { type: "answer", answer: option.answer }], depth);
+      if (found || budgetExceeded) return found;
+    }
+    return null;
+  };
+
+  // 処理完了後の局面から次のコマンドを探索する
+  const searchState = (
+    current: GameSnapshot,
+    moves: SolverMove[],
+    depth: number,
+  ): { moves: SolverMove[]; state: GameSnapshot } | null => {
+    if (isPlayerWin(current)) return { moves, state: current };
+    if (current.result.isGameOver) return null;
+    if (depth >= maxDepth) {
+      searchTruncated = true;
+      return null;
+    }
+
+    const key = stateKey(current);
+    const remainingDepth = maxDepth - depth;
+    if ((visited.get(key) ?? 0) >= remainingDepth) return null;
+    if (exploredNodes >= maxNodes) {
+      budgetExceeded = true;
+      return null;
+    }
+    visited.set(key, remainingDepth);
+    exploredNodes++;
+
+    for (const candidate of enumerateCandidateCommands(current)) {
+      if (depth === 0 && !isFirstMove(candidate)) continue;
+      const result = candidate.command.execute(current);
+      if (!result.success) continue;
+
+      const move: SolverMove = {
+        type: "command",
+        command: candidate.name,
+        args: candidate.args,
+        cardId: candidate.instance.id,
+      };
+      const outcome = startEffectProcessing(
+        result.updatedState,
+        result.chainBlock,
+        result.activationSteps,
+        processingOptions,
+      );
+      const found = followOutcome(outcome, [...moves, move], depth + 1);
+      if (found || budgetExceeded) return found;
+    }
+    return null;
+  };
+
+  const found = searchState(state, [], 0);
+  if (found) {
+    return { status: "win", moves: found.moves, finalState: found.state, exploredNodes };
+  }
+  return { status: budgetExceeded || searchTruncated ? "budgetExceeded" : "noWin", moves: [], exploredNodes };
+}
@@ -0,0 +1,174 @@
+/**
+ * EffectProcessing - 探索用の効果処理の分岐
+ *
+ * 効果処理ルール（EffectProcessingRule）で AtomicStep を進め、ユーザーの意思決定が必要な箇所では
+ * 取りうる回答ごとの続きを返すため、探索（ComboSolver）で分岐させられる。
+ *
+ * @module domain/solver/EffectProcessing
+ * @see {@link docs/domain/chain-system.md}
+ */
+
+import type { CardInstance } from "$lib/domain/models/Card";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { AtomicStep, CardSelectionConfig, InteractionAnswer } from "$lib/domain/models/GameProcessing";
+import type { ChainBlockParams } from "$lib/domain/models/Chain";
+import type { EffectProcessingDecision, EffectProcessingProgress } from "$lib/domain/rules/EffectProcessingRule";
+import {
+  EMPTY_CHAIN_STACK,
+  advanceEffectProcessing,
+  answerEffectProcessing,
+  beginEffectProcessing,
+  runEffectProcessing,
+} from "$lib/domain/rules/EffectProcessingRule";
+
+/** 意思決定の選択肢（回答と、その回答で処理を再開する関数） */
+export interface ProcessingOption {
+  readonly answer: InteractionAnswer;
+  readonly resume: () => ProcessingOutcome;
+}
+
+/**
+ * 効果処理の実行結果
+ *
+ * - settled: 全ての効果処理・チェーン解決が完了した
+ * - decision: ユーザーの意思決定待ち（options のいずれかを選んで再開する）
+ *   truncated が true の場合、カード選択の列挙を上限で打ち切っており options は全ての回答ではない
+ */
+export type ProcessingOutcome =
+  | { readonly kind: "settled"; readonly state: GameSnapshot }
+  | { readonly kind: "decision"; readonly options: readonly ProcessingOption[]; readonly truncated: boolean };
+
+/** 効果処理の実行オプション */
+export interface ProcessingOptions {
+  /** 1回のカード選択で列挙する選択肢の上限 */
+  readonly maxSelectionOptions?: number;
+}
+
+const DEFAULT_MAX_SELECTION_OPTIONS = 256;
+
+// =============================================================================
+// カード選択の列挙
+// =============================================================================
+
+// 同一視できるカードの識別キー（同じカード・同じ位置・同じフィールド状態なら区別しない）
+const equivalenceKey = (card: CardInstance): string =>
+  `${card.id}:${card.location}:${JSON.stringify(card.stateOnField ?? null)}`;
+
+/**
+ * カード選択の候補（minCards〜maxCards 枚の組み合わせ）を列挙する
+ *
+ * 同一視できるカードの入れ替えだけが異なる組み合わせは1つにまとめる。
+ * 候補が足りず不発になる場合は、空の選択のみを返す。
+ */
+export function enumerateCardSelections(
+  config: CardSelectionConfig,
+  availableCards: readonly CardInstance[],
+  limit: number = DEFAULT_MAX_SELECTION_OPTIONS,
+): string[][] {
+  if (availableCards.length < config.minCards) return [[]];
+
+  const results: string[][] = [];
+  const seen = new Set<string>();
+  const maxCards = Math.min(config.maxCards, availableCards.length);
+
+  const visit = (start: number, picked: CardInstance[]): void => {
+    if (results.length >= limit) return;
+    if (picked.length >= config.minCards) {
+      const key = picked.map(equivalenceKey).sort().join("|");
+      if (!seen.has(key) && (!config.canConfirm || config.canConfirm(picked))) {
+        seen.add(key);
+        results.push(picked.map((card) => card.instanceId));
+      }
+    }
+    if (picked.length === maxCards) return;
+    for (let i = start; i < availableCards.length; i++) {
+      visit(i + 1, [...picked, availableCards[i]]);
+    }
+  };
+  visit(0, []);
+
+  return results;
+}
+
+// =============================================================================
+// 意思決定の分岐
+// =============================================================================
+
+// 意思決定に対して取りうる回答を列挙する（カード選択が上限を超える場合は打ち切ったことも返す）
+function enumerateAnswers(
+  decision: EffectProcessingDecision,
+  maxSelectionOptions: number,
+): { answers: InteractionAnswer[]; truncated: boolean } {
+  switch (decision.kind) {
+    case "confirmation":
+      return { answers: [{ kind: "confirmation" }], truncated: false };
+    case "cardSelection": {
+      // 上限より1つ多く列挙し、上限を超えたかどうかを判定する
+      const selections = enumerateCardSelections(decision.config, decision.availableCards, maxSelectionOptions + 1);
+      const answers: InteractionAnswer[] = selections
+        .slice(0, maxSelectionOptions)
+        .map((selectedInstanceIds) => ({ kind: "cardSelection", selectedInstanceIds }));
+      if (decision.config.cancelable) {
+        answers.push({ kind: "cardSelectionCancel" });
+      }
+      return { answers, truncated: selections.length > maxSelectionOptions };
+    }
+    case "optionalTrigger":
+      return {
+        answers: [
+          { kind: "optionalTrigger", activate: true },
+          { kind: "optionalTrigger", activate: false },
+        ],
+        truncated: false,
+      };
+    case "chain":
+      return {
+        answers: [
+          ...decision.chainableCards.map(
+            ({ instance }) => ({ kind: "chain", instanceId: instance.instanceId }) as const,
+          ),
+          { kind: "chain", instanceId: null },
+        ],
+        truncated: false,
+      };
+  }
+}
+
+// 意思決定待ち、または完了まで処理を進め、回答ごとの続きを返す
+function toOutcome(progress: EffectProcessingProgress, maxSelectionOptions: number): ProcessingOutcome {
+  const stopped = runEffectProcessing(progress);
+  if (stopped.kind === "settled") {
+    return { kind: "settled", state: stopped.processing.state };
+  }
+
+  const { answers, truncated } = enumerateAnswers(stopped.decision, maxSelectionOptions);
+  return {
+    kind: "decision",
+    options: answers.map((answer) => ({
+      answer,
+      resume: () => toOutcome(answerEffectProcessing(stopped.processing, answer), maxSelectionOptions),
+    })),
+    truncated,
+  };
+}
+
+// =============================================================================
+// 公開API
+// =============================================================================
+
+/**
+ * コマンド実行結果の効果処理を開始する（effectQueueStore.handleEffectQueues 相当）
+ *
+ * @param state コマンド実行後のゲーム状態
+ * @param chainBlock コマンドが生成したチェーンブロック
+ * @param activationSteps コマンドが生成した発動時処理
+ */
+export function startEffectProcessing(
+  state: GameSnapshot,
+  chainBlock: ChainBlockParams | undefined,
+  activationSteps: readonly AtomicStep[],
+  options: ProcessingOptions = {},
+): ProcessingOutcome {
+  const processing = beginEffectProcessing(state, EMPTY_CHAIN_STACK, chainBlock, activationSteps);
+  return toOutcome(advanceEffectProcessing(processing), options.maxSelectionOptions ?? DEFAULT_MAX_SELECTION_OPTIONS);
+}
@@ -0,0 +1,39 @@
+/**
+ * LocalStorageDeckRecipeRepository - カスタムデッキレシピの localStorage 永続化
+ *
+ * デッキレシピごとに `ygo_deck_recipe:<deckId>` キーへ保存する。
+ *
+ * @architecture レイヤー間依存ルール - インフラ層（Adapter）
+ * - ROLE: IDeckRecipeRepository の localStorage 実装
+ * - ALLOWED: アプリ層の Port インターフェースへの依存
+ * - FORBIDDEN: プレゼン層への依存
+ *
+ * @module infrastructure/adapters/LocalStorageDeckRecipeRepository
+ */
+
+import type { IDeckRecipeRepository, StoredDeckRecipe } from "$lib/application/ports/IDeckRecipeRepository";
+
+const RECIPE_KEY_PREFIX = "ygo_deck_recipe:";
+
+const recipeKey = (deckId: string): string => `${RECIPE_KEY_PREFIX}${deckId}`;
+
+export class LocalStorageDeckRecipeRepository implements IDeckRecipeRepository {
+  save(deckId: string, json: string): void {
+    localStorage.setItem(recipeKey(deckId), json);
+  }
+
+  delete(deckId: string): void {
+    localStorage.removeItem(recipeKey(deckId));
+  }
+
+  list(): StoredDeckRecipe[] {
+    const recipes: StoredDeckRecipe[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(RECIPE_KEY_PREFIX)) continue;
+      const json = localStorage.getItem(key);
+      if (json !== null) recipes.push({ deckId: key.slice(RECIPE_KEY_PREFIX.length), json });
+    }
+    return recipes;
+  }
+}
@@ -1,6 +1,9 @@
 /**
  * LocalStorageGameSnapshotRepository - ゲーム状態の localStorage 永続化
  *
+ * セーブスロットごとに `ygo_save_slot:<slotId>` キーへ保存する。
+ * 旧形式の単一キー（ygo_saved_game）が残っている場合は、自動保存スロットへ移動する。
+ *
  * @architecture レイヤー間依存ルール - インフラ層（Adapter）
  * - ROLE: IGameSnapshotRepository の localStorage 実装
  * - ALLOWED: アプリ層の Port インターフェースへの依存
@@ -9,35 +12,49 @@
  * @module infrastructure/adapters/LocalStorageGameSnapshotRepository
  */
 
-import type { IGameSnapshotRepository, SavedGameState } from "$lib/application/ports/IGameSnapshotRepository";
-import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { IGameSnapshotRepository, StoredSaveSlot } from "$lib/application/ports/IGameSnapshotRepository";
+import { AUTO_SAVE_SLOT_ID } from "$lib/application/ports/IGameSnapshotRepository";
+
+const SLOT_KEY_PREFIX = "ygo_save_slot:";
+const LEGACY_STORAGE_KEY = "ygo_saved_game";
 
-const STORAGE_KEY = "ygo_saved_game";
+const slotKey = (slotId: string): string => `${SLOT_KEY_PREFIX}${slotId}`;
 
 export class LocalStorageGameSnapshotRepository implements IGameSnapshotRepository {
-  save(deckId: string, snapshot: GameSnapshot): void {
-    const data: SavedGameState = { version: 1, deckId, snapshot };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  constructor() {
+    this.moveLegacySave();
   }
 
-  load(): SavedGameState | null {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return null;
+  save(slotId: string, json: string): void {
+    localStorage.setItem(slotKey(slotId), json);
+  }
 
-    try {
-      const parsed = JSON.parse(raw) as SavedGameState;
-      if (parsed.version !== 1) return null;
-      return parsed;
-    } catch {
-      return null;
-    }
+  load(slotId: string): string | null {
+    return localStorage.getItem(slotKey(slotId));
   }
 
-  clear(): void {
-    localStorage.removeItem(STORAGE_KEY);
+  delete(slotId: string): void {
+    localStorage.removeItem(slotKey(slotId));
   }
 
-  hasSavedState(): boolean {
-    return localStorage.getItem(STORAGE_KEY) !== null;
+  list(): StoredSaveSlot[] {
+    const slots: StoredSaveSlot[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(SLOT_KEY_PREFIX)) continue;
+      const json = localStorage.getItem(key);
+      if (json !== null) slots.push({ slotId: key.slice(SLOT_KEY_PREFIX.length), json });
+    }
+    return slots;
+  }
+
+  /** 旧形式の単一キーの保存データを自動保存スロットへ移動する（形式の移行は読み込み時に行う） */
+  private moveLegacySave(): void {
+    const json = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (json === null) return;
+    if (this.load(AUTO_SAVE_SLOT_ID) === null) {
+      this.save(AUTO_SAVE_SLOT_ID, json);
+    }
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
   }
 }
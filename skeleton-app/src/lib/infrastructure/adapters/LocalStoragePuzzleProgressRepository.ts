@@ -0,0 +1,47 @@
+/**
+ * LocalStoragePuzzleProgressRepository - パズル進捗の localStorage 永続化
+ *
+ * 全パズルの進捗を `ygo_puzzle_progress` キーに1つの JSON として保存する。
+ * 読み込めない保存データは破棄して、未挑戦として扱う。
+ *
+ * @architecture レイヤー間依存ルール - インフラ層（Adapter）
+ * - ROLE: IPuzzleProgressRepository の localStorage 実装
+ * - ALLOWED: アプリ層の Port インターフェースへの依存
+ * - FORBIDDEN: プレゼン層への依存
+ *
+ * @module infrastructure/adapters/LocalStoragePuzzleProgressRepository
+ */
+
+import type {
+  IPuzzleProgressRepository,
+  PuzzleProgress,
+  PuzzleProgressEntry,
+} from "$lib/application/ports/IPuzzleProgressRepository";
+
+const STORAGE_KEY = "ygo_puzzle_progress";
+
+const isProgressEntry = (value: unknown): value is PuzzleProgressEntry => {
+  if (typeof value !== "object" || value === null) return false;
+  const { attempts, clearedAt } = value as Record<string, unknown>;
+  return typeof attempts === "number" && (clearedAt === null || typeof clearedAt === "number");
+};
+
+export class LocalStoragePuzzleProgressRepository implements IPuzzleProgressRepository {
+  load(): PuzzleProgress {
+    const json = localStorage.getItem(STORAGE_KEY);
+    if (json === null) return {};
+
+    try {
+      const raw: unknown = JSON.parse(json);
+      if (typeof raw !== "object" || raw === null) return {};
+      return Object.fromEntries(Object.entries(raw).filter(([, entry]) => isProgressEntry(entry)));
+    } catch (error) {
+      console.error("[LocalStoragePuzzleProgressRepository] Failed to parse puzzle progress:", error);
+      return {};
+    }
+  }
+
+  save(progress: PuzzleProgress): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  }
+}
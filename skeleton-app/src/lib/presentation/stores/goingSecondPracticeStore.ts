@@ -0,0 +1,37 @@
+/**
+ * goingSecondPracticeStore - 後攻ワンキル練習の有効/無効を管理するストア
+ *
+ * 有効の場合: 新規ゲームを後攻1ターン目から開始し、バトルフェイズで攻撃できる
+ * 無効の場合: 新規ゲームを先攻1ターン目から開始する（バトルフェイズを行えない）
+ */
+
+import { writable, get } from "svelte/store";
+
+const STORAGE_KEY = "goingSecondPracticeEnabled";
+
+/** 後攻ワンキル練習の有効/無効状態 */
+export const goingSecondPracticeEnabled = writable<boolean>(loadEnabledState());
+
+/** ローカルストレージから有効状態を読み込む */
+function loadEnabledState(): boolean {
+  if (typeof window === "undefined") return false;
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored !== null) {
+    return stored === "true";
+  }
+  // 初回アクセス時: デフォルトは無効（先攻1ターン目から開始）
+  return false;
+}
+
+/** 後攻ワンキル練習の有効/無効を取得 */
+export function getGoingSecondPracticeEnabled(): boolean {
+  return get(goingSecondPracticeEnabled);
+}
+
+/** 後攻ワンキル練習の有効/無効を設定 */
+export function setGoingSecondPracticeEnabled(enabled: boolean) {
+  goingSecondPracticeEnabled.set(enabled);
+  if (typeof window !== "undefined") {
+    localStorage.setItem(STORAGE_KEY, String(enabled));
+  }
+}
@@ -0,0 +1,16 @@
+/** ヒントモードでハイライトするカード */
+export interface HintHighlight {
+  /** 次に操作すべきカードのインスタンスID */
+  readonly recommendedInstanceId: string | null;
+  /** 操作すると勝ち筋がなくなるカードのインスタンスID */
+  readonly warningInstanceIds: ReadonlySet<string>;
+}
+
+export const EMPTY_HINT_HIGHLIGHT: HintHighlight = { recommendedInstanceId: null, warningInstanceIds: new Set() };
+
+/** カードに付けるハイライトのクラス（推奨: 緑枠、警告: 赤枠） */
+export const getHintHighlightClass = (highlight: HintHighlight, instanceId: string): string => {
+  if (instanceId === highlight.recommendedInstanceId) return "rounded-lg ring-4 ring-success-500";
+  if (highlight.warningInstanceIds.has(instanceId)) return "rounded-lg ring-4 ring-error-500";
+  return "";
+};
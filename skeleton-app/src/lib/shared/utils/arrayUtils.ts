@@ -13,6 +13,7 @@
  *
  * @template T - 配列要素の型
  * @param array - シャッフルする配列（readonly）
+ * @param random - [0, 1) の乱数を返す関数（省略時: Math.random）。シード付き乱数を注入すると結果を再現できる
  * @returns シャッフルされた新しい配列
  *
  * @example
@@ -21,14 +22,14 @@
  * // shuffled: [3, 1, 5, 2, 4] (例)
  * // deck: [1, 2, 3, 4, 5] (元の配列は変更されない)
  */
-export function shuffleArray<T>(array: readonly T[]): T[] {
+export function shuffleArray<T>(array: readonly T[], random: () => number = Math.random): T[] {
   // 元の配列をコピーして不変性を保証
   const shuffled = [...array];
 
   // Fisher-Yates (Knuth) シャッフル
   // 配列の末尾から順に、ランダムな位置の要素と入れ替える
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
 
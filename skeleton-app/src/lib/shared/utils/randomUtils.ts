@@ -0,0 +1,41 @@
+/**
+ * randomUtils.ts
+ *
+ * シード付き擬似乱数生成ユーティリティ
+ *
+ * 状態を外部（GameSnapshot 等）に保持できるよう、内部状態を持たない純粋関数として実装する。
+ */
+
+/** 32bit 符号なし整数の上限（2^32） */
+const UINT32_RANGE = 0x100000000;
+
+/**
+ * Mulberry32 アルゴリズムで次の乱数を生成する
+ *
+ * - 周期: 2^32
+ * - 同じ state からは常に同じ value / nextState が得られる（再現性を保証）
+ *
+ * @returns value: [0, 1) の乱数, nextState: 次回呼び出し用の状態
+ */
+export function nextRandom(state: number): { value: number; nextState: number } {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  return { value, nextState };
+}
+
+/** シード値を 32bit 符号なし整数に正規化する */
+export function normalizeSeed(seed: number): number {
+  return Math.floor(Math.abs(seed)) % UINT32_RANGE;
+}
+
+/**
+ * 新しいシード値をランダムに生成する
+ *
+ * シード未指定のゲーム開始時にのみ使用する。（再現性が不要な唯一の乱数源）
+ */
+export function generateRandomSeed(): number {
+  return Math.floor(Math.random() * UINT32_RANGE);
+}
@@ -0,0 +1,17 @@
+import type { LayoutLoad } from "./$types";
+import { browser } from "$app/environment";
+import { gameFacade } from "$lib/application/GameFacade";
+import { LocalStorageGameSnapshotRepository } from "$lib/infrastructure/adapters/LocalStorageGameSnapshotRepository";
+import { LocalStoragePuzzleProgressRepository } from "$lib/infrastructure/adapters/LocalStoragePuzzleProgressRepository";
+import { LocalStorageDeckRecipeRepository } from "$lib/infrastructure/adapters/LocalStorageDeckRecipeRepository";
+
+// browser環境でのみ repository を初期化する
+// ページの load でカスタムデッキを参照するため、ページの load（await parent() で待つ）より先に実行する
+export const load: LayoutLoad = () => {
+  if (browser) {
+    gameFacade.setSnapshotRepository(new LocalStorageGameSnapshotRepository());
+    gameFacade.setPuzzleProgressRepository(new LocalStoragePuzzleProgressRepository());
+    gameFacade.setDeckRecipeRepository(new LocalStorageDeckRecipeRepository());
+  }
+  return {};
+};
@@ -0,0 +1,14 @@
+import type { PageLoad } from "./$types";
+import { gameFacade } from "$lib/application/GameFacade";
+
+export const load: PageLoad = async ({ params, parent }) => {
+  // カスタムデッキを参照するため、layout の repository 初期化を待つ
+  await parent();
+  // デッキID指定時は保存済みのカスタムデッキを編集する（省略時は新規作成）
+  const { deckId } = params;
+
+  const cards = gameFacade.getDeckBuilderCards();
+  const deckRecipe = deckId ? gameFacade.getDeckRecipe(deckId) : undefined;
+
+  return { deckId, cards, deckRecipe };
+};
@@ -0,0 +1,10 @@
+import type { PageLoad } from "./$types";
+import { getPuzzle, extractPuzzleCardIds } from "$lib/application/puzzles/puzzleLoader";
+
+export const load: PageLoad = ({ params }) => {
+  const { puzzleId } = params;
+  const puzzle = getPuzzle(puzzleId);
+  const uniqueCardIds = extractPuzzleCardIds(puzzle, true);
+
+  return { puzzleId, puzzle, uniqueCardIds };
+};
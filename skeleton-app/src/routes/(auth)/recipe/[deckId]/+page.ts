@@ -2,11 +2,15 @@ import type { PageLoad } from "./$types";
 import { gameFacade } from "$lib/application/GameFacade";
 import { extractDisplayCardIds } from "$lib/application/decks/deckLoader";
 
-export const load: PageLoad = ({ params }) => {
+export const load: PageLoad = async ({ params, parent }) => {
+  // カスタムデッキを参照するため、layout の repository 初期化を待つ
+  await parent();
   const { deckId } = params;
 
   const deckData = gameFacade.setupDeck(deckId, true);
   const uniqueCardIds = extractDisplayCardIds(deckData);
+  // YDK・ydke:// URL への書き出し用
+  const deckRecipe = gameFacade.getDeckRecipe(deckId);
 
-  return { deckId, deckData, uniqueCardIds };
+  return { deckId, deckData, uniqueCardIds, deckRecipe };
 };
@@ -1,14 +1,29 @@
 import type { PageLoad } from "./$types";
 import { gameFacade } from "$lib/application/GameFacade";
 import { extractDisplayCardIds } from "$lib/application/decks/deckLoader";
+import { getGoingSecondPracticeEnabled } from "$lib/presentation/stores/goingSecondPracticeStore";
 
-export const load: PageLoad = ({ params, url }) => {
+export const load: PageLoad = async ({ params, url, parent }) => {
+  // カスタムデッキを参照するため、layout の repository 初期化を待つ
+  await parent();
   const { deckId } = params;
-  const isRestore = url.searchParams.get("restore") === "true";
+  // restore=<スロットID> で保存済みゲームを再開する（"true" は自動保存スロット）
+  const restoreParam = url.searchParams.get("restore");
+  const restoreSlotId = restoreParam === null || restoreParam === "true" ? undefined : restoreParam;
+  // position=<局面コード> で共有された局面を開く
+  const positionCode = url.searchParams.get("position") ?? undefined;
+  const isRestore = restoreParam !== null || positionCode !== undefined;
+
+  // シード指定がある場合は同じデュエルを再現する（不正な値は無視してランダム）
+  const seedParam = Number(url.searchParams.get("seed") ?? NaN);
+  const seed = Number.isInteger(seedParam) && seedParam >= 0 ? seedParam : undefined;
 
   // 復元モードの場合はカードデータのみ準備し、ゲーム状態はリセットしない
-  const deckData = isRestore ? gameFacade.setupDeck(deckId) : gameFacade.newGame(deckId);
+  // 後攻ワンキル練習が有効な場合は、後攻1ターン目（バトルフェイズを行える）から開始する
+  const deckData = isRestore
+    ? gameFacade.setupDeck(deckId)
+    : gameFacade.newGame(deckId, { seed, goingSecond: getGoingSecondPracticeEnabled() });
   const uniqueCardIds = extractDisplayCardIds(deckData, true);
 
-  return { deckId, deckData, uniqueCardIds, isRestore };
+  return { deckId, deckData, uniqueCardIds, isRestore, restoreSlotId, positionCode };
 };
@@ -0,0 +1,11 @@
+import type { PageLoad } from "./$types";
+import { gameFacade } from "$lib/application/GameFacade";
+
+export const load: PageLoad = async ({ params, parent }) => {
+  // カスタムデッキを参照するため、layout の repository 初期化を待つ
+  await parent();
+  const { deckId } = params;
+  const deckRecipe = gameFacade.getDeckRecipe(deckId);
+
+  return { deckId, deckRecipe };
+};
@@ -7,7 +7,13 @@ import { QuickPlaySpellActivation } from "$lib/domain/effects/actions/activation
 import { ContinuousSpellActivation } from "$lib/domain/effects/actions/activations/ContinuousSpellActivation";
 import { FieldSpellActivation } from "$lib/domain/effects/actions/activations/FieldSpellActivation";
 import { EquipSpellActivation } from "$lib/domain/effects/actions/activations/EquipSpellActivation";
-import { GenericTriggerEffect } from "$lib/domain/dsl/factories";
+import { ContinuousTrapActivation } from "$lib/domain/effects/actions/activations/ContinuousTrapActivation";
+import {
+  GenericTriggerEffect,
+  GenericRitualSpellActivation,
+  GenericNormalTrapActivation,
+  GenericCounterTrapActivation,
+} from "$lib/domain/dsl/factories";
 
 // =============================================================================
 // テスト向けカード登録
@@ -20,6 +26,8 @@ const _CARD_IDS = [
   8124921, // 封印されし者の右足
   44519536, // 封印されし者の左足
   70791313, // 王立魔法図書館
+  581014, // ダイガスタ・エメラル
+  22862454, // プロキシー・ドラゴン
   90953320, // ＴＧ ハイパー・ライブラリアン
   50091196, // フォーミュラ・シンクロン
   70368879, // 成金ゴブリン
@@ -28,6 +36,11 @@ const _CARD_IDS = [
   73628505, // テラ・フォーミング
   67616300, // チキンレース
   24874631, // メタルデビル・トークン
+  24094653, // 融合
+  30208479, // マジシャン・オブ・ブラックカオス
+  76792184, // カオス－黒魔術の儀式
+  59750328, // 命削りの宝札
+  3819470, // 盗賊の七つ道具
 ];
 
 // 各種レジストリを初期化（CardData + 効果一括、DSL優先）
@@ -76,12 +89,22 @@ ChainableActionRegistry.registerTrigger(
   }),
 );
 
-// 融合モンスター
+// 儀式モンスター（レベル6）
+CardDataRegistry.register(1004, {
+  jaName: "Dummy Ritual Monster",
+  type: "monster",
+  frameType: "ritual",
+  edition: "latest",
+  level: 6,
+});
+
+// 融合モンスター（融合素材: 1001 + ドラゴン族モンスター）
 CardDataRegistry.register(2001, {
   jaName: "Dummy Fusion Monster",
   type: "monster",
   frameType: "fusion",
   edition: "latest",
+  fusionMaterials: [{ cardId: 1001 }, { race: "Dragon" }],
 });
 
 // シンクロモンスター
@@ -98,6 +121,18 @@ CardDataRegistry.register(2003, {
   type: "monster",
   frameType: "xyz",
   edition: "latest",
+  rank: 4,
+  xyzMaterialCount: 2,
+});
+
+// リンクモンスター（リンク2・左下 / 右下）
+CardDataRegistry.register(2004, {
+  jaName: "Dummy Link Monster",
+  type: "monster",
+  frameType: "link",
+  edition: "latest",
+  linkRating: 2,
+  linkMarkers: ["bottomLeft", "bottomRight"],
 });
 
 // モンスタートークン
@@ -159,6 +194,25 @@ CardDataRegistry.register(4005, {
 });
 ChainableActionRegistry.registerActivation(4005, FieldSpellActivation.createNoOp(4005));
 
+// 儀式魔法（レベルの合計が等しくなるようにリリースして、任意の儀式モンスターを儀式召喚）
+CardDataRegistry.register(4006, {
+  jaName: "Dummy Ritual Spell",
+  type: "spell",
+  frameType: "spell",
+  spellType: "ritual",
+  edition: "latest",
+});
+ChainableActionRegistry.registerActivation(
+  4006,
+  new GenericRitualSpellActivation(4006, {
+    conditions: { requirements: [{ step: "CAN_RITUAL_SUMMON", args: { levelCondition: "equal" } }] },
+    resolutions: [
+      { step: "SELECT_RITUAL_MONSTER", args: { levelCondition: "equal" } },
+      { step: "RITUAL_SUMMON_FROM_CONTEXT", args: { levelCondition: "equal" } },
+    ],
+  }),
+);
+
 // 通常罠
 CardDataRegistry.register(5001, {
   jaName: "Dummy Normal Trap",
@@ -167,6 +221,27 @@ CardDataRegistry.register(5001, {
   trapType: "normal",
   edition: "latest",
 });
+ChainableActionRegistry.registerActivation(5001, new GenericNormalTrapActivation(5001, {}));
+
+// 永続罠
+CardDataRegistry.register(5002, {
+  jaName: "Dummy Continuous Trap",
+  type: "trap",
+  frameType: "trap",
+  trapType: "continuous",
+  edition: "latest",
+});
+ChainableActionRegistry.registerActivation(5002, ContinuousTrapActivation.createNoOp(5002));
+
+// カウンター罠
+CardDataRegistry.register(5003, {
+  jaName: "Dummy Counter Trap",
+  type: "trap",
+  frameType: "trap",
+  trapType: "counter",
+  edition: "latest",
+});
+ChainableActionRegistry.registerActivation(5003, new GenericCounterTrapActivation(5003, {}));
 
 // =============================================================================
 // モック準備
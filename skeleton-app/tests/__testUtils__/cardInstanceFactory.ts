@@ -26,6 +26,7 @@ import type {
   StateOnField,
   Position,
   BattlePosition,
+  LinkMarker,
 } from "$lib/domain/models/Card";
 import { createInitialStateOnField } from "$lib/domain/models/Card/StateOnField";
 import { CardDataRegistry } from "$lib/domain/cards";
@@ -34,12 +35,12 @@ import { DUMMY_CARD_IDS } from "./constants";
 const defaultMonsterCardIds: Record<FrameSubType, number> = {
   normal: DUMMY_CARD_IDS.NORMAL_MONSTER,
   effect: DUMMY_CARD_IDS.EFFECT_MONSTER,
-  ritual: 0, // 未登録
+  ritual: DUMMY_CARD_IDS.RITUAL_MONSTER,
   pendulum: 0, // 未登録
   fusion: 0, // 未登録
   synchro: DUMMY_CARD_IDS.SYNCHRO_MONSTER,
-  xyz: 0, // 未登録
-  link: 0, // 未登録
+  xyz: DUMMY_CARD_IDS.XYZ_MONSTER,
+  link: DUMMY_CARD_IDS.LINK_MONSTER,
   token: DUMMY_CARD_IDS.BASIC_TOKEN,
   spell: 0, // スコープ外
   trap: 0, // スコープ外
@@ -51,13 +52,13 @@ const defaultSpellCardIds: Record<SpellSubType, number> = {
   continuous: DUMMY_CARD_IDS.CONTINUOUS_SPELL,
   field: DUMMY_CARD_IDS.FIELD_SPELL,
   equip: DUMMY_CARD_IDS.EQUIP_SPELL,
-  ritual: DUMMY_CARD_IDS.NORMAL_SPELL,
+  ritual: DUMMY_CARD_IDS.RITUAL_SPELL,
 };
 
 const defaultTrapCardIds: Record<TrapSubType, number> = {
   normal: DUMMY_CARD_IDS.NORMAL_TRAP,
-  continuous: 0, // 未登録
-  counter: 0, // 未登録
+  continuous: DUMMY_CARD_IDS.CONTINUOUS_TRAP,
+  counter: DUMMY_CARD_IDS.COUNTER_TRAP,
 };
 
 // =============================================================================
@@ -96,7 +97,10 @@ const defined = <T extends object>(obj: T): Partial<T> =>
   Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
 
 type StateOptions = Partial<
-  Pick<StateOnField, "slotIndex" | "position" | "battlePosition" | "placedThisTurn" | "equippedTo" | "counters">
+  Pick<
+    StateOnField,
+    "slotIndex" | "position" | "battlePosition" | "placedThisTurn" | "equippedTo" | "counters" | "xyzMaterials"
+  >
 >;
 
 /**
@@ -131,8 +135,10 @@ const createBase = (
     const stateOnField = createInitialStateOnField(stateOptions);
     return {
       ...base,
-      stateOnField:
-        stateOptions.counters !== undefined ? { ...stateOnField, counters: stateOptions.counters } : stateOnField,
+      stateOnField: {
+        ...stateOnField,
+        ...defined({ counters: stateOptions.counters, xyzMaterials: stateOptions.xyzMaterials }),
+      },
     };
   }
   return base;
@@ -164,6 +170,7 @@ export function createMonsterInstance(
     race?: string;
     attack?: number;
     defense?: number;
+    linkRating?: number;
     monsterTypeList?: string[];
   },
 ): CardInstance {
@@ -179,6 +186,7 @@ export function createMonsterInstance(
       race: options?.race,
       attack: options?.attack,
       defense: options?.defense,
+      linkRating: options?.linkRating,
       monsterTypeList: resolvedMonsterTypeList,
     }),
   );
@@ -250,7 +258,7 @@ export function createTrapInstance(
  * cardId 指定時、CardDataRegistry に登録済みであればレジストリ値を優先。
  * isTuner=true の場合、frameType="effect" / monsterTypeList=["effect","tuner"] を自動設定。
  * isTuner と monsterTypeList / monsterTypeList の同時指定は不可。
- * ロケーション: モンスターゾーン固定
+ * ロケーション: メインモンスターゾーン（location でエクストラモンスターゾーンも指定可）
  * デフォルト: slotIndex=0, 表側攻撃表示
  *
  * @param instanceId - 一意のインスタンスID
@@ -267,10 +275,14 @@ export function createMonsterOnField(
     placedThisTurn?: boolean;
     slotIndex?: number;
     counters?: readonly CounterState[];
+    xyzMaterials?: readonly CardInstance[];
+    location?: "mainMonsterZone" | "extraMonsterZone";
     race?: string;
     level?: number;
     attack?: number;
     defense?: number;
+    linkRating?: number;
+    linkMarkers?: readonly LinkMarker[];
     monsterTypeList?: string[];
   },
 ): CardInstance {
@@ -278,7 +290,7 @@ export function createMonsterOnField(
   return createBase(
     instanceId,
     options?.cardId ?? defaultMonsterCardIds[resolvedFrameType ?? "normal"],
-    "mainMonsterZone",
+    options?.location ?? "mainMonsterZone",
     { type: "monster" },
     defined({
       frameType: resolvedFrameType,
@@ -286,6 +298,8 @@ export function createMonsterOnField(
       level: options?.level,
       attack: options?.attack,
       defense: options?.defense,
+      linkRating: options?.linkRating,
+      linkMarkers: options?.linkMarkers,
       monsterTypeList: resolvedMonsterTypeList,
     }),
     {
@@ -294,10 +308,24 @@ export function createMonsterOnField(
       battlePosition: options?.battlePosition ?? "attack",
       placedThisTurn: options?.placedThisTurn ?? false,
       counters: options?.counters ?? [],
+      xyzMaterials: options?.xyzMaterials,
     },
   );
 }
 
+/**
+ * テスト用エクシーズ素材を作成（stateOnField 無し）
+ *
+ * エクシーズモンスターの xyzMaterials に渡す素材。
+ * ロケーション: エクシーズ素材
+ *
+ * @param instanceId - 一意のインスタンスID
+ * @param options - オプション設定
+ */
+export function createXyzMaterial(instanceId: string, options?: { cardId?: number; level?: number }): CardInstance {
+  return { ...createMonsterOnField(instanceId, options), location: "xyzMaterial", stateOnField: undefined };
+}
+
 /**
  * テスト用魔法カードインスタンスを作成（stateOnField 有り）
  *
@@ -14,11 +14,19 @@ export const ACTUAL_CARD_IDS = {
   ROYAL_MAGIC_LIBRARY: 70791313, // 王立魔法図書館
   TG_HYPER_LIBRARIAN: 90953320, // ＴＧ ハイパー・ライブラリアン
   FORMULA_SYNCHRON: 50091196, // フォーミュラ・シンクロン
+  DAIGUSTO_EMERAL: 581014, // ダイガスタ・エメラル
+  PROXY_DRAGON: 22862454, // プロキシー・ドラゴン
   GOLDEN_GOBLIN: 70368879, // 成金ゴブリン
   POT_OF_GREED: 55144522, // 強欲な壺
   GRACEFUL_CHARITY: 79571449, // 天使の施し
   TERRAFORMING: 73628505, // テラ・フォーミング
   CHICKEN_GAME: 67616300, // チキンレース
+  POLYMERIZATION: 24094653, // 融合
+  MAGICIAN_OF_BLACK_CHAOS: 30208479, // マジシャン・オブ・ブラックカオス
+  BLACK_MAGIC_RITUAL: 76792184, // カオス－黒魔術の儀式
+  CARD_OF_DEMISE: 59750328, // 命削りの宝札
+  SEVEN_TOOLS_OF_THE_BANDIT: 3819470, // 盗賊の七つ道具
+  SANGAN: 26202165, // クリッター（旧テキスト版）
   JAR_OF_GREED: 83968380, // 強欲な瓶（DSL未登録）
   METAL_FIEND_TOKEN: 24874631, // メタルデビル・トークン
 } as const;
@@ -34,15 +42,20 @@ export const DUMMY_CARD_IDS = {
   NORMAL_MONSTER: 1001,
   EFFECT_MONSTER: 1002,
   OPTIONAL_TRIGGER_MONSTER: 1003,
+  RITUAL_MONSTER: 1004,
   FUSION_MONSTER: 2001,
   SYNCHRO_MONSTER: 2002,
   XYZ_MONSTER: 2003,
+  LINK_MONSTER: 2004,
   BASIC_TOKEN: 3001,
   NORMAL_SPELL: 4001,
   EQUIP_SPELL: 4002,
   QUICKPLAY_SPELL: 4003,
   CONTINUOUS_SPELL: 4004,
   FIELD_SPELL: 4005,
+  RITUAL_SPELL: 4006,
   NORMAL_TRAP: 5001,
+  CONTINUOUS_TRAP: 5002,
+  COUNTER_TRAP: 5003,
   NOT_EXISTING_CARD: 99999999, // 存在しないカードID
 } as const;
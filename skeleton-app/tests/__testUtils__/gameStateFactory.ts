@@ -12,6 +12,7 @@
 
 import type { GamePhase, GameSnapshot, CardSpace, InitialDeckCardIds } from "$lib/domain/models/GameState";
 import { INITIAL_LP } from "$lib/domain/models/GameState/GameSnapshot";
+import { createRandomState } from "$lib/domain/models/GameState/RandomState";
 import { ACTUAL_CARD_IDS } from "./constants";
 import { createMonsterInstance, createSpellInstance, createMonsterOnField } from "./cardInstanceFactory";
 import {
@@ -54,6 +55,7 @@ export function createMockGameState(overrides?: GameStateOverrides): GameSnapsho
       extraDeck: [],
       hand: [],
       mainMonsterZone: [],
+      extraMonsterZone: [],
       spellTrapZone: [],
       fieldZone: [],
       graveyard: [],
@@ -73,6 +75,7 @@ export function createMockGameState(overrides?: GameStateOverrides): GameSnapsho
     queuedEndPhaseEffectIds: [],
     activatedCardIds: [],
     activationContexts: {},
+    rng: createRandomState(0),
   };
 
   return {
@@ -253,3 +256,93 @@ export function createSynchroSummonReadyState(options?: {
     },
   });
 }
+
+/**
+ * エクシーズ召喚テスト用の状態を作成（フィールドに素材候補、EXにランク4エクシーズ）
+ *
+ * EXデッキのエクシーズモンスターは DUMMY_CARD_IDS.XYZ_MONSTER（ランク4・素材2体）。
+ *
+ * @param options - オプション設定
+ *   - materialLevels: フィールドの表側モンスターのレベル配列（デフォルト: [4, 4]）
+ *   - isGameOver: ゲーム終了状態（デフォルト: false）
+ */
+export function createXyzSummonReadyState(options?: {
+  materialLevels?: number[];
+  isGameOver?: boolean;
+}): ReturnType<typeof createMockGameState> {
+  const materialLevels = options?.materialLevels ?? [4, 4];
+
+  return createMockGameState({
+    space: {
+      ...createFilledMainDeck(30),
+      extraDeck: [createMonsterInstance("xyz-0", { frameType: "xyz", location: "extraDeck" })],
+      mainMonsterZone: materialLevels.map((level, index) =>
+        createMonsterOnField(`material-${index}`, { level, slotIndex: index }),
+      ),
+    },
+    phase: "main1",
+    result: {
+      isGameOver: options?.isGameOver ?? false,
+    },
+  });
+}
+
+/**
+ * リンク召喚テスト用の状態を作成（フィールドに素材候補、EXにリンク2）
+ *
+ * EXデッキのリンクモンスターは DUMMY_CARD_IDS.LINK_MONSTER（リンク2・左下 / 右下）。
+ *
+ * @param options - オプション設定
+ *   - materialCount: メインモンスターゾーンの表側モンスターの数（デフォルト: 2）
+ *   - isGameOver: ゲーム終了状態（デフォルト: false）
+ */
+export function createLinkSummonReadyState(options?: {
+  materialCount?: number;
+  isGameOver?: boolean;
+}): ReturnType<typeof createMockGameState> {
+  const materialCount = options?.materialCount ?? 2;
+
+  return createMockGameState({
+    space: {
+      ...createFilledMainDeck(30),
+      extraDeck: [createMonsterInstance("link-0", { frameType: "link", location: "extraDeck" })],
+      mainMonsterZone: Array.from({ length: materialCount }, (_, index) =>
+        createMonsterOnField(`material-${index}`, { slotIndex: index }),
+      ),
+    },
+    phase: "main1",
+    result: {
+      isGameOver: options?.isGameOver ?? false,
+    },
+  });
+}
+
+/**
+ * バトルテスト用の状態を作成（2ターン目のバトルフェイズ、フィールドに攻撃表示モンスター）
+ *
+ * @param options - オプション設定
+ *   - attack: 攻撃モンスター（attacker-0）の攻撃力（デフォルト: 1500）
+ *   - opponentLp: 相手のLP（デフォルト: 初期LP）
+ *   - isGameOver: ゲーム終了状態（デフォルト: false）
+ */
+export function createBattleReadyState(options?: {
+  attack?: number;
+  opponentLp?: number;
+  isGameOver?: boolean;
+}): ReturnType<typeof createMockGameState> {
+  return createMockGameState({
+    space: {
+      ...createFilledMainDeck(30),
+      mainMonsterZone: [createMonsterOnField("attacker-0", { attack: options?.attack ?? 1500 })],
+    },
+    phase: "battle",
+    turn: 2,
+    lp: {
+      player: INITIAL_LP,
+      opponent: options?.opponentLp ?? INITIAL_LP,
+    },
+    result: {
+      isGameOver: options?.isGameOver ?? false,
+    },
+  });
+}
@@ -17,6 +17,8 @@ export {
   createMonsterOnField,
   createSpellOnField,
   createTrapOnField,
+  // エクシーズ素材
+  createXyzMaterial,
 } from "./cardInstanceFactory";
 
 // カードスペースファクトリ
@@ -49,6 +51,9 @@ export {
   createExodiaVictoryState,
   createSummonReadyState,
   createSynchroSummonReadyState,
+  createXyzSummonReadyState,
+  createLinkSummonReadyState,
+  createBattleReadyState,
 } from "./gameStateFactory";
 
 // ゲームイベントファクトリ
@@ -57,6 +62,9 @@ export { createGameEvent } from "./gameEventFactory";
 // コンテキストファクトリ
 export { createStepBuildContext } from "./contextFactory";
 
+// localStorage ヘルパー
+export { useInMemoryLocalStorage } from "./localStorageMock";
+
 // インテグレーションテスト共通ヘルパー
 export {
   createScenarioDeck,
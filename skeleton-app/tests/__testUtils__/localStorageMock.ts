@@ -0,0 +1,21 @@
+/**
+ * テスト用 localStorage ヘルパー
+ *
+ * src/test/setup.ts の localStorageMock（vi.fn のみ）に、インメモリの実装を与えるユーティリティ
+ */
+
+/**
+ * localStorageMock をインメモリのストレージとして動作させる
+ *
+ * 呼び出すたびに中身は空になる。
+ */
+export function useInMemoryLocalStorage(): void {
+  const store = new Map<string, string>();
+  const mock = globalThis.localStorageMock;
+  mock.getItem.mockImplementation((key: string) => store.get(key) ?? null);
+  mock.setItem.mockImplementation((key: string, value: string) => void store.set(key, String(value)));
+  mock.removeItem.mockImplementation((key: string) => void store.delete(key));
+  mock.clear.mockImplementation(() => store.clear());
+  mock.key.mockImplementation((index: number) => [...store.keys()][index] ?? null);
+  Object.defineProperty(mock, "length", { get: () => store.size, configurable: true });
+}
@@ -0,0 +1,93 @@
+/**
+ * バトルフェイズ 基本フローテスト
+ *
+ * GameFacade を通じて、後攻ターンのバトルフェイズで案山子（相手）に直接攻撃し、
+ * 戦闘ダメージで相手のライフポイントを0にして勝利する流れを検証する。
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import {
+  createMockGameState,
+  createMonsterOnField,
+  createFilledMainDeck,
+  createScenarioDeck,
+  getState,
+  ACTUAL_CARD_IDS,
+} from "../../__testUtils__";
+
+const createMain1State = (turn: number, opponentLp: number = 8000) =>
+  createMockGameState({
+    space: {
+      ...createFilledMainDeck(5),
+      mainMonsterZone: [
+        createMonsterOnField("attacker-0", { attack: 3000 }),
+        createMonsterOnField("attacker-1", { attack: 2000, slotIndex: 1 }),
+      ],
+    },
+    phase: "main1",
+    turn,
+    lp: { player: 8000, opponent: opponentLp },
+  });
+
+describe("バトルフェイズ - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("後攻のバトルフェイズで直接攻撃し、相手のライフポイントを0にすると勝利する", () => {
+    gameStateStore.set(createMain1State(2, 5000));
+
+    expect(facade.canAttack("attacker-0")).toBe(false); // メインフェイズでは攻撃できない
+    expect(facade.advancePhase("battle").success).toBe(true);
+
+    expect(facade.attack("attacker-0").success).toBe(true);
+    expect(getState().lp.opponent).toBe(2000);
+    expect(facade.canAttack("attacker-0")).toBe(false); // 1ターンに1度のみ
+
+    expect(facade.attack("attacker-1").success).toBe(true);
+    expect(getState().lp.opponent).toBe(0);
+    expect(getState().result).toMatchObject({ isGameOver: true, winner: "player", reason: "lp0" });
+  });
+
+  it("バトルフェイズからメインフェイズ2に進み、エンドフェイズで攻撃済みの状態がリセットされる", () => {
+    gameStateStore.set(createMain1State(2));
+
+    facade.advancePhase("battle");
+    facade.attack("attacker-0");
+    expect(facade.advancePhase("main2").success).toBe(true);
+    expect(getState().phase).toBe("main2");
+
+    expect(facade.advancePhase().success).toBe(true);
+    const attacker = getState().space.mainMonsterZone.find((card) => card.instanceId === "attacker-0");
+    expect(getState().phase).toBe("end");
+    expect(attacker?.stateOnField?.attackedThisTurn).toBeUndefined();
+  });
+
+  it("先攻1ターン目はバトルフェイズに進めない", () => {
+    gameStateStore.set(createMain1State(1));
+
+    expect(facade.advancePhase("battle").success).toBe(false);
+    expect(facade.advancePhase().success).toBe(true);
+    expect(getState().phase).toBe("end");
+  });
+
+  it("後攻で開始したゲームは2ターン目のメインフェイズ1まで自動で進行する", async () => {
+    const deck = createScenarioDeck(Array.from({ length: 20 }, () => ACTUAL_CARD_IDS.GOLDEN_GOBLIN));
+    facade.resetGame(deck, { seed: 1, goingSecond: true });
+
+    expect(facade.isGoingSecond()).toBe(true);
+    expect(await facade.autoAdvanceToMainPhase()).toBe(true);
+    expect(getState()).toMatchObject({ turn: 2, phase: "main1" });
+    expect(getState().space.hand).toHaveLength(6);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * コンボ探索 基本フローテスト
+ *
+ * ComboSolver が見つけた操作列を、GameFacade と効果処理ストア上で
+ * リプレイとして再生し、同じ勝利局面に到達できることを検証する。
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { ReplayPlayer } from "$lib/application/replay/ReplayPlayer";
+import type { GameReplay, ReplayEntry } from "$lib/application/types/replay";
+import { solveCombo } from "$lib/domain/solver/ComboSolver";
+import { createScenarioDeck, advanceToMain1, getState, ACTUAL_CARD_IDS } from "../../__testUtils__";
+
+// 20枚デッキ: エクゾディア5パーツ + 強欲な壺 x8 + 天使の施し x7
+const deck = createScenarioDeck([
+  ACTUAL_CARD_IDS.EXODIA_BODY,
+  ACTUAL_CARD_IDS.EXODIA_LEFT_ARM,
+  ACTUAL_CARD_IDS.EXODIA_RIGHT_ARM,
+  ACTUAL_CARD_IDS.EXODIA_LEFT_LEG,
+  ACTUAL_CARD_IDS.EXODIA_RIGHT_LEG,
+  ...Array.from({ length: 8 }, () => ACTUAL_CARD_IDS.POT_OF_GREED),
+  ...Array.from({ length: 7 }, () => ACTUAL_CARD_IDS.GRACEFUL_CHARITY),
+]);
+
+describe("コンボ探索 - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("探索した操作列をリプレイとして再生すると勝利する", async () => {
+    facade.resetGame(deck, { seed: 10 });
+    advanceToMain1(facade);
+
+    const result = solveCombo(getState());
+    expect(result.status).toBe("win");
+
+    // 探索開始局面までの操作履歴に、探索した操作列を続ける
+    const opening = facade.exportReplay()!;
+    const moves: ReplayEntry[] = result.moves.map((move) =>
+      move.type === "command"
+        ? { type: "command", command: move.command, args: [...move.args] }
+        : { type: "answer", answer: move.answer },
+    );
+    const replay: GameReplay = { ...opening, entries: [...opening.entries, ...moves] };
+
+    const player = new ReplayPlayer(facade, replay);
+    player.start();
+    while (player.hasNext) {
+      const stepping = player.step();
+      await vi.runAllTimersAsync();
+      await stepping;
+    }
+
+    expect(getState().result).toEqual(result.finalState!.result);
+    expect(getState().result.winner).toBe("player");
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * カスタムデッキ 基本フローテスト
+ *
+ * GameFacade がデッキ構築画面で作成したデッキレシピを保存し、
+ * デッキ選択と新規ゲームで使えることを検証する。
+ * デッキレシピがフォーマット（禁止・制限リスト）で使用できるかの判定も検証する。
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import type { DeckRecipe } from "$lib/application/types/deck";
+import { isExtraDeckCard } from "$lib/application/decks/deckValidator";
+import { LocalStorageDeckRecipeRepository } from "$lib/infrastructure/adapters/LocalStorageDeckRecipeRepository";
+import { getState, useInMemoryLocalStorage, ACTUAL_CARD_IDS } from "../../__testUtils__";
+
+describe("カスタムデッキ - 基本フローテスト", () => {
+  let facade: GameFacade;
+  let recipe: DeckRecipe;
+
+  beforeEach(() => {
+    useInMemoryLocalStorage();
+    facade = new GameFacade();
+    facade.setDeckRecipeRepository(new LocalStorageDeckRecipeRepository());
+
+    // カードプールのメインデッキ用カード14種 x 3枚 = 42枚
+    const mainDeckCards = facade.getDeckBuilderCards().filter((card) => !isExtraDeckCard(card));
+    recipe = {
+      name: "マイデッキ",
+      description: "テスト用のカスタムデッキ",
+      mainDeck: mainDeckCards.slice(0, 14).map((card) => ({ id: card.id, quantity: 3 })),
+      extraDeck: [{ id: ACTUAL_CARD_IDS.DAIGUSTO_EMERAL, quantity: 1 }],
+    };
+  });
+
+  it("カードプールにはDSL定義のあるカードを含み、トークンを含まない", () => {
+    const cardIds = facade.getDeckBuilderCards().map((card) => card.id);
+
+    expect(cardIds).toContain(ACTUAL_CARD_IDS.POT_OF_GREED);
+    expect(cardIds).toContain(ACTUAL_CARD_IDS.DAIGUSTO_EMERAL);
+    expect(cardIds).not.toContain(ACTUAL_CARD_IDS.METAL_FIEND_TOKEN);
+  });
+
+  it("保存したカスタムデッキはデッキ一覧に表示され、新規ゲームで使える", () => {
+    const result = facade.saveCustomDeck(recipe);
+
+    expect(result.success).toBe(true);
+    expect(result.deckId).toMatch(/^custom-/);
+    expect(facade.listDecks()).toContainEqual({ id: result.deckId, name: "マイデッキ", isCustom: true });
+
+    const deckData = facade.newGame(result.deckId!, { seed: 1 });
+
+    expect(deckData.stats).toMatchObject({ mainDeckCount: 42, extraDeckCount: 1 });
+    expect(getState().space.hand).toHaveLength(5);
+    expect(getState().space.mainDeck).toHaveLength(37);
+  });
+
+  it("デッキIDを指定すると既存のカスタムデッキを上書きする", () => {
+    facade.saveCustomDeck(recipe, "custom-1");
+
+    facade.saveCustomDeck({ ...recipe, name: "改良版" }, "custom-1");
+
+    expect(facade.listDecks().filter((deck) => deck.isCustom)).toEqual([
+      { id: "custom-1", name: "改良版", isCustom: true },
+    ]);
+    expect(facade.getDeckRecipe("custom-1").name).toBe("改良版");
+  });
+
+  it("構築ルールを満たさないデッキは保存しない", () => {
+    const result = facade.saveCustomDeck({ ...recipe, mainDeck: recipe.mainDeck.slice(1) }, "custom-1");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("メインデッキは40〜60枚にしてください");
+    expect(facade.listDecks().some((deck) => deck.isCustom)).toBe(false);
+  });
+
+  it("プリセットデッキのIDでは保存・削除できない", () => {
+    expect(facade.saveCustomDeck(recipe, "exodia-deck").success).toBe(false);
+
+    facade.deleteCustomDeck("exodia-deck");
+
+    expect(facade.getDeckRecipe("exodia-deck").name).toBe("封印されしエクゾディア");
+  });
+
+  it("削除したカスタムデッキは一覧から消える", () => {
+    facade.saveCustomDeck(recipe, "custom-1");
+
+    facade.deleteCustomDeck("custom-1");
+
+    expect(facade.listDecks().some((deck) => deck.isCustom)).toBe(false);
+    expect(() => facade.getDeckRecipe("custom-1")).toThrow("Deck not found: custom-1");
+  });
+
+  it("フォーマットごとに禁止・制限リストと旧テキスト版のカードを判定する", () => {
+    const formatRecipe: DeckRecipe = {
+      ...recipe,
+      mainDeck: [
+        { id: ACTUAL_CARD_IDS.POT_OF_GREED, quantity: 1 },
+        { id: ACTUAL_CARD_IDS.SANGAN, quantity: 1 },
+      ],
+    };
+
+    expect(facade.listFormats().map((format) => format.id)).toEqual(["ocg-current", "goat", "legacy-free"]);
+    expect(facade.checkFormatLegality(formatRecipe, "ocg-current").violations.map((v) => v.type)).toEqual([
+      "forbidden",
+      "legacy",
+    ]);
+    expect(facade.checkFormatLegality(formatRecipe, "goat").isLegal).toBe(true);
+    expect(facade.checkFormatLegality(formatRecipe, "legacy-free").isLegal).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * エンドフェイズ 基本フローテスト
+ *
+ * GameFacade + effectQueueStore を通じた本物のフローで、
+ * エンドフェイズ移行時に保留されたエンドフェイズ効果と手札枚数制限が処理されることを検証する。
+ *
+ * 使用カード:
+ * - 《命削りの宝札》（手札が3枚になるようにドローし、エンドフェイズに手札を全て捨てる）
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import {
+  createSpaceState,
+  createSpellInstance,
+  createFilledHand,
+  createFilledMainDeck,
+  flushEffectQueue,
+  hasCardSelection,
+  resolveCardSelection,
+  getState,
+  ACTUAL_CARD_IDS,
+} from "../../__testUtils__";
+
+describe("エンドフェイズ - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("《命削りの宝札》で保留した「手札を全て捨てる」効果がエンドフェイズに処理される", async () => {
+    gameStateStore.set(
+      createSpaceState({
+        hand: [createSpellInstance("demise-0", { cardId: ACTUAL_CARD_IDS.CARD_OF_DEMISE })],
+        ...createFilledMainDeck(10),
+      }),
+    );
+
+    facade.activateSpell("demise-0");
+    await flushEffectQueue();
+    expect(getState().space.hand).toHaveLength(3);
+    expect(getState().queuedEndPhaseEffectIds).toHaveLength(1);
+
+    facade.advancePhase();
+    await flushEffectQueue();
+
+    const after = getState();
+    expect(after.phase).toBe("end");
+    expect(after.space.hand).toHaveLength(0);
+    expect(after.space.graveyard).toHaveLength(4); // 命削りの宝札 + 捨てた手札3枚
+    expect(after.queuedEndPhaseEffectIds).toEqual([]);
+  });
+
+  it("手札が7枚以上の場合は、エンドフェイズに6枚になるように選んで捨てる", async () => {
+    gameStateStore.set(createSpaceState({ ...createFilledHand(8), ...createFilledMainDeck(5) }));
+    const [first, second] = getState().space.hand.map((card) => card.instanceId);
+
+    facade.advancePhase();
+    await flushEffectQueue();
+
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection([first, second]);
+
+    const after = getState();
+    expect(after.space.hand).toHaveLength(6);
+    expect(after.space.graveyard.map((card) => card.instanceId)).toEqual([first, second]);
+  });
+
+  it("手札が6枚以下の場合は、カード選択なしでエンドフェイズに進む", async () => {
+    gameStateStore.set(createSpaceState({ ...createFilledHand(6), ...createFilledMainDeck(5) }));
+
+    facade.advancePhase();
+    await flushEffectQueue();
+
+    expect(hasCardSelection()).toBe(false);
+    expect(getState().space.hand).toHaveLength(6);
+  });
+});
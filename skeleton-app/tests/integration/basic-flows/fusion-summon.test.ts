@@ -0,0 +1,85 @@
+/**
+ * 融合召喚 基本フローテスト
+ *
+ * GameFacade + effectQueueStore を通じた本物のフローで
+ * 《融合》による融合召喚（融合モンスター選択 → 素材選択 → 融合召喚）を検証する。
+ *
+ * 使用カード:
+ * - 《融合》（setup.ts で DSL 定義を登録済み）
+ * - ダミー融合モンスター 2001（融合素材: 1001 + ドラゴン族モンスター）
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import {
+  createSpaceState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createSpellInstance,
+  createFilledMainDeck,
+  flushEffectQueue,
+  hasCardSelection,
+  resolveCardSelection,
+  getState,
+  ACTUAL_CARD_IDS,
+  DUMMY_CARD_IDS,
+} from "../../__testUtils__";
+
+const createFusionReadyState = (options?: { withDragon?: boolean }) =>
+  createSpaceState({
+    hand: [
+      createSpellInstance("poly-0", { cardId: ACTUAL_CARD_IDS.POLYMERIZATION }),
+      createMonsterInstance("named-0", { cardId: DUMMY_CARD_IDS.NORMAL_MONSTER }),
+    ],
+    mainMonsterZone:
+      options?.withDragon === false ? [] : [createMonsterOnField("dragon-0", { frameType: "effect", race: "Dragon" })],
+    extraDeck: [
+      createMonsterInstance("fusion-0", {
+        cardId: DUMMY_CARD_IDS.FUSION_MONSTER,
+        frameType: "fusion",
+        location: "extraDeck",
+      }),
+    ],
+    ...createFilledMainDeck(5),
+  });
+
+describe("融合召喚 - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("《融合》で手札・フィールドの素材を墓地へ送り、融合モンスターを融合召喚する", async () => {
+    gameStateStore.set(createFusionReadyState());
+
+    expect(facade.canActivateSpell("poly-0")).toBe(true);
+    facade.activateSpell("poly-0");
+    await flushEffectQueue(); // 融合モンスター選択で停止
+
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection(["fusion-0"]); // 素材選択で停止
+
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection(["named-0", "dragon-0"]);
+
+    const after = getState();
+    expect(after.space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["fusion-0"]);
+    expect(after.space.graveyard.map((card) => card.instanceId).sort()).toEqual(["dragon-0", "named-0", "poly-0"]);
+    expect(after.space.extraDeck).toHaveLength(0);
+    expect(after.space.hand).toHaveLength(0);
+  });
+
+  it("融合素材が揃っていない場合は《融合》を発動できない", () => {
+    gameStateStore.set(createFusionReadyState({ withDragon: false }));
+
+    expect(facade.canActivateSpell("poly-0")).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * リンク召喚 基本フローテスト
+ *
+ * GameFacade + effectQueueStore を通じた本物のフローで
+ * リンク召喚と、エクストラモンスターゾーン・リンク先への配置を検証する。
+ *
+ * リンク召喚は常に素材選択ステップ（interactive）が発生する:
+ * 1. facade.linkSummon(linkId) → 素材選択ステップをキュー
+ * 2. flushEffectQueue() → 素材選択で一時停止
+ * 3. resolveCardSelection(materialInstanceIds) → 素材確定 → 召喚完了
+ *
+ * 使用カード:
+ * - 《プロキシー・ドラゴン》(22862454): リンク2（左 / 右）、モンスター2体
+ * - 素材: ダミー通常モンスター
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import {
+  createSpaceState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createFilledMainDeck,
+  flushEffectQueue,
+  resolveCardSelection,
+  hasCardSelection,
+  getState,
+  ACTUAL_CARD_IDS,
+} from "../../__testUtils__";
+
+// EXデッキに《プロキシー・ドラゴン》2体、フィールドに通常モンスター4体がいる状態
+const createProxyDragonReadyState = () =>
+  createSpaceState({
+    ...createFilledMainDeck(5),
+    extraDeck: ["proxy-0", "proxy-1"].map((instanceId) =>
+      createMonsterInstance(instanceId, { cardId: ACTUAL_CARD_IDS.PROXY_DRAGON, location: "extraDeck" }),
+    ),
+    mainMonsterZone: [0, 1, 2, 3].map((slotIndex) => createMonsterOnField(`material-${slotIndex}`, { slotIndex })),
+  });
+
+describe("リンク召喚 - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("モンスター2体を墓地へ送り《プロキシー・ドラゴン》をエクストラモンスターゾーンにリンク召喚する", async () => {
+    gameStateStore.set(createProxyDragonReadyState());
+
+    expect(facade.canLinkSummon("proxy-0")).toBe(true);
+    facade.linkSummon("proxy-0");
+    await flushEffectQueue();
+
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection(["material-0", "material-1"]);
+
+    const after = getState();
+    expect(after.space.extraMonsterZone.map((card) => card.instanceId)).toEqual(["proxy-0"]);
+    expect(after.space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["material-2", "material-3"]);
+    expect(after.space.graveyard.map((card) => card.instanceId)).toEqual(["material-0", "material-1"]);
+  });
+
+  it("エクストラモンスターゾーンのリンクモンスターを素材にすると、空いたエクストラモンスターゾーンに2体目を出せる", async () => {
+    gameStateStore.set(createProxyDragonReadyState());
+    facade.linkSummon("proxy-0");
+    await flushEffectQueue();
+    await resolveCardSelection(["material-0", "material-1"]);
+
+    // エクストラモンスターゾーンの《プロキシー・ドラゴン》（左 / 右）はメインモンスターゾーンを指さないが、
+    // それ自体を素材にすればエクストラモンスターゾーンが空く
+    expect(facade.canLinkSummon("proxy-1")).toBe(true);
+    facade.linkSummon("proxy-1");
+    await flushEffectQueue();
+    await resolveCardSelection(["proxy-0", "material-2"]);
+
+    const after = getState();
+    expect(after.space.extraMonsterZone.map((card) => card.instanceId)).toEqual(["proxy-1"]);
+    expect(after.space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["material-3"]);
+    expect(after.space.graveyard.map((card) => card.instanceId)).toContain("proxy-0");
+  });
+});
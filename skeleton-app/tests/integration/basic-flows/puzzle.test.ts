@@ -0,0 +1,126 @@
+/**
+ * パズルモード 基本フローテスト
+ *
+ * GameFacade.startPuzzle() で開始局面を再現し、勝利目標の達成判定と進捗の記録を検証する。
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import type { IPuzzleProgressRepository, PuzzleProgress } from "$lib/application/ports/IPuzzleProgressRepository";
+import {
+  flushEffectQueue,
+  getState,
+  hasChainConfirmation,
+  resolveCardSelection,
+  resolveChainConfirmation,
+  ACTUAL_CARD_IDS,
+} from "../../__testUtils__";
+
+// メモリ上に進捗を保持するリポジトリ
+const createProgressRepository = (): IPuzzleProgressRepository => {
+  let stored: PuzzleProgress = {};
+  return {
+    load: () => stored,
+    save: (progress) => {
+      stored = progress;
+    },
+  };
+};
+
+describe("パズルモード - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+    facade.setPuzzleProgressRepository(createProgressRepository());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("開始するたびに挑戦回数を記録し、開始局面を再現する", () => {
+    facade.startPuzzle("exodia-last-piece");
+    facade.startPuzzle("exodia-last-piece");
+
+    const state = getState();
+    expect(state.phase).toBe("main1");
+    expect(state.space.hand).toHaveLength(5);
+    expect(state.space.mainDeck.at(-2)?.id).toBe(ACTUAL_CARD_IDS.EXODIA_LEFT_LEG);
+    expect(facade.listPuzzles().find((puzzle) => puzzle.id === "exodia-last-piece")).toMatchObject({
+      attempts: 2,
+      clearedAt: null,
+    });
+    expect(facade.exportReplay()).toBeNull();
+  });
+
+  it("勝利目標を達成するとクリアとして記録する", async () => {
+    facade.startPuzzle("exodia-last-piece");
+    expect(facade.updatePuzzleProgress()).toBe("inProgress");
+
+    const pot = getState().space.hand.find((card) => card.id === ACTUAL_CARD_IDS.POT_OF_GREED)!;
+    facade.activateSpell(pot.instanceId);
+    await flushEffectQueue();
+
+    expect(getState().result.reason).toBe("exodia");
+    expect(facade.updatePuzzleProgress()).toBe("cleared");
+    expect(facade.listPuzzles().find((puzzle) => puzzle.id === "exodia-last-piece")?.clearedAt).toEqual(
+      expect.any(Number),
+    );
+  });
+
+  it("前のターンにセットした罠を発動して勝利目標を達成できる", async () => {
+    facade.startPuzzle("set-trap-burn");
+    const findCard = (cardId: number) =>
+      [...getState().space.mainMonsterZone, ...getState().space.spellTrapZone, ...getState().space.graveyard].find(
+        (card) => card.id === cardId,
+      )!;
+    // セット済みの罠がチェーン候補になるため、チェーン確認はパスする
+    const passChain = async () => {
+      if (hasChainConfirmation()) await resolveChainConfirmation(true);
+    };
+    const turtle = findCard(95727991); // カタパルト・タートル
+    const chaos = findCard(40737112); // 混沌の黒魔術師
+
+    // リビングデッドの呼び声 → 混沌の黒魔術師を特殊召喚
+    facade.activateTrap(findCard(97077563).instanceId);
+    await flushEffectQueue();
+    await resolveCardSelection([chaos.instanceId]);
+    await passChain();
+
+    // カタパルト・タートルで混沌の黒魔術師（1400）→ 自身（500）をリリース
+    for (const released of [chaos, turtle]) {
+      facade.activateIgnitionEffect(turtle.instanceId);
+      await flushEffectQueue();
+      await resolveCardSelection([released.instanceId]);
+      await passChain();
+    }
+    expect(getState().lp.opponent).toBe(1000);
+
+    // 火あぶりの刑（1000）
+    facade.activateTrap(findCard(46918794).instanceId);
+    await flushEffectQueue();
+
+    expect(getState().lp).toEqual({ player: 7500, opponent: 0 });
+    expect(facade.updatePuzzleProgress()).toBe("cleared");
+  });
+
+  it("目標を達成せずにエンドフェイズに入ると失敗になる", async () => {
+    facade.startPuzzle("catapult-burn");
+
+    facade.advancePhase();
+    await flushEffectQueue();
+
+    expect(facade.updatePuzzleProgress()).toBe("failed");
+    expect(facade.listPuzzles().find((puzzle) => puzzle.id === "catapult-burn")?.clearedAt).toBeNull();
+  });
+
+  it("通常のゲームを開始するとパズルの判定を終了する", () => {
+    facade.startPuzzle("exodia-last-piece");
+    facade.newGame("exodia-deck");
+
+    expect(facade.updatePuzzleProgress()).toBeNull();
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * 操作履歴・リプレイ 基本フローテスト
+ *
+ * GameFacade が記録したコマンドとユーザー回答から、
+ * ReplayPlayer が同じシードのゲームを再生して同じ局面を再現できることを検証する。
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { ReplayPlayer } from "$lib/application/replay/ReplayPlayer";
+import { serializeReplay, parseReplay } from "$lib/application/replay/replayCodec";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import { effectQueueStore } from "$lib/application/stores/effectQueueStore";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import type { GameReplay } from "$lib/application/types/replay";
+import {
+  createScenarioDeck,
+  advanceToMain1,
+  flushEffectQueue,
+  resolveCardSelection,
+  resolveChainConfirmation,
+  hasChainConfirmation,
+  getState,
+  ACTUAL_CARD_IDS,
+  DUMMY_CARD_IDS,
+} from "../../__testUtils__";
+
+// 通常モンスター x5 の最小デッキ（初期手札5枚）
+const minimalDeck = createScenarioDeck(Array.from({ length: 5 }, () => DUMMY_CARD_IDS.NORMAL_MONSTER));
+
+// リプレイを最後まで再生する（フェイクタイマーを進めながら1手ずつ）
+async function playAll(player: ReplayPlayer): Promise<void> {
+  while (player.hasNext) {
+    const stepping = player.step();
+    await vi.runAllTimersAsync();
+    await stepping;
+  }
+}
+
+describe("操作履歴・リプレイ - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("コマンドとカード選択が記録され、リプレイで同じ局面が再現される", async () => {
+    // 天使の施し x20: 3枚ドロー → 2枚選んで捨てる
+    facade.resetGame(createScenarioDeck(Array.from({ length: 20 }, () => ACTUAL_CARD_IDS.GRACEFUL_CHARITY)), {
+      seed: 7,
+    });
+    advanceToMain1(facade);
+
+    facade.activateSpell(getState().space.hand[0].instanceId);
+    await flushEffectQueue();
+    const discards = getState()
+      .space.hand.slice(0, 2)
+      .map((c) => c.instanceId);
+    await resolveCardSelection(discards);
+
+    const expected = getState();
+    const replay = facade.exportReplay()!;
+
+    expect(replay.seed).toBe(7);
+    expect(replay.entries.map((e) => (e.type === "command" ? e.command : e.answer.kind))).toEqual([
+      "advancePhase",
+      "advancePhase",
+      "activateSpell",
+      "cardSelection",
+    ]);
+
+    // 別のゲームを挟んでから再生する
+    facade.resetGame(minimalDeck);
+    const player = new ReplayPlayer(facade, parseReplay(serializeReplay(replay)));
+    player.start();
+    await playAll(player);
+
+    expect(getState().space).toEqual(expected.space);
+    expect(getState().rng).toEqual(expected.rng);
+    // 再生したゲームも同じ履歴を記録する
+    expect(facade.exportReplay()!.entries).toEqual(replay.entries);
+  });
+
+  it("チェーン確認の回答が記録・再生される", async () => {
+    facade.resetGame(
+      createScenarioDeck([
+        DUMMY_CARD_IDS.NORMAL_SPELL,
+        DUMMY_CARD_IDS.NORMAL_SPELL,
+        DUMMY_CARD_IDS.NORMAL_SPELL,
+        DUMMY_CARD_IDS.QUICKPLAY_SPELL,
+        DUMMY_CARD_IDS.QUICKPLAY_SPELL,
+        DUMMY_CARD_IDS.QUICKPLAY_SPELL,
+      ]),
+      { seed: 3 },
+    );
+    advanceToMain1(facade);
+
+    const hand = getState().space.hand;
+    const normal = hand.find((c) => c.id === DUMMY_CARD_IDS.NORMAL_SPELL)!;
+    const quick = hand.find((c) => c.id === DUMMY_CARD_IDS.QUICKPLAY_SPELL)!;
+    facade.activateSpell(normal.instanceId);
+    await flushEffectQueue();
+    expect(hasChainConfirmation()).toBe(true);
+    await resolveChainConfirmation(false, quick.instanceId);
+    if (hasChainConfirmation()) {
+      await resolveChainConfirmation(true);
+    }
+
+    const expected = getState();
+    const replay = facade.exportReplay()!;
+    expect(replay.entries).toContainEqual({ type: "answer", answer: { kind: "chain", instanceId: quick.instanceId } });
+
+    const player = new ReplayPlayer(facade, replay);
+    player.start();
+    await playAll(player);
+
+    expect(getState().space).toEqual(expected.space);
+  });
+
+  it("先攻・後攻はゲーム開始時の指定を記録し、ターンが進んでも変わらない", () => {
+    facade.resetGame(minimalDeck, { seed: 3 });
+    gameStateStore.set({ ...getState(), turn: 2 });
+
+    expect(facade.isGoingSecond()).toBe(false);
+    expect(facade.exportReplay()?.goingSecond).toBeUndefined();
+
+    facade.resetGame(createScenarioDeck(Array.from({ length: 10 }, () => DUMMY_CARD_IDS.NORMAL_MONSTER)), {
+      seed: 3,
+      goingSecond: true,
+    });
+
+    expect(facade.isGoingSecond()).toBe(true);
+    expect(facade.exportReplay()?.goingSecond).toBe(true);
+  });
+
+  it("記録と一致しない回答はエラーになる", async () => {
+    const replay: GameReplay = {
+      version: 1,
+      deckRecipe: minimalDeck,
+      seed: 1,
+      entries: [{ type: "answer", answer: { kind: "confirmation" } }],
+    };
+
+    const player = new ReplayPlayer(facade, replay);
+    player.start();
+
+    await expect(player.step()).rejects.toThrow("Replay desync at entry 0");
+  });
+
+  it("効果処理が上限時間内に落ち着かない場合はエラーになる", async () => {
+    const replay: GameReplay = {
+      version: 1,
+      deckRecipe: minimalDeck,
+      seed: 1,
+      entries: [{ type: "command", command: "advancePhase", args: [] }],
+    };
+    const player = new ReplayPlayer(facade, replay, { settleTimeoutMs: 100 });
+    player.start();
+    // トースト通知のステップ（300ms 待機）を処理中にする
+    effectQueueStore.handleEffectQueues(undefined, [
+      {
+        id: "slow-step",
+        summary: "処理中",
+        description: "処理中です",
+        action: (state) => GameProcessing.Result.success(state, "done"),
+      },
+    ]);
+
+    const stepping = expect(player.step()).rejects.toThrow(
+      "Replay desync at entry 0: effect processing did not settle within 100ms",
+    );
+    await vi.advanceTimersByTimeAsync(100);
+    await stepping;
+    await vi.runAllTimersAsync();
+  });
+
+  it("復元したゲームは履歴を持たない", () => {
+    facade.resetGame(minimalDeck, { seed: 1 });
+    expect(facade.exportReplay()).not.toBeNull();
+
+    facade.setSnapshotRepository({
+      save: () => {},
+      load: () => JSON.stringify({ version: 2, deckId: "test", snapshot: getState() }),
+      delete: () => {},
+      list: () => [],
+    });
+    facade.restoreGame();
+
+    expect(facade.exportReplay()).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * 儀式召喚 基本フローテスト
+ *
+ * GameFacade + effectQueueStore を通じた本物のフローで
+ * 《カオス－黒魔術の儀式》による儀式召喚（儀式モンスター選択 → リリース選択 → 儀式召喚）を検証する。
+ *
+ * 使用カード:
+ * - 《カオス－黒魔術の儀式》（レベルの合計が8以上になるようにリリース）
+ * - 《マジシャン・オブ・ブラックカオス》（レベル8の儀式モンスター）
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import {
+  createSpaceState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createSpellInstance,
+  createFilledMainDeck,
+  flushEffectQueue,
+  hasCardSelection,
+  resolveCardSelection,
+  getState,
+  ACTUAL_CARD_IDS,
+} from "../../__testUtils__";
+
+const createRitualReadyState = (options?: { fieldLevel?: number }) =>
+  createSpaceState({
+    hand: [
+      createSpellInstance("ritual-spell-0", { cardId: ACTUAL_CARD_IDS.BLACK_MAGIC_RITUAL }),
+      createMonsterInstance("ritual-0", { cardId: ACTUAL_CARD_IDS.MAGICIAN_OF_BLACK_CHAOS, frameType: "ritual" }),
+      createMonsterInstance("hand-0", { level: 4 }),
+    ],
+    mainMonsterZone: [createMonsterOnField("field-0", { level: options?.fieldLevel ?? 4 })],
+    ...createFilledMainDeck(5),
+  });
+
+describe("儀式召喚 - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("儀式魔法で手札・フィールドのモンスターをリリースし、儀式モンスターを儀式召喚する", async () => {
+    gameStateStore.set(createRitualReadyState());
+
+    expect(facade.canActivateSpell("ritual-spell-0")).toBe(true);
+    facade.activateSpell("ritual-spell-0");
+    await flushEffectQueue(); // 儀式モンスター選択で停止
+
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection(["ritual-0"]); // リリース選択で停止
+
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection(["hand-0", "field-0"]);
+
+    const after = getState();
+    expect(after.space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["ritual-0"]);
+    expect(after.space.graveyard.map((card) => card.instanceId).sort()).toEqual([
+      "field-0",
+      "hand-0",
+      "ritual-spell-0",
+    ]);
+    expect(after.space.hand).toHaveLength(0);
+    expect(after.normalSummonUsed).toBe(0);
+  });
+
+  it("リリースするモンスターのレベルの合計が足りない場合は儀式魔法を発動できない", () => {
+    gameStateStore.set(createRitualReadyState({ fieldLevel: 3 }));
+
+    expect(facade.canActivateSpell("ritual-spell-0")).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * セーブスロット 基本フローテスト
+ *
+ * GameFacade が自動保存と名前付きの手動保存を別スロットに保存し、
+ * 任意のスロットから局面を復元できることを検証する。
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { LocalStorageGameSnapshotRepository } from "$lib/infrastructure/adapters/LocalStorageGameSnapshotRepository";
+import {
+  createScenarioDeck,
+  advanceToMain1,
+  getState,
+  useInMemoryLocalStorage,
+  DUMMY_CARD_IDS,
+} from "../../__testUtils__";
+
+// 通常モンスター x10 の最小デッキ
+const deck = createScenarioDeck(Array.from({ length: 10 }, () => DUMMY_CARD_IDS.NORMAL_MONSTER));
+
+describe("セーブスロット - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    useInMemoryLocalStorage();
+    facade = new GameFacade();
+    facade.setSnapshotRepository(new LocalStorageGameSnapshotRepository());
+    facade.resetGame(deck, { seed: 1 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("手動保存したスロットのメタデータを一覧に表示する", () => {
+    advanceToMain1(facade);
+    vi.setSystemTime(new Date(2000));
+
+    const saved = facade.saveGameToSlot("test-deck", "メイン1");
+
+    expect(saved).toMatchObject({ name: "メイン1", deckId: "test-deck", deckName: "Scenario Test Deck", turn: 1 });
+    expect(facade.listSaveSlots()).toEqual([
+      expect.objectContaining({ slotId: saved!.slotId, phase: "main1", phaseName: "メインフェイズ1", savedAt: 2000 }),
+    ]);
+  });
+
+  it("自動保存は手動保存のスロットを上書きしない", () => {
+    const manual = facade.saveGameToSlot("test-deck", "ドローフェイズ");
+    const drawPhaseState = getState();
+    advanceToMain1(facade);
+    facade.saveGame("test-deck");
+
+    expect(facade.listSaveSlots()).toHaveLength(2);
+
+    expect(facade.restoreGame(manual!.slotId).success).toBe(true);
+    expect(getState()).toEqual(drawPhaseState);
+  });
+
+  it("自動保存スロットの削除は手動保存のスロットに影響しない", () => {
+    const manual = facade.saveGameToSlot("test-deck", "手動");
+    facade.saveGame("test-deck");
+
+    facade.clearSavedGame();
+
+    expect(facade.listSaveSlots().map((slot) => slot.slotId)).toEqual([manual!.slotId]);
+  });
+
+  it("スロットを削除できる", () => {
+    const manual = facade.saveGameToSlot("test-deck", "手動");
+
+    facade.deleteSaveSlot(manual!.slotId);
+
+    expect(facade.listSaveSlots()).toEqual([]);
+  });
+
+  it("移行できない保存データは残したまま、原因をエラーとして返す", () => {
+    localStorage.setItem("ygo_save_slot:broken", JSON.stringify({ version: 2, deckId: "test-deck", snapshot: {} }));
+
+    const result = facade.restoreGame("broken");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("移行できませんでした");
+    expect(facade.listUnreadableSaveSlots()).toEqual([
+      expect.objectContaining({ slotId: "broken", issues: ["snapshot is not set"] }),
+    ]);
+    expect(localStorage.getItem("ygo_save_slot:broken")).not.toBeNull();
+  });
+
+  it("存在しないスロットの復元はエラーを返す", () => {
+    expect(facade.restoreGame("missing")).toEqual({ success: false, error: "保存データが見つかりません" });
+  });
+});
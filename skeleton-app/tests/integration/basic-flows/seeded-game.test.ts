@@ -0,0 +1,62 @@
+/**
+ * シード付きゲーム 基本フローテスト
+ *
+ * GameFacade に乱数シードを指定して開始したゲームが、
+ * 初期手札・ドロー順まで再現されることを検証する。
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { createScenarioDeck, advanceToMain1, flushEffectQueue, getState, ACTUAL_CARD_IDS } from "../../__testUtils__";
+
+// 20枚デッキ: 強欲な壺 + 通常モンスター（エクゾディアパーツ以外）
+const deck = createScenarioDeck([
+  ...Array.from({ length: 10 }, () => ACTUAL_CARD_IDS.POT_OF_GREED),
+  ...Array.from({ length: 10 }, () => ACTUAL_CARD_IDS.GOLDEN_GOBLIN),
+]);
+
+// インスタンスIDの並びで手札を比較する
+const handIds = () => getState().space.hand.map((c) => c.instanceId);
+
+describe("シード付きゲーム - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("同じシードでは同じ初期手札になる", () => {
+    facade.resetGame(deck, { seed: 20240101 });
+    const firstHand = handIds();
+
+    facade.resetGame(deck, { seed: 20240101 });
+    const secondHand = handIds();
+
+    expect(secondHand).toEqual(firstHand);
+    expect(facade.getSeed()).toBe(20240101);
+  });
+
+  it("同じシード・同じ操作では効果によるドローも再現される", async () => {
+    const play = async () => {
+      facade.resetGame(deck, { seed: 42 });
+      advanceToMain1(facade);
+      const pot = getState().space.hand.find((c) => c.id === ACTUAL_CARD_IDS.POT_OF_GREED);
+      if (pot) {
+        facade.activateSpell(pot.instanceId);
+        await flushEffectQueue();
+      }
+      return { hand: handIds(), rng: getState().rng };
+    };
+
+    const first = await play();
+    const second = await play();
+
+    expect(second).toEqual(first);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * 局面共有 基本フローテスト
+ *
+ * GameFacade.getPositionCode() で書き出した局面を、別のゲームから restorePosition() で復元できることを検証する。
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { createScenarioDeck, advanceToMain1, flushEffectQueue, getState, ACTUAL_CARD_IDS } from "../../__testUtils__";
+
+// 20枚デッキ: 強欲な壺 x10 + 天使の施し x10
+const deck = createScenarioDeck([
+  ...Array.from({ length: 10 }, () => ACTUAL_CARD_IDS.POT_OF_GREED),
+  ...Array.from({ length: 10 }, () => ACTUAL_CARD_IDS.GRACEFUL_CHARITY),
+]);
+
+describe("局面共有 - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+    facade.resetGame(deck, { seed: 1 });
+    advanceToMain1(facade);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("書き出した局面を別のゲームで復元できる", async () => {
+    const potInstanceId = getState().space.hand.find((c) => c.id === ACTUAL_CARD_IDS.POT_OF_GREED)!.instanceId;
+    facade.activateSpell(potInstanceId);
+    await flushEffectQueue();
+    const shared = getState();
+    const code = facade.getPositionCode();
+
+    facade.resetGame(deck, { seed: 2 });
+    const result = facade.restorePosition(code);
+
+    expect(result.success).toBe(true);
+    expect(facade.getPositionCode()).toBe(code);
+    expect(getState().space.hand.map((c) => c.instanceId)).toEqual(shared.space.hand.map((c) => c.instanceId));
+    expect(getState().activatedCardIds).toEqual(shared.activatedCardIds);
+    expect(getState().rng).toEqual(shared.rng);
+  });
+
+  it("復元した局面から操作を続けられ、Undo 履歴・操作履歴は引き継がない", () => {
+    const code = facade.getPositionCode();
+    facade.resetGame(deck, { seed: 2 });
+
+    facade.restorePosition(code);
+
+    expect(facade.canUndo()).toBe(false);
+    expect(facade.exportReplay()).toBeNull();
+    const instanceId = getState().space.hand.find((c) => c.id === ACTUAL_CARD_IDS.POT_OF_GREED)!.instanceId;
+    expect(facade.activateSpell(instanceId).success).toBe(true);
+  });
+
+  it("不正な局面コードは局面を変えずにエラーを返す", () => {
+    const before = getState();
+
+    const result = facade.restorePosition("broken");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("局面を読み込めません");
+    expect(getState()).toBe(before);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * 降参 基本フローテスト
+ *
+ * GameFacade を通じて降参し、通常の敗北と区別できる結果でゲームが終了する流れを検証する。
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { get } from "svelte/store";
+import { GameFacade } from "$lib/application/GameFacade";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import { gameOutcome } from "$lib/application/stores/derivedStores";
+import { createMockGameState, createFilledMainDeck, getState } from "../../__testUtils__";
+
+describe("降参 - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    facade = new GameFacade();
+    gameStateStore.set(createMockGameState({ space: { ...createFilledMainDeck(5) }, phase: "main1" }));
+  });
+
+  it("降参すると相手の勝利でゲームが終了し、決着は降参として区別される", () => {
+    expect(facade.canSurrender()).toBe(true);
+    expect(get(gameOutcome)).toBeNull();
+
+    expect(facade.surrender().success).toBe(true);
+
+    expect(getState().result).toMatchObject({ isGameOver: true, winner: "opponent", reason: "surrender" });
+    expect(get(gameOutcome)).toBe("surrender");
+  });
+
+  it("ゲーム終了後は降参できない", () => {
+    facade.surrender();
+
+    expect(facade.canSurrender()).toBe(false);
+    expect(facade.surrender().success).toBe(false);
+  });
+
+  it("降参は元に戻すことができる", () => {
+    facade.surrender();
+
+    expect(facade.undo().success).toBe(true);
+    expect(getState().result.isGameOver).toBe(false);
+  });
+
+  it("LP0による敗北は降参と区別される", () => {
+    gameStateStore.set(
+      createMockGameState({
+        lp: { player: 0, opponent: 8000 },
+        result: { isGameOver: true, winner: "opponent", reason: "lp0" },
+      }),
+    );
+
+    expect(get(gameOutcome)).toBe("loss");
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * 罠発動 基本フローテスト
+ *
+ * GameFacade + effectQueueStore を通じた本物のフローで
+ * 罠カードの発動パターン（セットターン制限・チェーン・スペルスピード3）を検証する。
+ *
+ * テスト対象:
+ * - 前のターンにセットした通常罠・永続罠の発動
+ * - セットしたターンは発動不可、次のターンに発動可能
+ * - 魔法カードの発動に罠カードをチェーン
+ * - カウンター罠（SS3）にはスペルスピード2以下のカードをチェーンできない
+ * - 《盗賊の七つ道具》にはカウンター罠のみチェーンでき、罠カードの発動を無効にする
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { get } from "svelte/store";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import { effectQueueStore } from "$lib/application/stores/effectQueueStore";
+import {
+  ACTUAL_CARD_IDS,
+  createSpaceState,
+  createSpellInstance,
+  createTrapInstance,
+  createTrapOnField,
+  createFilledMainDeck,
+  flushEffectQueue,
+  getState,
+  hasChainConfirmation,
+  resolveCardSelection,
+  resolveChainConfirmation,
+} from "../../__testUtils__";
+
+// チェーン確認UIに表示されているカードのインスタンスID
+const chainableInstanceIds = (): string[] =>
+  get(effectQueueStore).chainConfirmationConfig?.chainableCards.map(({ instance }) => instance.instanceId) ?? [];
+
+describe("罠カード発動 - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // ───────────────────────────────────────────────
+  // セット済みの罠を発動
+  // ───────────────────────────────────────────────
+  describe("前のターンにセットした罠の発動", () => {
+    it("通常罠: 発動 → 効果解決 → 墓地へ", async () => {
+      gameStateStore.set(
+        createSpaceState({
+          spellTrapZone: [createTrapOnField("trap-1", { position: "faceDown", placedThisTurn: false })],
+        }),
+      );
+
+      expect(facade.canActivateTrap("trap-1")).toBe(true);
+      facade.activateTrap("trap-1");
+      await flushEffectQueue();
+
+      const after = getState();
+      expect(after.space.spellTrapZone).toHaveLength(0);
+      expect(after.space.graveyard.map((card) => card.instanceId)).toEqual(["trap-1"]);
+    });
+
+    it("永続罠: 効果解決後も表側表示でフィールドに残る", async () => {
+      gameStateStore.set(
+        createSpaceState({
+          spellTrapZone: [
+            createTrapOnField("trap-1", { trapType: "continuous", position: "faceDown", placedThisTurn: false }),
+          ],
+        }),
+      );
+
+      facade.activateTrap("trap-1");
+      await flushEffectQueue();
+
+      const after = getState();
+      expect(after.space.spellTrapZone[0]).toMatchObject({
+        instanceId: "trap-1",
+        stateOnField: { position: "faceUp" },
+      });
+      expect(after.space.graveyard).toHaveLength(0);
+    });
+  });
+
+  // ───────────────────────────────────────────────
+  // セットしたターンの制限
+  // ───────────────────────────────────────────────
+  describe("セットしたターンの制限", () => {
+    it("手札からはセットのみ可能で、セットしたターンは発動できない", () => {
+      gameStateStore.set(createSpaceState({ hand: [createTrapInstance("trap-1")] }));
+
+      expect(facade.canActivateTrap("trap-1")).toBe(false);
+      expect(facade.setSpellTrap("trap-1").success).toBe(true);
+      expect(facade.canActivateTrap("trap-1")).toBe(false);
+
+      const result = facade.activateTrap("trap-1");
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("罠カードはセットしたターンに発動できません");
+    });
+
+    it("セットした罠は、エンドフェイズから次のターンに進むと発動できる", async () => {
+      gameStateStore.set(createSpaceState({ hand: [createTrapInstance("trap-1")], ...createFilledMainDeck(1) }));
+      expect(facade.setSpellTrap("trap-1").success).toBe(true);
+
+      expect(facade.advancePhase("end").success).toBe(true);
+      await flushEffectQueue();
+      expect(facade.advancePhase().success).toBe(true);
+      await flushEffectQueue();
+      expect(getState()).toMatchObject({ phase: "draw", turn: 3 });
+
+      expect(facade.canActivateTrap("trap-1")).toBe(true);
+      expect(facade.activateTrap("trap-1").success).toBe(true);
+      await flushEffectQueue();
+
+      expect(getState().space.graveyard.map((card) => card.instanceId)).toEqual(["trap-1"]);
+    });
+  });
+
+  // ───────────────────────────────────────────────
+  // チェーン
+  // ───────────────────────────────────────────────
+  describe("チェーン", () => {
+    it("魔法カードの発動にセット済みの罠をチェーンでき、LIFO で解決される", async () => {
+      gameStateStore.set(
+        createSpaceState({
+          hand: [createSpellInstance("normal-1", { spellType: "normal" })],
+          spellTrapZone: [createTrapOnField("trap-1", { position: "faceDown", placedThisTurn: false })],
+          ...createFilledMainDeck(1),
+        }),
+      );
+
+      facade.activateSpell("normal-1");
+      await flushEffectQueue();
+
+      expect(chainableInstanceIds()).toEqual(["trap-1"]);
+      await resolveChainConfirmation(false, "trap-1");
+
+      const after = getState();
+      expect(after.space.graveyard.map((card) => card.instanceId)).toEqual(["trap-1", "normal-1"]);
+    });
+
+    it("セットしたターンの罠はチェーン候補に含まれない", async () => {
+      gameStateStore.set(
+        createSpaceState({
+          hand: [createSpellInstance("normal-1", { spellType: "normal" })],
+          spellTrapZone: [createTrapOnField("trap-1", { position: "faceDown", placedThisTurn: true })],
+          ...createFilledMainDeck(1),
+        }),
+      );
+
+      facade.activateSpell("normal-1");
+      await flushEffectQueue();
+
+      expect(hasChainConfirmation()).toBe(false);
+    });
+
+    it("カウンター罠（SS3）の後はスペルスピード2のカードをチェーンできない", async () => {
+      gameStateStore.set(
+        createSpaceState({
+          hand: [createSpellInstance("quick-1", { spellType: "quick-play" })],
+          spellTrapZone: [
+            createTrapOnField("trap-1", { position: "faceDown", placedThisTurn: false }),
+            createTrapOnField("counter-1", {
+              trapType: "counter",
+              position: "faceDown",
+              placedThisTurn: false,
+              slotIndex: 1,
+            }),
+          ],
+        }),
+      );
+
+      facade.activateTrap("trap-1");
+      await flushEffectQueue();
+
+      // 通常罠（SS2）には速攻魔法とカウンター罠の両方をチェーンできる
+      expect(chainableInstanceIds()).toEqual(expect.arrayContaining(["quick-1", "counter-1"]));
+      await resolveChainConfirmation(false, "counter-1");
+
+      // カウンター罠（SS3）には速攻魔法をチェーンできないため、そのまま解決される
+      expect(hasChainConfirmation()).toBe(false);
+      const after = getState();
+      expect(after.space.graveyard.map((card) => card.instanceId)).toEqual(["counter-1", "trap-1"]);
+      expect(after.space.hand.map((card) => card.instanceId)).toEqual(["quick-1"]);
+    });
+
+    it("《盗賊の七つ道具》にはカウンター罠のみチェーンでき、チェーンされた七つ道具の発動を無効にする", async () => {
+      const sevenTools = (instanceId: string, slotIndex: number) =>
+        createTrapOnField(instanceId, {
+          cardId: ACTUAL_CARD_IDS.SEVEN_TOOLS_OF_THE_BANDIT,
+          trapType: "counter",
+          position: "faceDown",
+          placedThisTurn: false,
+          slotIndex,
+        });
+      gameStateStore.set(
+        createSpaceState({
+          spellTrapZone: [
+            createTrapOnField("trap-1", { position: "faceDown", placedThisTurn: false }),
+            createTrapOnField("trap-2", { position: "faceDown", placedThisTurn: false, slotIndex: 1 }),
+            sevenTools("tools-1", 2),
+            sevenTools("tools-2", 3),
+          ],
+        }),
+      );
+
+      // チェーン上に罠カードの発動がなければ発動できない
+      expect(facade.canActivateTrap("tools-1")).toBe(false);
+
+      facade.activateTrap("trap-1");
+      await flushEffectQueue();
+      expect(chainableInstanceIds()).toEqual(expect.arrayContaining(["trap-2", "tools-1", "tools-2"]));
+
+      // 七つ道具（SS3）には通常罠をチェーンできず、もう1枚の七つ道具のみチェーンできる
+      await resolveChainConfirmation(false, "tools-1");
+      expect(chainableInstanceIds()).toEqual(["tools-2"]);
+      await resolveChainConfirmation(false, "tools-2");
+
+      // チェーン3の七つ道具で、チェーン上の罠カードからチェーン2の七つ道具を選んで発動を無効にする
+      await resolveCardSelection(["tools-1"]);
+
+      expect(hasChainConfirmation()).toBe(false);
+      const after = getState();
+      expect(after.lp.player).toBe(6000);
+      expect(after.space.graveyard.map((card) => card.instanceId)).toEqual(["tools-2", "tools-1", "trap-1"]);
+      expect(after.space.spellTrapZone.map((card) => card.instanceId)).toEqual(["trap-2"]);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Undo/Redo 基本フローテスト
+ *
+ * GameFacade.undo() / redo() が、プレイヤー操作前後の局面
+ * （操作から続いたチェーン・効果処理の結果を含む）に戻せることを検証する。
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import {
+  createScenarioDeck,
+  advanceToMain1,
+  flushEffectQueue,
+  resolveCardSelection,
+  hasCardSelection,
+  getState,
+  ACTUAL_CARD_IDS,
+} from "../../__testUtils__";
+
+// 20枚デッキ: 強欲な壺 x10 + 天使の施し x10
+const deck = createScenarioDeck([
+  ...Array.from({ length: 10 }, () => ACTUAL_CARD_IDS.POT_OF_GREED),
+  ...Array.from({ length: 10 }, () => ACTUAL_CARD_IDS.GRACEFUL_CHARITY),
+]);
+
+// 手札から指定カードのインスタンスIDを取得する
+const findInHand = (cardId: number) => getState().space.hand.find((c) => c.id === cardId)?.instanceId;
+
+describe("Undo/Redo - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+    // シード 1: 初期手札に強欲な壺・天使の施しの両方を含む
+    facade.resetGame(deck, { seed: 1 });
+    advanceToMain1(facade);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("新規ゲーム直後は Redo できない", () => {
+    expect(facade.canRedo()).toBe(false);
+    expect(facade.redo().success).toBe(false);
+  });
+
+  it("魔法カードの発動と効果処理をまとめて取り消し、やり直せる", async () => {
+    const before = getState();
+    facade.activateSpell(findInHand(ACTUAL_CARD_IDS.POT_OF_GREED)!);
+    await flushEffectQueue();
+    const after = getState();
+    expect(after.space.graveyard.length).toBe(1);
+
+    expect(facade.canUndo()).toBe(true);
+    expect(facade.undo().success).toBe(true);
+    expect(getState()).toEqual(before);
+
+    expect(facade.canRedo()).toBe(true);
+    expect(facade.redo().success).toBe(true);
+    expect(getState()).toEqual(after);
+  });
+
+  it("効果処理中（カード選択待ち）は取り消せない", async () => {
+    facade.activateSpell(findInHand(ACTUAL_CARD_IDS.GRACEFUL_CHARITY)!);
+    await flushEffectQueue();
+    expect(hasCardSelection()).toBe(true);
+
+    expect(facade.canUndo()).toBe(false);
+    expect(facade.undo()).toMatchObject({ success: false, error: "効果処理中は操作を取り消せません" });
+
+    await resolveCardSelection(
+      getState()
+        .space.hand.slice(0, 2)
+        .map((c) => c.instanceId),
+    );
+    expect(facade.canUndo()).toBe(true);
+  });
+
+  it("取り消した後に別の操作をすると Redo 履歴は破棄される", async () => {
+    facade.activateSpell(findInHand(ACTUAL_CARD_IDS.POT_OF_GREED)!);
+    await flushEffectQueue();
+    facade.undo();
+
+    facade.advancePhase();
+    expect(facade.canRedo()).toBe(false);
+  });
+
+  it("取り消した操作はリプレイの操作履歴からも除かれる", async () => {
+    const entriesBefore = facade.exportReplay()!.entries;
+    facade.activateSpell(findInHand(ACTUAL_CARD_IDS.GRACEFUL_CHARITY)!);
+    await flushEffectQueue();
+    await resolveCardSelection(
+      getState()
+        .space.hand.slice(0, 2)
+        .map((c) => c.instanceId),
+    );
+    const entriesAfter = facade.exportReplay()!.entries;
+
+    facade.undo();
+    expect(facade.exportReplay()!.entries).toEqual(entriesBefore);
+
+    facade.redo();
+    expect(facade.exportReplay()!.entries).toEqual(entriesAfter);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * エクシーズ召喚 基本フローテスト
+ *
+ * GameFacade + effectQueueStore を通じた本物のフローで
+ * エクシーズ召喚と、エクシーズ素材を取り除くコストを持つ起動効果を検証する。
+ *
+ * エクシーズ召喚は常に素材選択ステップ（interactive）が発生する:
+ * 1. facade.xyzSummon(xyzId) → 素材選択ステップをキュー
+ * 2. flushEffectQueue() → 素材選択で一時停止
+ * 3. resolveCardSelection(materialInstanceIds) → 素材確定 → 召喚完了
+ *
+ * 使用カード:
+ * - 《ダイガスタ・エメラル》(581014): ランク4・素材2体、素材1つを取り除き墓地のモンスター3体をデッキに戻して1枚ドロー
+ * - 素材: レベル4のダミー通常モンスター
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { vi } from "vitest";
+import { GameFacade } from "$lib/application/GameFacade";
+import { gameStateStore } from "$lib/application/stores/gameStateStore";
+import {
+  createSpaceState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createFilledMainDeck,
+  flushEffectQueue,
+  resolveCardSelection,
+  hasCardSelection,
+  getState,
+  ACTUAL_CARD_IDS,
+} from "../../__testUtils__";
+
+// EXデッキに《ダイガスタ・エメラル》、フィールドにレベル4モンスター2体、墓地にモンスター3体がいる状態
+const createEmeralReadyState = () =>
+  createSpaceState({
+    ...createFilledMainDeck(5),
+    extraDeck: [createMonsterInstance("emeral", { cardId: ACTUAL_CARD_IDS.DAIGUSTO_EMERAL, location: "extraDeck" })],
+    mainMonsterZone: [
+      createMonsterOnField("material-0", { level: 4 }),
+      createMonsterOnField("material-1", { level: 4, slotIndex: 1 }),
+    ],
+    graveyard: ["gy-0", "gy-1", "gy-2"].map((instanceId) =>
+      createMonsterInstance(instanceId, { location: "graveyard" }),
+    ),
+  });
+
+describe("エクシーズ召喚 - 基本フローテスト", () => {
+  let facade: GameFacade;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    facade = new GameFacade();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("レベル4モンスター2体を重ねて《ダイガスタ・エメラル》をエクシーズ召喚する", async () => {
+    gameStateStore.set(createEmeralReadyState());
+
+    expect(facade.canXyzSummon("emeral")).toBe(true);
+    facade.xyzSummon("emeral");
+    await flushEffectQueue();
+
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection(["material-0", "material-1"]);
+
+    const after = getState();
+    expect(after.space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["emeral"]);
+    expect(after.space.mainMonsterZone[0].stateOnField?.xyzMaterials).toHaveLength(2);
+    expect(after.space.graveyard.map((card) => card.instanceId)).toEqual(["gy-0", "gy-1", "gy-2"]);
+  });
+
+  it("素材を1つ取り除いて起動効果を発動し、墓地のモンスター3体をデッキに戻して1枚ドローする", async () => {
+    gameStateStore.set(createEmeralReadyState());
+    facade.xyzSummon("emeral");
+    await flushEffectQueue();
+    await resolveCardSelection(["material-0", "material-1"]);
+
+    expect(facade.canActivateIgnitionEffect("emeral")).toBe(true);
+    facade.activateIgnitionEffect("emeral");
+    await flushEffectQueue();
+
+    // コスト: 取り除く素材を選択
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection(["material-1"]);
+
+    // 対象: 墓地のモンスター3体を選択
+    expect(hasCardSelection()).toBe(true);
+    await resolveCardSelection(["gy-0", "gy-1", "gy-2"]);
+
+    const after = getState();
+    const emeral = after.space.mainMonsterZone[0];
+    expect(emeral.stateOnField?.xyzMaterials?.map((card) => card.instanceId)).toEqual(["material-0"]);
+    expect(after.space.graveyard.map((card) => card.instanceId)).toEqual(["material-1"]);
+    expect(after.space.mainDeck).toHaveLength(7);
+    expect(after.space.hand).toHaveLength(1);
+
+    // 1ターンに1度
+    expect(facade.canActivateIgnitionEffect("emeral")).toBe(false);
+  });
+
+  it("素材がなくなると起動効果を発動できない", async () => {
+    gameStateStore.set(
+      createSpaceState({
+        ...createFilledMainDeck(5),
+        mainMonsterZone: [createMonsterOnField("emeral", { cardId: ACTUAL_CARD_IDS.DAIGUSTO_EMERAL })],
+        graveyard: ["gy-0", "gy-1", "gy-2"].map((instanceId) =>
+          createMonsterInstance(instanceId, { location: "graveyard" }),
+        ),
+      }),
+    );
+
+    expect(facade.canActivateIgnitionEffect("emeral")).toBe(false);
+  });
+});
@@ -243,6 +243,7 @@ describe("Draw Spell Combos - 実カードシナリオテスト", () => {
           mainDeck: deckCards,
           hand: handCards,
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [],
           fieldZone: [],
           graveyard: [],
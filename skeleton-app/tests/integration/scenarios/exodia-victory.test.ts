@@ -60,6 +60,7 @@ describe("エクゾディア勝利 - 実カードシナリオテスト", () => {
           mainDeck: deckCards,
           hand: handCards,
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [],
           fieldZone: [],
           graveyard: [],
@@ -105,6 +106,7 @@ describe("エクゾディア勝利 - 実カードシナリオテスト", () => {
         mainDeck: deckCards,
         hand: handCards,
         mainMonsterZone: [],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -50,6 +50,7 @@ describe("王立魔法図書館コンボ - 実カードシナリオテスト", (
         ],
         hand: [createSpellInstance("goblin-1", { cardId: ACTUAL_CARD_IDS.GOLDEN_GOBLIN })],
         mainMonsterZone: [createMonsterOnField(libraryInstanceId, { cardId: ACTUAL_CARD_IDS.ROYAL_MAGIC_LIBRARY })],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -80,6 +81,7 @@ describe("王立魔法図書館コンボ - 実カードシナリオテスト", (
           createSpellInstance("goblin-3", { cardId: ACTUAL_CARD_IDS.GOLDEN_GOBLIN }),
         ],
         mainMonsterZone: [createMonsterOnField(libraryInstanceId, { cardId: ACTUAL_CARD_IDS.ROYAL_MAGIC_LIBRARY })],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -112,6 +114,7 @@ describe("王立魔法図書館コンボ - 実カードシナリオテスト", (
             counters: [{ type: "spell", count: 3 }],
           }),
         ],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -145,6 +148,7 @@ describe("王立魔法図書館コンボ - 実カードシナリオテスト", (
             counters: [{ type: "spell", count: 3 }],
           }),
         ],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -174,6 +178,7 @@ describe("王立魔法図書館コンボ - 実カードシナリオテスト", (
             counters: [{ type: "spell", count: 2 }],
           }),
         ],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -205,6 +210,7 @@ describe("王立魔法図書館コンボ - 実カードシナリオテスト", (
           createSpellInstance("goblin-3", { cardId: ACTUAL_CARD_IDS.GOLDEN_GOBLIN }),
         ],
         mainMonsterZone: [createMonsterOnField(libraryInstanceId, { cardId: ACTUAL_CARD_IDS.ROYAL_MAGIC_LIBRARY })],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
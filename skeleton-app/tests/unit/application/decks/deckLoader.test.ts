@@ -102,6 +102,13 @@ describe("deckLoader - ヘルパー関数", () => {
     expect(() => getDeckRecipe("non-existent-deck")).toThrow("Deck not found: non-existent-deck");
   });
 
+  it("getDeckRecipe: プリセットにないデッキIDはカスタムデッキから探す", () => {
+    const customRecipe = { name: "Custom", description: "", mainDeck: [], extraDeck: [] };
+
+    expect(getDeckRecipe("custom-1", { "custom-1": customRecipe })).toBe(customRecipe);
+    expect(() => getDeckRecipe("custom-2", { "custom-1": customRecipe })).toThrow("Deck not found: custom-2");
+  });
+
   it("extractUniqueCardIds: 重複なしのカードIDを返す", () => {
     const deckRecipe = getDeckRecipe("exodia-deck");
     const uniqueCardIds = extractUniqueCardIds(deckRecipe);
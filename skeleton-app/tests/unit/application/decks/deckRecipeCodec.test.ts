@@ -0,0 +1,29 @@
+/**
+ * deckRecipeCodec のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseDeckRecipe } from "$lib/application/decks/deckRecipeCodec";
+import type { DeckRecipe } from "$lib/application/types/deck";
+
+const recipe: DeckRecipe = {
+  name: "Custom Deck",
+  description: "",
+  mainDeck: [{ id: 55144522, quantity: 3 }],
+  extraDeck: [],
+};
+
+describe("deckRecipeCodec", () => {
+  it("JSON のデッキレシピを読み込める", () => {
+    expect(parseDeckRecipe(JSON.stringify(recipe))).toEqual(recipe);
+  });
+
+  it("JSON として不正な場合エラー", () => {
+    expect(() => parseDeckRecipe("{")).toThrow("Invalid deck recipe JSON");
+  });
+
+  it("枚数が不正な場合エラー", () => {
+    const json = JSON.stringify({ ...recipe, mainDeck: [{ id: 55144522, quantity: 0 }] });
+    expect(() => parseDeckRecipe(json)).toThrow("Invalid deck recipe data");
+  });
+});
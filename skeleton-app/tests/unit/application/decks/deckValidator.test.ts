@@ -0,0 +1,75 @@
+/**
+ * deckValidator のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { validateDeckRecipe } from "$lib/application/decks/deckValidator";
+import type { DeckRecipe, RecipeCardEntry } from "$lib/application/types/deck";
+import type { CardData } from "$lib/application/types/card";
+import { CardDataRegistry } from "$lib/domain/cards";
+import { DUMMY_CARD_IDS } from "../../../__testUtils__";
+
+// カードID 1〜999 をメインデッキのカード、1000〜1999 をエクストラデッキのカードとして扱う
+const mainDeckCard = CardDataRegistry.get(DUMMY_CARD_IDS.NORMAL_MONSTER);
+const extraDeckCard = CardDataRegistry.get(DUMMY_CARD_IDS.XYZ_MONSTER);
+const findCard = (cardId: number): CardData | undefined => {
+  if (cardId < 1000) return { ...mainDeckCard, id: cardId };
+  if (cardId < 2000) return { ...extraDeckCard, id: cardId };
+  return undefined;
+};
+
+// startId から kinds 種類のカードを quantity 枚ずつ並べる
+const createEntries = (kinds: number, quantity: number, startId: number): RecipeCardEntry[] =>
+  Array.from({ length: kinds }, (_, i) => ({ id: startId + i, quantity }));
+
+const createRecipe = (mainDeck: RecipeCardEntry[], extraDeck: RecipeCardEntry[] = []): DeckRecipe => ({
+  name: "Custom Deck",
+  description: "",
+  mainDeck,
+  extraDeck,
+});
+
+describe("deckValidator", () => {
+  it("メイン40枚・エクストラ15枚のデッキは有効", () => {
+    const recipe = createRecipe(createEntries(20, 2, 1), createEntries(5, 3, 1000));
+
+    expect(validateDeckRecipe(recipe, findCard)).toEqual({ isValid: true, errors: [] });
+  });
+
+  it("メインデッキが40枚未満・60枚超の場合は無効", () => {
+    expect(validateDeckRecipe(createRecipe(createEntries(13, 3, 1)), findCard).errors).toEqual([
+      "メインデッキは40〜60枚にしてください（現在39枚）",
+    ]);
+    expect(validateDeckRecipe(createRecipe(createEntries(61, 1, 1)), findCard).isValid).toBe(false);
+    expect(validateDeckRecipe(createRecipe(createEntries(60, 1, 1)), findCard).isValid).toBe(true);
+  });
+
+  it("エクストラデッキが15枚を超える場合は無効", () => {
+    const recipe = createRecipe(createEntries(40, 1, 1), createEntries(16, 1, 1000));
+
+    expect(validateDeckRecipe(recipe, findCard).errors).toEqual([
+      "エクストラデッキは15枚以下にしてください（現在16枚）",
+    ]);
+  });
+
+  it("同名カードはメイン・エクストラ合わせて3枚まで", () => {
+    const recipe = createRecipe([...createEntries(39, 1, 1), { id: 1, quantity: 3 }]);
+
+    expect(validateDeckRecipe(recipe, findCard).errors).toEqual([`《${mainDeckCard.jaName}》は3枚までです（現在4枚）`]);
+  });
+
+  it("エクストラデッキのモンスターはメインデッキに、それ以外はエクストラデッキに入れられない", () => {
+    const recipe = createRecipe([...createEntries(39, 1, 1), { id: 1000, quantity: 1 }], [{ id: 100, quantity: 1 }]);
+
+    expect(validateDeckRecipe(recipe, findCard).errors).toEqual([
+      `《${extraDeckCard.jaName}》はメインデッキに入れられません`,
+      `《${mainDeckCard.jaName}》はエクストラデッキに入れられません`,
+    ]);
+  });
+
+  it("未定義のカードは使用できない", () => {
+    const recipe = createRecipe([...createEntries(39, 1, 1), { id: 9999, quantity: 1 }]);
+
+    expect(validateDeckRecipe(recipe, findCard).errors).toEqual(["ID:9999は使用できないカードです"]);
+  });
+});
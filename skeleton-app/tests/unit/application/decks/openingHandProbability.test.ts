@@ -0,0 +1,124 @@
+/**
+ * openingHandProbability のテスト
+ *
+ * 初手確率を超幾何分布で厳密に計算できることを検証する。
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  binomial,
+  calculateGroupProbability,
+  calculateOpeningHandProbability,
+  OPENING_HAND_SIZES,
+} from "$lib/application/decks/openingHandProbability";
+import { buildDeckData, extractUniqueCardIds, getPresetDecks } from "$lib/application/decks/deckLoader";
+import type { DeckRecipe } from "$lib/application/types/deck";
+import { GameFacade } from "$lib/application/GameFacade";
+import { DUMMY_CARD_IDS } from "../../../__testUtils__";
+
+const { NORMAL_MONSTER, EFFECT_MONSTER, NORMAL_SPELL } = DUMMY_CARD_IDS;
+
+// 40枚のデッキ: 通常モンスター3枚・効果モンスター3枚・通常魔法34枚
+const recipe: DeckRecipe = {
+  name: "Sample Deck",
+  description: "",
+  mainDeck: [
+    { id: NORMAL_MONSTER, quantity: 3 },
+    { id: EFFECT_MONSTER, quantity: 3 },
+    { id: NORMAL_SPELL, quantity: 34 },
+  ],
+  extraDeck: [],
+};
+const deckData = buildDeckData(recipe, extractUniqueCardIds(recipe));
+
+describe("openingHandProbability", () => {
+  it("binomial: 二項係数を計算し、範囲外は0を返す", () => {
+    expect(binomial(40, 5)).toBe(658008);
+    expect(binomial(5, 0)).toBe(1);
+    expect(binomial(3, 4)).toBe(0);
+  });
+
+  it("3枚のカードを初手5枚で1枚以上引く確率", () => {
+    const probability = calculateOpeningHandProbability(
+      deckData,
+      [{ cardIds: [NORMAL_MONSTER], minCount: 1 }],
+      OPENING_HAND_SIZES.first,
+    );
+
+    // 1 - C(37,5) / C(40,5)
+    expect(probability).toBeCloseTo(0.33755, 5);
+  });
+
+  it("後攻は初手6枚で計算する", () => {
+    const probability = calculateOpeningHandProbability(
+      deckData,
+      [{ cardIds: [NORMAL_MONSTER], minCount: 1 }],
+      OPENING_HAND_SIZES.second,
+    );
+
+    expect(probability).toBeCloseTo(0.39433, 5);
+  });
+
+  it("複数の要件をすべて満たす確率（X と Y を引く）", () => {
+    const probability = calculateOpeningHandProbability(
+      deckData,
+      [
+        { cardIds: [NORMAL_MONSTER], minCount: 1 },
+        { cardIds: [EFFECT_MONSTER], minCount: 1 },
+      ],
+      OPENING_HAND_SIZES.first,
+    );
+
+    expect(probability).toBeCloseTo(0.09798, 5);
+  });
+
+  it("要件のカードはいずれかを合計 minCount 枚以上引けばよい", () => {
+    const anyOf = calculateOpeningHandProbability(
+      deckData,
+      [{ cardIds: [NORMAL_MONSTER, EFFECT_MONSTER], minCount: 1 }],
+      OPENING_HAND_SIZES.first,
+    );
+
+    expect(anyOf).toBeCloseTo(calculateGroupProbability(40, [{ size: 6, minCount: 1 }], 5), 10);
+    expect(
+      calculateOpeningHandProbability(deckData, [{ cardIds: [NORMAL_MONSTER], minCount: 2 }], OPENING_HAND_SIZES.first),
+    ).toBeCloseTo(0.03644, 5);
+  });
+
+  it("デッキにないカードを要件に含むと確率は0", () => {
+    expect(calculateOpeningHandProbability(deckData, [{ cardIds: [99999999], minCount: 1 }], 5)).toBe(0);
+  });
+
+  it("要件どうしで同じカードを指定するとエラー", () => {
+    expect(() =>
+      calculateOpeningHandProbability(
+        deckData,
+        [
+          { cardIds: [NORMAL_MONSTER], minCount: 1 },
+          { cardIds: [NORMAL_MONSTER, EFFECT_MONSTER], minCount: 1 },
+        ],
+        5,
+      ),
+    ).toThrow(`Card ${NORMAL_MONSTER} is used in more than one requirement`);
+  });
+
+  it("プリセットデッキの初手の条件はメインデッキのカードのみで、確率を計算できる", () => {
+    const facade = new GameFacade();
+    for (const { id } of getPresetDecks()) {
+      const presetDeck = facade.setupDeck(id, true);
+      const mainDeckIds = new Set(
+        [...presetDeck.mainDeck.monsters, ...presetDeck.mainDeck.spells, ...presetDeck.mainDeck.traps].map(
+          (entry) => entry.cardData.id,
+        ),
+      );
+
+      expect(presetDeck.openingCombos?.length, id).toBeGreaterThan(0);
+      for (const combo of presetDeck.openingCombos ?? []) {
+        expect(combo.requirements.flatMap((r) => r.cardIds).every((cardId) => mainDeckIds.has(cardId))).toBe(true);
+        const probability = calculateOpeningHandProbability(presetDeck, combo.requirements, OPENING_HAND_SIZES.first);
+        expect(probability, `${id}: ${combo.name}`).toBeGreaterThan(0);
+        expect(probability).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+});
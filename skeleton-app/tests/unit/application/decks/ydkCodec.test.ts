@@ -0,0 +1,90 @@
+/**
+ * ydkCodec のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseYdk, parseYdkeUrl, serializeYdk, serializeYdkeUrl } from "$lib/application/decks/ydkCodec";
+import type { DeckRecipe } from "$lib/application/types/deck";
+import { ACTUAL_CARD_IDS } from "../../../__testUtils__";
+
+const recipe: DeckRecipe = {
+  name: "Custom Deck",
+  description: "",
+  mainDeck: [
+    { id: ACTUAL_CARD_IDS.POT_OF_GREED, quantity: 3 },
+    { id: ACTUAL_CARD_IDS.GRACEFUL_CHARITY, quantity: 1 },
+  ],
+  extraDeck: [{ id: ACTUAL_CARD_IDS.DAIGUSTO_EMERAL, quantity: 2 }],
+};
+
+describe("ydkCodec", () => {
+  describe("YDK", () => {
+    it("デッキレシピを YDK に書き出し、読み込み直すと同じデッキになる", () => {
+      const ydk = serializeYdk(recipe);
+
+      expect(ydk.split("\n")).toEqual([
+        "#created by ygo-solitaire",
+        "#main",
+        "55144522",
+        "55144522",
+        "55144522",
+        "79571449",
+        "#extra",
+        "581014",
+        "581014",
+        "!side",
+        "",
+      ]);
+      expect(parseYdk(ydk)).toEqual({
+        mainDeck: recipe.mainDeck,
+        extraDeck: recipe.extraDeck,
+        unplayableCardIds: [],
+      });
+    });
+
+    it("サイドデッキとコメントは無視し、CRLF の改行も読み込める", () => {
+      const ydk = ["#created by YGOPro", "#main", "55144522", "#comment", "55144522", "!side", "79571449"].join("\r\n");
+
+      expect(parseYdk(ydk)).toEqual({
+        mainDeck: [{ id: ACTUAL_CARD_IDS.POT_OF_GREED, quantity: 2 }],
+        extraDeck: [],
+        unplayableCardIds: [],
+      });
+    });
+
+    it("DSL定義のないカードを使用不可として記録する", () => {
+      const ydk = ["#main", "55144522", String(ACTUAL_CARD_IDS.JAR_OF_GREED)].join("\n");
+
+      expect(parseYdk(ydk).unplayableCardIds).toEqual([ACTUAL_CARD_IDS.JAR_OF_GREED]);
+    });
+
+    it("パスコードとして読めない行がある場合エラー", () => {
+      expect(() => parseYdk("#main\n55144522\nPot of Greed")).toThrow("Invalid YDK line 3: Pot of Greed");
+    });
+  });
+
+  describe("ydke:// URL", () => {
+    it("デッキレシピを ydke:// URL に書き出し、読み込み直すと同じデッキになる", () => {
+      const url = serializeYdkeUrl(recipe);
+
+      expect(url).toMatch(/^ydke:\/\/[A-Za-z0-9+/=]+![A-Za-z0-9+/=]+!!$/);
+      expect(parseYdkeUrl(url)).toEqual({
+        mainDeck: recipe.mainDeck,
+        extraDeck: recipe.extraDeck,
+        unplayableCardIds: [],
+      });
+    });
+
+    it("パスコードを uint32 リトルエンディアンの Base64 として読み込む", () => {
+      // 55144522 = 0x0349_704A → [0x4A, 0x70, 0x49, 0x03]
+      expect(parseYdkeUrl("ydke://SnBJAw==!!!").mainDeck).toEqual([{ id: ACTUAL_CARD_IDS.POT_OF_GREED, quantity: 1 }]);
+    });
+
+    it("ydke:// URL として不正な場合エラー", () => {
+      expect(() => parseYdkeUrl("https://example.com")).toThrow("Invalid ydke URL");
+      expect(() => parseYdkeUrl("ydke://SnBJAw==")).toThrow("expected main, extra and side decks");
+      expect(() => parseYdkeUrl("ydke://SnBJ!!!")).toThrow("passcode data is truncated");
+      expect(() => parseYdkeUrl("ydke://@@@@!!!")).toThrow("not valid Base64");
+    });
+  });
+});
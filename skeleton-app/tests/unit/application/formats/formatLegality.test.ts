@@ -0,0 +1,153 @@
+/**
+ * formatLegality のテスト
+ *
+ * フォーマット定義 YAML を読み込み、禁止・制限リストと旧テキスト版のカードの判定ができることを検証する。
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseFormat } from "$lib/application/formats/formatCodec";
+import {
+  getPresetFormats,
+  getFormat,
+  getBanStatus,
+  validateFormatLegality,
+  DEFAULT_FORMAT_ID,
+} from "$lib/application/formats/formatLegality";
+import type { DeckRecipe, RecipeCardEntry } from "$lib/application/types/deck";
+import type { CardData } from "$lib/application/types/card";
+import { CardDataRegistry, hasCardDefinition } from "$lib/domain/cards";
+import { DUMMY_CARD_IDS } from "../../../__testUtils__";
+
+const formatYaml = `
+id: sample
+name: "サンプル"
+forbidden: [1]
+limited: [2]
+semiLimited: [3]
+`;
+const format = parseFormat(formatYaml);
+
+// カードID 100 を旧テキスト版、それ以外を最新版のカードとして扱う
+const baseCard = CardDataRegistry.get(DUMMY_CARD_IDS.NORMAL_MONSTER);
+const findCard = (cardId: number): CardData | undefined => ({
+  ...baseCard,
+  id: cardId,
+  edition: cardId === 100 ? "legacy" : "latest",
+});
+
+const createRecipe = (mainDeck: RecipeCardEntry[], extraDeck: RecipeCardEntry[] = []): DeckRecipe => ({
+  name: "Custom Deck",
+  description: "",
+  mainDeck,
+  extraDeck,
+});
+
+describe("formatLegality", () => {
+  describe("parseFormat", () => {
+    it("省略した項目は既定値で補う", () => {
+      expect(parseFormat("id: free\nname: 無制限")).toEqual({
+        id: "free",
+        name: "無制限",
+        description: "",
+        allowLegacyCards: false,
+        forbidden: [],
+        limited: [],
+        semiLimited: [],
+      });
+    });
+
+    it("同じカードを複数のリストに含めることはできない", () => {
+      expect(() => parseFormat("id: dup\nname: 重複\nforbidden: [1]\nlimited: [1]")).toThrow(
+        "Card 1 is listed more than once",
+      );
+    });
+
+    it("YAML として不正な場合エラー", () => {
+      expect(() => parseFormat("id: [")).toThrow("Invalid format YAML");
+    });
+  });
+
+  describe("プリセットフォーマット", () => {
+    it("禁止・制限リストのカードはすべて DSL 定義済み", () => {
+      for (const preset of getPresetFormats()) {
+        for (const cardId of [...preset.forbidden, ...preset.limited, ...preset.semiLimited]) {
+          expect(hasCardDefinition(cardId), `${preset.id}: ${cardId}`).toBe(true);
+        }
+      }
+    });
+
+    it("既定のフォーマットは一覧の先頭", () => {
+      expect(getFormat(DEFAULT_FORMAT_ID)).toBe(getPresetFormats()[0]);
+    });
+
+    it("存在しないフォーマットIDはエラー", () => {
+      expect(() => getFormat("unknown")).toThrow("Format not found: unknown");
+    });
+  });
+
+  describe("getBanStatus", () => {
+    it("禁止・制限・準制限の区分を返す", () => {
+      expect([1, 2, 3, 4].map((cardId) => getBanStatus(format, cardId))).toEqual([
+        "forbidden",
+        "limited",
+        "semiLimited",
+        undefined,
+      ]);
+    });
+  });
+
+  describe("validateFormatLegality", () => {
+    it("禁止・制限・準制限の枚数を守ったデッキは使用可能", () => {
+      const recipe = createRecipe([
+        { id: 2, quantity: 1 },
+        { id: 3, quantity: 2 },
+        { id: 4, quantity: 3 },
+      ]);
+
+      expect(validateFormatLegality(recipe, format, findCard)).toEqual({
+        formatId: "sample",
+        isLegal: true,
+        violations: [],
+      });
+    });
+
+    it("禁止・制限・準制限の枚数を超えたカードを違反とする（メイン・エクストラ合算）", () => {
+      const recipe = createRecipe(
+        [
+          { id: 1, quantity: 1 },
+          { id: 2, quantity: 1 },
+          { id: 3, quantity: 3 },
+        ],
+        [{ id: 2, quantity: 1 }],
+      );
+
+      const result = validateFormatLegality(recipe, format, findCard);
+
+      expect(result.isLegal).toBe(false);
+      expect(result.violations).toEqual([
+        { type: "forbidden", cardId: 1, copies: 1, message: `《${baseCard.jaName}》は禁止カードです（現在1枚）` },
+        {
+          type: "limited",
+          cardId: 2,
+          copies: 2,
+          message: `《${baseCard.jaName}》は制限カードです（1枚まで・現在2枚）`,
+        },
+        {
+          type: "semiLimited",
+          cardId: 3,
+          copies: 3,
+          message: `《${baseCard.jaName}》は準制限カードです（2枚まで・現在3枚）`,
+        },
+      ]);
+    });
+
+    it("旧テキスト版のカードは、それを認めるフォーマットでのみ使用できる", () => {
+      const recipe = createRecipe([{ id: 100, quantity: 1 }]);
+
+      expect(validateFormatLegality(recipe, format, findCard).violations).toEqual([
+        { type: "legacy", cardId: 100, copies: 1, message: `《${baseCard.jaName}》は旧テキスト版のため使用できません` },
+      ]);
+      expect(validateFormatLegality(recipe, { ...format, allowLegacyCards: true }, findCard).isLegal).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * hintAdvisor のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { computeHint } from "$lib/application/hint/hintAdvisor";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import {
+  createMockGameState,
+  createHand,
+  createMainDeck,
+  ACTUAL_CARD_IDS,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+const { EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG, EXODIA_RIGHT_LEG } = ACTUAL_CARD_IDS;
+const { POT_OF_GREED, GRACEFUL_CHARITY } = ACTUAL_CARD_IDS;
+const { NORMAL_MONSTER } = DUMMY_CARD_IDS;
+
+// 手札とデッキ（ドローされる順）を指定したメインフェイズ1の局面
+const createState = (handIds: number[], drawOrder: number[]): GameSnapshot =>
+  createMockGameState({
+    phase: "main1",
+    space: { ...createHand(handIds), ...createMainDeck([...drawOrder].reverse()) },
+  });
+
+describe("computeHint", () => {
+  it("勝利につながる次の1手と理由を返す", async () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG],
+      [EXODIA_RIGHT_LEG, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+    const potInstanceId = state.space.hand[0].instanceId;
+
+    const hint = await computeHint(state);
+
+    expect(hint?.status).toBe("win");
+    expect(hint?.remainingActions).toBe(1);
+    expect(hint?.recommended).toMatchObject({
+      command: "activateSpell",
+      instanceId: potInstanceId,
+      cardId: POT_OF_GREED,
+      cardName: "強欲な壺",
+    });
+    expect(hint?.recommended?.reason).toContain("2枚ドロー");
+    expect(hint?.recommended?.reason).toContain("デッキ残り3枚");
+  });
+
+  it("エクゾディアパーツの召喚は手札から離れるため警告する", async () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG],
+      [EXODIA_RIGHT_LEG, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+
+    const hint = await computeHint(state);
+
+    expect(hint?.warnings.map((warning) => [warning.command, warning.cardId])).toEqual([
+      ["normalSummon", EXODIA_BODY],
+      ["normalSummon", EXODIA_LEFT_ARM],
+      ["normalSummon", EXODIA_RIGHT_ARM],
+      ["normalSummon", EXODIA_LEFT_LEG],
+    ]);
+  });
+
+  it("勝ち筋がなくなる操作を警告する", async () => {
+    // 強欲な壺を先に使うとデッキが1枚になり天使の施しを発動できない
+    const state = createState(
+      [GRACEFUL_CHARITY, POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM],
+      [NORMAL_MONSTER, EXODIA_LEFT_LEG, EXODIA_RIGHT_LEG],
+    );
+
+    const hint = await computeHint(state);
+
+    expect(hint?.recommended?.cardId).toBe(GRACEFUL_CHARITY);
+    expect(hint?.warnings).toContainEqual(expect.objectContaining({ command: "activateSpell", cardId: POT_OF_GREED }));
+  });
+
+  it("勝利できない局面では noWin を返す", async () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, NORMAL_MONSTER],
+      [NORMAL_MONSTER, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+
+    const hint = await computeHint(state);
+
+    expect(hint).toEqual({
+      status: "noWin",
+      recommended: null,
+      remainingActions: null,
+      warnings: [],
+      undetermined: [],
+    });
+  });
+
+  it("探索上限に達した場合は unknown を返す", async () => {
+    const state = createState(
+      [POT_OF_GREED, GRACEFUL_CHARITY, EXODIA_BODY],
+      Array.from({ length: 10 }, () => NORMAL_MONSTER),
+    );
+
+    const hint = await computeHint(state, { maxNodes: 1 });
+
+    expect(hint?.status).toBe("unknown");
+    expect(hint?.undetermined.map((action) => action.cardId)).toEqual([POT_OF_GREED, GRACEFUL_CHARITY, EXODIA_BODY]);
+  });
+
+  it("勝ち筋が見つかった場合も探索上限に達した操作を返す", async () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG],
+      [EXODIA_RIGHT_LEG, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+
+    const hint = await computeHint(state, { maxNodes: 2 });
+
+    expect(hint?.status).toBe("win");
+    expect(hint?.undetermined.length).toBeGreaterThan(0);
+    expect(hint?.undetermined.map((action) => action.command)).not.toContain("activateSpell");
+  });
+
+  it("操作数の上限で探索を打ち切った操作は警告せず、判定できなかった操作として返す", async () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG],
+      [EXODIA_RIGHT_LEG, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+
+    const hint = await computeHint(state, { maxDepth: 1 });
+
+    expect(hint?.recommended?.cardId).toBe(POT_OF_GREED);
+    expect(hint?.warnings).toEqual([]);
+    expect(hint?.undetermined.map((action) => [action.command, action.cardId])).toEqual([
+      ["normalSummon", EXODIA_BODY],
+      ["normalSummon", EXODIA_LEFT_ARM],
+      ["normalSummon", EXODIA_RIGHT_ARM],
+      ["normalSummon", EXODIA_LEFT_LEG],
+    ]);
+  });
+
+  it("中断された場合は null を返す", async () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG],
+      [EXODIA_RIGHT_LEG, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+    const controller = new AbortController();
+
+    const pending = computeHint(state, { signal: controller.signal });
+    controller.abort();
+
+    expect(await pending).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * positionCodec のテスト
+ *
+ * 局面を共有用の文字列に変換し、同じ局面に復元できることを検証する。
+ */
+
+import { describe, it, expect } from "vitest";
+import { encodePosition, decodePosition } from "$lib/application/position/positionCodec";
+import { CardDataRegistry } from "$lib/domain/cards";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { EffectId } from "$lib/domain/models/Effect";
+import {
+  createMockGameState,
+  createHand,
+  createMainDeck,
+  createGraveyard,
+  createMonsterOnField,
+  createSpellOnField,
+  createXyzMaterial,
+  ACTUAL_CARD_IDS,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+const { POT_OF_GREED, ROYAL_MAGIC_LIBRARY } = ACTUAL_CARD_IDS;
+const { NORMAL_MONSTER, EQUIP_SPELL } = DUMMY_CARD_IDS;
+
+const state: GameSnapshot = createMockGameState({
+  phase: "main1",
+  lp: { player: 7000, opponent: 8000 },
+  normalSummonUsed: 1,
+  activatedCardIds: [POT_OF_GREED],
+  activationContexts: { ["effect-1" as EffectId]: { targets: ["main-0"], paidCosts: 2 } },
+  queuedEndPhaseEffectIds: ["discard-all-hand"],
+  rng: { seed: 123, state: 456 },
+  space: {
+    ...createHand([POT_OF_GREED]),
+    ...createMainDeck([NORMAL_MONSTER, NORMAL_MONSTER]),
+    ...createGraveyard([POT_OF_GREED]),
+    mainMonsterZone: [
+      createMonsterOnField("main-0", {
+        cardId: ROYAL_MAGIC_LIBRARY,
+        battlePosition: "defense",
+        slotIndex: 2,
+        counters: [{ type: "spell", count: 2 }],
+      }),
+    ],
+    spellTrapZone: [createSpellOnField("token-custom", { cardId: EQUIP_SPELL, equippedTo: "main-0", slotIndex: 1 })],
+  },
+});
+
+describe("positionCodec", () => {
+  it("URL安全な文字列に変換する", () => {
+    expect(encodePosition(state)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("カードの配置・フィールド状態・ゲーム進行状態を復元する", () => {
+    const restored = decodePosition(encodePosition(state), CardDataRegistry.getCard);
+
+    expect(restored.space.hand.map((card) => card.id)).toEqual([POT_OF_GREED]);
+    expect(restored.space.mainDeck.map((card) => card.instanceId)).toEqual(
+      state.space.mainDeck.map((card) => card.instanceId),
+    );
+    expect(restored.space.mainMonsterZone[0]).toMatchObject({
+      id: ROYAL_MAGIC_LIBRARY,
+      instanceId: "main-0",
+      location: "mainMonsterZone",
+      stateOnField: {
+        slotIndex: 2,
+        position: "faceUp",
+        battlePosition: "defense",
+        counters: [{ type: "spell", count: 2 }],
+      },
+    });
+    expect(restored.space.spellTrapZone[0]).toMatchObject({
+      instanceId: "token-custom",
+      stateOnField: { slotIndex: 1, equippedTo: "main-0" },
+    });
+    expect(restored).toMatchObject({
+      lp: { player: 7000, opponent: 8000 },
+      phase: "main1",
+      normalSummonUsed: 1,
+      normalSummonLimit: 1,
+      activatedCardIds: [POT_OF_GREED],
+      activationContexts: { "effect-1": { targets: ["main-0"], paidCosts: 2 } },
+      queuedEndPhaseEffectIds: ["discard-all-hand"],
+      rng: { seed: 123, state: 456 },
+      result: { isGameOver: false },
+    });
+  });
+
+  it("復元した局面は同じ文字列に変換される", () => {
+    const code = encodePosition(state);
+
+    expect(encodePosition(decodePosition(code, CardDataRegistry.getCard))).toBe(code);
+  });
+
+  it("エクシーズ素材を復元する", () => {
+    const material = createXyzMaterial("main-5", { cardId: NORMAL_MONSTER });
+    const xyzState: GameSnapshot = {
+      ...state,
+      space: {
+        ...state.space,
+        mainMonsterZone: [
+          createMonsterOnField("extra-0", { cardId: DUMMY_CARD_IDS.XYZ_MONSTER, xyzMaterials: [material] }),
+        ],
+        spellTrapZone: [],
+      },
+    };
+
+    const restored = decodePosition(encodePosition(xyzState), CardDataRegistry.getCard);
+
+    expect(restored.space.mainMonsterZone[0].stateOnField?.xyzMaterials).toEqual([material]);
+  });
+
+  it("バトルフェイズの局面では攻撃済みの状態も復元する", () => {
+    const attacker = createMonsterOnField("main-0", { cardId: NORMAL_MONSTER });
+    const battleState: GameSnapshot = {
+      ...state,
+      phase: "battle",
+      turn: 2,
+      space: {
+        ...state.space,
+        mainMonsterZone: [{ ...attacker, stateOnField: { ...attacker.stateOnField!, attackedThisTurn: true } }],
+        spellTrapZone: [],
+      },
+    };
+
+    const restored = decodePosition(encodePosition(battleState), CardDataRegistry.getCard);
+
+    expect(restored).toMatchObject({ phase: "battle", turn: 2 });
+    expect(restored.space.mainMonsterZone[0].stateOnField?.attackedThisTurn).toBe(true);
+    expect(restored.space.mainMonsterZone[0].stateOnField?.xyzMaterials).toBeUndefined();
+  });
+
+  it("決着済みの局面は勝敗も復元する", () => {
+    const finished = { ...state, result: { isGameOver: true, winner: "player" as const, reason: "exodia" as const } };
+
+    expect(decodePosition(encodePosition(finished), CardDataRegistry.getCard).result).toEqual(finished.result);
+  });
+
+  it("不正な文字列・未登録のカード・整合性のない局面はエラーを投げる", () => {
+    expect(() => decodePosition("not-a-position", CardDataRegistry.getCard)).toThrow("Invalid position code");
+    expect(() => decodePosition(btoa(JSON.stringify({ v: 99 })), CardDataRegistry.getCard)).toThrow(
+      "Invalid position data",
+    );
+    expect(() =>
+      decodePosition(
+        encodePosition(createMockGameState({ space: createHand([DUMMY_CARD_IDS.NOT_EXISTING_CARD]) })),
+        CardDataRegistry.getCard,
+      ),
+    ).toThrow();
+    expect(() => decodePosition(encodePosition({ ...state, turn: 0 }), CardDataRegistry.getCard)).toThrow(
+      "Invalid GameState",
+    );
+  });
+
+  it("未登録のエンドフェイズ効果を保留した局面はエラーを投げる", () => {
+    const code = encodePosition({ ...state, queuedEndPhaseEffectIds: ["unknown-effect"] });
+
+    expect(() => decodePosition(code, CardDataRegistry.getCard)).toThrow("unknown end phase effects: unknown-effect");
+  });
+});
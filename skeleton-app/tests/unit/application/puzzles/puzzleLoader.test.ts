@@ -0,0 +1,108 @@
+/**
+ * puzzleLoader のテスト
+ *
+ * パズル定義 YAML から開始局面を生成し、勝利目標の達成を判定できることを検証する。
+ * プリセットパズルは ComboSolver で目標を達成する手順が存在することも確認する。
+ */
+
+import { describe, it, expect } from "vitest";
+import { parsePuzzle } from "$lib/application/puzzles/puzzleCodec";
+import {
+  getPresetPuzzles,
+  getPuzzle,
+  extractPuzzleCardIds,
+  createPuzzleSnapshot,
+  evaluatePuzzleGoal,
+} from "$lib/application/puzzles/puzzleLoader";
+import { CardDataRegistry, registerCardDataWithEffectsByIds } from "$lib/domain/cards";
+import { solveCombo } from "$lib/domain/solver/ComboSolver";
+import { createMockGameState, ACTUAL_CARD_IDS } from "../../../__testUtils__";
+
+const { POT_OF_GREED, ROYAL_MAGIC_LIBRARY, EXODIA_BODY } = ACTUAL_CARD_IDS;
+
+const puzzleYaml = `
+id: sample
+name: "サンプル"
+goal: opponentLp0
+lp: { player: 4000, opponent: 1000 }
+hand: [${POT_OF_GREED}]
+deck: [${EXODIA_BODY}, ${ROYAL_MAGIC_LIBRARY}]
+field:
+  monsters:
+    - id: ${ROYAL_MAGIC_LIBRARY}
+      position: defense
+      counters: { spell: 2 }
+  spellTraps:
+    - id: ${POT_OF_GREED}
+graveyard: [${POT_OF_GREED}]
+`;
+
+describe("puzzleLoader", () => {
+  describe("parsePuzzle", () => {
+    it("省略した項目を既定値で補う", () => {
+      const puzzle = parsePuzzle(`id: minimal\nname: "最小"\ngoal: win\nhand: [${POT_OF_GREED}]`);
+
+      expect(puzzle.lp).toEqual({ player: 8000, opponent: 8000 });
+      expect(puzzle.deck).toEqual([]);
+      expect(puzzle.field).toEqual({ monsters: [], spellTraps: [] });
+    });
+
+    it("スキーマに一致しない定義は項目のパスを含むエラーになる", () => {
+      expect(() => parsePuzzle(`id: broken\nname: "壊れた定義"\ngoal: draw`)).toThrow(/Invalid puzzle data:\ngoal/);
+      expect(() => parsePuzzle("id: [")).toThrow(/Invalid puzzle YAML/);
+    });
+  });
+
+  describe("createPuzzleSnapshot", () => {
+    it("定義どおりの手札・デッキ順・フィールド・LP でメインフェイズから開始する", () => {
+      const puzzle = parsePuzzle(puzzleYaml);
+      registerCardDataWithEffectsByIds(extractPuzzleCardIds(puzzle));
+
+      const state = createPuzzleSnapshot(puzzle, CardDataRegistry.getCard);
+
+      expect(state.phase).toBe("main1");
+      expect(state.lp).toEqual({ player: 4000, opponent: 1000 });
+      expect(state.space.hand.map((card) => card.id)).toEqual([POT_OF_GREED]);
+      // デッキの上（配列の末尾）が定義の先頭
+      expect(state.space.mainDeck.map((card) => card.id)).toEqual([ROYAL_MAGIC_LIBRARY, EXODIA_BODY]);
+      expect(state.space.mainMonsterZone[0].stateOnField).toMatchObject({
+        position: "faceUp",
+        battlePosition: "defense",
+        counters: [{ type: "spell", count: 2 }],
+      });
+      expect(state.space.spellTrapZone[0].stateOnField?.position).toBe("faceDown");
+      expect(state.space.graveyard).toHaveLength(1);
+    });
+  });
+
+  describe("evaluatePuzzleGoal", () => {
+    it("勝利目標と一致する決着のみクリアと判定する", () => {
+      expect(evaluatePuzzleGoal("opponentLp0", createMockGameState({ lp: { player: 8000, opponent: 0 } }))).toBe(
+        "cleared",
+      );
+      expect(evaluatePuzzleGoal("exodia", createMockGameState({ lp: { player: 8000, opponent: 0 } }))).toBe("failed");
+      expect(evaluatePuzzleGoal("win", createMockGameState({ lp: { player: 0, opponent: 8000 } }))).toBe("failed");
+    });
+
+    it("決着せずにエンドフェイズに入ると失敗と判定する", () => {
+      expect(evaluatePuzzleGoal("win", createMockGameState({ phase: "main1" }))).toBe("inProgress");
+      expect(evaluatePuzzleGoal("win", createMockGameState({ phase: "end" }))).toBe("failed");
+    });
+  });
+
+  describe("プリセットパズル", () => {
+    it.each(getPresetPuzzles().map((puzzle) => [puzzle.id]))("%s は勝利目標を達成する手順が存在する", (puzzleId) => {
+      const puzzle = getPuzzle(puzzleId);
+      registerCardDataWithEffectsByIds(extractPuzzleCardIds(puzzle));
+
+      const result = solveCombo(createPuzzleSnapshot(puzzle, CardDataRegistry.getCard));
+
+      expect(result.status).toBe("win");
+      expect(evaluatePuzzleGoal(puzzle.goal, result.finalState!)).toBe("cleared");
+    });
+
+    it("存在しないパズルIDはエラーになる", () => {
+      expect(() => getPuzzle("not-existing")).toThrow("Puzzle not found: not-existing");
+    });
+  });
+});
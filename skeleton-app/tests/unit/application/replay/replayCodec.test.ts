@@ -0,0 +1,52 @@
+/**
+ * replayCodec のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { serializeReplay, parseReplay } from "$lib/application/replay/replayCodec";
+import type { GameReplay } from "$lib/application/types/replay";
+
+const replay: GameReplay = {
+  version: 1,
+  deckId: "greedy-exodia",
+  deckRecipe: {
+    name: "Test Deck",
+    description: "",
+    mainDeck: [{ id: 55144522, quantity: 3 }],
+    extraDeck: [],
+  },
+  seed: 12345,
+  entries: [
+    { type: "command", command: "advancePhase", args: [] },
+    { type: "command", command: "normalSummon", args: ["main-0", "summon"] },
+    { type: "answer", answer: { kind: "cardSelection", selectedInstanceIds: ["main-1", "main-2"] } },
+    { type: "answer", answer: { kind: "chain", instanceId: null } },
+    { type: "answer", answer: { kind: "optionalTrigger", activate: true } },
+    { type: "answer", answer: { kind: "confirmation" } },
+  ],
+};
+
+describe("replayCodec", () => {
+  it("シリアライズしたリプレイを読み込める", () => {
+    expect(parseReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it("JSON として不正な場合エラー", () => {
+    expect(() => parseReplay("{")).toThrow("Invalid replay JSON");
+  });
+
+  it("フォーマットバージョンが異なる場合エラー", () => {
+    const json = JSON.stringify({ ...replay, version: 999 });
+    expect(() => parseReplay(json)).toThrow("version");
+  });
+
+  it("未知のコマンド名の場合エラー", () => {
+    const json = JSON.stringify({ ...replay, entries: [{ type: "command", command: "cheat", args: [] }] });
+    expect(() => parseReplay(json)).toThrow("Invalid replay data");
+  });
+
+  it("未知の回答種別の場合エラー", () => {
+    const json = JSON.stringify({ ...replay, entries: [{ type: "answer", answer: { kind: "surrender" } }] });
+    expect(() => parseReplay(json)).toThrow("Invalid replay data");
+  });
+});
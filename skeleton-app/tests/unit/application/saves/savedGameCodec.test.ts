@@ -0,0 +1,120 @@
+/**
+ * savedGameCodec のテスト
+ *
+ * 旧バージョンの保存データが順に移行され、移行できない場合に原因を含むエラーを返すことを検証する。
+ */
+
+import { describe, it, expect } from "vitest";
+import { serializeSavedGame, parseSavedGame, SavedGameMigrationError } from "$lib/application/saves/savedGameCodec";
+import type { SavedGameState } from "$lib/application/ports/IGameSnapshotRepository";
+import { CURRENT_SAVE_VERSION } from "$lib/application/ports/IGameSnapshotRepository";
+import { createMockGameState } from "../../../__testUtils__";
+
+const snapshot = createMockGameState({ phase: "main1", turn: 1 });
+
+// 指定したバージョンの形式の保存データ
+const v4: SavedGameState = {
+  version: 4,
+  deckId: "deck-1",
+  snapshot,
+  metadata: {
+    slotId: "slot-1",
+    name: "テスト",
+    deckId: "deck-1",
+    deckName: "テストデッキ",
+    turn: 1,
+    phase: "main1",
+    lp: { player: 8000, opponent: 8000 },
+    savedAt: 1000,
+  },
+};
+// v3 以前: エクストラモンスターゾーンがない
+const { extraMonsterZone: _extraMonsterZone, ...spaceV3 } = snapshot.space;
+const snapshotV3 = { ...snapshot, space: spaceV3 };
+const v3 = { ...v4, version: 3, snapshot: snapshotV3 };
+const v2 = { version: 2, deckId: "deck-1", snapshot: snapshotV3 };
+// v1: 乱数状態・一部のフィールドがない
+const { rng: _rng, queuedEndPhaseEffectIds: _queued, activationContexts: _contexts, ...snapshotV1 } = snapshotV3;
+const v1 = { version: 1, deckId: "deck-1", snapshot: snapshotV1 };
+
+// 移行エラーを取得する
+const migrationError = (json: string): SavedGameMigrationError => {
+  try {
+    parseSavedGame(json, "slot-1");
+  } catch (error) {
+    if (error instanceof SavedGameMigrationError) return error;
+    throw error;
+  }
+  throw new Error("SavedGameMigrationError was not thrown");
+};
+
+describe("savedGameCodec", () => {
+  it("現在のバージョンの保存データはそのまま読み込む", () => {
+    expect(parseSavedGame(serializeSavedGame(v4), "slot-1")).toEqual(v4);
+  });
+
+  it("v3 の保存データに空のエクストラモンスターゾーンを追加する", () => {
+    const saved = parseSavedGame(JSON.stringify(v3), "slot-1");
+
+    expect(saved.version).toBe(CURRENT_SAVE_VERSION);
+    expect(saved.snapshot.space.extraMonsterZone).toEqual([]);
+    expect(saved.snapshot).toEqual(snapshot);
+    expect(saved.metadata).toEqual(v4.metadata);
+  });
+
+  it("v2 の保存データにスロットのメタデータを追加する", () => {
+    const saved = parseSavedGame(JSON.stringify(v2), "auto");
+
+    expect(saved.version).toBe(CURRENT_SAVE_VERSION);
+    expect(saved.snapshot).toEqual(snapshot);
+    expect(saved.metadata).toMatchObject({
+      slotId: "auto",
+      name: "自動保存",
+      deckId: "deck-1",
+      turn: 1,
+      phase: "main1",
+      lp: snapshot.lp,
+    });
+  });
+
+  it("v1 の保存データを v2 → v3 → v4 と順に移行し、不足するフィールドを補う", () => {
+    const saved = parseSavedGame(JSON.stringify(v1), "slot-1");
+
+    expect(saved.version).toBe(CURRENT_SAVE_VERSION);
+    expect(saved.snapshot.rng).toEqual({ seed: expect.any(Number), state: expect.any(Number) });
+    expect(saved.snapshot.queuedEndPhaseEffectIds).toEqual([]);
+    expect(saved.snapshot.activationContexts).toEqual({});
+    expect(saved.snapshot.space).toEqual(snapshot.space);
+    expect(saved.metadata.slotId).toBe("slot-1");
+  });
+
+  it("移行後の整合性チェックに失敗した場合は詳細を含むエラーを投げる", () => {
+    const broken = { ...v2, snapshot: { ...snapshotV3, turn: 0 } };
+
+    const error = migrationError(JSON.stringify(broken));
+
+    expect(error.version).toBe(2);
+    expect(error.message).toContain("v2");
+    expect(error.message).toContain("削除");
+    expect(error.issues).toEqual([expect.stringContaining("Turn")]);
+  });
+
+  it("未登録のエンドフェイズ効果が保留されている場合はエラーを投げる", () => {
+    const broken = { ...v3, snapshot: { ...snapshotV3, queuedEndPhaseEffectIds: ["unknown-effect"] } };
+
+    const error = migrationError(JSON.stringify(broken));
+
+    expect(error.issues).toEqual(["unknown end phase effects: unknown-effect"]);
+  });
+
+  it("新しいバージョンの保存データはアプリの更新を促すエラーを投げる", () => {
+    const error = migrationError(JSON.stringify({ ...v4, version: CURRENT_SAVE_VERSION + 1 }));
+
+    expect(error.message).toContain("アプリを更新");
+  });
+
+  it("バージョンが不明・JSON が壊れている場合はエラーを投げる", () => {
+    expect(migrationError(JSON.stringify({ deckId: "deck-1" })).message).toContain("バージョン");
+    expect(migrationError("not json").slotId).toBe("slot-1");
+  });
+});
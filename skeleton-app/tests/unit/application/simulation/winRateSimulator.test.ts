@@ -0,0 +1,163 @@
+/**
+ * winRateSimulator のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  simulateGame,
+  summarizeSimulatedGames,
+  runWinRateSimulation,
+} from "$lib/application/simulation/winRateSimulator";
+import type { SimulatedGame } from "$lib/application/types/simulation";
+import { CardDataRegistry } from "$lib/domain/cards";
+import { ChainableActionRegistry } from "$lib/domain/effects/actions";
+import { NormalSpellActivation } from "$lib/domain/effects/actions/activations/NormalSpellActivation";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { AtomicStep, ValidationResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { createScenarioDeck, ACTUAL_CARD_IDS, DUMMY_CARD_IDS } from "../../../__testUtils__";
+
+// エクゾディア5パーツ + 強欲な壺 x8 + 天使の施し x7
+const exodiaDeck = createScenarioDeck([
+  ACTUAL_CARD_IDS.EXODIA_BODY,
+  ACTUAL_CARD_IDS.EXODIA_LEFT_ARM,
+  ACTUAL_CARD_IDS.EXODIA_RIGHT_ARM,
+  ACTUAL_CARD_IDS.EXODIA_LEFT_LEG,
+  ACTUAL_CARD_IDS.EXODIA_RIGHT_LEG,
+  ...Array.from({ length: 8 }, () => ACTUAL_CARD_IDS.POT_OF_GREED),
+  ...Array.from({ length: 7 }, () => ACTUAL_CARD_IDS.GRACEFUL_CHARITY),
+]);
+
+// 効果処理で手札のカードを選択するが、どの選択も確定できない通常魔法
+const UNCONFIRMABLE_SPELL_ID = 4901;
+
+class UnconfirmableSelectionSpellActivation extends NormalSpellActivation {
+  protected individualConditions(): ValidationResult {
+    return GameProcessing.Validation.success();
+  }
+
+  protected individualActivationSteps(): AtomicStep[] {
+    return [];
+  }
+
+  protected individualResolutionSteps(): AtomicStep[] {
+    return [
+      {
+        id: "unconfirmable-selection",
+        summary: "カードを選択",
+        description: "確定できないカード選択",
+        notificationLevel: "interactive",
+        cardSelectionConfig: (state: GameSnapshot) => ({
+          availableCards: state.space.hand,
+          minCards: 1,
+          maxCards: 1,
+          summary: "カードを選択",
+          description: "確定できないカード選択",
+          canConfirm: () => false,
+        }),
+        action: (state: GameSnapshot) => GameProcessing.Result.success(state, "selected"),
+      },
+    ];
+  }
+}
+
+CardDataRegistry.register(UNCONFIRMABLE_SPELL_ID, {
+  jaName: "Dummy Unconfirmable Spell",
+  type: "spell",
+  frameType: "spell",
+  spellType: "normal",
+  edition: "latest",
+});
+ChainableActionRegistry.registerActivation(
+  UNCONFIRMABLE_SPELL_ID,
+  new UnconfirmableSelectionSpellActivation(UNCONFIRMABLE_SPELL_ID),
+);
+
+const game = (overrides: Partial<SimulatedGame>): SimulatedGame => ({
+  seed: 0,
+  won: false,
+  cardsFromDeck: 0,
+  actionCount: 0,
+  ...overrides,
+});
+
+describe("winRateSimulator", () => {
+  describe("simulateGame", () => {
+    it("勝利手順が見つかったゲームは勝利として記録する", () => {
+      const result = simulateGame(exodiaDeck, 10);
+
+      expect(result).toMatchObject({ seed: 10, won: true, winReason: "exodia" });
+      expect(result.cardsFromDeck).toBeGreaterThan(0);
+      expect(result.actionCount).toBeGreaterThan(0);
+    });
+
+    it("動けない初手は事故として記録する", () => {
+      // 罠カードは手札から発動できず、通常召喚もできない
+      const deadDeck = createScenarioDeck(Array.from({ length: 10 }, () => DUMMY_CARD_IDS.NORMAL_TRAP));
+
+      expect(simulateGame(deadDeck, 1)).toMatchObject({ won: false, failureReason: "deadHand", actionCount: 0 });
+    });
+
+    it("効果処理の意思決定に選べる回答がない場合は、例外を投げずに敗北として記録する", () => {
+      const unconfirmableDeck = createScenarioDeck(Array.from({ length: 5 }, () => UNCONFIRMABLE_SPELL_ID));
+
+      expect(simulateGame(unconfirmableDeck, 1)).toMatchObject({
+        won: false,
+        failureReason: "noWinningLine",
+        actionCount: 0,
+      });
+    });
+
+    it("同じシードからは同じ結果になる", () => {
+      expect(simulateGame(exodiaDeck, 3)).toEqual(simulateGame(exodiaDeck, 3));
+    });
+  });
+
+  describe("summarizeSimulatedGames", () => {
+    it("勝率・事故率・平均値・最多の敗因を集計する", () => {
+      const report = summarizeSimulatedGames("Test", 1, [
+        game({ won: true, winReason: "exodia", cardsFromDeck: 10, actionCount: 6 }),
+        game({ failureReason: "deadHand" }),
+        game({ failureReason: "noWinningLine", cardsFromDeck: 4, actionCount: 3 }),
+        game({ failureReason: "noWinningLine", cardsFromDeck: 2, actionCount: 3 }),
+      ]);
+
+      expect(report).toEqual({
+        deckName: "Test",
+        seed: 1,
+        games: 4,
+        wins: 1,
+        winRate: 0.25,
+        deadHandRate: 0.25,
+        averageCardsFromDeck: 4,
+        averageActionCount: 3,
+        failureReasons: { deadHand: 1, noWinningLine: 2, searchBudgetExceeded: 0, deckOut: 0 },
+        mostCommonFailureReason: "noWinningLine",
+      });
+    });
+
+    it("全勝の場合、最多の敗因は null", () => {
+      const report = summarizeSimulatedGames("Test", 1, [game({ won: true })]);
+
+      expect(report.mostCommonFailureReason).toBeNull();
+      expect(report.winRate).toBe(1);
+    });
+  });
+
+  describe("runWinRateSimulation", () => {
+    it("指定回数のゲームを実行して進捗を通知し、同じシードで同じ結果を返す", async () => {
+      const progress: number[] = [];
+      const report = await runWinRateSimulation(exodiaDeck, {
+        games: 3,
+        seed: 42,
+        maxNodes: 200,
+        onProgress: (completed) => progress.push(completed),
+      });
+
+      expect(report.games).toBe(3);
+      expect(report.seed).toBe(42);
+      expect(progress).toEqual([1, 2, 3]);
+      expect(await runWinRateSimulation(exodiaDeck, { games: 3, seed: 42, maxNodes: 200 })).toEqual(report);
+    });
+  });
+});
@@ -42,6 +42,7 @@ describe("ActivateSpellCommand", () => {
           }),
         ],
         mainMonsterZone: [],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -75,6 +76,7 @@ describe("ActivateSpellCommand", () => {
             }),
           ],
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [],
           fieldZone: [],
           graveyard: [],
@@ -143,6 +145,7 @@ describe("ActivateSpellCommand", () => {
             }),
           ],
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [],
           fieldZone: [],
           graveyard: [],
@@ -224,6 +227,7 @@ describe("ActivateSpellCommand", () => {
             }),
           ],
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [],
           fieldZone: [],
           graveyard: [],
@@ -264,6 +268,7 @@ describe("ActivateSpellCommand", () => {
             }),
           ],
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [],
           fieldZone: [],
           graveyard: [],
@@ -296,6 +301,7 @@ describe("ActivateSpellCommand", () => {
             }),
           ],
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [],
           fieldZone: [],
           graveyard: [],
@@ -334,6 +340,7 @@ describe("ActivateSpellCommand", () => {
           extraDeck: [],
           hand: [],
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [createSpellOnField("set-spell-1", { position: "faceDown" })],
           fieldZone: [],
           graveyard: [],
@@ -388,6 +395,7 @@ describe("ActivateSpellCommand", () => {
           extraDeck: [],
           hand: [],
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [
             createSpellOnField("set-quick-play-1", {
               spellType: "quick-play",
@@ -420,6 +428,7 @@ describe("ActivateSpellCommand", () => {
           extraDeck: [],
           hand: [],
           mainMonsterZone: [],
+          extraMonsterZone: [],
           spellTrapZone: [createSpellOnField("set-quick-play-2", { spellType: "quick-play", position: "faceDown" })], // placedThisTurn: false by default
           fieldZone: [],
           graveyard: [],
@@ -0,0 +1,104 @@
+/**
+ * 罠カード発動コマンドのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { ActivateTrapCommand } from "$lib/domain/commands/ActivateTrapCommand";
+import {
+  createSpaceState,
+  createTrapInstance,
+  createTrapOnField,
+  createSpellOnField,
+  createExodiaVictoryState,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+// 前のターンにセットした罠カードがある状態
+const createSetTrapState = (trapType: "normal" | "continuous" | "counter" = "normal") =>
+  createSpaceState({
+    spellTrapZone: [createTrapOnField("set-trap", { trapType, position: "faceDown", placedThisTurn: false })],
+  });
+
+describe("ActivateTrapCommand", () => {
+  describe("canExecute", () => {
+    it("前のターンにセットした罠カードは発動可能", () => {
+      const command = new ActivateTrapCommand("set-trap");
+
+      expect(command.canExecute(createSetTrapState()).isValid).toBe(true);
+    });
+
+    it("セットしたターンの罠カードは発動不可", () => {
+      const state = createSpaceState({
+        spellTrapZone: [createTrapOnField("set-trap", { position: "faceDown", placedThisTurn: true })],
+      });
+
+      const result = new ActivateTrapCommand("set-trap").canExecute(state);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("TRAP_SET_THIS_TURN");
+    });
+
+    it("手札の罠カードは発動不可", () => {
+      const state = createSpaceState({ hand: [createTrapInstance("hand-trap")] });
+
+      const result = new ActivateTrapCommand("hand-trap").canExecute(state);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("TRAP_NOT_SET");
+    });
+
+    it("罠カード以外は発動不可", () => {
+      const state = createSpaceState({
+        spellTrapZone: [createSpellOnField("set-spell", { spellType: "quick-play", position: "faceDown" })],
+      });
+
+      const result = new ActivateTrapCommand("set-spell").canExecute(state);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("NOT_TRAP_CARD");
+    });
+
+    it("存在しないカードは発動不可", () => {
+      const result = new ActivateTrapCommand("missing").canExecute(createSetTrapState());
+
+      expect(result.errorCode).toBe("CARD_NOT_FOUND");
+    });
+
+    it("ゲーム終了後は発動不可", () => {
+      const result = new ActivateTrapCommand("set-trap").canExecute(createExodiaVictoryState());
+
+      expect(result.errorCode).toBe("GAME_OVER");
+    });
+  });
+
+  describe("execute", () => {
+    it("セットされた罠カードを表向きにし、チェーンブロックを返す", () => {
+      const result = new ActivateTrapCommand("set-trap").execute(createSetTrapState());
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState.space.spellTrapZone[0].stateOnField?.position).toBe("faceUp");
+      expect(result.updatedState.activatedCardIds).toContain(DUMMY_CARD_IDS.NORMAL_TRAP);
+      expect(result.chainBlock).toMatchObject({
+        sourceInstanceId: "set-trap",
+        sourceCardId: DUMMY_CARD_IDS.NORMAL_TRAP,
+        spellSpeed: 2,
+        isNegated: false,
+      });
+    });
+
+    it("カウンター罠のチェーンブロックはスペルスピード3", () => {
+      const result = new ActivateTrapCommand("set-trap").execute(createSetTrapState("counter"));
+
+      expect(result.chainBlock?.spellSpeed).toBe(3);
+    });
+
+    it("発動できない場合は失敗を返し、状態を変更しない", () => {
+      const state = createSpaceState({ hand: [createTrapInstance("hand-trap")] });
+
+      const result = new ActivateTrapCommand("hand-trap").execute(state);
+
+      expect(result.success).toBe(false);
+      expect(result.updatedState).toBe(state);
+    });
+  });
+});
@@ -4,7 +4,13 @@
 
 import { describe, it, expect } from "vitest";
 import { AdvancePhaseCommand } from "$lib/domain/commands/AdvancePhaseCommand";
-import { createPhaseState, createExodiaVictoryState } from "../../../__testUtils__";
+import {
+  createPhaseState,
+  createExodiaVictoryState,
+  createSpaceState,
+  createTrapOnField,
+  createFilledMainDeck,
+} from "../../../__testUtils__";
 
 describe("AdvancePhaseCommand", () => {
   describe("canExecute", () => {
@@ -29,13 +35,21 @@ describe("AdvancePhaseCommand", () => {
       expect(command.canExecute(state).isValid).toBe(true);
     });
 
-    it("エンド → エンド（循環）の場合は true を返す", () => {
+    it("エンド → 次のターンのドロー の場合は true を返す", () => {
       const state = createPhaseState("end");
       const command = new AdvancePhaseCommand();
 
       expect(command.canExecute(state).isValid).toBe(true);
     });
 
+    it("未登録のエンドフェイズ効果が保留されている場合、エンドフェイズへの移行は false を返す", () => {
+      const state = { ...createPhaseState("main1"), queuedEndPhaseEffectIds: ["unknown-effect"] };
+      const command = new AdvancePhaseCommand();
+
+      expect(command.canExecute(state).isValid).toBe(false);
+      expect(command.canExecute({ ...state, phase: "draw" }).isValid).toBe(true);
+    });
+
     it("ゲームが既に終了している場合は false を返す", () => {
       const state = createExodiaVictoryState();
       const command = new AdvancePhaseCommand();
@@ -78,14 +92,89 @@ describe("AdvancePhaseCommand", () => {
       expect(result.message).toContain("エンドフェイズ");
     });
 
-    it("エンドフェイズからはエンドフェイズに留まる", () => {
-      const state = createPhaseState("end");
+    it("エンドフェイズ移行時に、保留された効果と手札枚数制限の処理ステップを返し、保留リストをクリアする", () => {
+      const state = { ...createPhaseState("main1"), queuedEndPhaseEffectIds: ["discard-all-hand"] };
       const command = new AdvancePhaseCommand();
 
       const result = command.execute(state);
 
       expect(result.success).toBe(true);
-      expect(result.updatedState.phase).toBe("end");
+      expect(result.activationSteps.map((step) => step.id)).toEqual(["discard-all-hand", "discard-to-hand-limit-6"]);
+      expect(result.updatedState.queuedEndPhaseEffectIds).toEqual([]);
+    });
+
+    it("未登録のエンドフェイズ効果が保留されている場合、例外を投げずに失敗を返す", () => {
+      const state = { ...createPhaseState("main1"), queuedEndPhaseEffectIds: ["unknown-effect"] };
+      const command = new AdvancePhaseCommand();
+
+      const result = command.execute(state);
+
+      expect(result.success).toBe(false);
+      expect(result.updatedState).toBe(state);
+      expect(result.error).toContain("エンドフェイズ効果");
+    });
+
+    it("エンドフェイズ以外への移行時は処理ステップを返さない", () => {
+      const state = { ...createPhaseState("draw"), queuedEndPhaseEffectIds: ["discard-all-hand"] };
+      const command = new AdvancePhaseCommand();
+
+      const result = command.execute(state);
+
+      expect(result.activationSteps).toEqual([]);
+      expect(result.updatedState.queuedEndPhaseEffectIds).toEqual(["discard-all-hand"]);
+    });
+
+    it("エンドフェイズから、相手のターンを経て次のターンのドローフェイズに進行し1枚ドローする", () => {
+      const state = {
+        ...createSpaceState(
+          {
+            spellTrapZone: [createTrapOnField("trap-1", { position: "faceDown", placedThisTurn: true })],
+            ...createFilledMainDeck(2),
+          },
+          "end",
+        ),
+        normalSummonUsed: 1,
+      };
+      const command = new AdvancePhaseCommand();
+
+      const result = command.execute(state);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState).toMatchObject({ phase: "draw", turn: 3, normalSummonUsed: 0 });
+      expect(result.updatedState.space.hand).toHaveLength(1);
+      expect(result.updatedState.space.spellTrapZone[0].stateOnField?.placedThisTurn).toBe(false);
+      expect(result.message).toContain("3ターン目のドローフェイズ");
+    });
+
+    it("次のターンのドローフェイズにデッキが0枚の場合はデッキアウトで敗北する", () => {
+      const state = createSpaceState({}, "end");
+      const command = new AdvancePhaseCommand();
+
+      const result = command.execute(state);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState.result).toMatchObject({ isGameOver: true, winner: "opponent", reason: "deckout" });
+    });
+
+    it("バトルフェイズからメイン2に進行できる", () => {
+      const state = { ...createPhaseState("battle"), turn: 2 };
+      const command = new AdvancePhaseCommand("main2");
+
+      const result = command.execute(state);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState.phase).toBe("main2");
+      expect(result.message).toContain("メインフェイズ2");
+    });
+
+    it("先攻1ターン目はバトルフェイズに進行できない", () => {
+      const state = createPhaseState("main1");
+      const command = new AdvancePhaseCommand("battle");
+
+      const result = command.execute(state);
+
+      expect(result.success).toBe(false);
+      expect(result.updatedState.phase).toBe("main1");
     });
 
     it("元の状態を変更しない（イミュータビリティ）", () => {
@@ -132,12 +221,26 @@ describe("AdvancePhaseCommand", () => {
       expect(command.getNextPhase(state)).toBe("end");
     });
 
-    it("エンドフェイズの次はエンドを返す", () => {
-      const state = createPhaseState("end");
+    it("2ターン目以降のメイン1フェイズの次はバトルを返す", () => {
+      const state = { ...createPhaseState("main1"), turn: 2 };
       const command = new AdvancePhaseCommand();
 
+      expect(command.getNextPhase(state)).toBe("battle");
+    });
+
+    it("遷移先を指定した場合はそのフェイズを返す", () => {
+      const state = { ...createPhaseState("main1"), turn: 2 };
+      const command = new AdvancePhaseCommand("end");
+
       expect(command.getNextPhase(state)).toBe("end");
     });
+
+    it("エンドフェイズの次は次のターンのドローを返す", () => {
+      const state = createPhaseState("end");
+      const command = new AdvancePhaseCommand();
+
+      expect(command.getNextPhase(state)).toBe("draw");
+    });
   });
 
   describe("description", () => {
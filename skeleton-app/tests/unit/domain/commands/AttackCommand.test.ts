@@ -0,0 +1,87 @@
+/**
+ * 攻撃宣言コマンドのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { AttackCommand } from "$lib/domain/commands/AttackCommand";
+import { createBattleReadyState, createExodiaVictoryState } from "../../../__testUtils__";
+
+describe("AttackCommand", () => {
+  describe("constructor", () => {
+    it("カードインスタンスIDでコマンドを生成する", () => {
+      // Arrange & Act
+      const command = new AttackCommand("attacker-0");
+
+      // Assert
+      expect(command.getCardInstanceId()).toBe("attacker-0");
+      expect(command.description).toContain("attacker-0");
+    });
+  });
+
+  describe("canExecute", () => {
+    it("ゲームが終了している場合は false を返す", () => {
+      // Arrange
+      const command = new AttackCommand("attacker-0");
+
+      // Act
+      const result = command.canExecute(createExodiaVictoryState());
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("GAME_OVER");
+    });
+
+    it("バトルフェイズの攻撃表示モンスターの場合は true を返す", () => {
+      // Arrange
+      const command = new AttackCommand("attacker-0");
+
+      // Act
+      const result = command.canExecute(createBattleReadyState());
+
+      // Assert
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe("execute", () => {
+    it("canExecute が失敗する場合は失敗を返す", () => {
+      // Arrange
+      const state = { ...createBattleReadyState(), phase: "main1" as const };
+      const command = new AttackCommand("attacker-0");
+
+      // Act
+      const result = command.execute(state);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.updatedState).toBe(state);
+    });
+
+    it("直接攻撃で相手に戦闘ダメージを与える", () => {
+      // Arrange
+      const command = new AttackCommand("attacker-0");
+
+      // Act
+      const result = command.execute(createBattleReadyState({ attack: 2500 }));
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.updatedState.lp.opponent).toBe(5500);
+      expect(result.message).toContain("2500");
+    });
+
+    it("相手のLPが 0 になった場合は勝利する", () => {
+      // Arrange
+      const command = new AttackCommand("attacker-0");
+
+      // Act
+      const result = command.execute(createBattleReadyState({ attack: 2500, opponentLp: 2000 }));
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.updatedState.lp.opponent).toBe(0);
+      expect(result.updatedState.result.isGameOver).toBe(true);
+      expect(result.updatedState.result.winner).toBe("player");
+    });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * リンク召喚コマンドのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { LinkSummonCommand } from "$lib/domain/commands/LinkSummonCommand";
+import { createLinkSummonReadyState, createExodiaVictoryState } from "../../../__testUtils__";
+
+describe("LinkSummonCommand", () => {
+  describe("constructor", () => {
+    it("カードインスタンスIDでコマンドを生成する", () => {
+      // Arrange & Act
+      const command = new LinkSummonCommand("link-0");
+
+      // Assert
+      expect(command.getCardInstanceId()).toBe("link-0");
+      expect(command.description).toContain("link-0");
+    });
+  });
+
+  describe("canExecute", () => {
+    it("ゲームが終了している場合は false を返す", () => {
+      // Arrange
+      const command = new LinkSummonCommand("link-0");
+
+      // Act
+      const result = command.canExecute(createExodiaVictoryState());
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("GAME_OVER");
+    });
+
+    it("素材が足りない場合は false を返す", () => {
+      // Arrange
+      const state = createLinkSummonReadyState({ materialCount: 1 });
+      const command = new LinkSummonCommand("link-0");
+
+      // Act
+      const result = command.canExecute(state);
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("NO_VALID_LINK_MATERIALS");
+    });
+
+    it("リンク素材が揃っている場合は true を返す", () => {
+      // Arrange
+      const command = new LinkSummonCommand("link-0");
+
+      // Act
+      const result = command.canExecute(createLinkSummonReadyState());
+
+      // Assert
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe("execute", () => {
+    it("canExecute が失敗する場合は失敗を返す", () => {
+      // Arrange
+      const state = createLinkSummonReadyState({ materialCount: 1 });
+      const command = new LinkSummonCommand("link-0");
+
+      // Act
+      const result = command.execute(state);
+
+      // Assert
+      expect(result.success).toBe(false);
+    });
+
+    it("有効な場合は素材選択ステップ付きで成功を返し、状態は変更しない", () => {
+      // Arrange
+      const state = createLinkSummonReadyState();
+      const command = new LinkSummonCommand("link-0");
+
+      // Act
+      const result = command.execute(state);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.activationSteps).toHaveLength(1);
+      expect(result.activationSteps?.[0].summary).toContain("リンク素材");
+      expect(result.updatedState).toStrictEqual(state);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * 降参コマンドのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { SurrenderCommand } from "$lib/domain/commands/SurrenderCommand";
+import { createMockGameState, createExodiaVictoryState } from "../../../__testUtils__";
+
+describe("SurrenderCommand", () => {
+  describe("canExecute", () => {
+    it("ゲームが終了している場合は false を返す", () => {
+      // Arrange
+      const command = new SurrenderCommand();
+
+      // Act
+      const result = command.canExecute(createExodiaVictoryState());
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("GAME_OVER");
+    });
+
+    it("ゲーム進行中の場合は true を返す", () => {
+      // Arrange
+      const command = new SurrenderCommand();
+
+      // Act
+      const result = command.canExecute(createMockGameState({ phase: "main1" }));
+
+      // Assert
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe("execute", () => {
+    it("canExecute が失敗する場合は失敗を返す", () => {
+      // Arrange
+      const state = createExodiaVictoryState();
+      const command = new SurrenderCommand();
+
+      // Act
+      const result = command.execute(state);
+
+      // Assert
+      expect(result.success).toBe(false);
+      expect(result.updatedState).toBe(state);
+    });
+
+    it("降参により相手の勝利でゲームが終了する", () => {
+      // Arrange
+      const state = createMockGameState({ phase: "main1" });
+      const command = new SurrenderCommand();
+
+      // Act
+      const result = command.execute(state);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.updatedState.result).toMatchObject({ isGameOver: true, winner: "opponent", reason: "surrender" });
+      expect(state.result.isGameOver).toBe(false); // 元の状態は不変
+    });
+  });
+});
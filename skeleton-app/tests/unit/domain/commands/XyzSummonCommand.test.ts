@@ -0,0 +1,87 @@
+/**
+ * エクシーズ召喚コマンドのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { XyzSummonCommand } from "$lib/domain/commands/XyzSummonCommand";
+import { createXyzSummonReadyState, createExodiaVictoryState } from "../../../__testUtils__";
+
+describe("XyzSummonCommand", () => {
+  describe("constructor", () => {
+    it("カードインスタンスIDでコマンドを生成する", () => {
+      // Arrange & Act
+      const command = new XyzSummonCommand("xyz-0");
+
+      // Assert
+      expect(command.getCardInstanceId()).toBe("xyz-0");
+      expect(command.description).toContain("xyz-0");
+    });
+  });
+
+  describe("canExecute", () => {
+    it("ゲームが終了している場合は false を返す", () => {
+      // Arrange
+      const command = new XyzSummonCommand("xyz-0");
+
+      // Act
+      const result = command.canExecute(createExodiaVictoryState());
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("GAME_OVER");
+    });
+
+    it("素材が足りない場合は false を返す", () => {
+      // Arrange
+      const state = createXyzSummonReadyState({ materialLevels: [4] });
+      const command = new XyzSummonCommand("xyz-0");
+
+      // Act
+      const result = command.canExecute(state);
+
+      // Assert
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("NO_VALID_XYZ_MATERIALS");
+    });
+
+    it("エクシーズ素材が揃っている場合は true を返す", () => {
+      // Arrange
+      const command = new XyzSummonCommand("xyz-0");
+
+      // Act
+      const result = command.canExecute(createXyzSummonReadyState());
+
+      // Assert
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe("execute", () => {
+    it("canExecute が失敗する場合は失敗を返す", () => {
+      // Arrange
+      const state = createXyzSummonReadyState({ materialLevels: [4] });
+      const command = new XyzSummonCommand("xyz-0");
+
+      // Act
+      const result = command.execute(state);
+
+      // Assert
+      expect(result.success).toBe(false);
+    });
+
+    it("有効な場合は素材選択ステップ付きで成功を返し、状態は変更しない", () => {
+      // Arrange
+      const state = createXyzSummonReadyState();
+      const command = new XyzSummonCommand("xyz-0");
+
+      // Act
+      const result = command.execute(state);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.activationSteps).toHaveLength(1);
+      expect(result.activationSteps?.[0].summary).toContain("エクシーズ素材");
+      expect(result.updatedState).toStrictEqual(state);
+    });
+  });
+});
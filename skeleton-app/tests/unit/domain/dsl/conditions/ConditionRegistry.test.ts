@@ -9,6 +9,7 @@ import {
   createFilledMainDeck,
   createSpellInstance,
   createMonsterOnField,
+  createXyzMaterial,
   ACTUAL_CARD_IDS,
   DUMMY_CARD_IDS,
 } from "../../../../__testUtils__";
@@ -221,3 +222,40 @@ describe("ConditionRegistry - HAS_COUNTER", () => {
     expect(result.isValid).toBe(false);
   });
 });
+
+// =============================================================================
+// HAS_MATERIAL 条件のテスト
+// =============================================================================
+
+const createMockXyzWithMaterials = (count: number) =>
+  createMonsterOnField("xyz-0", {
+    cardId: DUMMY_CARD_IDS.XYZ_MONSTER,
+    xyzMaterials: Array.from({ length: count }, (_, index) => createXyzMaterial(`material-${index}`, { level: 4 })),
+  });
+
+describe("ConditionRegistry - HAS_MATERIAL", () => {
+  it("エクシーズ素材が指定数以上ある場合は成功を返す", () => {
+    const result = checkCondition("HAS_MATERIAL", createSpaceState(), createMockXyzWithMaterials(2), {
+      minCount: 1,
+    });
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it("エクシーズ素材が不足している場合は INSUFFICIENT_XYZ_MATERIALS を返す", () => {
+    const result = checkCondition("HAS_MATERIAL", createSpaceState(), createMockXyzWithMaterials(1), {
+      minCount: 2,
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errorCode).toBe("INSUFFICIENT_XYZ_MATERIALS");
+  });
+
+  it("エクシーズ素材を持たないモンスターでは失敗を返す", () => {
+    const result = checkCondition("HAS_MATERIAL", createSpaceState(), createMonsterOnField("monster-0"), {
+      minCount: 1,
+    });
+
+    expect(result.isValid).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * チェーン系条件チェックのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { chainHasLinkCondition } from "$lib/domain/dsl/conditions/checkers/chainConditions";
+import type { EffectId } from "$lib/domain/models/Effect";
+import type { ChainLink } from "$lib/domain/models/Chain";
+import type { CardInstance } from "$lib/domain/models/Card";
+import { createMockGameState, createSpellOnField, createTrapOnField } from "../../../../__testUtils__";
+
+const spell = createSpellOnField("spell-0");
+const trap = createTrapOnField("trap-0", { slotIndex: 1 });
+
+const toLink = (card: CardInstance, chainNumber: number, negation?: ChainLink["negation"]): ChainLink => ({
+  chainNumber,
+  effectId: `${card.instanceId}-effect` as EffectId,
+  sourceInstanceId: card.instanceId,
+  sourceCardId: card.id,
+  spellSpeed: 1,
+  negation,
+});
+
+// =============================================================================
+// chainHasLinkCondition テスト
+// =============================================================================
+
+describe("chainHasLinkCondition", () => {
+  it("発動元以外のリンクがチェーンにある場合はtrueを返す", () => {
+    const state = createMockGameState({
+      space: { spellTrapZone: [spell, trap] },
+      chainLinks: [toLink(spell, 1), toLink(trap, 2)],
+    });
+
+    expect(chainHasLinkCondition(state, trap, {}).isValid).toBe(true);
+  });
+
+  it("チェーンが組まれていない場合はfalseを返す", () => {
+    const state = createMockGameState({ space: { spellTrapZone: [trap] } });
+
+    expect(chainHasLinkCondition(state, trap, {}).isValid).toBe(false);
+  });
+
+  it("発動元自身のリンクのみの場合はfalseを返す", () => {
+    const state = createMockGameState({ space: { spellTrapZone: [trap] }, chainLinks: [toLink(trap, 1)] });
+
+    expect(chainHasLinkCondition(state, trap, {}).isValid).toBe(false);
+  });
+
+  it("無効化済みのリンクは対象外とする", () => {
+    const state = createMockGameState({
+      space: { spellTrapZone: [spell, trap] },
+      chainLinks: [toLink(spell, 1, "activation"), toLink(trap, 2)],
+    });
+
+    expect(chainHasLinkCondition(state, trap, {}).isValid).toBe(false);
+  });
+
+  it("cardType を指定した場合は発動元カードの種類で絞り込む", () => {
+    const state = createMockGameState({
+      space: { spellTrapZone: [spell, trap] },
+      chainLinks: [toLink(spell, 1), toLink(trap, 2)],
+    });
+
+    expect(chainHasLinkCondition(state, trap, { cardType: "spell" }).isValid).toBe(true);
+    expect(chainHasLinkCondition(state, trap, { cardType: "monster" }).isValid).toBe(false);
+  });
+});
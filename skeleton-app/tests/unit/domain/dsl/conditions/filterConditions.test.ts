@@ -0,0 +1,94 @@
+/**
+ * カードフィルター式を使う条件チェックのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { zoneHasMatchingCardsCondition } from "$lib/domain/dsl/conditions/checkers/filterConditions";
+import {
+  createMockGameState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createSpellInstance,
+} from "../../../../__testUtils__";
+
+// ソースインスタンス（条件チェックの発動元として使用）
+const sourceInstance = createSpellInstance("dummy-source");
+
+// =============================================================================
+// zoneHasMatchingCardsCondition テスト
+// =============================================================================
+
+describe("zoneHasMatchingCardsCondition", () => {
+  it("ゾーンにフィルター式に合うカードがある場合はtrueを返す", () => {
+    const state = createMockGameState({
+      space: {
+        mainDeck: [
+          createMonsterInstance("deck-0", { location: "mainDeck", attack: 2000 }),
+          createMonsterInstance("deck-1", { location: "mainDeck", attack: 1000 }),
+        ],
+      },
+    });
+
+    const result = zoneHasMatchingCardsCondition(state, sourceInstance, {
+      zone: "mainDeck",
+      filter: { type: "monster", attack: { max: 1500 } },
+    });
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it("フィルター式に合うカードが minCount 未満の場合はfalseを返す", () => {
+    const state = createMockGameState({
+      space: { graveyard: [createMonsterInstance("graveyard-0", { location: "graveyard", race: "Zombie" })] },
+    });
+
+    const result = zoneHasMatchingCardsCondition(state, sourceInstance, {
+      zone: "graveyard",
+      filter: { race: "Zombie" },
+      minCount: 2,
+    });
+
+    expect(result.isValid).toBe(false);
+  });
+
+  it("monsterZone はエクストラモンスターゾーンのモンスターも含む", () => {
+    const state = createMockGameState({
+      space: {
+        extraMonsterZone: [createMonsterOnField("extra-0", { location: "extraMonsterZone", race: "Spellcaster" })],
+      },
+    });
+
+    const result = zoneHasMatchingCardsCondition(state, sourceInstance, {
+      zone: "monsterZone",
+      filter: { race: "Spellcaster", faceUp: true },
+    });
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it("裏側表示のモンスターは faceUp: true にマッチしない", () => {
+    const state = createMockGameState({
+      space: { mainMonsterZone: [createMonsterOnField("field-0", { race: "Spellcaster", position: "faceDown" })] },
+    });
+
+    const result = zoneHasMatchingCardsCondition(state, sourceInstance, {
+      zone: "monsterZone",
+      filter: { race: "Spellcaster", faceUp: true },
+    });
+
+    expect(result.isValid).toBe(false);
+  });
+
+  it("不正なフィルター式の場合はfalseを返す", () => {
+    const state = createMockGameState({
+      space: { mainDeck: [createMonsterInstance("deck-0", { location: "mainDeck" })] },
+    });
+
+    const result = zoneHasMatchingCardsCondition(state, sourceInstance, {
+      zone: "mainDeck",
+      filter: { unknownKey: "monster" },
+    });
+
+    expect(result.isValid).toBe(false);
+  });
+});
@@ -290,6 +290,29 @@ describe("optionalSpellSubType", () => {
   });
 });
 
+describe("cardFilter", () => {
+  it("カードフィルター式を返す", () => {
+    const filter = { type: "monster", attack: { max: 1500 }, not: { race: "Zombie" } };
+    expect(ArgValidators.cardFilter({ filter }, "filter")).toEqual(filter);
+  });
+
+  it("未知のプロパティを含む場合ArgValidationErrorをスロー", () => {
+    expect(() => ArgValidators.cardFilter({ filter: { races: "Zombie" } }, "filter")).toThrow(ArgValidationError);
+    expect(() => ArgValidators.cardFilter({ filter: { or: [{ typo: 1 }] } }, "filter")).toThrow(ArgValidationError);
+  });
+
+  it("不正な範囲指定でArgValidationErrorをスロー", () => {
+    expect(() => ArgValidators.cardFilter({ filter: { level: {} } }, "filter")).toThrow(ArgValidationError);
+    expect(() => ArgValidators.cardFilter({ filter: { level: { min: 5, max: 4 } } }, "filter")).toThrow(
+      ArgValidationError,
+    );
+  });
+
+  it("フィルター式がない場合ArgValidationErrorをスロー", () => {
+    expect(() => ArgValidators.cardFilter({}, "filter")).toThrow(ArgValidationError);
+  });
+});
+
 // ===========================
 // 配列バリデーション
 // ===========================
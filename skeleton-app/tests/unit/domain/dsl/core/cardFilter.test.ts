@@ -0,0 +1,132 @@
+/**
+ * カードフィルター式のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { compileCardFilter, describeCardFilter, getCardsInZone } from "$lib/domain/dsl/core/cardFilter";
+import {
+  createMockGameState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createSpellInstance,
+  createTrapInstance,
+} from "../../../../__testUtils__";
+
+// =============================================================================
+// compileCardFilter テスト
+// =============================================================================
+
+describe("compileCardFilter", () => {
+  const darkMagician = {
+    ...createMonsterInstance("monster-1", { race: "Spellcaster", level: 7, attack: 2500, defense: 2100 }),
+    jaName: "ブラック・マジシャン",
+    attribute: "DARK",
+  };
+  const toonMonster = {
+    ...createMonsterInstance("monster-2", { race: "Spellcaster", level: 4, attack: 1400, defense: 1000 }),
+    jaName: "トゥーン・ヂェミナイ・エルフ",
+    attribute: "EARTH",
+  };
+  const equipSpell = createSpellInstance("spell-1", { spellType: "equip" });
+  const counterTrap = createTrapInstance("trap-1", { trapType: "counter" });
+
+  it("空のフィルター式は全てのカードに一致する", () => {
+    const predicate = compileCardFilter({});
+
+    expect([darkMagician, equipSpell, counterTrap].every(predicate)).toBe(true);
+  });
+
+  it("カードタイプ・サブタイプで判定する", () => {
+    expect(compileCardFilter({ type: "monster" })(darkMagician)).toBe(true);
+    expect(compileCardFilter({ type: "monster" })(equipSpell)).toBe(false);
+    expect(compileCardFilter({ spellType: "equip" })(equipSpell)).toBe(true);
+    expect(compileCardFilter({ trapType: "counter" })(counterTrap)).toBe(true);
+    expect(compileCardFilter({ trapType: "normal" })(counterTrap)).toBe(false);
+  });
+
+  it("種族・属性・カード名で判定する", () => {
+    expect(compileCardFilter({ race: "Spellcaster", attribute: "DARK" })(darkMagician)).toBe(true);
+    expect(compileCardFilter({ race: "Spellcaster", attribute: "DARK" })(toonMonster)).toBe(false);
+    expect(compileCardFilter({ nameIncludes: "トゥーン" })(toonMonster)).toBe(true);
+    expect(compileCardFilter({ nameIncludes: "トゥーン" })(darkMagician)).toBe(false);
+  });
+
+  it("数値は一致、{ min, max } は範囲（両端を含む）で判定する", () => {
+    expect(compileCardFilter({ level: 7 })(darkMagician)).toBe(true);
+    expect(compileCardFilter({ level: { min: 5 } })(toonMonster)).toBe(false);
+    expect(compileCardFilter({ attack: { max: 1400 } })(toonMonster)).toBe(true);
+    expect(compileCardFilter({ defense: { min: 1000, max: 2000 } })(toonMonster)).toBe(true);
+    expect(compileCardFilter({ defense: { min: 1000, max: 2000 } })(darkMagician)).toBe(false);
+  });
+
+  it("値を持たないカードは数値の条件に一致しない", () => {
+    expect(compileCardFilter({ attack: { max: 1500 } })(equipSpell)).toBe(false);
+  });
+
+  it("表側表示かどうかで判定する", () => {
+    const faceUp = createMonsterOnField("field-1");
+    const faceDown = createMonsterOnField("field-2", { position: "faceDown" });
+
+    expect(compileCardFilter({ faceUp: true })(faceUp)).toBe(true);
+    expect(compileCardFilter({ faceUp: true })(faceDown)).toBe(false);
+    expect(compileCardFilter({ faceUp: false })(faceDown)).toBe(true);
+  });
+
+  it("and / or / not を組み合わせられる", () => {
+    const predicate = compileCardFilter({
+      or: [{ attribute: "DARK" }, { nameIncludes: "トゥーン" }],
+      not: { level: { min: 7 } },
+    });
+
+    expect(predicate(toonMonster)).toBe(true);
+    expect(predicate(darkMagician)).toBe(false);
+    expect(compileCardFilter({ and: [{ type: "monster" }, { attack: { min: 2000 } }] })(darkMagician)).toBe(true);
+  });
+});
+
+// =============================================================================
+// describeCardFilter テスト
+// =============================================================================
+
+describe("describeCardFilter", () => {
+  it("単純なフィルター式の説明文を生成する", () => {
+    expect(describeCardFilter({ type: "monster", attack: { max: 1500 } })).toBe("攻撃力1500以下のモンスター");
+    expect(describeCardFilter({ nameIncludes: "トゥーン" })).toBe("「トゥーン」を含むカード");
+    expect(describeCardFilter({ spellType: "equip" })).toBe("装備魔法カード");
+    expect(describeCardFilter({ race: "Spellcaster", faceUp: true })).toBe("表側表示のSpellcasterモンスター");
+    expect(describeCardFilter({ level: { min: 1, max: 4 } })).toBe("レベル1〜4のモンスター");
+    expect(describeCardFilter({})).toBe("カード");
+  });
+
+  it("合成条件の説明文を生成する", () => {
+    expect(describeCardFilter({ or: [{ attribute: "DARK" }, { attribute: "LIGHT" }] })).toBe(
+      "DARK属性のモンスターまたはLIGHT属性のモンスター",
+    );
+    expect(describeCardFilter({ type: "monster", not: { frameType: "normal" } })).toBe(
+      "モンスターかつ通常モンスター以外",
+    );
+  });
+});
+
+// =============================================================================
+// getCardsInZone テスト
+// =============================================================================
+
+describe("getCardsInZone", () => {
+  it("monsterZone はメイン・エクストラモンスターゾーンの両方を返す", () => {
+    const mainMonster = createMonsterOnField("main-1");
+    const extraMonster = createMonsterOnField("extra-1", { location: "extraMonsterZone" });
+    const state = createMockGameState({
+      space: { mainMonsterZone: [mainMonster], extraMonsterZone: [extraMonster] },
+    });
+
+    expect(getCardsInZone(state.space, "monsterZone").map((card) => card.instanceId)).toEqual(["main-1", "extra-1"]);
+  });
+
+  it("それ以外のゾーンは同名のロケーションを返す", () => {
+    const graveyardMonster = createMonsterInstance("graveyard-1", { location: "graveyard" });
+    const state = createMockGameState({ space: { graveyard: [graveyardMonster] } });
+
+    expect(getCardsInZone(state.space, "graveyard")).toEqual([graveyardMonster]);
+  });
+});
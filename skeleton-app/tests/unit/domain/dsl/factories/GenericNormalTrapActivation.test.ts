@@ -0,0 +1,105 @@
+/**
+ * DSL定義から通常罠効果を生成するファクトリクラスのテスト
+ *
+ * TEST STRATEGY:
+ * - DSL定義から正しくインスタンスが生成されること
+ * - 条件チェックが正しく機能すること（罠カード共通の制限 + 個別条件）
+ * - 発動ステップと効果解決ステップが正しく生成されること
+ * - 効果解決後に墓地送りステップが含まれること
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  GenericNormalTrapActivation,
+  createGenericNormalTrapActivation,
+} from "$lib/domain/dsl/factories/GenericNormalTrapActivation";
+import type { ChainableActionDSL } from "$lib/domain/dsl/types";
+import { createTrapOnField, createSpaceState, createFilledMainDeck, DUMMY_CARD_IDS } from "../../../../__testUtils__";
+
+// =============================================================================
+// テストヘルパー
+// =============================================================================
+
+const NORMAL_TRAP_ID = DUMMY_CARD_IDS.NORMAL_TRAP;
+
+const setTrap = (placedThisTurn = false) =>
+  createTrapOnField("trap-set-instance", { cardId: NORMAL_TRAP_ID, position: "faceDown", placedThisTurn });
+
+const state = createSpaceState({
+  ...createFilledMainDeck(1),
+});
+
+const baseDsl = (): ChainableActionDSL => ({
+  resolutions: [{ step: "BURN_DAMAGE", args: { amount: 1000 } }],
+});
+
+// =============================================================================
+// インスタンス生成テスト
+// =============================================================================
+
+describe("GenericNormalTrapActivation - インスタンス生成", () => {
+  it("createGenericNormalTrapActivation でインスタンスを生成できる", () => {
+    const activation = createGenericNormalTrapActivation(NORMAL_TRAP_ID, baseDsl());
+
+    expect(activation).toBeInstanceOf(GenericNormalTrapActivation);
+    expect(activation.cardId).toBe(NORMAL_TRAP_ID);
+    expect(activation.effectId).toBe(`activation-${NORMAL_TRAP_ID}`);
+    expect(activation.spellSpeed).toBe(2);
+  });
+});
+
+// =============================================================================
+// 条件チェックテスト
+// =============================================================================
+
+describe("GenericNormalTrapActivation - 条件チェック", () => {
+  it("前のターンにセットしたカードは canActivate が true を返す", () => {
+    const activation = createGenericNormalTrapActivation(NORMAL_TRAP_ID, baseDsl());
+
+    expect(activation.canActivate(state, setTrap()).isValid).toBe(true);
+  });
+
+  it("セットしたターンのカードは個別条件より先に制限される", () => {
+    const activation = createGenericNormalTrapActivation(NORMAL_TRAP_ID, baseDsl());
+
+    const result = activation.canActivate(state, setTrap(true));
+
+    expect(result.errorCode).toBe("TRAP_SET_THIS_TURN");
+  });
+
+  it("個別条件を満たさない場合は canActivate が false を返す", () => {
+    const activation = createGenericNormalTrapActivation(NORMAL_TRAP_ID, {
+      ...baseDsl(),
+      conditions: { requirements: [{ step: "CAN_DRAW", args: { count: 2 } }] },
+    });
+
+    expect(activation.canActivate(state, setTrap()).isValid).toBe(false);
+  });
+});
+
+// =============================================================================
+// ステップ生成テスト
+// =============================================================================
+
+describe("GenericNormalTrapActivation - ステップ生成", () => {
+  it("createResolutionSteps で効果解決ステップと墓地送りステップを生成する", () => {
+    const activation = createGenericNormalTrapActivation(NORMAL_TRAP_ID, baseDsl());
+
+    const steps = activation.createResolutionSteps(state, setTrap());
+
+    expect(steps).toHaveLength(2);
+    expect(steps[0].id).toBe("damage-opponent-1000");
+    expect(steps[1].id).toBe("send-trap-set-instance-to-graveyard");
+  });
+
+  it("createActivationSteps は発動通知の後に activations のステップを生成する", () => {
+    const activation = createGenericNormalTrapActivation(NORMAL_TRAP_ID, {
+      ...baseDsl(),
+      activations: [{ step: "PAY_LP", args: { amount: 500 } }],
+    });
+
+    const steps = activation.createActivationSteps(state, setTrap());
+
+    expect(steps.map((step) => step.id)).toEqual([`${NORMAL_TRAP_ID}-activation-notification`, "pay-lp-player-500"]);
+  });
+});
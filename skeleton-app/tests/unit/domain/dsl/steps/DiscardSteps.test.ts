@@ -4,9 +4,15 @@
 
 import { describe, it, expect } from "vitest";
 import { buildStep, AtomicStepRegistry } from "$lib/domain/dsl/steps";
-import { sendToGraveyardStep, discardAllHandStep, selectAndDiscardStep } from "$lib/domain/dsl/steps/builders/discards";
+import {
+  sendToGraveyardStep,
+  discardAllHandStep,
+  selectAndDiscardStep,
+  discardToHandLimitStep,
+} from "$lib/domain/dsl/steps/builders/discards";
 import {
   createSpaceState,
+  createFilledHand,
   createMonsterInstance,
   createSpellInstance,
   createStepBuildContext,
@@ -311,3 +317,48 @@ describe("selectAndDiscardStep", () => {
     expect(step.summary).toContain("罠");
   });
 });
+
+describe("discardToHandLimitStep", () => {
+  it("手札が制限枚数以下の場合はカード選択なしで何もしない", () => {
+    const state = createSpaceState({ ...createFilledHand(6) });
+    const step = discardToHandLimitStep(6);
+
+    expect(step.cardSelectionConfig!(state)).toBeNull();
+    const result = step.action(state);
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.hand).toHaveLength(6);
+  });
+
+  it("手札が制限枚数を超える場合は超過分を選択させる", () => {
+    const state = createSpaceState({ ...createFilledHand(8) });
+    const step = discardToHandLimitStep(6);
+
+    const config = step.cardSelectionConfig!(state);
+    expect(config?._sourceZone).toBe("hand");
+    expect(config?.minCards).toBe(2);
+    expect(config?.maxCards).toBe(2);
+    expect(config?.cancelable).toBe(false);
+  });
+
+  it("選択したカードを墓地に送り、手札を制限枚数にする", () => {
+    const state = createSpaceState({ ...createFilledHand(8) });
+    const [first, second] = state.space.hand.map((card) => card.instanceId);
+    const step = discardToHandLimitStep(6);
+
+    const result = step.action(state, [first, second]);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.hand).toHaveLength(6);
+    expect(result.updatedState.space.graveyard.map((card) => card.instanceId)).toEqual([first, second]);
+    expect(result.emittedEvents?.every((event) => event.type === "sentToGraveyard")).toBe(true);
+  });
+
+  it("超過分と異なる枚数を選択した場合エラー", () => {
+    const state = createSpaceState({ ...createFilledHand(8) });
+    const step = discardToHandLimitStep(6);
+
+    const result = step.action(state, [state.space.hand[0].instanceId]);
+
+    expect(result.success).toBe(false);
+  });
+});
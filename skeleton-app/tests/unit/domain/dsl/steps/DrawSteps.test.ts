@@ -0,0 +1,58 @@
+/**
+ * ドロー系ステップのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { drawStep, fillHandsStep } from "$lib/domain/dsl/steps/builders/draws";
+import { createSpaceState, createMonsterInstance } from "../../../../__testUtils__";
+
+const createDeck = (count: number) =>
+  Array.from({ length: count }, (_, i) => createMonsterInstance(`deck-monster-${i}`, { location: "mainDeck" }));
+
+describe("drawStep", () => {
+  it("デッキから指定枚数ドローする", () => {
+    const state = createSpaceState({ mainDeck: createDeck(5) });
+
+    const result = drawStep(2).action(state);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.hand.length).toBe(2);
+    expect(result.updatedState.space.mainDeck.length).toBe(3);
+    expect(result.updatedState.result.isGameOver).toBe(false);
+  });
+
+  it("デッキ枚数が不足する場合、引けるだけ引いてデッキアウトによる敗北となる", () => {
+    const state = createSpaceState({ mainDeck: createDeck(1) });
+
+    const result = drawStep(2).action(state);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.hand.length).toBe(1);
+    expect(result.updatedState.space.mainDeck.length).toBe(0);
+    expect(result.updatedState.result.isGameOver).toBe(true);
+    expect(result.updatedState.result.winner).toBe("opponent");
+    expect(result.updatedState.result.reason).toBe("deckout");
+    expect(result.message).toContain("Deck out");
+  });
+});
+
+describe("fillHandsStep", () => {
+  it("手札が指定枚数以上の場合、ドローしない", () => {
+    const state = createSpaceState({ hand: createDeck(3).map((card) => ({ ...card, location: "hand" as const })) });
+
+    const result = fillHandsStep(3).action(state);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.result.isGameOver).toBe(false);
+  });
+
+  it("デッキが空で手札を補充できない場合、デッキアウトによる敗北となる", () => {
+    const state = createSpaceState({ mainDeck: [] });
+
+    const result = fillHandsStep(3).action(state);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.result.isGameOver).toBe(true);
+    expect(result.updatedState.result.reason).toBe("deckout");
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * 融合召喚系ステップのテスト
+ *
+ * ダミー融合モンスター（2001）の融合素材: 1001 + ドラゴン族モンスター
+ */
+
+import { describe, it, expect } from "vitest";
+import type { EffectId } from "$lib/domain/models/Effect";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import { buildStep, AtomicStepRegistry } from "$lib/domain/dsl/steps";
+import {
+  createSpaceState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createStepBuildContext,
+  DUMMY_CARD_IDS,
+} from "../../../../__testUtils__";
+
+// テスト用 EffectId 定数
+const EFFECT_ID_1 = "12345-activation" as EffectId;
+
+const createFusionReadyState = (): GameSnapshot =>
+  createSpaceState({
+    hand: [createMonsterInstance("named-0", { cardId: DUMMY_CARD_IDS.NORMAL_MONSTER })],
+    mainMonsterZone: [createMonsterOnField("dragon-0", { frameType: "effect", race: "Dragon" })],
+    extraDeck: [
+      createMonsterInstance("fusion-0", {
+        cardId: DUMMY_CARD_IDS.FUSION_MONSTER,
+        frameType: "fusion",
+        location: "extraDeck",
+      }),
+    ],
+  });
+
+// 融合モンスターを選択済みの状態
+const withSelectedFusionMonster = (state: GameSnapshot): GameSnapshot => ({
+  ...state,
+  activationContexts: GameState.ActivationContext.setTargets(state.activationContexts, EFFECT_ID_1, ["fusion-0"]),
+});
+
+// =============================================================================
+// SELECT_FUSION_MONSTER ステップのテスト
+// =============================================================================
+
+describe("StepRegistry - SELECT_FUSION_MONSTER", () => {
+  it("isRegistered で登録済みであることを確認できる", () => {
+    expect(AtomicStepRegistry.isRegistered("SELECT_FUSION_MONSTER")).toBe(true);
+  });
+
+  it("effectId がない場合エラー", () => {
+    expect(() => buildStep("SELECT_FUSION_MONSTER", {}, createStepBuildContext())).toThrow();
+  });
+
+  it("融合召喚可能な融合モンスターを選択肢として表示する", () => {
+    const step = buildStep("SELECT_FUSION_MONSTER", {}, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+
+    const config = step.cardSelectionConfig!(createFusionReadyState());
+
+    expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["fusion-0"]);
+  });
+
+  it("融合召喚可能な融合モンスターがいない場合は選択UIを表示しない", () => {
+    const step = buildStep("SELECT_FUSION_MONSTER", {}, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+    const state = createSpaceState({ extraDeck: createFusionReadyState().space.extraDeck });
+
+    expect(step.cardSelectionConfig!(state)).toBeNull();
+    expect(step.action(state, []).success).toBe(true);
+  });
+
+  it("選択した融合モンスターをコンテキストに保存する", () => {
+    const step = buildStep("SELECT_FUSION_MONSTER", {}, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+
+    const result = step.action(createFusionReadyState(), ["fusion-0"]);
+
+    expect(result.success).toBe(true);
+    expect(GameState.ActivationContext.getTargets(result.updatedState.activationContexts, EFFECT_ID_1)).toEqual([
+      "fusion-0",
+    ]);
+  });
+});
+
+// =============================================================================
+// FUSION_SUMMON_FROM_CONTEXT ステップのテスト
+// =============================================================================
+
+describe("StepRegistry - FUSION_SUMMON_FROM_CONTEXT", () => {
+  it("isRegistered で登録済みであることを確認できる", () => {
+    expect(AtomicStepRegistry.isRegistered("FUSION_SUMMON_FROM_CONTEXT")).toBe(true);
+  });
+
+  it("コンテキストの融合モンスターの素材選択UIを表示する", () => {
+    const step = buildStep("FUSION_SUMMON_FROM_CONTEXT", {}, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+
+    const config = step.cardSelectionConfig!(withSelectedFusionMonster(createFusionReadyState()));
+
+    expect(config?.minCards).toBe(2);
+    expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["named-0", "dragon-0"]);
+  });
+
+  it("素材を墓地へ送って融合召喚し、コンテキストをクリアする", () => {
+    const step = buildStep("FUSION_SUMMON_FROM_CONTEXT", {}, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+
+    const result = step.action(withSelectedFusionMonster(createFusionReadyState()), ["named-0", "dragon-0"]);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["fusion-0"]);
+    expect(result.updatedState.space.graveyard).toHaveLength(2);
+    expect(result.updatedState.activationContexts[EFFECT_ID_1]).toBeUndefined();
+  });
+
+  it("処理時に融合素材が揃っていない場合は不発になる", () => {
+    const step = buildStep("FUSION_SUMMON_FROM_CONTEXT", {}, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+    const state = withSelectedFusionMonster({
+      ...createFusionReadyState(),
+      space: { ...createFusionReadyState().space, hand: [] },
+    });
+
+    expect(step.cardSelectionConfig!(state)).toBeNull();
+    const result = step.action(state, []);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.extraDeck).toHaveLength(1);
+    expect(result.updatedState.activationContexts[EFFECT_ID_1]).toBeUndefined();
+  });
+});
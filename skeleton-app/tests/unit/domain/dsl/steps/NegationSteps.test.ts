@@ -0,0 +1,105 @@
+/**
+ * チェーン無効化系ステップのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildStep } from "$lib/domain/dsl/steps";
+import { negateChainLinkStep } from "$lib/domain/dsl/steps/builders/negations";
+import type { EffectId } from "$lib/domain/models/Effect";
+import type { ChainLink } from "$lib/domain/models/Chain";
+import type { CardInstance } from "$lib/domain/models/Card";
+import {
+  createMockGameState,
+  createMonsterOnField,
+  createSpellOnField,
+  createTrapOnField,
+  createStepBuildContext,
+} from "../../../../__testUtils__";
+
+const toLink = (card: CardInstance, chainNumber: number): ChainLink => ({
+  chainNumber,
+  effectId: `${card.instanceId}-effect` as EffectId,
+  sourceInstanceId: card.instanceId,
+  sourceCardId: card.id,
+  spellSpeed: 1,
+});
+
+// チェーン1: 魔法、チェーン2: モンスター効果、チェーン3: 無効化する罠（発動元）
+const spell = createSpellOnField("spell-0", { spellType: "normal" });
+const monster = createMonsterOnField("monster-0");
+const trap = createTrapOnField("trap-0", { trapType: "counter", slotIndex: 1 });
+const createChainState = () =>
+  createMockGameState({
+    space: { spellTrapZone: [spell, trap], mainMonsterZone: [monster] },
+    chainLinks: [toLink(spell, 1), toLink(monster, 2), toLink(trap, 3)],
+  });
+
+describe("StepRegistry - NEGATE_ACTIVATION / NEGATE_EFFECT", () => {
+  describe("ステップ生成", () => {
+    it("NEGATE_ACTIVATION でステップを生成できる", () => {
+      const step = buildStep("NEGATE_ACTIVATION", {}, createStepBuildContext({ sourceInstanceId: "trap-0" }));
+
+      expect(step.id).toBe("negate-activation-any-trap-0");
+      expect(step.summary).toBe("発動の無効");
+    });
+
+    it("NEGATE_EFFECT で cardType を指定してステップを生成できる", () => {
+      const step = buildStep("NEGATE_EFFECT", { cardType: "monster" }, createStepBuildContext());
+
+      expect(step.id).toContain("negate-effect-monster");
+      expect(step.description).toContain("モンスターカード");
+    });
+
+    it("不正な cardType を指定するとエラーになる", () => {
+      expect(() => buildStep("NEGATE_EFFECT", { cardType: "token" }, createStepBuildContext())).toThrow();
+    });
+  });
+
+  describe("negateChainLinkStep", () => {
+    it("対象が1つの場合は選択せずにそのリンクを無効にする", () => {
+      const state = createChainState();
+      const step = negateChainLinkStep("activation", "trap-0", "spell");
+
+      expect(step.cardSelectionConfig!(state)).toBeNull();
+      const result = step.action(state);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState.chainLinks!.map((link) => link.negation)).toEqual([
+        "activation",
+        undefined,
+        undefined,
+      ]);
+    });
+
+    it("対象が複数の場合は発動元カードを選択し、選択したリンクを無効にする", () => {
+      const state = createChainState();
+      const step = negateChainLinkStep("effect", "trap-0");
+
+      const config = step.cardSelectionConfig!(state);
+      // チェーン番号の大きい順（自身のリンクは含まない）
+      expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["monster-0", "spell-0"]);
+      const result = step.action(state, ["spell-0"]);
+
+      expect(result.updatedState.chainLinks!.map((link) => link.negation)).toEqual(["effect", undefined, undefined]);
+    });
+
+    it("選択がない場合は直前のリンクを無効にする", () => {
+      const result = negateChainLinkStep("activation", "trap-0").action(createChainState());
+
+      expect(result.updatedState.chainLinks!.map((link) => link.negation)).toEqual([
+        undefined,
+        "activation",
+        undefined,
+      ]);
+    });
+
+    it("無効にできるリンクがない場合は状態を変更しない", () => {
+      const state = createMockGameState({ chainLinks: [toLink(trap, 1)] });
+
+      const result = negateChainLinkStep("activation", "trap-0").action(state);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState).toEqual(state);
+    });
+  });
+});
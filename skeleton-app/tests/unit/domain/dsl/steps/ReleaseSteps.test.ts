@@ -6,12 +6,18 @@ import { describe, it, expect } from "vitest";
 import type { EffectId } from "$lib/domain/models/Effect";
 import type { EffectActivationContext } from "$lib/domain/models/GameState/ActivationContext";
 import { buildStep, AtomicStepRegistry } from "$lib/domain/dsl/steps";
-import { selectAndReleaseStep } from "$lib/domain/dsl/steps/builders/releases";
+import {
+  selectAndReleaseStep,
+  selectAndReleaseByLevelStep,
+  isValidLevelSumSelection,
+  hasLevelSumSelection,
+} from "$lib/domain/dsl/steps/builders/releases";
 import {
   createMockGameState,
   createSpaceState,
   createFilledMonsterZone,
   createMonsterOnField,
+  createMonsterInstance,
   createStepBuildContext,
   DUMMY_CARD_IDS,
 } from "../../../../__testUtils__";
@@ -91,11 +97,30 @@ describe("StepRegistry - RELEASE", () => {
   });
 
   describe("cardSelectionConfig プロパティ", () => {
-    it("_sourceZone が mainMonsterZone に設定される", () => {
+    it("メイン・エクストラモンスターゾーンの表側表示モンスターを候補にする", () => {
+      const state = createMockGameState({
+        space: {
+          mainMonsterZone: [createMonsterOnField("main-0"), createMonsterOnField("main-1", { position: "faceDown" })],
+          extraMonsterZone: [createMonsterOnField("extra-0", { location: "extraMonsterZone" })],
+        },
+      });
       const step = buildStep("RELEASE", {}, createStepBuildContext());
-      const config = step.cardSelectionConfig!(createMockGameState());
+      const config = step.cardSelectionConfig!(state);
+
+      expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["main-0", "extra-0"]);
+    });
 
-      expect(config?._sourceZone).toBe("mainMonsterZone");
+    it("エクストラモンスターゾーンのモンスターをリリースできる", () => {
+      const state = createMockGameState({
+        space: { extraMonsterZone: [createMonsterOnField("extra-0", { location: "extraMonsterZone" })] },
+      });
+      const step = buildStep("RELEASE", {}, createStepBuildContext());
+
+      const result = step.action(state, ["extra-0"]);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState.space.extraMonsterZone).toEqual([]);
+      expect(result.updatedState.space.graveyard.map((card) => card.instanceId)).toEqual(["extra-0"]);
     });
 
     it("minCards と maxCards が count に設定される", () => {
@@ -224,8 +249,16 @@ describe("selectAndReleaseStep", () => {
         emittedEvents: events,
       }),
     });
+    const state = createMockGameState({
+      space: {
+        mainMonsterZone: [
+          createMonsterOnField("strong", { attack: 1500 }),
+          createMonsterOnField("weak", { attack: 500 }),
+        ],
+      },
+    });
 
-    expect(step.cardSelectionConfig!(createMockGameState())?._filter).toBeDefined();
+    expect(step.cardSelectionConfig!(state)?.availableCards?.map((card) => card.instanceId)).toEqual(["strong"]);
   });
 
   it("カスタムサマリーを設定できる", () => {
@@ -243,3 +276,108 @@ describe("selectAndReleaseStep", () => {
     expect(step.summary).toBe("カスタムサマリー");
   });
 });
+
+// =============================================================================
+// レベル合計によるリリースのテスト
+// =============================================================================
+
+describe("isValidLevelSumSelection", () => {
+  const monsters = (...levels: number[]) =>
+    levels.map((level, index) => createMonsterInstance(`monster-${index}`, { level }));
+
+  it("equal の場合、レベルの合計が等しい組み合わせのみ満たす", () => {
+    expect(isValidLevelSumSelection(monsters(4, 2), 6, "equal")).toBe(true);
+    expect(isValidLevelSumSelection(monsters(4, 4), 6, "equal")).toBe(false);
+    expect(isValidLevelSumSelection(monsters(4), 6, "equal")).toBe(false);
+  });
+
+  it("atLeast の場合、レベルの合計が以上の組み合わせを満たす", () => {
+    expect(isValidLevelSumSelection(monsters(4, 4), 6, "atLeast")).toBe(true);
+    expect(isValidLevelSumSelection(monsters(8), 6, "atLeast")).toBe(true);
+    expect(isValidLevelSumSelection(monsters(4, 1), 6, "atLeast")).toBe(false);
+  });
+
+  it("atLeast の場合も、除いても合計が足りる不要なモンスターは含められない", () => {
+    expect(isValidLevelSumSelection(monsters(8, 1), 6, "atLeast")).toBe(false);
+    expect(isValidLevelSumSelection(monsters(4, 4, 4), 8, "atLeast")).toBe(false);
+  });
+
+  it("空の選択は満たさない", () => {
+    expect(isValidLevelSumSelection([], 6, "atLeast")).toBe(false);
+  });
+});
+
+describe("hasLevelSumSelection", () => {
+  const monsters = (...levels: number[]) =>
+    levels.map((level, index) => createMonsterInstance(`monster-${index}`, { level }));
+
+  it("条件を満たす組み合わせがあるかを判定する", () => {
+    expect(hasLevelSumSelection(monsters(3, 4, 2), 6, "equal")).toBe(true);
+    expect(hasLevelSumSelection(monsters(4, 4), 6, "equal")).toBe(false);
+    expect(hasLevelSumSelection(monsters(4, 4), 6, "atLeast")).toBe(true);
+  });
+
+  it("追加判定を満たす組み合わせのみ採用する", () => {
+    const candidates = monsters(6, 2, 4);
+
+    const found = hasLevelSumSelection(candidates, 6, "equal", (selected) => selected.length === 2);
+
+    expect(found).toBe(true);
+    expect(hasLevelSumSelection(candidates, 6, "equal", (selected) => selected.length === 3)).toBe(false);
+  });
+});
+
+describe("selectAndReleaseByLevelStep", () => {
+  const createStep = (hand: ReturnType<typeof createMonsterInstance>[]) =>
+    selectAndReleaseByLevelStep({
+      cardId: DUMMY_CARD_IDS.NORMAL_MONSTER,
+      availableCards: hand,
+      levelSum: 6,
+      condition: "equal",
+      onReleased: (state, _releasedCards, events) => ({
+        success: true,
+        updatedState: state,
+        message: "released",
+        emittedEvents: events,
+      }),
+    });
+
+  it("手札のモンスターも候補にでき、レベルの合計が条件を満たす場合のみ確定できる", () => {
+    const hand = [
+      createMonsterInstance("monster-0", { level: 4 }),
+      createMonsterInstance("monster-1", { level: 2 }),
+      createMonsterInstance("monster-2", { level: 3 }),
+    ];
+
+    const config = createStep(hand).cardSelectionConfig!(createSpaceState({ hand }));
+
+    expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["monster-0", "monster-1", "monster-2"]);
+    expect(config).toMatchObject({ minCards: 1, maxCards: 3 });
+    expect(config?.canConfirm?.([hand[0], hand[1]])).toBe(true);
+    expect(config?.canConfirm?.([hand[0], hand[2]])).toBe(false);
+  });
+
+  it("レベルを持たないモンスターは候補に含めない", () => {
+    const hand = [
+      createMonsterInstance("monster-0", { level: 6 }),
+      createMonsterInstance("link-0", { frameType: "link", location: "extraDeck" }),
+    ];
+
+    const config = createStep(hand).cardSelectionConfig!(createSpaceState({ hand: [hand[0]] }));
+
+    expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["monster-0"]);
+  });
+
+  it("選択したモンスターを手札・フィールドから墓地へ送る", () => {
+    const hand = [createMonsterInstance("monster-0", { level: 4 })];
+    const mainMonsterZone = [createMonsterOnField("monster-1", { level: 2 })];
+    const state = createSpaceState({ hand, mainMonsterZone });
+
+    const result = createStep([...hand, ...mainMonsterZone]).action(state, ["monster-0", "monster-1"]);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.hand).toHaveLength(0);
+    expect(result.updatedState.space.mainMonsterZone).toHaveLength(0);
+    expect(result.updatedState.space.graveyard.map((card) => card.instanceId)).toEqual(["monster-0", "monster-1"]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * 儀式召喚系ステップのテスト
+ *
+ * ダミー儀式モンスター（1004）: レベル6
+ */
+
+import { describe, it, expect } from "vitest";
+import type { EffectId } from "$lib/domain/models/Effect";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import { buildStep, AtomicStepRegistry } from "$lib/domain/dsl/steps";
+import {
+  createSpaceState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createStepBuildContext,
+  DUMMY_CARD_IDS,
+} from "../../../../__testUtils__";
+
+// テスト用 EffectId 定数
+const EFFECT_ID_1 = "12345-activation" as EffectId;
+
+const EQUAL_ARGS = { levelCondition: "equal" };
+
+const createRitualReadyState = (): GameSnapshot =>
+  createSpaceState({
+    hand: [createMonsterInstance("ritual-0", { frameType: "ritual" }), createMonsterInstance("hand-0", { level: 4 })],
+    mainMonsterZone: [createMonsterOnField("field-0", { level: 2 })],
+  });
+
+// 儀式モンスターを選択済みの状態
+const withSelectedRitualMonster = (state: GameSnapshot): GameSnapshot => ({
+  ...state,
+  activationContexts: GameState.ActivationContext.setTargets(state.activationContexts, EFFECT_ID_1, ["ritual-0"]),
+});
+
+// =============================================================================
+// SELECT_RITUAL_MONSTER ステップのテスト
+// =============================================================================
+
+describe("StepRegistry - SELECT_RITUAL_MONSTER", () => {
+  it("isRegistered で登録済みであることを確認できる", () => {
+    expect(AtomicStepRegistry.isRegistered("SELECT_RITUAL_MONSTER")).toBe(true);
+  });
+
+  it("effectId がない場合エラー", () => {
+    expect(() => buildStep("SELECT_RITUAL_MONSTER", EQUAL_ARGS, createStepBuildContext())).toThrow();
+  });
+
+  it("levelCondition が不正な場合エラー", () => {
+    expect(() =>
+      buildStep(
+        "SELECT_RITUAL_MONSTER",
+        { levelCondition: "atMost" },
+        createStepBuildContext({ effectId: EFFECT_ID_1 }),
+      ),
+    ).toThrow();
+  });
+
+  it("儀式召喚可能な儀式モンスターを選択肢として表示する", () => {
+    const step = buildStep("SELECT_RITUAL_MONSTER", EQUAL_ARGS, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+
+    const config = step.cardSelectionConfig!(createRitualReadyState());
+
+    expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["ritual-0"]);
+  });
+
+  it("ritualMonsterId を指定した場合は、そのカードのみを選択肢にする", () => {
+    const step = buildStep(
+      "SELECT_RITUAL_MONSTER",
+      { ...EQUAL_ARGS, ritualMonsterId: DUMMY_CARD_IDS.NORMAL_MONSTER },
+      createStepBuildContext({ effectId: EFFECT_ID_1 }),
+    );
+
+    expect(step.cardSelectionConfig!(createRitualReadyState())).toBeNull();
+  });
+
+  it("選択した儀式モンスターをコンテキストに保存する", () => {
+    const step = buildStep("SELECT_RITUAL_MONSTER", EQUAL_ARGS, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+
+    const result = step.action(createRitualReadyState(), ["ritual-0"]);
+
+    expect(result.success).toBe(true);
+    expect(GameState.ActivationContext.getTargets(result.updatedState.activationContexts, EFFECT_ID_1)).toEqual([
+      "ritual-0",
+    ]);
+  });
+});
+
+// =============================================================================
+// RITUAL_SUMMON_FROM_CONTEXT ステップのテスト
+// =============================================================================
+
+describe("StepRegistry - RITUAL_SUMMON_FROM_CONTEXT", () => {
+  it("isRegistered で登録済みであることを確認できる", () => {
+    expect(AtomicStepRegistry.isRegistered("RITUAL_SUMMON_FROM_CONTEXT")).toBe(true);
+  });
+
+  it("コンテキストの儀式モンスターのリリース選択UIを表示する", () => {
+    const step = buildStep("RITUAL_SUMMON_FROM_CONTEXT", EQUAL_ARGS, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+
+    const config = step.cardSelectionConfig!(withSelectedRitualMonster(createRitualReadyState()));
+
+    expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["hand-0", "field-0"]);
+  });
+
+  it("モンスターをリリースして儀式召喚し、コンテキストをクリアする", () => {
+    const step = buildStep("RITUAL_SUMMON_FROM_CONTEXT", EQUAL_ARGS, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+
+    const result = step.action(withSelectedRitualMonster(createRitualReadyState()), ["hand-0", "field-0"]);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["ritual-0"]);
+    expect(result.updatedState.space.graveyard).toHaveLength(2);
+    expect(result.updatedState.activationContexts[EFFECT_ID_1]).toBeUndefined();
+  });
+
+  it("処理時にリリースできるモンスターが揃っていない場合は不発になる", () => {
+    const step = buildStep("RITUAL_SUMMON_FROM_CONTEXT", EQUAL_ARGS, createStepBuildContext({ effectId: EFFECT_ID_1 }));
+    const state = withSelectedRitualMonster({
+      ...createRitualReadyState(),
+      space: { ...createRitualReadyState().space, mainMonsterZone: [] },
+    });
+
+    expect(step.cardSelectionConfig!(state)).toBeNull();
+    const result = step.action(state, []);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.hand.map((card) => card.instanceId)).toEqual(["ritual-0", "hand-0"]);
+    expect(result.updatedState.activationContexts[EFFECT_ID_1]).toBeUndefined();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * サーチ・サルベージ系ステップのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildStep, AtomicStepRegistry } from "$lib/domain/dsl/steps";
+import { createMockGameState, createMonsterInstance, createStepBuildContext } from "../../../../__testUtils__";
+
+// =============================================================================
+// SEARCH_BY_FILTER ステップのテスト
+// =============================================================================
+
+describe("StepRegistry - SEARCH_BY_FILTER", () => {
+  const lowAttackFilter = { type: "monster", attack: { max: 1500 } };
+
+  const createDeckState = () =>
+    createMockGameState({
+      space: {
+        mainDeck: [
+          createMonsterInstance("deck-strong", { location: "mainDeck", attack: 2500 }),
+          createMonsterInstance("deck-weak", { location: "mainDeck", attack: 1000 }),
+        ],
+        graveyard: [createMonsterInstance("graveyard-weak", { location: "graveyard", attack: 500 })],
+      },
+    });
+
+  describe("ステップ生成", () => {
+    it("フィルター式の説明文から summary を生成する", () => {
+      const step = buildStep("SEARCH_BY_FILTER", { filter: lowAttackFilter, count: 1 }, createStepBuildContext());
+
+      expect(step.id).toContain("search-by-filter-from-mainDeck");
+      expect(step.summary).toBe("攻撃力1500以下のモンスター1枚をサーチ");
+    });
+
+    it("墓地を指定した場合はサルベージになる", () => {
+      const step = buildStep(
+        "SEARCH_BY_FILTER",
+        { filter: lowAttackFilter, count: 1, zone: "graveyard" },
+        createStepBuildContext(),
+      );
+
+      expect(step.summary).toBe("攻撃力1500以下のモンスター1枚をサルベージ");
+      expect(step.description).toContain("墓地から");
+    });
+
+    it("zone がデッキ・墓地以外の場合エラー", () => {
+      expect(() => {
+        buildStep("SEARCH_BY_FILTER", { filter: lowAttackFilter, count: 1, zone: "hand" }, createStepBuildContext());
+      }).toThrow("Argument 'zone' must be");
+    });
+
+    it("isRegistered で登録済みであることを確認できる", () => {
+      expect(AtomicStepRegistry.isRegistered("SEARCH_BY_FILTER")).toBe(true);
+    });
+  });
+
+  describe("cardSelectionConfig プロパティ", () => {
+    it("_filter がフィルター式に合うカードのみを候補にする", () => {
+      const state = createDeckState();
+      const step = buildStep("SEARCH_BY_FILTER", { filter: lowAttackFilter, count: 1 }, createStepBuildContext());
+      const config = step.cardSelectionConfig!(state);
+
+      expect(config?._sourceZone).toBe("mainDeck");
+      expect(state.space.mainDeck.filter((card) => config!._filter!(card)).map((card) => card.instanceId)).toEqual([
+        "deck-weak",
+      ]);
+    });
+  });
+
+  describe("action実行", () => {
+    it("選択したカードをデッキから手札に加える", () => {
+      const step = buildStep("SEARCH_BY_FILTER", { filter: lowAttackFilter, count: 1 }, createStepBuildContext());
+
+      const result = step.action(createDeckState(), ["deck-weak"]);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState.space.hand.map((card) => card.instanceId)).toEqual(["deck-weak"]);
+      expect(result.updatedState.space.mainDeck).toHaveLength(1);
+    });
+
+    it("選択したカードを墓地から手札に加える", () => {
+      const step = buildStep(
+        "SEARCH_BY_FILTER",
+        { filter: lowAttackFilter, count: 1, zone: "graveyard" },
+        createStepBuildContext(),
+      );
+
+      const result = step.action(createDeckState(), ["graveyard-weak"]);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState.space.hand.map((card) => card.instanceId)).toEqual(["graveyard-weak"]);
+      expect(result.updatedState.space.graveyard).toHaveLength(0);
+    });
+
+    it("フィルター式に合うカードがない場合エラー", () => {
+      const step = buildStep(
+        "SEARCH_BY_FILTER",
+        { filter: { nameIncludes: "存在しないカード" }, count: 1 },
+        createStepBuildContext(),
+      );
+
+      const result = step.action(createDeckState(), ["deck-weak"]);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("No cards available in mainDeck");
+    });
+  });
+});
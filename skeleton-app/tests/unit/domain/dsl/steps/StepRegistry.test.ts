@@ -3,8 +3,8 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { buildStep, AtomicStepRegistry } from "$lib/domain/dsl/steps";
-import { createStepBuildContext } from "../../../../__testUtils__";
+import { buildStep, AtomicStepRegistry, EndPhaseEffectRegistry } from "$lib/domain/dsl/steps";
+import { createStepBuildContext, createSpaceState } from "../../../../__testUtils__";
 
 // =============================================================================
 // 登録済みステップのテスト
@@ -113,3 +113,24 @@ describe("StepRegistry - ユーティリティ", () => {
     expect(AtomicStepRegistry.isRegistered("UNKNOWN")).toBe(false);
   });
 });
+
+// =============================================================================
+// エンドフェイズ効果レジストリのテスト
+// =============================================================================
+
+describe("EndPhaseEffectRegistry", () => {
+  it("DISCARD_ALL_HAND_END_PHASE で保留される効果IDからステップを生成できる", () => {
+    const queueStep = buildStep("DISCARD_ALL_HAND_END_PHASE", {}, createStepBuildContext());
+    const queuedState = queueStep.action(createSpaceState()).updatedState;
+    const [queuedId] = queuedState.queuedEndPhaseEffectIds;
+
+    expect(EndPhaseEffectRegistry.isRegistered(queuedId)).toBe(true);
+    expect(EndPhaseEffectRegistry.build(queuedId).id).toBe(queuedId);
+  });
+
+  it("未登録の効果IDでエラーをスローする", () => {
+    expect(() => EndPhaseEffectRegistry.build("unknown-end-phase-effect")).toThrow(
+      'Unknown end phase effect "unknown-end-phase-effect"',
+    );
+  });
+});
@@ -111,15 +111,25 @@ describe("StepRegistry - SELECT_TARGET_FROM_FIELD_BY_RACE", () => {
   });
 
   describe("cardSelectionConfig プロパティ", () => {
-    it("_sourceZone が mainMonsterZone に設定される", () => {
+    it("メイン・エクストラモンスターゾーンの指定種族の表側表示モンスターを候補にする", () => {
+      const state = createMockGameState({
+        space: {
+          mainMonsterZone: [
+            createMonsterOnField("main-0", { race: "Spellcaster" }),
+            createMonsterOnField("main-1", { race: "Warrior" }),
+            createMonsterOnField("main-2", { race: "Spellcaster", position: "faceDown" }),
+          ],
+          extraMonsterZone: [createMonsterOnField("extra-0", { location: "extraMonsterZone", race: "Spellcaster" })],
+        },
+      });
       const step = buildStep(
         "SELECT_TARGET_FROM_FIELD_BY_RACE",
         { race: "Spellcaster" },
         createStepBuildContext({ effectId: EFFECT_ID_1 }),
       );
-      const config = step.cardSelectionConfig!(createMockGameState());
+      const config = step.cardSelectionConfig!(state);
 
-      expect(config?._sourceZone).toBe("mainMonsterZone");
+      expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["main-0", "extra-0"]);
     });
 
     it("minCards と maxCards が 1 に設定される", () => {
@@ -133,29 +143,6 @@ describe("StepRegistry - SELECT_TARGET_FROM_FIELD_BY_RACE", () => {
       expect(config?.minCards).toBe(1);
       expect(config?.maxCards).toBe(1);
     });
-
-    it("_filter が種族でフィルタリングする", () => {
-      const step = buildStep(
-        "SELECT_TARGET_FROM_FIELD_BY_RACE",
-        { race: "Spellcaster" },
-        createStepBuildContext({ effectId: EFFECT_ID_1 }),
-      );
-      const config = step.cardSelectionConfig!(createMockGameState());
-      const filter = config?._filter;
-      expect(filter).toBeDefined();
-
-      // Spellcaster モンスター（表側表示）は通過
-      const spellcaster = createMonsterOnField("test-1", { race: "Spellcaster" });
-      expect(filter!(spellcaster)).toBe(true);
-
-      // 異なる種族は除外
-      const warrior = createMonsterOnField("test-2", { race: "Warrior" });
-      expect(filter!(warrior)).toBe(false);
-
-      // 裏側表示は除外
-      const faceDown = createMonsterOnField("test-3", { race: "Spellcaster", position: "faceDown" });
-      expect(filter!(faceDown)).toBe(false);
-    });
   });
 });
 
@@ -258,6 +245,103 @@ describe("StepRegistry - SELECT_TARGETS_FROM_GRAVEYARD", () => {
   });
 });
 
+// =============================================================================
+// SELECT_TARGETS_BY_FILTER ステップのテスト
+// =============================================================================
+
+describe("StepRegistry - SELECT_TARGETS_BY_FILTER", () => {
+  const spellcasterFilter = { type: "monster", race: "Spellcaster", faceUp: true };
+
+  describe("ステップ生成", () => {
+    it("フィルター式の説明文から summary を生成する", () => {
+      const step = buildStep(
+        "SELECT_TARGETS_BY_FILTER",
+        { zone: "monsterZone", filter: spellcasterFilter },
+        createStepBuildContext({ effectId: EFFECT_ID_1 }),
+      );
+
+      expect(step.id).toContain("select-targets-by-filter-from-monsterZone");
+      expect(step.summary).toBe("表側表示のSpellcasterモンスター1枚を対象に取る");
+    });
+
+    it("effectId がない場合エラー", () => {
+      expect(() => {
+        buildStep("SELECT_TARGETS_BY_FILTER", { zone: "monsterZone", filter: {} }, createStepBuildContext());
+      }).toThrow("SELECT_TARGETS_BY_FILTER step requires effectId in context");
+    });
+
+    it("filter が不正な場合エラー", () => {
+      expect(() => {
+        buildStep(
+          "SELECT_TARGETS_BY_FILTER",
+          { zone: "monsterZone", filter: { race: 1 } },
+          createStepBuildContext({ effectId: EFFECT_ID_1 }),
+        );
+      }).toThrow("Argument 'filter' must be a card filter expression");
+    });
+  });
+
+  describe("cardSelectionConfig プロパティ", () => {
+    it("メイン・エクストラモンスターゾーンからフィルター式に合うモンスターを候補にする", () => {
+      const state = createMockGameState({
+        space: {
+          mainMonsterZone: [
+            createMonsterOnField("main-spellcaster", { race: "Spellcaster" }),
+            createMonsterOnField("main-dragon", { race: "Dragon" }),
+            createMonsterOnField("main-face-down", { race: "Spellcaster", position: "faceDown" }),
+          ],
+          extraMonsterZone: [
+            createMonsterOnField("extra-spellcaster", { race: "Spellcaster", location: "extraMonsterZone" }),
+          ],
+        },
+      });
+      const step = buildStep(
+        "SELECT_TARGETS_BY_FILTER",
+        { zone: "monsterZone", filter: spellcasterFilter },
+        createStepBuildContext({ effectId: EFFECT_ID_1 }),
+      );
+
+      const config = step.cardSelectionConfig!(state);
+
+      expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["main-spellcaster", "extra-spellcaster"]);
+      expect(config?.minCards).toBe(1);
+      expect(config?.maxCards).toBe(1);
+    });
+  });
+
+  describe("action実行", () => {
+    it("選択したカードを対象としてコンテキストに保存できる", () => {
+      const state = createMockGameState({
+        space: { graveyard: [createMonsterInstance("graveyard-0", { location: "graveyard" })] },
+        activationContexts: { [EFFECT_ID_1]: { targets: [] } },
+      });
+      const step = buildStep(
+        "SELECT_TARGETS_BY_FILTER",
+        { zone: "graveyard", filter: { type: "monster" } },
+        createStepBuildContext({ effectId: EFFECT_ID_1 }),
+      );
+
+      const result = step.action(state, ["graveyard-0"]);
+
+      expect(result.success).toBe(true);
+      expect(result.updatedState.activationContexts[EFFECT_ID_1]?.targets).toEqual(["graveyard-0"]);
+    });
+
+    it("対象が選択されていない場合エラー", () => {
+      const step = buildStep(
+        "SELECT_TARGETS_BY_FILTER",
+        { zone: "graveyard", filter: { type: "monster" } },
+        createStepBuildContext({ effectId: EFFECT_ID_1 }),
+      );
+
+      const result = step.action(createMockGameState(), []);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("No targets selected");
+    });
+  });
+});
+
 // =============================================================================
 // 直接関数呼び出しのテスト
 // =============================================================================
@@ -129,14 +129,33 @@ describe("StepRegistry - CREATE_TOKEN_MONSTER", () => {
       );
 
       const result1 = step.action(state);
-      const result2 = step.action(state);
+      const result2 = step.action(result1.updatedState);
 
-      const token1 = result1.updatedState.space.mainMonsterZone[0];
-      const token2 = result2.updatedState.space.mainMonsterZone[0];
+      const [token1, token2] = result2.updatedState.space.mainMonsterZone;
 
       expect(token1.instanceId).not.toBe(token2.instanceId);
     });
 
+    it("同じ乱数状態からは同じinstanceIdが生成される（リプレイ再現性）", () => {
+      const state = createSpaceState({
+        mainMonsterZone: [],
+      });
+
+      const step = buildStep(
+        "CREATE_TOKEN_MONSTER",
+        { tokenCardId: DUMMY_CARD_IDS.BASIC_TOKEN },
+        createStepBuildContext(),
+      );
+
+      const result1 = step.action(state);
+      const result2 = step.action(state);
+
+      expect(result1.updatedState.space.mainMonsterZone[0].instanceId).toBe(
+        result2.updatedState.space.mainMonsterZone[0].instanceId,
+      );
+      expect(result1.updatedState.rng.state).not.toBe(state.rng.state);
+    });
+
     it("モンスターゾーンが満杯の場合エラー", () => {
       const state = createFilledSpaceState({ monsterZoneCount: 5 });
 
@@ -0,0 +1,93 @@
+/**
+ * エクシーズ素材関連ステップのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildStep, AtomicStepRegistry } from "$lib/domain/dsl/steps";
+import {
+  createSpaceState,
+  createMonsterOnField,
+  createXyzMaterial,
+  createStepBuildContext,
+  DUMMY_CARD_IDS,
+} from "../../../../__testUtils__";
+
+// 素材を持つエクシーズモンスターがいる状態
+const createStateWithMaterials = (count: number) =>
+  createSpaceState({
+    mainMonsterZone: [
+      createMonsterOnField("xyz-0", {
+        cardId: DUMMY_CARD_IDS.XYZ_MONSTER,
+        xyzMaterials: Array.from({ length: count }, (_, index) => createXyzMaterial(`material-${index}`, { level: 4 })),
+      }),
+    ],
+  });
+
+const buildDetachStep = (count: number) =>
+  buildStep("DETACH_MATERIAL", { count }, createStepBuildContext({ sourceInstanceId: "xyz-0" }));
+
+// =============================================================================
+// DETACH_MATERIAL ステップのテスト
+// =============================================================================
+
+describe("StepRegistry - DETACH_MATERIAL", () => {
+  it("DETACH_MATERIAL ステップを生成できる", () => {
+    const step = buildDetachStep(1);
+
+    expect(step.id).toBe("detach-material-1-xyz-0");
+    expect(step.summary).toContain("エクシーズ素材");
+  });
+
+  it("DETACH_MATERIAL ステップで count が無い場合エラー", () => {
+    expect(() => {
+      buildStep("DETACH_MATERIAL", {}, createStepBuildContext());
+    }).toThrow("Argument 'count' must be a positive integer");
+  });
+
+  it("isRegistered で DETACH_MATERIAL が登録済みであることを確認できる", () => {
+    expect(AtomicStepRegistry.isRegistered("DETACH_MATERIAL")).toBe(true);
+  });
+
+  it("素材が取り除く数より多い場合は取り除く素材を選択させる", () => {
+    const state = createStateWithMaterials(2);
+
+    const config = buildDetachStep(1).cardSelectionConfig?.(state);
+
+    expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["material-0", "material-1"]);
+    expect(config).toMatchObject({ minCards: 1, maxCards: 1, cancelable: false });
+  });
+
+  it("素材が取り除く数ちょうどの場合は選択なしで全て取り除く", () => {
+    const state = createStateWithMaterials(1);
+    const step = buildDetachStep(1);
+
+    expect(step.cardSelectionConfig?.(state)).toBeNull();
+
+    const result = step.action(state);
+
+    expect(result.success).toBe(true);
+    expect(result.updatedState.space.mainMonsterZone[0].stateOnField?.xyzMaterials).toEqual([]);
+    expect(result.updatedState.space.graveyard.map((card) => card.instanceId)).toEqual(["material-0"]);
+  });
+
+  it("選択した素材を墓地へ送り、sentToGraveyard イベントを発行する", () => {
+    const state = createStateWithMaterials(2);
+
+    const result = buildDetachStep(1).action(state, ["material-1"]);
+
+    expect(result.success).toBe(true);
+    const xyzMonster = result.updatedState.space.mainMonsterZone[0];
+    expect(xyzMonster.stateOnField?.xyzMaterials?.map((card) => card.instanceId)).toEqual(["material-0"]);
+    expect(result.updatedState.space.graveyard).toMatchObject([{ instanceId: "material-1", location: "graveyard" }]);
+    expect(result.emittedEvents?.map((event) => event.type)).toEqual(["sentToGraveyard", "monsterSentToGraveyard"]);
+  });
+
+  it("素材が不足している場合は失敗する", () => {
+    const state = createStateWithMaterials(1);
+
+    const result = buildDetachStep(2).action(state);
+
+    expect(result.success).toBe(false);
+    expect(result.updatedState).toBe(state);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * 罠カード発動の抽象クラスのテスト
+ *
+ * 各サブタイプの効果無しインスタンス（カード固有の処理を持たない DSL 定義）により動作検証する。
+ */
+
+import { describe, it, expect } from "vitest";
+import { NormalTrapActivation } from "$lib/domain/effects/actions/activations/NormalTrapActivation";
+import { ContinuousTrapActivation } from "$lib/domain/effects/actions/activations/ContinuousTrapActivation";
+import { GenericNormalTrapActivation, GenericCounterTrapActivation } from "$lib/domain/dsl/factories";
+import { createPhaseState, DUMMY_CARD_IDS, createTrapInstance, createTrapOnField } from "../../../../__testUtils__";
+
+// =============================================================================
+// テストヘルパー
+// =============================================================================
+
+const normalTrapActivation = new GenericNormalTrapActivation(DUMMY_CARD_IDS.NORMAL_TRAP, {});
+const continuousTrapActivation = ContinuousTrapActivation.createNoOp(DUMMY_CARD_IDS.CONTINUOUS_TRAP);
+const counterTrapActivation = new GenericCounterTrapActivation(DUMMY_CARD_IDS.COUNTER_TRAP, {});
+
+// 前のターンにセットした通常罠
+const setTrap = () => createTrapOnField("trap-1", { position: "faceDown", placedThisTurn: false });
+
+// =============================================================================
+// 発動条件テスト（罠カード共通）
+// =============================================================================
+
+describe("BaseTrapActivation - 罠カード共通の発動条件", () => {
+  it("前のターンにセットした罠は発動可能", () => {
+    const result = normalTrapActivation.canActivate(createPhaseState("main1"), setTrap());
+
+    expect(result.isValid).toBe(true);
+  });
+
+  it("フェーズ制限なし：ドローフェイズ・エンドフェイズでも発動可能", () => {
+    expect(normalTrapActivation.canActivate(createPhaseState("draw"), setTrap()).isValid).toBe(true);
+    expect(normalTrapActivation.canActivate(createPhaseState("end"), setTrap()).isValid).toBe(true);
+  });
+
+  it("セットしたターンは発動不可", () => {
+    const instance = createTrapOnField("trap-1", { position: "faceDown", placedThisTurn: true });
+
+    const result = normalTrapActivation.canActivate(createPhaseState("main1"), instance);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errorCode).toBe("TRAP_SET_THIS_TURN");
+  });
+
+  it("手札からは発動不可", () => {
+    const instance = createTrapInstance("trap-1");
+
+    const result = normalTrapActivation.canActivate(createPhaseState("main1"), instance);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errorCode).toBe("TRAP_NOT_SET");
+  });
+
+  it("表側表示の罠は発動不可", () => {
+    const instance = createTrapOnField("trap-1", { position: "faceUp", placedThisTurn: false });
+
+    const result = normalTrapActivation.canActivate(createPhaseState("main1"), instance);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errorCode).toBe("TRAP_NOT_SET");
+  });
+});
+
+// =============================================================================
+// サブタイプ別テスト
+// =============================================================================
+
+describe("罠カードサブタイプ別のスペルスピードと解決後処理", () => {
+  const state = createPhaseState("main1");
+
+  it("通常罠: スペルスピード2、解決後に墓地へ送られる", () => {
+    const steps = normalTrapActivation.createResolutionSteps(state, setTrap());
+
+    expect(normalTrapActivation).toBeInstanceOf(NormalTrapActivation);
+    expect(normalTrapActivation.spellSpeed).toBe(2);
+    expect(steps).toHaveLength(1);
+    expect(steps[0].id).toBe("send-trap-1-to-graveyard");
+  });
+
+  it("永続罠: スペルスピード2、解決後もフィールドに残る", () => {
+    const instance = createTrapOnField("trap-2", { trapType: "continuous", position: "faceDown" });
+
+    expect(continuousTrapActivation.spellSpeed).toBe(2);
+    expect(continuousTrapActivation.createResolutionSteps(state, instance)).toHaveLength(0);
+  });
+
+  it("カウンター罠: スペルスピード3、解決後に墓地へ送られる", () => {
+    const instance = createTrapOnField("trap-3", { trapType: "counter", position: "faceDown" });
+
+    expect(counterTrapActivation.spellSpeed).toBe(3);
+    expect(counterTrapActivation.createResolutionSteps(state, instance)).toHaveLength(1);
+  });
+
+  it("発動時は発動通知のみ（spellActivated イベントは発行しない）", () => {
+    const steps = normalTrapActivation.createActivationSteps(state, setTrap());
+
+    expect(steps).toHaveLength(1);
+    expect(steps[0].id).toBe(`${DUMMY_CARD_IDS.NORMAL_TRAP}-activation-notification`);
+  });
+});
@@ -112,6 +112,16 @@ describe("EquipSpellActivation - subTypeConditions", () => {
     expect(result.errorCode).toBe("NO_VALID_TARGET");
   });
 
+  it("エクストラモンスターゾーンのモンスターのみの場合も発動可能", () => {
+    const state = createSpaceState({
+      extraMonsterZone: [createMonsterOnField("extra-monster", { location: "extraMonsterZone" })],
+    });
+
+    const result = equipSpellActivation.canActivate(state, sourceInstance);
+
+    expect(result.isValid).toBe(true);
+  });
+
   it("フィールドに複数モンスターがいても発動可能", () => {
     const state = createSpaceState({
       ...createFilledMonsterZone(3),
@@ -135,6 +145,23 @@ describe("EquipSpellActivation - ステップ生成", () => {
     expect(steps.some((s) => s.id.includes("select-equip-target"))).toBe(true);
   });
 
+  it("対象選択の候補にエクストラモンスターゾーンのモンスターを含む", () => {
+    const state: GameSnapshot = {
+      ...createSpaceState({
+        mainMonsterZone: [createMonsterOnField("main-monster")],
+        extraMonsterZone: [createMonsterOnField("extra-monster", { location: "extraMonsterZone" })],
+      }),
+      phase: "main1",
+    };
+    const steps = equipSpellActivation.createActivationSteps(state, sourceInstance);
+    const selectStep = steps.find((s) => s.id.includes("select-equip-target"))!;
+
+    expect(selectStep.cardSelectionConfig!(state)?.availableCards?.map((card) => card.instanceId)).toEqual([
+      "main-monster",
+      "extra-monster",
+    ]);
+  });
+
   it("createResolutionSteps で装備関係確立ステップを生成する", () => {
     const steps = equipSpellActivation.createResolutionSteps(stateHasMonsterOnField(), sourceInstance);
 
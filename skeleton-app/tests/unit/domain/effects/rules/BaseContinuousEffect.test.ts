@@ -168,6 +168,7 @@ describe("BaseContinuousEffect", () => {
       const effect = new TestContinuousEffect(DUMMY_CARD_IDS.EFFECT_MONSTER, true);
       const state = createSpaceState({
         mainMonsterZone: [],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
       });
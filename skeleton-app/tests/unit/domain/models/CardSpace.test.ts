@@ -6,9 +6,12 @@ import { describe, it, expect } from "vitest";
 import type { CardSpace } from "$lib/domain/models/GameState";
 import { GameState } from "$lib/domain/models/GameState";
 import {
+  createSpaceState,
   createSpellInstance,
+  createMonsterInstance,
   createMonsterOnField,
   createSpellOnField,
+  createXyzMaterial,
   createFilledMainDeck,
   createHand,
   createFilledMonsterZone,
@@ -24,6 +27,7 @@ describe("CardSpace", () => {
         extraDeck: [],
         hand: [],
         ...createFilledMonsterZone(1),
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -46,6 +50,7 @@ describe("CardSpace", () => {
         extraDeck: [],
         ...createHand([DUMMY_CARD_IDS.NORMAL_MONSTER]),
         mainMonsterZone: [],
+        extraMonsterZone: [],
         spellTrapZone: [],
         fieldZone: [],
         graveyard: [],
@@ -70,6 +75,7 @@ describe("CardSpace", () => {
         extraDeck: [],
         hand: [createSpellInstance("hand-0", { spellType: "equip" })],
         mainMonsterZone: [monsterCard],
+        extraMonsterZone: [],
         spellTrapZone: [spellCard],
         fieldZone: [],
         graveyard: [],
@@ -88,5 +94,193 @@ describe("CardSpace", () => {
       expect(result.graveyard.length).toBe(1);
       expect(result.graveyard[0].instanceId).toBe(card.instanceId);
     });
+
+    it("エクシーズモンスターがフィールドを離れる場合、エクシーズ素材も墓地へ送られる", () => {
+      const material = createXyzMaterial("material-0", { level: 4 });
+      const space: CardSpace = {
+        mainDeck: [],
+        extraDeck: [],
+        hand: [],
+        mainMonsterZone: [
+          createMonsterOnField("xyz-0", { cardId: DUMMY_CARD_IDS.XYZ_MONSTER, xyzMaterials: [material] }),
+        ],
+        extraMonsterZone: [],
+        spellTrapZone: [],
+        fieldZone: [],
+        graveyard: [],
+        banished: [],
+      };
+
+      const result = GameState.Space.moveCard(space, space.mainMonsterZone[0], "banished");
+
+      expect(result.banished.map((card) => card.instanceId)).toEqual(["xyz-0"]);
+      expect(result.banished[0].stateOnField).toBeUndefined();
+      expect(result.graveyard).toMatchObject([{ instanceId: "material-0", location: "graveyard" }]);
+    });
+  });
+
+  describe("xyzMaterials", () => {
+    const createXyzSpace = (): CardSpace => ({
+      mainDeck: [],
+      extraDeck: [],
+      hand: [],
+      mainMonsterZone: [
+        createMonsterOnField("xyz-0", { cardId: DUMMY_CARD_IDS.XYZ_MONSTER }),
+        createMonsterOnField("material-0", { level: 4, slotIndex: 1 }),
+        createMonsterOnField("material-1", { level: 4, slotIndex: 2 }),
+      ],
+      extraMonsterZone: [],
+      spellTrapZone: [],
+      fieldZone: [],
+      graveyard: [],
+      banished: [],
+    });
+
+    it("takeXyzMaterialsFromField で素材をゾーンから取り除き、フィールド状態を持たないカードとして返す", () => {
+      const { space, materials } = GameState.Space.takeXyzMaterialsFromField(createXyzSpace(), [
+        "material-0",
+        "material-1",
+      ]);
+
+      expect(space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["xyz-0"]);
+      expect(space.graveyard).toHaveLength(0);
+      expect(materials.map((card) => card.instanceId)).toEqual(["material-0", "material-1"]);
+      expect(materials.every((card) => card.stateOnField === undefined)).toBe(true);
+      expect(materials.every((card) => card.location === "xyzMaterial")).toBe(true);
+    });
+
+    it("attachXyzMaterials で既存の素材の後ろに素材を重ねる", () => {
+      const { space, materials } = GameState.Space.takeXyzMaterialsFromField(createXyzSpace(), ["material-0"]);
+      const attached = GameState.Space.attachXyzMaterials(space, "xyz-0", materials);
+      const { space: nextSpace, materials: moreMaterials } = GameState.Space.takeXyzMaterialsFromField(attached, [
+        "material-1",
+      ]);
+
+      const result = GameState.Space.attachXyzMaterials(nextSpace, "xyz-0", moreMaterials);
+
+      expect(result.mainMonsterZone[0].stateOnField?.xyzMaterials?.map((card) => card.instanceId)).toEqual([
+        "material-0",
+        "material-1",
+      ]);
+    });
+
+    it("detachXyzMaterials で指定した素材だけを墓地へ送る", () => {
+      const { space, materials } = GameState.Space.takeXyzMaterialsFromField(createXyzSpace(), [
+        "material-0",
+        "material-1",
+      ]);
+      const attached = GameState.Space.attachXyzMaterials(space, "xyz-0", materials);
+
+      const result = GameState.Space.detachXyzMaterials(attached, "xyz-0", ["material-0"]);
+
+      expect(result.mainMonsterZone[0].stateOnField?.xyzMaterials?.map((card) => card.instanceId)).toEqual([
+        "material-1",
+      ]);
+      expect(result.graveyard).toMatchObject([{ instanceId: "material-0", location: "graveyard" }]);
+    });
+
+    it("エクストラモンスターゾーンのエクシーズモンスターにも素材を重ね、取り除ける", () => {
+      const base = createXyzSpace();
+      const space: CardSpace = {
+        ...base,
+        mainMonsterZone: base.mainMonsterZone.filter((card) => card.instanceId !== "xyz-0"),
+        extraMonsterZone: [
+          createMonsterOnField("xyz-0", { cardId: DUMMY_CARD_IDS.XYZ_MONSTER, location: "extraMonsterZone" }),
+        ],
+      };
+      const { space: removedSpace, materials } = GameState.Space.takeXyzMaterialsFromField(space, [
+        "material-0",
+        "material-1",
+      ]);
+
+      const attached = GameState.Space.attachXyzMaterials(removedSpace, "xyz-0", materials);
+      const result = GameState.Space.detachXyzMaterials(attached, "xyz-0", ["material-1"]);
+
+      expect(result.extraMonsterZone[0].stateOnField?.xyzMaterials).toMatchObject([
+        { instanceId: "material-0", location: "xyzMaterial" },
+      ]);
+      expect(result.graveyard).toMatchObject([{ instanceId: "material-1", location: "graveyard" }]);
+    });
+
+    it("エクストラモンスターゾーンのモンスターも素材にできる", () => {
+      const space: CardSpace = {
+        ...createXyzSpace(),
+        extraMonsterZone: [
+          createMonsterOnField("material-2", { cardId: DUMMY_CARD_IDS.XYZ_MONSTER, location: "extraMonsterZone" }),
+        ],
+      };
+
+      const result = GameState.Space.takeXyzMaterialsFromField(space, ["material-2"]);
+
+      expect(result.space.extraMonsterZone).toEqual([]);
+      expect(result.materials).toMatchObject([{ instanceId: "material-2", location: "xyzMaterial" }]);
+    });
+  });
+
+  describe("link", () => {
+    // リンク2（左下 / 右下）のダミーリンクモンスターをエクストラモンスターゾーンに置く
+    const createLinkOnExtraMonsterZone = (instanceId: string, slotIndex: number) =>
+      createMonsterOnField(instanceId, { frameType: "link", location: "extraMonsterZone", slotIndex });
+
+    it("エクストラモンスターゾーンのリンクモンスターは真下の左右のメインモンスターゾーンを指す", () => {
+      const left = createSpaceState({ extraMonsterZone: [createLinkOnExtraMonsterZone("link-0", 0)] }).space;
+      const right = createSpaceState({ extraMonsterZone: [createLinkOnExtraMonsterZone("link-0", 1)] }).space;
+
+      expect(GameState.Space.linkedMainMonsterZoneSlots(left)).toEqual([0, 2]);
+      expect(GameState.Space.linkedMainMonsterZoneSlots(right)).toEqual([2, 4]);
+    });
+
+    it("メインモンスターゾーンのリンクモンスターは左右のマーカーで隣のスロットを指し、ゾーンの外は無視する", () => {
+      const space = createSpaceState({
+        mainMonsterZone: [
+          createMonsterOnField("link-0", { frameType: "link", linkMarkers: ["left", "right", "top"], slotIndex: 0 }),
+          createMonsterOnField("normal-0", { slotIndex: 2 }),
+        ],
+      }).space;
+
+      expect(GameState.Space.linkedMainMonsterZoneSlots(space)).toEqual([1]);
+    });
+
+    it("エクストラモンスターゾーンが空いていればリンク召喚先はエクストラモンスターゾーン", () => {
+      const space = createSpaceState({ mainMonsterZone: createFilledMonsterZone(5).mainMonsterZone }).space;
+
+      expect(GameState.Space.findLinkSummonSlot(space)).toEqual({ location: "extraMonsterZone", slotIndex: 0 });
+    });
+
+    it("エクストラモンスターゾーンが埋まっていれば、リンク先の空いているメインモンスターゾーンに出す", () => {
+      const space = createSpaceState({
+        extraMonsterZone: [createLinkOnExtraMonsterZone("link-0", 0)],
+        mainMonsterZone: [createMonsterOnField("normal-0", { slotIndex: 0 })],
+      }).space;
+
+      expect(GameState.Space.findLinkSummonSlot(space)).toEqual({ location: "mainMonsterZone", slotIndex: 2 });
+    });
+
+    it("リンク先が全て埋まっていればリンク召喚先はない", () => {
+      const space = createSpaceState({
+        extraMonsterZone: [createLinkOnExtraMonsterZone("link-0", 0)],
+        mainMonsterZone: [
+          createMonsterOnField("normal-0", { slotIndex: 0 }),
+          createMonsterOnField("normal-2", { slotIndex: 2 }),
+        ],
+      }).space;
+
+      expect(GameState.Space.findLinkSummonSlot(space)).toBeUndefined();
+    });
+
+    it("moveCard でスロットを指定してフィールドに出せる（埋まっているスロットはエラー）", () => {
+      const space = createSpaceState({
+        extraDeck: [createMonsterInstance("link-1", { frameType: "link", location: "extraDeck" })],
+        extraMonsterZone: [createLinkOnExtraMonsterZone("link-0", 0)],
+      }).space;
+      const card = space.extraDeck[0];
+
+      const result = GameState.Space.moveCard(space, card, "extraMonsterZone", { position: "faceUp", slotIndex: 1 });
+
+      expect(result.extraMonsterZone[1]).toMatchObject({ instanceId: "link-1", stateOnField: { slotIndex: 1 } });
+      expect(() =>
+        GameState.Space.moveCard(space, card, "extraMonsterZone", { position: "faceUp", slotIndex: 0 }),
+      ).toThrow("already occupied");
+    });
   });
 });
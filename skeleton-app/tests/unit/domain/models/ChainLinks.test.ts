@@ -0,0 +1,65 @@
+/**
+ * ChainLinks（GameState.Chain）のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import type { EffectId } from "$lib/domain/models/Effect";
+import type { ChainBlockParams } from "$lib/domain/models/Chain";
+import { GameState } from "$lib/domain/models/GameState";
+
+const createBlock = (sourceInstanceId: string, overrides: Partial<ChainBlockParams> = {}): ChainBlockParams => ({
+  effectId: `${sourceInstanceId}-effect` as EffectId,
+  sourceInstanceId,
+  sourceCardId: 1001,
+  spellSpeed: 1,
+  resolutionSteps: [],
+  isNegated: false,
+  ...overrides,
+});
+
+describe("GameState.Chain", () => {
+  describe("push", () => {
+    it("積まれた順に1からチェーン番号を振る", () => {
+      const links = GameState.Chain.push(GameState.Chain.push([], createBlock("a")), createBlock("b"));
+
+      expect(links.map((link) => [link.chainNumber, link.sourceInstanceId])).toEqual([
+        [1, "a"],
+        [2, "b"],
+      ]);
+      expect(links[0].negation).toBeUndefined();
+    });
+
+    it("無効化済みのチェーンブロックは効果が無効化されたリンクとして積む", () => {
+      const links = GameState.Chain.push([], createBlock("a", { isNegated: true }));
+
+      expect(links[0].negation).toBe("effect");
+    });
+  });
+
+  describe("last / pop", () => {
+    it("最後に積まれたリンクを取得・除去する", () => {
+      const links = GameState.Chain.push(GameState.Chain.push([], createBlock("a")), createBlock("b"));
+
+      expect(GameState.Chain.last(links)?.sourceInstanceId).toBe("b");
+      expect(GameState.Chain.pop(links).map((link) => link.sourceInstanceId)).toEqual(["a"]);
+      expect(GameState.Chain.last([])).toBeUndefined();
+    });
+  });
+
+  describe("negate / activeLinks", () => {
+    it("指定したチェーン番号のリンクのみを無効にする", () => {
+      const links = GameState.Chain.push(GameState.Chain.push([], createBlock("a")), createBlock("b"));
+
+      const negated = GameState.Chain.negate(links, 1, "activation");
+
+      expect(negated.map((link) => link.negation)).toEqual(["activation", undefined]);
+      expect(GameState.Chain.activeLinks(negated).map((link) => link.sourceInstanceId)).toEqual(["b"]);
+    });
+
+    it("既に無効化されているリンクの無効化の種類は変更しない", () => {
+      const links = GameState.Chain.negate(GameState.Chain.push([], createBlock("a")), 1, "effect");
+
+      expect(GameState.Chain.negate(links, 1, "activation")[0].negation).toBe("effect");
+    });
+  });
+});
@@ -95,6 +95,90 @@ describe("GameSnapshot", () => {
       expect(state.space.mainDeck.length).toBe(0);
       expect(state.result.isGameOver).toBe(false);
     });
+
+    it("同じシードからは同じ初期手札・デッキ順になる", () => {
+      const deckCardIds = Array.from({ length: 20 }, (_, i) =>
+        i % 2 === 0 ? DUMMY_CARD_IDS.NORMAL_SPELL : DUMMY_CARD_IDS.EQUIP_SPELL,
+      );
+
+      const first = GameState.initialize(createTestInitialDeck(deckCardIds), CardDataRegistry.getCard, { seed: 777 });
+      const second = GameState.initialize(createTestInitialDeck(deckCardIds), CardDataRegistry.getCard, { seed: 777 });
+
+      expect(first.space.hand.map((c) => c.instanceId)).toEqual(second.space.hand.map((c) => c.instanceId));
+      expect(first.space.mainDeck.map((c) => c.instanceId)).toEqual(second.space.mainDeck.map((c) => c.instanceId));
+      expect(first.rng).toEqual(second.rng);
+      expect(first.rng.seed).toBe(777);
+    });
+
+    it("後攻を指定した場合は2ターン目から開始し、ドロー分を含めて6枚の手札になる", () => {
+      const deckCardIds = Array.from({ length: 20 }, () => DUMMY_CARD_IDS.NORMAL_SPELL);
+
+      const state = GameState.initialize(createTestInitialDeck(deckCardIds), CardDataRegistry.getCard, {
+        seed: 1,
+        goingSecond: true,
+      });
+
+      expect(state.turn).toBe(2);
+      expect(state.phase).toBe("draw");
+      expect(state.space.hand).toHaveLength(6);
+      expect(state.space.mainDeck).toHaveLength(14);
+    });
+
+    it("シャッフルをスキップした場合は乱数状態を消費しない", () => {
+      const state = GameState.initialize(
+        createTestInitialDeck([DUMMY_CARD_IDS.NORMAL_SPELL]),
+        CardDataRegistry.getCard,
+        {
+          skipShuffle: true,
+          skipInitialDraw: true,
+          seed: 5,
+        },
+      );
+
+      expect(state.rng).toEqual({ seed: 5, state: 5 });
+    });
+  });
+
+  describe("shuffleMainDeck", () => {
+    it("乱数状態を進め、同じ状態からは同じ順序になる", () => {
+      const base = GameState.initialize(
+        createTestInitialDeck(Array.from({ length: 10 }, () => DUMMY_CARD_IDS.NORMAL_SPELL)),
+        CardDataRegistry.getCard,
+        { skipShuffle: true, skipInitialDraw: true, seed: 31 },
+      );
+
+      const first = GameState.shuffleMainDeck(base);
+      const second = GameState.shuffleMainDeck(base);
+
+      expect(first.space.mainDeck.map((c) => c.instanceId)).toEqual(second.space.mainDeck.map((c) => c.instanceId));
+      expect(first.rng.state).not.toBe(base.rng.state);
+      expect(base.space.mainDeck.map((c) => c.instanceId)).toEqual(Array.from({ length: 10 }, (_, i) => `main-${i}`));
+    });
+  });
+
+  describe("drawnCardsState", () => {
+    const createDeckState = (count: number) =>
+      GameState.initialize(
+        createTestInitialDeck(Array.from({ length: count }, () => DUMMY_CARD_IDS.NORMAL_SPELL)),
+        CardDataRegistry.getCard,
+        { skipShuffle: true, skipInitialDraw: true },
+      );
+
+    it("デッキ枚数が足りる場合、指定枚数をドローする", () => {
+      const drawn = GameState.draw(createDeckState(3), 2);
+
+      expect(drawn.space.hand).toHaveLength(2);
+      expect(drawn.space.mainDeck).toHaveLength(1);
+      expect(drawn.deckOutPending).toBeUndefined();
+    });
+
+    it("デッキ枚数が足りない場合、引けるだけ引いてデッキアウトを保留する", () => {
+      const drawn = GameState.draw(createDeckState(1), 2);
+
+      expect(drawn.space.hand).toHaveLength(1);
+      expect(drawn.space.mainDeck).toHaveLength(0);
+      expect(drawn.deckOutPending).toBe(true);
+    });
   });
 
   describe("スプレッド構文による不変性", () => {
@@ -7,7 +7,11 @@ import {
   getPhaseDisplayName,
   validatePhaseTransition,
   isMainPhase,
+  isBattlePhase,
   isEndPhase,
+  getNextPhase,
+  getNextPhaseCandidates,
+  isTurnTransition,
 } from "$lib/domain/models/GameState/Phase";
 
 describe("PhaseRule", () => {
@@ -21,7 +25,12 @@ describe("PhaseRule", () => {
     });
 
     it("メインフェイズの日本語名を返すこと", () => {
-      expect(getPhaseDisplayName("main1")).toBe("メインフェイズ");
+      expect(getPhaseDisplayName("main1")).toBe("メインフェイズ1");
+    });
+
+    it("バトルフェイズ・メインフェイズ2の日本語名を返すこと", () => {
+      expect(getPhaseDisplayName("battle")).toBe("バトルフェイズ");
+      expect(getPhaseDisplayName("main2")).toBe("メインフェイズ2");
     });
 
     it("エンドフェイズの日本語名を返すこと", () => {
@@ -51,6 +60,37 @@ describe("PhaseRule", () => {
     });
   });
 
+  describe("getNextPhaseCandidates", () => {
+    it("先攻1ターン目のメイン1からはエンドのみに遷移できること", () => {
+      expect(getNextPhaseCandidates("main1", 1)).toEqual(["end"]);
+      expect(getNextPhase("main1", 1)).toBe("end");
+    });
+
+    it("2ターン目以降のメイン1からはバトル・エンドに遷移できること", () => {
+      expect(getNextPhaseCandidates("main1", 2)).toEqual(["battle", "end"]);
+      expect(getNextPhase("main1", 2)).toBe("battle");
+    });
+
+    it("バトルからはメイン2・エンドに遷移できること", () => {
+      expect(getNextPhaseCandidates("battle", 2)).toEqual(["main2", "end"]);
+    });
+
+    it("メイン2からはエンドのみに遷移できること", () => {
+      expect(getNextPhaseCandidates("main2", 2)).toEqual(["end"]);
+    });
+
+    it("エンドからは次のターンのドローに遷移できること", () => {
+      expect(getNextPhaseCandidates("end", 1)).toEqual(["draw"]);
+      expect(isTurnTransition("end", "draw")).toBe(true);
+      expect(isTurnTransition("draw", "standby")).toBe(false);
+    });
+
+    it("先攻1ターン目のメイン1 → バトル の遷移は無効であること", () => {
+      expect(validatePhaseTransition("main1", "battle", 1).valid).toBe(false);
+      expect(validatePhaseTransition("main1", "battle", 2).valid).toBe(true);
+    });
+  });
+
   describe("canActivateSpellsInPhase", () => {
     it("メインフェイズでは true を返すこと", () => {
       expect(isMainPhase("main1")).toBe(true);
@@ -67,6 +107,21 @@ describe("PhaseRule", () => {
     it("エンドフェイズでは false を返すこと", () => {
       expect(isMainPhase("end")).toBe(false);
     });
+
+    it("メインフェイズ2では true、バトルフェイズでは false を返すこと", () => {
+      expect(isMainPhase("main2")).toBe(true);
+      expect(isMainPhase("battle")).toBe(false);
+    });
+  });
+
+  describe("isBattlePhase", () => {
+    it("バトルフェイズでは true を返すこと", () => {
+      expect(isBattlePhase("battle")).toBe(true);
+    });
+
+    it("メインフェイズでは false を返すこと", () => {
+      expect(isBattlePhase("main1")).toBe(false);
+    });
   });
 
   describe("isEndPhase", () => {
@@ -0,0 +1,79 @@
+/**
+ * RandomState モデルのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { GameState } from "$lib/domain/models/GameState";
+import { nextRandom } from "$lib/shared/utils/randomUtils";
+
+describe("RandomState", () => {
+  describe("create", () => {
+    it("シードを指定すると seed と state が同じ値で初期化される", () => {
+      const rng = GameState.Random.create(12345);
+
+      expect(rng).toEqual({ seed: 12345, state: 12345 });
+    });
+
+    it("シードは32bit符号なし整数に正規化される", () => {
+      const rng = GameState.Random.create(-1.5);
+
+      expect(Number.isInteger(rng.seed)).toBe(true);
+      expect(rng.seed).toBeGreaterThanOrEqual(0);
+      expect(rng.seed).toBeLessThanOrEqual(0xffffffff);
+    });
+
+    it("シード省略時はランダムなシードで初期化される", () => {
+      const rng = GameState.Random.create();
+
+      expect(rng.state).toBe(rng.seed);
+      expect(rng.seed).toBeLessThanOrEqual(0xffffffff);
+    });
+  });
+
+  describe("nextInt", () => {
+    it("同じ状態からは同じ値が得られる", () => {
+      const rng = GameState.Random.create(42);
+
+      const first = GameState.Random.nextInt(rng, 1, 12);
+      const second = GameState.Random.nextInt(rng, 1, 12);
+
+      expect(first.value).toBe(second.value);
+      expect(first.rng).toEqual(second.rng);
+    });
+
+    it("範囲内の整数を返し、状態を進める", () => {
+      let rng = GameState.Random.create(7);
+
+      for (let i = 0; i < 100; i++) {
+        const result = GameState.Random.nextInt(rng, 1, 6);
+        expect(Number.isInteger(result.value)).toBe(true);
+        expect(result.value).toBeGreaterThanOrEqual(1);
+        expect(result.value).toBeLessThanOrEqual(6);
+        expect(result.rng.state).not.toBe(rng.state);
+        expect(result.rng.seed).toBe(7);
+        rng = result.rng;
+      }
+    });
+  });
+
+  describe("shuffled", () => {
+    it("同じシードからは同じ順序にシャッフルされる", () => {
+      const array = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+      const first = GameState.Random.shuffled(array, GameState.Random.create(2024));
+      const second = GameState.Random.shuffled(array, GameState.Random.create(2024));
+
+      expect(first.shuffled).toEqual(second.shuffled);
+      expect([...first.shuffled].sort((a, b) => a - b)).toEqual(array);
+    });
+
+    it("消費した乱数の分だけ状態が進む", () => {
+      const rng = GameState.Random.create(99);
+      const { rng: nextRng } = GameState.Random.shuffled([1, 2, 3], rng);
+
+      // 要素数3の Fisher-Yates は乱数を2回消費する
+      const expected = nextRandom(nextRandom(rng.state).nextState).nextState;
+      expect(nextRng.state).toBe(expected);
+    });
+  });
+});
@@ -111,6 +111,66 @@ describe("VictoryCondition", () => {
     });
   });
 
+  describe("引き分け", () => {
+    it("双方のLPが同時に0になった場合、引き分けを宣言する", () => {
+      // Arrange
+      const state = createMockGameState({
+        lp: { player: 0, opponent: 0 },
+      });
+
+      // Act
+      const checkedState = checkedVictoryState(state);
+
+      // Assert
+      expect(checkedState.result.isGameOver).toBe(true);
+      expect(checkedState.result.winner).toBe("draw");
+      expect(checkedState.result.reason).toBe("lp0");
+      expect(checkedState.result.message).toContain("引き分け");
+    });
+
+    it("デッキアウトと同時に相手のLPが0になった場合、引き分けを宣言する", () => {
+      // Arrange
+      const state = createMockGameState({
+        lp: { player: 8000, opponent: 0 },
+        deckOutPending: true,
+      });
+
+      // Act
+      const checkedState = checkedVictoryState(state);
+
+      // Assert
+      expect(checkedState.result.winner).toBe("draw");
+      expect(checkedState.result.reason).toBe("deckout");
+    });
+  });
+
+  describe("デッキアウトによる敗北", () => {
+    it("デッキからドローできなかった場合、相手の勝利を宣言する", () => {
+      // Arrange
+      const state = createMockGameState({ deckOutPending: true });
+
+      // Act
+      const checkedState = checkedVictoryState(state);
+
+      // Assert
+      expect(checkedState.result.isGameOver).toBe(true);
+      expect(checkedState.result.winner).toBe("opponent");
+      expect(checkedState.result.reason).toBe("deckout");
+      expect(checkedState.result.message).toContain("ドロー");
+    });
+
+    it("デッキが0枚でもドローしていなければ、敗北を宣言しない", () => {
+      // Arrange
+      const state = createSpaceState({ mainDeck: [] });
+
+      // Act
+      const checkedState = checkedVictoryState(state);
+
+      // Assert
+      expect(checkedState.result.isGameOver).toBe(false);
+    });
+  });
+
   describe("ゲーム続行中", () => {
     it("両プレイヤーにLPがあり特殊条件がない場合、ゲームオーバーを宣言しない", () => {
       // Arrange
@@ -0,0 +1,134 @@
+/**
+ * BattleRule のテスト
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { canAttack, getCurrentAttack, performDirectAttack } from "$lib/domain/rules/BattleRule";
+import { AdditionalRuleRegistry } from "$lib/domain/effects/rules";
+import type { AdditionalRule, RuleCategory } from "$lib/domain/models/Effect";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import { GameState } from "$lib/domain/models/GameState";
+import {
+  createBattleReadyState,
+  createMonsterOnField,
+  createSpellOnField,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+/** テスト用の攻撃力変更ルール（フィールドのモンスターの攻撃力を一律で変更する） */
+class MockStatusModifierRule implements AdditionalRule {
+  readonly isEffect = true;
+  readonly category: RuleCategory = "StatusModifier";
+
+  constructor(private readonly delta: number) {}
+
+  canApply(_state: GameSnapshot): boolean {
+    return true;
+  }
+
+  apply(state: GameSnapshot): GameSnapshot {
+    const mainMonsterZone = state.space.mainMonsterZone.map((card) => ({
+      ...card,
+      attack: (card.attack ?? 0) + this.delta,
+    }));
+    return { ...state, space: { ...state.space, mainMonsterZone } };
+  }
+}
+
+describe("BattleRule", () => {
+  afterEach(() => {
+    AdditionalRuleRegistry.clear();
+  });
+
+  describe("canAttack", () => {
+    it("バトルフェイズの表側攻撃表示モンスターは攻撃できる", () => {
+      expect(canAttack(createBattleReadyState(), "attacker-0").isValid).toBe(true);
+    });
+
+    it("バトルフェイズ以外では攻撃できない", () => {
+      const state = { ...createBattleReadyState(), phase: "main1" as const };
+
+      const result = canAttack(state, "attacker-0");
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("NOT_BATTLE_PHASE");
+    });
+
+    it("存在しないカードでは攻撃できない", () => {
+      const result = canAttack(createBattleReadyState(), "missing-0");
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("CARD_NOT_FOUND");
+    });
+
+    it("守備表示のモンスターは攻撃できない", () => {
+      const state = createBattleReadyState();
+      const defender = createMonsterOnField("defender-0", { battlePosition: "defense", slotIndex: 1 });
+      const updated = { ...state, space: { ...state.space, mainMonsterZone: [defender] } };
+
+      const result = canAttack(updated, "defender-0");
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("NOT_IN_ATTACK_POSITION");
+    });
+
+    it("このターンすでに攻撃したモンスターは攻撃できない", () => {
+      const { state } = performDirectAttack(createBattleReadyState(), "attacker-0");
+
+      const result = canAttack(state, "attacker-0");
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe("ALREADY_ATTACKED");
+    });
+  });
+
+  describe("getCurrentAttack", () => {
+    it("攻撃力変更ルールがない場合は元々の攻撃力を返す", () => {
+      expect(getCurrentAttack(createBattleReadyState({ attack: 1800 }), "attacker-0")).toBe(1800);
+    });
+
+    it("フィールドで適用中の攻撃力変更ルールを反映する", () => {
+      AdditionalRuleRegistry.register(DUMMY_CARD_IDS.CONTINUOUS_SPELL, new MockStatusModifierRule(800));
+      const state = createBattleReadyState({ attack: 1800 });
+      const withSpell = {
+        ...state,
+        space: {
+          ...state.space,
+          spellTrapZone: [createSpellOnField("spell-0", { spellType: "continuous" })],
+        },
+      };
+
+      expect(getCurrentAttack(withSpell, "attacker-0")).toBe(2600);
+    });
+
+    it("攻撃力は 0 未満にならない", () => {
+      AdditionalRuleRegistry.register(DUMMY_CARD_IDS.CONTINUOUS_SPELL, new MockStatusModifierRule(-3000));
+      const state = createBattleReadyState({ attack: 1800 });
+      const withSpell = {
+        ...state,
+        space: {
+          ...state.space,
+          spellTrapZone: [createSpellOnField("spell-0", { spellType: "continuous" })],
+        },
+      };
+
+      expect(getCurrentAttack(withSpell, "attacker-0")).toBe(0);
+    });
+  });
+
+  describe("performDirectAttack", () => {
+    it("攻撃力分の戦闘ダメージを相手に与え、攻撃済みにする", () => {
+      const result = performDirectAttack(createBattleReadyState({ attack: 1500 }), "attacker-0");
+
+      expect(result.damage).toBe(1500);
+      expect(result.state.lp.opponent).toBe(6500);
+      expect(GameState.Space.findCard(result.state.space, "attacker-0")?.stateOnField?.attackedThisTurn).toBe(true);
+    });
+
+    it("相手のLPは 0 未満にならない", () => {
+      const result = performDirectAttack(createBattleReadyState({ attack: 1500, opponentLp: 1000 }), "attacker-0");
+
+      expect(result.state.lp.opponent).toBe(0);
+    });
+  });
+});
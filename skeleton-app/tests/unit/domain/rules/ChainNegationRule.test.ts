@@ -0,0 +1,103 @@
+/**
+ * ChainNegationRule のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import type { EffectId } from "$lib/domain/models/Effect";
+import type { ChainBlockParams, ChainLink } from "$lib/domain/models/Chain";
+import type { AtomicStep } from "$lib/domain/models/GameProcessing";
+import { buildChainBlockResolutionSteps, buildNegatedResolutionSteps } from "$lib/domain/rules/ChainNegationRule";
+import {
+  createMockGameState,
+  createMonsterOnField,
+  createSpellOnField,
+  createTrapOnField,
+} from "../../../__testUtils__";
+
+const resolutionStep: AtomicStep = {
+  id: "resolution",
+  summary: "効果処理",
+  description: "効果処理",
+  notificationLevel: "silent",
+  action: (state) => ({ success: true, updatedState: state, message: "resolved" }),
+};
+
+const createLink = (sourceInstanceId: string, negation?: ChainLink["negation"]): ChainLink => ({
+  chainNumber: 1,
+  effectId: `${sourceInstanceId}-effect` as EffectId,
+  sourceInstanceId,
+  sourceCardId: 1001,
+  spellSpeed: 1,
+  negation,
+});
+
+const createBlock = (sourceInstanceId: string, isNegated = false): ChainBlockParams => ({
+  effectId: `${sourceInstanceId}-effect` as EffectId,
+  sourceInstanceId,
+  sourceCardId: 1001,
+  spellSpeed: 1,
+  resolutionSteps: [resolutionStep],
+  isNegated,
+});
+
+describe("ChainNegationRule", () => {
+  describe("buildNegatedResolutionSteps", () => {
+    it("発動が無効になった魔法カードは墓地へ送る", () => {
+      const spell = createSpellOnField("spell-0", { spellType: "continuous" });
+      const state = createMockGameState({ space: { spellTrapZone: [spell] } });
+
+      const steps = buildNegatedResolutionSteps(state, createLink("spell-0"), "activation");
+
+      expect(steps).toHaveLength(2);
+      const afterResolve = steps[1].action(steps[0].action(state).updatedState).updatedState;
+      expect(afterResolve.space.graveyard.map((card) => card.instanceId)).toEqual(["spell-0"]);
+    });
+
+    it("効果のみが無効になった永続罠はフィールドに残す", () => {
+      const trap = createTrapOnField("trap-0", { trapType: "continuous" });
+      const state = createMockGameState({ space: { spellTrapZone: [trap] } });
+
+      const steps = buildNegatedResolutionSteps(state, createLink("trap-0"), "effect");
+
+      expect(steps.map((step) => step.id)).toEqual(["chain-1-negated"]);
+    });
+
+    it("効果のみが無効になった通常罠は墓地へ送る", () => {
+      const trap = createTrapOnField("trap-0", { trapType: "normal" });
+      const state = createMockGameState({ space: { spellTrapZone: [trap] } });
+
+      expect(buildNegatedResolutionSteps(state, createLink("trap-0"), "effect")).toHaveLength(2);
+    });
+
+    it("モンスター効果が無効になってもモンスターには何もしない", () => {
+      const monster = createMonsterOnField("monster-0");
+      const state = createMockGameState({ space: { mainMonsterZone: [monster] } });
+
+      expect(buildNegatedResolutionSteps(state, createLink("monster-0"), "activation")).toHaveLength(1);
+    });
+  });
+
+  describe("buildChainBlockResolutionSteps", () => {
+    it("無効化されていないリンクは resolutionSteps をそのまま返す", () => {
+      const state = createMockGameState();
+
+      const steps = buildChainBlockResolutionSteps(state, createBlock("spell-0"), createLink("spell-0"));
+
+      expect(steps).toEqual([resolutionStep]);
+    });
+
+    it("無効化されたリンクは resolutionSteps の代わりに無効化時のステップを返す", () => {
+      const state = createMockGameState();
+
+      const steps = buildChainBlockResolutionSteps(state, createBlock("spell-0"), createLink("spell-0", "effect"));
+
+      expect(steps.map((step) => step.id)).toEqual(["chain-1-negated"]);
+    });
+
+    it("リンクがなく無効化済みのチェーンブロックは何も実行しない", () => {
+      const state = createMockGameState();
+
+      expect(buildChainBlockResolutionSteps(state, createBlock("spell-0", true), undefined)).toEqual([]);
+    });
+  });
+});
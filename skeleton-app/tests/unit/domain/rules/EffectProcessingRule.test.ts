@@ -0,0 +1,121 @@
+/**
+ * EffectProcessingRule のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_CHAIN_STACK,
+  startChain,
+  pushChainBlock,
+  endChainBuilding,
+  canChain,
+  getRequiredSpellSpeed,
+  beginEffectProcessing,
+  advanceEffectProcessing,
+  answerEffectProcessing,
+  runEffectProcessing,
+} from "$lib/domain/rules/EffectProcessingRule";
+import type { AtomicStep } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import type { ChainBlockParams } from "$lib/domain/models/Chain";
+import type { EffectId } from "$lib/domain/models/Effect";
+import { createMockGameState } from "../../../__testUtils__";
+
+// LP を減らすだけのステップ
+const payLifeStep = (id: string, amount: number, overrides: Partial<AtomicStep> = {}): AtomicStep => ({
+  id,
+  summary: "LPを払う",
+  description: `${amount}LPを払います`,
+  notificationLevel: "silent",
+  action: (state) =>
+    GameProcessing.Result.success({ ...state, lp: { ...state.lp, player: state.lp.player - amount } }, "paid"),
+  ...overrides,
+});
+
+const chainBlock = (spellSpeed: 1 | 2 | 3, resolutionSteps: AtomicStep[] = []): ChainBlockParams => ({
+  sourceInstanceId: `source-${spellSpeed}`,
+  sourceCardId: 1,
+  effectId: "dummy-effect" as EffectId,
+  spellSpeed,
+  resolutionSteps,
+  isNegated: false,
+});
+
+describe("EffectProcessingRule", () => {
+  describe("チェーンスタック", () => {
+    it("チェーン1から順にチェーン番号を振る", () => {
+      const chain = pushChainBlock(pushChainBlock(startChain(EMPTY_CHAIN_STACK), chainBlock(1)), chainBlock(2));
+
+      expect(chain.stack.map((block) => block.chainNumber)).toEqual([1, 2]);
+      expect(chain.lastSpellSpeed).toBe(2);
+    });
+
+    it("チェーン2以降は SS2 以上、カウンター罠には SS3 のみチェーンできる", () => {
+      const started = startChain(EMPTY_CHAIN_STACK);
+
+      expect(getRequiredSpellSpeed(started)).toBe(1);
+      expect(getRequiredSpellSpeed(pushChainBlock(started, chainBlock(1)))).toBe(2);
+      expect(getRequiredSpellSpeed(pushChainBlock(started, chainBlock(3)))).toBe(3);
+      expect(canChain(pushChainBlock(started, chainBlock(3)), 2)).toBe(false);
+      expect(canChain(endChainBuilding(pushChainBlock(started, chainBlock(3))), 1)).toBe(true);
+    });
+  });
+
+  describe("効果処理の進行", () => {
+    it("チェーンブロックの解決後にチェーンをリセットし、チェーンリンクを取り除く", () => {
+      const processing = beginEffectProcessing(
+        createMockGameState(),
+        EMPTY_CHAIN_STACK,
+        chainBlock(1, [payLifeStep("resolve", 1000)]),
+        [],
+      );
+      expect(processing.state.chainLinks).toHaveLength(1);
+
+      const progress = runEffectProcessing(advanceEffectProcessing(processing));
+
+      expect(progress.kind).toBe("settled");
+      expect(progress.processing.state.lp.player).toBe(7000);
+      expect(progress.processing.state.chainLinks).toBeUndefined();
+      expect(progress.processing.chain).toEqual(EMPTY_CHAIN_STACK);
+    });
+
+    it("失敗したステップは状態を変えずに次のステップへ進む", () => {
+      const failedStep = payLifeStep("failed", 500, {
+        action: (state) => GameProcessing.Result.failure(state, "failed"),
+      });
+      const processing = beginEffectProcessing(createMockGameState(), EMPTY_CHAIN_STACK, undefined, [
+        failedStep,
+        payLifeStep("paid", 500),
+      ]);
+
+      const progress = runEffectProcessing(advanceEffectProcessing(processing));
+
+      expect(progress.processing.state.lp.player).toBe(7500);
+    });
+
+    it("確認が必要なステップは回答を受けてから実行する", () => {
+      const processing = beginEffectProcessing(createMockGameState(), EMPTY_CHAIN_STACK, undefined, [
+        payLifeStep("confirm", 1000, { notificationLevel: "interactive" }),
+      ]);
+
+      const waiting = advanceEffectProcessing(processing);
+      expect(waiting.kind).toBe("decision");
+      expect(waiting.processing.state.lp.player).toBe(8000);
+
+      const answered = answerEffectProcessing(waiting.processing, { kind: "confirmation" });
+      expect(answered.kind).toBe("executed");
+      expect(answered.processing.state.lp.player).toBe(7000);
+    });
+
+    it("意思決定と種別が一致しない回答はエラー", () => {
+      const processing = beginEffectProcessing(createMockGameState(), EMPTY_CHAIN_STACK, undefined, [
+        payLifeStep("confirm", 1000, { notificationLevel: "interactive" }),
+      ]);
+      const waiting = advanceEffectProcessing(processing);
+
+      expect(() => answerEffectProcessing(waiting.processing, { kind: "chain", instanceId: null })).toThrow(
+        'Unexpected answer "chain" for decision "confirmation"',
+      );
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * EndPhaseRule のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildEndPhaseSteps } from "$lib/domain/rules/EndPhaseRule";
+import { discardAllHandStep } from "$lib/domain/dsl/steps/builders/discards";
+import { createMockGameState, createFilledHand } from "../../../__testUtils__";
+
+describe("EndPhaseRule", () => {
+  describe("buildEndPhaseSteps", () => {
+    it("保留された効果がない場合は手札枚数制限のステップのみを返す", () => {
+      const steps = buildEndPhaseSteps(createMockGameState());
+
+      expect(steps.map((step) => step.id)).toEqual(["discard-to-hand-limit-6"]);
+    });
+
+    it("保留された効果を保留順に並べ、最後に手札枚数制限のステップを置く", () => {
+      const queuedId = discardAllHandStep().id;
+      const state = createMockGameState({ queuedEndPhaseEffectIds: [queuedId, queuedId] });
+
+      const steps = buildEndPhaseSteps(state);
+
+      expect(steps.map((step) => step.id)).toEqual([queuedId, queuedId, "discard-to-hand-limit-6"]);
+    });
+
+    it("保留された効果の処理後の手札枚数で制限を判定する", () => {
+      const state = createMockGameState({
+        space: { ...createFilledHand(8) },
+        queuedEndPhaseEffectIds: [discardAllHandStep().id],
+      });
+
+      const [discardAll, handLimit] = buildEndPhaseSteps(state);
+      const afterDiscard = discardAll.action(state).updatedState;
+
+      expect(handLimit.cardSelectionConfig!(state)).not.toBeNull();
+      expect(handLimit.cardSelectionConfig!(afterDiscard)).toBeNull();
+    });
+
+    it("未登録の効果IDが保留されている場合はエラーをスローする", () => {
+      const state = createMockGameState({ queuedEndPhaseEffectIds: ["unknown-effect"] });
+
+      expect(() => buildEndPhaseSteps(state)).toThrow("Unknown end phase effect");
+    });
+  });
+});
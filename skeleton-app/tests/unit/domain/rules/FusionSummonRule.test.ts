@@ -0,0 +1,210 @@
+/**
+ * 融合召喚ルールのテスト
+ *
+ * ダミー融合モンスター（2001）の融合素材: 1001 + ドラゴン族モンスター
+ */
+
+import { describe, it, expect } from "vitest";
+import type { CardInstance } from "$lib/domain/models/Card";
+import { canFusionSummon, getFusionSummonableMonsters, performFusionSummon } from "$lib/domain/rules/FusionSummonRule";
+import {
+  createSpaceState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createFilledMonsterZone,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+// =============================================================================
+// テストヘルパー
+// =============================================================================
+
+const fusionMonster = () =>
+  createMonsterInstance("fusion-0", {
+    cardId: DUMMY_CARD_IDS.FUSION_MONSTER,
+    frameType: "fusion",
+    location: "extraDeck",
+  });
+
+// カード名指定の素材（手札）
+const namedMaterial = (instanceId = "named-0") =>
+  createMonsterInstance(instanceId, { cardId: DUMMY_CARD_IDS.NORMAL_MONSTER });
+
+// 種族指定の素材（フィールド）
+const dragonOnField = (instanceId = "dragon-0") =>
+  createMonsterOnField(instanceId, { frameType: "effect", race: "Dragon" });
+
+// 素材にならないモンスターで埋まったモンスターゾーン
+const filledMonsterZone = () => [...createFilledMonsterZone(5, DUMMY_CARD_IDS.EFFECT_MONSTER).mainMonsterZone];
+
+const createFusionReadyState = (options?: { hand?: CardInstance[]; mainMonsterZone?: CardInstance[] }) =>
+  createSpaceState({
+    hand: options?.hand ?? [namedMaterial()],
+    mainMonsterZone: options?.mainMonsterZone ?? [dragonOnField()],
+    extraDeck: [fusionMonster()],
+  });
+
+const findCards = (state: ReturnType<typeof createFusionReadyState>, ids: string[]) =>
+  ids.map((id) => [...state.space.hand, ...state.space.mainMonsterZone].find((card) => card.instanceId === id)!);
+
+describe("FusionSummonRule", () => {
+  // ===========================================================================
+  // canFusionSummon
+  // ===========================================================================
+  describe("canFusionSummon", () => {
+    it("手札・フィールドに融合素材が揃っていれば融合召喚可能", () => {
+      const result = canFusionSummon(createFusionReadyState(), "fusion-0");
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("融合素材が全て手札にあっても融合召喚可能", () => {
+      const state = createFusionReadyState({
+        hand: [namedMaterial(), createMonsterInstance("dragon-hand", { frameType: "effect", race: "Dragon" })],
+        mainMonsterZone: [],
+      });
+
+      expect(canFusionSummon(state, "fusion-0").isValid).toBe(true);
+    });
+
+    it("カードが存在しない場合は CARD_NOT_FOUND を返す", () => {
+      const result = canFusionSummon(createFusionReadyState(), "non-existent");
+
+      expect(result.errorCode).toBe("CARD_NOT_FOUND");
+    });
+
+    it("融合モンスター以外は NOT_FUSION_MONSTER を返す", () => {
+      const state = createSpaceState({
+        ...createFusionReadyState().space,
+        extraDeck: [createMonsterInstance("synchro-0", { frameType: "synchro", location: "extraDeck" })],
+      });
+
+      const result = canFusionSummon(state, "synchro-0");
+
+      expect(result.errorCode).toBe("NOT_FUSION_MONSTER");
+    });
+
+    it("融合モンスターがEXデッキにない場合は CARD_NOT_IN_EXTRA_DECK を返す", () => {
+      const state = createSpaceState({
+        hand: [namedMaterial()],
+        mainMonsterZone: [dragonOnField()],
+        graveyard: [
+          createMonsterInstance("fusion-0", {
+            cardId: DUMMY_CARD_IDS.FUSION_MONSTER,
+            frameType: "fusion",
+            location: "graveyard",
+          }),
+        ],
+      });
+
+      const result = canFusionSummon(state, "fusion-0");
+
+      expect(result.errorCode).toBe("CARD_NOT_IN_EXTRA_DECK");
+    });
+
+    it("素材が不足している場合は NO_VALID_FUSION_MATERIALS を返す", () => {
+      const state = createFusionReadyState({ mainMonsterZone: [] });
+
+      const result = canFusionSummon(state, "fusion-0");
+
+      expect(result.errorCode).toBe("NO_VALID_FUSION_MATERIALS");
+    });
+
+    it("1体で複数の素材指定を同時に満たすことはできない", () => {
+      // カード名指定とドラゴン族の両方を満たすモンスター1体のみ
+      const state = createFusionReadyState({
+        hand: [createMonsterInstance("both-0", { cardId: DUMMY_CARD_IDS.NORMAL_MONSTER, race: "Dragon" })],
+        mainMonsterZone: [],
+      });
+
+      expect(canFusionSummon(state, "fusion-0").isValid).toBe(false);
+    });
+
+    it("モンスターゾーンが満杯の場合、フィールドの素材を含めば融合召喚可能", () => {
+      const state = createFusionReadyState({
+        mainMonsterZone: [dragonOnField(), ...filledMonsterZone().slice(1)],
+      });
+
+      expect(canFusionSummon(state, "fusion-0").isValid).toBe(true);
+    });
+
+    it("モンスターゾーンが満杯で素材が全て手札の場合は融合召喚不可", () => {
+      const state = createFusionReadyState({
+        hand: [namedMaterial(), createMonsterInstance("dragon-hand", { frameType: "effect", race: "Dragon" })],
+        mainMonsterZone: filledMonsterZone(),
+      });
+
+      expect(canFusionSummon(state, "fusion-0").errorCode).toBe("NO_VALID_FUSION_MATERIALS");
+    });
+  });
+
+  // ===========================================================================
+  // getFusionSummonableMonsters
+  // ===========================================================================
+  describe("getFusionSummonableMonsters", () => {
+    it("融合素材が揃っている融合モンスターのみを返す", () => {
+      expect(getFusionSummonableMonsters(createFusionReadyState()).map((card) => card.instanceId)).toEqual([
+        "fusion-0",
+      ]);
+      expect(getFusionSummonableMonsters(createFusionReadyState({ hand: [] }))).toEqual([]);
+    });
+  });
+
+  // ===========================================================================
+  // performFusionSummon
+  // ===========================================================================
+  describe("performFusionSummon", () => {
+    it("素材選択ステップを返し、選択肢は素材になれる手札・フィールドのモンスターに限られる", () => {
+      const state = createFusionReadyState({
+        hand: [namedMaterial(), createMonsterInstance("other-0", { frameType: "effect" })],
+      });
+
+      const result = performFusionSummon(state, "fusion-0");
+      const config = result.step.cardSelectionConfig!(state)!;
+
+      expect(result.type).toBe("needsSelection");
+      expect(config.minCards).toBe(2);
+      expect(config.maxCards).toBe(2);
+      expect(config.availableCards?.map((card) => card.instanceId)).toEqual(["named-0", "dragon-0"]);
+    });
+
+    it("canConfirm は融合素材を全て満たす組み合わせのみ許可する", () => {
+      const state = createFusionReadyState({
+        hand: [namedMaterial(), namedMaterial("named-1")],
+      });
+      const config = performFusionSummon(state, "fusion-0").step.cardSelectionConfig!(state)!;
+
+      expect(config.canConfirm!(findCards(state, ["named-0", "dragon-0"]))).toBe(true);
+      expect(config.canConfirm!(findCards(state, ["named-0", "named-1"]))).toBe(false);
+      expect(config.canConfirm!(findCards(state, ["named-0"]))).toBe(false);
+    });
+
+    it("素材を墓地へ送り、融合モンスターを攻撃表示で特殊召喚する", () => {
+      const state = createFusionReadyState();
+
+      const updateResult = performFusionSummon(state, "fusion-0").step.action(state, ["named-0", "dragon-0"]);
+
+      expect(updateResult.success).toBe(true);
+      const { space } = updateResult.updatedState;
+      expect(space.graveyard.map((card) => card.instanceId)).toEqual(["named-0", "dragon-0"]);
+      expect(space.hand).toHaveLength(0);
+      expect(space.extraDeck).toHaveLength(0);
+      expect(space.mainMonsterZone).toHaveLength(1);
+      expect(space.mainMonsterZone[0]).toMatchObject({
+        instanceId: "fusion-0",
+        stateOnField: { position: "faceUp", battlePosition: "attack" },
+      });
+    });
+
+    it("sentToGraveyard / specialSummoned / fusionSummoned イベントを発行する", () => {
+      const state = createFusionReadyState();
+
+      const updateResult = performFusionSummon(state, "fusion-0").step.action(state, ["named-0", "dragon-0"]);
+      const eventTypes = updateResult.emittedEvents?.map((event) => event.type);
+
+      expect(eventTypes).toContain("sentToGraveyard");
+      expect(eventTypes).toContain("specialSummoned");
+      expect(eventTypes?.at(-1)).toBe("fusionSummoned");
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * リンク召喚ルールのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { canLinkSummon, performLinkSummon } from "$lib/domain/rules/LinkSummonRule";
+import {
+  createSpaceState,
+  createLinkSummonReadyState,
+  createMonsterInstance,
+  createMonsterOnField,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+// リンク2（左下 / 右下）のダミーリンクモンスターをエクストラモンスターゾーンに置く
+const createLinkOnExtraMonsterZone = (instanceId: string) =>
+  createMonsterOnField(instanceId, { frameType: "link", location: "extraMonsterZone" });
+
+// EXデッキにリンク3、フィールドにリンク2と通常モンスターがいる状態
+const createLink3ReadyState = (normalMonsterCount: number) =>
+  createSpaceState({
+    extraDeck: [createMonsterInstance("link3-0", { frameType: "link", linkRating: 3, location: "extraDeck" })],
+    extraMonsterZone: [createLinkOnExtraMonsterZone("link2-0")],
+    mainMonsterZone: Array.from({ length: normalMonsterCount }, (_, index) =>
+      createMonsterOnField(`material-${index}`, { slotIndex: index }),
+    ),
+  });
+
+describe("LinkSummonRule", () => {
+  describe("canLinkSummon", () => {
+    describe("フェーズ検証", () => {
+      it("ドローフェーズ中は NOT_MAIN_PHASE を返す", () => {
+        const state = createLinkSummonReadyState();
+        const drawState = { ...state, phase: "draw" as const };
+
+        const result = canLinkSummon(drawState, "link-0");
+
+        expect(result.isValid).toBe(false);
+        expect(result.errorCode).toBe("NOT_MAIN_PHASE");
+      });
+
+      it("メインフェーズ1では検証を通過する", () => {
+        const result = canLinkSummon(createLinkSummonReadyState(), "link-0");
+
+        expect(result.isValid).toBe(true);
+      });
+    });
+
+    describe("カード検証", () => {
+      it("カードが存在しない場合は CARD_NOT_FOUND を返す", () => {
+        const result = canLinkSummon(createLinkSummonReadyState(), "non-existent");
+
+        expect(result.errorCode).toBe("CARD_NOT_FOUND");
+      });
+
+      it("リンクモンスター以外は NOT_LINK_MONSTER を返す", () => {
+        const state = createSpaceState({
+          extraDeck: [createMonsterInstance("xyz-0", { frameType: "xyz", location: "extraDeck" })],
+          mainMonsterZone: [createMonsterOnField("m-0"), createMonsterOnField("m-1", { slotIndex: 1 })],
+        });
+
+        const result = canLinkSummon(state, "xyz-0");
+
+        expect(result.errorCode).toBe("NOT_LINK_MONSTER");
+      });
+
+      it("リンクモンスターがエクストラデッキにない場合は CARD_NOT_IN_EXTRA_DECK を返す", () => {
+        const state = createSpaceState({
+          graveyard: [createMonsterInstance("link-0", { frameType: "link", location: "graveyard" })],
+          mainMonsterZone: [createMonsterOnField("m-0"), createMonsterOnField("m-1", { slotIndex: 1 })],
+        });
+
+        const result = canLinkSummon(state, "link-0");
+
+        expect(result.errorCode).toBe("CARD_NOT_IN_EXTRA_DECK");
+      });
+    });
+
+    describe("素材検証", () => {
+      it("モンスターがリンク数に足りない場合は NO_VALID_LINK_MATERIALS を返す", () => {
+        const result = canLinkSummon(createLinkSummonReadyState({ materialCount: 1 }), "link-0");
+
+        expect(result.errorCode).toBe("NO_VALID_LINK_MATERIALS");
+      });
+
+      it("裏側のモンスターは素材にならないが、トークンは素材にできる", () => {
+        const createStateWith = (secondMaterialOptions: Parameters<typeof createMonsterOnField>[1]) =>
+          createSpaceState({
+            extraDeck: [createMonsterInstance("link-0", { frameType: "link", location: "extraDeck" })],
+            mainMonsterZone: [
+              createMonsterOnField("token-0", { frameType: "token" }),
+              createMonsterOnField("m-1", { ...secondMaterialOptions, slotIndex: 1 }),
+            ],
+          });
+
+        expect(canLinkSummon(createStateWith({ position: "faceDown" }), "link-0").errorCode).toBe(
+          "NO_VALID_LINK_MATERIALS",
+        );
+        expect(canLinkSummon(createStateWith({ frameType: "token" }), "link-0").isValid).toBe(true);
+      });
+
+      it("リンクモンスターを素材にする場合はリンク数分として数えられる", () => {
+        expect(canLinkSummon(createLink3ReadyState(1), "link3-0").isValid).toBe(true);
+      });
+
+      it("リンクモンスター1体だけではリンク数が一致しても素材にできない", () => {
+        const state = createSpaceState({
+          extraDeck: [createMonsterInstance("link-1", { frameType: "link", location: "extraDeck" })],
+          extraMonsterZone: [createLinkOnExtraMonsterZone("link-0")],
+        });
+
+        expect(canLinkSummon(state, "link-1").errorCode).toBe("NO_VALID_LINK_MATERIALS");
+      });
+    });
+  });
+
+  describe("performLinkSummon", () => {
+    it("リンク数までのモンスターを選ぶキャンセル可能な素材選択ステップを返す", () => {
+      const state = createLinkSummonReadyState({ materialCount: 3 });
+
+      const result = performLinkSummon(state, "link-0");
+
+      expect(result.type).toBe("needsSelection");
+      expect(result.message).toContain("Dummy Link Monster");
+      const config = result.step.cardSelectionConfig?.(state);
+      expect(config).toMatchObject({ minCards: 2, maxCards: 2, cancelable: true });
+      expect(config?.availableCards?.map((card) => card.instanceId)).toEqual([
+        "material-0",
+        "material-1",
+        "material-2",
+      ]);
+    });
+
+    it("素材の合計がリンク数と一致する選択だけを確定できる", () => {
+      const state = createLink3ReadyState(2);
+      const [material0, material1] = state.space.mainMonsterZone;
+      const [link2] = state.space.extraMonsterZone;
+
+      const config = performLinkSummon(state, "link3-0").step.cardSelectionConfig?.(state);
+
+      expect(config?.canConfirm?.([link2, material0])).toBe(true); // 2 + 1
+      expect(config?.canConfirm?.([link2, material0, material1])).toBe(true); // 1 + 1 + 1
+      expect(config?.canConfirm?.([material0, material1])).toBe(false); // 1 + 1
+    });
+
+    it("素材が離れてもリンク先に空きができない選択は確定できない", () => {
+      // エクストラモンスターゾーンのリンク2は M1・M3 を指しているが、どちらも素材以外で埋まっている
+      const state = createSpaceState({
+        extraDeck: [createMonsterInstance("link-1", { frameType: "link", location: "extraDeck" })],
+        extraMonsterZone: [createLinkOnExtraMonsterZone("link-0")],
+        mainMonsterZone: [
+          createMonsterOnField("face-down-0", { position: "faceDown", slotIndex: 0 }),
+          createMonsterOnField("face-down-2", { position: "faceDown", slotIndex: 2 }),
+          createMonsterOnField("material-3", { slotIndex: 3 }),
+          createMonsterOnField("material-4", { slotIndex: 4 }),
+        ],
+      });
+      const [, , material3, material4] = state.space.mainMonsterZone;
+
+      const config = performLinkSummon(state, "link-1").step.cardSelectionConfig?.(state);
+
+      expect(config?.canConfirm?.([material3, material4])).toBe(false);
+      expect(config?.canConfirm?.([state.space.extraMonsterZone[0], material3])).toBe(true);
+    });
+
+    describe("素材選択コールバック", () => {
+      it("選択がキャンセルされた場合（空の選択）は失敗を返す", () => {
+        const state = createLinkSummonReadyState();
+
+        const updateResult = performLinkSummon(state, "link-0").step.action(state, []);
+
+        expect(updateResult.success).toBe(false);
+        expect(updateResult.error).toContain("キャンセル");
+      });
+
+      it("素材を墓地へ送り、エクストラモンスターゾーンにリンク召喚する", () => {
+        const state = createLinkSummonReadyState();
+
+        const updateResult = performLinkSummon(state, "link-0").step.action(state, ["material-0", "material-1"]);
+
+        expect(updateResult.success).toBe(true);
+        const { mainMonsterZone, extraMonsterZone, graveyard } = updateResult.updatedState.space;
+        expect(mainMonsterZone).toHaveLength(0);
+        expect(graveyard.map((card) => card.instanceId)).toEqual(["material-0", "material-1"]);
+        expect(extraMonsterZone).toHaveLength(1);
+        expect(extraMonsterZone[0]).toMatchObject({
+          instanceId: "link-0",
+          stateOnField: { slotIndex: 0, position: "faceUp", battlePosition: "attack" },
+        });
+      });
+
+      it("エクストラモンスターゾーンが埋まっている場合はリンク先のメインモンスターゾーンに出す", () => {
+        const state = createLink3ReadyState(3);
+
+        const updateResult = performLinkSummon(state, "link3-0").step.action(state, [
+          "material-0",
+          "material-1",
+          "material-2",
+        ]);
+
+        expect(updateResult.success).toBe(true);
+        const { mainMonsterZone, extraMonsterZone } = updateResult.updatedState.space;
+        expect(extraMonsterZone.map((card) => card.instanceId)).toEqual(["link2-0"]);
+        expect(mainMonsterZone).toMatchObject([{ instanceId: "link3-0", stateOnField: { slotIndex: 0 } }]);
+      });
+
+      it("sentToGraveyard・specialSummoned・linkSummoned イベントを発行する", () => {
+        const state = createLinkSummonReadyState();
+
+        const updateResult = performLinkSummon(state, "link-0").step.action(state, ["material-0", "material-1"]);
+
+        const eventTypes = updateResult.emittedEvents?.map((event) => event.type) ?? [];
+        expect(eventTypes.filter((type) => type === "sentToGraveyard")).toHaveLength(2);
+        expect(eventTypes.slice(-2)).toEqual(["specialSummoned", "linkSummoned"]);
+        expect(updateResult.emittedEvents?.at(-1)?.sourceCardId).toBe(DUMMY_CARD_IDS.LINK_MONSTER);
+      });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * 儀式召喚ルールのテスト
+ *
+ * ダミー儀式モンスター（1004）: レベル6
+ */
+
+import { describe, it, expect } from "vitest";
+import { canRitualSummon, getRitualSummonableMonsters, performRitualSummon } from "$lib/domain/rules/RitualSummonRule";
+import { createSpaceState, createMonsterInstance, createMonsterOnField, DUMMY_CARD_IDS } from "../../../__testUtils__";
+
+// 手札に儀式モンスター（レベル6）と、リリース候補のモンスターがいる状態
+const createRitualReadyState = (options?: { handLevels?: number[]; fieldLevels?: number[] }) =>
+  createSpaceState({
+    hand: [
+      createMonsterInstance("ritual-0", { frameType: "ritual" }),
+      ...(options?.handLevels ?? [4]).map((level, index) => createMonsterInstance(`hand-${index}`, { level })),
+    ],
+    mainMonsterZone: (options?.fieldLevels ?? [2]).map((level, index) =>
+      createMonsterOnField(`field-${index}`, { level, slotIndex: index }),
+    ),
+  });
+
+describe("RitualSummonRule", () => {
+  describe("canRitualSummon", () => {
+    describe("カード検証", () => {
+      it("カードが存在しない場合は CARD_NOT_FOUND を返す", () => {
+        const result = canRitualSummon(createRitualReadyState(), "non-existent", "equal");
+
+        expect(result.errorCode).toBe("CARD_NOT_FOUND");
+      });
+
+      it("儀式モンスター以外は NOT_RITUAL_MONSTER を返す", () => {
+        const result = canRitualSummon(createRitualReadyState(), "hand-0", "equal");
+
+        expect(result.errorCode).toBe("NOT_RITUAL_MONSTER");
+      });
+
+      it("儀式モンスターが手札にない場合は CARD_NOT_IN_HAND を返す", () => {
+        const state = createSpaceState({
+          graveyard: [createMonsterInstance("ritual-0", { frameType: "ritual", location: "graveyard" })],
+          mainMonsterZone: [createMonsterOnField("field-0", { level: 6 })],
+        });
+
+        const result = canRitualSummon(state, "ritual-0", "equal");
+
+        expect(result.errorCode).toBe("CARD_NOT_IN_HAND");
+      });
+    });
+
+    describe("リリース検証", () => {
+      it("手札・フィールドのモンスターのレベルの合計が等しくなる場合は儀式召喚できる", () => {
+        expect(canRitualSummon(createRitualReadyState(), "ritual-0", "equal").isValid).toBe(true);
+      });
+
+      it("equal の場合、合計が等しくならなければ NO_VALID_RITUAL_TRIBUTES を返す", () => {
+        const state = createRitualReadyState({ handLevels: [4], fieldLevels: [4] });
+
+        const result = canRitualSummon(state, "ritual-0", "equal");
+
+        expect(result.errorCode).toBe("NO_VALID_RITUAL_TRIBUTES");
+      });
+
+      it("atLeast の場合、合計が以上になれば儀式召喚できる", () => {
+        const state = createRitualReadyState({ handLevels: [4], fieldLevels: [4] });
+
+        expect(canRitualSummon(state, "ritual-0", "atLeast").isValid).toBe(true);
+      });
+
+      it("儀式モンスター自身はリリースに使えない", () => {
+        const state = createSpaceState({
+          hand: [
+            createMonsterInstance("ritual-0", { frameType: "ritual" }),
+            createMonsterInstance("ritual-1", { frameType: "ritual" }),
+          ],
+        });
+
+        expect(canRitualSummon(state, "ritual-0", "equal").isValid).toBe(true); // もう1体の儀式モンスター（レベル6）をリリース
+        expect(
+          canRitualSummon({ ...state, space: { ...state.space, hand: [state.space.hand[0]] } }, "ritual-0", "equal")
+            .errorCode,
+        ).toBe("NO_VALID_RITUAL_TRIBUTES");
+      });
+
+      it("モンスターゾーンに空きがない場合は、フィールドのモンスターを含めてリリースする必要がある", () => {
+        const fullZoneState = createSpaceState({
+          hand: [
+            createMonsterInstance("ritual-0", { frameType: "ritual" }),
+            createMonsterInstance("hand-0", { level: 6 }),
+          ],
+          mainMonsterZone: Array.from({ length: 5 }, (_, index) =>
+            createMonsterOnField(`field-${index}`, { level: 4, slotIndex: index }),
+          ),
+        });
+
+        // 手札のレベル6だけでは空きができず、フィールドのレベル4を含めると合計6にできない
+        const result = canRitualSummon(fullZoneState, "ritual-0", "equal");
+
+        expect(result.errorCode).toBe("NO_VALID_RITUAL_TRIBUTES");
+        expect(canRitualSummon(fullZoneState, "ritual-0", "atLeast").isValid).toBe(true);
+      });
+    });
+  });
+
+  describe("getRitualSummonableMonsters", () => {
+    it("儀式召喚可能な手札の儀式モンスターを返す", () => {
+      const result = getRitualSummonableMonsters(createRitualReadyState(), "equal");
+
+      expect(result.map((card) => card.instanceId)).toEqual(["ritual-0"]);
+    });
+
+    it("カードIDを指定した場合は、そのカードのみを返す", () => {
+      const state = createRitualReadyState();
+
+      expect(getRitualSummonableMonsters(state, "equal", DUMMY_CARD_IDS.RITUAL_MONSTER)).toHaveLength(1);
+      expect(getRitualSummonableMonsters(state, "equal", DUMMY_CARD_IDS.NORMAL_MONSTER)).toHaveLength(0);
+    });
+  });
+
+  describe("performRitualSummon", () => {
+    it("手札・フィールドのモンスターから選ぶリリース選択ステップを返す", () => {
+      const state = createRitualReadyState({ handLevels: [4, 3], fieldLevels: [2] });
+
+      const result = performRitualSummon(state, "ritual-0", "equal");
+
+      expect(result.type).toBe("needsSelection");
+      expect(result.message).toContain("Dummy Ritual Monster");
+      const config = result.step.cardSelectionConfig?.(state);
+      expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["hand-0", "hand-1", "field-0"]);
+      expect(config).toMatchObject({ minCards: 1, maxCards: 3, cancelable: false });
+    });
+
+    it("レベルの合計が条件を満たす選択だけを確定できる", () => {
+      const state = createRitualReadyState({ handLevels: [4, 3], fieldLevels: [2] });
+      const [, hand0, hand1] = state.space.hand;
+      const [field0] = state.space.mainMonsterZone;
+
+      const config = performRitualSummon(state, "ritual-0", "equal").step.cardSelectionConfig?.(state);
+
+      expect(config?.canConfirm?.([hand0, field0])).toBe(true); // 4 + 2
+      expect(config?.canConfirm?.([hand0, hand1])).toBe(false); // 4 + 3
+    });
+
+    describe("リリース選択コールバック", () => {
+      it("選択したモンスターを墓地へ送り、儀式モンスターを特殊召喚する", () => {
+        const state = createRitualReadyState();
+
+        const updateResult = performRitualSummon(state, "ritual-0", "equal").step.action(state, ["hand-0", "field-0"]);
+
+        expect(updateResult.success).toBe(true);
+        const { hand, mainMonsterZone, graveyard } = updateResult.updatedState.space;
+        expect(hand).toHaveLength(0);
+        expect(graveyard.map((card) => card.instanceId)).toEqual(["hand-0", "field-0"]);
+        expect(mainMonsterZone).toMatchObject([
+          { instanceId: "ritual-0", stateOnField: { position: "faceUp", battlePosition: "attack" } },
+        ]);
+      });
+
+      it("通常召喚権を消費しない", () => {
+        const state = createRitualReadyState();
+
+        const updateResult = performRitualSummon(state, "ritual-0", "equal").step.action(state, ["hand-0", "field-0"]);
+
+        expect(updateResult.updatedState.normalSummonUsed).toBe(state.normalSummonUsed);
+      });
+
+      it("sentToGraveyard・specialSummoned・ritualSummoned イベントを発行する", () => {
+        const state = createRitualReadyState();
+
+        const updateResult = performRitualSummon(state, "ritual-0", "equal").step.action(state, ["hand-0", "field-0"]);
+
+        const eventTypes = updateResult.emittedEvents?.map((event) => event.type) ?? [];
+        expect(eventTypes.filter((type) => type === "sentToGraveyard")).toHaveLength(2);
+        expect(eventTypes.slice(-2)).toEqual(["specialSummoned", "ritualSummoned"]);
+        expect(updateResult.emittedEvents?.at(-1)?.sourceCardId).toBe(DUMMY_CARD_IDS.RITUAL_MONSTER);
+      });
+    });
+  });
+});
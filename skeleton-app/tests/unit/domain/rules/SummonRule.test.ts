@@ -10,7 +10,12 @@ import {
   canSpecialSummon,
   executeSpecialSummon,
 } from "$lib/domain/rules/SummonRule";
-import { createSummonReadyState } from "../../../__testUtils__";
+import {
+  createSummonReadyState,
+  createSpaceState,
+  createMonsterInstance,
+  createMonsterOnField,
+} from "../../../__testUtils__";
 import { GameProcessing } from "$lib/domain/models/GameProcessing";
 
 describe("SummonRule", () => {
@@ -117,6 +122,30 @@ describe("SummonRule", () => {
       expect(result.isValid).toBe(false);
       expect(result.errorCode).toBe(GameProcessing.Validation.ERROR_CODES.NOT_ENOUGH_TRIBUTES);
     });
+
+    it("エクストラモンスターゾーンのモンスターもリリース対象に数える（レベル7）", () => {
+      const base = createSummonReadyState({ hand: "monster", levelOfHandMonster: 7, fieldCount: 1 });
+      const state = {
+        ...base,
+        space: {
+          ...base.space,
+          extraMonsterZone: [createMonsterOnField("extra-0", { location: "extraMonsterZone" })],
+        },
+      };
+
+      const result = canNormalSummon(state, state.space.hand[0].instanceId);
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it("儀式モンスターは通常召喚できない", () => {
+      const state = createSpaceState({ hand: [createMonsterInstance("ritual-0", { frameType: "ritual", level: 4 })] });
+
+      const result = canNormalSummon(state, "ritual-0");
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe(GameProcessing.Validation.ERROR_CODES.CANNOT_NORMAL_SUMMON);
+    });
   });
 
   describe("performNormalSummon", () => {
@@ -207,6 +236,40 @@ describe("SummonRule", () => {
         }
       });
 
+      it("エクストラモンスターゾーンのモンスターをリリースしてアドバンス召喚できる", () => {
+        const base = createSummonReadyState({ hand: "monster", levelOfHandMonster: 5 });
+        const state = {
+          ...base,
+          space: {
+            ...base.space,
+            extraMonsterZone: [createMonsterOnField("extra-0", { location: "extraMonsterZone" })],
+          },
+        };
+
+        const result = performNormalSummon(state, "hand-monster", "attack");
+        if (result.type !== "needsSelection") throw new Error("needsSelection expected");
+        const config = result.step.cardSelectionConfig!(state);
+        const summoned = result.step.action(state, ["extra-0"]);
+
+        expect(config?.availableCards?.map((card) => card.instanceId)).toEqual(["extra-0"]);
+        expect(summoned.success).toBe(true);
+        expect(summoned.updatedState.space.extraMonsterZone).toEqual([]);
+        expect(summoned.updatedState.space.mainMonsterZone.map((card) => card.instanceId)).toEqual(["hand-monster"]);
+      });
+
+      it("メインモンスターゾーンが埋まっている場合、エクストラモンスターゾーンのモンスターのみのリリースでは確定できない", () => {
+        const base = createSummonReadyState({ hand: "monster", levelOfHandMonster: 5, fieldCount: 5 });
+        const extraMonster = createMonsterOnField("extra-0", { location: "extraMonsterZone" });
+        const state = { ...base, space: { ...base.space, extraMonsterZone: [extraMonster] } };
+
+        const result = performNormalSummon(state, "hand-monster", "attack");
+        if (result.type !== "needsSelection") throw new Error("needsSelection expected");
+        const canConfirm = result.step.cardSelectionConfig!(state)!.canConfirm!;
+
+        expect(canConfirm([extraMonster])).toBe(false);
+        expect(canConfirm([state.space.mainMonsterZone[0]])).toBe(true);
+      });
+
       it("レベル7モンスター（2体リリース）はneedsSelection結果を返却する", () => {
         const state = createSummonReadyState({
           hand: "monster",
@@ -0,0 +1,175 @@
+/**
+ * エクシーズ召喚ルールのテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { canXyzSummon, performXyzSummon } from "$lib/domain/rules/XyzSummonRule";
+import {
+  createSpaceState,
+  createXyzSummonReadyState,
+  createMonsterInstance,
+  createMonsterOnField,
+  createSpellOnField,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+describe("XyzSummonRule", () => {
+  describe("canXyzSummon", () => {
+    describe("フェーズ検証", () => {
+      it("ドローフェーズ中は NOT_MAIN_PHASE を返す", () => {
+        const state = createXyzSummonReadyState();
+        const drawState = { ...state, phase: "draw" as const };
+
+        const result = canXyzSummon(drawState, "xyz-0");
+
+        expect(result.isValid).toBe(false);
+        expect(result.errorCode).toBe("NOT_MAIN_PHASE");
+      });
+
+      it("メインフェーズ1では検証を通過する", () => {
+        const result = canXyzSummon(createXyzSummonReadyState(), "xyz-0");
+
+        expect(result.isValid).toBe(true);
+      });
+    });
+
+    describe("カード検証", () => {
+      it("カードが存在しない場合は CARD_NOT_FOUND を返す", () => {
+        const result = canXyzSummon(createXyzSummonReadyState(), "non-existent");
+
+        expect(result.errorCode).toBe("CARD_NOT_FOUND");
+      });
+
+      it("エクシーズモンスター以外は NOT_XYZ_MONSTER を返す", () => {
+        const state = createSpaceState({
+          extraDeck: [createMonsterInstance("synchro-0", { frameType: "synchro", location: "extraDeck" })],
+          mainMonsterZone: [createMonsterOnField("m-0", { level: 4 }), createMonsterOnField("m-1", { level: 4 })],
+        });
+
+        const result = canXyzSummon(state, "synchro-0");
+
+        expect(result.errorCode).toBe("NOT_XYZ_MONSTER");
+      });
+
+      it("エクシーズモンスターがエクストラデッキにない場合は CARD_NOT_IN_EXTRA_DECK を返す", () => {
+        const state = createSpaceState({
+          graveyard: [createMonsterInstance("xyz-0", { frameType: "xyz", location: "graveyard" })],
+          mainMonsterZone: [createMonsterOnField("m-0", { level: 4 }), createMonsterOnField("m-1", { level: 4 })],
+        });
+
+        const result = canXyzSummon(state, "xyz-0");
+
+        expect(result.errorCode).toBe("CARD_NOT_IN_EXTRA_DECK");
+      });
+    });
+
+    describe("素材検証", () => {
+      it("ランクと同じレベルのモンスターが足りない場合は NO_VALID_XYZ_MATERIALS を返す", () => {
+        const result = canXyzSummon(createXyzSummonReadyState({ materialLevels: [4] }), "xyz-0");
+
+        expect(result.errorCode).toBe("NO_VALID_XYZ_MATERIALS");
+      });
+
+      it("レベルがランクと異なるモンスターは素材にならない", () => {
+        const result = canXyzSummon(createXyzSummonReadyState({ materialLevels: [4, 3] }), "xyz-0");
+
+        expect(result.errorCode).toBe("NO_VALID_XYZ_MATERIALS");
+      });
+
+      it("裏側のモンスターとトークンは素材にならない", () => {
+        const state = createSpaceState({
+          extraDeck: [createMonsterInstance("xyz-0", { frameType: "xyz", location: "extraDeck" })],
+          mainMonsterZone: [
+            createMonsterOnField("m-0", { level: 4 }),
+            createMonsterOnField("face-down", { level: 4, position: "faceDown", slotIndex: 1 }),
+            createMonsterOnField("token", { frameType: "token", level: 4, slotIndex: 2 }),
+          ],
+        });
+
+        const result = canXyzSummon(state, "xyz-0");
+
+        expect(result.errorCode).toBe("NO_VALID_XYZ_MATERIALS");
+      });
+    });
+  });
+
+  describe("performXyzSummon", () => {
+    it("必要な数ちょうどを選ぶキャンセル可能な素材選択ステップを返す", () => {
+      const state = createXyzSummonReadyState({ materialLevels: [4, 4, 4] });
+
+      const result = performXyzSummon(state, "xyz-0");
+
+      expect(result.type).toBe("needsSelection");
+      expect(result.message).toContain("Dummy Xyz Monster");
+      expect(result.step.cardSelectionConfig?.(state)).toMatchObject({ minCards: 2, maxCards: 2, cancelable: true });
+    });
+
+    describe("素材選択コールバック", () => {
+      it("選択がキャンセルされた場合（空の選択）は失敗を返す", () => {
+        const state = createXyzSummonReadyState();
+
+        const updateResult = performXyzSummon(state, "xyz-0").step.action(state, []);
+
+        expect(updateResult.success).toBe(false);
+        expect(updateResult.error).toContain("キャンセル");
+      });
+
+      it("素材を墓地へ送らずエクシーズモンスターの下に重ねる", () => {
+        const state = createXyzSummonReadyState();
+
+        const updateResult = performXyzSummon(state, "xyz-0").step.action(state, ["material-0", "material-1"]);
+
+        expect(updateResult.success).toBe(true);
+        const { mainMonsterZone, graveyard } = updateResult.updatedState.space;
+        expect(mainMonsterZone.map((card) => card.instanceId)).toEqual(["xyz-0"]);
+        expect(graveyard).toHaveLength(0);
+
+        const xyzMonster = mainMonsterZone[0];
+        expect(xyzMonster.stateOnField).toMatchObject({ position: "faceUp", battlePosition: "attack" });
+        expect(xyzMonster.stateOnField?.xyzMaterials?.map((card) => card.instanceId)).toEqual([
+          "material-0",
+          "material-1",
+        ]);
+        expect(xyzMonster.stateOnField?.xyzMaterials?.every((card) => card.stateOnField === undefined)).toBe(true);
+      });
+
+      it("メインモンスターゾーンが埋まっていても素材が抜けた枠に召喚できる", () => {
+        const state = createXyzSummonReadyState({ materialLevels: [4, 4, 1, 1, 1] });
+
+        const updateResult = performXyzSummon(state, "xyz-0").step.action(state, ["material-0", "material-1"]);
+
+        expect(updateResult.success).toBe(true);
+        expect(updateResult.updatedState.space.mainMonsterZone).toHaveLength(4);
+      });
+
+      it("素材にしたモンスターの装備カードは墓地へ送られる", () => {
+        const state = createXyzSummonReadyState();
+        const equippedState = {
+          ...state,
+          space: {
+            ...state.space,
+            spellTrapZone: [createSpellOnField("equip-0", { spellType: "equip", equippedTo: "material-0" })],
+          },
+        };
+
+        const updateResult = performXyzSummon(equippedState, "xyz-0").step.action(equippedState, [
+          "material-0",
+          "material-1",
+        ]);
+
+        expect(updateResult.updatedState.space.spellTrapZone).toHaveLength(0);
+        expect(updateResult.updatedState.space.graveyard.map((card) => card.instanceId)).toEqual(["equip-0"]);
+      });
+
+      it("specialSummoned と xyzSummoned イベントを発行し、sentToGraveyard は発行しない", () => {
+        const state = createXyzSummonReadyState();
+
+        const updateResult = performXyzSummon(state, "xyz-0").step.action(state, ["material-0", "material-1"]);
+
+        const eventTypes = updateResult.emittedEvents?.map((event) => event.type);
+        expect(eventTypes).toEqual(["specialSummoned", "xyzSummoned"]);
+        expect(updateResult.emittedEvents?.[1].sourceCardId).toBe(DUMMY_CARD_IDS.XYZ_MONSTER);
+      });
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * ComboSolver のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { solveCombo, stateKey, analyzeCandidateCommands } from "$lib/domain/solver/ComboSolver";
+import type { GameSnapshot } from "$lib/domain/models/GameState";
+import type { AtomicStep, ValidationResult } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { CardDataRegistry } from "$lib/domain/cards";
+import { BaseIgnitionEffect } from "$lib/domain/effects/actions/ignitions/BaseIgnitionEffect";
+import { ChainableActionRegistry } from "$lib/domain/effects/actions/ChainableActionRegistry";
+import { drawStep } from "$lib/domain/dsl/steps/builders/draws";
+import {
+  createMockGameState,
+  createExodiaVictoryState,
+  createHand,
+  createMainDeck,
+  createMonsterOnField,
+  ACTUAL_CARD_IDS,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+const { EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG, EXODIA_RIGHT_LEG } = ACTUAL_CARD_IDS;
+const { POT_OF_GREED, GRACEFUL_CHARITY } = ACTUAL_CARD_IDS;
+const { NORMAL_MONSTER } = DUMMY_CARD_IDS;
+
+// 何度でも発動でき、指定枚数をドローする起動効果
+// 解決後に発動記録を消すため、ドロー枚数が同じなら発動回数が違っても同一局面になる
+const DRAW_ONE_MONSTER_ID = 1901;
+const DRAW_TWO_MONSTER_ID = 1902;
+
+class TestDrawIgnitionEffect extends BaseIgnitionEffect {
+  constructor(
+    cardId: number,
+    private readonly drawCount: number,
+  ) {
+    super(cardId, 1);
+  }
+
+  protected individualConditions(): ValidationResult {
+    return GameProcessing.Validation.success();
+  }
+
+  protected individualActivationSteps(): AtomicStep[] {
+    return [];
+  }
+
+  protected individualResolutionSteps(): AtomicStep[] {
+    return [
+      drawStep(this.drawCount),
+      {
+        id: "test-forget-activation",
+        summary: "発動記録を消去",
+        description: "テスト用に発動記録を消去する",
+        notificationLevel: "silent",
+        action: (state) =>
+          GameProcessing.Result.success({
+            ...state,
+            space: {
+              ...state.space,
+              mainMonsterZone: state.space.mainMonsterZone.map((card) =>
+                card.stateOnField ? { ...card, stateOnField: { ...card.stateOnField, activatedEffects: [] } } : card,
+              ),
+            },
+          }),
+      },
+    ];
+  }
+}
+
+for (const [cardId, jaName] of [
+  [DRAW_ONE_MONSTER_ID, "Dummy Draw One Monster"],
+  [DRAW_TWO_MONSTER_ID, "Dummy Draw Two Monster"],
+] as const) {
+  CardDataRegistry.register(cardId, {
+    jaName,
+    type: "monster",
+    frameType: "effect",
+    monsterTypeList: ["effect"],
+    edition: "latest",
+  });
+}
+ChainableActionRegistry.registerIgnition(DRAW_ONE_MONSTER_ID, new TestDrawIgnitionEffect(DRAW_ONE_MONSTER_ID, 1));
+ChainableActionRegistry.registerIgnition(DRAW_TWO_MONSTER_ID, new TestDrawIgnitionEffect(DRAW_TWO_MONSTER_ID, 2));
+
+// 手札とデッキ（ドローされる順）を指定したメインフェイズ1の局面
+const createState = (handIds: number[], drawOrder: number[]): GameSnapshot =>
+  createMockGameState({
+    phase: "main1",
+    space: { ...createHand(handIds), ...createMainDeck([...drawOrder].reverse()) },
+  });
+
+describe("ComboSolver", () => {
+  it("既に勝利している局面では操作なしで勝利を返す", () => {
+    const result = solveCombo(createExodiaVictoryState());
+
+    expect(result.status).toBe("win");
+    expect(result.moves).toEqual([]);
+  });
+
+  it("強欲な壺で最後のエクゾディアパーツを引く操作列を見つける", () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG],
+      [EXODIA_RIGHT_LEG, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+
+    const result = solveCombo(state);
+
+    expect(result.status).toBe("win");
+    expect(result.finalState?.result.reason).toBe("exodia");
+    expect(result.moves[0]).toMatchObject({ type: "command", command: "activateSpell", cardId: POT_OF_GREED });
+  });
+
+  it("カード選択を分岐させ、勝利につながる捨て札を選ぶ", () => {
+    // 天使の施し: 通常モンスター x2 とパーツ4を引き、通常モンスター x2 を捨てる → 強欲な壺でパーツ5を引く
+    const state = createState(
+      [GRACEFUL_CHARITY, POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM],
+      [NORMAL_MONSTER, NORMAL_MONSTER, EXODIA_LEFT_LEG, EXODIA_RIGHT_LEG, NORMAL_MONSTER],
+    );
+
+    const result = solveCombo(state);
+
+    expect(result.status).toBe("win");
+    expect(result.moves[0]).toMatchObject({ type: "command", command: "activateSpell", cardId: GRACEFUL_CHARITY });
+    const selection = result.moves.find((move) => move.type === "answer" && move.answer.kind === "cardSelection");
+    expect(selection).toBeDefined();
+    const discardedIds = result.finalState!.space.graveyard.map((card) => card.id);
+    expect(discardedIds.filter((id) => id === NORMAL_MONSTER)).toHaveLength(2);
+  });
+
+  it("勝利できない局面では noWin を返す", () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, NORMAL_MONSTER, NORMAL_MONSTER],
+      [NORMAL_MONSTER, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+
+    const result = solveCombo(state);
+
+    expect(result.status).toBe("noWin");
+    expect(result.moves).toEqual([]);
+    expect(result.exploredNodes).toBeGreaterThan(0);
+  });
+
+  it("操作数の上限で打ち切った場合は、勝利できなくても noWin ではなく budgetExceeded を返す", () => {
+    const state = createState(
+      [POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, NORMAL_MONSTER, NORMAL_MONSTER],
+      [NORMAL_MONSTER, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+
+    expect(solveCombo(state, { maxDepth: 1 }).status).toBe("budgetExceeded");
+  });
+
+  it("カード選択の列挙を上限で打ち切った場合は、勝利できなくても noWin ではなく budgetExceeded を返す", () => {
+    // 天使の施し: 捨てる2枚の組み合わせは4通り（通常モンスター・胴体・左腕から2枚）
+    const state = createState(
+      [GRACEFUL_CHARITY, EXODIA_BODY, EXODIA_LEFT_ARM, NORMAL_MONSTER, NORMAL_MONSTER],
+      [NORMAL_MONSTER, NORMAL_MONSTER, NORMAL_MONSTER],
+    );
+
+    expect(solveCombo(state).status).toBe("noWin");
+    expect(solveCombo(state, { maxSelectionOptions: 1 }).status).toBe("budgetExceeded");
+  });
+
+  it("深い位置で探索済みの局面でも、より浅い位置で到達した場合は探索し直す", () => {
+    // 1枚ドローを先に試すため、2枚ドロー済みの局面は最初に深さ2で探索される（残り1手では勝てない）
+    // 勝ち筋は 2枚ドロー x3 のみ（6枚目がパーツ5）
+    const state = createMockGameState({
+      phase: "main1",
+      space: {
+        ...createHand([EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM, EXODIA_LEFT_LEG]),
+        ...createMainDeck(
+          [
+            ...Array.from({ length: 5 }, () => NORMAL_MONSTER),
+            EXODIA_RIGHT_LEG,
+            NORMAL_MONSTER,
+            NORMAL_MONSTER,
+          ].reverse(),
+        ),
+        mainMonsterZone: [
+          createMonsterOnField("draw-one", { cardId: DRAW_ONE_MONSTER_ID }),
+          createMonsterOnField("draw-two", { cardId: DRAW_TWO_MONSTER_ID }),
+        ],
+      },
+    });
+
+    const result = solveCombo(state, { maxDepth: 3 });
+
+    expect(result.status).toBe("win");
+    expect(result.moves.filter((move) => move.type === "command")).toHaveLength(3);
+  });
+
+  it("探索上限に達した場合は budgetExceeded を返す", () => {
+    const state = createState(
+      [GRACEFUL_CHARITY, POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM],
+      [NORMAL_MONSTER, NORMAL_MONSTER, EXODIA_LEFT_LEG, EXODIA_RIGHT_LEG, NORMAL_MONSTER],
+    );
+
+    const result = solveCombo(state, { maxNodes: 1 });
+
+    expect(result.status).toBe("budgetExceeded");
+    expect(result.exploredNodes).toBe(1);
+  });
+
+  it("インスタンスIDと手札の並び順だけが異なる局面は同一視する", () => {
+    const a = createState([POT_OF_GREED, NORMAL_MONSTER], [NORMAL_MONSTER]);
+    const b = createMockGameState({
+      phase: "main1",
+      space: {
+        ...createMainDeck([NORMAL_MONSTER]),
+        hand: [...createHand([NORMAL_MONSTER, POT_OF_GREED]).hand].map((card, i) => ({
+          ...card,
+          instanceId: `other-${i}`,
+        })),
+      },
+    });
+
+    expect(stateKey(a)).toBe(stateKey(b));
+    expect(stateKey(a)).not.toBe(stateKey(createState([POT_OF_GREED], [NORMAL_MONSTER])));
+  });
+
+  describe("analyzeCandidateCommands", () => {
+    it("最初の1手ごとに勝ち筋を判定する", () => {
+      // 強欲な壺を先に使うとデッキが1枚になり天使の施しを発動できない
+      const state = createState(
+        [GRACEFUL_CHARITY, POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM],
+        [NORMAL_MONSTER, EXODIA_LEFT_LEG, EXODIA_RIGHT_LEG],
+      );
+
+      const analyses = analyzeCandidateCommands(state);
+      const statusOf = (cardId: number) =>
+        analyses.find((analysis) => analysis.candidate.instance.id === cardId)?.result.status;
+
+      expect(statusOf(GRACEFUL_CHARITY)).toBe("win");
+      expect(statusOf(POT_OF_GREED)).toBe("noWin");
+    });
+
+    it("最初の1手は固定した候補になる", () => {
+      const state = createState(
+        [GRACEFUL_CHARITY, POT_OF_GREED, EXODIA_BODY, EXODIA_LEFT_ARM, EXODIA_RIGHT_ARM],
+        [NORMAL_MONSTER, EXODIA_LEFT_LEG, EXODIA_RIGHT_LEG],
+      );
+
+      for (const { candidate, result } of analyzeCandidateCommands(state)) {
+        if (result.status !== "win") continue;
+        expect(result.moves[0]).toMatchObject({ type: "command", args: candidate.args });
+      }
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * EffectProcessing のテスト
+ */
+
+import { describe, it, expect } from "vitest";
+import { enumerateCardSelections, startEffectProcessing } from "$lib/domain/solver/EffectProcessing";
+import type { ProcessingOutcome } from "$lib/domain/solver/EffectProcessing";
+import type { AtomicStep, CardSelectionConfig } from "$lib/domain/models/GameProcessing";
+import { GameProcessing } from "$lib/domain/models/GameProcessing";
+import { GameState } from "$lib/domain/models/GameState";
+import { ActivateSpellCommand } from "$lib/domain/commands/ActivateSpellCommand";
+import {
+  createMockGameState,
+  createHand,
+  createMainDeck,
+  createMonsterInstance,
+  ACTUAL_CARD_IDS,
+  DUMMY_CARD_IDS,
+} from "../../../__testUtils__";
+
+const selectionConfig = (overrides: Partial<CardSelectionConfig> = {}): CardSelectionConfig => ({
+  summary: "選択",
+  description: "カードを選択",
+  availableCards: null,
+  minCards: 2,
+  maxCards: 2,
+  cancelable: false,
+  ...overrides,
+});
+
+// 意思決定を常に先頭の選択肢で進め、処理完了まで辿る
+const settleWithFirstOptions = (outcome: ProcessingOutcome): ProcessingOutcome => {
+  let current = outcome;
+  while (current.kind === "decision") {
+    current = current.options[0].resume();
+  }
+  return current;
+};
+
+describe("EffectProcessing", () => {
+  describe("enumerateCardSelections", () => {
+    const cards = [
+      createMonsterInstance("m-0", { cardId: DUMMY_CARD_IDS.NORMAL_MONSTER }),
+      createMonsterInstance("m-1", { cardId: DUMMY_CARD_IDS.NORMAL_MONSTER }),
+      createMonsterInstance("m-2", { cardId: DUMMY_CARD_IDS.EFFECT_MONSTER }),
+    ];
+
+    it("同一視できるカードの組み合わせは1つにまとめる", () => {
+      expect(enumerateCardSelections(selectionConfig(), cards)).toEqual([
+        ["m-0", "m-1"],
+        ["m-0", "m-2"],
+      ]);
+    });
+
+    it("canConfirm を満たさない組み合わせは除外する", () => {
+      const config = selectionConfig({ canConfirm: (selected) => selected.every((c) => c.instanceId !== "m-2") });
+
+      expect(enumerateCardSelections(config, cards)).toEqual([["m-0", "m-1"]]);
+    });
+
+    it("候補が minCards に満たない場合は空の選択のみを返す", () => {
+      expect(enumerateCardSelections(selectionConfig({ minCards: 4, maxCards: 4 }), cards)).toEqual([[]]);
+    });
+
+    it("列挙数の上限を超えない", () => {
+      expect(enumerateCardSelections(selectionConfig({ minCards: 1, maxCards: 3 }), cards, 2)).toHaveLength(2);
+    });
+  });
+
+  describe("startEffectProcessing", () => {
+    it("チェーンブロックを解決し、処理完了後の局面を返す", () => {
+      const state = createMockGameState({
+        phase: "main1",
+        space: {
+          ...createHand([ACTUAL_CARD_IDS.POT_OF_GREED]),
+          ...createMainDeck([DUMMY_CARD_IDS.NORMAL_MONSTER, DUMMY_CARD_IDS.NORMAL_MONSTER]),
+        },
+      });
+      const result = new ActivateSpellCommand(state.space.hand[0].instanceId).execute(state);
+
+      const outcome = settleWithFirstOptions(
+        startEffectProcessing(result.updatedState, result.chainBlock, result.activationSteps),
+      );
+
+      expect(outcome.kind).toBe("settled");
+      if (outcome.kind !== "settled") return;
+      expect(outcome.state.space.hand).toHaveLength(2);
+      expect(outcome.state.space.graveyard.map((c) => c.id)).toEqual([ACTUAL_CARD_IDS.POT_OF_GREED]);
+    });
+
+    it("無効化されたチェーンブロックは効果処理を行わず、発動したカードを墓地へ送る", () => {
+      const state = createMockGameState({
+        phase: "main1",
+        space: {
+          ...createHand([ACTUAL_CARD_IDS.POT_OF_GREED]),
+          ...createMainDeck([DUMMY_CARD_IDS.NORMAL_MONSTER, DUMMY_CARD_IDS.NORMAL_MONSTER]),
+        },
+      });
+      const result = new ActivateSpellCommand(state.space.hand[0].instanceId).execute(state);
+      const negateStep: AtomicStep = {
+        id: "negate-chain-1",
+        summary: "発動の無効",
+        description: "チェーン1の発動を無効にします",
+        notificationLevel: "silent",
+        action: (current) =>
+          GameProcessing.Result.success(
+            { ...current, chainLinks: GameState.Chain.negate(current.chainLinks ?? [], 1, "activation") },
+            "negated",
+          ),
+      };
+
+      const outcome = settleWithFirstOptions(
+        startEffectProcessing(result.updatedState, result.chainBlock, [...result.activationSteps, negateStep]),
+      );
+
+      expect(outcome.kind).toBe("settled");
+      if (outcome.kind !== "settled") return;
+      expect(outcome.state.space.hand).toHaveLength(0);
+      expect(outcome.state.space.graveyard.map((c) => c.id)).toEqual([ACTUAL_CARD_IDS.POT_OF_GREED]);
+      expect(outcome.state.chainLinks).toBeUndefined();
+    });
+
+    it("カード選択を伴う効果では選択肢ごとの分岐を返す", () => {
+      const state = createMockGameState({
+        phase: "main1",
+        space: {
+          ...createHand([ACTUAL_CARD_IDS.GRACEFUL_CHARITY]),
+          ...createMainDeck([
+            DUMMY_CARD_IDS.NORMAL_MONSTER,
+            DUMMY_CARD_IDS.EFFECT_MONSTER,
+            ACTUAL_CARD_IDS.POT_OF_GREED,
+          ]),
+        },
+      });
+      const result = new ActivateSpellCommand(state.space.hand[0].instanceId).execute(state);
+
+      let outcome = startEffectProcessing(result.updatedState, result.chainBlock, result.activationSteps);
+      while (outcome.kind === "decision" && outcome.options[0].answer.kind !== "cardSelection") {
+        outcome = outcome.options[0].resume();
+      }
+
+      expect(outcome.kind).toBe("decision");
+      if (outcome.kind !== "decision") return;
+      // 3枚から2枚を選ぶ組み合わせ
+      expect(outcome.options).toHaveLength(3);
+      expect(outcome.truncated).toBe(false);
+      const settledOutcome = settleWithFirstOptions(outcome.options[0].resume());
+      expect(settledOutcome.kind === "settled" && settledOutcome.state.space.hand).toHaveLength(1);
+    });
+
+    it("カード選択の列挙を上限で打ち切った場合は truncated を返す", () => {
+      const state = createMockGameState({
+        phase: "main1",
+        space: {
+          ...createHand([ACTUAL_CARD_IDS.GRACEFUL_CHARITY]),
+          ...createMainDeck([
+            DUMMY_CARD_IDS.NORMAL_MONSTER,
+            DUMMY_CARD_IDS.EFFECT_MONSTER,
+            ACTUAL_CARD_IDS.POT_OF_GREED,
+          ]),
+        },
+      });
+      const result = new ActivateSpellCommand(state.space.hand[0].instanceId).execute(state);
+
+      let outcome = startEffectProcessing(result.updatedState, result.chainBlock, result.activationSteps, {
+        maxSelectionOptions: 2,
+      });
+      while (outcome.kind === "decision" && outcome.options[0].answer.kind !== "cardSelection") {
+        outcome = outcome.options[0].resume();
+      }
+
+      expect(outcome.kind).toBe("decision");
+      if (outcome.kind !== "decision") return;
+      expect(outcome.options).toHaveLength(2);
+      expect(outcome.truncated).toBe(true);
+    });
+  });
+});
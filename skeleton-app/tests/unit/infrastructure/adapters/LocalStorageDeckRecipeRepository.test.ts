@@ -0,0 +1,37 @@
+/**
+ * LocalStorageDeckRecipeRepository のテスト
+ *
+ * カスタムデッキレシピの保存・一覧・削除を検証する。
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { LocalStorageDeckRecipeRepository } from "$lib/infrastructure/adapters/LocalStorageDeckRecipeRepository";
+import { useInMemoryLocalStorage } from "../../../__testUtils__";
+
+describe("LocalStorageDeckRecipeRepository", () => {
+  beforeEach(() => {
+    useInMemoryLocalStorage();
+  });
+
+  it("保存したデッキレシピを一覧で返す（他のキーは含まない）", () => {
+    const repository = new LocalStorageDeckRecipeRepository();
+    localStorage.setItem("ygo_puzzle_progress", "{}");
+
+    repository.save("custom-a", '{"name":"A"}');
+    repository.save("custom-b", '{"name":"B"}');
+    repository.save("custom-a", '{"name":"A2"}');
+
+    expect(repository.list()).toEqual([
+      { deckId: "custom-a", json: '{"name":"A2"}' },
+      { deckId: "custom-b", json: '{"name":"B"}' },
+    ]);
+  });
+
+  it("削除したデッキレシピは一覧に含まない", () => {
+    const repository = new LocalStorageDeckRecipeRepository();
+    repository.save("custom-a", '{"name":"A"}');
+
+    repository.delete("custom-a");
+
+    expect(repository.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * LocalStorageGameSnapshotRepository のテスト
+ *
+ * セーブスロットの保存・一覧・削除と、旧形式の単一キーからの移動を検証する。
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { LocalStorageGameSnapshotRepository } from "$lib/infrastructure/adapters/LocalStorageGameSnapshotRepository";
+import { AUTO_SAVE_SLOT_ID } from "$lib/application/ports/IGameSnapshotRepository";
+import { useInMemoryLocalStorage } from "../../../__testUtils__";
+
+describe("LocalStorageGameSnapshotRepository", () => {
+  beforeEach(() => {
+    useInMemoryLocalStorage();
+  });
+
+  it("スロットごとに保存・読み込みできる", () => {
+    const repository = new LocalStorageGameSnapshotRepository();
+
+    repository.save("a", '{"slot":"a"}');
+    repository.save("b", '{"slot":"b"}');
+
+    expect(repository.load("a")).toBe('{"slot":"a"}');
+    expect(repository.load("b")).toBe('{"slot":"b"}');
+    expect(repository.load("missing")).toBeNull();
+  });
+
+  it("保存済みの全スロットを返し、削除できる", () => {
+    const repository = new LocalStorageGameSnapshotRepository();
+    repository.save("a", "{}");
+    repository.save(AUTO_SAVE_SLOT_ID, "{}");
+    localStorage.setItem("unrelated_key", "{}");
+
+    expect(repository.list().map((slot) => slot.slotId)).toEqual(["a", AUTO_SAVE_SLOT_ID]);
+
+    repository.delete("a");
+    expect(repository.list()).toEqual([{ slotId: AUTO_SAVE_SLOT_ID, json: "{}" }]);
+  });
+
+  it("旧形式の単一キーを自動保存スロットへ移動する", () => {
+    localStorage.setItem("ygo_saved_game", '{"version":2}');
+
+    const repository = new LocalStorageGameSnapshotRepository();
+
+    expect(localStorage.getItem("ygo_saved_game")).toBeNull();
+    expect(repository.load(AUTO_SAVE_SLOT_ID)).toBe('{"version":2}');
+  });
+
+  it("自動保存スロットが既にある場合は旧形式のキーで上書きしない", () => {
+    localStorage.setItem("ygo_save_slot:auto", '{"version":3}');
+    localStorage.setItem("ygo_saved_game", '{"version":2}');
+
+    const repository = new LocalStorageGameSnapshotRepository();
+
+    expect(repository.load(AUTO_SAVE_SLOT_ID)).toBe('{"version":3}');
+  });
+});
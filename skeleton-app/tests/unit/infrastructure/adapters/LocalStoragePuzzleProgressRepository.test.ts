@@ -0,0 +1,33 @@
+/**
+ * LocalStoragePuzzleProgressRepository のテスト
+ *
+ * パズル進捗の保存・読み込みと、読み込めない保存データの扱いを検証する。
+ */
+import { describe, it, expect, beforeEach } from "vitest";
+import { LocalStoragePuzzleProgressRepository } from "$lib/infrastructure/adapters/LocalStoragePuzzleProgressRepository";
+import { useInMemoryLocalStorage } from "../../../__testUtils__";
+
+describe("LocalStoragePuzzleProgressRepository", () => {
+  beforeEach(() => {
+    useInMemoryLocalStorage();
+  });
+
+  it("保存した進捗を読み込める（未保存の場合は空）", () => {
+    const repository = new LocalStoragePuzzleProgressRepository();
+    expect(repository.load()).toEqual({});
+
+    repository.save({ a: { attempts: 2, clearedAt: null }, b: { attempts: 1, clearedAt: 100 } });
+
+    expect(repository.load()).toEqual({ a: { attempts: 2, clearedAt: null }, b: { attempts: 1, clearedAt: 100 } });
+  });
+
+  it("壊れた保存データは空として、形式の異なるエントリは除いて読み込む", () => {
+    const repository = new LocalStoragePuzzleProgressRepository();
+
+    localStorage.setItem("ygo_puzzle_progress", "{broken");
+    expect(repository.load()).toEqual({});
+
+    localStorage.setItem("ygo_puzzle_progress", JSON.stringify({ a: { attempts: 1, clearedAt: null }, b: "x" }));
+    expect(repository.load()).toEqual({ a: { attempts: 1, clearedAt: null } });
+  });
+});
@@ -86,4 +86,13 @@ describe("shuffleArray", () => {
     // すべてのカードが含まれていることを確認
     expect(shuffled.map((c) => c.id).sort()).toEqual([1, 2, 3]);
   });
+
+  it("乱数関数を注入すると結果を再現できること", () => {
+    const original = [1, 2, 3, 4, 5];
+    // 常に 0 を返す乱数: 各要素を先頭と入れ替える
+    const shuffled = shuffleArray(original, () => 0);
+
+    expect(shuffled).toEqual([2, 3, 4, 5, 1]);
+    expect(shuffleArray(original, () => 0)).toEqual(shuffled);
+  });
 });